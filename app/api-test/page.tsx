@@ -239,6 +239,7 @@ export default function ApiTestPage() {
   );
   const [progress, setProgress] = useState(Math.round(SAMPLE_SWING_CONTEXT.progress));
   const [sport, setSport] = useState(SAMPLE_SWING_CONTEXT.sport || "pickleball");
+  const canRecommendRacket = sport === "pickleball";
 
   // === Shark Technique Analysis State ===
   const [sharkVideoFile, setSharkVideoFile] = useState<File | null>(null);
@@ -351,7 +352,7 @@ export default function ApiTestPage() {
     abortControllerRef.current = new AbortController();
 
     try {
-      const res = await fetch("/api/external/pickleball/technique-chat", {
+      const res = await fetch(`/api/external/${sport}/technique-chat`, {
         method: "POST",
         headers: {
           "Authorization": `Bearer ${apiKey}`,
@@ -362,7 +363,7 @@ export default function ApiTestPage() {
           agentName: agentName.trim() || "Coach",
           insightLevel,
           swingContext: buildSwingContext(),
-          racketRecommendation,
+          racketRecommendation: canRecommendRacket && racketRecommendation,
         }),
         signal: abortControllerRef.current.signal,
       });
@@ -378,7 +379,7 @@ export default function ApiTestPage() {
       }
 
       // Use appropriate parser based on mode
-      if (racketRecommendation) {
+      if (canRecommendRacket && racketRecommendation) {
         await parseSSEStream(reader);
       } else {
         await parsePlainTextStream(reader);
@@ -559,7 +560,8 @@ export default function ApiTestPage() {
         </Flex>
 
         <Text color="gray" size="2">
-          Test the <Code>/api/external/pickleball/technique-chat</Code> endpoint with sample swing data.
+          Test the <Code>/api/external/{sport}/technique-chat</Code> endpoint with sample swing data.
+          The sport selected under the swing context picks the endpoint.
         </Text>
 
         <Card>
@@ -680,7 +682,8 @@ export default function ApiTestPage() {
             <Flex align="center" gap="2">
               <Checkbox
                 id="racket-recommendation"
-                checked={racketRecommendation}
+                checked={canRecommendRacket && racketRecommendation}
+                disabled={!canRecommendRacket}
                 onCheckedChange={(checked) => setRacketRecommendation(checked === true)}
               />
               <label htmlFor="racket-recommendation">
@@ -688,7 +691,10 @@ export default function ApiTestPage() {
                   Include Racket Recommendation
                 </Text>
               </label>
-              {racketRecommendation && (
+              {!canRecommendRacket && (
+                <Text size="1" color="gray">(pickleball only)</Text>
+              )}
+              {canRecommendRacket && racketRecommendation && (
                 <Tooltip content="Server-Sent Events: Returns structured racket data first, then streams the explanation text">
                   <Badge color="blue" variant="soft" size="1" style={{ cursor: "help" }}>SSE Mode</Badge>
                 </Tooltip>
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI, SchemaType } from "@google/generative-ai";
 import { analysisLogger } from "@/lib/logger";
+import { generateText, getLLMProvider, parseJSONResponse, type LLMJsonSchema } from "@/lib/llm-providers";
 import type {
   AnalysisType,
   CourtAnalysisResult,
@@ -12,82 +12,66 @@ import type {
 export const runtime = "nodejs";
 export const maxDuration = 30; // 30 seconds max for frame analysis
 
-// Use Gemini 3 Flash - same model used for main chat, best reasoning
-const PRO_MODEL = "gemini-3-flash-preview";
-
-// Lazy initialization
-let genAI: GoogleGenerativeAI | null = null;
-
-function getGenAI(): GoogleGenerativeAI {
-  if (!genAI) {
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY environment variable is not set");
-    }
-    genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-  }
-  return genAI;
-}
-
 // ============================================================================
 // Response Schemas (for structured output)
 // ============================================================================
 
-const COURT_DETECTION_SCHEMA = {
-  type: SchemaType.OBJECT,
+const COURT_DETECTION_SCHEMA: LLMJsonSchema = {
+  type: "object",
   properties: {
-    found: { type: SchemaType.BOOLEAN },
+    found: { type: "boolean" },
     courtType: { 
-      type: SchemaType.STRING, 
+      type: "string", 
       enum: ["tennis", "pickleball", "padel", "unknown"] 
     },
     corners: {
-      type: SchemaType.OBJECT,
+      type: "object",
       properties: {
         topLeft: { 
-          type: SchemaType.OBJECT, 
-          properties: { x: { type: SchemaType.NUMBER }, y: { type: SchemaType.NUMBER } },
+          type: "object", 
+          properties: { x: { type: "number" }, y: { type: "number" } },
           required: ["x", "y"],
         },
         topRight: { 
-          type: SchemaType.OBJECT, 
-          properties: { x: { type: SchemaType.NUMBER }, y: { type: SchemaType.NUMBER } },
+          type: "object", 
+          properties: { x: { type: "number" }, y: { type: "number" } },
           required: ["x", "y"],
         },
         bottomLeft: { 
-          type: SchemaType.OBJECT, 
-          properties: { x: { type: SchemaType.NUMBER }, y: { type: SchemaType.NUMBER } },
+          type: "object", 
+          properties: { x: { type: "number" }, y: { type: "number" } },
           required: ["x", "y"],
         },
         bottomRight: { 
-          type: SchemaType.OBJECT, 
-          properties: { x: { type: SchemaType.NUMBER }, y: { type: SchemaType.NUMBER } },
+          type: "object", 
+          properties: { x: { type: "number" }, y: { type: "number" } },
           required: ["x", "y"],
         },
       },
     },
     boundingBox: {
-      type: SchemaType.OBJECT,
+      type: "object",
       properties: {
-        x: { type: SchemaType.NUMBER },
-        y: { type: SchemaType.NUMBER },
-        width: { type: SchemaType.NUMBER },
-        height: { type: SchemaType.NUMBER },
+        x: { type: "number" },
+        y: { type: "number" },
+        width: { type: "number" },
+        height: { type: "number" },
       },
     },
-    confidence: { type: SchemaType.NUMBER },
+    confidence: { type: "number" },
   },
   required: ["found", "confidence"],
 };
 
-const CAMERA_ANGLE_SCHEMA = {
-  type: SchemaType.OBJECT,
+const CAMERA_ANGLE_SCHEMA: LLMJsonSchema = {
+  type: "object",
   properties: {
     angle: { 
-      type: SchemaType.STRING, 
+      type: "string", 
       enum: ["behind", "side", "overhead", "diagonal", "other"] 
     },
-    confidence: { type: SchemaType.NUMBER },
-    description: { type: SchemaType.STRING },
+    confidence: { type: "number" },
+    description: { type: "string" },
   },
   required: ["angle", "confidence"],
 };
@@ -159,48 +143,38 @@ async function analyzeCourtDetection(
   sport?: string
 ): Promise<CourtAnalysisResult> {
   analysisLogger.debug(`[${requestId}] Court detection start`, {
-    model: PRO_MODEL,
+    // Pro tier - same model used for main chat, best reasoning
+    model: getLLMProvider().resolveModel("pro"),
     sport: sport || "none",
     imageSize: `${(base64Image.length * 0.75 / 1024).toFixed(1)}KB`,
   });
   
   const prompt = getCourtDetectionPrompt(sport);
   
-  const model = getGenAI().getGenerativeModel({
-    model: PRO_MODEL,
-    generationConfig: {
-      maxOutputTokens: 500,
-      temperature: 0.1,
-      responseMimeType: "application/json",
-      responseSchema: COURT_DETECTION_SCHEMA as any,
-    },
-  });
-
   const apiStartTime = Date.now();
   
-  const result = await model.generateContent([
-    { text: prompt },
-    {
-      inlineData: {
-        data: base64Image,
-        mimeType,
-      },
-    },
-  ]);
+  const result = await generateText({
+    requestId,
+    label: "analyze-frame:court",
+    tier: "pro",
+    prompt,
+    media: [{ data: base64Image, mimeType }],
+    maxOutputTokens: 500,
+    temperature: 0.1,
+    json: COURT_DETECTION_SCHEMA,
+    timeoutMs: 25_000,
+  });
 
   const apiDuration = Date.now() - apiStartTime;
-  analysisLogger.debug(`[${requestId}] Gemini API responded in ${apiDuration}ms`);
-
-  const response = result.response;
-  const responseText = response.text();
+  analysisLogger.debug(`[${requestId}] LLM responded in ${apiDuration}ms (${result.model})`);
 
   try {
-    const parsed = JSON.parse(responseText);
+    const parsed = parseJSONResponse<Partial<CourtAnalysisResult>>(result.text);
     
     analysisLogger.debug(`[${requestId}] Court detection result`, {
       found: parsed.found,
       courtType: parsed.courtType,
-      confidence: `${(parsed.confidence * 100).toFixed(1)}%`,
+      confidence: `${((parsed.confidence ?? 0) * 100).toFixed(1)}%`,
     });
     
     return {
@@ -228,44 +202,33 @@ async function analyzeCameraAngle(
   requestId: string
 ): Promise<CameraAngleResult> {
   analysisLogger.debug(`[${requestId}] Camera angle detection start`, {
-    model: PRO_MODEL,
+    model: getLLMProvider().resolveModel("pro"),
     imageSize: `${(base64Image.length * 0.75 / 1024).toFixed(1)}KB`,
   });
   
-  const model = getGenAI().getGenerativeModel({
-    model: PRO_MODEL,
-    generationConfig: {
-      maxOutputTokens: 200,
-      temperature: 0.1,
-      responseMimeType: "application/json",
-      responseSchema: CAMERA_ANGLE_SCHEMA as any,
-    },
-  });
-
   const apiStartTime = Date.now();
 
-  const result = await model.generateContent([
-    { text: CAMERA_ANGLE_PROMPT },
-    {
-      inlineData: {
-        data: base64Image,
-        mimeType,
-      },
-    },
-  ]);
+  const result = await generateText({
+    requestId,
+    label: "analyze-frame:camera-angle",
+    tier: "pro",
+    prompt: CAMERA_ANGLE_PROMPT,
+    media: [{ data: base64Image, mimeType }],
+    maxOutputTokens: 200,
+    temperature: 0.1,
+    json: CAMERA_ANGLE_SCHEMA,
+    timeoutMs: 25_000,
+  });
 
   const apiDuration = Date.now() - apiStartTime;
-  analysisLogger.debug(`[${requestId}] Gemini API responded in ${apiDuration}ms`);
-
-  const response = result.response;
-  const responseText = response.text();
+  analysisLogger.debug(`[${requestId}] LLM responded in ${apiDuration}ms (${result.model})`);
 
   try {
-    const parsed = JSON.parse(responseText);
+    const parsed = parseJSONResponse<Partial<CameraAngleResult>>(result.text);
     
     analysisLogger.debug(`[${requestId}] Camera angle result`, {
       angle: parsed.angle,
-      confidence: `${(parsed.confidence * 100).toFixed(1)}%`,
+      confidence: `${((parsed.confidence ?? 0) * 100).toFixed(1)}%`,
       description: parsed.description || "none",
     });
     
@@ -291,7 +254,7 @@ async function analyzeCameraAngle(
 // ============================================================================
 
 /**
- * Analyze a single frame with Gemini
+ * Analyze a single frame with the LLM
  * POST /api/analyze-frame
  * 
  * Expects FormData with:
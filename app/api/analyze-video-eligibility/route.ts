@@ -1,28 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI, SchemaType, type Schema } from "@google/generative-ai";
 import { logger } from "@/lib/logger";
+import { generateText, parseJSONResponse, type LLMJsonSchema } from "@/lib/llm-providers";
 import { DETECTED_SPORTS, type DetectedSport } from "@/types/chat";
 
 // Ensure this route uses Node.js runtime
 export const runtime = "nodejs";
 export const maxDuration = 30; // 30 seconds max for quick detection
 
-// Use Gemini 2 Flash for fastest response
-const MODEL_NAME = "gemini-2.0-flash";
-
-// Lazy initialization
-let genAI: GoogleGenerativeAI | null = null;
-
-function getGenAI(): GoogleGenerativeAI {
-  if (!genAI) {
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY environment variable is not set");
-    }
-    genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-  }
-  return genAI;
-}
-
 // Camera angle types
 const CAMERA_ANGLES = [
   "elevated_back_court",  // High behind baseline, full court visible - ideal for PRO
@@ -35,31 +19,30 @@ const CAMERA_ANGLES = [
 type CameraAngle = typeof CAMERA_ANGLES[number];
 
 // Response schema for structured output
-// Note: Using type assertion because the library types are overly strict with enum schemas
-const ELIGIBILITY_SCHEMA = {
-  type: SchemaType.OBJECT,
+const ELIGIBILITY_SCHEMA: LLMJsonSchema = {
+  type: "object",
   properties: {
     sport: {
-      type: SchemaType.STRING,
+      type: "string",
       enum: [...DETECTED_SPORTS],
       description: "The sport being played"
     },
     cameraAngle: {
-      type: SchemaType.STRING,
+      type: "string",
       enum: ["elevated_back_court", "ground_behind", "side", "overhead", "diagonal", "other"],
       description: "The camera position and angle"
     },
     fullCourtVisible: {
-      type: SchemaType.BOOLEAN,
+      type: "boolean",
       description: "Whether both sides of the court/field are visible in the frame"
     },
     confidence: {
-      type: SchemaType.NUMBER,
+      type: "number",
       description: "Confidence score from 0 to 1"
     }
   },
   required: ["sport", "cameraAngle", "fullCourtVisible", "confidence"]
-} satisfies Record<string, unknown> as Schema;
+};
 
 export interface VideoEligibilityResult {
   sport: DetectedSport;
@@ -114,17 +97,6 @@ export async function POST(request: NextRequest) {
 
     logger.debug(`[${requestId}] Image size: ${(buffer.length / 1024).toFixed(1)}KB`);
 
-    // Create model with structured output for reliable parsing
-    const model = getGenAI().getGenerativeModel({
-      model: MODEL_NAME,
-      generationConfig: {
-        maxOutputTokens: 200,
-        temperature: 0.1, // Low temperature for consistent responses
-        responseMimeType: "application/json",
-        responseSchema: ELIGIBILITY_SCHEMA,
-      },
-    });
-
     // Comprehensive prompt for sport and camera angle detection
     const prompt = `Analyze this sports video frame and determine:
 
@@ -186,19 +158,20 @@ export async function POST(request: NextRequest) {
 
 4. CONFIDENCE: How confident are you? (0.0 to 1.0)`;
 
-    // Build request with image
-    const result = await model.generateContent([
-      { text: prompt },
-      {
-        inlineData: {
-          data: base64Image,
-          mimeType: imageFile.type,
-        },
-      },
-    ]);
+    // Lite tier with structured output for reliable parsing
+    const result = await generateText({
+      requestId,
+      label: "analyze-video-eligibility",
+      tier: "lite",
+      prompt,
+      media: [{ data: base64Image, mimeType: imageFile.type }],
+      maxOutputTokens: 200,
+      temperature: 0.1, // Low temperature for consistent responses
+      json: ELIGIBILITY_SCHEMA,
+      timeoutMs: 25_000,
+    });
 
-    const response = result.response;
-    const responseText = response.text();
+    const responseText = result.text;
 
     logger.debug(`[${requestId}] Raw response: "${responseText}"`);
 
@@ -211,7 +184,7 @@ export async function POST(request: NextRequest) {
     };
 
     try {
-      parsed = JSON.parse(responseText);
+      parsed = parseJSONResponse(responseText);
     } catch (parseError) {
       logger.error(`[${requestId}] Failed to parse JSON response:`, parseError);
       // Return defaults on parse error
@@ -1,28 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { logger } from "@/lib/logger";
+import { generateText } from "@/lib/llm-providers";
 import { DETECTED_SPORTS, type DetectedSport } from "@/types/chat";
 
 // Ensure this route uses Node.js runtime
 export const runtime = "nodejs";
 export const maxDuration = 30; // 30 seconds max for quick detection
 
-// Use Gemini Flash for fastest response
-const MODEL_NAME = "gemini-2.0-flash";
-
-// Lazy initialization
-let genAI: GoogleGenerativeAI | null = null;
-
-function getGenAI(): GoogleGenerativeAI {
-  if (!genAI) {
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY environment variable is not set");
-    }
-    genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-  }
-  return genAI;
-}
-
 /**
  * Detect sport from an image frame
  * POST /api/detect-sport
@@ -67,15 +51,6 @@ export async function POST(request: NextRequest) {
     
     logger.debug(`[${requestId}] Image size: ${(buffer.length / 1024).toFixed(1)}KB`);
     
-    // Create model with minimal configuration for speed
-    const model = getGenAI().getGenerativeModel({
-      model: MODEL_NAME,
-      generationConfig: {
-        maxOutputTokens: 32, // Allow for underscored labels (e.g. american_football, table_tennis)
-        temperature: 0.1, // Low temperature for consistent responses
-      },
-    });
-    
     // Prompt lists all sports from single source of truth (DETECTED_SPORTS)
     const sportList = DETECTED_SPORTS.map((s) => `- ${s}`).join("\n");
     const prompt = `Look at this image and identify the sport being played.
@@ -86,19 +61,19 @@ Examples: tennis court → "tennis". Pickleball court (smaller, kitchen zone) 
 
 Your response (one word only):`;
     
-    // Build request with image
-    const result = await model.generateContent([
-      { text: prompt },
-      {
-        inlineData: {
-          data: base64Image,
-          mimeType: imageFile.type,
-        },
-      },
-    ]);
+    // Lite tier with minimal configuration for speed
+    const result = await generateText({
+      requestId,
+      label: "detect-sport",
+      tier: "lite",
+      prompt,
+      media: [{ data: base64Image, mimeType: imageFile.type }],
+      maxOutputTokens: 32, // Allow for underscored labels (e.g. american_football, table_tennis)
+      temperature: 0.1, // Low temperature for consistent responses
+      timeoutMs: 25_000,
+    });
     
-    const response = result.response;
-    const responseText = response.text().toLowerCase().trim();
+    const responseText = result.text.toLowerCase().trim();
     
     logger.debug(`[${requestId}] Raw response: "${responseText}"`);
     
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { checkRateLimit, getRateLimitIdentifier, rateLimitedResponse } from "@/lib/rate-limit";
+import { generateApiKey, API_KEY_PUBLIC_COLUMNS } from "@/lib/api-key-auth";
+import type { IssuedApiKeyResponse } from "@/types/external-api";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/developer/keys/[keyId]/rotate
+ * Replace a key with a new secret and revoke the old one.
+ *
+ * The new key keeps the name, permissions, limits and expiry, and carries over
+ * this month's usage so rotating can't be used to reset the monthly quota.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> }
+) {
+  const { keyId } = await params;
+  const requestId = `developer_key_rotate_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const userId = user.id;
+
+    // Apply rate limiting
+    const rateLimitResult = await checkRateLimit(getRateLimitIdentifier(request, userId), "standard");
+    if (!rateLimitResult.success) {
+      logger.warn(`[${requestId}] Rate limit exceeded for user: ${userId}`);
+      return rateLimitedResponse(rateLimitResult);
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data: oldKey, error: fetchError } = await supabase
+      .from("api_keys")
+      .select("*")
+      .eq("id", keyId)
+      .eq("user_id", userId)
+      .eq("is_active", true)
+      .maybeSingle();
+
+    if (fetchError) {
+      logger.error(`[${requestId}] Error fetching API key:`, fetchError);
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+
+    if (!oldKey) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+
+    const { rawKey, keyHash, keyPrefix } = generateApiKey();
+    const metadata = oldKey.metadata && typeof oldKey.metadata === "object" && !Array.isArray(oldKey.metadata)
+      ? oldKey.metadata
+      : {};
+
+    const { data: newKey, error: insertError } = await supabase
+      .from("api_keys")
+      .insert({
+        key_hash: keyHash,
+        key_prefix: keyPrefix,
+        user_id: userId,
+        name: oldKey.name,
+        owner_email: oldKey.owner_email,
+        description: oldKey.description,
+        permissions: oldKey.permissions,
+        rate_limit_tier: oldKey.rate_limit_tier,
+        monthly_request_limit: oldKey.monthly_request_limit,
+        requests_this_month: oldKey.requests_this_month,
+        month_reset_at: oldKey.month_reset_at,
+        expires_at: oldKey.expires_at,
+        metadata: { ...metadata, rotated_from: oldKey.id },
+      })
+      .select(API_KEY_PUBLIC_COLUMNS)
+      .single();
+
+    if (insertError || !newKey) {
+      logger.error(`[${requestId}] Error creating rotated API key:`, insertError);
+      return NextResponse.json({ error: insertError?.message || "Failed to rotate API key" }, { status: 500 });
+    }
+
+    const { error: revokeError } = await supabase
+      .from("api_keys")
+      .update({ is_active: false })
+      .eq("id", oldKey.id);
+
+    if (revokeError) {
+      // Don't leave two live secrets behind - roll back the new key
+      logger.error(`[${requestId}] Error revoking old API key:`, revokeError);
+      await supabase.from("api_keys").delete().eq("id", newKey.id);
+      return NextResponse.json({ error: revokeError.message }, { status: 500 });
+    }
+
+    logger.info(`[${requestId}] Rotated API key ${oldKey.key_prefix} -> ${keyPrefix} for user: ${userId}`);
+
+    const response: IssuedApiKeyResponse = { key: newKey, rawKey };
+    return NextResponse.json(response, { status: 201 });
+
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
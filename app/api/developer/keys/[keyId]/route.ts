@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { checkRateLimit, getRateLimitIdentifier, rateLimitedResponse } from "@/lib/rate-limit";
+import { API_KEY_PUBLIC_COLUMNS } from "@/lib/api-key-auth";
+import {
+  MAX_API_KEY_DESCRIPTION_LENGTH,
+  MAX_API_KEY_NAME_LENGTH,
+  isValidApiKeyDescription,
+  isValidScopeList,
+} from "@/lib/api-key-scopes";
+import type { UpdateApiKeyRequest } from "@/types/external-api";
+import type { Database } from "@/types/supabase";
+
+export const runtime = "nodejs";
+
+/**
+ * PATCH /api/developer/keys/[keyId]
+ * Update an active key's name, description or permissions
+ *
+ * Body: UpdateApiKeyRequest
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> }
+) {
+  const { keyId } = await params;
+  const requestId = `developer_key_patch_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const userId = user.id;
+
+    // Apply rate limiting
+    const rateLimitResult = await checkRateLimit(getRateLimitIdentifier(request, userId), "standard");
+    if (!rateLimitResult.success) {
+      logger.warn(`[${requestId}] Rate limit exceeded for user: ${userId}`);
+      return rateLimitedResponse(rateLimitResult);
+    }
+
+    const body = (await request.json().catch(() => null)) as UpdateApiKeyRequest | null;
+    const updates: Database["public"]["Tables"]["api_keys"]["Update"] = {};
+
+    if (body?.name !== undefined) {
+      const name = typeof body.name === "string" ? body.name.trim() : "";
+      if (!name) {
+        return NextResponse.json({ error: "Key name cannot be empty" }, { status: 400 });
+      }
+      if (name.length > MAX_API_KEY_NAME_LENGTH) {
+        return NextResponse.json(
+          { error: `Key name must be at most ${MAX_API_KEY_NAME_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      updates.name = name;
+    }
+
+    if (body?.description !== undefined) {
+      if (!isValidApiKeyDescription(body.description)) {
+        return NextResponse.json(
+          { error: `Description must be a string of at most ${MAX_API_KEY_DESCRIPTION_LENGTH} characters, or null` },
+          { status: 400 }
+        );
+      }
+      updates.description = body.description?.trim() || null;
+    }
+
+    if (body?.permissions !== undefined) {
+      if (!isValidScopeList(body.permissions)) {
+        return NextResponse.json({ error: "At least one valid permission is required" }, { status: 400 });
+      }
+      updates.permissions = body.permissions;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: "No changes provided" }, { status: 400 });
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data, error } = await supabase
+      .from("api_keys")
+      .update(updates)
+      .eq("id", keyId)
+      .eq("user_id", userId)
+      .eq("is_active", true)
+      .select(API_KEY_PUBLIC_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`[${requestId}] Error updating API key:`, error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+
+    logger.info(`[${requestId}] Updated API key ${data.key_prefix} for user: ${userId}`);
+    return NextResponse.json({ key: data });
+
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/developer/keys/[keyId]
+ * Revoke a key. The row is kept (inactive) so its usage history stays visible.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> }
+) {
+  const { keyId } = await params;
+  const requestId = `developer_key_delete_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const userId = user.id;
+
+    // Apply rate limiting
+    const rateLimitResult = await checkRateLimit(getRateLimitIdentifier(request, userId), "standard");
+    if (!rateLimitResult.success) {
+      logger.warn(`[${requestId}] Rate limit exceeded for user: ${userId}`);
+      return rateLimitedResponse(rateLimitResult);
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data, error } = await supabase
+      .from("api_keys")
+      .update({ is_active: false })
+      .eq("id", keyId)
+      .eq("user_id", userId)
+      .select("id, key_prefix")
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`[${requestId}] Error revoking API key:`, error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+
+    logger.info(`[${requestId}] Revoked API key ${data.key_prefix} for user: ${userId}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
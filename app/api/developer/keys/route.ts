@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { checkRateLimit, getRateLimitIdentifier, rateLimitedResponse } from "@/lib/rate-limit";
+import { generateApiKey, API_KEY_PUBLIC_COLUMNS } from "@/lib/api-key-auth";
+import {
+  isValidApiKeyDescription,
+  isValidScopeList,
+  MAX_API_KEYS_PER_USER,
+  MAX_API_KEY_EXPIRY_DAYS,
+  MAX_API_KEY_NAME_LENGTH,
+  MAX_API_KEY_DESCRIPTION_LENGTH,
+} from "@/lib/api-key-scopes";
+import type { CreateApiKeyRequest, IssuedApiKeyResponse } from "@/types/external-api";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/developer/keys
+ * List the user's API keys (active and revoked), newest first
+ */
+export async function GET(request: NextRequest) {
+  const requestId = `developer_keys_get_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const userId = user.id;
+
+    // Apply rate limiting
+    const rateLimitResult = await checkRateLimit(getRateLimitIdentifier(request, userId), "standard");
+    if (!rateLimitResult.success) {
+      logger.warn(`[${requestId}] Rate limit exceeded for user: ${userId}`);
+      return rateLimitedResponse(rateLimitResult);
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data, error } = await supabase
+      .from("api_keys")
+      .select(API_KEY_PUBLIC_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      logger.error(`[${requestId}] Error fetching API keys:`, error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ keys: data || [] });
+
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/developer/keys
+ * Issue a new API key. The raw key is returned once and never stored.
+ *
+ * Body: CreateApiKeyRequest
+ */
+export async function POST(request: NextRequest) {
+  const requestId = `developer_keys_post_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const userId = user.id;
+
+    // Apply rate limiting
+    const rateLimitResult = await checkRateLimit(getRateLimitIdentifier(request, userId), "standard");
+    if (!rateLimitResult.success) {
+      logger.warn(`[${requestId}] Rate limit exceeded for user: ${userId}`);
+      return rateLimitedResponse(rateLimitResult);
+    }
+
+    const body = (await request.json().catch(() => null)) as Partial<CreateApiKeyRequest> | null;
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+
+    if (!name) {
+      return NextResponse.json({ error: "Key name is required" }, { status: 400 });
+    }
+
+    if (name.length > MAX_API_KEY_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Key name must be at most ${MAX_API_KEY_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (body?.description !== undefined && !isValidApiKeyDescription(body.description)) {
+      return NextResponse.json(
+        { error: `Description must be a string of at most ${MAX_API_KEY_DESCRIPTION_LENGTH} characters, or null` },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidScopeList(body?.permissions)) {
+      return NextResponse.json({ error: "At least one valid permission is required" }, { status: 400 });
+    }
+
+    const expiresInDays = body?.expiresInDays;
+    if (
+      expiresInDays !== undefined &&
+      (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_API_KEY_EXPIRY_DAYS)
+    ) {
+      return NextResponse.json(
+        { error: `expiresInDays must be between 1 and ${MAX_API_KEY_EXPIRY_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    // Enforce the per-user cap on active keys
+    const { count, error: countError } = await supabase
+      .from("api_keys")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .eq("is_active", true);
+
+    if (countError) {
+      logger.error(`[${requestId}] Error counting API keys:`, countError);
+      return NextResponse.json({ error: countError.message }, { status: 500 });
+    }
+
+    if ((count ?? 0) >= MAX_API_KEYS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can have at most ${MAX_API_KEYS_PER_USER} active API keys. Revoke one first.` },
+        { status: 400 }
+      );
+    }
+
+    const { rawKey, keyHash, keyPrefix } = generateApiKey();
+
+    const { data, error } = await supabase
+      .from("api_keys")
+      .insert({
+        key_hash: keyHash,
+        key_prefix: keyPrefix,
+        user_id: userId,
+        name,
+        owner_email: user.email || null,
+        description: body?.description?.trim() || null,
+        permissions: body.permissions,
+        expires_at: expiresInDays
+          ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+          : null,
+      })
+      .select(API_KEY_PUBLIC_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      logger.error(`[${requestId}] Error creating API key:`, error);
+      return NextResponse.json({ error: error?.message || "Failed to create API key" }, { status: 500 });
+    }
+
+    logger.info(`[${requestId}] Issued API key ${keyPrefix} for user: ${userId}`);
+
+    const response: IssuedApiKeyResponse = { key: data, rawKey };
+    return NextResponse.json(response, { status: 201 });
+
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
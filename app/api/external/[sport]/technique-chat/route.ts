@@ -1,15 +1,16 @@
 /**
- * External API: Pickleball Technique Chat
+ * External API: Technique Chat
  *
- * POST /api/external/pickleball/technique-chat
+ * POST /api/external/{sport}/technique-chat
+ * Supported sports: pickleball, tennis, padel
  *
- * Streaming endpoint for external developers (e.g., Pickleball apps)
+ * Streaming endpoint for external developers (e.g., Pickleball, Tennis and Padel apps)
  * to get AI coaching responses based on swing analysis data.
  *
- * Authentication: API Key (Bearer sk_live_...)
+ * Authentication: API Key (Bearer sk_live_...) with the `{sport}:chat` permission
  * Rate Limiting: 30 requests/minute per API key
  *
- * Racket Recommendation Mode:
+ * Racket Recommendation Mode (pickleball only):
  * When racketRecommendation: true, returns SSE format with:
  * - event: recommendation (structured racket data)
  * - event: text (streamed explanation)
@@ -17,26 +18,22 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI, SchemaType, type Schema } from "@google/generative-ai";
 import { logger } from "@/lib/logger";
-import {
-  validateApiKey,
-  trackApiKeyUsage,
-  apiKeyUnauthorizedResponse,
-  hasPermission,
-  apiKeyForbiddenResponse,
-} from "@/lib/api-key-auth";
-import { checkRateLimit, rateLimitedResponse } from "@/lib/rate-limit";
+import { generateText, streamText, getLLMProvider, parseJSONResponse, type LLMHistoryMessage, type LLMJsonSchema } from "@/lib/llm-providers";
+import { authenticateExternalRequest, trackApiKeyUsage } from "@/lib/api-key-auth";
 import { formatSwingContextForLLM, validateSwingContext } from "@/lib/swing-context-formatter";
 import {
-  buildExternalPickleballSystemPrompt,
+  buildExternalSystemPrompt,
   buildMinimalExternalPrompt,
+  isExternalSport,
+  EXTERNAL_SPORTS,
   buildRacketRecommendationPrompt,
   buildRacketExplanationPrompt,
 } from "@/lib/prompts-external";
 import { encodeSSEEvent, createSSEHeaders } from "@/lib/sse-utils";
 import { getRacketByName, getAllRacketNames } from "@/database/pickleball/rackets";
 import type {
+  ExternalSport,
   TechniqueChatRequest,
   ConversationMessage,
   InsightLevel,
@@ -48,30 +45,23 @@ import type {
 export const runtime = "nodejs";
 export const maxDuration = 60; // 1 minute max for technique chat
 
-// Gemini Flash for fast responses
-const MODEL_NAME = "gemini-2.5-flash";
-const REQUIRED_PERMISSION = "pickleball:chat";
+// Flash tier for fast responses
+const MODEL_TIER = "flash";
 
-// Lazy initialization of Gemini client
-let genAI: GoogleGenerativeAI | null = null;
+// Only pickleball has a racket (paddle) catalog
+const RACKET_RECOMMENDATION_SPORTS: ExternalSport[] = ["pickleball"];
 
-function getGenAI(): GoogleGenerativeAI {
-  if (!genAI) {
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY environment variable is not set");
-    }
-    genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-  }
-  return genAI;
+function getRequiredPermission(sport: ExternalSport): string {
+  return `${sport}:chat`;
 }
 
 /**
- * Convert conversation history to Gemini format
+ * Convert conversation history to provider format
  */
-function convertHistoryToGeminiFormat(history: ConversationMessage[]): Array<{ role: string; parts: Array<{ text: string }> }> {
+function convertHistory(history: ConversationMessage[]): LLMHistoryMessage[] {
   return history.map((msg) => ({
     role: msg.role === "assistant" ? "model" : "user",
-    parts: [{ text: msg.content }],
+    text: msg.content,
   }));
 }
 
@@ -79,30 +69,28 @@ function convertHistoryToGeminiFormat(history: ConversationMessage[]): Array<{ r
  * Get JSON schema for racket recommendation structured output
  * Built as a function to ensure getAllRacketNames() is called at runtime
  */
-function getRacketRecommendationSchema(): Schema {
-  // Using 'as unknown as Schema' to work around strict Gemini SDK type definitions
-  // The schema is valid but the TypeScript types are overly restrictive for enum properties
+function getRacketRecommendationSchema(): LLMJsonSchema {
   return {
-    type: SchemaType.OBJECT,
+    type: "object",
     properties: {
       recommended_racket: {
-        type: SchemaType.STRING,
+        type: "string",
         description: "The name of the recommended racket",
         enum: getAllRacketNames(),
       },
       confidence: {
-        type: SchemaType.STRING,
+        type: "string",
         description: "Confidence level in the recommendation",
         enum: ["high", "medium", "low"],
       },
       primary_reasons: {
-        type: SchemaType.ARRAY,
-        items: { type: SchemaType.STRING },
+        type: "array",
+        items: { type: "string" },
         description: "Top 2-3 reasons for this recommendation",
       },
     },
     required: ["recommended_racket", "confidence", "primary_reasons"],
-  } as unknown as Schema;
+  };
 }
 
 /**
@@ -118,38 +106,33 @@ async function handleRacketRecommendation(
   startTime: number,
   apiKeyId: string
 ): Promise<Response> {
-  const genAI = getGenAI();
-
   // Build the recommendation prompt
   const recommendationPrompt = buildRacketRecommendationPrompt(swingContextText, playerLevel);
 
   logger.debug(`[${requestId}] Starting parallel LLM calls for racket recommendation`);
 
-  // Model for structured JSON output (recommendation)
-  const jsonModel = genAI.getGenerativeModel({
-    model: MODEL_NAME,
-    generationConfig: {
-      responseMimeType: "application/json",
-      responseSchema: getRacketRecommendationSchema(),
-    },
+  // Start the structured JSON recommendation call
+  const recommendationPromise = generateText({
+    requestId,
+    label: "external-technique-chat:racket-recommendation",
+    tier: MODEL_TIER,
+    prompt: recommendationPrompt,
+    json: getRacketRecommendationSchema(),
   });
 
-  // Start the JSON recommendation call
-  const recommendationPromise = jsonModel.generateContent(recommendationPrompt);
-
   // Create SSE streaming response
   const stream = new ReadableStream({
     async start(controller) {
       try {
         // 1. Wait for structured recommendation (typically 200-500ms)
         const recommendationResult = await recommendationPromise;
-        const recommendationText = recommendationResult.response.text();
+        const recommendationText = recommendationResult.text;
 
         logger.debug(`[${requestId}] Recommendation received: ${recommendationText}`);
 
         let recommendation: RacketRecommendationResult;
         try {
-          recommendation = JSON.parse(recommendationText);
+          recommendation = parseJSONResponse<RacketRecommendationResult>(recommendationText);
         } catch (parseError) {
           logger.error(`[${requestId}] Failed to parse recommendation JSON:`, parseError);
           controller.enqueue(encodeSSEEvent("error", { error: "Failed to parse recommendation" }));
@@ -192,19 +175,17 @@ async function handleRacketRecommendation(
           insightLevel
         );
 
-        const streamModel = genAI.getGenerativeModel({
-          model: MODEL_NAME,
+        const explanationResult = await streamText({
+          requestId,
+          label: "external-technique-chat:racket-explanation",
+          tier: MODEL_TIER,
           systemInstruction: `You are ${agentName}, a friendly pickleball coach.`,
+          prompt: explanationPrompt,
         });
 
-        const explanationResult = await streamModel.generateContentStream(explanationPrompt);
-
         // 4. Stream the explanation text
-        for await (const chunk of explanationResult.stream) {
-          const text = chunk.text();
-          if (text) {
-            controller.enqueue(encodeSSEEvent("text", text));
-          }
+        for await (const text of explanationResult.textStream) {
+          controller.enqueue(encodeSSEEvent("text", text));
         }
 
         // 5. Send done event
@@ -238,14 +219,14 @@ async function handleRacketRecommendation(
   return new Response(stream, {
     headers: createSSEHeaders({
       "X-Request-Id": requestId,
-      "X-Model-Used": MODEL_NAME,
+      "X-Model-Used": getLLMProvider().resolveModel(MODEL_TIER),
       "X-Recommendation-Mode": "true",
     }),
   });
 }
 
 /**
- * POST /api/external/pickleball/technique-chat
+ * POST /api/external/{sport}/technique-chat
  *
  * Request body:
  * - prompt: string (required) - User's question
@@ -253,7 +234,7 @@ async function handleRacketRecommendation(
  * - agentName?: string - Custom agent name (default: "Coach")
  * - insightLevel?: "beginner" | "developing" | "advanced" - Response complexity (default: "developing")
  * - conversationHistory?: array - Previous messages
- * - racketRecommendation?: boolean - When true, returns SSE with racket recommendation
+ * - racketRecommendation?: boolean - When true, returns SSE with racket recommendation (pickleball only)
  *
  * Response:
  * - Default: Streaming text/plain
@@ -263,38 +244,34 @@ async function handleRacketRecommendation(
  *   - "done": End of stream
  *   - "error": Error message (if failed)
  */
-export async function POST(request: NextRequest) {
-  const requestId = `ext_pb_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sport: string }> }
+) {
+  const { sport } = await params;
+  const requestId = `ext_${sport.slice(0, 2)}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
   const startTime = Date.now();
 
-  logger.info(`[${requestId}] External pickleball technique-chat request`);
+  if (!isExternalSport(sport)) {
+    return NextResponse.json(
+      { error: `Unsupported sport: ${sport}. Supported sports: ${EXTERNAL_SPORTS.join(", ")}` },
+      { status: 404 }
+    );
+  }
 
-  try {
-    // 1. Validate API key
-    const apiKey = await validateApiKey(request);
-    if (!apiKey) {
-      logger.warn(`[${requestId}] Invalid or missing API key`);
-      return apiKeyUnauthorizedResponse();
-    }
+  const requiredPermission = getRequiredPermission(sport);
 
-    logger.debug(`[${requestId}] API key validated: ${apiKey.name} (${apiKey.id.slice(0, 8)}...)`);
+  logger.info(`[${requestId}] External ${sport} technique-chat request`);
 
-    // 2. Check permission
-    if (!hasPermission(apiKey, REQUIRED_PERMISSION) && !hasPermission(apiKey, "*")) {
-      logger.warn(`[${requestId}] API key missing permission: ${REQUIRED_PERMISSION}`);
-      return apiKeyForbiddenResponse(`Missing required permission: ${REQUIRED_PERMISSION}`);
+  try {
+    // 1-3. Validate API key, check permission and rate limit (keyed by API key ID)
+    const auth = await authenticateExternalRequest(request, requiredPermission, requestId);
+    if (auth.response) {
+      return auth.response;
     }
+    const { apiKey } = auth;
 
-    // 3. Rate limit check (keyed by API key ID)
-    const rateLimitResult = await checkRateLimit(
-      `apikey:${apiKey.id}`,
-      "external_standard"
-    );
-
-    if (!rateLimitResult.success) {
-      logger.warn(`[${requestId}] Rate limit exceeded for API key: ${apiKey.name}`);
-      return rateLimitedResponse(rateLimitResult);
-    }
+    logger.debug(`[${requestId}] API key validated: ${apiKey.name} (${apiKey.id.slice(0, 8)}...)`);
 
     // 4. Parse and validate request body
     let body: TechniqueChatRequest;
@@ -330,6 +307,13 @@ export async function POST(request: NextRequest) {
     const conversationHistory = body.conversationHistory || [];
     const racketRecommendation = body.racketRecommendation === true;
 
+    if (racketRecommendation && !RACKET_RECOMMENDATION_SPORTS.includes(sport)) {
+      return NextResponse.json(
+        { error: `racketRecommendation is not available for ${sport}` },
+        { status: 400 }
+      );
+    }
+
     logger.debug(`[${requestId}] Prompt: ${prompt.slice(0, 100)}...`);
     logger.debug(`[${requestId}] Agent: ${agentName}`);
     logger.debug(`[${requestId}] Insight level: ${insightLevel}`);
@@ -358,40 +342,27 @@ export async function POST(request: NextRequest) {
     // 7. Standard coaching chat (text/plain streaming)
     // Build system prompt
     const systemPrompt = hasRichContext
-      ? buildExternalPickleballSystemPrompt(swingContextText, agentName, insightLevel)
-      : buildMinimalExternalPrompt(body.swingContext.swing_type, agentName);
+      ? buildExternalSystemPrompt(sport, swingContextText, agentName, insightLevel)
+      : buildMinimalExternalPrompt(sport, body.swingContext.swing_type, agentName);
 
     logger.debug(`[${requestId}] System prompt: ${systemPrompt.length} chars`);
 
-    // 8. Initialize Gemini model
-    const model = getGenAI().getGenerativeModel({
-      model: MODEL_NAME,
+    // 8. Generate streaming response
+    const result = await streamText({
+      requestId,
+      label: "external-technique-chat",
+      tier: MODEL_TIER,
       systemInstruction: systemPrompt,
+      prompt,
+      history: convertHistory(conversationHistory),
     });
 
-    // 9. Prepare content parts
-    const parts = [{ text: prompt }];
-
-    // 10. Generate streaming response
-    let result;
-    if (conversationHistory.length > 0) {
-      const chat = model.startChat({
-        history: convertHistoryToGeminiFormat(conversationHistory),
-      });
-      result = await chat.sendMessageStream(parts);
-    } else {
-      result = await model.generateContentStream(parts);
-    }
-
-    // 11. Create streaming response
+    // 9. Create streaming response
     const stream = new ReadableStream({
       async start(controller) {
         try {
-          for await (const chunk of result.stream) {
-            const text = chunk.text();
-            if (text) {
-              controller.enqueue(new TextEncoder().encode(text));
-            }
+          for await (const text of result.textStream) {
+            controller.enqueue(new TextEncoder().encode(text));
           }
 
           controller.close();
@@ -426,7 +397,8 @@ export async function POST(request: NextRequest) {
         "Content-Type": "text/plain; charset=utf-8",
         "Transfer-Encoding": "chunked",
         "X-Request-Id": requestId,
-        "X-Model-Used": MODEL_NAME,
+        "X-Model-Used": result.model,
+        "X-Sport": sport,
       },
     });
   } catch (error) {
@@ -0,0 +1,124 @@
+/**
+ * External API: Task Result
+ *
+ * GET /api/external/tasks/{taskId}/result
+ *
+ * Returns the StatisticsResult JSON for a completed task. If the task owner
+ * has corrected match events or saved a manual court calibration, both are
+ * applied, matching what the app's match viewer shows.
+ *
+ * Authentication: API Key with the `statistics:tasks` permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { authenticateExternalRequest, trackApiKeyUsage } from "@/lib/api-key-auth";
+import { getSupabaseAdmin } from "@/lib/supabase-server";
+import { fetchTaskResult, syncTaskStatus } from "@/lib/sportai-tasks";
+import { STATISTICS_TASKS_SCOPE } from "@/lib/api-key-scopes";
+import { applyCourtCalibration, isValidCalibration } from "@/utils/court-calibration";
+import { applyMatchCorrections, isValidMatchCorrections } from "@/utils/match-corrections";
+import type { StatisticsResult } from "@/components/tasks/viewer/types";
+
+export const runtime = "nodejs";
+export const maxDuration = 60; // Allow more time for downloading large files
+
+/**
+ * GET /api/external/tasks/{taskId}/result
+ *
+ * Response:
+ * - 200: { task_id, result: StatisticsResult }
+ * - 202: { error, status } while the task is still processing
+ * - 422: { error } if the video could not be processed
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const { taskId } = await params;
+  const requestId = `ext_task_result_${Date.now()}`;
+
+  try {
+    const auth = await authenticateExternalRequest(request, STATISTICS_TASKS_SCOPE, requestId);
+    if (auth.response) {
+      return auth.response;
+    }
+    const { apiKey } = auth;
+
+    if (!apiKey.userId) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data: fetchedTask, error: fetchError } = await supabase
+      .from("sportai_tasks")
+      .select("*")
+      .eq("id", taskId)
+      .eq("user_id", apiKey.userId)
+      .not("api_key_id", "is", null)
+      .maybeSingle();
+
+    if (fetchError || !fetchedTask) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    // Pick up a completion that hasn't been polled yet
+    const task = await syncTaskStatus(fetchedTask, supabase, requestId);
+
+    if (task.status === "failed") {
+      return NextResponse.json(
+        { error: task.error_message || "Task could not be processed" },
+        { status: 422 }
+      );
+    }
+
+    if (task.status !== "completed") {
+      return NextResponse.json(
+        { error: "Task is still being processed", status: task.status },
+        { status: 202 }
+      );
+    }
+
+    const outcome = await fetchTaskResult(task, supabase, requestId);
+
+    if (outcome.status === "processing") {
+      return NextResponse.json(
+        { error: "Task is still being processed", status: task.status },
+        { status: 202 }
+      );
+    }
+
+    if (outcome.status === "error") {
+      return NextResponse.json({ error: outcome.error }, { status: outcome.httpStatus });
+    }
+
+    const resultResponse = await fetch(outcome.url);
+    if (!resultResponse.ok) {
+      logger.error(`[${requestId}] Failed to download result: ${resultResponse.status}`);
+      return NextResponse.json({ error: "Failed to download result" }, { status: 500 });
+    }
+
+    let result: StatisticsResult = await resultResponse.json();
+
+    if (isValidMatchCorrections(task.match_corrections)) {
+      result = applyMatchCorrections(result, task.match_corrections, task.sport);
+    }
+
+    if (isValidCalibration(task.court_calibration)) {
+      result = applyCourtCalibration(result, task.court_calibration);
+    }
+
+    trackApiKeyUsage(apiKey.id).catch((err: unknown) => {
+      logger.error(`[${requestId}] Failed to track usage:`, err);
+    });
+
+    return NextResponse.json({ task_id: task.id, result });
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Failed to fetch result" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * External API: Task Status
+ *
+ * GET /api/external/tasks/{taskId}
+ *
+ * Returns the task, polling SportAI first if it is still in flight.
+ * Authentication: API Key with the `statistics:tasks` permission.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { authenticateExternalRequest, trackApiKeyUsage } from "@/lib/api-key-auth";
+import { getSupabaseAdmin } from "@/lib/supabase-server";
+import { syncTaskStatus, toExternalTask } from "@/lib/sportai-tasks";
+import { STATISTICS_TASKS_SCOPE } from "@/lib/api-key-scopes";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/external/tasks/{taskId}
+ *
+ * Response (200): { task: ExternalTask }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const { taskId } = await params;
+  const requestId = `ext_task_status_${Date.now()}`;
+
+  try {
+    const auth = await authenticateExternalRequest(request, STATISTICS_TASKS_SCOPE, requestId);
+    if (auth.response) {
+      return auth.response;
+    }
+    const { apiKey } = auth;
+
+    if (!apiKey.userId) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    // Only tasks created through the external API are visible to API keys
+    const { data: task, error: fetchError } = await supabase
+      .from("sportai_tasks")
+      .select("*")
+      .eq("id", taskId)
+      .eq("user_id", apiKey.userId)
+      .not("api_key_id", "is", null)
+      .maybeSingle();
+
+    if (fetchError || !task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const syncedTask = await syncTaskStatus(task, supabase, requestId);
+
+    trackApiKeyUsage(apiKey.id).catch((err: unknown) => {
+      logger.error(`[${requestId}] Failed to track usage:`, err);
+    });
+
+    return NextResponse.json({ task: toExternalTask(syncedTask) });
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Failed to check status" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * External API: Statistics Tasks
+ *
+ * POST /api/external/tasks
+ *
+ * Submit a match video for statistics analysis. Poll
+ * GET /api/external/tasks/{taskId} until the task is "completed", then fetch
+ * the StatisticsResult JSON from GET /api/external/tasks/{taskId}/result.
+ *
+ * Authentication: API Key (Bearer sk_live_...) with the `statistics:tasks` permission.
+ * The key must be linked to an account (issued from the Developer profile tab) -
+ * tasks are owned by that account and also appear in its task library.
+ * Rate Limiting: 30 requests/minute per API key. Every successful call counts
+ * towards the key's monthly request limit.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { authenticateExternalRequest, trackApiKeyUsage, apiKeyForbiddenResponse } from "@/lib/api-key-auth";
+import { getSupabaseAdmin } from "@/lib/supabase-server";
+import { extractS3KeyFromUrl } from "@/lib/s3";
+import { submitSportAITask, toExternalTask } from "@/lib/sportai-tasks";
+import { STATISTICS_TASKS_SCOPE } from "@/lib/api-key-scopes";
+import type { CreateExternalTaskRequest } from "@/types/external-api";
+import type { Json } from "@/types/supabase";
+
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const VALID_SPORTS = ["padel", "tennis", "pickleball"];
+
+/**
+ * POST /api/external/tasks
+ *
+ * Request body: CreateExternalTaskRequest
+ * Response (201): { task: ExternalTask }
+ */
+export async function POST(request: NextRequest) {
+  const requestId = `ext_task_create_${Date.now()}`;
+
+  try {
+    const auth = await authenticateExternalRequest(request, STATISTICS_TASKS_SCOPE, requestId);
+    if (auth.response) {
+      return auth.response;
+    }
+    const { apiKey } = auth;
+
+    if (!apiKey.userId) {
+      return apiKeyForbiddenResponse("This API key is not linked to an account and cannot create tasks");
+    }
+
+    let body: CreateExternalTaskRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const { videoUrl, sport = "padel", videoLength, params = {} } = body;
+
+    if (!videoUrl || typeof videoUrl !== "string") {
+      return NextResponse.json({ error: "Missing required field: videoUrl" }, { status: 400 });
+    }
+
+    try {
+      const { protocol } = new URL(videoUrl);
+      if (protocol !== "https:" && protocol !== "http:") {
+        throw new Error("Unsupported protocol");
+      }
+    } catch {
+      return NextResponse.json({ error: "videoUrl must be an http(s) URL" }, { status: 400 });
+    }
+
+    if (!VALID_SPORTS.includes(sport)) {
+      return NextResponse.json(
+        { error: `Invalid sport: ${sport}. Must be one of: ${VALID_SPORTS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof params !== "object" || params === null || Array.isArray(params)) {
+      return NextResponse.json({ error: "params must be an object" }, { status: 400 });
+    }
+
+    logger.info(`[${requestId}] Creating statistics task for API key ${apiKey.name}: ${videoUrl}`);
+
+    const submitted = await submitSportAITask("statistics", sport, videoUrl, params, requestId);
+    if (!submitted.ok) {
+      return NextResponse.json({ error: submitted.error }, { status: submitted.status });
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data: task, error: dbError } = await supabase
+      .from("sportai_tasks")
+      .insert({
+        user_id: apiKey.userId,
+        api_key_id: apiKey.id,
+        task_type: "statistics",
+        sport,
+        sportai_task_id: submitted.sportaiTaskId,
+        video_url: videoUrl,
+        video_s3_key: extractS3KeyFromUrl(videoUrl),
+        video_length: typeof videoLength === "number" ? videoLength : null,
+        status: "processing",
+        estimated_compute_time: submitted.estimatedComputeTime,
+        request_params: params as Json,
+      })
+      .select()
+      .single();
+
+    if (dbError || !task) {
+      logger.error(`[${requestId}] Database error:`, dbError);
+      return NextResponse.json({ error: "Failed to save task" }, { status: 500 });
+    }
+
+    trackApiKeyUsage(apiKey.id).catch((err: unknown) => {
+      logger.error(`[${requestId}] Failed to track usage:`, err);
+    });
+
+    return NextResponse.json({ task: toExternalTask(task) }, { status: 201 });
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Failed to create task" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { fetchTaskResult } from "@/lib/sportai-tasks";
+import { applyCourtCalibration, isValidCalibration } from "@/utils/court-calibration";
+import { applyMatchCorrections, isValidMatchCorrections } from "@/utils/match-corrections";
+import {
+  getOpponentPlayerIds,
+  summarizeSeasonMatch,
+  type PlayerSeason,
+  type SeasonMatch,
+} from "@/utils/player-season";
+import type { StatisticsResult } from "@/components/tasks/viewer/types";
+import type { PlayerProfileResponse } from "@/types/player-profile";
+
+export const runtime = "nodejs";
+export const maxDuration = 60; // Every match's result is downloaded
+
+// Only the most recent matches are summarized, so the route stays inside maxDuration
+const MAX_SEASON_MATCHES = 40;
+
+// Results downloaded at the same time
+const RESULT_FETCH_CONCURRENCY = 4;
+
+/**
+ * GET /api/player-identities/[identityId]/season
+ * Per-match stats of a player identity across its most recent completed
+ * statistics tasks (up to MAX_SEASON_MATCHES)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ identityId: string }> }
+) {
+  const { identityId } = await params;
+  const requestId = `player_season_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data: identity } = await supabase
+      .from("player_identities")
+      .select("id, name, sport")
+      .eq("id", identityId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!identity) {
+      return NextResponse.json({ error: "Player identity not found" }, { status: 404 });
+    }
+
+    const { data: links, error: linksError } = await supabase
+      .from("player_identity_links")
+      .select("task_id, player_id")
+      .eq("identity_id", identityId);
+
+    if (linksError) {
+      logger.error(`[${requestId}] Error loading identity links:`, linksError);
+      return NextResponse.json({ error: linksError.message }, { status: 500 });
+    }
+
+    const playerIdByTask = new Map((links || []).map(link => [link.task_id, link.player_id]));
+    const taskIds = [...playerIdByTask.keys()];
+    const season: PlayerSeason = { identity, matches: [] };
+    if (taskIds.length === 0) {
+      return NextResponse.json(season);
+    }
+
+    const [{ data: tasks }, { data: taskLinks }, { data: profileArtifacts }] = await Promise.all([
+      supabase
+        .from("sportai_tasks")
+        .select("*")
+        .in("id", taskIds)
+        .eq("user_id", user.id)
+        .eq("status", "completed")
+        .eq("task_type", "statistics")
+        .order("created_at", { ascending: false })
+        .limit(MAX_SEASON_MATCHES),
+      // Every identified player of those tasks, to name opponents
+      supabase
+        .from("player_identity_links")
+        .select("task_id, player_id, identity_id, player_identities(name)")
+        .in("task_id", taskIds),
+      supabase
+        .from("task_artifacts")
+        .select("task_id, content, created_at")
+        .in("task_id", taskIds)
+        .eq("artifact_type", "player_profiles")
+        .order("created_at", { ascending: false }),
+    ]);
+
+    const buildMatch = async (task: NonNullable<typeof tasks>[number]): Promise<SeasonMatch | null> => {
+      const playerId = playerIdByTask.get(task.id);
+      if (playerId === undefined) return null;
+
+      try {
+        const outcome = await fetchTaskResult(task, supabase, requestId);
+        if (outcome.status !== "ready") return null;
+
+        const resultResponse = await fetch(outcome.url);
+        if (!resultResponse.ok) throw new Error(`Result download failed (${resultResponse.status})`);
+        let result = (await resultResponse.json()) as StatisticsResult;
+
+        // Summarize the result as the user corrected it
+        if (isValidMatchCorrections(task.match_corrections)) {
+          result = applyMatchCorrections(result, task.match_corrections, task.sport);
+        }
+        if (isValidCalibration(task.court_calibration)) {
+          result = applyCourtCalibration(result, task.court_calibration);
+        }
+
+        const summary = summarizeSeasonMatch(result, playerId, task.sport);
+        if (!summary) return null;
+
+        // Latest AI profile generated for the task
+        const profiles = profileArtifacts?.find(a => a.task_id === task.id)?.content as PlayerProfileResponse | undefined;
+        const attributes = profiles?.profiles?.find(p => p.playerId === playerId)?.attributes ?? null;
+
+        const opponents = getOpponentPlayerIds(result, playerId).map(opponentId => {
+          const link = taskLinks?.find(l => l.task_id === task.id && l.player_id === opponentId);
+          return link
+            ? { identityId: link.identity_id, name: link.player_identities?.name ?? "Unknown" }
+            : { identityId: null, name: `Player ${opponentId}` };
+        });
+
+        return {
+          ...summary,
+          taskId: task.id,
+          date: task.created_at,
+          sport: task.sport,
+          attributes,
+          opponents,
+        };
+      } catch (error) {
+        // One broken result shouldn't hide the rest of the season
+        logger.warn(`[${requestId}] Skipping task ${task.id}:`, error);
+        return null;
+      }
+    };
+
+    // Oldest first, as PlayerSeason expects
+    const seasonTasks = (tasks || []).reverse();
+    const matches: (SeasonMatch | null)[] = [];
+    let nextTask = 0;
+    await Promise.all(
+      Array.from({ length: Math.min(RESULT_FETCH_CONCURRENCY, seasonTasks.length) }, async () => {
+        while (nextTask < seasonTasks.length) {
+          const index = nextTask++;
+          matches[index] = await buildMatch(seasonTasks[index]);
+        }
+      })
+    );
+    season.matches = matches.filter((match): match is SeasonMatch => match !== null);
+
+    logger.info(`[${requestId}] Built season for identity ${identityId}: ${season.matches.length} match(es)`);
+    return NextResponse.json(season);
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load season" },
+      { status: 500 }
+    );
+  }
+}
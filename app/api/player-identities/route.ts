@@ -0,0 +1,214 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { isValidAppearanceSignature } from "@/utils/appearance-signature";
+import type { RacketSport } from "@/types/profile";
+import type { PlayerIdentity } from "@/types/player-identity";
+
+export const runtime = "nodejs";
+
+const IDENTITY_SPORTS: RacketSport[] = ["tennis", "padel", "pickleball"];
+const MAX_NAME_LENGTH = 80;
+
+function parseName(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const name = value.trim();
+  return name.length > 0 && name.length <= MAX_NAME_LENGTH ? name : null;
+}
+
+/**
+ * GET /api/player-identities
+ * List the user's player identities with every task player linked to them
+ */
+export async function GET(request: NextRequest) {
+  const requestId = `player_identities_get_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const [{ data: identities, error: identitiesError }, { data: links, error: linksError }] = await Promise.all([
+      supabase
+        .from("player_identities")
+        .select("id, name, sport, created_at")
+        .eq("user_id", user.id)
+        .order("name"),
+      supabase
+        .from("player_identity_links")
+        .select("identity_id, task_id, player_id, signature")
+        .eq("user_id", user.id),
+    ]);
+
+    const error = identitiesError || linksError;
+    if (error) {
+      logger.error(`[${requestId}] Error loading player identities:`, error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const result: PlayerIdentity[] = (identities || []).map(identity => ({
+      ...identity,
+      links: (links || [])
+        .filter(link => link.identity_id === identity.id)
+        .map(link => ({
+          task_id: link.task_id,
+          player_id: link.player_id,
+          signature: isValidAppearanceSignature(link.signature) ? link.signature : null,
+        })),
+    }));
+
+    return NextResponse.json({ identities: result });
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/player-identities
+ * Create a player identity
+ *
+ * Body: { name: string, sport?: "tennis" | "padel" | "pickleball" }
+ */
+export async function POST(request: NextRequest) {
+  const requestId = `player_identities_post_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json().catch(() => null);
+    const name = parseName(body?.name);
+    if (!name) {
+      return NextResponse.json({ error: `name is required (max ${MAX_NAME_LENGTH} characters)` }, { status: 400 });
+    }
+
+    const sport = IDENTITY_SPORTS.includes(body?.sport) ? (body.sport as RacketSport) : null;
+    const supabase = getSupabaseAdmin();
+
+    const { data, error } = await supabase
+      .from("player_identities")
+      .insert({ user_id: user.id, name, sport })
+      .select("id, name, sport, created_at")
+      .single();
+
+    if (error) {
+      logger.error(`[${requestId}] Error creating player identity:`, error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    logger.info(`[${requestId}] Created player identity ${data.id} for user: ${user.id}`);
+    const identity: PlayerIdentity = { ...data, links: [] };
+    return NextResponse.json(identity, { status: 201 });
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/player-identities
+ * Rename a player identity
+ *
+ * Body: { id: string, name: string }
+ */
+export async function PUT(request: NextRequest) {
+  const requestId = `player_identities_put_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json().catch(() => null);
+    const name = parseName(body?.name);
+    if (!body?.id || !name) {
+      return NextResponse.json({ error: "id and name are required" }, { status: 400 });
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data, error } = await supabase
+      .from("player_identities")
+      .update({ name })
+      .eq("id", body.id)
+      .eq("user_id", user.id)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`[${requestId}] Error renaming player identity:`, error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: "Player identity not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/player-identities?id=xxx
+ * Delete a player identity and all its task links
+ */
+export async function DELETE(request: NextRequest) {
+  const requestId = `player_identities_delete_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const identityId = request.nextUrl.searchParams.get("id");
+    if (!identityId) {
+      return NextResponse.json({ error: "Player identity ID required" }, { status: 400 });
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { error } = await supabase
+      .from("player_identities")
+      .delete()
+      .eq("id", identityId)
+      .eq("user_id", user.id);
+
+    if (error) {
+      logger.error(`[${requestId}] Error deleting player identity:`, error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    logger.info(`[${requestId}] Deleted player identity ${identityId}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { logger } from "@/lib/logger";
+import { generateText, parseJSONResponse } from "@/lib/llm-providers";
+import { getArtifactContext, hashArtifactInput, findArtifact, saveArtifact } from "@/lib/task-artifacts";
 import type { DomainExpertise } from "@/utils/storage";
 import type { PlayerTacticalData } from "@/types/tactical-analysis";
+import type { TaskArtifactRequestFields } from "@/types/task-artifact";
 
-// Use Gemini Flash for ultra-fast nickname generation
-const MODEL_NAME = "gemini-2.0-flash";
+// Use the lite tier for ultra-fast nickname generation
+const MODEL_TIER = "lite";
 
 // Ensure this route uses Node.js runtime
 export const runtime = "nodejs";
@@ -130,10 +132,10 @@ export async function POST(request: NextRequest) {
   
   try {
     const body = await request.json();
-    const { players, sport = "padel" } = body as {
+    const { players, sport = "padel", taskId, regenerate = false } = body as {
       players: PlayerTacticalData[];
       sport?: DomainExpertise;
-    };
+    } & TaskArtifactRequestFields;
     
     // Validate
     if (!players || !Array.isArray(players) || players.length === 0) {
@@ -156,44 +158,51 @@ export async function POST(request: NextRequest) {
     // Build simplified summaries
     const playerSummaries = playersWithData.map(buildPlayerSummary);
     
-    // Get API key
-    if (!process.env.GEMINI_API_KEY) {
-      logger.error(`[${requestId}] GEMINI_API_KEY not set`);
-      return NextResponse.json(
-        { error: "AI service not configured" },
-        { status: 500 }
-      );
-    }
-    
-    // Initialize Gemini Flash
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-    
-    const model = genAI.getGenerativeModel({
-      model: MODEL_NAME,
-      generationConfig: {
-        temperature: 0.9, // Higher creativity for fun nicknames
-        maxOutputTokens: 256,
-      },
-    });
-    
     const prompt = buildNicknamePrompt(playerSummaries, sport);
     logger.debug(`[${requestId}] Prompt length: ${prompt.length} chars`);
     
+    // Serve the stored nicknames for these inputs unless a regenerate was requested
+    const artifactContext = await getArtifactContext(request, taskId);
+    const inputHash = hashArtifactInput("player_nicknames", prompt);
+    if (artifactContext && !regenerate) {
+      const stored = await findArtifact<{ nicknames: Array<{ playerId: number; nickname: string }> }>(
+        artifactContext, "player_nicknames", inputHash
+      );
+      if (stored) {
+        logger.info(`[${requestId}] Serving stored nicknames v${stored.artifact.version}`);
+        return NextResponse.json({
+          nicknames: stored.content.nicknames,
+          modelUsed: stored.model,
+          artifact: stored.artifact,
+        });
+      }
+    }
+    
     // Generate nicknames
-    const result = await model.generateContent([{ text: prompt }]);
-    const responseText = result.response.text();
+    const result = await generateText({
+      requestId,
+      label: "player-nicknames",
+      tier: MODEL_TIER,
+      prompt,
+      temperature: 0.9, // Higher creativity for fun nicknames
+      maxOutputTokens: 256,
+      timeoutMs: 12_000,
+    });
+    const responseText = result.text;
     
     logger.debug(`[${requestId}] Raw response: ${responseText}`);
     
     // Parse JSON from response
     let nicknames: Array<{ playerId: number; nickname: string }> = [];
+    let parsedFromModel = false;
     
     try {
       // Extract JSON from response (in case there's extra text)
       const jsonMatch = responseText.match(/\{[\s\S]*\}/);
       if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
+        const parsed = parseJSONResponse<{ nicknames?: Array<{ playerId: number; nickname: string }> }>(jsonMatch[0]);
         nicknames = parsed.nicknames || [];
+        parsedFromModel = nicknames.length > 0;
       }
     } catch (parseError) {
       logger.warn(`[${requestId}] Failed to parse nickname JSON, using fallback`);
@@ -209,9 +218,15 @@ export async function POST(request: NextRequest) {
     const duration = Date.now() - startTime;
     logger.info(`[${requestId}] Generated ${nicknames.length} nicknames in ${duration}ms`);
     
+    // Only persist real model output, not the fallback
+    const artifact = artifactContext && parsedFromModel
+      ? await saveArtifact(artifactContext, "player_nicknames", inputHash, { nicknames }, result.model)
+      : null;
+    
     return NextResponse.json({
       nicknames,
-      modelUsed: MODEL_NAME,
+      modelUsed: result.model,
+      artifact,
     });
     
   } catch (error) {
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI, SchemaType, type Schema } from "@google/generative-ai";
 import { logger } from "@/lib/logger";
+import { generateText, parseJSONResponse, type LLMJsonSchema } from "@/lib/llm-providers";
+import { getArtifactContext, hashArtifactInput, findArtifact, saveArtifact } from "@/lib/task-artifacts";
+import type { TaskArtifactRequestFields } from "@/types/task-artifact";
 import type { PlayerProfileData, PlayerProfile, PlayerProfileResponse } from "@/types/player-profile";
 
-// Use Gemini 3 Flash for fast profile generation
-const MODEL_NAME = "gemini-3-flash-preview";
+// Use the pro tier (Gemini 3 Flash) for fast profile generation
+const MODEL_TIER = "pro";
 
 // Ensure this route uses Node.js runtime
 export const runtime = "nodejs";
@@ -13,38 +15,38 @@ export const maxDuration = 30; // 30 seconds for profile generation
 /**
  * JSON Schema for structured output - enforces consistent profile format
  */
-const PROFILE_SCHEMA = {
-  type: SchemaType.OBJECT,
+const PROFILE_SCHEMA: LLMJsonSchema = {
+  type: "object",
   properties: {
     profiles: {
-      type: SchemaType.ARRAY,
+      type: "array",
       items: {
-        type: SchemaType.OBJECT,
+        type: "object",
         properties: {
-          playerId: { type: SchemaType.NUMBER },
-          playerName: { type: SchemaType.STRING },
+          playerId: { type: "number" },
+          playerName: { type: "string" },
           attributes: {
-            type: SchemaType.OBJECT,
+            type: "object",
             properties: {
-              power: { type: SchemaType.NUMBER },
-              agility: { type: SchemaType.NUMBER },
-              consistency: { type: SchemaType.NUMBER },
-              attack: { type: SchemaType.NUMBER },
-              defense: { type: SchemaType.NUMBER },
-              coverage: { type: SchemaType.NUMBER },
-              variety: { type: SchemaType.NUMBER },
+              power: { type: "number" },
+              agility: { type: "number" },
+              consistency: { type: "number" },
+              attack: { type: "number" },
+              defense: { type: "number" },
+              coverage: { type: "number" },
+              variety: { type: "number" },
             },
             required: ["power", "agility", "consistency", "attack", "defense", "coverage", "variety"],
           },
-          summary: { type: SchemaType.STRING },
-          playstyle: { type: SchemaType.STRING },
+          summary: { type: "string" },
+          playstyle: { type: "string" },
           strengths: {
-            type: SchemaType.ARRAY,
-            items: { type: SchemaType.STRING },
+            type: "array",
+            items: { type: "string" },
           },
           areasToImprove: {
-            type: SchemaType.ARRAY,
-            items: { type: SchemaType.STRING },
+            type: "array",
+            items: { type: "string" },
           },
         },
         required: ["playerId", "playerName", "attributes", "summary", "playstyle", "strengths", "areasToImprove"],
@@ -148,10 +150,10 @@ export async function POST(request: NextRequest) {
   
   try {
     const body = await request.json();
-    const { players, sport = "padel" } = body as {
+    const { players, sport = "padel", taskId, regenerate = false } = body as {
       players: PlayerProfileData[];
       sport?: string;
-    };
+    } & TaskArtifactRequestFields;
     
     // Validate input
     if (!players || !Array.isArray(players) || players.length === 0) {
@@ -171,42 +173,45 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Get API key
-    if (!process.env.GEMINI_API_KEY) {
-      logger.error(`[${requestId}] GEMINI_API_KEY not set`);
-      return NextResponse.json(
-        { error: "AI service not configured" },
-        { status: 500 }
-      );
-    }
-    
-    // Initialize Gemini Flash
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-    
-    const model = genAI.getGenerativeModel({
-      model: MODEL_NAME,
-      generationConfig: {
-        temperature: 0.7, // Balance creativity with consistency
-        maxOutputTokens: 2048,
-        responseMimeType: "application/json",
-        responseSchema: PROFILE_SCHEMA as Schema,
-      },
-    });
-    
     const prompt = buildProfilePrompt(playersWithData, sport);
     logger.debug(`[${requestId}] Prompt: ${prompt.length} chars for ${playersWithData.length} players`);
     
+    // Serve the stored profiles for these inputs unless a regenerate was requested
+    const artifactContext = await getArtifactContext(request, taskId);
+    const inputHash = hashArtifactInput("player_profiles", prompt);
+    if (artifactContext && !regenerate) {
+      const stored = await findArtifact<{ profiles: PlayerProfile[] }>(artifactContext, "player_profiles", inputHash);
+      if (stored) {
+        logger.info(`[${requestId}] Serving stored profiles v${stored.artifact.version}`);
+        return NextResponse.json({
+          profiles: stored.content.profiles,
+          modelUsed: stored.model ?? "unknown",
+          artifact: stored.artifact,
+        } as PlayerProfileResponse);
+      }
+    }
+    
     // Generate profiles
-    const result = await model.generateContent([{ text: prompt }]);
-    const responseText = result.response.text();
+    const result = await generateText({
+      requestId,
+      label: "player-profiles",
+      tier: MODEL_TIER,
+      prompt,
+      temperature: 0.7, // Balance creativity with consistency
+      maxOutputTokens: 2048,
+      json: PROFILE_SCHEMA,
+      timeoutMs: 25_000,
+    });
+    const responseText = result.text;
     
     logger.debug(`[${requestId}] Raw response: ${responseText.substring(0, 500)}...`);
     
     // Parse JSON response
     let profiles: PlayerProfile[] = [];
+    let parsedFromModel = false;
     
     try {
-      const parsed = JSON.parse(responseText) as { profiles: PlayerProfile[] };
+      const parsed = parseJSONResponse<{ profiles: PlayerProfile[] }>(responseText);
       profiles = parsed.profiles || [];
       
       // Validate and clamp attribute values to 0-100
@@ -224,6 +229,7 @@ export async function POST(request: NextRequest) {
         strengths: profile.strengths?.slice(0, 3) || [],
         areasToImprove: profile.areasToImprove?.slice(0, 2) || [],
       }));
+      parsedFromModel = true;
       
     } catch (parseError) {
       logger.warn(`[${requestId}] Failed to parse profile JSON, using fallback`);
@@ -251,9 +257,15 @@ export async function POST(request: NextRequest) {
     const duration = Date.now() - startTime;
     logger.info(`[${requestId}] Generated ${profiles.length} profiles in ${duration}ms`);
     
+    // Only persist real model output, not the fallback
+    const artifact = artifactContext && parsedFromModel
+      ? await saveArtifact(artifactContext, "player_profiles", inputHash, { profiles }, result.model)
+      : null;
+    
     return NextResponse.json({
       profiles,
-      modelUsed: MODEL_NAME,
+      modelUsed: result.model,
+      artifact,
     } as PlayerProfileResponse);
     
   } catch (error) {
@@ -7,16 +7,24 @@
  * POST /api/pose-data - Save pose data to S3
  * GET /api/pose-data?videoS3Key=... - Load pose data from S3
  * HEAD /api/pose-data?videoS3Key=... - Check if pose data exists
+ * PATCH /api/pose-data?videoS3Key=... - Upgrade v1 pose data to v2
  * DELETE /api/pose-data?videoS3Key=... - Delete pose data
+ * 
+ * Pose data is stored in the compact v2 binary format (utils/pose-storage.ts):
+ * the poses go into the typed-array payload and every other field into the header.
+ * GET returns v2 data as-is and older gzipped v1 JSON as JSON, without writing.
+ * PATCH upgrades v1 data only while no v2 object exists, so it never replaces
+ * data saved in the meantime.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { S3Client, PutObjectCommand, GetObjectCommand, HeadObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
-import { gzip, gunzip } from "zlib";
+import { gunzip } from "zlib";
 import { promisify } from "util";
 import { logger } from "@/lib/logger";
+import { POSE_DATA_V2_CONTENT_TYPE, getPoseDataApiKey, serializePoseDataV2 } from "@/utils/pose-storage";
+import type { PoseDetectionResult } from "@/hooks/usePoseDetection";
 
-const gzipAsync = promisify(gzip);
 const gunzipAsync = promisify(gunzip);
 
 export const runtime = "nodejs";
@@ -35,15 +43,81 @@ const s3Client = new S3Client({
     : undefined,
 });
 
+// NoSuchKey and AccessDenied are both treated as "not found"
+function isMissingObjectError(error: unknown): boolean {
+  const errorCode = error && typeof error === 'object' && 'Code' in error ? (error as { Code: string }).Code : '';
+  const errorName = error && typeof error === 'object' && 'name' in error ? (error as { name: string }).name : '';
+  return errorName === "NoSuchKey" || errorCode === "NoSuchKey" ||
+    errorName === "AccessDenied" || errorCode === "AccessDenied";
+}
+
+function isPreconditionFailedError(error: unknown): boolean {
+  const errorName = error && typeof error === 'object' && 'name' in error ? (error as { name: string }).name : '';
+  return errorName === "PreconditionFailed";
+}
+
 /**
- * Generate the S3 key for pose data based on the video's S3 key
- * The video key is sanitized to create a valid path
+ * Download an object, or null if it does not exist
  */
-function getPoseDataKey(videoS3Key: string): string {
-  // Sanitize the video key to use as a folder name
-  // Replace slashes with underscores to flatten the path
-  const sanitizedKey = videoS3Key.replace(/\//g, "_");
-  return `pose-data/videos/${sanitizedKey}/poses.json.gz`;
+async function getObjectBytes(key: string): Promise<Uint8Array | null> {
+  try {
+    const response = await s3Client.send(new GetObjectCommand({ Bucket: BUCKET_NAME, Key: key }));
+    return response.Body ? await response.Body.transformToByteArray() : null;
+  } catch (error) {
+    if (isMissingObjectError(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Encode a pose data document as v2
+ */
+async function encodePoseDocument(data: Record<string, unknown>) {
+  const { poses, ...document } = data as { poses?: Record<string, PoseDetectionResult[]> };
+  const frames = new Map(
+    Object.entries(poses ?? {}).map(([frame, framePoses]) => [Number(frame), framePoses] as const)
+  );
+
+  // Minify: remove undefined/null values
+  const metadata = JSON.parse(JSON.stringify(document, (key, value) => {
+    if (value === undefined || value === null) return undefined;
+    return value;
+  })) as Record<string, unknown>;
+
+  return serializePoseDataV2(frames, metadata, { compression: "gzip" });
+}
+
+/**
+ * Store encoded v2 data and remove the v1 object it replaces.
+ * With `onlyIfMissing`, an existing v2 object is kept (it is newer than any
+ * v1 data) and false is returned.
+ */
+async function putPoseDataV2(
+  videoS3Key: string,
+  encoded: Uint8Array,
+  { onlyIfMissing = false }: { onlyIfMissing?: boolean } = {}
+): Promise<boolean> {
+  let stored = true;
+
+  try {
+    await s3Client.send(new PutObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: getPoseDataApiKey(videoS3Key, 2),
+      Body: encoded,
+      ContentType: POSE_DATA_V2_CONTENT_TYPE,
+      ...(onlyIfMissing && { IfNoneMatch: "*" }),
+    }));
+  } catch (error) {
+    if (!onlyIfMissing || !isPreconditionFailedError(error)) throw error;
+    stored = false;
+  }
+
+  await s3Client.send(new DeleteObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: getPoseDataApiKey(videoS3Key, 1),
+  }));
+
+  return stored;
 }
 
 /**
@@ -65,31 +139,14 @@ export async function POST(request: NextRequest) {
 
     logger.info(`[${requestId}] Saving pose data for video ${videoS3Key}`);
 
-    const key = getPoseDataKey(videoS3Key);
-
-    // Minify: remove undefined/null values, then compress with gzip
-    const jsonString = JSON.stringify(data, (key, value) => {
-      if (value === undefined || value === null) return undefined;
-      return value;
-    });
-    const compressed = await gzipAsync(jsonString);
-    
-    const originalSize = Buffer.byteLength(jsonString);
-    const compressedSize = compressed.length;
-    const compressionRatio = ((1 - compressedSize / originalSize) * 100).toFixed(1);
-
-    // Upload to S3
-    const command = new PutObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-      Body: compressed,
-      ContentType: "application/gzip",
-      ContentEncoding: "gzip",
-    });
+    const key = getPoseDataApiKey(videoS3Key);
+    const originalSize = Buffer.byteLength(JSON.stringify(data));
+    const encoded = await encodePoseDocument(data);
+    await putPoseDataV2(videoS3Key, encoded);
+    const encodedSize = encoded.length;
+    const compressionRatio = ((1 - encodedSize / originalSize) * 100).toFixed(1);
 
-    await s3Client.send(command);
-
-    logger.info(`[${requestId}] Pose data saved to ${key} (${(originalSize/1024).toFixed(1)}KB → ${(compressedSize/1024).toFixed(1)}KB, ${compressionRatio}% reduction)`);
+    logger.info(`[${requestId}] Pose data saved to ${key} (${(originalSize/1024).toFixed(1)}KB → ${(encodedSize/1024).toFixed(1)}KB, ${compressionRatio}% reduction)`);
 
     return NextResponse.json({
       success: true,
@@ -123,35 +180,32 @@ export async function GET(request: NextRequest) {
 
     logger.info(`[${requestId}] Loading pose data for video ${videoS3Key}`);
 
-    const key = getPoseDataKey(videoS3Key);
-
-    // Download from S3
-    const command = new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    });
+    // v2 is returned as stored; the client decodes it
+    const v2Key = getPoseDataApiKey(videoS3Key, 2);
+    const v2Bytes = await getObjectBytes(v2Key);
+    if (v2Bytes) {
+      logger.info(`[${requestId}] Pose data loaded from ${v2Key} (${(v2Bytes.length/1024).toFixed(1)}KB)`);
+      return new NextResponse(Buffer.from(v2Bytes), {
+        headers: { "Content-Type": POSE_DATA_V2_CONTENT_TYPE },
+      });
+    }
 
-    const response = await s3Client.send(command);
-    
-    if (!response.Body) {
-      return NextResponse.json({ error: "No data found" }, { status: 404 });
+    const v1Key = getPoseDataApiKey(videoS3Key, 1);
+    const compressedBytes = await getObjectBytes(v1Key);
+    if (!compressedBytes) {
+      return NextResponse.json({ error: "No pose data found" }, { status: 404 });
     }
 
-    // Convert stream to buffer and decompress
-    const compressedBuffer = Buffer.from(await response.Body.transformToByteArray());
+    // Decompress v1 JSON
+    const compressedBuffer = Buffer.from(compressedBytes);
     const decompressed = await gunzipAsync(compressedBuffer);
     const data = JSON.parse(decompressed.toString());
 
-    logger.info(`[${requestId}] Pose data loaded from ${key} (${(compressedBuffer.length/1024).toFixed(1)}KB compressed)`);
+    logger.info(`[${requestId}] Pose data loaded from ${v1Key} (${(compressedBuffer.length/1024).toFixed(1)}KB compressed)`);
 
     return NextResponse.json(data);
   } catch (error: unknown) {
-    // Check for NoSuchKey or AccessDenied errors (treat both as "not found")
-    const errorCode = error && typeof error === 'object' && 'Code' in error ? (error as { Code: string }).Code : '';
-    const errorName = error && typeof error === 'object' && 'name' in error ? (error as { name: string }).name : '';
-    
-    if (errorName === "NoSuchKey" || errorCode === "NoSuchKey" || 
-        errorName === "AccessDenied" || errorCode === "AccessDenied") {
+    if (isMissingObjectError(error)) {
       return NextResponse.json({ error: "No pose data found" }, { status: 404 });
     }
 
@@ -163,6 +217,51 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * PATCH - Upgrade v1 pose data to v2.
+ * Does nothing when v2 data already exists, so a save that lands while the
+ * upgrade runs is never replaced by the older v1 content.
+ */
+export async function PATCH(request: NextRequest) {
+  const requestId = `pose_upgrade_${Date.now()}`;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const videoS3Key = searchParams.get("videoS3Key");
+
+    if (!videoS3Key) {
+      return NextResponse.json(
+        { error: "videoS3Key query parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const v1Key = getPoseDataApiKey(videoS3Key, 1);
+    const compressedBytes = await getObjectBytes(v1Key);
+    if (!compressedBytes) {
+      return NextResponse.json({ success: true, upgraded: false });
+    }
+
+    const decompressed = await gunzipAsync(Buffer.from(compressedBytes));
+    const encoded = await encodePoseDocument(JSON.parse(decompressed.toString()));
+    const upgraded = await putPoseDataV2(videoS3Key, encoded, { onlyIfMissing: true });
+
+    if (upgraded) {
+      logger.info(`[${requestId}] Upgraded pose data to v2 (${(compressedBytes.length/1024).toFixed(1)}KB → ${(encoded.length/1024).toFixed(1)}KB)`);
+    } else {
+      logger.info(`[${requestId}] v2 pose data already exists, removed stale v1 data`);
+    }
+
+    return NextResponse.json({ success: true, upgraded });
+  } catch (error) {
+    logger.error(`[${requestId}] Failed to upgrade pose data:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to upgrade pose data" },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * HEAD - Check if pose data exists
  */
@@ -175,20 +274,23 @@ export async function HEAD(request: NextRequest) {
       return new NextResponse(null, { status: 400 });
     }
     
-    const key = getPoseDataKey(videoS3Key);
-
-    const command = new HeadObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    });
-
-    await s3Client.send(command);
-    
-    return new NextResponse(null, { status: 200 });
-  } catch (error: unknown) {
-    if (error && typeof error === 'object' && 'name' in error && error.name === "NotFound") {
-      return new NextResponse(null, { status: 404 });
+    // Either version counts; v1 data is upgraded after its next load
+    for (const version of [2, 1] as const) {
+      try {
+        await s3Client.send(new HeadObjectCommand({
+          Bucket: BUCKET_NAME,
+          Key: getPoseDataApiKey(videoS3Key, version),
+        }));
+        return new NextResponse(null, { status: 200 });
+      } catch (error: unknown) {
+        if (!(error && typeof error === 'object' && 'name' in error && error.name === "NotFound")) {
+          throw error;
+        }
+      }
     }
+    
+    return new NextResponse(null, { status: 404 });
+  } catch {
     return new NextResponse(null, { status: 500 });
   }
 }
@@ -212,14 +314,13 @@ export async function DELETE(request: NextRequest) {
 
     logger.info(`[${requestId}] Deleting pose data for video ${videoS3Key}`);
 
-    const key = getPoseDataKey(videoS3Key);
-
-    const command = new DeleteObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    });
-
-    await s3Client.send(command);
+    // Delete both versions (deleting a missing key succeeds)
+    for (const version of [2, 1] as const) {
+      await s3Client.send(new DeleteObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: getPoseDataApiKey(videoS3Key, version),
+      }));
+    }
 
     logger.info(`[${requestId}] Pose data deleted successfully`);
 
@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI, SchemaType, type Schema } from "@google/generative-ai";
 import { logger } from "@/lib/logger";
+import { generateText, parseJSONResponse, type LLMJsonSchema } from "@/lib/llm-providers";
+import { getArtifactContext, hashArtifactInput, findArtifact, saveArtifact } from "@/lib/task-artifacts";
+import type { TaskArtifactRequestFields } from "@/types/task-artifact";
 import type {
   SwingProfileData,
   SwingProfile,
   SwingProfileResponse,
 } from "@/types/swing-profile";
 
-// Use Gemini 3 Flash for fast profile generation
-const MODEL_NAME = "gemini-3-flash-preview";
+// Use the pro tier (Gemini 3 Flash) for fast profile generation
+const MODEL_TIER = "pro";
 
 // Ensure this route uses Node.js runtime
 export const runtime = "nodejs";
@@ -17,37 +19,37 @@ export const maxDuration = 30; // 30 seconds for profile generation
 /**
  * JSON Schema for structured output - enforces consistent profile format
  */
-const PROFILE_SCHEMA = {
-  type: SchemaType.OBJECT,
+const PROFILE_SCHEMA: LLMJsonSchema = {
+  type: "object",
   properties: {
     profiles: {
-      type: SchemaType.ARRAY,
+      type: "array",
       items: {
-        type: SchemaType.OBJECT,
+        type: "object",
         properties: {
-          swingId: { type: SchemaType.STRING },
-          swingIndex: { type: SchemaType.NUMBER },
-          swingType: { type: SchemaType.STRING },
+          swingId: { type: "string" },
+          swingIndex: { type: "number" },
+          swingType: { type: "string" },
           attributes: {
-            type: SchemaType.OBJECT,
+            type: "object",
             properties: {
-              power: { type: SchemaType.NUMBER },
-              agility: { type: SchemaType.NUMBER },
-              footwork: { type: SchemaType.NUMBER },
-              hip: { type: SchemaType.NUMBER },
-              rotation: { type: SchemaType.NUMBER },
+              power: { type: "number" },
+              agility: { type: "number" },
+              footwork: { type: "number" },
+              hip: { type: "number" },
+              rotation: { type: "number" },
             },
             required: ["power", "agility", "footwork", "hip", "rotation"],
           },
-          summary: { type: SchemaType.STRING },
-          techniqueName: { type: SchemaType.STRING },
+          summary: { type: "string" },
+          techniqueName: { type: "string" },
           strengths: {
-            type: SchemaType.ARRAY,
-            items: { type: SchemaType.STRING },
+            type: "array",
+            items: { type: "string" },
           },
           focusAreas: {
-            type: SchemaType.ARRAY,
-            items: { type: SchemaType.STRING },
+            type: "array",
+            items: { type: "string" },
           },
         },
         required: [
@@ -214,46 +216,48 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { swings, sport = "padel" } = body as {
+    const { swings, sport = "padel", taskId, regenerate = false } = body as {
       swings: SwingProfileData[];
       sport?: string;
-    };
+    } & TaskArtifactRequestFields;
 
     // Validate input
     if (!swings || !Array.isArray(swings) || swings.length === 0) {
       return NextResponse.json({ error: "No swings provided" }, { status: 400 });
     }
 
-    // Get API key
-    if (!process.env.GEMINI_API_KEY) {
-      logger.error(`[${requestId}] GEMINI_API_KEY not set`);
-      return NextResponse.json(
-        { error: "AI service not configured" },
-        { status: 500 }
-      );
-    }
-
-    // Initialize Gemini Flash
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-
-    const model = genAI.getGenerativeModel({
-      model: MODEL_NAME,
-      generationConfig: {
-        temperature: 0.7, // Balance creativity with consistency
-        maxOutputTokens: 4096,
-        responseMimeType: "application/json",
-        responseSchema: PROFILE_SCHEMA as Schema,
-      },
-    });
-
     const prompt = buildSwingProfilePrompt(swings, sport);
     logger.debug(
       `[${requestId}] Prompt: ${prompt.length} chars for ${swings.length} swings`
     );
 
+    // Serve the stored profiles for these inputs unless a regenerate was requested
+    const artifactContext = await getArtifactContext(request, taskId);
+    const inputHash = hashArtifactInput("swing_profiles", prompt);
+    if (artifactContext && !regenerate) {
+      const stored = await findArtifact<{ profiles: SwingProfile[] }>(artifactContext, "swing_profiles", inputHash);
+      if (stored) {
+        logger.info(`[${requestId}] Serving stored swing profiles v${stored.artifact.version}`);
+        return NextResponse.json({
+          profiles: stored.content.profiles,
+          modelUsed: stored.model ?? "unknown",
+          artifact: stored.artifact,
+        } as SwingProfileResponse);
+      }
+    }
+
     // Generate profiles
-    const result = await model.generateContent([{ text: prompt }]);
-    const responseText = result.response.text();
+    const result = await generateText({
+      requestId,
+      label: "swing-profiles",
+      tier: MODEL_TIER,
+      prompt,
+      temperature: 0.7, // Balance creativity with consistency
+      maxOutputTokens: 4096,
+      json: PROFILE_SCHEMA,
+      timeoutMs: 25_000,
+    });
+    const responseText = result.text;
 
     logger.debug(
       `[${requestId}] Raw response: ${responseText.substring(0, 500)}...`
@@ -261,9 +265,10 @@ export async function POST(request: NextRequest) {
 
     // Parse JSON response
     let profiles: SwingProfile[] = [];
+    let parsedFromModel = false;
 
     try {
-      const parsed = JSON.parse(responseText) as { profiles: SwingProfile[] };
+      const parsed = parseJSONResponse<{ profiles: SwingProfile[] }>(responseText);
       profiles = parsed.profiles || [];
 
       // Validate and ensure attribute values match input (don't let LLM change them)
@@ -287,6 +292,7 @@ export async function POST(request: NextRequest) {
           focusAreas: profile.focusAreas?.slice(0, 2) || [],
         };
       });
+      parsedFromModel = true;
     } catch (parseError) {
       logger.warn(
         `[${requestId}] Failed to parse swing profile JSON, using fallback`
@@ -346,9 +352,15 @@ export async function POST(request: NextRequest) {
       `[${requestId}] Generated ${profiles.length} swing profiles in ${duration}ms`
     );
 
+    // Only persist real model output, not the fallback
+    const artifact = artifactContext && parsedFromModel
+      ? await saveArtifact(artifactContext, "swing_profiles", inputHash, { profiles }, result.model)
+      : null;
+
     return NextResponse.json({
       profiles,
-      modelUsed: MODEL_NAME,
+      modelUsed: result.model,
+      artifact,
     } as SwingProfileResponse);
   } catch (error) {
     const duration = Date.now() - startTime;
@@ -1,18 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { logger } from "@/lib/logger";
+import { generateText, streamText, type LLMRequest } from "@/lib/llm-providers";
+import { getArtifactContext, hashArtifactInput, findArtifact, saveArtifact, artifactHeaders } from "@/lib/task-artifacts";
 import { getTacticalPromptWithDomain } from "@/lib/prompts";
 import type { DomainExpertise } from "@/utils/storage";
+import { ARTIFACT_INPUT_HASH_HEADER, type TaskArtifactRequestFields } from "@/types/task-artifact";
 import type { 
   TacticalAnalysisRequest, 
   TacticalAnalysisAllRequest,
   PlayerTacticalData,
   BallTypeAnalysisData,
   PlayerAllBallTypesData,
+  ServeAnalysisRequest,
 } from "@/types/tactical-analysis";
+import type { ServeSplit } from "@/utils/serve-analytics";
 
-// Use Gemini 3 Flash for tactical analysis (fast, text-only structured data)
-const MODEL_NAME = "gemini-3-flash-preview";
+// Use the pro tier (Gemini 3 Flash) for tactical analysis (fast, text-only structured data)
+const MODEL_TIER = "pro";
 
 // Ensure this route uses Node.js runtime
 export const runtime = "nodejs";
@@ -205,6 +209,76 @@ function buildAllAnalysisPrompt(
   return lines.join("\n");
 }
 
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Format one slice of a player's serves (first serves, deuce side, ...)
+ */
+function formatServeSplit(label: string, split: ServeSplit): string {
+  if (split.serves === 0) return `- ${label}: none`;
+  
+  const parts = [
+    `${split.serves} serves`,
+    `${formatPercent(split.inRate)} in`,
+    `${formatPercent(split.returnRate)} of serves in returned`,
+  ];
+  if (split.pointsPlayed > 0) {
+    parts.push(`${split.pointsWon}/${split.pointsPlayed} points won`);
+  }
+  if (split.avgSpeed > 0) {
+    parts.push(`avg ${Math.round(split.avgSpeed)} km/h, top ${Math.round(split.topSpeed)} km/h`);
+  }
+  
+  const placed = split.zones.wide + split.zones.body + split.zones.T;
+  if (placed > 0) {
+    parts.push(`placement wide ${split.zones.wide} / body ${split.zones.body} / T ${split.zones.T}`);
+  }
+  
+  return `- ${label}: ${parts.join(", ")}`;
+}
+
+/**
+ * Build the serve summary prompt (Serves sub-tab)
+ */
+function buildServePrompt(
+  { hasSecondServe, players }: ServeAnalysisRequest["serveReport"]
+): string {
+  const lines: string[] = [];
+  
+  lines.push(`# Serve Analysis`);
+  lines.push("");
+  lines.push("Analyze each player's serve: reliability, placement in the service box (wide, body, T), speed, how often the return comes back, and differences between the deuce and ad side.");
+  lines.push("");
+  
+  players.forEach(player => {
+    lines.push(`---`);
+    lines.push(`## PLAYER: ${player.playerName}`);
+    lines.push("");
+    if (hasSecondServe) {
+      lines.push(formatServeSplit("First serve", player.first));
+      lines.push(formatServeSplit("Second serve", player.second));
+      lines.push(`- Double faults: ${player.doubleFaults}`);
+    } else {
+      lines.push(formatServeSplit("Serve", player.first));
+    }
+    lines.push(formatServeSplit("Deuce side", player.bySide.deuce));
+    lines.push(formatServeSplit("Ad side", player.bySide.ad));
+    lines.push("");
+  });
+  
+  lines.push("---");
+  lines.push("");
+  lines.push("For EACH player, give a short serve summary (2-3 sentences) and one concrete adjustment. Format:");
+  lines.push("");
+  players.forEach(player => {
+    lines.push(`**${player.playerName}**: [Your summary and advice here]`);
+  });
+  
+  return lines.join("\n");
+}
+
 export async function POST(request: NextRequest) {
   const requestId = `tactical_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
   const startTime = Date.now();
@@ -218,10 +292,26 @@ export async function POST(request: NextRequest) {
     
     // Check if this is an "Analyse All" request (has players array)
     const isAnalyzeAll = Array.isArray(body.players);
+    const isServeReport = Array.isArray(body.serveReport?.players);
     
     let analysisPrompt: string;
     
-    if (isAnalyzeAll) {
+    if (isServeReport) {
+      // Serve summary mode
+      const { serveReport } = body as ServeAnalysisRequest;
+      const playersWithServes = serveReport.players.filter(p => p.serves > 0);
+      
+      if (playersWithServes.length === 0) {
+        return NextResponse.json(
+          { error: "No serve data available for analysis" },
+          { status: 400 }
+        );
+      }
+      
+      logger.debug(`[${requestId}] Serve mode: ${playersWithServes.length} players`);
+      analysisPrompt = buildServePrompt({ ...serveReport, players: playersWithServes });
+      
+    } else if (isAnalyzeAll) {
       // Multi-player analysis mode
       const { players } = body as TacticalAnalysisAllRequest;
       
@@ -263,38 +353,60 @@ export async function POST(request: NextRequest) {
       analysisPrompt = buildAnalysisPrompt({ ballType, ballLabel, playerData, comparisonPlayerData });
     }
     
-    // Get API key
-    if (!process.env.GEMINI_API_KEY) {
-      logger.error(`[${requestId}] GEMINI_API_KEY not set`);
-      return NextResponse.json(
-        { error: "AI service not configured" },
-        { status: 500 }
-      );
-    }
-    
-    // Initialize Gemini
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
     const systemPrompt = getTacticalPromptWithDomain(sport as DomainExpertise);
     
-    const model = genAI.getGenerativeModel({
-      model: MODEL_NAME,
+    const llmRequest: LLMRequest = {
+      requestId,
+      label: "tactical-analysis",
+      tier: MODEL_TIER,
       systemInstruction: systemPrompt,
-    });
+      prompt: analysisPrompt,
+      timeoutMs: 25_000,
+    };
     
     logger.debug(`[${requestId}] Prompt length: ${analysisPrompt.length} chars`);
     
+    // Serve the stored analysis for these inputs unless a regenerate was requested
+    const { taskId, regenerate = false } = body as TaskArtifactRequestFields;
+    const artifactContext = await getArtifactContext(request, taskId);
+    const inputHash = hashArtifactInput("tactical_analysis", { systemPrompt, analysisPrompt });
+    if (artifactContext && !regenerate) {
+      const stored = await findArtifact<{ analysis: string }>(artifactContext, "tactical_analysis", inputHash);
+      if (stored) {
+        logger.info(`[${requestId}] Serving stored analysis v${stored.artifact.version}`);
+        if (shouldStream) {
+          return new Response(stored.content.analysis, {
+            headers: {
+              "Content-Type": "text/plain; charset=utf-8",
+              ...artifactHeaders(stored.artifact),
+            },
+          });
+        }
+        return NextResponse.json({
+          analysis: stored.content.analysis,
+          modelUsed: stored.model,
+          streamed: false,
+          artifact: stored.artifact,
+        });
+      }
+    }
+    
     if (shouldStream) {
       // Streaming response
       const stream = new ReadableStream({
         async start(controller) {
           try {
-            const result = await model.generateContentStream([{ text: analysisPrompt }]);
+            const result = await streamText(llmRequest);
+            let fullText = "";
             
-            for await (const chunk of result.stream) {
-              const chunkText = chunk.text();
-              if (chunkText) {
-                controller.enqueue(new TextEncoder().encode(chunkText));
-              }
+            for await (const chunkText of result.textStream) {
+              fullText += chunkText;
+              controller.enqueue(new TextEncoder().encode(chunkText));
+            }
+            
+            // Save before closing so the client can load the new version once the stream ends
+            if (artifactContext && fullText) {
+              await saveArtifact(artifactContext, "tactical_analysis", inputHash, { analysis: fullText }, result.model);
             }
             
             controller.close();
@@ -312,20 +424,26 @@ export async function POST(request: NextRequest) {
         headers: {
           "Content-Type": "text/plain; charset=utf-8",
           "Transfer-Encoding": "chunked",
+          ...(artifactContext ? { [ARTIFACT_INPUT_HASH_HEADER]: inputHash } : {}),
         },
       });
     } else {
       // Non-streaming response
-      const result = await model.generateContent([{ text: analysisPrompt }]);
-      const responseText = result.response.text();
+      const result = await generateText(llmRequest);
+      const responseText = result.text;
       
       const duration = Date.now() - startTime;
       logger.info(`[${requestId}] Analysis completed in ${duration}ms`);
       
+      const artifact = artifactContext && responseText
+        ? await saveArtifact(artifactContext, "tactical_analysis", inputHash, { analysis: responseText }, result.model)
+        : null;
+      
       return NextResponse.json({
         analysis: responseText,
-        modelUsed: MODEL_NAME,
+        modelUsed: result.model,
         streamed: false,
+        artifact,
       });
     }
   } catch (error) {
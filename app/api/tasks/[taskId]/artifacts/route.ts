@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { isTaskArtifactType, listArtifactVersions } from "@/lib/task-artifacts";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/tasks/[taskId]/artifacts?type=player_profiles&inputHash=...
+ * Version history of AI-generated artifacts for a task, newest first
+ *
+ * Query:
+ * - type (optional): tactical_analysis | player_profiles | player_nicknames | swing_profiles
+ * - inputHash (optional): only versions generated from the same inputs
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const { taskId } = await params;
+  const requestId = `task_artifacts_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const type = request.nextUrl.searchParams.get("type");
+    if (type !== null && !isTaskArtifactType(type)) {
+      return NextResponse.json({ error: `Unknown artifact type: ${type}` }, { status: 400 });
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    // Verify the task belongs to the user
+    const { data: task } = await supabase
+      .from("sportai_tasks")
+      .select("id")
+      .eq("id", taskId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!task) {
+      logger.warn(`[${requestId}] Task not found or unauthorized: ${taskId}`);
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const artifacts = await listArtifactVersions(supabase, taskId, {
+      type: type ?? undefined,
+      inputHash: request.nextUrl.searchParams.get("inputHash") ?? undefined,
+    });
+
+    return NextResponse.json({ artifacts });
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load artifacts" },
+      { status: 500 }
+    );
+  }
+}
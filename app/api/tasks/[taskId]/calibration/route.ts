@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { isValidCalibration, MIN_CALIBRATION_POINTS } from "@/utils/court-calibration";
+import type { Json } from "@/types/supabase";
+
+export const runtime = "nodejs";
+
+/**
+ * PUT /api/tasks/[taskId]/calibration
+ * Save a manual court calibration for a task
+ *
+ * Body: { calibration: CourtCalibrationData }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const { taskId } = await params;
+  const requestId = `task_calibration_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const userId = user.id;
+    const body = await request.json().catch(() => null);
+    const calibration = body?.calibration;
+
+    if (!isValidCalibration(calibration) || calibration.points.length < MIN_CALIBRATION_POINTS) {
+      return NextResponse.json({ error: "Invalid calibration" }, { status: 400 });
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    // Verify the task belongs to the user
+    const { data: task, error: fetchError } = await supabase
+      .from("sportai_tasks")
+      .select("id, sport")
+      .eq("id", taskId)
+      .eq("user_id", userId)
+      .single();
+
+    if (fetchError || !task) {
+      logger.warn(`[${requestId}] Task not found or unauthorized: ${taskId}`);
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    if (task.sport !== calibration.sport) {
+      return NextResponse.json(
+        { error: `Calibration is for ${calibration.sport}, task is ${task.sport}` },
+        { status: 400 }
+      );
+    }
+
+    const { error: updateError } = await supabase
+      .from("sportai_tasks")
+      .update({
+        court_calibration: calibration as unknown as Json,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", taskId)
+      .eq("user_id", userId);
+
+    if (updateError) {
+      logger.error(`[${requestId}] Failed to save calibration:`, updateError);
+      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    }
+
+    logger.info(`[${requestId}] Saved ${calibration.sport} calibration (${calibration.points.length} points) for task: ${taskId}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save calibration" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/tasks/[taskId]/calibration
+ * Remove the manual court calibration from a task
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const { taskId } = await params;
+  const requestId = `task_calibration_delete_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const userId = user.id;
+    const supabase = getSupabaseAdmin();
+
+    const { data: task, error: updateError } = await supabase
+      .from("sportai_tasks")
+      .update({
+        court_calibration: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", taskId)
+      .eq("user_id", userId)
+      .select("id")
+      .maybeSingle();
+
+    if (updateError) {
+      logger.error(`[${requestId}] Failed to clear calibration:`, updateError);
+      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    }
+
+    if (!task) {
+      logger.warn(`[${requestId}] Task not found or unauthorized: ${taskId}`);
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    logger.info(`[${requestId}] Cleared calibration for task: ${taskId}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to clear calibration" },
+      { status: 500 }
+    );
+  }
+}
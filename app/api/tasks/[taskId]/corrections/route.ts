@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { isValidMatchCorrections } from "@/utils/match-corrections";
+import type { Json } from "@/types/supabase";
+
+export const runtime = "nodejs";
+
+/**
+ * PUT /api/tasks/[taskId]/corrections
+ * Save the manual match event corrections for a task (replaces all previous ones)
+ *
+ * Body: { corrections: MatchCorrection[] } (see utils/match-corrections.ts)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const { taskId } = await params;
+  const requestId = `task_corrections_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const userId = user.id;
+    const body = await request.json().catch(() => null);
+    const corrections = body?.corrections;
+
+    if (!isValidMatchCorrections(corrections)) {
+      return NextResponse.json({ error: "Invalid match corrections" }, { status: 400 });
+    }
+
+    const count = corrections.length;
+    const supabase = getSupabaseAdmin();
+
+    const { data: task, error: updateError } = await supabase
+      .from("sportai_tasks")
+      .update({
+        match_corrections: count > 0 ? (corrections as unknown as Json) : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", taskId)
+      .eq("user_id", userId)
+      .select("id")
+      .maybeSingle();
+
+    if (updateError) {
+      logger.error(`[${requestId}] Failed to save match corrections:`, updateError);
+      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    }
+
+    if (!task) {
+      logger.warn(`[${requestId}] Task not found or unauthorized: ${taskId}`);
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    logger.info(`[${requestId}] Saved ${count} match correction(s) for task: ${taskId}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save match corrections" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { isValidAppearanceSignature } from "@/utils/appearance-signature";
+import type { Json } from "@/types/supabase";
+
+export const runtime = "nodejs";
+
+/**
+ * PUT /api/tasks/[taskId]/player-identities
+ * Assign one of the task's players to a player identity, or unassign it
+ *
+ * Body: { playerId: number, identityId: string | null, signature?: number[] }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const { taskId } = await params;
+  const requestId = `task_player_identities_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json().catch(() => null);
+    const playerId = body?.playerId;
+    const identityId = body?.identityId ?? null;
+
+    if (!Number.isInteger(playerId) || (identityId !== null && typeof identityId !== "string")) {
+      return NextResponse.json({ error: "playerId and identityId are required" }, { status: 400 });
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    // Verify the task belongs to the user
+    const { data: task } = await supabase
+      .from("sportai_tasks")
+      .select("id")
+      .eq("id", taskId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!task) {
+      logger.warn(`[${requestId}] Task not found or unauthorized: ${taskId}`);
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    if (identityId === null) {
+      const { error } = await supabase
+        .from("player_identity_links")
+        .delete()
+        .eq("task_id", taskId)
+        .eq("player_id", playerId);
+
+      if (error) {
+        logger.error(`[${requestId}] Error unassigning player identity:`, error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+
+      return NextResponse.json({ success: true });
+    }
+
+    // Verify the identity belongs to the user
+    const { data: identity } = await supabase
+      .from("player_identities")
+      .select("id")
+      .eq("id", identityId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!identity) {
+      return NextResponse.json({ error: "Player identity not found" }, { status: 404 });
+    }
+
+    // One person can't be two players in the same task
+    const { error: clearError } = await supabase
+      .from("player_identity_links")
+      .delete()
+      .eq("task_id", taskId)
+      .eq("identity_id", identityId)
+      .neq("player_id", playerId);
+
+    if (clearError) {
+      logger.error(`[${requestId}] Error clearing previous assignment:`, clearError);
+      return NextResponse.json({ error: clearError.message }, { status: 500 });
+    }
+
+    const signature = isValidAppearanceSignature(body?.signature) ? body.signature : null;
+
+    const { error } = await supabase
+      .from("player_identity_links")
+      .upsert(
+        {
+          identity_id: identityId,
+          task_id: taskId,
+          user_id: user.id,
+          player_id: playerId,
+          signature: signature as Json | null,
+        },
+        { onConflict: "task_id,player_id" }
+      );
+
+    if (error) {
+      logger.error(`[${requestId}] Error assigning player identity:`, error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    logger.info(`[${requestId}] Assigned player ${playerId} of task ${taskId} to identity ${identityId}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save player identity" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { isValidRallyOutcomes, MAX_RALLY_OUTCOMES } from "@/utils/match-score";
+import type { Json } from "@/types/supabase";
+
+export const runtime = "nodejs";
+
+/**
+ * PUT /api/tasks/[taskId]/rally-outcomes
+ * Save manual rally outcome corrections for a task (replaces all previous ones)
+ *
+ * Body: { outcomes: Record<rallyKey, "A" | "B" | "void"> } (see getRallyKey in utils/match-score.ts)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ taskId: string }> }
+) {
+  const { taskId } = await params;
+  const requestId = `task_rally_outcomes_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const userId = user.id;
+    const body = await request.json().catch(() => null);
+    const outcomes = body?.outcomes;
+
+    if (!isValidRallyOutcomes(outcomes)) {
+      return NextResponse.json(
+        { error: `Invalid rally outcomes (at most ${MAX_RALLY_OUTCOMES} overrides)` },
+        { status: 400 }
+      );
+    }
+
+    const count = Object.keys(outcomes).length;
+    const supabase = getSupabaseAdmin();
+
+    const { data: task, error: updateError } = await supabase
+      .from("sportai_tasks")
+      .update({
+        rally_outcomes: count > 0 ? (outcomes as unknown as Json) : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", taskId)
+      .eq("user_id", userId)
+      .select("id")
+      .maybeSingle();
+
+    if (updateError) {
+      logger.error(`[${requestId}] Failed to save rally outcomes:`, updateError);
+      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    }
+
+    if (!task) {
+      logger.warn(`[${requestId}] Task not found or unauthorized: ${taskId}`);
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    logger.info(`[${requestId}] Saved ${count} rally outcome override(s) for task: ${taskId}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save rally outcomes" },
+      { status: 500 }
+    );
+  }
+}
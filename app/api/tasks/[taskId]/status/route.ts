@@ -1,18 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { logger } from "@/lib/logger";
-import { getSportAIApiUrl, getSportAIApiKey, getEnvironmentLabel } from "@/lib/sportai-api";
+import { getSportAIApiKey, getEnvironmentLabel } from "@/lib/sportai-api";
 import { generatePresignedDownloadUrl } from "@/lib/s3";
 import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { syncTaskStatus } from "@/lib/sportai-tasks";
 import type { Database } from "@/types/supabase";
 
 export const runtime = "nodejs";
 
-// Task type to status endpoint mapping
-const STATUS_ENDPOINTS: Record<string, string> = {
-  statistics: "/api/statistics",
-  activity_detection: "/api/activity_detection",
-};
-
 /**
  * Check if a presigned URL has expired or is about to expire
  */
@@ -111,10 +106,7 @@ export async function GET(
     
     const userId = user.id;
     
-    const SPORTAI_API_URL = getSportAIApiUrl();
-    const SPORTAI_API_KEY = getSportAIApiKey();
-    
-    if (!SPORTAI_API_KEY) {
+    if (!getSportAIApiKey()) {
       logger.error(`[${requestId}] SPORTAI_API_KEY not configured for ${getEnvironmentLabel()}`);
       return NextResponse.json(
         { error: "SportAI API not configured" },
@@ -136,91 +128,11 @@ export async function GET(
       return NextResponse.json({ error: "Task not found" }, { status: 404 });
     }
     
-    // If task is already completed or failed, return current status
-    // Also refresh video URL if needed
-    if (task.status === "completed" || task.status === "failed") {
-      const refreshedTask = await refreshTaskUrls(task, supabase, requestId);
-      return NextResponse.json({ task: refreshedTask });
-    }
-    
-    // Get the appropriate status endpoint for this task type
-    const baseEndpoint = STATUS_ENDPOINTS[task.task_type];
-    if (!baseEndpoint) {
-      // Technique tasks and other client-side tasks don't have SportAI endpoints
-      // Just refresh video URL if needed and return
-      logger.debug(`[${requestId}] No status endpoint for task type: ${task.task_type}`);
-      const refreshedTask = await refreshTaskUrls(task, supabase, requestId);
-      return NextResponse.json({ task: refreshedTask });
-    }
-    
-    // Poll SportAI API for status
-    // Padel is the default sport, so no suffix needed. Other sports need /{sport} before task_id
-    const sportSuffix = task.sport === "padel" ? "" : `/${task.sport}`;
-    const statusResponse = await fetch(
-      `${SPORTAI_API_URL}${baseEndpoint}${sportSuffix}/${task.sportai_task_id}/status`,
-      {
-        headers: {
-          "Authorization": `Bearer ${SPORTAI_API_KEY}`,
-        },
-      }
-    );
-    
-    if (!statusResponse.ok) {
-      logger.error(`[${requestId}] SportAI status check failed: ${statusResponse.status}`);
-      return NextResponse.json({ task }); // Return current task state
-    }
-    
-    const statusResult = await statusResponse.json();
-    
-    logger.info(`[${requestId}] SportAI status response:`, JSON.stringify(statusResult, null, 2));
-    
-    // Update task based on SportAI response
-    let updates: Partial<Database["public"]["Tables"]["sportai_tasks"]["Update"]> = {
-      updated_at: new Date().toISOString(),
-    };
-    
-    // SportAI API returns status at data.task_status
-    const resultStatus = statusResult.data?.task_status;
-    const taskProgress = statusResult.data?.task_progress;
-    
-    logger.info(`[${requestId}] Parsed status: ${resultStatus}, progress: ${taskProgress}`);
-    
-    if (resultStatus === "completed") {
-      // Only update status - don't store results here
-      // The result will be fetched and stored properly via /api/tasks/[taskId]/result
-      // when the user clicks to view/download
-      updates = {
-        ...updates,
-        status: "completed",
-        completed_at: new Date().toISOString(),
-      };
-      logger.info(`[${requestId}] Task completed - result will be fetched on demand via /result endpoint`);
-    } else if (resultStatus === "failed" || resultStatus === "error") {
-      updates = {
-        ...updates,
-        status: "failed",
-        error_message: statusResult.data?.error || statusResult.error || "Task failed",
-      };
-    } else if (resultStatus === "processing" || resultStatus === "pending") {
-      // Map pending to processing in our system
-      updates.status = resultStatus === "pending" ? "pending" : "processing";
-    }
-    
-    const { data: updatedTask, error: updateError } = await supabase
-      .from("sportai_tasks")
-      .update(updates)
-      .eq("id", taskId)
-      .select()
-      .single();
-    
-    if (updateError) {
-      logger.error(`[${requestId}] Failed to update task:`, updateError);
-      const refreshedTask = await refreshTaskUrls(task, supabase, requestId);
-      return NextResponse.json({ task: refreshedTask }); // Return original task on update failure
-    }
+    // Poll SportAI for in-flight tasks (completed, failed and client-side tasks are returned as-is)
+    const syncedTask = await syncTaskStatus(task, supabase, requestId);
     
     // Refresh video URL if needed before returning
-    const refreshedTask = await refreshTaskUrls(updatedTask, supabase, requestId);
+    const refreshedTask = await refreshTaskUrls(syncedTask, supabase, requestId);
     return NextResponse.json({ task: refreshedTask });
   } catch (error) {
     logger.error(`[${requestId}] Unexpected error:`, error);
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { logger } from "@/lib/logger";
-import { getSportAIApiUrl, getSportAIApiKey, getEnvironmentLabel } from "@/lib/sportai-api";
+import { submitSportAITask } from "@/lib/sportai-tasks";
 import { extractS3KeyFromUrl, generatePresignedDownloadUrl } from "@/lib/s3";
 import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
 import { checkRateLimit, getRateLimitIdentifier, rateLimitedResponse, addRateLimitHeaders, type RateLimitTier } from "@/lib/rate-limit";
@@ -14,13 +14,6 @@ async function applyRateLimit(request: Request, userId: string | null, tier: Rat
   return checkRateLimit(identifier, tier);
 }
 
-// Task type to API endpoint mapping
-// Note: "technique" tasks don't use SportAI API - they're processed client-side
-const TASK_ENDPOINTS: Record<string, string> = {
-  statistics: "/api/statistics",
-  activity_detection: "/api/activity_detection",
-};
-
 // Task types that don't require SportAI API (processed client-side)
 const CLIENT_SIDE_TASKS = ["technique"];
 
@@ -265,64 +258,11 @@ export async function POST(request: NextRequest) {
     }
     
     // Server-side tasks require SportAI API
-    const endpoint = TASK_ENDPOINTS[taskType];
-    if (!endpoint) {
-      return NextResponse.json(
-        { error: `Unknown task type: ${taskType}` },
-        { status: 400 }
-      );
-    }
-    
-    const SPORTAI_API_URL = getSportAIApiUrl();
-    const SPORTAI_API_KEY = getSportAIApiKey();
-    
-    if (!SPORTAI_API_KEY) {
-      logger.error(`[${requestId}] SPORTAI_API_KEY not configured for ${getEnvironmentLabel()}`);
-      return NextResponse.json(
-        { error: "SportAI API not configured" },
-        { status: 503 }
-      );
+    const submitted = await submitSportAITask(taskType, sport, videoUrl, params, requestId);
+    if (!submitted.ok) {
+      return NextResponse.json({ error: submitted.error }, { status: submitted.status });
     }
     
-    logger.info(`[${requestId}] Using SportAI API: ${SPORTAI_API_URL} (${getEnvironmentLabel()})`);
-    
-    // Build request body for SportAI API
-    const sportaiBody: Record<string, unknown> = {
-      video_url: videoUrl,
-      version: params.version || "latest",
-      onlyInRally: true,
-      ...params,
-    };
-    
-    // Call SportAI API to register the task
-    // API endpoint format: 
-    // - Padel (default): /api/statistics
-    // - Tennis: /api/statistics/tennis
-    // Padel is the default sport, so no suffix needed
-    const sportSuffix = sport === "padel" ? "" : `/${sport}`;
-    const sportaiResponse = await fetch(`${SPORTAI_API_URL}${endpoint}${sportSuffix}`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${SPORTAI_API_KEY}`,
-      },
-      body: JSON.stringify(sportaiBody),
-    });
-    
-    if (!sportaiResponse.ok) {
-      const errorData = await sportaiResponse.json().catch(() => ({}));
-      logger.error(`[${requestId}] SportAI API error:`, errorData);
-      return NextResponse.json(
-        { error: errorData.message || errorData.error || `SportAI API returned ${sportaiResponse.status}` },
-        { status: sportaiResponse.status }
-      );
-    }
-    
-    const sportaiResult = await sportaiResponse.json();
-    const { task_id: sportaiTaskId, estimated_compute_time } = sportaiResult.data;
-    
-    logger.info(`[${requestId}] SportAI task created: ${sportaiTaskId}`);
-    
     // Save task to database
     const { data: task, error: dbError } = await supabase
       .from("sportai_tasks")
@@ -330,14 +270,14 @@ export async function POST(request: NextRequest) {
         user_id: userId,
         task_type: taskType,
         sport,
-        sportai_task_id: sportaiTaskId,
+        sportai_task_id: submitted.sportaiTaskId,
         video_url: videoUrl,
         video_s3_key: videoS3Key || null,
         thumbnail_url: thumbnailUrl || null,
         thumbnail_s3_key: thumbnailS3Key || null,
         video_length: videoLength || null,
         status: "processing",
-        estimated_compute_time,
+        estimated_compute_time: submitted.estimatedComputeTime,
         request_params: params,
       })
       .select()
@@ -357,4 +297,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
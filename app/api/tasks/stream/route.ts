@@ -0,0 +1,191 @@
+import { NextRequest } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { checkRateLimit, getRateLimitIdentifier, rateLimitedResponse } from "@/lib/rate-limit";
+import { syncTaskStatus, type SportAITaskRow } from "@/lib/sportai-tasks";
+import { encodeSSEEvent, createSSEHeaders } from "@/lib/sse-utils";
+import type { TaskProgressUpdate, TaskStreamDone, TaskStreamSnapshot } from "@/types/task-stream";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+// How often the database is checked for changes (cheap)
+const TICK_INTERVAL_MS = 3000;
+// How often in-flight tasks are polled on the SportAI API
+const SPORTAI_SYNC_INTERVAL_MS = 15000;
+// Keep-alive for proxies when nothing changes
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Close before maxDuration so the client reconnects cleanly
+const STREAM_MAX_DURATION_MS = 270_000;
+
+const IN_FLIGHT_STATUSES: SportAITaskRow["status"][] = ["pending", "processing"];
+
+function toProgressUpdate(task: SportAITaskRow): TaskProgressUpdate {
+  return {
+    id: task.id,
+    status: task.status,
+    estimated_compute_time: task.estimated_compute_time,
+    error_message: task.error_message,
+    result_s3_key: task.result_s3_key,
+    updated_at: task.updated_at,
+    completed_at: task.completed_at,
+  };
+}
+
+/**
+ * Fingerprint of the fields clients care about, to only send real changes
+ */
+function getProgressKey(task: SportAITaskRow): string {
+  return `${task.status}|${task.estimated_compute_time}|${task.result_s3_key}|${task.updated_at}`;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * GET /api/tasks/stream
+ * Server-sent events with status, estimated compute time and completion of
+ * all the user's in-flight tasks. Replaces per-task status polling.
+ *
+ * Events: snapshot, task, heartbeat, done, error (see types/task-stream.ts).
+ * The stream closes with `done` when no tasks are left in flight or after a
+ * few minutes; clients reconnect when they know of in-flight tasks.
+ */
+export async function GET(request: NextRequest) {
+  const requestId = `tasks_stream_${Date.now()}`;
+
+  // Validate JWT and get authenticated user
+  const user = await getAuthenticatedUser(request);
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  const userId = user.id;
+
+  // Apply rate limiting (one request per connection, so standard tier is plenty)
+  const rateLimitResult = await checkRateLimit(getRateLimitIdentifier(request, userId), "standard");
+  if (!rateLimitResult.success) {
+    logger.warn(`[${requestId}] Rate limit exceeded for user: ${userId}`);
+    return rateLimitedResponse(rateLimitResult);
+  }
+
+  const supabase = getSupabaseAdmin();
+  const signal = request.signal;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const startedAt = Date.now();
+      const sentKeys = new Map<string, string>();
+      let lastSyncAt = 0;
+      let lastEventAt = Date.now();
+      let isFirstTick = true;
+
+      const send = (event: Parameters<typeof encodeSSEEvent>[0], data: unknown) => {
+        controller.enqueue(encodeSSEEvent(event, data));
+        lastEventAt = Date.now();
+      };
+
+      try {
+        while (!signal.aborted) {
+          const { data: activeTasks, error } = await supabase
+            .from("sportai_tasks")
+            .select("*")
+            .eq("user_id", userId)
+            .in("status", IN_FLIGHT_STATUSES);
+
+          if (error) {
+            throw new Error(error.message);
+          }
+
+          let tasks = activeTasks || [];
+
+          // Poll SportAI less often than the database
+          if (Date.now() - lastSyncAt >= SPORTAI_SYNC_INTERVAL_MS) {
+            lastSyncAt = Date.now();
+            const synced: SportAITaskRow[] = [];
+            for (const task of tasks) {
+              synced.push(await syncTaskStatus(task, supabase, requestId));
+            }
+            tasks = synced;
+          }
+
+          // Tasks we were following that left the in-flight set (completed elsewhere, failed, deleted)
+          const currentIds = new Set(tasks.map(t => t.id));
+          const departedIds = [...sentKeys.keys()].filter(id => !currentIds.has(id));
+          if (departedIds.length > 0) {
+            const { data: departed } = await supabase
+              .from("sportai_tasks")
+              .select("*")
+              .eq("user_id", userId)
+              .in("id", departedIds);
+            tasks = [...tasks, ...(departed || [])];
+          }
+
+          const changed = tasks.filter(t => sentKeys.get(t.id) !== getProgressKey(t));
+
+          if (isFirstTick) {
+            const snapshot: TaskStreamSnapshot = { tasks: tasks.map(toProgressUpdate) };
+            send("snapshot", snapshot);
+            isFirstTick = false;
+          } else {
+            for (const task of changed) {
+              send("task", toProgressUpdate(task));
+            }
+          }
+
+          // Only keep following in-flight tasks
+          for (const task of tasks) {
+            if (IN_FLIGHT_STATUSES.includes(task.status)) {
+              sentKeys.set(task.id, getProgressKey(task));
+            } else {
+              sentKeys.delete(task.id);
+            }
+          }
+          for (const id of departedIds) {
+            sentKeys.delete(id);
+          }
+
+          if (sentKeys.size === 0) {
+            const done: TaskStreamDone = { reason: "idle" };
+            send("done", done);
+            break;
+          }
+
+          if (Date.now() - startedAt >= STREAM_MAX_DURATION_MS) {
+            const done: TaskStreamDone = { reason: "timeout" };
+            send("done", done);
+            break;
+          }
+
+          if (Date.now() - lastEventAt >= HEARTBEAT_INTERVAL_MS) {
+            send("heartbeat", { at: new Date().toISOString() });
+          }
+
+          await sleep(TICK_INTERVAL_MS, signal);
+        }
+      } catch (error) {
+        logger.error(`[${requestId}] Task stream error:`, error);
+        if (!signal.aborted) {
+          send("error", { message: "Task stream failed" });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a client disconnect
+        }
+      }
+    },
+  });
+
+  logger.debug(`[${requestId}] Task stream opened for user: ${userId}`);
+
+  return new Response(stream, { headers: createSSEHeaders() });
+}
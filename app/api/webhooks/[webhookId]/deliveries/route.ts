@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { checkRateLimit, getRateLimitIdentifier, rateLimitedResponse } from "@/lib/rate-limit";
+import { WEBHOOK_DELIVERY_COLUMNS } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+
+// How many recent deliveries the log shows
+const DELIVERY_LOG_LIMIT = 50;
+
+/**
+ * GET /api/webhooks/[webhookId]/deliveries
+ * Recent deliveries for a webhook, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  const { webhookId } = await params;
+  const requestId = `webhook_deliveries_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const userId = user.id;
+
+    // Apply rate limiting
+    const rateLimitResult = await checkRateLimit(getRateLimitIdentifier(request, userId), "standard");
+    if (!rateLimitResult.success) {
+      logger.warn(`[${requestId}] Rate limit exceeded for user: ${userId}`);
+      return rateLimitedResponse(rateLimitResult);
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    // Verify ownership
+    const { data: endpoint, error: endpointError } = await supabase
+      .from("webhook_endpoints")
+      .select("id")
+      .eq("id", webhookId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (endpointError) {
+      logger.error(`[${requestId}] Error fetching webhook:`, endpointError);
+      return NextResponse.json({ error: endpointError.message }, { status: 500 });
+    }
+
+    if (!endpoint) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const { data, error } = await supabase
+      .from("webhook_deliveries")
+      .select(WEBHOOK_DELIVERY_COLUMNS)
+      .eq("endpoint_id", webhookId)
+      .order("created_at", { ascending: false })
+      .limit(DELIVERY_LOG_LIMIT);
+
+    if (error) {
+      logger.error(`[${requestId}] Error fetching deliveries:`, error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ deliveries: data || [] });
+
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { checkRateLimit, getRateLimitIdentifier, rateLimitedResponse } from "@/lib/rate-limit";
+import { isPublicWebhookUrl, WEBHOOK_PUBLIC_COLUMNS } from "@/lib/webhooks";
+import {
+  MAX_WEBHOOK_DESCRIPTION_LENGTH,
+  isValidWebhookDescription,
+  isValidWebhookEventList,
+  isValidWebhookUrl,
+} from "@/lib/webhook-events";
+import type { UpdateWebhookRequest } from "@/types/external-api";
+import type { Database } from "@/types/supabase";
+
+export const runtime = "nodejs";
+
+/**
+ * PATCH /api/webhooks/[webhookId]
+ * Update a webhook's URL, description, events or enable/disable it
+ *
+ * Body: UpdateWebhookRequest
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  const { webhookId } = await params;
+  const requestId = `webhook_patch_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const userId = user.id;
+
+    // Apply rate limiting
+    const rateLimitResult = await checkRateLimit(getRateLimitIdentifier(request, userId), "standard");
+    if (!rateLimitResult.success) {
+      logger.warn(`[${requestId}] Rate limit exceeded for user: ${userId}`);
+      return rateLimitedResponse(rateLimitResult);
+    }
+
+    const body = (await request.json().catch(() => null)) as UpdateWebhookRequest | null;
+    const updates: Database["public"]["Tables"]["webhook_endpoints"]["Update"] = {};
+
+    if (body?.url !== undefined) {
+      const url = typeof body.url === "string" ? body.url.trim() : "";
+      if (!isValidWebhookUrl(url)) {
+        return NextResponse.json(
+          { error: "A valid https URL is required (http is only allowed for localhost in development)" },
+          { status: 400 }
+        );
+      }
+      if (!(await isPublicWebhookUrl(url))) {
+        return NextResponse.json(
+          { error: "Webhook URL must resolve to a public address" },
+          { status: 400 }
+        );
+      }
+      updates.url = url;
+    }
+
+    if (body?.description !== undefined) {
+      if (!isValidWebhookDescription(body.description)) {
+        return NextResponse.json(
+          { error: `Description must be a string of at most ${MAX_WEBHOOK_DESCRIPTION_LENGTH} characters, or null` },
+          { status: 400 }
+        );
+      }
+      updates.description = body.description?.trim() || null;
+    }
+
+    if (body?.events !== undefined) {
+      if (!isValidWebhookEventList(body.events)) {
+        return NextResponse.json({ error: "At least one valid event is required" }, { status: 400 });
+      }
+      updates.events = body.events;
+    }
+
+    if (body?.is_active !== undefined) {
+      if (typeof body.is_active !== "boolean") {
+        return NextResponse.json({ error: "is_active must be a boolean" }, { status: 400 });
+      }
+      updates.is_active = body.is_active;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: "No changes provided" }, { status: 400 });
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data, error } = await supabase
+      .from("webhook_endpoints")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", webhookId)
+      .eq("user_id", userId)
+      .select(WEBHOOK_PUBLIC_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`[${requestId}] Error updating webhook:`, error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    logger.info(`[${requestId}] Updated webhook ${webhookId} for user: ${userId}`);
+    return NextResponse.json({ webhook: data });
+
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/webhooks/[webhookId]
+ * Delete a webhook and its delivery log
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  const { webhookId } = await params;
+  const requestId = `webhook_delete_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const userId = user.id;
+
+    // Apply rate limiting
+    const rateLimitResult = await checkRateLimit(getRateLimitIdentifier(request, userId), "standard");
+    if (!rateLimitResult.success) {
+      logger.warn(`[${requestId}] Rate limit exceeded for user: ${userId}`);
+      return rateLimitedResponse(rateLimitResult);
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data, error } = await supabase
+      .from("webhook_endpoints")
+      .delete()
+      .eq("id", webhookId)
+      .eq("user_id", userId)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`[${requestId}] Error deleting webhook:`, error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    logger.info(`[${requestId}] Deleted webhook ${webhookId} for user: ${userId}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
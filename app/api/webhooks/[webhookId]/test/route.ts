@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { checkRateLimit, getRateLimitIdentifier, rateLimitedResponse } from "@/lib/rate-limit";
+import { sendTestDelivery } from "@/lib/webhooks";
+import type { WebhookDeliverySummary } from "@/types/external-api";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/webhooks/[webhookId]/test
+ * Send a signed "webhook.test" event with a sample task and return the outcome
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  const { webhookId } = await params;
+  const requestId = `webhook_test_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const userId = user.id;
+
+    // Apply rate limiting
+    const rateLimitResult = await checkRateLimit(getRateLimitIdentifier(request, userId), "standard");
+    if (!rateLimitResult.success) {
+      logger.warn(`[${requestId}] Rate limit exceeded for user: ${userId}`);
+      return rateLimitedResponse(rateLimitResult);
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data: endpoint, error } = await supabase
+      .from("webhook_endpoints")
+      .select("*")
+      .eq("id", webhookId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`[${requestId}] Error fetching webhook:`, error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!endpoint) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const delivery = await sendTestDelivery(endpoint, supabase);
+    if (!delivery) {
+      return NextResponse.json({ error: "Failed to create test delivery" }, { status: 500 });
+    }
+
+    logger.info(`[${requestId}] Test delivery ${delivery.id} to webhook ${webhookId}: ${delivery.status}`);
+
+    const summary: WebhookDeliverySummary = {
+      id: delivery.id,
+      task_id: delivery.task_id,
+      event: delivery.event,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      last_status_code: delivery.last_status_code,
+      last_error: delivery.last_error,
+      next_attempt_at: delivery.next_attempt_at,
+      created_at: delivery.created_at,
+      delivered_at: delivery.delivered_at,
+    };
+    return NextResponse.json({ delivery: summary });
+
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin } from "@/lib/supabase-server";
+import { syncTaskStatus, SPORTAI_TASK_ENDPOINTS } from "@/lib/sportai-tasks";
+import { retryDueDeliveries } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+
+// Per-run caps so a single invocation stays well inside the function timeout
+const MAX_TASKS_PER_RUN = 25;
+const MAX_RETRIES_PER_RUN = 25;
+
+// Stop polling tasks that have been in flight for longer than this
+const MAX_TASK_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * GET /api/webhooks/cron
+ * Scheduled job (every minute) for webhook delivery:
+ * - Polls SportAI for in-flight tasks of users with active webhooks, so
+ *   completions fire even when nobody is polling the status endpoint
+ * - Retries failed deliveries whose backoff has elapsed
+ *
+ * Authentication: Authorization: Bearer $CRON_SECRET
+ */
+export async function GET(request: NextRequest) {
+  const requestId = `webhooks_cron_${Date.now()}`;
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    logger.error(`[${requestId}] CRON_SECRET not configured`);
+    return NextResponse.json({ error: "Cron not configured" }, { status: 503 });
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    const { data: endpoints, error: endpointsError } = await supabase
+      .from("webhook_endpoints")
+      .select("user_id")
+      .eq("is_active", true);
+
+    if (endpointsError) {
+      logger.error(`[${requestId}] Error fetching webhook owners:`, endpointsError);
+      return NextResponse.json({ error: endpointsError.message }, { status: 500 });
+    }
+
+    const userIds = Array.from(new Set((endpoints || []).map(e => e.user_id)));
+    let tasksSynced = 0;
+
+    if (userIds.length > 0) {
+      const { data: tasks, error: tasksError } = await supabase
+        .from("sportai_tasks")
+        .select("*")
+        .in("user_id", userIds)
+        .in("status", ["pending", "processing"])
+        .in("task_type", Object.keys(SPORTAI_TASK_ENDPOINTS))
+        .not("sportai_task_id", "is", null)
+        .gte("created_at", new Date(Date.now() - MAX_TASK_AGE_MS).toISOString())
+        // Least recently synced first, so every in-flight task gets its turn
+        .order("updated_at", { ascending: true })
+        .limit(MAX_TASKS_PER_RUN);
+
+      if (tasksError) {
+        logger.error(`[${requestId}] Error fetching in-flight tasks:`, tasksError);
+      }
+
+      // Sequential to stay gentle on the SportAI API
+      for (const task of tasks || []) {
+        const synced = await syncTaskStatus(task, supabase, requestId);
+        tasksSynced++;
+
+        // A failed status check leaves the row untouched; move it to the back anyway
+        if (synced.updated_at === task.updated_at) {
+          await supabase
+            .from("sportai_tasks")
+            .update({ updated_at: new Date().toISOString() })
+            .eq("id", task.id)
+            .in("status", ["pending", "processing"]);
+        }
+      }
+    }
+
+    const deliveriesRetried = await retryDueDeliveries(supabase, MAX_RETRIES_PER_RUN);
+
+    logger.info(`[${requestId}] Synced ${tasksSynced} task(s), retried ${deliveriesRetried} deliveries`);
+    return NextResponse.json({ tasksSynced, deliveriesRetried });
+
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSupabaseAdmin, getAuthenticatedUser, unauthorizedResponse } from "@/lib/supabase-server";
+import { checkRateLimit, getRateLimitIdentifier, rateLimitedResponse } from "@/lib/rate-limit";
+import { generateWebhookSecret, isPublicWebhookUrl, WEBHOOK_PUBLIC_COLUMNS } from "@/lib/webhooks";
+import {
+  WEBHOOK_EVENTS,
+  MAX_WEBHOOKS_PER_USER,
+  MAX_WEBHOOK_DESCRIPTION_LENGTH,
+  isValidWebhookApiKeyId,
+  isValidWebhookDescription,
+  isValidWebhookEventList,
+  isValidWebhookUrl,
+} from "@/lib/webhook-events";
+import type { CreateWebhookRequest, CreatedWebhookResponse } from "@/types/external-api";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/webhooks
+ * List the user's webhook endpoints, newest first
+ */
+export async function GET(request: NextRequest) {
+  const requestId = `webhooks_get_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const userId = user.id;
+
+    // Apply rate limiting
+    const rateLimitResult = await checkRateLimit(getRateLimitIdentifier(request, userId), "standard");
+    if (!rateLimitResult.success) {
+      logger.warn(`[${requestId}] Rate limit exceeded for user: ${userId}`);
+      return rateLimitedResponse(rateLimitResult);
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data, error } = await supabase
+      .from("webhook_endpoints")
+      .select(WEBHOOK_PUBLIC_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      logger.error(`[${requestId}] Error fetching webhooks:`, error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ webhooks: data || [] });
+
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/webhooks
+ * Register a webhook endpoint. The signing secret is returned once.
+ *
+ * Body: CreateWebhookRequest
+ */
+export async function POST(request: NextRequest) {
+  const requestId = `webhooks_post_${Date.now()}`;
+
+  try {
+    // Validate JWT and get authenticated user
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const userId = user.id;
+
+    // Apply rate limiting
+    const rateLimitResult = await checkRateLimit(getRateLimitIdentifier(request, userId), "standard");
+    if (!rateLimitResult.success) {
+      logger.warn(`[${requestId}] Rate limit exceeded for user: ${userId}`);
+      return rateLimitedResponse(rateLimitResult);
+    }
+
+    const body = (await request.json().catch(() => null)) as Partial<CreateWebhookRequest> | null;
+    const url = typeof body?.url === "string" ? body.url.trim() : "";
+
+    if (!isValidWebhookUrl(url)) {
+      return NextResponse.json(
+        { error: "A valid https URL is required (http is only allowed for localhost in development)" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await isPublicWebhookUrl(url))) {
+      return NextResponse.json(
+        { error: "Webhook URL must resolve to a public address" },
+        { status: 400 }
+      );
+    }
+
+    if (body?.description !== undefined && !isValidWebhookDescription(body.description)) {
+      return NextResponse.json(
+        { error: `Description must be a string of at most ${MAX_WEBHOOK_DESCRIPTION_LENGTH} characters, or null` },
+        { status: 400 }
+      );
+    }
+
+    if (body?.apiKeyId !== undefined && !isValidWebhookApiKeyId(body.apiKeyId)) {
+      return NextResponse.json({ error: "apiKeyId must be an API key ID or null" }, { status: 400 });
+    }
+
+    const events = body?.events ?? WEBHOOK_EVENTS.map(e => e.id);
+    if (!isValidWebhookEventList(events)) {
+      return NextResponse.json({ error: "At least one valid event is required" }, { status: 400 });
+    }
+
+    const supabase = getSupabaseAdmin();
+    const apiKeyId = body?.apiKeyId ?? null;
+
+    // A key-scoped webhook must point at one of the user's own active keys
+    if (apiKeyId) {
+      const { data: apiKey, error: keyError } = await supabase
+        .from("api_keys")
+        .select("id")
+        .eq("id", apiKeyId)
+        .eq("user_id", userId)
+        .eq("is_active", true)
+        .maybeSingle();
+
+      if (keyError) {
+        logger.error(`[${requestId}] Error checking API key:`, keyError);
+        return NextResponse.json({ error: "Failed to check API key" }, { status: 500 });
+      }
+
+      if (!apiKey) {
+        return NextResponse.json({ error: "API key not found" }, { status: 400 });
+      }
+    }
+
+    // Enforce the per-user cap on endpoints
+    const { count, error: countError } = await supabase
+      .from("webhook_endpoints")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId);
+
+    if (countError) {
+      logger.error(`[${requestId}] Error counting webhooks:`, countError);
+      return NextResponse.json({ error: countError.message }, { status: 500 });
+    }
+
+    if ((count ?? 0) >= MAX_WEBHOOKS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can have at most ${MAX_WEBHOOKS_PER_USER} webhooks. Delete one first.` },
+        { status: 400 }
+      );
+    }
+
+    const secret = generateWebhookSecret();
+
+    const { data, error } = await supabase
+      .from("webhook_endpoints")
+      .insert({
+        user_id: userId,
+        api_key_id: apiKeyId,
+        url,
+        description: body?.description?.trim() || null,
+        secret,
+        events,
+      })
+      .select(WEBHOOK_PUBLIC_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      logger.error(`[${requestId}] Error creating webhook:`, error);
+      return NextResponse.json({ error: error?.message || "Failed to create webhook" }, { status: 500 });
+    }
+
+    logger.info(`[${requestId}] Registered webhook ${data.id} for user: ${userId}`);
+
+    const response: CreatedWebhookResponse = { webhook: data, secret };
+    return NextResponse.json(response, { status: 201 });
+
+  } catch (error) {
+    logger.error(`[${requestId}] Unexpected error:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
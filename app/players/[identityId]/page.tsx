@@ -0,0 +1,16 @@
+import type { Metadata } from "next";
+import { PlayerSeasonPage } from "@/components/season";
+
+export const metadata: Metadata = {
+  title: "Player Season",
+  description: "Trends for one player across all their analyzed matches.",
+};
+
+export default async function PlayerSeasonRoute({
+  params,
+}: {
+  params: Promise<{ identityId: string }>;
+}) {
+  const { identityId } = await params;
+  return <PlayerSeasonPage identityId={identityId} />;
+}
@@ -7,6 +7,7 @@ import { supabase } from "@/lib/supabase";
 import { track, analytics } from "@/lib/analytics";
 import { clearUserDataFromStorage, migrateGuestTasks } from "@/utils/storage";
 import { migrateChatIds } from "@/utils/chat-id-migration";
+import type { UnitsPreference } from "@/types/profile";
 
 const authLogger = createLogger("Auth");
 
@@ -15,6 +16,9 @@ export interface UserProfile {
   email: string | null;
   full_name: string | null;
   avatar_url: string | null;
+  height?: number | null;
+  weight?: number | null;
+  units_preference?: UnitsPreference;
   created_at: string;
   updated_at: string;
 }
@@ -43,6 +43,7 @@ import {
   useJointHistory,
   useSwingDetection,
   useSwingDetectionV2,
+  usePoseTracking,
 } from "./hooks";
 
 // Components
@@ -67,12 +68,14 @@ import {
 
 // Constants
 import { CONFIDENCE_PRESETS, RESOLUTION_PRESETS, DEFAULT_VIDEO_FPS } from "./constants";
+import type { PoseWorkerConfig } from "./workers/poseWorkerClient";
 
 // Types
 import type { ObjectDetectionResult, ProjectileDetectionResult } from "@/types/detection";
 
 // Pose data persistence
-import { loadPoseData, savePoseData, convertToPreprocessedPoses } from "@/lib/poseDataService";
+import { loadPoseData, savePoseData, saveTargetTrack, convertToPreprocessedPoses } from "@/lib/poseDataService";
+import { findPoseAtPoint } from "@/utils/pose-tracking";
 import { useFloatingVideoContextOptional } from "@/components/chat/viewers/FloatingVideoContext";
 
 interface VideoPoseViewerProps {
@@ -274,6 +277,9 @@ export function VideoPoseViewer({
   const [resolutionMode, setResolutionMode] = useState<"fast" | "balanced" | "accurate">(initialResolutionMode);
   const [maxPoses, setMaxPoses] = useState(1);
   const [selectedPoseIndex, setSelectedPoseIndex] = useState(0);
+  // Tracking ID of the player analysis is locked onto (null = follow the selected pose index)
+  const [targetTrackId, setTargetTrackId] = useState<number | null>(null);
+  const [isPickingPlayer, setIsPickingPlayer] = useState(false);
 
   // Display settings
   const [showSkeleton, setShowSkeleton] = useState(initialShowSkeleton);
@@ -491,9 +497,12 @@ export function VideoPoseViewer({
     stabilitySimilarity,
   ]);
 
-  const selectedPose = displayPoses.length > 0
-    ? displayPoses[Math.min(selectedPoseIndex, displayPoses.length - 1)]
-    : null;
+  // A locked player is never swapped for someone else while they're out of frame
+  const selectedPose = targetTrackId !== null
+    ? displayPoses.find((pose) => pose.id === targetTrackId) ?? null
+    : displayPoses.length > 0
+      ? displayPoses[Math.min(selectedPoseIndex, displayPoses.length - 1)]
+      : null;
   const currentConfidence = CONFIDENCE_PRESETS[confidenceMode];
   const currentResolution = useMemo(() => RESOLUTION_PRESETS[resolutionMode], [resolutionMode]);
 
@@ -515,6 +524,16 @@ export function VideoPoseViewer({
       enabled: isPoseEnabled,
     });
 
+  // Same detector options for the preprocessing worker (memoized so the worker is only recreated when they change)
+  const poseWorkerConfig = useMemo((): PoseWorkerConfig => ({
+    model: selectedModel,
+    modelType: effectiveModelType,
+    minPoseScore: currentConfidence.minPoseScore,
+    minPartScore: currentConfidence.minPartScore,
+    inputResolution: selectedModel === "MoveNet" ? currentResolution : undefined,
+    maxPoses: selectedModel === "MoveNet" ? maxPoses : 1,
+  }), [selectedModel, effectiveModelType, currentConfidence, currentResolution, maxPoses]);
+
   // Preprocessing hook
   const preprocessing = useVideoPreprocessing({
     videoRef,
@@ -529,6 +548,14 @@ export function VideoPoseViewer({
     setIsPlaying,
     // Disable smoothing during preprocessing for deterministic results
     onSetSmoothing: setEnableSmoothing,
+    workerConfig: poseWorkerConfig,
+  });
+
+  // Persistent player IDs across frames (and the locked player's poses for analysis)
+  const { trackedPoses, targetPoses, trackIds } = usePoseTracking({
+    preprocessedPoses: preprocessing.preprocessedPoses,
+    enabled: preprocessing.usePreprocessing && !preprocessing.isPreprocessing,
+    targetTrackId,
   });
 
   // Swing detection protocol V1 (velocity-based)
@@ -538,10 +565,10 @@ export function VideoPoseViewer({
     detectSwings,
     clearResult: clearSwingResult,
   } = useSwingDetection({
-    preprocessedPoses: preprocessing.preprocessedPoses,
+    preprocessedPoses: targetPoses ?? trackedPoses,
     selectedModel,
     videoFPS,
-    selectedPoseIndex
+    selectedPoseIndex: targetPoses ? 0 : selectedPoseIndex
   });
 
   // Swing detection protocol V2 (acceleration-based with prominence)
@@ -551,10 +578,10 @@ export function VideoPoseViewer({
     detectSwings: detectSwingsV2,
     clearResult: clearSwingV2Result,
   } = useSwingDetectionV2({
-    preprocessedPoses: preprocessing.preprocessedPoses,
+    preprocessedPoses: targetPoses ?? trackedPoses,
     selectedModel,
     videoFPS,
-    selectedPoseIndex
+    selectedPoseIndex: targetPoses ? 0 : selectedPoseIndex
   });
 
   // Object detection hook
@@ -673,6 +700,13 @@ export function VideoPoseViewer({
     }
   }, [currentPoses.length, selectedPoseIndex]);
 
+  // Keep the selected index on the locked player as poses reorder between frames
+  useEffect(() => {
+    if (targetTrackId === null) return;
+    const index = currentPoses.findIndex((pose) => pose.id === targetTrackId);
+    if (index !== -1 && index !== selectedPoseIndex) setSelectedPoseIndex(index);
+  }, [currentPoses, targetTrackId, selectedPoseIndex]);
+
   // Notify external consumers when poses change (use stabilized poses)
   useEffect(() => {
     onPoseChange?.(displayPoses);
@@ -684,6 +718,8 @@ export function VideoPoseViewer({
     setServerPoseDataLoaded(false);
     setServerPoseDataChecked(false);
     setPoseDataSaved(false);
+    setTargetTrackId(null);
+    setIsPickingPlayer(false);
   }, [videoUrl]);
 
   // Load pose data from S3 if available (runs once when video is ready)
@@ -703,6 +739,7 @@ export function VideoPoseViewer({
           if (posesMap.size > 0) {
             // Load cached poses into preprocessing hook
             preprocessing.loadExternalPoses(posesMap, result.data.videoFPS || 30);
+            setTargetTrackId(result.data.targetTrackId ?? null);
             setServerPoseDataLoaded(true);
             // Auto-enable movement analysis since cached data loads instantly
             setIsPoseEnabled(true);
@@ -823,8 +860,8 @@ export function VideoPoseViewer({
     const syncPoses = () => {
       if (!video.paused && !video.ended) {
         const frame = Math.floor(video.currentTime * preprocessing.preprocessingFPS);
-        if (frame !== lastFrame && preprocessing.preprocessedPoses.has(frame)) {
-          const poses = preprocessing.preprocessedPoses.get(frame);
+        if (frame !== lastFrame && trackedPoses.has(frame)) {
+          const poses = trackedPoses.get(frame);
           if (poses?.length) {
             setCurrentPoses(poses);
             lastFrame = frame;
@@ -835,7 +872,7 @@ export function VideoPoseViewer({
     };
     syncPoses();
     return () => { if (rafId) cancelAnimationFrame(rafId); };
-  }, [preprocessing.usePreprocessing, isPlaying, preprocessing.preprocessingFPS, preprocessing.preprocessedPoses]);
+  }, [preprocessing.usePreprocessing, isPlaying, preprocessing.preprocessingFPS, trackedPoses]);
 
   // Sync poses when user seeks/scrubs the timeline (works when paused)
   useEffect(() => {
@@ -844,8 +881,8 @@ export function VideoPoseViewer({
 
     const handleSeeked = () => {
       const frame = Math.floor(video.currentTime * preprocessing.preprocessingFPS);
-      if (preprocessing.preprocessedPoses.has(frame)) {
-        const poses = preprocessing.preprocessedPoses.get(frame);
+      if (trackedPoses.has(frame)) {
+        const poses = trackedPoses.get(frame);
         if (poses?.length) {
           setCurrentPoses(poses);
         }
@@ -854,7 +891,15 @@ export function VideoPoseViewer({
 
     video.addEventListener("seeked", handleSeeked);
     return () => video.removeEventListener("seeked", handleSeeked);
-  }, [preprocessing.usePreprocessing, preprocessing.preprocessingFPS, preprocessing.preprocessedPoses]);
+  }, [preprocessing.usePreprocessing, preprocessing.preprocessingFPS, trackedPoses]);
+
+  // Swap in the current frame's tracked poses once tracking has run, so IDs are available without seeking
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !preprocessing.usePreprocessing) return;
+    const poses = trackedPoses.get(Math.floor(video.currentTime * preprocessing.preprocessingFPS));
+    if (poses?.length) setCurrentPoses(poses);
+  }, [preprocessing.usePreprocessing, preprocessing.preprocessingFPS, trackedPoses]);
 
   // Auto-play
   useEffect(() => {
@@ -991,8 +1036,8 @@ export function VideoPoseViewer({
     const lookupFPS = preprocessing.usePreprocessing ? preprocessing.preprocessingFPS : videoFPS;
     const newFrame = Math.floor(video.currentTime * lookupFPS);
     setCurrentFrame(newFrame);
-    if (preprocessing.usePreprocessing && preprocessing.preprocessedPoses.has(newFrame)) {
-      setCurrentPoses(preprocessing.preprocessedPoses.get(newFrame) || []);
+    if (preprocessing.usePreprocessing && trackedPoses.has(newFrame)) {
+      setCurrentPoses(trackedPoses.get(newFrame) || []);
     } else if (detectPose && showSkeleton && !isLoading && isPoseEnabled) {
       try {
         const poses = await detectPose(video);
@@ -1001,7 +1046,7 @@ export function VideoPoseViewer({
         detectionLogger.error("Error detecting pose on frame step:", err);
       }
     }
-  }, [videoFPS, preprocessing, detectPose, showSkeleton, isLoading, isPoseEnabled]);
+  }, [videoFPS, preprocessing, trackedPoses, detectPose, showSkeleton, isLoading, isPoseEnabled]);
 
   const handleVideoEnded = useCallback(() => {
     setIsPlaying(false);
@@ -1038,13 +1083,42 @@ export function VideoPoseViewer({
     }
   }, [isPoseEnabled, setIsPoseEnabled, clearTrajectories, resetStabilization, resetStabilityFilter, clearJointHistory, stopDetection, initialPoseEnabled]);
 
+  const lockTargetTrack = useCallback((trackId: number | null) => {
+    setTargetTrackId(trackId);
+    setIsPickingPlayer(false);
+    // Swing results were computed for the previous player
+    clearSwingResult();
+    clearSwingV2Result();
+    if (!videoS3Key) return;
+    saveTargetTrack(videoS3Key, trackId).then((result) => {
+      if (!result.success) {
+        detectionLogger.warn(`[VideoPoseViewer] Failed to save target player: ${result.error}`);
+      }
+    });
+  }, [videoS3Key, clearSwingResult, clearSwingV2Result]);
+
+  const handleTogglePickPlayer = useCallback(() => {
+    if (targetTrackId !== null) {
+      lockTargetTrack(null);
+    } else {
+      setIsPickingPlayer((prev) => !prev);
+    }
+  }, [targetTrackId, lockTargetTrack]);
+
+  // When a player is locked, cycling poses moves the lock to the next player
   const handlePrevPose = useCallback(() => {
-    setSelectedPoseIndex((prev) => (prev > 0 ? prev - 1 : currentPoses.length - 1));
-  }, [currentPoses.length]);
+    const index = selectedPoseIndex > 0 ? selectedPoseIndex - 1 : currentPoses.length - 1;
+    setSelectedPoseIndex(index);
+    const trackId = currentPoses[index]?.id;
+    if (targetTrackId !== null && trackId !== undefined) lockTargetTrack(trackId);
+  }, [currentPoses, selectedPoseIndex, targetTrackId, lockTargetTrack]);
 
   const handleNextPose = useCallback(() => {
-    setSelectedPoseIndex((prev) => (prev < currentPoses.length - 1 ? prev + 1 : 0));
-  }, [currentPoses.length]);
+    const index = selectedPoseIndex < currentPoses.length - 1 ? selectedPoseIndex + 1 : 0;
+    setSelectedPoseIndex(index);
+    const trackId = currentPoses[index]?.id;
+    if (targetTrackId !== null && trackId !== undefined) lockTargetTrack(trackId);
+  }, [currentPoses, selectedPoseIndex, targetTrackId, lockTargetTrack]);
 
   const toggleAnglePreset = useCallback((angle: [number, number, number]) => {
     const [idxA, idxB, idxC] = angle;
@@ -1132,10 +1206,10 @@ export function VideoPoseViewer({
   }, [detectLanding]);
 
   const handleCanvasClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!enableAngleClicking || currentPoses.length === 0) return;
+    if ((!enableAngleClicking && !isPickingPlayer) || currentPoses.length === 0) return;
     const canvas = canvasRef.current;
     const video = videoRef.current;
-    if (!canvas || !video || !selectedPose) return;
+    if (!canvas || !video) return;
 
     const rect = canvas.getBoundingClientRect();
     const scaleX = canvas.width / rect.width;
@@ -1145,6 +1219,15 @@ export function VideoPoseViewer({
     const clickX = (e.clientX - rect.left) * scaleX;
     const clickY = (e.clientY - rect.top) * scaleY;
 
+    if (isPickingPlayer) {
+      // Keypoints are in video pixels
+      const pose = findPoseAtPoint(currentPoses, clickX / vidScaleX, clickY / vidScaleY);
+      if (pose?.id !== undefined) lockTargetTrack(pose.id);
+      return;
+    }
+
+    if (!selectedPose) return;
+
     let minDist = Infinity;
     let nearestJoint = -1;
     selectedPose.keypoints.forEach((kp, index) => {
@@ -1164,7 +1247,7 @@ export function VideoPoseViewer({
         setSelectedAngleJoints(newSelection);
       }
     }
-  }, [enableAngleClicking, currentPoses, selectedPose, selectedAngleJoints, measuredAngles]);
+  }, [enableAngleClicking, isPickingPlayer, currentPoses, selectedPose, selectedAngleJoints, measuredAngles, lockTargetTrack]);
 
   const getCurrentAngleValue = useCallback((angle: [number, number, number]): number | null => {
     if (!selectedPose) return null;
@@ -1249,9 +1332,9 @@ export function VideoPoseViewer({
             width: "100%",
             height: "100%",
             objectFit: "contain",
-            pointerEvents: enableAngleClicking ? "auto" : "none",
+            pointerEvents: enableAngleClicking || isPickingPlayer ? "auto" : "none",
             zIndex: 10,
-            cursor: enableAngleClicking ? "crosshair" : "default",
+            cursor: isPickingPlayer ? "pointer" : enableAngleClicking ? "crosshair" : "default",
           }}
         />
 
@@ -1333,6 +1416,10 @@ export function VideoPoseViewer({
             confidenceStats={confidenceStats}
             onPrevPose={handlePrevPose}
             onNextPose={handleNextPose}
+            lockedTrackId={targetTrackId}
+            isPickingPlayer={isPickingPlayer}
+            canLockPlayer={trackIds.length > 1 || targetTrackId !== null}
+            onTogglePickPlayer={handleTogglePickPlayer}
           />
         )}
 
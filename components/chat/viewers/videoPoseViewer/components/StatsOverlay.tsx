@@ -1,7 +1,7 @@
 "use client";
 
 import { Box, Flex, Text, Button } from "@radix-ui/themes";
-import { ChevronLeftIcon, ChevronRightIcon } from "@radix-ui/react-icons";
+import { ChevronLeftIcon, ChevronRightIcon, LockClosedIcon, TargetIcon } from "@radix-ui/react-icons";
 import type { PoseDetectionResult } from "@/hooks/usePoseDetection";
 import type { ProjectileDetectionResult, ObjectDetectionResult } from "@/types/detection";
 
@@ -20,6 +20,12 @@ export interface StatsOverlayProps {
   confidenceStats: React.RefObject<Map<number, { sum: number; count: number }>>;
   onPrevPose: () => void;
   onNextPose: () => void;
+  /** Tracking ID of the player analysis is locked onto */
+  lockedTrackId?: number | null;
+  isPickingPlayer?: boolean;
+  /** Whether there is more than one tracked player to choose from */
+  canLockPlayer?: boolean;
+  onTogglePickPlayer?: () => void;
 }
 
 /**
@@ -41,6 +47,10 @@ export function StatsOverlay({
   confidenceStats,
   onPrevPose,
   onNextPose,
+  lockedTrackId = null,
+  isPickingPlayer = false,
+  canLockPlayer = false,
+  onTogglePickPlayer,
 }: StatsOverlayProps) {
   // Don't render on mobile or if nothing to show
   if (isMobile) return null;
@@ -136,6 +146,34 @@ export function StatsOverlay({
               </Flex>
             )}
 
+            {/* Target player lock - click a player on the video to follow them */}
+            {canLockPlayer && onTogglePickPlayer && (
+              <Button
+                size="1"
+                variant="ghost"
+                onClick={onTogglePickPlayer}
+                style={{
+                  padding: "2px 6px",
+                  color: "white",
+                  cursor: "pointer",
+                  fontSize: "10px",
+                  pointerEvents: "auto",
+                  alignSelf: "flex-start",
+                }}
+              >
+                {lockedTrackId !== null ? (
+                  <LockClosedIcon width={12} height={12} />
+                ) : (
+                  <TargetIcon width={12} height={12} />
+                )}
+                {lockedTrackId !== null
+                  ? `Locked on #${lockedTrackId}`
+                  : isPickingPlayer
+                    ? "Click a player…"
+                    : "Lock player"}
+              </Button>
+            )}
+
             {currentPoses.length > 0 && (
               <Text
                 size="1"
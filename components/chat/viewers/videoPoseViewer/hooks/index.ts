@@ -19,3 +19,4 @@ export * from "./usePoseStabilityFilter";
 export * from "./useJointHistory";
 export * from "./useSwingDetection";
 export * from "./useSwingDetectionV2";
+export * from "./usePoseTracking";
@@ -0,0 +1,49 @@
+/**
+ * Hook to assign persistent player IDs to preprocessed poses and
+ * narrow analysis down to a locked target player.
+ */
+
+import { useMemo } from "react";
+import type { PoseDetectionResult } from "@/hooks/usePoseDetection";
+import { trackPoseSequence, extractTrackPoses } from "@/utils/pose-tracking";
+
+interface UsePoseTrackingProps {
+  preprocessedPoses: Map<number, PoseDetectionResult[]>;
+  /** Tracking runs once preprocessing has finished (re-tracking every streamed batch is wasted work) */
+  enabled: boolean;
+  targetTrackId: number | null;
+}
+
+export interface UsePoseTrackingReturn {
+  /** Preprocessed poses with `id` set and sorted by it (unchanged while disabled) */
+  trackedPoses: Map<number, PoseDetectionResult[]>;
+  /** Only the target player's pose per frame, or null when no player is locked */
+  targetPoses: Map<number, PoseDetectionResult[]> | null;
+  /** Track IDs seen anywhere in the video, ascending */
+  trackIds: number[];
+}
+
+export function usePoseTracking({
+  preprocessedPoses,
+  enabled,
+  targetTrackId,
+}: UsePoseTrackingProps): UsePoseTrackingReturn {
+  const trackedPoses = useMemo(
+    () => (enabled && preprocessedPoses.size > 0 ? trackPoseSequence(preprocessedPoses) : preprocessedPoses),
+    [enabled, preprocessedPoses]
+  );
+
+  const trackIds = useMemo(() => {
+    if (!enabled) return [];
+    const ids = new Set<number>();
+    trackedPoses.forEach((poses) => poses.forEach((pose) => pose.id !== undefined && ids.add(pose.id)));
+    return Array.from(ids).sort((a, b) => a - b);
+  }, [enabled, trackedPoses]);
+
+  const targetPoses = useMemo(
+    () => (enabled && targetTrackId !== null ? extractTrackPoses(trackedPoses, targetTrackId) : null),
+    [enabled, trackedPoses, targetTrackId]
+  );
+
+  return { trackedPoses, targetPoses, trackIds };
+}
@@ -2,6 +2,18 @@ import { useState, useRef, useCallback, useEffect } from "react";
 import { detectionLogger } from "@/lib/logger";
 import type { PoseDetectionResult } from "@/hooks/usePoseDetection";
 import { DEFAULT_VIDEO_FPS } from "../constants";
+import {
+  createPoseWorkerClient,
+  isPoseWorkerSupported,
+  type PoseWorkerClient,
+  type PoseWorkerConfig,
+} from "../workers/poseWorkerClient";
+
+// Worker results are pushed into preprocessedPoses in batches of this many frames
+const STREAM_BATCH_FRAMES = 30;
+
+// Give up on the pose worker if its backend and model haven't loaded by then
+const POSE_WORKER_READY_TIMEOUT_MS = 30_000;
 
 export interface UseVideoPreprocessingProps {
   videoRef: React.RefObject<HTMLVideoElement | null>;
@@ -16,6 +28,8 @@ export interface UseVideoPreprocessingProps {
   setIsPlaying: (playing: boolean) => void;
   /** Callback to temporarily disable smoothing during preprocessing for deterministic results */
   onSetSmoothing?: (enabled: boolean) => void;
+  /** Detector options for preprocessing in a Web Worker; without it (or without worker support) detectPose runs on the main thread */
+  workerConfig?: PoseWorkerConfig;
 }
 
 export interface VideoPreprocessingState {
@@ -40,6 +54,7 @@ export interface VideoPreprocessingActions {
 /**
  * Hook to manage video preprocessing for pose detection.
  * Handles manual preprocessing, auto-preprocessing, and background processing.
+ * Frames are detected in a Web Worker when possible, falling back to detectPose on the main thread.
  */
 export function useVideoPreprocessing({
   videoRef,
@@ -53,6 +68,7 @@ export function useVideoPreprocessing({
   setCurrentPoses,
   setIsPlaying,
   onSetSmoothing,
+  workerConfig,
 }: UseVideoPreprocessingProps): VideoPreprocessingState & VideoPreprocessingActions {
   // State
   const [isPreprocessing, setIsPreprocessing] = useState(false);
@@ -67,6 +83,107 @@ export function useVideoPreprocessing({
 
   // Refs
   const backgroundPreprocessAbortRef = useRef<boolean>(false);
+  const poseWorkerRef = useRef<{ key: string; client: PoseWorkerClient } | null>(null);
+  // Once the worker fails, the main-thread path is used for the rest of the session
+  const poseWorkerFailedRef = useRef(false);
+
+  // Terminate the pose worker on unmount
+  useEffect(() => {
+    return () => {
+      poseWorkerRef.current?.client.terminate();
+      poseWorkerRef.current = null;
+    };
+  }, []);
+
+  const disablePoseWorker = useCallback(() => {
+    poseWorkerFailedRef.current = true;
+    poseWorkerRef.current?.client.terminate();
+    poseWorkerRef.current = null;
+  }, []);
+
+  /**
+   * Get a ready pose worker for the current detector options,
+   * or null when preprocessing should run on the main thread
+   */
+  const getPoseWorker = useCallback(async (): Promise<PoseWorkerClient | null> => {
+    if (!workerConfig || poseWorkerFailedRef.current || !isPoseWorkerSupported()) return null;
+
+    const key = JSON.stringify(workerConfig);
+    if (poseWorkerRef.current?.key !== key) {
+      poseWorkerRef.current?.client.terminate();
+      poseWorkerRef.current = { key, client: createPoseWorkerClient(workerConfig) };
+    }
+
+    const { client } = poseWorkerRef.current;
+    let readyTimeout: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const backend = await Promise.race([
+        client.ready,
+        new Promise<never>((_, reject) => {
+          readyTimeout = setTimeout(
+            () => reject(new Error(`Pose worker not ready after ${POSE_WORKER_READY_TIMEOUT_MS / 1000}s`)),
+            POSE_WORKER_READY_TIMEOUT_MS
+          );
+        }),
+      ]);
+      detectionLogger.debug(`🧵 Preprocessing in pose worker (${backend})`);
+      return client;
+    } catch (err) {
+      detectionLogger.warn("Pose worker unavailable, preprocessing on the main thread:", err);
+      disablePoseWorker();
+      return null;
+    } finally {
+      clearTimeout(readyTimeout);
+    }
+  }, [workerConfig, disablePoseWorker]);
+
+  /**
+   * Run frames through the pose worker, streaming results into preprocessedPoses.
+   * Returns the number of frames processed; on a worker failure the caller
+   * continues from there on the main thread.
+   */
+  const preprocessInWorker = useCallback(async (
+    poseWorker: PoseWorkerClient,
+    {
+      video,
+      fps,
+      totalFrames,
+      allPoses,
+      onProgress,
+      shouldAbort,
+    }: {
+      video: HTMLVideoElement;
+      fps: number;
+      totalFrames: number;
+      allPoses: Map<number, PoseDetectionResult[]>;
+      onProgress: (progress: number) => void;
+      shouldAbort: () => boolean;
+    }
+  ): Promise<number> => {
+    let streamedFrames = 0;
+    try {
+      await poseWorker.processVideo({
+        video,
+        fps,
+        totalFrames,
+        shouldAbort,
+        onPoses: (frame, poses) => {
+          allPoses.set(frame, poses);
+          onProgress(((frame + 1) / totalFrames) * 100);
+
+          if (allPoses.size - streamedFrames >= STREAM_BATCH_FRAMES) {
+            streamedFrames = allPoses.size;
+            setPreprocessedPoses(new Map(allPoses));
+          }
+        },
+      });
+    } catch (err) {
+      detectionLogger.warn("Pose worker failed, continuing preprocessing on the main thread:", err);
+      disablePoseWorker();
+    }
+    // Results arrive in frame order, so this is also the next frame to process
+    return allPoses.size;
+  }, [disablePoseWorker]);
 
   /**
    * Manual preprocessing - processes all frames in the video
@@ -74,6 +191,8 @@ export function useVideoPreprocessing({
    * NOTE: Smoothing is temporarily disabled during preprocessing to ensure
    * deterministic results. The pose detector's temporal smoothing uses
    * previous frames, which can cause non-determinism during frame seeking.
+   * The pose worker's detector never smooths, so this only applies to frames
+   * detected on the main thread (including after a worker failure).
    */
   const handlePreprocess = useCallback(async () => {
     const video = videoRef.current;
@@ -89,15 +208,8 @@ export function useVideoPreprocessing({
       setIsPlaying(false);
     }
 
-    // Disable smoothing for deterministic preprocessing
-    // This ensures the same frames produce the same results every time
-    const smoothingWasEnabled = onSetSmoothing !== undefined;
-    if (onSetSmoothing) {
-      detectionLogger.debug("Disabling smoothing for deterministic preprocessing...");
-      onSetSmoothing(false);
-      // Wait for detector to reinitialize without smoothing
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
+    const poseWorker = await getPoseWorker();
+    let smoothingWasEnabled = false;
 
     try {
       const fps = videoFPS;
@@ -107,7 +219,28 @@ export function useVideoPreprocessing({
 
       detectionLogger.debug(`Pre-processing ${totalFrames} frames at ${fps} FPS (smoothing disabled)...`);
 
-      for (let frame = 0; frame < totalFrames; frame++) {
+      const startFrame = poseWorker
+        ? await preprocessInWorker(poseWorker, {
+            video,
+            fps,
+            totalFrames,
+            allPoses,
+            onProgress: setPreprocessProgress,
+            shouldAbort: () => false,
+          })
+        : 0;
+
+      // Disable smoothing for deterministic preprocessing of the frames left for the main thread
+      // This ensures the same frames produce the same results every time
+      if (startFrame < totalFrames && onSetSmoothing) {
+        detectionLogger.debug("Disabling smoothing for deterministic preprocessing...");
+        onSetSmoothing(false);
+        smoothingWasEnabled = true;
+        // Wait for detector to reinitialize without smoothing
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+
+      for (let frame = startFrame; frame < totalFrames; frame++) {
         const targetTime = frame / fps;
         video.currentTime = targetTime;
 
@@ -145,6 +278,7 @@ export function useVideoPreprocessing({
       detectionLogger.error("Pre-processing error:", err);
       setIsPreprocessing(false);
       setPreprocessProgress(0);
+      setPreprocessedPoses(new Map());
     } finally {
       // Restore smoothing after preprocessing
       if (smoothingWasEnabled && onSetSmoothing) {
@@ -152,13 +286,13 @@ export function useVideoPreprocessing({
         onSetSmoothing(true);
       }
     }
-  }, [videoRef, detectPose, isLoading, videoFPS, setCurrentPoses, setIsPlaying, onSetSmoothing]);
+  }, [videoRef, detectPose, isLoading, videoFPS, setCurrentPoses, setIsPlaying, onSetSmoothing, getPoseWorker, preprocessInWorker]);
 
   /**
    * Auto preprocessing - runs in background with FPS detection
    * 
    * NOTE: Smoothing is temporarily disabled during preprocessing to ensure
-   * deterministic results.
+   * deterministic results (main thread only, see handlePreprocess).
    */
   const startAutoPreprocess = useCallback(async () => {
     const video = videoRef.current;
@@ -171,13 +305,8 @@ export function useVideoPreprocessing({
 
     const originalTime = video.currentTime;
 
-    // Disable smoothing for deterministic preprocessing
-    const smoothingWasEnabled = onSetSmoothing !== undefined;
-    if (onSetSmoothing) {
-      detectionLogger.debug("🔧 Disabling smoothing for deterministic preprocessing...");
-      onSetSmoothing(false);
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
+    const poseWorker = await getPoseWorker();
+    let smoothingWasEnabled = false;
 
     try {
       // Step 1: Quick FPS detection
@@ -248,7 +377,26 @@ export function useVideoPreprocessing({
 
       detectionLogger.debug(`🎬 Processing ${totalFrames} frames at ${fps} FPS...`);
 
-      for (let frame = 0; frame < totalFrames; frame++) {
+      const startFrame = poseWorker
+        ? await preprocessInWorker(poseWorker, {
+            video,
+            fps,
+            totalFrames,
+            allPoses,
+            onProgress: setBackgroundPreprocessProgress,
+            shouldAbort: () => backgroundPreprocessAbortRef.current,
+          })
+        : 0;
+
+      // Disable smoothing for deterministic preprocessing of the frames left for the main thread
+      if (startFrame < totalFrames && !backgroundPreprocessAbortRef.current && onSetSmoothing) {
+        detectionLogger.debug("🔧 Disabling smoothing for deterministic preprocessing...");
+        onSetSmoothing(false);
+        smoothingWasEnabled = true;
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+
+      for (let frame = startFrame; frame < totalFrames; frame++) {
         if (backgroundPreprocessAbortRef.current) {
           detectionLogger.debug("🎬 Preprocessing aborted");
           break;
@@ -298,10 +446,13 @@ export function useVideoPreprocessing({
           setCurrentPoses(framePoses);
         }
       } else {
+        // Drop frames streamed in before the abort
+        setPreprocessedPoses(new Map());
         video.currentTime = originalTime;
       }
     } catch (err) {
       detectionLogger.error("Preprocessing error:", err);
+      setPreprocessedPoses(new Map());
       video.currentTime = originalTime;
     } finally {
       setIsBackgroundPreprocessing(false);
@@ -313,7 +464,7 @@ export function useVideoPreprocessing({
         onSetSmoothing(true);
       }
     }
-  }, [videoRef, detectPose, isBackgroundPreprocessing, videoFPS, setCurrentPoses, setIsPlaying, onSetSmoothing]);
+  }, [videoRef, detectPose, isBackgroundPreprocessing, videoFPS, setCurrentPoses, setIsPlaying, onSetSmoothing, getPoseWorker, preprocessInWorker]);
 
   /**
    * Cancel background preprocessing
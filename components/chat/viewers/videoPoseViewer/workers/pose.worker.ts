@@ -0,0 +1,133 @@
+/**
+ * Pose preprocessing worker
+ * Runs the TF.js MoveNet/BlazePose detector off the main thread.
+ * "decode" runs demux and decode the whole video here with WebCodecs; otherwise
+ * frames arrive as transferred VideoFrames or ImageBitmaps. Frames are answered in order.
+ */
+
+import * as poseDetection from "@tensorflow-models/pose-detection";
+import { detectionLogger } from "@/lib/logger";
+import {
+  getPoseDetectorSetup,
+  initializeTensorFlowBackend,
+  toPoseDetectionResult,
+} from "@/lib/pose-detector";
+import type { PoseDetectionResult } from "@/hooks/usePoseDetection";
+import type { PoseWorkerConfig, PoseWorkerRequest, PoseWorkerResponse } from "./poseWorkerClient";
+import { decodeVideoFrames, isVideoDecoderSupported } from "./videoFrameDecoder";
+
+// The DOM lib has no DedicatedWorkerGlobalScope; Worker exposes the same messaging API
+const scope = self as unknown as Worker;
+
+let detector: poseDetection.PoseDetector | null = null;
+// Requests are handled one at a time so frames are answered in order
+let queue: Promise<void> = Promise.resolve();
+// Runs up to this id were cancelled; checked by a decode run between frames
+let cancelledRunId = 0;
+
+function post(message: PoseWorkerResponse) {
+  scope.postMessage(message);
+}
+
+async function initDetector(config: PoseWorkerConfig) {
+  const backend = await initializeTensorFlowBackend();
+  // The CPU backend would be slower than the main-thread path
+  if (backend !== "webgl" && backend !== "webgpu") {
+    throw new Error(`Unsupported worker backend: ${backend}`);
+  }
+
+  // Smoothing is always off: preprocessing must be deterministic
+  const { supportedModel, detectorConfig } = getPoseDetectorSetup({ ...config, enableSmoothing: false });
+  detector?.dispose();
+  detector = await poseDetection.createDetector(supportedModel, detectorConfig);
+
+  detectionLogger.info(`Pose worker ready (${config.model}, ${backend})`);
+  return backend;
+}
+
+async function estimateFrame(image: VideoFrame | ImageBitmap): Promise<PoseDetectionResult[]> {
+  let bitmap: ImageBitmap | null = null;
+  try {
+    bitmap = image instanceof ImageBitmap ? image : await createImageBitmap(image);
+
+    if (!detector || bitmap.width === 0 || bitmap.height === 0) return [];
+
+    const poses = await detector.estimatePoses(bitmap);
+    return poses.map(toPoseDetectionResult);
+  } catch (err) {
+    detectionLogger.error("Pose worker detection error:", err);
+    return [];
+  } finally {
+    if (bitmap !== image) image.close();
+    bitmap?.close();
+  }
+}
+
+/**
+ * Decode the video and detect poses for frames 0..totalFrames-1 at the given fps.
+ * Each target frame gets the poses of the decoded frame shown at its time, as if
+ * the video had been seeked there.
+ */
+async function detectDecodedVideo(runId: number, url: string, fps: number, totalFrames: number): Promise<void> {
+  if (!isVideoDecoderSupported()) {
+    throw new Error("VideoDecoder is not supported");
+  }
+
+  let nextFrame = 0;
+  for await (const image of decodeVideoFrames(url, () => runId <= cancelledRunId)) {
+    // End of the time span this frame is shown for
+    const endTime = (image.timestamp + (image.duration ?? 1_000_000 / fps)) / 1_000_000;
+    if (nextFrame >= totalFrames || nextFrame / fps >= endTime) {
+      // Between two target frames (the source has a higher frame rate)
+      image.close();
+      if (nextFrame >= totalFrames) break;
+      continue;
+    }
+
+    const poses = await estimateFrame(image);
+    for (; nextFrame < totalFrames && nextFrame / fps < endTime; nextFrame++) {
+      post({ type: "poses", runId, frame: nextFrame, poses });
+    }
+  }
+}
+
+async function handleRequest(request: PoseWorkerRequest) {
+  switch (request.type) {
+    case "init":
+      try {
+        const backend = await initDetector(request.config);
+        post({ type: "ready", backend });
+      } catch (err) {
+        detectionLogger.error("Pose worker failed to initialize:", err);
+        post({ type: "error", message: err instanceof Error ? err.message : String(err) });
+      }
+      break;
+    case "frame": {
+      const poses = await estimateFrame(request.image);
+      post({ type: "poses", runId: request.runId, frame: request.frame, poses });
+      break;
+    }
+    case "decode": {
+      const { runId, url, fps, totalFrames } = request;
+      try {
+        await detectDecodedVideo(runId, url, fps, totalFrames);
+        post({ type: "decoded", runId });
+      } catch (err) {
+        // The client seeks from the first unanswered frame instead
+        detectionLogger.warn("Pose worker could not decode the video:", err);
+        post({ type: "decoded", runId, error: err instanceof Error ? err.message : String(err) });
+      }
+      break;
+    }
+  }
+}
+
+scope.onmessage = (event: MessageEvent<PoseWorkerRequest>) => {
+  const request = event.data;
+  // Cancels skip the queue so they can stop a decode run in progress
+  if (request.type === "cancel") {
+    cancelledRunId = Math.max(cancelledRunId, request.runId);
+    return;
+  }
+  queue = queue.then(() => handleRequest(request));
+};
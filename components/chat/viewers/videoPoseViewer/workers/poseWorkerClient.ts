@@ -0,0 +1,280 @@
+import type { PoseDetectionResult } from "@/hooks/usePoseDetection";
+import { detectionLogger } from "@/lib/logger";
+import type { PoseDetectorOptions } from "@/lib/pose-detector";
+
+// Smoothing is not configurable: the worker always detects without it
+export type PoseWorkerConfig = Omit<PoseDetectorOptions, "enableSmoothing">;
+
+// Messages sent to pose.worker.ts
+export type PoseWorkerRequest =
+  | { type: "init"; config: PoseWorkerConfig }
+  | { type: "frame"; runId: number; frame: number; image: VideoFrame | ImageBitmap }
+  | { type: "decode"; runId: number; url: string; fps: number; totalFrames: number }
+  | { type: "cancel"; runId: number };
+
+// Messages sent back from pose.worker.ts
+export type PoseWorkerResponse =
+  | { type: "ready"; backend: string }
+  | { type: "poses"; runId: number; frame: number; poses: PoseDetectionResult[] }
+  | { type: "decoded"; runId: number; error?: string }
+  | { type: "error"; message: string };
+
+export interface ProcessVideoOptions {
+  video: HTMLVideoElement;
+  fps: number;
+  totalFrames: number;
+  shouldAbort: () => boolean;
+  /** Called in frame order as the worker returns results */
+  onPoses: (frame: number, poses: PoseDetectionResult[]) => void;
+}
+
+export interface PoseWorkerClient {
+  /** Resolves with the worker's TF.js backend once its detector has loaded */
+  ready: Promise<string>;
+  /** Resolves true when every frame was processed, false if aborted */
+  processVideo: (options: ProcessVideoOptions) => Promise<boolean>;
+  terminate: () => void;
+}
+
+// Frames captured ahead of the worker, so seeking overlaps with inference
+const MAX_FRAMES_IN_FLIGHT = 2;
+
+// How often shouldAbort is checked while the worker decodes the video itself
+const ABORT_POLL_MS = 100;
+
+// Rejects the frames still in flight when a run is aborted or replaced
+class PoseRunAbortedError extends Error {
+  constructor() {
+    super("Pose worker run aborted");
+    this.name = "PoseRunAbortedError";
+  }
+}
+
+/**
+ * Whether this browser can run pose detection in a worker
+ * (WebGL/WebGPU need OffscreenCanvas inside the worker)
+ */
+export function isPoseWorkerSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    typeof createImageBitmap !== "undefined"
+  );
+}
+
+function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise<void>((resolve) => {
+    const onSeeked = () => {
+      video.removeEventListener("seeked", onSeeked);
+      resolve();
+    };
+    video.addEventListener("seeked", onSeeked);
+    video.currentTime = time;
+  });
+}
+
+// The worker can fetch and decode the file itself when WebCodecs is available;
+// MediaSource streams have no fetchable URL
+function canDecodeInWorker(video: HTMLVideoElement): boolean {
+  return (
+    typeof VideoDecoder !== "undefined" &&
+    video.currentSrc !== "" &&
+    !(video.srcObject instanceof MediaSource)
+  );
+}
+
+// WebCodecs VideoFrames wrap the decoded frame without a copy; ImageBitmap is the fallback
+async function captureVideoFrame(video: HTMLVideoElement): Promise<VideoFrame | ImageBitmap> {
+  if (typeof VideoFrame !== "undefined") {
+    return new VideoFrame(video, { timestamp: Math.round(video.currentTime * 1_000_000) });
+  }
+  return createImageBitmap(video);
+}
+
+/**
+ * Start a pose worker with the given detector options.
+ * Where WebCodecs is supported the worker downloads, demuxes and decodes the
+ * video itself, so the main thread does no per-frame work. Otherwise, or when
+ * decoding fails, the main thread seeks the video and captures each frame for
+ * the worker, continuing from the first frame the worker did not answer.
+ */
+export function createPoseWorkerClient(config: PoseWorkerConfig): PoseWorkerClient {
+  const worker = new Worker(new URL("./pose.worker.ts", import.meta.url), { type: "module" });
+
+  let resolveReady: (backend: string) => void = () => {};
+  let rejectReady: (error: Error) => void = () => {};
+  const ready = new Promise<string>((resolve, reject) => {
+    resolveReady = resolve;
+    rejectReady = reject;
+  });
+  // Avoid an unhandled rejection when nobody awaits a failed init
+  ready.catch(() => {});
+
+  let currentRunId = 0;
+  const pending = new Map<
+    number,
+    { resolve: (poses: PoseDetectionResult[]) => void; reject: (error: Error) => void }
+  >();
+
+  // The run the worker is decoding, if any
+  let decodeRun: {
+    runId: number;
+    onPoses: ProcessVideoOptions["onPoses"];
+    resolve: (error?: string) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+
+  // Settle every frame still waiting on the worker, so no run is left hanging
+  const rejectPending = (error: Error) => {
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+    decodeRun?.reject(error);
+    decodeRun = null;
+  };
+
+  // Stop the current run: the worker stops decoding it and its in-flight frames are rejected
+  const cancelRun = () => {
+    worker.postMessage({ type: "cancel", runId: currentRunId } satisfies PoseWorkerRequest);
+    currentRunId++;
+    rejectPending(new PoseRunAbortedError());
+  };
+
+  const fail = (error: Error) => {
+    rejectReady(error);
+    rejectPending(error);
+  };
+
+  worker.onmessage = (event: MessageEvent<PoseWorkerResponse>) => {
+    const message = event.data;
+    switch (message.type) {
+      case "ready":
+        resolveReady(message.backend);
+        break;
+      case "poses": {
+        // Results from an aborted run are dropped
+        if (message.runId !== currentRunId) break;
+        if (decodeRun?.runId === message.runId) {
+          decodeRun.onPoses(message.frame, message.poses);
+          break;
+        }
+        const request = pending.get(message.frame);
+        pending.delete(message.frame);
+        request?.resolve(message.poses);
+        break;
+      }
+      case "decoded":
+        if (decodeRun?.runId === message.runId) {
+          decodeRun.resolve(message.error);
+          decodeRun = null;
+        }
+        break;
+      case "error":
+        fail(new Error(message.message));
+        break;
+    }
+  };
+
+  worker.onerror = (event) => {
+    fail(new Error(event.message || "Pose worker failed"));
+  };
+
+  worker.postMessage({ type: "init", config } satisfies PoseWorkerRequest);
+
+  /**
+   * Have the worker decode the video and detect every frame. Resolves with the
+   * number of frames answered, which is less than totalFrames when decoding
+   * failed part way (or not at all).
+   */
+  const decodeInWorker = (
+    runId: number,
+    { video, fps, totalFrames, shouldAbort, onPoses }: ProcessVideoOptions
+  ): Promise<number> => {
+    let answered = 0;
+    const abortPoll = setInterval(() => {
+      if (shouldAbort() && runId === currentRunId) cancelRun();
+    }, ABORT_POLL_MS);
+
+    return new Promise<number>((resolve, reject) => {
+      decodeRun = {
+        runId,
+        onPoses: (frame, poses) => {
+          answered = frame + 1;
+          onPoses(frame, poses);
+        },
+        resolve: (error) => {
+          if (error) {
+            detectionLogger.warn(`Pose worker decoding failed after ${answered} frames, seeking the rest:`, error);
+          }
+          resolve(answered);
+        },
+        reject,
+      };
+      worker.postMessage({
+        type: "decode",
+        runId,
+        url: video.currentSrc,
+        fps,
+        totalFrames,
+      } satisfies PoseWorkerRequest);
+    }).finally(() => clearInterval(abortPoll));
+  };
+
+  const processVideo = async (options: ProcessVideoOptions): Promise<boolean> => {
+    const { video, fps, totalFrames, shouldAbort, onPoses } = options;
+    await ready;
+
+    // A new run replaces any previous one, which then resolves false
+    cancelRun();
+    const runId = currentRunId;
+    const inFlight: Promise<void>[] = [];
+
+    try {
+      const startFrame = canDecodeInWorker(video) ? await decodeInWorker(runId, options) : 0;
+
+      // Fallback: seek and capture on the main thread
+      for (let frame = startFrame; frame < totalFrames; frame++) {
+        if (shouldAbort()) {
+          cancelRun();
+          return false;
+        }
+
+        if (inFlight.length >= MAX_FRAMES_IN_FLIGHT) {
+          await inFlight.shift();
+        }
+        if (runId !== currentRunId) return false;
+
+        await seekVideo(video, frame / fps);
+        const image = await captureVideoFrame(video);
+        // Replaced while seeking: the worker would drop this frame's result
+        if (runId !== currentRunId) {
+          image.close();
+          return false;
+        }
+
+        const result = new Promise<PoseDetectionResult[]>((resolve, reject) => {
+          pending.set(frame, { resolve, reject });
+        }).then((poses) => onPoses(frame, poses));
+        result.catch(() => {});
+        inFlight.push(result);
+
+        worker.postMessage({ type: "frame", runId, frame, image } satisfies PoseWorkerRequest, [image]);
+      }
+
+      await Promise.all(inFlight);
+    } catch (error) {
+      if (error instanceof PoseRunAbortedError) return false;
+      throw error;
+    }
+    return runId === currentRunId && !shouldAbort();
+  };
+
+  return {
+    ready,
+    processVideo,
+    terminate: () => {
+      fail(new Error("Pose worker terminated"));
+      worker.terminate();
+    },
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Video frame decoding for the pose worker
+ * Demuxes an MP4/MOV file with mp4box and decodes its video track with WebCodecs,
+ * so preprocessing doesn't have to seek a <video> element frame by frame.
+ */
+
+import {
+  createFile,
+  DataStream,
+  Endianness,
+  MP4BoxBuffer,
+  VisualSampleEntry,
+  type ISOFile,
+  type MultiBufferStream,
+  type Sample,
+  type Track,
+} from "mp4box";
+
+// Samples handed to mp4box per onSamples call
+const EXTRACTION_BATCH_SAMPLES = 500;
+
+// Chunks queued in the decoder before waiting for it to catch up
+const MAX_DECODE_QUEUE = 8;
+
+interface DemuxedVideo {
+  config: VideoDecoderConfig;
+  timescale: number;
+  samples: Sample[];
+}
+
+/**
+ * Whether WebCodecs video decoding is available in this context
+ */
+export function isVideoDecoderSupported(): boolean {
+  return typeof VideoDecoder !== "undefined" && typeof EncodedVideoChunk !== "undefined";
+}
+
+/**
+ * The codec configuration record (avcC, hvcC, vpcC or av1C) without its box header,
+ * as VideoDecoderConfig.description expects
+ */
+function getCodecDescription(file: ISOFile, trackId: number): Uint8Array | undefined {
+  for (const entry of file.getTrackById(trackId).mdia.minf.stbl.stsd.entries) {
+    if (!(entry instanceof VisualSampleEntry)) continue;
+
+    const box = entry.avcC ?? entry.hvcC ?? entry.vpcC ?? entry.av1C;
+    if (box) {
+      const stream = new DataStream(undefined, 0, Endianness.BIG_ENDIAN);
+      box.write(stream as MultiBufferStream);
+      return new Uint8Array(stream.buffer, 8);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Download a video and collect the samples of its first video track
+ */
+async function demuxVideo(url: string, isCancelled: () => boolean): Promise<DemuxedVideo | null> {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to fetch video (${response.status})`);
+  }
+
+  const file = createFile();
+  const samples: Sample[] = [];
+  let track: Track | null = null;
+  let demuxError: Error | null = null;
+
+  file.onReady = (info) => {
+    track = info.videoTracks[0] ?? null;
+    if (!track) return;
+    file.setExtractionOptions(track.id, null, { nbSamples: EXTRACTION_BATCH_SAMPLES });
+    file.start();
+  };
+  file.onSamples = (_id, _user, batch) => {
+    samples.push(...batch);
+  };
+  file.onError = (module, message) => {
+    demuxError = new Error(`${module}: ${message}`);
+  };
+
+  const reader = response.body.getReader();
+  let fileStart = 0;
+  for (;;) {
+    if (isCancelled()) {
+      await reader.cancel();
+      return null;
+    }
+
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    // mp4box needs the chunk's own ArrayBuffer, not a view into a larger one
+    const buffer = value.byteOffset === 0 && value.byteLength === value.buffer.byteLength
+      ? value.buffer
+      : value.slice().buffer;
+    file.appendBuffer(MP4BoxBuffer.fromArrayBuffer(buffer, fileStart));
+    fileStart += value.byteLength;
+  }
+  file.flush();
+
+  if (demuxError) throw demuxError;
+
+  const videoTrack = track as Track | null;
+  if (!videoTrack?.video) {
+    throw new Error("No video track found");
+  }
+
+  const config: VideoDecoderConfig = {
+    codec: videoTrack.codec,
+    codedWidth: videoTrack.video.width,
+    codedHeight: videoTrack.video.height,
+    description: getCodecDescription(file, videoTrack.id),
+  };
+
+  const { supported } = await VideoDecoder.isConfigSupported(config);
+  if (!supported) {
+    throw new Error(`Unsupported codec: ${videoTrack.codec}`);
+  }
+
+  return { config, timescale: videoTrack.timescale, samples };
+}
+
+/**
+ * Decode every frame of a video in presentation order.
+ * Decoding waits while the consumer handles a frame, so only a few frames are
+ * held at a time. The consumer must close each yielded frame.
+ * Stops early (without throwing) once isCancelled returns true.
+ */
+export async function* decodeVideoFrames(
+  url: string,
+  isCancelled: () => boolean
+): AsyncGenerator<VideoFrame> {
+  const demuxed = await demuxVideo(url, isCancelled);
+  if (!demuxed) return;
+
+  const { config, timescale, samples } = demuxed;
+  const decoded: VideoFrame[] = [];
+  let decodeError: Error | null = null;
+  let wake: () => void = () => {};
+
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      decoded.push(frame);
+      wake();
+    },
+    error: (error) => {
+      decodeError = error;
+      wake();
+    },
+  });
+  decoder.ondequeue = () => wake();
+  decoder.configure(config);
+
+  const waitForDecoder = () => new Promise<void>((resolve) => {
+    wake = resolve;
+  });
+
+  try {
+    for (let i = 0; i < samples.length; i++) {
+      if (isCancelled()) return;
+      if (decodeError) throw decodeError;
+
+      const sample = samples[i];
+      if (!sample.data) continue;
+      decoder.decode(new EncodedVideoChunk({
+        type: sample.is_sync ? "key" : "delta",
+        timestamp: Math.round((sample.cts * 1_000_000) / timescale),
+        duration: Math.round((sample.duration * 1_000_000) / timescale),
+        data: sample.data,
+      }));
+      // Release the encoded data once it is queued
+      sample.data = undefined;
+
+      while (decoded.length > 0 || decoder.decodeQueueSize > MAX_DECODE_QUEUE) {
+        const frame = decoded.shift();
+        if (frame) {
+          yield frame;
+          if (isCancelled()) return;
+        } else {
+          await waitForDecoder();
+          if (decodeError) throw decodeError;
+        }
+      }
+    }
+
+    await decoder.flush();
+    for (let frame = decoded.shift(); frame; frame = decoded.shift()) {
+      yield frame;
+      if (isCancelled()) return;
+    }
+  } finally {
+    decoded.forEach((frame) => frame.close());
+    if (decoder.state !== "closed") decoder.close();
+  }
+}
@@ -16,8 +16,9 @@ import { ProfileProvider, useProfileContext } from "./ProfileContext";
 import { PlayerTab } from "./tabs/PlayerTab";
 import { CoachTab } from "./tabs/CoachTab";
 import { BusinessTab } from "./tabs/BusinessTab";
+import { DeveloperTab } from "./tabs/DeveloperTab";
 
-type ProfileTab = "player" | "coach" | "business";
+type ProfileTab = "player" | "coach" | "business" | "developer";
 
 export function ProfilePage() {
   return (
@@ -189,6 +190,10 @@ function ProfilePageContent() {
                 />
               )}
             </Tabs.Trigger>
+            
+            <Tabs.Trigger value="developer">
+              Developer
+            </Tabs.Trigger>
           </Tabs.List>
           
           {/* Tab Content */}
@@ -204,6 +209,10 @@ function ProfilePageContent() {
             <Tabs.Content value="business">
               <BusinessTab />
             </Tabs.Content>
+            
+            <Tabs.Content value="developer">
+              <DeveloperTab />
+            </Tabs.Content>
           </Box>
         </Tabs.Root>
       </Box>
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { Box, Flex, Text, Card, Badge, Button, Code, Progress, AlertDialog } from "@radix-ui/themes";
+import { Pencil1Icon, UpdateIcon, TrashIcon } from "@radix-ui/react-icons";
+import buttonStyles from "@/styles/buttons.module.css";
+import { API_KEY_SCOPES } from "@/lib/api-key-scopes";
+import type { ApiKeySummary } from "@/types/external-api";
+
+interface ApiKeyCardProps {
+  apiKey: ApiKeySummary;
+  onEdit: () => void;
+  onRotate: () => Promise<void>;
+  onRevoke: () => Promise<void>;
+}
+
+type ConfirmAction = "rotate" | "revoke" | null;
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : "Never";
+}
+
+function getStatus(apiKey: ApiKeySummary): { label: string; color: "mint" | "gray" | "orange" } {
+  if (!apiKey.is_active) return { label: "Revoked", color: "gray" };
+  if (apiKey.expires_at && new Date(apiKey.expires_at) < new Date()) return { label: "Expired", color: "orange" };
+  return { label: "Active", color: "mint" };
+}
+
+export function ApiKeyCard({ apiKey, onEdit, onRotate, onRevoke }: ApiKeyCardProps) {
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const status = getStatus(apiKey);
+  const isActive = apiKey.is_active;
+  const usagePercent = apiKey.monthly_request_limit > 0
+    ? Math.min(100, (apiKey.requests_this_month / apiKey.monthly_request_limit) * 100)
+    : 0;
+
+  const handleConfirm = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await (confirmAction === "rotate" ? onRotate() : onRevoke());
+      setConfirmAction(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  }, [confirmAction, onRotate, onRevoke]);
+
+  return (
+    <>
+      <Card style={{ opacity: isActive ? 1 : 0.6 }}>
+        <Flex direction="column" gap="3" p="3">
+          {/* Header */}
+          <Flex align="start" justify="between" gap="3">
+            <Box>
+              <Flex align="center" gap="2">
+                <Text size="3" weight="medium">{apiKey.name}</Text>
+                <Badge size="1" variant="soft" color={status.color}>{status.label}</Badge>
+              </Flex>
+              <Code size="1" variant="ghost" color="gray">{apiKey.key_prefix}…</Code>
+              {apiKey.description && (
+                <Text size="1" color="gray" as="p" mt="1">{apiKey.description}</Text>
+              )}
+            </Box>
+
+            {isActive && (
+              <Flex gap="2">
+                <Button size="1" variant="ghost" onClick={onEdit}>
+                  <Pencil1Icon /> Edit
+                </Button>
+                <Button size="1" variant="ghost" onClick={() => setConfirmAction("rotate")}>
+                  <UpdateIcon /> Rotate
+                </Button>
+                <Button size="1" variant="ghost" color="red" onClick={() => setConfirmAction("revoke")}>
+                  <TrashIcon /> Revoke
+                </Button>
+              </Flex>
+            )}
+          </Flex>
+
+          {/* Scopes */}
+          <Flex gap="1" wrap="wrap">
+            {apiKey.permissions.map(permission => (
+              <Badge key={permission} size="1" variant="outline">
+                {API_KEY_SCOPES.find(s => s.id === permission)?.label ?? permission}
+              </Badge>
+            ))}
+          </Flex>
+
+          {/* Usage */}
+          <Box>
+            <Flex justify="between" mb="1">
+              <Text size="1" color="gray">This month</Text>
+              <Text size="1" color={usagePercent >= 90 ? "red" : "gray"}>
+                {apiKey.requests_this_month.toLocaleString()} / {apiKey.monthly_request_limit.toLocaleString()} requests
+              </Text>
+            </Flex>
+            <Progress size="1" value={usagePercent} color={usagePercent >= 90 ? "red" : "mint"} />
+          </Box>
+
+          <Flex gap="4" wrap="wrap">
+            <Text size="1" color="gray">Total: {apiKey.total_requests.toLocaleString()}</Text>
+            <Text size="1" color="gray">Last used: {formatDate(apiKey.last_used_at)}</Text>
+            <Text size="1" color="gray">Resets: {formatDate(apiKey.month_reset_at)}</Text>
+            <Text size="1" color="gray">Expires: {formatDate(apiKey.expires_at)}</Text>
+            <Text size="1" color="gray">Created: {formatDate(apiKey.created_at)}</Text>
+          </Flex>
+        </Flex>
+      </Card>
+
+      {/* Rotate / revoke confirmation */}
+      <AlertDialog.Root open={confirmAction !== null} onOpenChange={open => !open && setConfirmAction(null)}>
+        <AlertDialog.Content maxWidth="400px">
+          <AlertDialog.Title>
+            {confirmAction === "rotate" ? "Rotate API key" : "Revoke API key"}
+          </AlertDialog.Title>
+          <AlertDialog.Description size="2">
+            {confirmAction === "rotate"
+              ? `A new secret will be issued for "${apiKey.name}" and the current one will stop working immediately.`
+              : `"${apiKey.name}" will stop working immediately. This cannot be undone.`}
+          </AlertDialog.Description>
+          {error && (
+            <Text size="2" color="red" as="p" mt="2">{error}</Text>
+          )}
+          <Flex gap="3" mt="4" justify="end">
+            <AlertDialog.Cancel>
+              <Button className={buttonStyles.actionButtonSquareSecondary}>
+                Cancel
+              </Button>
+            </AlertDialog.Cancel>
+            <Button
+              className={confirmAction === "rotate" ? buttonStyles.actionButtonSquare : buttonStyles.actionButtonSquareRed}
+              onClick={handleConfirm}
+              disabled={busy}
+            >
+              {confirmAction === "rotate"
+                ? (busy ? "Rotating..." : "Rotate")
+                : (busy ? "Revoking..." : "Revoke")}
+            </Button>
+          </Flex>
+        </AlertDialog.Content>
+      </AlertDialog.Root>
+    </>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, Flex, Text, Button, TextField, TextArea, Select, Checkbox, Box } from "@radix-ui/themes";
+import buttonStyles from "@/styles/buttons.module.css";
+import { FormField } from "../shared/FormField";
+import { API_KEY_SCOPES, MAX_API_KEY_NAME_LENGTH, MAX_API_KEY_DESCRIPTION_LENGTH } from "@/lib/api-key-scopes";
+import type { ApiKeySummary, CreateApiKeyRequest } from "@/types/external-api";
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+];
+
+interface ApiKeyFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Key being edited; omit to create a new key */
+  apiKey?: ApiKeySummary;
+  onSubmit: (values: CreateApiKeyRequest) => Promise<void>;
+}
+
+/**
+ * Create a key, or edit the name/description/scopes of an existing one.
+ * Mount with a `key` so the form resets each time it opens.
+ */
+export function ApiKeyFormDialog({ open, onOpenChange, apiKey, onSubmit }: ApiKeyFormDialogProps) {
+  const isEdit = !!apiKey;
+  const [name, setName] = useState(apiKey?.name ?? "");
+  const [description, setDescription] = useState(apiKey?.description ?? "");
+  const [permissions, setPermissions] = useState<string[]>(apiKey?.permissions ?? [API_KEY_SCOPES[0].id]);
+  const [expiry, setExpiry] = useState("never");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const togglePermission = (scopeId: string, checked: boolean) => {
+    setPermissions(prev => (checked ? [...prev, scopeId] : prev.filter(p => p !== scopeId)));
+  };
+
+  const canSubmit = name.trim().length > 0 && permissions.length > 0 && !submitting;
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit({
+        name: name.trim(),
+        description: description.trim() || undefined,
+        permissions,
+        expiresInDays: expiry === "never" ? undefined : Number(expiry),
+      });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Content maxWidth="480px">
+        <Dialog.Title>{isEdit ? "Edit API key" : "Create API key"}</Dialog.Title>
+
+        <Box mt="4">
+          <FormField label="Name" required>
+            <TextField.Root
+              value={name}
+              placeholder="e.g., Pickleball App Production"
+              maxLength={MAX_API_KEY_NAME_LENGTH}
+              onChange={e => setName(e.target.value)}
+            />
+          </FormField>
+
+          <FormField label="Description">
+            <TextArea
+              value={description}
+              placeholder="What is this key used for?"
+              maxLength={MAX_API_KEY_DESCRIPTION_LENGTH}
+              onChange={e => setDescription(e.target.value)}
+              rows={2}
+            />
+          </FormField>
+
+          <FormField label="Permissions" required helperText="The key can only call the endpoints you select">
+            <Flex direction="column" gap="2">
+              {API_KEY_SCOPES.map(scope => (
+                <Text as="label" size="2" key={scope.id}>
+                  <Flex gap="2" align="start">
+                    <Checkbox
+                      checked={permissions.includes(scope.id)}
+                      onCheckedChange={checked => togglePermission(scope.id, checked === true)}
+                    />
+                    <Box>
+                      <Text weight="medium">{scope.label}</Text>
+                      <Text size="1" color="gray" as="div">{scope.description}</Text>
+                    </Box>
+                  </Flex>
+                </Text>
+              ))}
+            </Flex>
+          </FormField>
+
+          {!isEdit && (
+            <FormField label="Expires">
+              <Select.Root value={expiry} onValueChange={setExpiry}>
+                <Select.Trigger style={{ width: "100%" }} />
+                <Select.Content>
+                  {EXPIRY_OPTIONS.map(opt => (
+                    <Select.Item key={opt.value} value={opt.value}>{opt.label}</Select.Item>
+                  ))}
+                </Select.Content>
+              </Select.Root>
+            </FormField>
+          )}
+        </Box>
+
+        {error && (
+          <Text size="2" color="red" as="p">{error}</Text>
+        )}
+
+        <Flex gap="3" mt="4" justify="end">
+          <Dialog.Close>
+            <Button className={buttonStyles.actionButtonSquareSecondary}>Cancel</Button>
+          </Dialog.Close>
+          <Button className={buttonStyles.actionButtonSquare} onClick={handleSubmit} disabled={!canSubmit}>
+            {submitting ? "Saving..." : isEdit ? "Save" : "Create key"}
+          </Button>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
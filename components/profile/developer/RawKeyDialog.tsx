@@ -0,0 +1,74 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { Dialog, Flex, Text, Button, Code, Callout } from "@radix-ui/themes";
+import { CopyIcon, CheckIcon, ExclamationTriangleIcon } from "@radix-ui/react-icons";
+import buttonStyles from "@/styles/buttons.module.css";
+import { logger } from "@/lib/logger";
+
+interface RawKeyDialogProps {
+  rawKey: string | null;
+  onClose: () => void;
+  title?: string;
+  /** How to use the secret; defaults to API key usage */
+  hint?: ReactNode;
+}
+
+const DEFAULT_HINT = (
+  <>Send it as <Code size="1">Authorization: Bearer &lt;key&gt;</Code> on requests to /api/external.</>
+);
+
+/**
+ * Shows a newly issued key or webhook secret. This is the only time it is available.
+ */
+export function RawKeyDialog({ rawKey, onClose, title = "Your new API key", hint = DEFAULT_HINT }: RawKeyDialogProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (!rawKey) return;
+    try {
+      await navigator.clipboard.writeText(rawKey);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      logger.error("Failed to copy secret:", error);
+    }
+  };
+
+  return (
+    <Dialog.Root open={!!rawKey} onOpenChange={open => !open && onClose()}>
+      <Dialog.Content maxWidth="520px">
+        <Dialog.Title>{title}</Dialog.Title>
+
+        <Callout.Root color="orange" size="1" mb="4">
+          <Callout.Icon>
+            <ExclamationTriangleIcon />
+          </Callout.Icon>
+          <Callout.Text>
+            Copy this now. For security it won&apos;t be shown again.
+          </Callout.Text>
+        </Callout.Root>
+
+        <Flex align="center" gap="2">
+          <Code size="2" style={{ flex: 1, padding: "8px", wordBreak: "break-all" }}>
+            {rawKey}
+          </Code>
+          <Button variant="soft" onClick={handleCopy}>
+            {copied ? <CheckIcon /> : <CopyIcon />}
+            {copied ? "Copied" : "Copy"}
+          </Button>
+        </Flex>
+
+        <Text size="1" color="gray" as="p" mt="3">
+          {hint}
+        </Text>
+
+        <Flex justify="end" mt="4">
+          <Dialog.Close>
+            <Button className={buttonStyles.actionButtonSquare}>Done</Button>
+          </Dialog.Close>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
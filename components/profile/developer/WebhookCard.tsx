@@ -0,0 +1,158 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { Box, Flex, Text, Card, Badge, Button, Code, Switch, AlertDialog } from "@radix-ui/themes";
+import { Pencil1Icon, PaperPlaneIcon, ListBulletIcon, TrashIcon } from "@radix-ui/react-icons";
+import buttonStyles from "@/styles/buttons.module.css";
+import { WEBHOOK_EVENTS } from "@/lib/webhook-events";
+import type { WebhookEndpointSummary, WebhookDeliverySummary } from "@/types/external-api";
+
+interface WebhookCardProps {
+  webhook: WebhookEndpointSummary;
+  /** Name of the API key the webhook is scoped to, if any */
+  apiKeyName?: string;
+  onEdit: () => void;
+  onToggleActive: (active: boolean) => Promise<void>;
+  onSendTest: () => Promise<WebhookDeliverySummary>;
+  onShowDeliveries: () => void;
+  onDelete: () => Promise<void>;
+}
+
+export function WebhookCard({
+  webhook,
+  apiKeyName,
+  onEdit,
+  onToggleActive,
+  onSendTest,
+  onShowDeliveries,
+  onDelete,
+}: WebhookCardProps) {
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<WebhookDeliverySummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runAction = useCallback(async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const handleSendTest = useCallback(async () => {
+    setTesting(true);
+    setError(null);
+    setTestResult(null);
+    try {
+      setTestResult(await onSendTest());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send test event");
+    } finally {
+      setTesting(false);
+    }
+  }, [onSendTest]);
+
+  return (
+    <>
+      <Card style={{ opacity: webhook.is_active ? 1 : 0.6 }}>
+        <Flex direction="column" gap="3" p="3">
+          {/* Header */}
+          <Flex align="start" justify="between" gap="3">
+            <Box style={{ minWidth: 0 }}>
+              <Flex align="center" gap="2">
+                <Code size="2" variant="ghost" style={{ wordBreak: "break-all" }}>{webhook.url}</Code>
+                <Badge size="1" variant="soft" color={webhook.is_active ? "mint" : "gray"}>
+                  {webhook.is_active ? "Active" : "Disabled"}
+                </Badge>
+              </Flex>
+              {webhook.description && (
+                <Text size="1" color="gray" as="p" mt="1">{webhook.description}</Text>
+              )}
+            </Box>
+
+            <Switch
+              size="1"
+              checked={webhook.is_active}
+              disabled={busy}
+              onCheckedChange={checked => runAction(() => onToggleActive(checked))}
+            />
+          </Flex>
+
+          {/* Events and scope */}
+          <Flex gap="1" wrap="wrap">
+            {webhook.events.map(event => (
+              <Badge key={event} size="1" variant="outline">
+                {WEBHOOK_EVENTS.find(e => e.id === event)?.label ?? event}
+              </Badge>
+            ))}
+            <Badge size="1" variant="soft" color="gray">
+              {apiKeyName ? `Key: ${apiKeyName}` : "All tasks"}
+            </Badge>
+          </Flex>
+
+          <Flex align="center" justify="between" gap="3" wrap="wrap">
+            <Flex gap="3">
+              <Button size="1" variant="ghost" onClick={onEdit}>
+                <Pencil1Icon /> Edit
+              </Button>
+              <Button size="1" variant="ghost" onClick={handleSendTest} disabled={testing || !webhook.is_active}>
+                <PaperPlaneIcon /> {testing ? "Sending..." : "Send test"}
+              </Button>
+              <Button size="1" variant="ghost" onClick={onShowDeliveries}>
+                <ListBulletIcon /> Deliveries
+              </Button>
+              <Button size="1" variant="ghost" color="red" onClick={() => setConfirmDelete(true)}>
+                <TrashIcon /> Delete
+              </Button>
+            </Flex>
+            <Text size="1" color="gray">Created: {new Date(webhook.created_at).toLocaleDateString()}</Text>
+          </Flex>
+
+          {testResult && (
+            <Text size="1" color={testResult.status === "succeeded" ? "green" : "red"}>
+              {testResult.status === "succeeded"
+                ? `Test delivered (HTTP ${testResult.last_status_code})`
+                : `Test failed: ${testResult.last_error ?? "no response"}`}
+            </Text>
+          )}
+          {error && !confirmDelete && (
+            <Text size="1" color="red">{error}</Text>
+          )}
+        </Flex>
+      </Card>
+
+      {/* Delete confirmation */}
+      <AlertDialog.Root open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialog.Content maxWidth="400px">
+          <AlertDialog.Title>Delete webhook</AlertDialog.Title>
+          <AlertDialog.Description size="2">
+            {webhook.url} will stop receiving events and its delivery log will be removed.
+          </AlertDialog.Description>
+          {error && (
+            <Text size="2" color="red" as="p" mt="2">{error}</Text>
+          )}
+          <Flex gap="3" mt="4" justify="end">
+            <AlertDialog.Cancel>
+              <Button className={buttonStyles.actionButtonSquareSecondary}>
+                Cancel
+              </Button>
+            </AlertDialog.Cancel>
+            <Button
+              className={buttonStyles.actionButtonSquareRed}
+              onClick={() => runAction(onDelete)}
+              disabled={busy}
+            >
+              {busy ? "Deleting..." : "Delete"}
+            </Button>
+          </Flex>
+        </AlertDialog.Content>
+      </AlertDialog.Root>
+    </>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Dialog, Flex, Text, Button, Badge, Table, Skeleton } from "@radix-ui/themes";
+import buttonStyles from "@/styles/buttons.module.css";
+import type { WebhookDeliverySummary } from "@/types/external-api";
+
+const STATUS_COLORS: Record<WebhookDeliverySummary["status"], "mint" | "orange" | "blue" | "red"> = {
+  succeeded: "mint",
+  pending: "orange",
+  sending: "blue",
+  failed: "red",
+};
+
+interface WebhookDeliveriesDialogProps {
+  /** Webhook whose log to show; null closes the dialog */
+  webhookId: string | null;
+  onClose: () => void;
+  fetchDeliveries: (webhookId: string) => Promise<WebhookDeliverySummary[]>;
+}
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "–";
+}
+
+/**
+ * Recent deliveries for a webhook with their latest attempt
+ */
+export function WebhookDeliveriesDialog({ webhookId, onClose, fetchDeliveries }: WebhookDeliveriesDialogProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDeliverySummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!webhookId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetchDeliveries(webhookId)
+      .then(data => {
+        if (!cancelled) setDeliveries(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load deliveries");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [webhookId, fetchDeliveries]);
+
+  return (
+    <Dialog.Root open={!!webhookId} onOpenChange={open => !open && onClose()}>
+      <Dialog.Content maxWidth="760px">
+        <Dialog.Title>Recent deliveries</Dialog.Title>
+
+        {loading ? (
+          <Skeleton style={{ width: "100%", height: "160px" }} />
+        ) : error ? (
+          <Text size="2" color="red">{error}</Text>
+        ) : deliveries.length === 0 ? (
+          <Text size="2" color="gray">No deliveries yet.</Text>
+        ) : (
+          <Table.Root size="1" variant="surface">
+            <Table.Header>
+              <Table.Row>
+                <Table.ColumnHeaderCell>Event</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell>Status</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell justify="end">Attempts</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell>Response</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell>Created</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell>Next retry</Table.ColumnHeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {deliveries.map(delivery => (
+                <Table.Row key={delivery.id}>
+                  <Table.RowHeaderCell>{delivery.event}</Table.RowHeaderCell>
+                  <Table.Cell>
+                    <Badge size="1" variant="soft" color={STATUS_COLORS[delivery.status]}>
+                      {delivery.status}
+                    </Badge>
+                  </Table.Cell>
+                  <Table.Cell justify="end">{delivery.attempts}</Table.Cell>
+                  <Table.Cell>
+                    <Text size="1" color={delivery.last_error ? "red" : "gray"} title={delivery.last_error ?? undefined}>
+                      {delivery.last_error
+                        ? delivery.last_error.slice(0, 60)
+                        : delivery.last_status_code ?? "–"}
+                    </Text>
+                  </Table.Cell>
+                  <Table.Cell>{formatDateTime(delivery.created_at)}</Table.Cell>
+                  <Table.Cell>{formatDateTime(delivery.next_attempt_at)}</Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table.Root>
+        )}
+
+        <Flex justify="end" mt="4">
+          <Dialog.Close>
+            <Button className={buttonStyles.actionButtonSquareSecondary}>Close</Button>
+          </Dialog.Close>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, Flex, Text, Button, TextField, TextArea, Select, Checkbox, Box } from "@radix-ui/themes";
+import buttonStyles from "@/styles/buttons.module.css";
+import { FormField } from "../shared/FormField";
+import { WEBHOOK_EVENTS, MAX_WEBHOOK_DESCRIPTION_LENGTH, isValidWebhookUrl } from "@/lib/webhook-events";
+import type { ApiKeySummary, CreateWebhookRequest, WebhookEndpointSummary, WebhookEvent } from "@/types/external-api";
+
+const ALL_TASKS = "all";
+
+interface WebhookFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Webhook being edited; omit to register a new one */
+  webhook?: WebhookEndpointSummary;
+  /** Active keys a new webhook can be scoped to */
+  apiKeys: ApiKeySummary[];
+  onSubmit: (values: CreateWebhookRequest) => Promise<void>;
+}
+
+/**
+ * Register a webhook, or edit the URL/description/events of an existing one.
+ * Mount with a `key` so the form resets each time it opens.
+ */
+export function WebhookFormDialog({ open, onOpenChange, webhook, apiKeys, onSubmit }: WebhookFormDialogProps) {
+  const isEdit = !!webhook;
+  const [url, setUrl] = useState(webhook?.url ?? "");
+  const [description, setDescription] = useState(webhook?.description ?? "");
+  const [events, setEvents] = useState<WebhookEvent[]>(
+    (webhook?.events as WebhookEvent[] | undefined) ?? WEBHOOK_EVENTS.map(e => e.id)
+  );
+  const [apiKeyId, setApiKeyId] = useState(ALL_TASKS);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleEvent = (eventId: WebhookEvent, checked: boolean) => {
+    setEvents(prev => (checked ? [...prev, eventId] : prev.filter(e => e !== eventId)));
+  };
+
+  const urlValid = isValidWebhookUrl(url.trim());
+  const canSubmit = urlValid && events.length > 0 && !submitting;
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit({
+        url: url.trim(),
+        description: description.trim() || undefined,
+        events,
+        apiKeyId: apiKeyId === ALL_TASKS ? null : apiKeyId,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Content maxWidth="480px">
+        <Dialog.Title>{isEdit ? "Edit webhook" : "Add webhook"}</Dialog.Title>
+
+        <Box mt="4">
+          <FormField
+            label="Endpoint URL"
+            required
+            helperText="Must use https and a public host"
+          >
+            <TextField.Root
+              value={url}
+              placeholder="https://example.com/webhooks/sportai"
+              onChange={e => setUrl(e.target.value)}
+              color={url && !urlValid ? "red" : undefined}
+            />
+          </FormField>
+
+          <FormField label="Description">
+            <TextArea
+              value={description}
+              placeholder="What receives these events?"
+              maxLength={MAX_WEBHOOK_DESCRIPTION_LENGTH}
+              onChange={e => setDescription(e.target.value)}
+              rows={2}
+            />
+          </FormField>
+
+          <FormField label="Events" required>
+            <Flex direction="column" gap="2">
+              {WEBHOOK_EVENTS.map(event => (
+                <Text as="label" size="2" key={event.id}>
+                  <Flex gap="2" align="start">
+                    <Checkbox
+                      checked={events.includes(event.id)}
+                      onCheckedChange={checked => toggleEvent(event.id, checked === true)}
+                    />
+                    <Box>
+                      <Text weight="medium">{event.label}</Text>
+                      <Text size="1" color="gray" as="div">{event.description}</Text>
+                    </Box>
+                  </Flex>
+                </Text>
+              ))}
+            </Flex>
+          </FormField>
+
+          {!isEdit && (
+            <FormField label="Tasks" helperText="Limit the webhook to tasks created with one API key">
+              <Select.Root value={apiKeyId} onValueChange={setApiKeyId}>
+                <Select.Trigger style={{ width: "100%" }} />
+                <Select.Content>
+                  <Select.Item value={ALL_TASKS}>All my tasks</Select.Item>
+                  {apiKeys.map(apiKey => (
+                    <Select.Item key={apiKey.id} value={apiKey.id}>
+                      {apiKey.name} ({apiKey.key_prefix}…)
+                    </Select.Item>
+                  ))}
+                </Select.Content>
+              </Select.Root>
+            </FormField>
+          )}
+        </Box>
+
+        {error && (
+          <Text size="2" color="red" as="p">{error}</Text>
+        )}
+
+        <Flex gap="3" mt="4" justify="end">
+          <Dialog.Close>
+            <Button className={buttonStyles.actionButtonSquareSecondary}>Cancel</Button>
+          </Dialog.Close>
+          <Button className={buttonStyles.actionButtonSquare} onClick={handleSubmit} disabled={!canSubmit}>
+            {submitting ? "Saving..." : isEdit ? "Save" : "Add webhook"}
+          </Button>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+}
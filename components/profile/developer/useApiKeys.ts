@@ -0,0 +1,122 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useAuthHeaders } from "@/hooks/useAuthHeaders";
+import { logger } from "@/lib/logger";
+import type {
+  ApiKeySummary,
+  CreateApiKeyRequest,
+  UpdateApiKeyRequest,
+  IssuedApiKeyResponse,
+} from "@/types/external-api";
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const body = await response.json().catch(() => null);
+  return body?.error || fallback;
+}
+
+/**
+ * Fetch and manage the current user's external API keys via /api/developer/keys
+ */
+export function useApiKeys() {
+  const { getAuthHeaders, getAuthHeadersWithJson, isAuthenticated } = useAuthHeaders();
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchKeys = useCallback(async () => {
+    if (!isAuthenticated) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/developer/keys", { headers: getAuthHeaders() });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to load API keys"));
+      }
+      const data = await response.json();
+      setKeys(data.keys || []);
+    } catch (err) {
+      logger.error("[useApiKeys] Error fetching keys:", err);
+      setError(err instanceof Error ? err.message : "Failed to load API keys");
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, getAuthHeaders]);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  /**
+   * Create a key. Returns the raw key, which is only available from this call.
+   */
+  const createKey = useCallback(async (request: CreateApiKeyRequest): Promise<string> => {
+    const response = await fetch("/api/developer/keys", {
+      method: "POST",
+      headers: getAuthHeadersWithJson(),
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, "Failed to create API key"));
+    }
+    const data: IssuedApiKeyResponse = await response.json();
+    setKeys(prev => [data.key, ...prev]);
+    return data.rawKey;
+  }, [getAuthHeadersWithJson]);
+
+  const updateKey = useCallback(async (keyId: string, updates: UpdateApiKeyRequest) => {
+    const response = await fetch(`/api/developer/keys/${keyId}`, {
+      method: "PATCH",
+      headers: getAuthHeadersWithJson(),
+      body: JSON.stringify(updates),
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, "Failed to update API key"));
+    }
+    const data: { key: ApiKeySummary } = await response.json();
+    setKeys(prev => prev.map(k => (k.id === keyId ? data.key : k)));
+  }, [getAuthHeadersWithJson]);
+
+  const revokeKey = useCallback(async (keyId: string) => {
+    const response = await fetch(`/api/developer/keys/${keyId}`, {
+      method: "DELETE",
+      headers: getAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, "Failed to revoke API key"));
+    }
+    setKeys(prev => prev.map(k => (k.id === keyId ? { ...k, is_active: false } : k)));
+  }, [getAuthHeaders]);
+
+  /**
+   * Rotate a key. Returns the new raw key; the old key stops working immediately.
+   */
+  const rotateKey = useCallback(async (keyId: string): Promise<string> => {
+    const response = await fetch(`/api/developer/keys/${keyId}/rotate`, {
+      method: "POST",
+      headers: getAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, "Failed to rotate API key"));
+    }
+    const data: IssuedApiKeyResponse = await response.json();
+    setKeys(prev => [data.key, ...prev.map(k => (k.id === keyId ? { ...k, is_active: false } : k))]);
+    return data.rawKey;
+  }, [getAuthHeaders]);
+
+  return {
+    keys,
+    loading,
+    error,
+    refresh: fetchKeys,
+    createKey,
+    updateKey,
+    revokeKey,
+    rotateKey,
+  };
+}
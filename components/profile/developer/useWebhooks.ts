@@ -0,0 +1,132 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useAuthHeaders } from "@/hooks/useAuthHeaders";
+import { logger } from "@/lib/logger";
+import type {
+  WebhookEndpointSummary,
+  WebhookDeliverySummary,
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  CreatedWebhookResponse,
+} from "@/types/external-api";
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const body = await response.json().catch(() => null);
+  return body?.error || fallback;
+}
+
+/**
+ * Fetch and manage the current user's task webhooks via /api/webhooks
+ */
+export function useWebhooks() {
+  const { getAuthHeaders, getAuthHeadersWithJson, isAuthenticated } = useAuthHeaders();
+  const [webhooks, setWebhooks] = useState<WebhookEndpointSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWebhooks = useCallback(async () => {
+    if (!isAuthenticated) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/webhooks", { headers: getAuthHeaders() });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to load webhooks"));
+      }
+      const data = await response.json();
+      setWebhooks(data.webhooks || []);
+    } catch (err) {
+      logger.error("[useWebhooks] Error fetching webhooks:", err);
+      setError(err instanceof Error ? err.message : "Failed to load webhooks");
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, getAuthHeaders]);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  /**
+   * Register a webhook. Returns the signing secret, which is only available from this call.
+   */
+  const createWebhook = useCallback(async (request: CreateWebhookRequest): Promise<string> => {
+    const response = await fetch("/api/webhooks", {
+      method: "POST",
+      headers: getAuthHeadersWithJson(),
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, "Failed to create webhook"));
+    }
+    const data: CreatedWebhookResponse = await response.json();
+    setWebhooks(prev => [data.webhook, ...prev]);
+    return data.secret;
+  }, [getAuthHeadersWithJson]);
+
+  const updateWebhook = useCallback(async (webhookId: string, updates: UpdateWebhookRequest) => {
+    const response = await fetch(`/api/webhooks/${webhookId}`, {
+      method: "PATCH",
+      headers: getAuthHeadersWithJson(),
+      body: JSON.stringify(updates),
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, "Failed to update webhook"));
+    }
+    const data: { webhook: WebhookEndpointSummary } = await response.json();
+    setWebhooks(prev => prev.map(w => (w.id === webhookId ? data.webhook : w)));
+  }, [getAuthHeadersWithJson]);
+
+  const deleteWebhook = useCallback(async (webhookId: string) => {
+    const response = await fetch(`/api/webhooks/${webhookId}`, {
+      method: "DELETE",
+      headers: getAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, "Failed to delete webhook"));
+    }
+    setWebhooks(prev => prev.filter(w => w.id !== webhookId));
+  }, [getAuthHeaders]);
+
+  /**
+   * Send a signed test event and return the logged delivery
+   */
+  const sendTest = useCallback(async (webhookId: string): Promise<WebhookDeliverySummary> => {
+    const response = await fetch(`/api/webhooks/${webhookId}/test`, {
+      method: "POST",
+      headers: getAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, "Failed to send test event"));
+    }
+    const data: { delivery: WebhookDeliverySummary } = await response.json();
+    return data.delivery;
+  }, [getAuthHeaders]);
+
+  const fetchDeliveries = useCallback(async (webhookId: string): Promise<WebhookDeliverySummary[]> => {
+    const response = await fetch(`/api/webhooks/${webhookId}/deliveries`, { headers: getAuthHeaders() });
+    if (!response.ok) {
+      throw new Error(await readError(response, "Failed to load deliveries"));
+    }
+    const data = await response.json();
+    return data.deliveries || [];
+  }, [getAuthHeaders]);
+
+  return {
+    webhooks,
+    loading,
+    error,
+    refresh: fetchWebhooks,
+    createWebhook,
+    updateWebhook,
+    deleteWebhook,
+    sendTest,
+    fetchDeliveries,
+  };
+}
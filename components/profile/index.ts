@@ -5,6 +5,7 @@ export { ProfilePage } from "./ProfilePage";
 export { PlayerTab } from "./tabs/PlayerTab";
 export { CoachTab } from "./tabs/CoachTab";
 export { BusinessTab } from "./tabs/BusinessTab";
+export { DeveloperTab } from "./tabs/DeveloperTab";
 
 // Sports
 export { SportCard } from "./sports/SportCard";
@@ -13,8 +14,17 @@ export { SportForm } from "./sports/SportForm";
 // Equipment
 export { EquipmentList } from "./equipment/EquipmentList";
 
+// Developer
+export { ApiKeyCard } from "./developer/ApiKeyCard";
+export { ApiKeyFormDialog } from "./developer/ApiKeyFormDialog";
+export { RawKeyDialog } from "./developer/RawKeyDialog";
+export { useApiKeys } from "./developer/useApiKeys";
+export { WebhookCard } from "./developer/WebhookCard";
+export { WebhookFormDialog } from "./developer/WebhookFormDialog";
+export { WebhookDeliveriesDialog } from "./developer/WebhookDeliveriesDialog";
+export { useWebhooks } from "./developer/useWebhooks";
+
 // Shared
 export { CollapsibleSection } from "./shared/CollapsibleSection";
 export { FormField } from "./shared/FormField";
 export { HelperText } from "./shared/HelperText";
-
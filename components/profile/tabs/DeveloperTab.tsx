@@ -0,0 +1,240 @@
+"use client";
+
+import { useState } from "react";
+import { Box, Flex, Heading, Text, Button, Separator, Skeleton, Code } from "@radix-ui/themes";
+import { PlusIcon } from "@radix-ui/react-icons";
+import buttonStyles from "@/styles/buttons.module.css";
+import { useApiKeys } from "../developer/useApiKeys";
+import { ApiKeyCard } from "../developer/ApiKeyCard";
+import { ApiKeyFormDialog } from "../developer/ApiKeyFormDialog";
+import { RawKeyDialog } from "../developer/RawKeyDialog";
+import { useWebhooks } from "../developer/useWebhooks";
+import { WebhookCard } from "../developer/WebhookCard";
+import { WebhookFormDialog } from "../developer/WebhookFormDialog";
+import { WebhookDeliveriesDialog } from "../developer/WebhookDeliveriesDialog";
+import { MAX_API_KEYS_PER_USER } from "@/lib/api-key-scopes";
+import { MAX_WEBHOOKS_PER_USER } from "@/lib/webhook-events";
+import type { ApiKeySummary, WebhookEndpointSummary } from "@/types/external-api";
+
+const WEBHOOK_SECRET_HINT = (
+  <>
+    Verify the <Code size="1">X-SportAI-Signature</Code> header: it is{" "}
+    <Code size="1">t=&lt;timestamp&gt;,v1=&lt;signature&gt;</Code>, where the signature is the hex
+    HMAC-SHA256 of <Code size="1">&lt;timestamp&gt;.&lt;raw body&gt;</Code> using this secret.
+  </>
+);
+
+export function DeveloperTab() {
+  const { keys, loading, error, createKey, updateKey, revokeKey, rotateKey } = useApiKeys();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingKey, setEditingKey] = useState<ApiKeySummary | undefined>(undefined);
+  const [formKey, setFormKey] = useState(0);
+  const [rawKey, setRawKey] = useState<string | null>(null);
+
+  const {
+    webhooks,
+    loading: webhooksLoading,
+    error: webhooksError,
+    createWebhook,
+    updateWebhook,
+    deleteWebhook,
+    sendTest,
+    fetchDeliveries,
+  } = useWebhooks();
+  const [webhookFormOpen, setWebhookFormOpen] = useState(false);
+  const [editingWebhook, setEditingWebhook] = useState<WebhookEndpointSummary | undefined>(undefined);
+  const [webhookFormKey, setWebhookFormKey] = useState(0);
+  const [webhookSecret, setWebhookSecret] = useState<string | null>(null);
+  const [deliveriesWebhookId, setDeliveriesWebhookId] = useState<string | null>(null);
+
+  const activeKeys = keys.filter(k => k.is_active);
+  const revokedKeys = keys.filter(k => !k.is_active);
+  const atLimit = activeKeys.length >= MAX_API_KEYS_PER_USER;
+  const atWebhookLimit = webhooks.length >= MAX_WEBHOOKS_PER_USER;
+
+  const openForm = (apiKey?: ApiKeySummary) => {
+    setEditingKey(apiKey);
+    setFormKey(k => k + 1);
+    setFormOpen(true);
+  };
+
+  const openWebhookForm = (webhook?: WebhookEndpointSummary) => {
+    setEditingWebhook(webhook);
+    setWebhookFormKey(k => k + 1);
+    setWebhookFormOpen(true);
+  };
+
+  return (
+    <Flex direction="column" gap="6">
+      {/* Header */}
+      <Box>
+        <Heading size="5" mb="2">Developer API</Heading>
+        <Text size="2" color="gray">
+          Create API keys to call SportAI from your own apps. Each key is limited to the
+          permissions you grant it and has its own monthly request quota.
+        </Text>
+      </Box>
+
+      <Separator size="4" />
+
+      <Box>
+        <Flex align="center" justify="between" mb="4">
+          <Heading size="3">API Keys</Heading>
+          <Button
+            className={buttonStyles.actionButtonSquare}
+            onClick={() => openForm()}
+            disabled={loading || atLimit}
+          >
+            <PlusIcon width={16} height={16} />
+            Create key
+          </Button>
+        </Flex>
+
+        {atLimit && (
+          <Text size="2" color="gray" as="p" mb="3">
+            You have reached the limit of {MAX_API_KEYS_PER_USER} active keys. Revoke one to create another.
+          </Text>
+        )}
+
+        {loading ? (
+          <Flex direction="column" gap="3">
+            {[1, 2].map(i => (
+              <Skeleton key={i} style={{ width: "100%", height: "140px" }} />
+            ))}
+          </Flex>
+        ) : error ? (
+          <Text size="2" color="red">{error}</Text>
+        ) : activeKeys.length === 0 ? (
+          <Text size="2" color="gray">You don&apos;t have any active API keys yet.</Text>
+        ) : (
+          <Flex direction="column" gap="3">
+            {activeKeys.map(apiKey => (
+              <ApiKeyCard
+                key={apiKey.id}
+                apiKey={apiKey}
+                onEdit={() => openForm(apiKey)}
+                onRotate={async () => setRawKey(await rotateKey(apiKey.id))}
+                onRevoke={() => revokeKey(apiKey.id)}
+              />
+            ))}
+          </Flex>
+        )}
+      </Box>
+
+      {revokedKeys.length > 0 && (
+        <>
+          <Separator size="4" />
+          <Box>
+            <Heading size="3" mb="4">Revoked Keys</Heading>
+            <Flex direction="column" gap="3">
+              {revokedKeys.map(apiKey => (
+                <ApiKeyCard
+                  key={apiKey.id}
+                  apiKey={apiKey}
+                  onEdit={() => {}}
+                  onRotate={async () => {}}
+                  onRevoke={async () => {}}
+                />
+              ))}
+            </Flex>
+          </Box>
+        </>
+      )}
+
+      <Separator size="4" />
+
+      <Box>
+        <Flex align="center" justify="between" mb="2">
+          <Heading size="3">Webhooks</Heading>
+          <Button
+            className={buttonStyles.actionButtonSquare}
+            onClick={() => openWebhookForm()}
+            disabled={webhooksLoading || atWebhookLimit}
+          >
+            <PlusIcon width={16} height={16} />
+            Add webhook
+          </Button>
+        </Flex>
+        <Text size="2" color="gray" as="p" mb="4">
+          Get a signed POST when a statistics task completes or fails, instead of polling.
+          Failed deliveries are retried with backoff for several hours.
+        </Text>
+
+        {webhooksLoading ? (
+          <Skeleton style={{ width: "100%", height: "120px" }} />
+        ) : webhooksError ? (
+          <Text size="2" color="red">{webhooksError}</Text>
+        ) : webhooks.length === 0 ? (
+          <Text size="2" color="gray">You don&apos;t have any webhooks yet.</Text>
+        ) : (
+          <Flex direction="column" gap="3">
+            {webhooks.map(webhook => (
+              <WebhookCard
+                key={webhook.id}
+                webhook={webhook}
+                apiKeyName={keys.find(k => k.id === webhook.api_key_id)?.name}
+                onEdit={() => openWebhookForm(webhook)}
+                onToggleActive={active => updateWebhook(webhook.id, { is_active: active })}
+                onSendTest={() => sendTest(webhook.id)}
+                onShowDeliveries={() => setDeliveriesWebhookId(webhook.id)}
+                onDelete={() => deleteWebhook(webhook.id)}
+              />
+            ))}
+          </Flex>
+        )}
+      </Box>
+
+      <ApiKeyFormDialog
+        key={formKey}
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        apiKey={editingKey}
+        onSubmit={async values => {
+          if (editingKey) {
+            await updateKey(editingKey.id, {
+              name: values.name,
+              description: values.description ?? null,
+              permissions: values.permissions,
+            });
+          } else {
+            setRawKey(await createKey(values));
+          }
+        }}
+      />
+
+      <RawKeyDialog rawKey={rawKey} onClose={() => setRawKey(null)} />
+
+      <WebhookFormDialog
+        key={`webhook-${webhookFormKey}`}
+        open={webhookFormOpen}
+        onOpenChange={setWebhookFormOpen}
+        webhook={editingWebhook}
+        apiKeys={activeKeys}
+        onSubmit={async values => {
+          if (editingWebhook) {
+            await updateWebhook(editingWebhook.id, {
+              url: values.url,
+              description: values.description ?? null,
+              events: values.events,
+            });
+          } else {
+            setWebhookSecret(await createWebhook(values));
+          }
+        }}
+      />
+
+      <RawKeyDialog
+        rawKey={webhookSecret}
+        onClose={() => setWebhookSecret(null)}
+        title="Your webhook signing secret"
+        hint={WEBHOOK_SECRET_HINT}
+      />
+
+      <WebhookDeliveriesDialog
+        webhookId={deliveriesWebhookId}
+        onClose={() => setDeliveriesWebhookId(null)}
+        fetchDeliveries={fetchDeliveries}
+      />
+    </Flex>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Box, Flex, Text, Heading, Button, Card, Skeleton, Grid } from "@radix-ui/themes";
+import { ArrowLeftIcon, BarChartIcon } from "@radix-ui/react-icons";
+import { useAuth } from "@/components/auth/AuthProvider";
+import {
+  averageSeasonMatches,
+  filterSeasonMatches,
+  getSeasonOpponents,
+  type SeasonFilter,
+} from "@/utils/player-season";
+import type { PlayerProfileAttributes } from "@/types/player-profile";
+import { usePlayerSeason } from "./usePlayerSeason";
+import { SeasonFilters } from "./SeasonFilters";
+import { SeasonBaselineCards } from "./SeasonBaselineCards";
+import { SeasonTrendChart } from "./SeasonTrendChart";
+import { SeasonSwingMixChart } from "./SeasonSwingMixChart";
+import { SeasonAttributesRadar } from "./SeasonAttributesRadar";
+import { METRIC_CONFIG, ATTRIBUTE_COLORS } from "./constants";
+
+interface PlayerSeasonPageProps {
+  identityId: string;
+}
+
+const EMPTY_FILTER: SeasonFilter = { from: null, to: null, opponentId: null };
+
+function formatMatchDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+/**
+ * Season dashboard of one player identity: trends across their matches and
+ * the selected matches against their own baseline
+ */
+export function PlayerSeasonPage({ identityId }: PlayerSeasonPageProps) {
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const { season, loading, error } = usePlayerSeason(identityId);
+  const [filter, setFilter] = useState<SeasonFilter>(EMPTY_FILTER);
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push("/");
+    }
+  }, [authLoading, user, router]);
+
+  const allMatches = useMemo(() => season?.matches ?? [], [season]);
+  const matches = useMemo(() => filterSeasonMatches(allMatches, filter), [allMatches, filter]);
+  const baseline = useMemo(() => averageSeasonMatches(allMatches), [allMatches]);
+  const selection = useMemo(() => averageSeasonMatches(matches), [matches]);
+  const opponents = useMemo(() => getSeasonOpponents(allMatches), [allMatches]);
+  const labels = useMemo(() => matches.map(m => formatMatchDate(m.date)), [matches]);
+  const zoneColors = useMemo(
+    () => Object.fromEntries(allMatches.flatMap(m => m.zones.map(z => [z.zoneName, z.color]))),
+    [allMatches]
+  );
+
+  const isWholeSeason = matches.length === allMatches.length;
+
+  return (
+    <Box style={{ height: "100vh", overflow: "auto", backgroundColor: "var(--gray-1)" }}>
+      <Box style={{ maxWidth: "1100px", margin: "0 auto", padding: "24px", paddingBottom: "80px" }}>
+        <Flex justify="between" align="center" mb="4">
+          <Button variant="ghost" onClick={() => router.push("/library")} style={{ gap: "8px" }}>
+            <ArrowLeftIcon width={16} height={16} />
+            <Text>Back to Library</Text>
+          </Button>
+        </Flex>
+
+        {authLoading || loading ? (
+          <Flex direction="column" gap="4">
+            <Skeleton style={{ width: "240px", height: "32px" }} />
+            <Skeleton style={{ width: "100%", height: "96px" }} />
+            <Skeleton style={{ width: "100%", height: "240px" }} />
+          </Flex>
+        ) : error || !season ? (
+          <Flex direction="column" align="center" gap="4" py="9">
+            <Text color="red">{error || "Failed to load season"}</Text>
+            <Button variant="soft" onClick={() => router.push("/library")}>
+              Return to Library
+            </Button>
+          </Flex>
+        ) : (
+          <Flex direction="column" gap="4">
+            <Flex justify="between" align="end" gap="4" wrap="wrap">
+              <Box>
+                <Heading size="6">{season.identity.name}</Heading>
+                <Text size="2" color="gray">
+                  {isWholeSeason
+                    ? `${allMatches.length} ${allMatches.length === 1 ? "match" : "matches"}`
+                    : `${matches.length} of ${allMatches.length} matches`}
+                  {season.identity.sport && ` · ${season.identity.sport.charAt(0).toUpperCase()}${season.identity.sport.slice(1)}`}
+                </Text>
+              </Box>
+              {allMatches.length > 0 && (
+                <SeasonFilters filter={filter} onChange={setFilter} opponents={opponents} />
+              )}
+            </Flex>
+
+            {matches.length === 0 ? (
+              <Card style={{ border: "1px solid var(--gray-5)" }}>
+                <Flex direction="column" align="center" gap="3" p="6">
+                  <BarChartIcon width={32} height={32} style={{ color: "var(--gray-8)" }} />
+                  <Text size="3" color="gray">
+                    {allMatches.length === 0 ? "No analyzed matches yet" : "No matches with these filters"}
+                  </Text>
+                  <Text size="2" color="gray" align="center" style={{ maxWidth: 400 }}>
+                    {allMatches.length === 0
+                      ? "Assign this player in the Players tab of a completed match to start their season."
+                      : "Widen the date range or pick another opponent."}
+                  </Text>
+                </Flex>
+              </Card>
+            ) : (
+              <>
+                <SeasonBaselineCards selection={selection} baseline={baseline} isWholeSeason={isWholeSeason} />
+
+                <Grid columns={{ initial: "1", md: "2" }} gap="4">
+                  <SeasonTrendChart
+                    title="Ball speed"
+                    unit="km/h"
+                    labels={labels}
+                    series={[
+                      {
+                        id: METRIC_CONFIG.avgBallSpeed.label,
+                        color: METRIC_CONFIG.avgBallSpeed.color,
+                        values: matches.map(m => m.avgBallSpeed || null),
+                        baseline: baseline.metrics.avgBallSpeed,
+                      },
+                      {
+                        id: METRIC_CONFIG.maxBallSpeed.label,
+                        color: METRIC_CONFIG.maxBallSpeed.color,
+                        values: matches.map(m => m.maxBallSpeed || null),
+                        baseline: baseline.metrics.maxBallSpeed,
+                      },
+                    ]}
+                  />
+                  <SeasonTrendChart
+                    title="Distance covered"
+                    unit="m"
+                    decimals={0}
+                    labels={labels}
+                    series={[{
+                      id: METRIC_CONFIG.distance.label,
+                      color: METRIC_CONFIG.distance.color,
+                      values: matches.map(m => m.distance),
+                      baseline: baseline.metrics.distance,
+                    }]}
+                  />
+                  <SeasonSwingMixChart matches={matches} labels={labels} baselineMix={baseline.swingMix} />
+                  <SeasonTrendChart
+                    title="Court time by zone"
+                    unit="%"
+                    decimals={0}
+                    yMax={100}
+                    labels={labels}
+                    series={Object.keys(baseline.zones).map(zone => ({
+                      id: zone,
+                      color: zoneColors[zone],
+                      values: matches.map(m => {
+                        const share = m.zones.find(z => z.zoneName === zone)?.share;
+                        return share === undefined ? null : share * 100;
+                      }),
+                    }))}
+                  />
+                  {baseline.attributes && (
+                    <>
+                      <SeasonTrendChart
+                        title="AI profile attributes"
+                        decimals={0}
+                        yMax={100}
+                        labels={labels}
+                        series={(Object.keys(ATTRIBUTE_COLORS) as (keyof PlayerProfileAttributes)[]).map(key => ({
+                          id: key.charAt(0).toUpperCase() + key.slice(1),
+                          color: ATTRIBUTE_COLORS[key],
+                          values: matches.map(m => m.attributes?.[key] ?? null),
+                        }))}
+                      />
+                      <SeasonAttributesRadar selection={selection.attributes} baseline={baseline.attributes} />
+                    </>
+                  )}
+                </Grid>
+              </>
+            )}
+          </Flex>
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { Box, Flex, Text, Card, Heading } from "@radix-ui/themes";
+import { ResponsiveRadar } from "@nivo/radar";
+import { CHART_THEME, ATTRIBUTE_CONFIG } from "@/components/tasks/viewer/components/tabs/ProfilesTab/constants";
+import type { PlayerProfileAttributes } from "@/types/player-profile";
+import { SELECTION_COLOR, BASELINE_COLOR } from "./constants";
+
+interface SeasonAttributesRadarProps {
+  selection: PlayerProfileAttributes | null;
+  baseline: PlayerProfileAttributes;
+}
+
+const SELECTION_KEY = "Selected matches";
+const BASELINE_KEY = "Season baseline";
+
+/**
+ * AI profile attributes of the selected matches over the season baseline
+ */
+export function SeasonAttributesRadar({ selection, baseline }: SeasonAttributesRadarProps) {
+  const attributeKeys = Object.keys(baseline) as (keyof PlayerProfileAttributes)[];
+  const keys = selection ? [BASELINE_KEY, SELECTION_KEY] : [BASELINE_KEY];
+
+  const data = attributeKeys.map(key => ({
+    attribute: ATTRIBUTE_CONFIG[key]?.label ?? key,
+    [BASELINE_KEY]: Math.round(baseline[key]),
+    ...(selection ? { [SELECTION_KEY]: Math.round(selection[key]) } : {}),
+  }));
+
+  return (
+    <Card style={{ border: "1px solid var(--gray-5)" }}>
+      <Flex direction="column" gap="2" p="2">
+        <Heading size="3" weight="medium">Profile vs baseline</Heading>
+        <Box style={{ height: 280 }}>
+          <ResponsiveRadar
+            data={data}
+            keys={keys}
+            indexBy="attribute"
+            maxValue={100}
+            margin={{ top: 30, right: 60, bottom: 30, left: 60 }}
+            curve="linearClosed"
+            borderWidth={2}
+            gridLevels={5}
+            gridShape="circular"
+            gridLabelOffset={16}
+            dotSize={6}
+            colors={selection ? [BASELINE_COLOR, SELECTION_COLOR] : [BASELINE_COLOR]}
+            fillOpacity={0.15}
+            theme={CHART_THEME}
+          />
+        </Box>
+        <Flex gap="3" justify="center">
+          {keys.map((key, idx) => (
+            <Flex key={key} align="center" gap="1">
+              <Box style={{ width: 8, height: 8, borderRadius: "50%", backgroundColor: idx === 0 ? BASELINE_COLOR : SELECTION_COLOR }} />
+              <Text size="1" color="gray">{key}</Text>
+            </Flex>
+          ))}
+        </Flex>
+        {!selection && (
+          <Text size="1" color="gray" align="center">
+            No AI profiles in the selected matches
+          </Text>
+        )}
+      </Flex>
+    </Card>
+  );
+}
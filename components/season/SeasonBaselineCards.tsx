@@ -0,0 +1,86 @@
+"use client";
+
+import { Flex, Text, Card, Badge } from "@radix-ui/themes";
+import { ArrowUpIcon, ArrowDownIcon } from "@radix-ui/react-icons";
+import { SEASON_METRICS, getBaselineDelta, type SeasonAverages } from "@/utils/player-season";
+import { METRIC_CONFIG, DELTA_NEUTRAL } from "./constants";
+
+interface SeasonBaselineCardsProps {
+  selection: SeasonAverages;
+  baseline: SeasonAverages;
+  /** Selection is the whole season, so there's nothing to compare */
+  isWholeSeason: boolean;
+}
+
+function DeltaBadge({ delta }: { delta: number | null }) {
+  if (delta === null) return null;
+  if (Math.abs(delta) < DELTA_NEUTRAL) {
+    return <Badge color="gray" variant="soft">≈ baseline</Badge>;
+  }
+  const up = delta > 0;
+  return (
+    <Badge color={up ? "green" : "red"} variant="soft">
+      {up ? <ArrowUpIcon /> : <ArrowDownIcon />}
+      {Math.round(Math.abs(delta) * 100)}%
+    </Badge>
+  );
+}
+
+/**
+ * Average of the selected matches next to the player's season baseline
+ */
+export function SeasonBaselineCards({ selection, baseline, isWholeSeason }: SeasonBaselineCardsProps) {
+  const zoneNames = Object.keys(baseline.zones);
+
+  return (
+    <Flex gap="3" wrap="wrap">
+      {SEASON_METRICS.map(metric => {
+        const config = METRIC_CONFIG[metric];
+        const value = selection.metrics[metric];
+        const base = baseline.metrics[metric];
+        return (
+          <Card key={metric} style={{ border: "1px solid var(--gray-5)", flex: "1 1 160px" }}>
+            <Flex direction="column" gap="1" p="1">
+              <Text size="1" color="gray">{config.label}</Text>
+              <Flex align="center" gap="2">
+                <Text size="5" weight="bold">
+                  {value.toFixed(config.decimals)}
+                  {config.unit && <Text size="2" color="gray"> {config.unit}</Text>}
+                </Text>
+                {!isWholeSeason && <DeltaBadge delta={getBaselineDelta(value, base)} />}
+              </Flex>
+              <Text size="1" color="gray">
+                Baseline {base.toFixed(config.decimals)}{config.unit && ` ${config.unit}`}
+              </Text>
+            </Flex>
+          </Card>
+        );
+      })}
+
+      {zoneNames.length > 0 && (
+        <Card style={{ border: "1px solid var(--gray-5)", flex: "1 1 240px" }}>
+          <Flex direction="column" gap="1" p="1">
+            <Text size="1" color="gray">Court time</Text>
+            {zoneNames.map(zone => {
+              const value = selection.zones[zone] || 0;
+              const points = (value - baseline.zones[zone]) * 100;
+              return (
+                <Flex key={zone} justify="between" gap="3">
+                  <Text size="2">{zone}</Text>
+                  <Text size="2" weight="medium">
+                    {Math.round(value * 100)}%
+                    {!isWholeSeason && Math.abs(points) >= 1 && (
+                      <Text size="1" color={points > 0 ? "green" : "red"}>
+                        {" "}{points > 0 ? "+" : "−"}{Math.round(Math.abs(points))} pts
+                      </Text>
+                    )}
+                  </Text>
+                </Flex>
+              );
+            })}
+          </Flex>
+        </Card>
+      )}
+    </Flex>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { Flex, Text, TextField, Button } from "@radix-ui/themes";
+import { FilterSelect } from "@/components/ui";
+import type { SeasonFilter } from "@/utils/player-season";
+
+interface SeasonFiltersProps {
+  filter: SeasonFilter;
+  onChange: (filter: SeasonFilter) => void;
+  opponents: { identityId: string; name: string; matchCount: number }[];
+}
+
+const ANY_OPPONENT = "any";
+
+export function SeasonFilters({ filter, onChange, opponents }: SeasonFiltersProps) {
+  const isFiltered = filter.from !== null || filter.to !== null || filter.opponentId !== null;
+
+  return (
+    <Flex gap="3" align="end" wrap="wrap">
+      <Flex direction="column" gap="1">
+        <Text size="1" color="gray">From</Text>
+        <TextField.Root
+          type="date"
+          size="2"
+          value={filter.from ?? ""}
+          onChange={e => onChange({ ...filter, from: e.target.value || null })}
+        />
+      </Flex>
+      <Flex direction="column" gap="1">
+        <Text size="1" color="gray">To</Text>
+        <TextField.Root
+          type="date"
+          size="2"
+          value={filter.to ?? ""}
+          onChange={e => onChange({ ...filter, to: e.target.value || null })}
+        />
+      </Flex>
+      <FilterSelect
+        value={filter.opponentId ?? ANY_OPPONENT}
+        onValueChange={value => onChange({ ...filter, opponentId: value === ANY_OPPONENT ? null : value })}
+        options={[
+          { value: ANY_OPPONENT, label: "Any opponent" },
+          ...opponents.map(o => ({ value: o.identityId, label: `vs ${o.name} (${o.matchCount})` })),
+        ]}
+        icon="filter"
+      />
+      {isFiltered && (
+        <Button
+          size="2"
+          variant="ghost"
+          color="gray"
+          onClick={() => onChange({ from: null, to: null, opponentId: null })}
+        >
+          Clear
+        </Button>
+      )}
+    </Flex>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useMemo } from "react";
+import { Box, Flex, Text, Card, Heading } from "@radix-ui/themes";
+import { ResponsiveBar } from "@nivo/bar";
+import { CHART_THEME, getSwingTypeColor } from "@/components/tasks/viewer/constants";
+import { formatSwingType } from "@/components/tasks/viewer/utils";
+import type { SeasonMatch } from "@/utils/player-season";
+
+interface SeasonSwingMixChartProps {
+  matches: SeasonMatch[];
+  labels: string[];
+  /** Season-wide share per swing type, for the legend */
+  baselineMix: Record<string, number>;
+}
+
+// Swing types below this season share are grouped as "Other"
+const MIN_TYPE_SHARE = 0.03;
+const OTHER = "other";
+
+/**
+ * Stacked share of each swing type per match
+ */
+export function SeasonSwingMixChart({ matches, labels, baselineMix }: SeasonSwingMixChartProps) {
+  const types = useMemo(
+    () => Object.entries(baselineMix)
+      .filter(([type, share]) => type !== OTHER && share >= MIN_TYPE_SHARE)
+      .sort((a, b) => b[1] - a[1])
+      .map(([type]) => type),
+    [baselineMix]
+  );
+  const keys = [...types, OTHER];
+
+  const data = useMemo(
+    () => matches.map((match, idx) => {
+      const row: Record<string, string | number> = { match: labels[idx] ?? String(idx + 1) };
+      let other = 0;
+      for (const [type, share] of Object.entries(match.swingMix)) {
+        if (types.includes(type)) row[type] = Math.round(share * 100);
+        else other += share;
+      }
+      row[OTHER] = Math.round(other * 100);
+      return row;
+    }),
+    [matches, labels, types]
+  );
+
+  const colorOf = (type: string) => (type === OTHER ? "#6B7280" : getSwingTypeColor(type, types.indexOf(type)));
+
+  return (
+    <Card style={{ border: "1px solid var(--gray-5)" }}>
+      <Flex direction="column" gap="2" p="2">
+        <Flex justify="between" align="center">
+          <Heading size="3" weight="medium">Swing mix</Heading>
+          <Text size="1" color="gray">% of shots</Text>
+        </Flex>
+        <Box style={{ height: 200 }}>
+          <ResponsiveBar
+            data={data}
+            keys={keys}
+            indexBy="match"
+            theme={CHART_THEME}
+            margin={{ top: 10, right: 16, bottom: 28, left: 40 }}
+            padding={0.25}
+            valueScale={{ type: "linear", min: 0, max: 100 }}
+            colors={({ id }) => colorOf(String(id))}
+            enableLabel={false}
+            axisLeft={{ tickValues: 4, tickSize: 0, tickPadding: 6 }}
+            axisBottom={{ tickSize: 0, tickPadding: 6 }}
+            tooltip={({ id, value, indexValue }) => (
+              <Box style={{ ...CHART_THEME.tooltip.container, padding: "6px 10px" }}>
+                <Text size="1" as="p">
+                  {indexValue} · {id === OTHER ? "Other" : formatSwingType(String(id))}: {value}%
+                </Text>
+              </Box>
+            )}
+          />
+        </Box>
+        <Flex gap="3" wrap="wrap" justify="center">
+          {keys.map(type => (
+            <Flex key={type} align="center" gap="1">
+              <Box style={{ width: 8, height: 8, borderRadius: 2, backgroundColor: colorOf(type) }} />
+              <Text size="1" color="gray">{type === OTHER ? "Other" : formatSwingType(type)}</Text>
+            </Flex>
+          ))}
+        </Flex>
+      </Flex>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { Box, Flex, Text, Card, Heading } from "@radix-ui/themes";
+import { ResponsiveLine } from "@nivo/line";
+import { CHART_THEME } from "@/components/tasks/viewer/constants";
+import { BASELINE_COLOR } from "./constants";
+
+export interface SeasonTrendSeries {
+  id: string;
+  color: string;
+  /** One point per match, in match order; null skips the match */
+  values: (number | null)[];
+  /** Dashed reference line */
+  baseline?: number;
+}
+
+interface SeasonTrendChartProps {
+  title: string;
+  unit?: string;
+  /** Short match labels (dates) for the x axis */
+  labels: string[];
+  series: SeasonTrendSeries[];
+  decimals?: number;
+  yMax?: number;
+}
+
+/**
+ * Metric trend across matches, with the season baseline as a dashed line
+ */
+export function SeasonTrendChart({ title, unit, labels, series, decimals = 1, yMax }: SeasonTrendChartProps) {
+  const data = series.map(s => ({
+    id: s.id,
+    data: s.values.map((value, idx) => ({
+      x: idx + 1,
+      y: value === null ? null : Math.round(value * 10 ** decimals) / 10 ** decimals,
+    })),
+  }));
+
+  const markers = series
+    .filter(s => s.baseline !== undefined)
+    .map(s => ({
+      axis: "y" as const,
+      value: s.baseline!,
+      lineStyle: { stroke: series.length > 1 ? s.color : BASELINE_COLOR, strokeWidth: 1, strokeDasharray: "4 4" },
+    }));
+
+  return (
+    <Card style={{ border: "1px solid var(--gray-5)" }}>
+      <Flex direction="column" gap="2" p="2">
+        <Flex justify="between" align="center">
+          <Heading size="3" weight="medium">{title}</Heading>
+          {unit && <Text size="1" color="gray">{unit}</Text>}
+        </Flex>
+        <Box style={{ height: 200 }}>
+          <ResponsiveLine
+            data={data}
+            theme={CHART_THEME}
+            margin={{ top: 10, right: 16, bottom: 28, left: 40 }}
+            xScale={{ type: "point" }}
+            yScale={{ type: "linear", min: 0, max: yMax ?? "auto" }}
+            colors={series.map(s => s.color)}
+            curve="monotoneX"
+            lineWidth={2}
+            pointSize={6}
+            enableGridX={false}
+            markers={markers}
+            axisLeft={{ tickValues: 4, tickSize: 0, tickPadding: 6 }}
+            axisBottom={{
+              tickSize: 0,
+              tickPadding: 6,
+              // Thin out labels on long seasons
+              tickValues: labels.length > 8
+                ? labels.map((_, idx) => idx + 1).filter(idx => idx % Math.ceil(labels.length / 8) === 1)
+                : undefined,
+              format: value => labels[Number(value) - 1] ?? "",
+            }}
+            enableSlices="x"
+            sliceTooltip={({ slice }) => (
+              <Box style={{ ...CHART_THEME.tooltip.container, padding: "6px 10px" }}>
+                <Text size="1" weight="medium" as="p">{labels[Number(slice.points[0]?.data.x) - 1]}</Text>
+                {slice.points.map(point => (
+                  <Text key={point.id} size="1" as="p" style={{ color: point.seriesColor }}>
+                    {series.length > 1 && `${point.seriesId}: `}{point.data.yFormatted}{unit && ` ${unit}`}
+                  </Text>
+                ))}
+              </Box>
+            )}
+          />
+        </Box>
+        {series.length > 1 && (
+          <Flex gap="3" wrap="wrap" justify="center">
+            {series.map(s => (
+              <Flex key={s.id} align="center" gap="1">
+                <Box style={{ width: 8, height: 8, borderRadius: "50%", backgroundColor: s.color }} />
+                <Text size="1" color="gray">{s.id}</Text>
+              </Flex>
+            ))}
+          </Flex>
+        )}
+      </Flex>
+    </Card>
+  );
+}
@@ -0,0 +1,26 @@
+import type { SeasonMetric } from "@/utils/player-season";
+import type { PlayerProfileAttributes } from "@/types/player-profile";
+
+export const METRIC_CONFIG: Record<SeasonMetric, { label: string; unit: string; color: string; decimals: number }> = {
+  avgBallSpeed: { label: "Avg ball speed", unit: "km/h", color: "#EF4444", decimals: 1 },
+  maxBallSpeed: { label: "Top ball speed", unit: "km/h", color: "#F97316", decimals: 0 },
+  distance: { label: "Distance", unit: "m", color: "#3B82F6", decimals: 0 },
+  swings: { label: "Shots", unit: "", color: "#14B8A6", decimals: 0 },
+};
+
+// Selection vs baseline in charts
+export const SELECTION_COLOR = "#7ADB8F";
+export const BASELINE_COLOR = "#9CA3AF";
+
+// Changes smaller than this are shown as neutral
+export const DELTA_NEUTRAL = 0.03;
+
+export const ATTRIBUTE_COLORS: Record<keyof PlayerProfileAttributes, string> = {
+  power: "#EF4444",
+  agility: "#F59E0B",
+  consistency: "#10B981",
+  attack: "#EC4899",
+  defense: "#3B82F6",
+  coverage: "#8B5CF6",
+  variety: "#14B8A6",
+};
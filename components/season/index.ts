@@ -0,0 +1,2 @@
+export { PlayerSeasonPage } from "./PlayerSeasonPage";
+export { usePlayerSeason } from "./usePlayerSeason";
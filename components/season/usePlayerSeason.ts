@@ -0,0 +1,52 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { logger } from "@/lib/logger";
+import type { PlayerSeason } from "@/utils/player-season";
+
+interface UsePlayerSeasonResult {
+  season: PlayerSeason | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Per-match stats of a player identity, summarized server-side
+ */
+export function usePlayerSeason(identityId: string): UsePlayerSeasonResult {
+  const { session } = useAuth();
+  const [season, setSeason] = useState<PlayerSeason | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const accessToken = session?.access_token;
+
+  useEffect(() => {
+    if (!accessToken) return;
+    const controller = new AbortController();
+
+    (async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/player-identities/${identityId}/season`, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+          signal: controller.signal,
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.error || "Failed to load season");
+        setSeason(data as PlayerSeason);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        logger.error("[usePlayerSeason] Failed to load season:", err);
+        setError(err instanceof Error ? err.message : "Failed to load season");
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    })();
+
+    return () => controller.abort();
+  }, [identityId, accessToken]);
+
+  return { season, loading, error };
+}
@@ -3,9 +3,13 @@
 import { createContext, useContext, useState, useEffect, useCallback, useRef } from "react";
 import { useAuth } from "@/components/auth/AuthProvider";
 import { supabase } from "@/lib/supabase";
+import { useTaskStream } from "@/hooks/useTaskStream";
+import type { TaskProgressUpdate } from "@/types/task-stream";
 
 const SEEN_TASKS_KEY = "sportai-seen-completed-tasks";
-const POLL_INTERVAL = 60000; // 1 minute
+const POLL_INTERVAL = 60000; // 1 minute - only while the task stream isn't live
+
+type TaskUpdateListener = (update: TaskProgressUpdate) => void;
 
 interface LibraryTasksContextValue {
   processingCount: number;
@@ -15,6 +19,10 @@ interface LibraryTasksContextValue {
   isTaskNew: (taskId: string) => boolean;
   isLoading: boolean;
   refresh: () => void;
+  /** Task progress stream is connected; per-task polling can be skipped */
+  isTaskStreamLive: boolean;
+  /** Receive streamed task updates. Returns an unsubscribe function. */
+  subscribeToTaskUpdates: (listener: TaskUpdateListener) => () => void;
 }
 
 const LibraryTasksContext = createContext<LibraryTasksContextValue>({
@@ -25,6 +33,8 @@ const LibraryTasksContext = createContext<LibraryTasksContextValue>({
   isTaskNew: () => false,
   isLoading: true,
   refresh: () => {},
+  isTaskStreamLive: false,
+  subscribeToTaskUpdates: () => () => {},
 });
 
 export function useLibraryTasks() {
@@ -63,8 +73,11 @@ export function LibraryTasksProvider({ children }: { children: React.ReactNode }
   const [processingCount, setProcessingCount] = useState(0);
   const [newCompletedCount, setNewCompletedCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [streamConnectKey, setStreamConnectKey] = useState(0);
   const seenTaskIdsRef = useRef<Set<string>>(new Set());
   const isFirstTimeRef = useRef<boolean>(true);
+  const taskStatusesRef = useRef<Map<string, string>>(new Map());
+  const listenersRef = useRef<Set<TaskUpdateListener>>(new Set());
 
   // Load seen tasks on mount
   useEffect(() => {
@@ -72,8 +85,21 @@ export function LibraryTasksProvider({ children }: { children: React.ReactNode }
     isFirstTimeRef.current = isFirstTimeUser();
   }, []);
 
+  // Derive badge counts from the known task statuses
+  const updateCounts = useCallback(() => {
+    let processing = 0;
+    let newCompleted = 0;
+    taskStatusesRef.current.forEach((status, id) => {
+      if (status === "processing" || status === "pending") processing++;
+      else if (status === "completed" && !seenTaskIdsRef.current.has(id)) newCompleted++;
+    });
+    setProcessingCount(processing);
+    setNewCompletedCount(newCompleted);
+  }, []);
+
   const fetchTaskStatus = useCallback(async () => {
     if (!user || !session?.access_token) {
+      taskStatusesRef.current = new Map();
       setProcessingCount(0);
       setNewCompletedCount(0);
       setIsLoading(false);
@@ -103,12 +129,7 @@ export function LibraryTasksProvider({ children }: { children: React.ReactNode }
       if (!response.ok) throw new Error("Failed to fetch tasks");
 
       const { tasks } = await response.json();
-      
-      // Count processing/pending tasks
-      const processing = tasks.filter(
-        (t: { status: string }) => t.status === "processing" || t.status === "pending"
-      ).length;
-      
+
       // Get completed tasks
       const completedTasks = tasks.filter(
         (t: { status: string }) => t.status === "completed"
@@ -122,28 +143,57 @@ export function LibraryTasksProvider({ children }: { children: React.ReactNode }
         isFirstTimeRef.current = false;
       }
 
-      // Count completed tasks that haven't been seen
-      const newCompleted = completedTasks.filter(
-        (t: { id: string }) => !seenTaskIdsRef.current.has(t.id)
-      ).length;
-
-      setProcessingCount(processing);
-      setNewCompletedCount(newCompleted);
+      taskStatusesRef.current = new Map(
+        tasks.map((t: { id: string; status: string }) => [t.id, t.status])
+      );
+      updateCounts();
     } catch {
       // Silent fail for background polling
     } finally {
       setIsLoading(false);
     }
-  }, [user, session?.access_token]);
+  }, [user, session?.access_token, updateCounts]);
+
+  // Apply a streamed update and fan it out to subscribers (e.g. the Library page)
+  const handleTaskUpdate = useCallback((update: TaskProgressUpdate) => {
+    taskStatusesRef.current.set(update.id, update.status);
+    updateCounts();
+    listenersRef.current.forEach(listener => listener(update));
+  }, [updateCounts]);
 
-  // Initial fetch and polling
+  const { isLive: isTaskStreamLive } = useTaskStream({
+    accessToken: user ? session?.access_token ?? null : null,
+    enabled: processingCount > 0,
+    connectKey: streamConnectKey,
+    onUpdate: handleTaskUpdate,
+    // Server sees nothing in flight - resync in case our list is stale
+    onIdle: fetchTaskStatus,
+  });
+
+  // Initial fetch, then poll while the stream isn't carrying updates
   useEffect(() => {
     fetchTaskStatus();
-    
+  }, [fetchTaskStatus]);
+
+  useEffect(() => {
+    if (isTaskStreamLive) return;
     const interval = setInterval(fetchTaskStatus, POLL_INTERVAL);
     return () => clearInterval(interval);
+  }, [fetchTaskStatus, isTaskStreamLive]);
+
+  // Refetch the list and (re)connect the stream, e.g. after creating a task
+  const refresh = useCallback(() => {
+    setStreamConnectKey(k => k + 1);
+    fetchTaskStatus();
   }, [fetchTaskStatus]);
 
+  const subscribeToTaskUpdates = useCallback((listener: TaskUpdateListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
   // Mark all completed tasks as seen (call when user visits Library)
   const markTasksAsSeen = useCallback(async () => {
     if (!user || !session?.access_token) return;
@@ -194,7 +244,17 @@ export function LibraryTasksProvider({ children }: { children: React.ReactNode }
 
   return (
     <LibraryTasksContext.Provider
-      value={{ processingCount, newCompletedCount, markTasksAsSeen, markTaskAsSeen, isTaskNew, isLoading, refresh: fetchTaskStatus }}
+      value={{
+        processingCount,
+        newCompletedCount,
+        markTasksAsSeen,
+        markTaskAsSeen,
+        isTaskNew,
+        isLoading,
+        refresh,
+        isTaskStreamLive,
+        subscribeToTaskUpdates,
+      }}
     >
       {children}
     </LibraryTasksContext.Provider>
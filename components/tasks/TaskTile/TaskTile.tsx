@@ -10,6 +10,7 @@ import { STATUS_CONFIG } from "./constants";
 import { TASK_TYPES } from "../TasksPage/constants";
 import { formatTimeAgo } from "./utils";
 import { isSampleTask } from "../sampleTasks";
+import { useLibraryTasks } from "@/components/sidebar/LibraryTasksContext";
 import { useThumbnail, useTaskProgress } from "./hooks";
 import {
   TaskTileThumbnail,
@@ -44,6 +45,8 @@ export function TaskTile({
   console.log("[TaskTile] Rendering:", task.id, { thumbnail: !!thumbnail, isGenerating, videoUrl: task.video_url?.substring(0, 60) });
 
   const progress = useTaskProgress({ task });
+  const { isTaskStreamLive } = useLibraryTasks();
+  const isInFlight = task.status === "processing" || task.status === "pending";
 
   const statusConfig = STATUS_CONFIG[task.status];
   const StatusIcon = statusConfig.icon;
@@ -92,11 +95,28 @@ export function TaskTile({
               <>
                 {/* Only show status badge for non-completed tasks */}
                 {task.status !== "completed" && (
-                  <Badge color={statusConfig.color} variant="soft">
+                  <Badge
+                    color={statusConfig.color}
+                    variant="soft"
+                    title={isInFlight ? (isTaskStreamLive ? "Live updates" : "Checking periodically") : undefined}
+                  >
                     <StatusIcon width={12} height={12} />
                     <Text size="1" ml="1">
                       {statusConfig.label}
                     </Text>
+                    {/* Live dot while the task stream is pushing updates */}
+                    {isInFlight && isTaskStreamLive && (
+                      <span
+                        aria-hidden
+                        style={{
+                          width: 6,
+                          height: 6,
+                          marginLeft: 4,
+                          borderRadius: "50%",
+                          backgroundColor: "var(--mint-9)",
+                        }}
+                      />
+                    )}
                   </Badge>
                 )}
 
@@ -43,8 +43,11 @@ export function useTaskProgress({ task }: UseTaskProgressOptions): TaskProgress
   let totalEstimated: number;
 
   if (task.estimated_compute_time < 0) {
-    remainingSeconds = Math.abs(task.estimated_compute_time);
-    totalEstimated = elapsedSeconds + remainingSeconds;
+    // Remaining time was reported at the last status update (kept fresh by the task stream)
+    const reportedAt = new Date(task.updated_at).getTime();
+    const sinceReportSeconds = Math.max(0, Math.floor((now - reportedAt) / 1000));
+    remainingSeconds = Math.abs(task.estimated_compute_time) - sinceReportSeconds;
+    totalEstimated = Math.max(1, elapsedSeconds + Math.max(0, remainingSeconds));
   } else {
     totalEstimated = task.estimated_compute_time;
     remainingSeconds = totalEstimated - elapsedSeconds;
@@ -35,7 +35,13 @@ export function TasksPage() {
   const { user, session, loading: authLoading } = useAuth();
   const { isCollapsed, isInitialLoad, closeSidebar } = useSidebar();
   const isMobile = useIsMobile();
-  const { markTaskAsSeen, isTaskNew } = useLibraryTasks();
+  const {
+    markTaskAsSeen,
+    isTaskNew,
+    isTaskStreamLive,
+    subscribeToTaskUpdates,
+    refresh: refreshLibraryTasks,
+  } = useLibraryTasks();
   const sampleTasks = useRefreshedSampleTasks();
 
   // Guest tasks from localStorage
@@ -58,6 +64,9 @@ export function TasksPage() {
     userId: user?.id ?? null,
     accessToken: session?.access_token ?? null,
     markTaskAsSeen,
+    isTaskStreamLive,
+    subscribeToTaskUpdates,
+    onNewActiveTask: refreshLibraryTasks,
   });
   const {
     tasks,
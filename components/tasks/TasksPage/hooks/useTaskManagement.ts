@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { logger } from "@/lib/logger";
 import type { Task } from "../types";
@@ -15,6 +15,7 @@ import { deleteGuestTask, isGuestTask } from "@/utils/storage";
 import { isSampleTask } from "../../sampleTasks";
 import { loadPoseData } from "@/lib/poseDataService";
 import { supabase } from "@/lib/supabase";
+import type { TaskProgressUpdate } from "@/types/task-stream";
 
 interface UseTaskManagementOptions {
   /** User ID - for logging/display purposes only */
@@ -22,6 +23,12 @@ interface UseTaskManagementOptions {
   /** JWT access token for authenticated API calls */
   accessToken: string | null;
   markTaskAsSeen: (taskId: string) => void;
+  /** Task progress stream is connected (from LibraryTasksContext); polling is skipped while true */
+  isTaskStreamLive: boolean;
+  /** Subscribe to streamed task updates (from LibraryTasksContext) */
+  subscribeToTaskUpdates: (listener: (update: TaskProgressUpdate) => void) => () => void;
+  /** Called when a new in-flight task appears, so the stream can start following it */
+  onNewActiveTask: () => void;
 }
 
 interface UseTaskManagementReturn {
@@ -48,13 +55,21 @@ interface UseTaskManagementReturn {
   handleTaskClick: (taskId: string) => Promise<void>;
 }
 
+function isInFlight(task: Task): boolean {
+  return task.status === "processing" || task.status === "pending";
+}
+
 /**
- * Hook for managing task CRUD operations and status polling.
+ * Hook for managing task CRUD operations and status updates.
+ * Status changes arrive over the task stream; per-task polling is the fallback.
  */
 export function useTaskManagement({
   userId,
   accessToken,
   markTaskAsSeen,
+  isTaskStreamLive,
+  subscribeToTaskUpdates,
+  onNewActiveTask,
 }: UseTaskManagementOptions): UseTaskManagementReturn {
   const router = useRouter();
 
@@ -408,10 +423,31 @@ export function useTaskManagement({
     fetchTasks();
   }, [fetchTasks]);
 
-  // Status polling
+  // Streamed status updates
+  useEffect(() => {
+    return subscribeToTaskUpdates((update) => {
+      setTasks((prev) =>
+        prev.map((t) => (t.id === update.id ? { ...t, ...update } : t))
+      );
+    });
+  }, [subscribeToTaskUpdates]);
+
+  // Let the stream know about tasks created on this page
+  const activeTaskIdsRef = useRef<Set<string> | null>(null);
+  useEffect(() => {
+    if (loading) return;
+    const activeIds = new Set(tasks.filter(isInFlight).map((t) => t.id));
+    const previous = activeTaskIdsRef.current;
+    activeTaskIdsRef.current = activeIds;
+    if (previous && [...activeIds].some((id) => !previous.has(id))) {
+      onNewActiveTask();
+    }
+  }, [tasks, loading, onNewActiveTask]);
+
+  // Status polling - fallback while the stream isn't live
   useEffect(() => {
-    const activeTasks = tasks.filter((t) => t.status === "processing" || t.status === "pending");
-    if (activeTasks.length === 0 || !accessToken) return;
+    const activeTasks = tasks.filter(isInFlight);
+    if (activeTasks.length === 0 || !accessToken || isTaskStreamLive) return;
 
     const checkStatus = async () => {
       for (const task of activeTasks) {
@@ -442,7 +478,7 @@ export function useTaskManagement({
 
     const interval = setInterval(checkStatus, TASK_POLL_INTERVAL_MS);
     return () => clearInterval(interval);
-  }, [tasks, accessToken]);
+  }, [tasks, accessToken, isTaskStreamLive]);
 
   return {
     tasks,
@@ -4,6 +4,8 @@ import { useState, useEffect, useCallback } from "react";
 import { Box, Flex, Text, Button, Badge, Code, ScrollArea } from "@radix-ui/themes";
 import { ReloadIcon, TrashIcon, DownloadIcon, UploadIcon } from "@radix-ui/react-icons";
 import { loadPoseData, savePoseData, deletePoseData, type StoredPoseData } from "@/lib/poseDataService";
+import { toVideoEntry2D } from "@/utils/h36m-pose";
+import { getPoseDataApiKey } from "@/utils/pose-storage";
 import type { PoseDetectionResult } from "@/hooks/usePoseDetection";
 
 interface ServerDataDebugPanelProps {
@@ -16,12 +18,6 @@ interface ServerDataDebugPanelProps {
   wasAutoLoaded?: boolean;
 }
 
-// Helper to show the S3 path that would be used for storage
-function getPoseDataPath(videoS3Key: string): string {
-  const sanitizedKey = videoS3Key.replace(/\//g, "_");
-  return `pose-data/videos/${sanitizedKey}/poses.json.gz`;
-}
-
 export function ServerDataDebugPanel({
   videoS3Key,
   taskId,
@@ -103,6 +99,25 @@ export function ServerDataDebugPanel({
     setIsDeleting(false);
   };
 
+  // Download local poses as H36M video_entry_2D_json data for comparison with Shark
+  const handleExportH36M = () => {
+    if (!preprocessedPoses || preprocessedPoses.size === 0) return;
+
+    const entry = toVideoEntry2D(preprocessedPoses, { fps: videoFPS, modelUsed });
+    const blob = new Blob([JSON.stringify(entry)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `video_entry_2D_${taskId || "poses"}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    setLastAction(`Exported ${entry.frames.length} frames as H36M`);
+  };
+
   const formatBytes = (bytes: number): string => {
     if (bytes === 0) return "0 B";
     const k = 1024;
@@ -161,7 +176,7 @@ export function ServerDataDebugPanel({
             }}
           >
             <Text size="1" color="gray">S3 Path: </Text>
-            <Text size="1" style={{ opacity: 0.8 }}>{getPoseDataPath(videoS3Key)}</Text>
+            <Text size="1" style={{ opacity: 0.8 }}>{getPoseDataApiKey(videoS3Key)}</Text>
           </Box>
         )}
 
@@ -279,6 +294,16 @@ export function ServerDataDebugPanel({
             <TrashIcon />
             {isDeleting ? "Deleting..." : "Delete"}
           </Button>
+
+          <Button
+            size="1"
+            variant="soft"
+            onClick={handleExportH36M}
+            disabled={!preprocessedPoses || preprocessedPoses.size === 0}
+          >
+            <DownloadIcon />
+            Export H36M
+          </Button>
         </Flex>
 
         {/* Raw Data Preview */}
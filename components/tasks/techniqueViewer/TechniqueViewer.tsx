@@ -324,6 +324,7 @@ export function TechniqueViewer({
                 },
               }}
               sport={sport as "tennis" | "padel" | "pickleball" | undefined}
+              taskId={taskId}
               style={{
                 position: "absolute",
                 top: 0,
@@ -14,6 +14,7 @@ import { useMemo, useEffect, useRef } from "react";
 import { Box, Flex, Text, Spinner } from "@radix-ui/themes";
 import { MixerHorizontalIcon } from "@radix-ui/react-icons";
 import { useSwingProfiles } from "@/hooks/useSwingProfiles";
+import { ArtifactVersionMenu } from "@/components/tasks/viewer/components/shared";
 import type { SwingProfileData } from "@/types/swing-profile";
 import type { PerformanceTabProps, SwingPerformanceData, SwingMetrics } from "./types";
 import { NORMALIZATION_RANGES } from "./constants";
@@ -38,10 +39,21 @@ export function PerformanceTab({
   onSeekTo,
   swingResult,
   sport = "padel",
+  taskId,
 }: PerformanceTabProps) {
   // AI-powered swing profile generation
-  const { profiles, isGenerating, error, generate, getProfileBySwingId } = useSwingProfiles({
+  const {
+    profiles,
+    isGenerating,
+    error,
+    artifact,
+    generate,
+    regenerate,
+    showVersion,
+    getProfileBySwingId,
+  } = useSwingProfiles({
     sport,
+    taskId,
   });
   const hasGeneratedRef = useRef(false);
 
@@ -243,10 +255,19 @@ export function PerformanceTab({
             </Flex>
           )}
         </Flex>
-        {error && (
+        {error ? (
           <Text size="2" color="red">
             Analysis unavailable
           </Text>
+        ) : (
+          <ArtifactVersionMenu
+            taskId={taskId}
+            type="swing_profiles"
+            artifact={artifact}
+            isGenerating={isGenerating}
+            onRegenerate={regenerate}
+            onSelectVersion={showVersion}
+          />
         )}
       </Flex>
 
@@ -18,6 +18,8 @@ export interface PerformanceTabProps {
   swingResult?: SwingDetectionResultV3 | null;
   /** Sport type for context-aware AI analysis */
   sport?: "tennis" | "padel" | "pickleball";
+  /** Enables stored swing profile versions for the task owner */
+  taskId?: string;
 }
 
 // ============================================================================
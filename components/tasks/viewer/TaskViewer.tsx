@@ -29,6 +29,9 @@ const TeamIcon = ({ width = 16, height = 16 }: { width?: number; height?: number
 import { useAuth } from "@/components/auth/AuthProvider";
 import { isSampleTask } from "@/components/tasks/sampleTasks";
 import { isGuestTask } from "@/utils/storage";
+import { computeLineCalls } from "@/utils/line-calls";
+import { computeWorkload, getBodyMeasurements } from "@/utils/workload";
+import { removeDeletedBounces } from "@/utils/match-corrections";
 import { useVideoPlayback } from "./hooks";
 import {
   useTaskFetching,
@@ -37,6 +40,10 @@ import {
   useAllSwings,
   useRallySelection,
   useFilteredBallPositions,
+  useCourtCalibration,
+  useMatchScore,
+  useMatchCorrections,
+  usePlayerIdentities,
 } from "./hooks";
 import { usePlayerPortraits } from "./usePlayerPortraits";
 import type { TimelineFilterState } from "./components";
@@ -54,6 +61,7 @@ import {
   ProfilesTab,
   TechniqueTab,
   CoachingTab,
+  hasPoseAnnotations,
 } from "./components";
 import type { TabDefinition } from "./components";
 
@@ -66,7 +74,7 @@ type TabId = "rallies" | "summary" | "players" | "teams" | "highlights" | "tacti
 export function TaskViewer({ paramsPromise }: TaskViewerProps) {
   const params = use(paramsPromise);
   const router = useRouter();
-  const { user, loading: authLoading } = useAuth();
+  const { user, loading: authLoading, profile } = useAuth();
   
   // Refs
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -75,7 +83,7 @@ export function TaskViewer({ paramsPromise }: TaskViewerProps) {
   // Task and result fetching
   const {
     task,
-    result,
+    result: rawResult,
     loading,
     loadingResult,
     error,
@@ -84,12 +92,24 @@ export function TaskViewer({ paramsPromise }: TaskViewerProps) {
     loadingPhase,
   } = useTaskFetching(params.taskId);
 
+  // Manual event corrections are replayed over the result before anything else reads it
+  const matchCorrections = useMatchCorrections(task, rawResult);
+
+  // Manual court calibration re-projects court positions for every tab
+  const {
+    calibration: courtCalibration,
+    calibratedResult: result,
+    saveCalibration,
+    clearCalibration,
+  } = useCourtCalibration(task, matchCorrections.correctedResult);
+
+  // Inferred point winners and running score, with manual corrections
+  const { matchScore, setRallyOutcome } = useMatchScore(task, result);
+
   // UI State
   const [selectedRallyIndex, setSelectedRallyIndex] = useState<number | null>(null);
   const [isVideoFullWidth, setIsVideoFullWidth] = useState(false);
   const [activeTab, setActiveTab] = useState<TabId>("rallies");
-  const [playerNames, setPlayerNames] = useState<Record<number, string>>({});
-  const [calibrationMatrix, setCalibrationMatrix] = useState<number[][] | null>(null);
   const [videoError, setVideoError] = useState<string | null>(null);
   
   // Bounce inference toggles
@@ -111,22 +131,43 @@ export function TaskViewer({ paramsPromise }: TaskViewerProps) {
     task?.video_url
   );
 
+  // Named people linked to this task's anonymous players
+  const playerIdentities = usePlayerIdentities(task, portraits);
+
   // Video playback tracking
   const currentTime = useVideoPlayback(videoRef);
 
   // Player rankings and display info
-  const rankings = usePlayerRankings(result, playerNames);
+  const rankings = usePlayerRankings(result, playerIdentities.identityNames);
   const { validPlayers, playerDisplayNames } = rankings;
 
   // All swings flattened with player_id attached
   const allSwings = useAllSwings(result);
 
   // Enhanced bounces with inference
-  const enhancedBallBounces = useEnhancedBounces(result, allSwings, {
+  const detectedBallBounces = useEnhancedBounces(result, allSwings, {
     inferSwingBounces,
     inferTrajectoryBounces,
   });
 
+  // Inferred bounces are derived after corrections, so deletions are applied to them here
+  const enhancedBallBounces = useMemo(
+    () => removeDeletedBounces(detectedBallBounces, matchCorrections.corrections),
+    [detectedBallBounces, matchCorrections.corrections]
+  );
+
+  // In/out calls for every floor bounce, with per-player error rates
+  const lineCalls = useMemo(
+    () => (result ? computeLineCalls(result, task?.sport, enhancedBallBounces) : null),
+    [result, task?.sport, enhancedBallBounces]
+  );
+
+  // Workload over time per player, energy from the viewer's height and weight
+  const workload = useMemo(
+    () => (result ? computeWorkload(result, getBodyMeasurements(profile), task?.video_length ?? undefined) : null),
+    [result, profile, task?.video_length]
+  );
+
   // Filter ball positions to remove teleportation artifacts, interpolate gaps, and smooth trajectory
   // Always compute filtered positions so we can compare both
   const { filteredPositions: filteredBallPositions, stats: ballFilterStats } = useFilteredBallPositions(
@@ -176,6 +217,16 @@ export function TaskViewer({ paramsPromise }: TaskViewerProps) {
     setAutoSelectedRallyIndex(index);
   };
 
+  // Open a rally from another tab (e.g. a tactical pattern example)
+  const handleRallyJump = (index: number) => {
+    const rally = result?.rallies?.[index];
+    setActiveTab("rallies");
+    handleRallySelect(index);
+    if (rally && videoRef.current) {
+      videoRef.current.currentTime = Math.max(0, rally[0] - timelineFilters.rallyBuffer);
+    }
+  };
+
   // Event tooltip for rally timeline
   // Calculate total video duration
   const totalDuration = useMemo(() => {
@@ -217,6 +268,9 @@ export function TaskViewer({ paramsPromise }: TaskViewerProps) {
     return Math.min(...teamSwings.values());
   }, [result?.team_sessions]);
 
+  // Technique tab needs per-swing pose annotations
+  const hasSwingPoses = useMemo(() => hasPoseAnnotations(result?.players), [result?.players]);
+
   // Tab definitions - hide Team Stats tab when only 2 players or any team has < 20 swings
   const tabs: TabDefinition[] = useMemo(() => {
     const allTabs: TabDefinition[] = [
@@ -228,7 +282,7 @@ export function TaskViewer({ paramsPromise }: TaskViewerProps) {
       { id: "highlights", label: "Highlights", icon: <StarIcon width={16} height={16} /> },
       { id: "tactical", label: "Tactical", icon: <TargetIcon width={16} height={16} /> },
       { id: "coaching", label: "Coaching", icon: <ChatBubbleIcon width={16} height={16} />, disabled: true },
-      { id: "technique", label: "Technique", icon: <MixIcon width={16} height={16} />, disabled: true },
+      { id: "technique", label: "Technique", icon: <MixIcon width={16} height={16} />, disabled: !hasSwingPoses },
     ];
     
     // Hide Team Stats tab for singles matches (2 or fewer players) or if any team has < 20 swings
@@ -237,7 +291,7 @@ export function TaskViewer({ paramsPromise }: TaskViewerProps) {
     }
     
     return allTabs;
-  }, [validPlayers.length, minTeamSwings]);
+  }, [validPlayers.length, minTeamSwings, hasSwingPoses]);
 
   // Pause video when switching away from rallies tab
   useEffect(() => {
@@ -350,13 +404,18 @@ export function TaskViewer({ paramsPromise }: TaskViewerProps) {
             onInferAudioBouncesChange={setInferAudioBounces}
             filterBallPositions={filterBallPositions}
             onFilterBallPositionsChange={setFilterBallPositions}
-            calibrationMatrix={calibrationMatrix}
-            onCalibrationComplete={setCalibrationMatrix}
+            courtCalibration={courtCalibration}
+            onCalibrationComplete={saveCalibration}
+            onCalibrationClear={clearCalibration}
             playerDisplayNames={playerDisplayNames}
             enhancedBallBounces={enhancedBallBounces}
             allSwings={allSwings}
             onVideoError={setVideoError}
             filteredBallPositions={filteredBallPositions}
+            matchScore={matchScore}
+            onRallyOutcomeChange={setRallyOutcome}
+            lineCalls={lineCalls}
+            matchCorrections={matchCorrections}
           />
         </Box>
 
@@ -365,6 +424,9 @@ export function TaskViewer({ paramsPromise }: TaskViewerProps) {
             task={task}
             result={result}
             enhancedBallBounces={enhancedBallBounces}
+            matchScore={matchScore}
+            lineCalls={lineCalls}
+            playerDisplayNames={playerDisplayNames}
           />
         )}
 
@@ -372,6 +434,8 @@ export function TaskViewer({ paramsPromise }: TaskViewerProps) {
           <PlayersTab
             rankings={rankings}
             portraits={portraits}
+            workload={workload}
+            playerIdentities={playerIdentities}
           />
         )}
 
@@ -381,6 +445,7 @@ export function TaskViewer({ paramsPromise }: TaskViewerProps) {
             portraits={portraits}
             playerDisplayNames={playerDisplayNames}
             rankings={rankings}
+            sport={task?.sport}
           />
         )}
 
@@ -401,6 +466,10 @@ export function TaskViewer({ paramsPromise }: TaskViewerProps) {
             playerDisplayNames={playerDisplayNames}
             portraits={portraits}
             sport={task?.sport === "all" ? "padel" : task?.sport}
+            taskId={params.taskId}
+            lineCalls={lineCalls}
+            matchScore={matchScore}
+            onRallyJump={handleRallyJump}
           />
         )}
 
@@ -411,6 +480,7 @@ export function TaskViewer({ paramsPromise }: TaskViewerProps) {
             portraits={portraits}
             playerDisplayNames={playerDisplayNames}
             sport={task?.sport === "all" ? "padel" : task?.sport}
+            taskId={params.taskId}
           />
         )}
 
@@ -424,7 +494,11 @@ export function TaskViewer({ paramsPromise }: TaskViewerProps) {
         )}
 
         {activeTab === "technique" && (
-          <TechniqueTab />
+          <TechniqueTab
+            result={result}
+            rankings={rankings}
+            playerDisplayNames={playerDisplayNames}
+          />
         )}
       </Box>
     </Box>
@@ -1,14 +1,35 @@
 "use client";
 
-import { Box, Flex, Heading, Text, Card } from "@radix-ui/themes";
+import { Box, Flex, Heading, Text, Card, Table } from "@radix-ui/themes";
+import { getCourtDimensions } from "@/utils/court-calibration";
+import type { LineCall, LineCallReport } from "@/utils/line-calls";
+import { LINE_CALL_COLORS } from "../constants";
 
 interface BounceHeatmapProps {
   heatmap: number[][];
   totalBounces: number;
+  lineCalls?: LineCallReport | null;
+  playerDisplayNames?: Record<number, string>;
 }
 
-export function BounceHeatmap({ heatmap, totalBounces }: BounceHeatmapProps) {
+const VERDICT_LABELS = {
+  in: "In",
+  out: "Out",
+  close: "Too close",
+} as const;
+
+function formatLineCall(call: LineCall): string {
+  const margin = `${Math.abs(call.margin).toFixed(2)}m ${call.margin >= 0 ? "inside" : "outside"}`;
+  const target = call.isServe ? " the service box" : "";
+  return `${VERDICT_LABELS[call.verdict]} · ${margin}${target} @ ${call.bounce.timestamp.toFixed(1)}s`;
+}
+
+export function BounceHeatmap({ heatmap, totalBounces, lineCalls, playerDisplayNames = {} }: BounceHeatmapProps) {
   const maxValue = Math.max(...heatmap.flat());
+  const court = lineCalls ? getCourtDimensions(lineCalls.sport) : null;
+  const columns = heatmap[0]?.length || court?.width || 10;
+  const rows = heatmap.length || court?.length || 20;
+  const playerStats = (lineCalls?.players || []).filter(p => p.shots > 0);
 
   return (
     <Card style={{ border: "1px solid var(--gray-6)" }}>
@@ -16,35 +37,111 @@ export function BounceHeatmap({ heatmap, totalBounces }: BounceHeatmapProps) {
         <Heading size="4" weight="medium">
           Bounce Heatmap
         </Heading>
-        <Box
-          style={{
-            display: "grid",
-            gridTemplateColumns: `repeat(${heatmap[0]?.length || 10}, 1fr)`,
-            gap: "2px",
-            aspectRatio: `${heatmap[0]?.length || 10} / ${heatmap.length || 20}`,
-            maxWidth: "200px",
-          }}
-        >
-          {heatmap.flatMap((row, y) =>
-            row.map((value, x) => {
-              const intensity = maxValue > 0 ? value / maxValue : 0;
-              return (
-                <Box
-                  key={`${x}-${y}`}
-                  style={{
-                    backgroundColor:
-                      intensity > 0 ? `rgba(122, 219, 143, ${intensity})` : "var(--gray-4)",
-                    borderRadius: "2px",
-                  }}
-                  title={`${value} bounces`}
-                />
-              );
-            })
-          )}
+        <Box style={{ position: "relative", maxWidth: "200px" }}>
+          <Box
+            style={{
+              display: "grid",
+              gridTemplateColumns: `repeat(${columns}, 1fr)`,
+              gap: "2px",
+              aspectRatio: `${columns} / ${rows}`,
+            }}
+          >
+            {heatmap.flatMap((row, y) =>
+              row.map((value, x) => {
+                const intensity = maxValue > 0 ? value / maxValue : 0;
+                return (
+                  <Box
+                    key={`${x}-${y}`}
+                    style={{
+                      backgroundColor:
+                        intensity > 0 ? `rgba(122, 219, 143, ${intensity})` : "var(--gray-4)",
+                      borderRadius: "2px",
+                    }}
+                    title={`${value} bounces`}
+                  />
+                );
+              })
+            )}
+          </Box>
+
+          {/* Line call markers, placed by court position */}
+          {court && lineCalls?.calls.map((call, idx) => {
+            const [x, y] = call.bounce.court_pos;
+            if (x < 0 || x > court.width || y < 0 || y > court.length) return null;
+
+            return (
+              <Box
+                key={`call-${idx}`}
+                title={formatLineCall(call)}
+                style={{
+                  position: "absolute",
+                  left: `${(x / court.width) * 100}%`,
+                  top: `${(y / court.length) * 100}%`,
+                  width: 6,
+                  height: 6,
+                  marginLeft: -3,
+                  marginTop: -3,
+                  borderRadius: "50%",
+                  backgroundColor: LINE_CALL_COLORS[call.verdict],
+                  border: "1px solid rgba(255, 255, 255, 0.8)",
+                }}
+              />
+            );
+          })}
         </Box>
         <Text size="1" color="gray">
           {totalBounces} total bounces detected
         </Text>
+
+        {lineCalls && (
+          <Flex direction="column" gap="2">
+            <Flex gap="3" wrap="wrap">
+              {(Object.keys(VERDICT_LABELS) as (keyof typeof VERDICT_LABELS)[]).map(verdict => (
+                <Flex key={verdict} align="center" gap="1">
+                  <Box
+                    style={{ width: 8, height: 8, borderRadius: "50%", backgroundColor: LINE_CALL_COLORS[verdict] }}
+                  />
+                  <Text size="1" color="gray">
+                    {VERDICT_LABELS[verdict]} {lineCalls.totals[verdict]}
+                  </Text>
+                </Flex>
+              ))}
+            </Flex>
+
+            {playerStats.length > 0 && (
+              <Table.Root size="1" variant="surface">
+                <Table.Header>
+                  <Table.Row>
+                    <Table.ColumnHeaderCell>Player</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell justify="center">Shots</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell justify="center">Out</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell justify="center">Close</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell justify="center">Error rate</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell justify="center">Serve faults</Table.ColumnHeaderCell>
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {playerStats.map(stats => (
+                    <Table.Row key={stats.playerId}>
+                      <Table.RowHeaderCell>
+                        {playerDisplayNames[stats.playerId] || `Player ${stats.playerId}`}
+                      </Table.RowHeaderCell>
+                      <Table.Cell justify="center">{stats.shots}</Table.Cell>
+                      <Table.Cell justify="center">{stats.out}</Table.Cell>
+                      <Table.Cell justify="center">{stats.close}</Table.Cell>
+                      <Table.Cell justify="center">
+                        <Text weight="bold">{Math.round(stats.errorRate * 100)}%</Text>
+                      </Table.Cell>
+                      <Table.Cell justify="center">
+                        {stats.serves > 0 ? `${stats.serveFaults}/${stats.serves}` : "–"}
+                      </Table.Cell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table.Root>
+            )}
+          </Flex>
+        )}
       </Flex>
     </Card>
   );
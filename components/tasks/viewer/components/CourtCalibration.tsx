@@ -1,194 +1,176 @@
 "use client";
 
-import { useState, useRef, useEffect, RefObject } from "react";
+import { useState, useRef, useEffect, useMemo, RefObject } from "react";
 import { Box, Flex, Text, Button, Select } from "@radix-ui/themes";
-import { Cross2Icon, CheckIcon, ResetIcon } from "@radix-ui/react-icons";
-
-// Known court reference points (in meters)
-// Padel court: 10m wide x 20m long, net at center (y=10)
-const COURT_REFERENCE_POINTS: Record<string, { x: number; y: number; label: string }> = {
-  // Back wall corners (y=0)
-  "back-left": { x: 0, y: 0, label: "Back wall - Left corner" },
-  "back-right": { x: 10, y: 0, label: "Back wall - Right corner" },
-  // Service line near back (y=3)
-  "service-back-left": { x: 0, y: 3, label: "Service line (back) - Left" },
-  "service-back-right": { x: 10, y: 3, label: "Service line (back) - Right" },
-  "service-back-center": { x: 5, y: 3, label: "Service line (back) - Center" },
-  // Net (y=10)
-  "net-left": { x: 0, y: 10, label: "Net - Left post" },
-  "net-right": { x: 10, y: 10, label: "Net - Right post" },
-  "net-center": { x: 5, y: 10, label: "Net - Center" },
-  // Service line near front (y=17)
-  "service-front-left": { x: 0, y: 17, label: "Service line (front) - Left" },
-  "service-front-right": { x: 10, y: 17, label: "Service line (front) - Right" },
-  "service-front-center": { x: 5, y: 17, label: "Service line (front) - Center" },
-  // Front wall corners (y=20)
-  "front-left": { x: 0, y: 20, label: "Front wall - Left corner" },
-  "front-right": { x: 10, y: 20, label: "Front wall - Right corner" },
+import { Cross2Icon } from "@radix-ui/react-icons";
+import {
+  getCourtReferencePoints,
+  computeHomography,
+  computeReprojectionError,
+  MIN_CALIBRATION_POINTS,
+  type CalibrationSport,
+  type CalibrationPoint,
+  type CourtCalibrationData,
+} from "@/utils/court-calibration";
+import {
+  seedFromCourtKeypoints,
+  seedFromCourtCorners,
+  type CalibrationSeed,
+} from "@/utils/court-calibration-seed";
+import { useFrameAnalysis } from "@/hooks/useFrameAnalysis";
+
+// Points projecting further than this from their court position are highlighted
+const POINT_ERROR_WARNING_METERS = 0.5;
+
+const SEED_SOURCE_LABELS: Record<CalibrationSeed["source"], string> = {
+  "court-keypoints": "detected court keypoints",
+  "frame-analysis": "AI frame analysis",
 };
 
-interface CalibrationPoint {
-  videoX: number; // Normalized 0-1
-  videoY: number; // Normalized 0-1
-  courtX: number; // Meters
-  courtY: number; // Meters
-  label: string;
-}
-
 interface CourtCalibrationProps {
   videoRef: RefObject<HTMLVideoElement | null>;
-  onCalibrationComplete: (matrix: number[][]) => void;
+  sport: CalibrationSport;
+  initialPoints?: CalibrationPoint[];
+  courtKeypoints?: ([number, number] | [null, null])[]; // Used to pre-fill points
+  onCalibrationComplete: (calibration: CourtCalibrationData) => void;
+  onClear?: () => void; // Remove a saved calibration
   onClose: () => void;
 }
 
-// Calculate homography matrix using 4+ point pairs
-// Uses Direct Linear Transform (DLT) algorithm
-function calculateHomography(points: CalibrationPoint[]): number[][] | null {
-  if (points.length < 4) return null;
-
-  // Build the matrix equation Ah = 0
-  // For each point pair, we get 2 equations
-  const A: number[][] = [];
-
-  for (const p of points) {
-    const { videoX: u, videoY: v, courtX: x, courtY: y } = p;
-    // Scale video coords to match court scale for numerical stability
-    const su = u * 10;
-    const sv = v * 20;
-
-    A.push([-x, -y, -1, 0, 0, 0, su * x, su * y, su]);
-    A.push([0, 0, 0, -x, -y, -1, sv * x, sv * y, sv]);
-  }
-
-  // Solve using SVD (simplified: use least squares for 4 points)
-  // For exactly 4 points, we can solve directly
-  if (points.length === 4) {
-    // Simplified 4-point solution using perspective transform formulas
-    const src = points.map(p => [p.videoX * 10, p.videoY * 20]);
-    const dst = points.map(p => [p.courtX, p.courtY]);
-
-    // Calculate perspective transform matrix
-    const matrix = computePerspectiveTransform(src, dst);
-    return matrix;
-  }
-
-  // For more points, use least squares (simplified version)
-  return computePerspectiveTransform(
-    points.map(p => [p.videoX * 10, p.videoY * 20]),
-    points.map(p => [p.courtX, p.courtY])
+export function CourtCalibration({
+  videoRef,
+  sport,
+  initialPoints,
+  courtKeypoints,
+  onCalibrationComplete,
+  onClear,
+  onClose,
+}: CourtCalibrationProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const referencePoints = getCourtReferencePoints(sport);
+  // Without a saved calibration, start from the detected keypoints so the user only corrects them
+  const [initialSeed] = useState<CalibrationSeed | null>(
+    () => (initialPoints?.length ? null : seedFromCourtKeypoints(sport, courtKeypoints))
   );
-}
-
-// Compute perspective transform from 4 point pairs
-function computePerspectiveTransform(src: number[][], dst: number[][]): number[][] {
-  // Using the standard 8-parameter perspective transform
-  // Maps (x,y) -> (x',y') where:
-  // x' = (a*x + b*y + c) / (g*x + h*y + 1)
-  // y' = (d*x + e*y + f) / (g*x + h*y + 1)
-
-  const n = src.length;
-  if (n < 4) return [[1, 0, 0], [0, 1, 0], [0, 0, 1]]; // Identity
-
-  // Build system of equations
-  const A: number[][] = [];
-  const b: number[] = [];
-
-  for (let i = 0; i < n; i++) {
-    const [x, y] = src[i];
-    const [xp, yp] = dst[i];
-
-    A.push([x, y, 1, 0, 0, 0, -xp * x, -xp * y]);
-    A.push([0, 0, 0, x, y, 1, -yp * x, -yp * y]);
-    b.push(xp);
-    b.push(yp);
-  }
-
-  // Solve using normal equations (A^T * A * h = A^T * b)
-  const h = solveLinearSystem(A, b);
-  if (!h) return [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
-
-  // Construct 3x3 matrix
-  return [
-    [h[0], h[1], h[2]],
-    [h[3], h[4], h[5]],
-    [h[6], h[7], 1],
-  ];
-}
+  const [points, setPoints] = useState<CalibrationPoint[]>(
+    () => initialSeed?.points ?? (initialPoints ?? []).filter(p => p.pointId in referencePoints)
+  );
+  const [seed, setSeed] = useState<CalibrationSeed | null>(initialSeed);
+  const [pendingClick, setPendingClick] = useState<{ x: number; y: number } | null>(null);
+  const [selectedPointType, setSelectedPointType] = useState<string>(() => Object.keys(referencePoints)[0]);
+  const [error, setError] = useState<string | null>(null);
+  const draggingRef = useRef<{ index: number; moved: boolean } | null>(null);
+  const suppressClickRef = useRef(false);
+
+  const { analyzeFrame, isAnalyzing } = useFrameAnalysis({ sport });
+
+  // Live fit quality while points are added or dragged
+  const reprojection = useMemo(() => {
+    if (points.length < MIN_CALIBRATION_POINTS) return null;
+    const matrix = computeHomography(points);
+    return matrix ? computeReprojectionError(matrix, points) : null;
+  }, [points]);
+
+  const getOverlayPosition = (clientX: number, clientY: number) => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return {
+      x: Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (clientY - rect.top) / rect.height)),
+    };
+  };
 
-// Simple linear system solver using Gaussian elimination
-function solveLinearSystem(A: number[][], b: number[]): number[] | null {
-  const n = A.length;
-  const m = A[0].length;
-
-  // Augmented matrix
-  const aug: number[][] = A.map((row, i) => [...row, b[i]]);
-
-  // Forward elimination
-  for (let col = 0; col < m; col++) {
-    // Find pivot
-    let maxRow = col;
-    for (let row = col + 1; row < n; row++) {
-      if (Math.abs(aug[row][col]) > Math.abs(aug[maxRow][col])) {
-        maxRow = row;
-      }
+  // Handle click on video overlay
+  const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    // A drag just ended - don't treat it as a new point
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
     }
-    [aug[col], aug[maxRow]] = [aug[maxRow], aug[col]];
 
-    if (Math.abs(aug[col][col]) < 1e-10) continue;
+    const pos = getOverlayPosition(e.clientX, e.clientY);
+    if (pos) setPendingClick(pos);
+  };
 
-    // Eliminate
-    for (let row = col + 1; row < n; row++) {
-      const factor = aug[row][col] / aug[col][col];
-      for (let j = col; j <= m; j++) {
-        aug[row][j] -= factor * aug[col][j];
-      }
+  // Drag existing points to correct them; a click without movement removes the point
+  const handlePointPointerDown = (e: React.PointerEvent<HTMLDivElement>, index: number) => {
+    e.stopPropagation();
+    draggingRef.current = { index, moved: false };
+    overlayRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handleOverlayPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = draggingRef.current;
+    if (!drag) return;
+
+    const pos = getOverlayPosition(e.clientX, e.clientY);
+    if (!pos) return;
+
+    drag.moved = true;
+    setPoints(prev => prev.map((p, i) => (i === drag.index ? { ...p, videoX: pos.x, videoY: pos.y } : p)));
+  };
+
+  const handleOverlayPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = draggingRef.current;
+    if (!drag) return;
+
+    draggingRef.current = null;
+    overlayRef.current?.releasePointerCapture(e.pointerId);
+    suppressClickRef.current = true;
+
+    if (!drag.moved) {
+      removePoint(drag.index);
     }
-  }
-
-  // Back substitution
-  const x = new Array(m).fill(0);
-  for (let i = m - 1; i >= 0; i--) {
-    if (Math.abs(aug[i][i]) < 1e-10) continue;
-    x[i] = aug[i][m];
-    for (let j = i + 1; j < m; j++) {
-      x[i] -= aug[i][j] * x[j];
+  };
+
+  const applySeed = (next: CalibrationSeed) => {
+    setPoints(next.points);
+    setSeed(next);
+    setPendingClick(null);
+    setError(null);
+  };
+
+  // Detected keypoints first, then fall back to analyzing the current frame
+  const autoDetect = async () => {
+    const keypointSeed = seedFromCourtKeypoints(sport, courtKeypoints);
+    if (keypointSeed) {
+      applySeed(keypointSeed);
+      return;
     }
-    x[i] /= aug[i][i];
-  }
 
-  return x;
-}
+    const video = videoRef.current;
+    if (!video) return;
 
-export function CourtCalibration({ videoRef, onCalibrationComplete, onClose }: CourtCalibrationProps) {
-  const overlayRef = useRef<HTMLDivElement>(null);
-  const [points, setPoints] = useState<CalibrationPoint[]>([]);
-  const [pendingClick, setPendingClick] = useState<{ x: number; y: number } | null>(null);
-  const [selectedPointType, setSelectedPointType] = useState<string>("service-back-left");
-  const [error, setError] = useState<string | null>(null);
+    const result = await analyzeFrame(video, "court");
+    if (!result || result.type !== "court" || !result.found) {
+      setError("Couldn't detect the court in this frame. Try another frame or mark points manually.");
+      return;
+    }
 
-  // Handle click on video overlay
-  const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    const rect = e.currentTarget.getBoundingClientRect();
-    const x = (e.clientX - rect.left) / rect.width;
-    const y = (e.clientY - rect.top) / rect.height;
+    const cornerSeed = seedFromCourtCorners(sport, result.corners);
+    if (!cornerSeed) {
+      setError("Detected court corners were unusable. Mark points manually.");
+      return;
+    }
 
-    setPendingClick({ x, y });
+    applySeed(cornerSeed);
   };
 
   // Confirm the pending point with selected type
   const confirmPoint = () => {
     if (!pendingClick) return;
 
-    const refPoint = COURT_REFERENCE_POINTS[selectedPointType];
+    const refPoint = referencePoints[selectedPointType];
     if (!refPoint) return;
 
     // Check if this point type is already used
-    if (points.some(p => p.label === refPoint.label)) {
+    if (points.some(p => p.pointId === selectedPointType)) {
       setError("This point is already marked. Choose a different one.");
       return;
     }
 
     const newPoint: CalibrationPoint = {
+      pointId: selectedPointType,
       videoX: pendingClick.x,
       videoY: pendingClick.y,
       courtX: refPoint.x,
@@ -203,30 +185,36 @@ export function CourtCalibration({ videoRef, onCalibrationComplete, onClose }: C
 
   // Remove a point
   const removePoint = (index: number) => {
-    setPoints(points.filter((_, i) => i !== index));
+    setPoints(prev => prev.filter((_, i) => i !== index));
   };
 
   // Reset all points
   const resetPoints = () => {
     setPoints([]);
+    setSeed(null);
     setPendingClick(null);
     setError(null);
   };
 
   // Complete calibration
   const completeCalibration = () => {
-    if (points.length < 4) {
-      setError("Need at least 4 points for calibration");
+    if (points.length < MIN_CALIBRATION_POINTS) {
+      setError(`Need at least ${MIN_CALIBRATION_POINTS} points for calibration`);
       return;
     }
 
-    const matrix = calculateHomography(points);
+    const matrix = computeHomography(points);
     if (!matrix) {
       setError("Failed to calculate calibration. Try different points.");
       return;
     }
 
-    onCalibrationComplete(matrix);
+    onCalibrationComplete({
+      sport,
+      matrix,
+      points,
+      calibrated_at: new Date().toISOString(),
+    });
   };
 
   // Pause video when calibration opens
@@ -251,6 +239,8 @@ export function CourtCalibration({ videoRef, onCalibrationComplete, onClose }: C
       <Box
         ref={overlayRef}
         onClick={handleOverlayClick}
+        onPointerMove={handleOverlayPointerMove}
+        onPointerUp={handleOverlayPointerUp}
         style={{
           position: "absolute",
           top: 0,
@@ -262,19 +252,22 @@ export function CourtCalibration({ videoRef, onCalibrationComplete, onClose }: C
         }}
       >
         {/* Draw marked points */}
-        {points.map((point, idx) => (
+        {points.map((point, idx) => {
+          const pointError = reprojection?.perPoint[idx] ?? 0;
+          const pointColor = pointError > POINT_ERROR_WARNING_METERS ? "#FFA500" : "#7ADB8F";
+
+          return (
           <Box
-            key={idx}
-            onClick={(e) => {
-              e.stopPropagation();
-              removePoint(idx);
-            }}
+            key={point.pointId}
+            onPointerDown={(e) => handlePointPointerDown(e, idx)}
+            onClick={(e) => e.stopPropagation()}
             style={{
               position: "absolute",
               left: `${point.videoX * 100}%`,
               top: `${point.videoY * 100}%`,
               transform: "translate(-50%, -50%)",
-              cursor: "pointer",
+              cursor: "grab",
+              touchAction: "none",
             }}
           >
             {/* Crosshair */}
@@ -283,7 +276,7 @@ export function CourtCalibration({ videoRef, onCalibrationComplete, onClose }: C
                 position: "absolute",
                 width: "20px",
                 height: "2px",
-                backgroundColor: "#7ADB8F",
+                backgroundColor: pointColor,
                 left: "-10px",
                 top: "-1px",
               }}
@@ -293,7 +286,7 @@ export function CourtCalibration({ videoRef, onCalibrationComplete, onClose }: C
                 position: "absolute",
                 width: "2px",
                 height: "20px",
-                backgroundColor: "#7ADB8F",
+                backgroundColor: pointColor,
                 left: "-1px",
                 top: "-10px",
               }}
@@ -304,7 +297,7 @@ export function CourtCalibration({ videoRef, onCalibrationComplete, onClose }: C
                 width: "12px",
                 height: "12px",
                 borderRadius: "50%",
-                backgroundColor: "#7ADB8F",
+                backgroundColor: pointColor,
                 border: "2px solid white",
                 transform: "translate(-50%, -50%)",
                 position: "absolute",
@@ -320,7 +313,7 @@ export function CourtCalibration({ videoRef, onCalibrationComplete, onClose }: C
                 left: "10px",
                 top: "-8px",
                 backgroundColor: "rgba(0,0,0,0.8)",
-                color: "#7ADB8F",
+                color: pointColor,
                 padding: "2px 6px",
                 borderRadius: "4px",
                 whiteSpace: "nowrap",
@@ -328,9 +321,11 @@ export function CourtCalibration({ videoRef, onCalibrationComplete, onClose }: C
               }}
             >
               {idx + 1}. {point.label}
+              {pointError > POINT_ERROR_WARNING_METERS && ` (off by ${pointError.toFixed(1)}m)`}
             </Text>
           </Box>
-        ))}
+          );
+        })}
 
         {/* Pending click marker */}
         {pendingClick && (
@@ -372,7 +367,7 @@ export function CourtCalibration({ videoRef, onCalibrationComplete, onClose }: C
         <Flex align="center" justify="between" gap="2">
           <Flex align="center" gap="2" style={{ flex: 1 }}>
             <Text size="1" style={{ color: "#7ADB8F" }}>
-              Click on the video and mark at least 4 court reference points.
+              Click on the video and mark at least {MIN_CALIBRATION_POINTS} {sport} court reference points.
             </Text>
             {points.length > 0 && (
               <Text size="1" style={{ color: "white" }}>({points.length} marked)</Text>
@@ -380,6 +375,15 @@ export function CourtCalibration({ videoRef, onCalibrationComplete, onClose }: C
           </Flex>
           
           <Flex align="center" gap="1">
+            <Button
+              size="1"
+              variant="ghost"
+              onClick={autoDetect}
+              disabled={isAnalyzing}
+              style={{ color: "#7ADB8F", padding: "2px 8px", fontSize: "11px" }}
+            >
+              {isAnalyzing ? "Detecting..." : "Auto-detect"}
+            </Button>
             <Button 
               size="1" 
               variant="ghost" 
@@ -389,14 +393,24 @@ export function CourtCalibration({ videoRef, onCalibrationComplete, onClose }: C
             >
               Reset
             </Button>
+            {onClear && (
+              <Button
+                size="1"
+                variant="ghost"
+                onClick={onClear}
+                style={{ color: "var(--red-9)", padding: "2px 8px", fontSize: "11px" }}
+              >
+                Remove
+              </Button>
+            )}
             <Button
               size="1"
               onClick={completeCalibration}
-              disabled={points.length < 4}
+              disabled={points.length < MIN_CALIBRATION_POINTS}
               style={{
-                backgroundColor: points.length >= 4 ? "#7ADB8F" : "transparent",
-                color: points.length >= 4 ? "black" : "#7ADB8F",
-                border: points.length < 4 ? "1px solid #7ADB8F" : "none",
+                backgroundColor: points.length >= MIN_CALIBRATION_POINTS ? "#7ADB8F" : "transparent",
+                color: points.length >= MIN_CALIBRATION_POINTS ? "black" : "#7ADB8F",
+                border: points.length < MIN_CALIBRATION_POINTS ? "1px solid #7ADB8F" : "none",
                 padding: "2px 8px",
                 fontSize: "11px",
               }}
@@ -414,6 +428,27 @@ export function CourtCalibration({ videoRef, onCalibrationComplete, onClose }: C
           </Flex>
         </Flex>
 
+        {/* Fit quality - pre-filled points only need correcting */}
+        {(seed || reprojection) && (
+          <Flex gap="2" align="center" wrap="wrap" style={{ marginTop: "4px" }}>
+            {seed && (
+              <Text size="1" style={{ color: "white" }}>
+                Pre-filled from {SEED_SOURCE_LABELS[seed.source]}
+                {seed.rejected.length > 0 && ` (${seed.rejected.length} inconsistent point${seed.rejected.length === 1 ? "" : "s"} skipped)`}
+                . Drag points to correct them.
+              </Text>
+            )}
+            {reprojection && points.length > MIN_CALIBRATION_POINTS && (
+              <Text
+                size="1"
+                style={{ color: reprojection.max > POINT_ERROR_WARNING_METERS ? "#FFA500" : "#7ADB8F" }}
+              >
+                Reprojection error: {reprojection.rms.toFixed(2)}m RMS, {reprojection.max.toFixed(2)}m max
+              </Text>
+            )}
+          </Flex>
+        )}
+
         {/* Point type selector - inline when pending */}
         {pendingClick && (
           <Flex gap="2" align="center" style={{ marginTop: "6px" }}>
@@ -421,8 +456,8 @@ export function CourtCalibration({ videoRef, onCalibrationComplete, onClose }: C
             <Select.Root value={selectedPointType} onValueChange={setSelectedPointType}>
               <Select.Trigger style={{ minWidth: "180px", height: "24px", fontSize: "11px" }} />
               <Select.Content>
-                {Object.entries(COURT_REFERENCE_POINTS).map(([key, point]) => (
-                  <Select.Item key={key} value={key} disabled={points.some(p => p.label === point.label)}>
+                {Object.entries(referencePoints).map(([key, point]) => (
+                  <Select.Item key={key} value={key} disabled={points.some(p => p.pointId === key)}>
                     {point.label}
                   </Select.Item>
                 ))}
@@ -441,17 +476,3 @@ export function CourtCalibration({ videoRef, onCalibrationComplete, onClose }: C
     </Box>
   );
 }
-
-// Transform a point using the homography matrix
-export function transformPoint(matrix: number[][], videoX: number, videoY: number): { x: number; y: number } {
-  // Scale video coords to match what we used in calibration
-  const u = videoX * 10;
-  const v = videoY * 20;
-
-  const w = matrix[2][0] * u + matrix[2][1] * v + matrix[2][2];
-  const x = (matrix[0][0] * u + matrix[0][1] * v + matrix[0][2]) / w;
-  const y = (matrix[1][0] * u + matrix[1][1] * v + matrix[1][2]) / w;
-
-  return { x, y };
-}
-
@@ -15,7 +15,7 @@ interface CourtZoneGridProps {
 /**
  * Court grid visualization - matches ShotHeatmap style.
  * Renders a half-court view with zone overlays.
- * Supports both Padel (with back wall) and Tennis (with baseline + extended area).
+ * Supports Padel (with back wall), Tennis (with baseline + extended area) and Pickleball.
  */
 export function CourtZoneGrid({ zones, zoneStats, isVisible, sport = "padel" }: CourtZoneGridProps) {
   const courtConfig = getCourtConfig(sport);
@@ -51,8 +51,9 @@ export function CourtZoneGrid({ zones, zoneStats, isVisible, sport = "padel" }:
       <Box
         style={{
           position: "relative",
-          // Tennis has taller aspect ratio to show behind-baseline area
-          aspectRatio: sport === "tennis" ? "1 / 1.5" : "1 / 1",
+          // Tennis has taller aspect ratio to show behind-baseline area,
+          // pickleball half court is slightly deeper than it is wide
+          aspectRatio: `1 / ${courtConfig.aspectRatio}`,
         }}
       >
         {/* Grid cells */}
@@ -212,6 +213,3 @@ export function CourtZoneGrid({ zones, zoneStats, isVisible, sport = "padel" }:
     </Box>
   );
 }
-
-
-
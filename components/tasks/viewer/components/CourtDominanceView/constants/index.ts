@@ -9,7 +9,10 @@ export {
   getCourtConfig,
 } from "./grid";
 export type { Sport } from "./grid";
-export { ZONE_SYSTEMS, PADEL_ZONE_SYSTEMS, TENNIS_ZONE_SYSTEMS, getZoneSystemsForSport } from "./zoneSystems";
-
-
-
+export {
+  ZONE_SYSTEMS,
+  PADEL_ZONE_SYSTEMS,
+  TENNIS_ZONE_SYSTEMS,
+  PICKLEBALL_ZONE_SYSTEMS,
+  getZoneSystemsForSport,
+} from "./zoneSystems";
@@ -564,6 +564,205 @@ const TENNIS_FUNCTIONAL_ZONES: ZoneDefinition[] = [
   },
 ];
 
+// =============================================================================
+// PICKLEBALL ZONE SYSTEMS
+// =============================================================================
+// Pickleball half-court: 6.705m from baseline to net, 6.1m wide
+// Y coordinates: 0 = baseline, 4.575 = kitchen line, 6.705 = net
+// The kitchen (non-volley zone) covers the 2.13m closest to the net
+
+// Pickleball Traffic Light System (Kitchen Line / Transition / Baseline)
+const PICKLEBALL_TRAFFIC_LIGHT_ZONES: ZoneDefinition[] = [
+  {
+    id: "kitchen-line",
+    name: "Kitchen Line",
+    emoji: "🟢",
+    color: "#10B981",
+    yMin: 4,
+    yMax: 6.705,
+    xMin: 0,
+    xMax: 6.1,
+    ...metersToGrid(0, 6.1, 4, 6.705, "pickleball"),
+    description: "Attacking position at the non-volley line",
+    tacticalAdvice: "Win the dink battle here, wait for a ball to attack",
+  },
+  {
+    id: "transition",
+    name: "Transition Zone",
+    emoji: "🟠",
+    color: "#F59E0B",
+    yMin: 1.5,
+    yMax: 4,
+    xMin: 0,
+    xMax: 6.1,
+    ...metersToGrid(0, 6.1, 1.5, 4, "pickleball"),
+    description: "Mid-court reset area",
+    tacticalAdvice: "Drop or reset, then keep moving up to the kitchen line",
+    isPressureZone: true,
+  },
+  {
+    id: "baseline",
+    name: "Baseline Zone",
+    emoji: "🟣",
+    color: "#8B5CF6",
+    yMin: 0,
+    yMax: 1.5,
+    xMin: 0,
+    xMax: 6.1,
+    ...metersToGrid(0, 6.1, 0, 1.5, "pickleball"),
+    description: "Serve and return position",
+    tacticalAdvice: "Hit deep returns and follow them in to the kitchen line",
+    isPressureZone: true,
+  },
+];
+
+// Pickleball 6-Zone Tactical System (Even/Odd + Depth)
+const PICKLEBALL_SIX_ZONE_SYSTEM: ZoneDefinition[] = [
+  // Kitchen line zones
+  {
+    id: "kitchen-deuce",
+    name: "Kitchen Even",
+    emoji: "🎯",
+    color: "#10B981",
+    yMin: 4,
+    yMax: 6.705,
+    xMin: 0,
+    xMax: 3.05,
+    ...metersToGrid(0, 3.05, 4, 6.705, "pickleball"),
+    description: "Kitchen line on the even (right) side",
+    tacticalAdvice: "Own the middle with your forehand, dink cross-court",
+  },
+  {
+    id: "kitchen-ad",
+    name: "Kitchen Odd",
+    emoji: "🎯",
+    color: "#059669",
+    yMin: 4,
+    yMax: 6.705,
+    xMin: 3.05,
+    xMax: 6.1,
+    ...metersToGrid(3.05, 6.1, 4, 6.705, "pickleball"),
+    description: "Kitchen line on the odd (left) side",
+    tacticalAdvice: "Guard the line, speed up only on high balls",
+  },
+  // Transition zones
+  {
+    id: "trans-deuce",
+    name: "Transition Even",
+    emoji: "⚡",
+    color: "#F59E0B",
+    yMin: 1.5,
+    yMax: 4,
+    xMin: 0,
+    xMax: 3.05,
+    ...metersToGrid(0, 3.05, 1.5, 4, "pickleball"),
+    description: "Mid-court even side",
+    tacticalAdvice: "Reset into the kitchen before advancing",
+    isPressureZone: true,
+  },
+  {
+    id: "trans-ad",
+    name: "Transition Odd",
+    emoji: "⚡",
+    color: "#D97706",
+    yMin: 1.5,
+    yMax: 4,
+    xMin: 3.05,
+    xMax: 6.1,
+    ...metersToGrid(3.05, 6.1, 1.5, 4, "pickleball"),
+    description: "Mid-court odd side",
+    tacticalAdvice: "Split-step and block, don't swing big here",
+    isPressureZone: true,
+  },
+  // Baseline zones
+  {
+    id: "baseline-deuce",
+    name: "Baseline Even",
+    emoji: "🛡️",
+    color: "#8B5CF6",
+    yMin: 0,
+    yMax: 1.5,
+    xMin: 0,
+    xMax: 3.05,
+    ...metersToGrid(0, 3.05, 0, 1.5, "pickleball"),
+    description: "Baseline even side",
+    tacticalAdvice: "Third-shot drop, then move forward together",
+    isPressureZone: true,
+  },
+  {
+    id: "baseline-ad",
+    name: "Baseline Odd",
+    emoji: "🛡️",
+    color: "#7C3AED",
+    yMin: 0,
+    yMax: 1.5,
+    xMin: 3.05,
+    xMax: 6.1,
+    ...metersToGrid(3.05, 6.1, 0, 1.5, "pickleball"),
+    description: "Baseline odd side",
+    tacticalAdvice: "Stay back for the bounce, then close the gap",
+    isPressureZone: true,
+  },
+];
+
+// Pickleball Functional Zones (Based on shot types)
+const PICKLEBALL_FUNCTIONAL_ZONES: ZoneDefinition[] = [
+  {
+    id: "kitchen",
+    name: "Kitchen (NVZ)",
+    emoji: "🥒",
+    color: "#10B981",
+    yMin: 4.575,
+    yMax: 6.705,
+    xMin: 0,
+    xMax: 6.1,
+    ...metersToGrid(0, 6.1, 4.575, 6.705, "pickleball"),
+    description: "Non-volley zone - bounced balls only",
+    tacticalAdvice: "Step in to dink a short ball, then step straight back out",
+  },
+  {
+    id: "dink",
+    name: "Dink Zone",
+    emoji: "🎯",
+    color: "#22C55E",
+    yMin: 3.6,
+    yMax: 4.575,
+    xMin: 0,
+    xMax: 6.1,
+    ...metersToGrid(0, 6.1, 3.6, 4.575, "pickleball"),
+    description: "Just behind the kitchen line",
+    tacticalAdvice: "Home base - dink, block and counter-attack from here",
+  },
+  {
+    id: "reset",
+    name: "Reset Zone",
+    emoji: "⚡",
+    color: "#F59E0B",
+    yMin: 1.5,
+    yMax: 3.6,
+    xMin: 0,
+    xMax: 6.1,
+    ...metersToGrid(0, 6.1, 1.5, 3.6, "pickleball"),
+    description: "Drop and reset area",
+    tacticalAdvice: "Soft hands - drop it into the kitchen and move up",
+    isPressureZone: true,
+  },
+  {
+    id: "drive",
+    name: "Drive Zone",
+    emoji: "🛡️",
+    color: "#8B5CF6",
+    yMin: 0,
+    yMax: 1.5,
+    xMin: 0,
+    xMax: 6.1,
+    ...metersToGrid(0, 6.1, 0, 1.5, "pickleball"),
+    description: "Baseline serve, return and drive area",
+    tacticalAdvice: "Serve deep, return deep, choose drop or drive on the third shot",
+    isPressureZone: true,
+  },
+];
+
 // =============================================================================
 // ZONE SYSTEM EXPORTS
 // =============================================================================
@@ -632,11 +831,41 @@ export const TENNIS_ZONE_SYSTEMS: ZoneSystem[] = [
   },
 ];
 
+// Pickleball zone systems
+export const PICKLEBALL_ZONE_SYSTEMS: ZoneSystem[] = [
+  {
+    id: "traffic-light",
+    name: "Traffic Light",
+    description: "3-zone system (Kitchen Line/Transition/Baseline)",
+    zones: PICKLEBALL_TRAFFIC_LIGHT_ZONES,
+    coachingTips:
+      "The Pickleball Traffic Light system shows the one thing every coach preaches: get to the kitchen line. Green (kitchen line) is where points are won. Orange (transition) is where you reset—drop the ball and keep moving forward. Purple (baseline) is only for serving and returning; after the return, both players should be moving up.",
+  },
+  {
+    id: "6-zone",
+    name: "6-Zone Tactical",
+    description: "Split by depth and court side",
+    zones: PICKLEBALL_SIX_ZONE_SYSTEM,
+    coachingTips:
+      "The 6-Zone system shows side balance for doubles partners. Partners should reach the kitchen line together and stay side by side. Watch for one player stuck in transition while their partner is up—that gap down the middle is what opponents target.",
+  },
+  {
+    id: "functional",
+    name: "Functional",
+    description: "Based on shot types and tactics",
+    zones: PICKLEBALL_FUNCTIONAL_ZONES,
+    coachingTips:
+      "The Functional system maps zones to shot types. The kitchen is for bounced dinks only—step in and step out. The dink zone just behind the line is home base. The reset zone is for soft drops under pressure. The drive zone is for serves, returns and the third shot; don't stay there.",
+  },
+];
+
 // Helper to get zone systems for a specific sport
 export function getZoneSystemsForSport(sport: Sport): ZoneSystem[] {
   switch (sport) {
     case "tennis":
       return TENNIS_ZONE_SYSTEMS;
+    case "pickleball":
+      return PICKLEBALL_ZONE_SYSTEMS;
     case "padel":
     default:
       return PADEL_ZONE_SYSTEMS;
@@ -645,6 +874,3 @@ export function getZoneSystemsForSport(sport: Sport): ZoneSystem[] {
 
 // Default export (backward compatible - uses Padel)
 export const ZONE_SYSTEMS = PADEL_ZONE_SYSTEMS;
-
-
-
@@ -86,6 +86,14 @@ export function calculateZoneDominance(
         // Clamp to valid range (in case of tracking beyond court)
         if (courtY < 0) courtY = 0;
       }
+    } else if (sport === "pickleball") {
+      const NET_POSITION = 6.705; // Net is at center of full court
+      const FULL_COURT = 13.41;
+
+      // Mirror opponent's side onto the same baseline-to-net range
+      courtY = rawCourtY > NET_POSITION ? FULL_COURT - rawCourtY : rawCourtY;
+      // Clamp positions behind the baseline to the baseline zone
+      if (courtY < 0) courtY = 0;
     } else {
       // Padel: uses 0-20 range for full court, 0-10 per half
       let rawY = rawCourtY;
@@ -128,8 +136,3 @@ export function calculateZoneDominance(
     entryCount: zoneTimes[z.id].entries,
   }));
 }
-
-
-
-
-
@@ -1,7 +1,8 @@
 "use client";
 
 import { RefObject, useMemo, useRef, useCallback, useState, useEffect } from "react";
-import { Box, Flex, Text } from "@radix-ui/themes";
+import { Box, Flex, Text, Tooltip } from "@radix-ui/themes";
+import { Link2Icon } from "@radix-ui/react-icons";
 import { CONFIG, OVERLAY_COLORS } from "../constants";
 import { StatisticsResult, Task, BallBounce } from "../types";
 import { formatDuration } from "../utils";
@@ -90,6 +91,8 @@ interface MainTimelineProps {
   enhancedBallBounces?: BallBounce[];
   showOnlyRallies?: boolean;
   rallyBuffer?: number;
+  /** Edit mode: show a merge control between consecutive rallies */
+  onMergeRallies?: (rallyIndex: number) => void;
 }
 
 export function MainTimeline({
@@ -102,6 +105,7 @@ export function MainTimeline({
   enhancedBallBounces,
   showOnlyRallies = false,
   rallyBuffer = CONFIG.RALLY_START_OFFSET_SECONDS,
+  onMergeRallies,
 }: MainTimelineProps) {
   const [hoveredRallyIdx, setHoveredRallyIdx] = useState<number | null>(null);
   
@@ -468,6 +472,42 @@ export function MainTimeline({
             })
           )}
 
+          {/* Merge controls between consecutive rallies (edit mode) */}
+          {onMergeRallies && rallies.slice(0, -1).map(([, end], i) => {
+            const position = showOnlyRallies && rallyMetrics
+              ? (rallyMetrics.rallyPositions[i].end / rallyMetrics.totalRallyDuration) * 100
+              : ((end + rallies[i + 1][0]) / 2 / totalDuration) * 100;
+
+            return (
+              <Tooltip key={`merge-${i}`} content={`Merge rallies ${i + 1} and ${i + 2}`}>
+                <Box
+                  onClick={(e: React.MouseEvent) => {
+                    e.stopPropagation();
+                    onMergeRallies(i);
+                  }}
+                  style={{
+                    position: "absolute",
+                    left: `${position}%`,
+                    top: "50%",
+                    transform: "translate(-50%, -50%)",
+                    width: "16px",
+                    height: "16px",
+                    borderRadius: "50%",
+                    backgroundColor: "var(--amber-9)",
+                    color: "white",
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "center",
+                    cursor: "pointer",
+                    zIndex: 20,
+                  }}
+                >
+                  <Link2Icon width={10} height={10} />
+                </Box>
+              </Tooltip>
+            );
+          })}
+
           {/* Playhead - draggable */}
           <DraggablePlayhead
             currentTime={currentTime}
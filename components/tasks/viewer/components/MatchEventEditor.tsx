@@ -0,0 +1,263 @@
+"use client";
+
+import { useState } from "react";
+import { Box, Flex, Text, Card, Select, Button, Badge, IconButton, Tooltip, Separator } from "@radix-ui/themes";
+import { Pencil1Icon, ResetIcon, TrashIcon, PlusIcon, ColumnSpacingIcon, Link2Icon, UpdateIcon } from "@radix-ui/react-icons";
+import { findNearestByTimestamp } from "@/utils/court-calibration";
+import {
+  findSwing,
+  getSwingTypeOptions,
+  isSameEvent,
+  type MatchEventRef,
+} from "@/utils/match-corrections";
+import type { StatisticsResult, BallBounce } from "../types";
+import type { UseMatchCorrectionsResult } from "../hooks";
+import { formatSwingType, getFilteredPlayers, getPlayerDisplayName } from "../utils";
+
+interface MatchEventEditorProps {
+  result: StatisticsResult;
+  bounces: BallBounce[];
+  currentTime: number;
+  selectedRallyIndex: number | null;
+  selectedEvent: MatchEventRef | null;
+  onSelectedEventChange: (event: MatchEventRef | null) => void;
+  matchCorrections: UseMatchCorrectionsResult;
+  playerDisplayNames: Record<number, string>;
+  onClose: () => void;
+}
+
+// Event times need sub-second precision, unlike durations
+function formatEventTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, "0");
+  return `${mins}:${secs}`;
+}
+
+function formatBounceType(type: string): string {
+  return type.replace(/_/g, " ").replace(/\b\w/g, c => c.toUpperCase());
+}
+
+/**
+ * Edit mode for the match timelines: relabel, add, delete and reassign swings,
+ * add or delete bounces, split or merge rallies and swap player IDs
+ */
+export function MatchEventEditor({
+  result,
+  bounces,
+  currentTime,
+  selectedRallyIndex,
+  selectedEvent,
+  onSelectedEventChange,
+  matchCorrections,
+  playerDisplayNames,
+  onClose,
+}: MatchEventEditorProps) {
+  const { corrections, addCorrection, undoCorrection, resetCorrections } = matchCorrections;
+  const swingTypes = getSwingTypeOptions(result);
+  const players = getFilteredPlayers(result.players);
+  const getName = (playerId: number) => getPlayerDisplayName(playerId, result.players, playerDisplayNames);
+
+  const [newSwingPlayer, setNewSwingPlayer] = useState<string | null>(null);
+  const [newSwingType, setNewSwingType] = useState<string | null>(null);
+  const [swapPlayers, setSwapPlayers] = useState<[string | null, string | null]>([null, null]);
+
+  const addPlayerId = newSwingPlayer ?? (players[0] ? String(players[0].player_id) : null);
+  const addSwingType = newSwingType ?? swingTypes[0];
+  const swapA = swapPlayers[0] ?? (players[0] ? String(players[0].player_id) : null);
+  const swapB = swapPlayers[1] ?? (players[1] ? String(players[1].player_id) : null);
+
+  const selectedSwing = selectedEvent?.kind === "swing"
+    ? findSwing(result, selectedEvent.playerId, selectedEvent.timestamp)
+    : null;
+  const selectedBounce = selectedEvent?.kind === "bounce"
+    ? bounces.find(b => isSameEvent(selectedEvent, { kind: "bounce", timestamp: b.timestamp }))
+    : null;
+
+  const rally = selectedRallyIndex !== null ? result.rallies[selectedRallyIndex] : undefined;
+  const canSplit = !!rally && currentTime > rally[0] && currentTime < rally[1];
+  const canMerge = selectedRallyIndex !== null && selectedRallyIndex < result.rallies.length - 1;
+  const hasBallAtPlayhead = !!findNearestByTimestamp(result.ball_positions ?? [], currentTime);
+
+  const handleAddSwing = () => {
+    if (!addPlayerId) return;
+    const playerId = Number(addPlayerId);
+    addCorrection({ type: "add_swing", playerId, timestamp: currentTime, swingType: addSwingType });
+    onSelectedEventChange({ kind: "swing", playerId, timestamp: currentTime });
+  };
+
+  const handleAddBounce = () => {
+    addCorrection({ type: "add_bounce", timestamp: currentTime });
+    onSelectedEventChange({ kind: "bounce", timestamp: currentTime });
+  };
+
+  const handleDeleteSelected = () => {
+    if (selectedSwing) {
+      addCorrection({ type: "delete_swing", playerId: selectedSwing.player_id, timestamp: selectedSwing.ball_hit.timestamp });
+    } else if (selectedBounce) {
+      addCorrection({ type: "delete_bounce", timestamp: selectedBounce.timestamp });
+    }
+    onSelectedEventChange(null);
+  };
+
+  const handleReassign = (value: string) => {
+    if (!selectedSwing) return;
+    const toPlayerId = Number(value);
+    if (toPlayerId === selectedSwing.player_id) return;
+    addCorrection({
+      type: "reassign_swing",
+      playerId: selectedSwing.player_id,
+      timestamp: selectedSwing.ball_hit.timestamp,
+      toPlayerId,
+    });
+    onSelectedEventChange({ kind: "swing", playerId: toPlayerId, timestamp: selectedSwing.ball_hit.timestamp });
+  };
+
+  const handleSwap = () => {
+    if (!rally || !swapA || !swapB || swapA === swapB) return;
+    addCorrection({ type: "swap_players", playerA: Number(swapA), playerB: Number(swapB), start: rally[0], end: rally[1] });
+    onSelectedEventChange(null);
+  };
+
+  const playerSelect = (value: string | null, onChange: (value: string) => void, label: string) => (
+    <Select.Root size="1" value={value ?? undefined} onValueChange={onChange}>
+      <Select.Trigger aria-label={label} placeholder="Player" />
+      <Select.Content>
+        {players.map(p => (
+          <Select.Item key={p.player_id} value={String(p.player_id)}>{getName(p.player_id)}</Select.Item>
+        ))}
+      </Select.Content>
+    </Select.Root>
+  );
+
+  const swingTypeSelect = (value: string, onChange: (value: string) => void) => (
+    <Select.Root size="1" value={value} onValueChange={onChange}>
+      <Select.Trigger aria-label="Swing type" />
+      <Select.Content>
+        {/* Keep an unknown current label selectable */}
+        {(swingTypes.includes(value) ? swingTypes : [value, ...swingTypes]).map(type => (
+          <Select.Item key={type} value={type}>{formatSwingType(type)}</Select.Item>
+        ))}
+      </Select.Content>
+    </Select.Root>
+  );
+
+  return (
+    <Card style={{ border: "1px solid var(--amber-6)", marginBottom: "var(--space-3)" }}>
+      <Flex direction="column" gap="2" p="1">
+        <Flex align="center" gap="2">
+          <Pencil1Icon width={16} height={16} />
+          <Text size="2" weight="medium">Edit match events</Text>
+          {corrections.length > 0 && (
+            <Badge color="amber" variant="soft" size="1">
+              {corrections.length} {corrections.length === 1 ? "edit" : "edits"}
+            </Badge>
+          )}
+          <Box style={{ flex: 1 }} />
+          <Tooltip content="Undo last edit">
+            <IconButton size="1" variant="ghost" color="gray" disabled={corrections.length === 0} onClick={undoCorrection} aria-label="Undo last edit">
+              <ResetIcon />
+            </IconButton>
+          </Tooltip>
+          <Button size="1" variant="ghost" color="red" disabled={corrections.length === 0} onClick={resetCorrections}>
+            Restore original
+          </Button>
+          <Button size="1" variant="soft" onClick={onClose}>Done</Button>
+        </Flex>
+
+        <Separator size="4" />
+
+        {/* Selected event */}
+        {selectedSwing ? (
+          <Flex align="center" gap="2" wrap="wrap">
+            <Text size="1" color="gray" style={{ minWidth: 120 }}>
+              Swing at {formatEventTime(selectedSwing.ball_hit.timestamp)}
+            </Text>
+            {swingTypeSelect(selectedSwing.swing_type, value =>
+              addCorrection({
+                type: "relabel_swing",
+                playerId: selectedSwing.player_id,
+                timestamp: selectedSwing.ball_hit.timestamp,
+                swingType: value,
+              })
+            )}
+            {playerSelect(String(selectedSwing.player_id), handleReassign, "Hit by")}
+            <Tooltip content="Delete swing">
+              <IconButton size="1" variant="ghost" color="red" onClick={handleDeleteSelected} aria-label="Delete swing">
+                <TrashIcon />
+              </IconButton>
+            </Tooltip>
+          </Flex>
+        ) : selectedBounce ? (
+          <Flex align="center" gap="2">
+            <Text size="1" color="gray" style={{ minWidth: 120 }}>
+              {formatBounceType(selectedBounce.type)} bounce at {formatEventTime(selectedBounce.timestamp)}
+            </Text>
+            <Button size="1" variant="soft" color="red" onClick={handleDeleteSelected}>
+              <TrashIcon /> Delete bounce
+            </Button>
+          </Flex>
+        ) : (
+          <Text size="1" color="gray">
+            {selectedRallyIndex !== null
+              ? "Click a swing or bounce on the rally timeline to edit it."
+              : "Select a rally to edit its swings and bounces."}
+          </Text>
+        )}
+
+        {/* New events at the playhead */}
+        <Flex align="center" gap="2" wrap="wrap">
+          <Text size="1" color="gray" style={{ minWidth: 120 }}>
+            At {formatEventTime(currentTime)}
+          </Text>
+          {playerSelect(addPlayerId, setNewSwingPlayer, "New swing player")}
+          {swingTypeSelect(addSwingType, setNewSwingType)}
+          <Button size="1" variant="soft" disabled={!addPlayerId} onClick={handleAddSwing}>
+            <PlusIcon /> Add swing
+          </Button>
+          <Tooltip content={hasBallAtPlayhead ? "Add a floor bounce at the playhead" : "No ball tracked at the playhead"}>
+            <Button size="1" variant="soft" disabled={!hasBallAtPlayhead} onClick={handleAddBounce}>
+              <PlusIcon /> Add bounce
+            </Button>
+          </Tooltip>
+        </Flex>
+
+        {/* Rally structure and player IDs */}
+        {selectedRallyIndex !== null && rally && (
+          <Flex align="center" gap="2" wrap="wrap">
+            <Text size="1" color="gray" style={{ minWidth: 120 }}>
+              Rally {selectedRallyIndex + 1}
+            </Text>
+            <Button
+              size="1"
+              variant="soft"
+              disabled={!canSplit}
+              onClick={() => addCorrection({ type: "split_rally", timestamp: currentTime })}
+            >
+              <ColumnSpacingIcon /> Split at playhead
+            </Button>
+            <Button
+              size="1"
+              variant="soft"
+              disabled={!canMerge}
+              onClick={() => addCorrection({ type: "merge_rallies", timestamp: rally[1] })}
+            >
+              <Link2Icon /> Merge with next
+            </Button>
+            {players.length >= 2 && (
+              <Flex align="center" gap="1">
+                {playerSelect(swapA, value => setSwapPlayers([value, swapB]), "First player to swap")}
+                <Text size="1" color="gray">↔</Text>
+                {playerSelect(swapB, value => setSwapPlayers([swapA, value]), "Second player to swap")}
+                <Tooltip content="Swap the two player IDs for this rally">
+                  <Button size="1" variant="soft" disabled={!swapA || !swapB || swapA === swapB} onClick={handleSwap}>
+                    <UpdateIcon /> Swap
+                  </Button>
+                </Tooltip>
+              </Flex>
+            )}
+          </Flex>
+        )}
+      </Flex>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { Box, Flex, Table, Text } from "@radix-ui/themes";
+import { TEAM_IDS, TENNIS_POINT_LABELS, otherTeam, type MatchScore, type TeamId } from "@/utils/match-score";
+import type { Player } from "../types";
+import { getTeamDisplayName } from "../utils";
+
+interface MatchScoreboardProps {
+  matchScore: MatchScore;
+  players: Player[];
+  playerDisplayNames?: Record<number, string>;
+}
+
+/**
+ * Points column for the current game, per team
+ */
+function getPointsLabel(matchScore: MatchScore, team: TeamId): string {
+  const { points, tiebreak } = matchScore.final;
+  const own = points[team];
+  const other = points[otherTeam(team)];
+
+  if (matchScore.sport === "pickleball" || tiebreak) return String(own);
+  if (own >= 3 && other >= 3) return own > other ? "AD" : "40";
+  return TENNIS_POINT_LABELS[own] ?? String(own);
+}
+
+/**
+ * Inferred scoreline: one row per team with completed sets, the current
+ * set's games and the current game's points
+ */
+export function MatchScoreboard({ matchScore, players, playerDisplayNames = {} }: MatchScoreboardProps) {
+  const { sport, final, teams, pointsWon, unresolved, rallies } = matchScore;
+  const isPickleball = sport === "pickleball";
+
+  return (
+    <Flex direction="column" gap="2">
+      <Table.Root size="1" variant="surface">
+        <Table.Header>
+          <Table.Row>
+            <Table.ColumnHeaderCell>Team</Table.ColumnHeaderCell>
+            {final.sets.map((_, idx) => (
+              <Table.ColumnHeaderCell key={idx} justify="center">Set {idx + 1}</Table.ColumnHeaderCell>
+            ))}
+            <Table.ColumnHeaderCell justify="center">{final.tiebreak ? "Games (TB)" : "Games"}</Table.ColumnHeaderCell>
+            <Table.ColumnHeaderCell justify="center">Points</Table.ColumnHeaderCell>
+          </Table.Row>
+        </Table.Header>
+        <Table.Body>
+          {TEAM_IDS.map(team => (
+            <Table.Row key={team}>
+              <Table.RowHeaderCell>
+                <Flex align="center" gap="2">
+                  {isPickleball && final.servingTeam === team && (
+                    <Box style={{ width: 6, height: 6, borderRadius: "50%", backgroundColor: "var(--mint-9)" }} />
+                  )}
+                  <Text weight="medium">
+                    {teams[team].playerIds.length > 0
+                      ? getTeamDisplayName(teams[team].playerIds, players, playerDisplayNames)
+                      : `Team ${team}`}
+                  </Text>
+                </Flex>
+              </Table.RowHeaderCell>
+              {final.sets.map((set, idx) => (
+                <Table.Cell key={idx} justify="center">
+                  <Text weight={set[team] > set[otherTeam(team)] ? "bold" : "regular"}>{set[team]}</Text>
+                </Table.Cell>
+              ))}
+              <Table.Cell justify="center">{final.games[team]}</Table.Cell>
+              <Table.Cell justify="center">
+                <Text weight="bold">{getPointsLabel(matchScore, team)}</Text>
+              </Table.Cell>
+            </Table.Row>
+          ))}
+        </Table.Body>
+      </Table.Root>
+      <Text size="1" color="gray">
+        Points won {pointsWon.A}–{pointsWon.B} over {rallies.length} rallies
+        {unresolved > 0 && ` · ${unresolved} undecided (set the outcome on the rally timeline)`}
+      </Text>
+    </Flex>
+  );
+}
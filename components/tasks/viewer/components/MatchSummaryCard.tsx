@@ -3,8 +3,10 @@
 import { useState, useEffect, useRef } from "react";
 import { Box, Flex, Grid, Heading, Text, Card, Separator } from "@radix-ui/themes";
 import { ResponsivePie } from "@nivo/pie";
+import type { MatchScore } from "@/utils/match-score";
 import { StatisticsResult, BallBounce } from "../types";
 import { formatSwingType } from "../utils";
+import { MatchScoreboard } from "./MatchScoreboard";
 
 // Same color mapping as PlayerCharts
 const SWING_TYPE_COLORS: Record<string, string> = {
@@ -41,9 +43,16 @@ const sportaiTheme = {
 interface MatchSummaryCardProps {
   result: StatisticsResult;
   enhancedBallBounces?: BallBounce[];
+  matchScore?: MatchScore | null;
+  playerDisplayNames?: Record<number, string>;
 }
 
-export function MatchSummaryCard({ result, enhancedBallBounces }: MatchSummaryCardProps) {
+export function MatchSummaryCard({
+  result,
+  enhancedBallBounces,
+  matchScore,
+  playerDisplayNames,
+}: MatchSummaryCardProps) {
   const players = result.players || [];
   const rallies = result.rallies || [];
   const ballBounces = result.ball_bounces || [];
@@ -155,6 +164,21 @@ export function MatchSummaryCard({ result, enhancedBallBounces }: MatchSummaryCa
           </Box>
         </Grid>
 
+        {/* Inferred score */}
+        {matchScore && (
+          <>
+            <Separator size="4" />
+            <Heading size="2" weight="medium" style={{ color: "var(--gray-11)" }}>
+              Score
+            </Heading>
+            <MatchScoreboard
+              matchScore={matchScore}
+              players={players}
+              playerDisplayNames={playerDisplayNames}
+            />
+          </>
+        )}
+
         {/* Charts Section */}
         {(hasSwingData || hasSpeedData) && (
           <>
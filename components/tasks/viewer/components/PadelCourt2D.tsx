@@ -2,7 +2,8 @@
 
 import { useMemo } from "react";
 import { Box } from "@radix-ui/themes";
-import { OVERLAY_COLORS, PLAYER_CONFIG } from "../constants";
+import type { LineCall } from "@/utils/line-calls";
+import { OVERLAY_COLORS, PLAYER_CONFIG, LINE_CALL_COLORS } from "../constants";
 
 // Padel court dimensions in meters (portrait/vertical orientation)
 const COURT = {
@@ -85,6 +86,7 @@ interface PadelCourt2DProps {
   showTrajectories?: boolean;
   showPlayers?: boolean;
   showTeamZoneSync?: boolean; // Show team zone sync overlay (traffic light system)
+  lineCalls?: LineCall[]; // In/out calls - colors the bounce markers
   horizontal?: boolean; // When true, render court in landscape orientation (for mobile)
 }
 
@@ -308,6 +310,7 @@ export function PadelCourt2D({
   showTrajectories = true,
   showPlayers = true,
   showTeamZoneSync = false,
+  lineCalls,
   horizontal = false,
 }: PadelCourt2DProps) {
   // Court colors
@@ -382,6 +385,12 @@ export function PadelCourt2D({
     });
   }, [trajectories, currentTime, currentRallyStart]);
 
+  // Line call verdict per floor bounce, keyed by timestamp
+  const lineCallVerdicts = useMemo(
+    () => new Map((lineCalls || []).map(call => [call.bounce.timestamp, call.verdict])),
+    [lineCalls]
+  );
+
   // Find recent floor bounces (only FLOOR bounces - actual ball landings on court)
   const recentBounces = useMemo(() => {
     if (!showBounces) return [];
@@ -716,6 +725,7 @@ export function PadelCourt2D({
           const glowColor = "rgba(234, 179, 8, 0.8)";
           
           const { x, y } = toCourtCoords(bounce.court_pos);
+          const verdict = lineCallVerdicts.get(bounce.timestamp);
           
           // Skip if outside court bounds
           if (!isInBounds(x, y)) return null;
@@ -734,6 +744,10 @@ export function PadelCourt2D({
                   opacity={Math.max(0, 0.7 - age * 1.4)}
                 />
               )}
+              {/* Line call ring - green in, red out, amber too close to call */}
+              {verdict && (
+                <circle cx={x} cy={y} r={0.5} fill="none" stroke={LINE_CALL_COLORS[verdict]} strokeWidth={0.1} />
+              )}
               {/* Tennis ball - yellow circle with white border */}
               <circle
                 cx={x}
@@ -743,6 +757,12 @@ export function PadelCourt2D({
                 stroke="#ffffff"
                 strokeWidth={0.08}
               />
+              {verdict === "out" && (
+                <g stroke={LINE_CALL_COLORS.out} strokeWidth={0.08} strokeLinecap="round">
+                  <line x1={x - 0.2} y1={y - 0.2} x2={x + 0.2} y2={y + 0.2} />
+                  <line x1={x - 0.2} y1={y + 0.2} x2={x + 0.2} y2={y - 0.2} />
+                </g>
+              )}
               {/* Glow effect on very recent bounces */}
               {age < 0.3 && (
                 <circle
@@ -0,0 +1,123 @@
+"use client";
+
+import { useMemo } from "react";
+import { Box, Flex, Text, Card, Heading } from "@radix-ui/themes";
+import { ResponsiveLine } from "@nivo/line";
+import type { StatisticsResult } from "../../types";
+import { CHART_THEME } from "../../constants";
+import { PAIR_COLORS } from "./constants";
+import { calculatePairFormation } from "./utils";
+import { PairReplay, PairMetricsCard } from "./components";
+
+interface PairFormationViewProps {
+  result: StatisticsResult | null;
+  playerDisplayNames?: Record<number, string>;
+}
+
+/**
+ * Padel pair formation: partner spacing, net/split share, lateral coverage
+ * and lob reaction, with a 2D replay of each rally
+ */
+export function PairFormationView({ result, playerDisplayNames = {} }: PairFormationViewProps) {
+  const pairs = useMemo(
+    () => (result ? calculatePairFormation(result).filter((p) => p.samples.length > 0) : []),
+    [result]
+  );
+
+  const pairNames = useMemo(
+    () => pairs.map((p) => p.playerIds.map((id) => playerDisplayNames[id] || `Player ${id}`).join(" & ")),
+    [pairs, playerDisplayNames]
+  );
+
+  // Short labels drawn inside the replay markers
+  const playerLabels = useMemo(() => {
+    const labels: Record<number, string> = {};
+    pairs.forEach((p) =>
+      p.playerIds.forEach((id) => {
+        labels[id] = (playerDisplayNames[id] || `P${id}`).charAt(0).toUpperCase();
+      })
+    );
+    return labels;
+  }, [pairs, playerDisplayNames]);
+
+  const spacingSeries = useMemo(
+    () =>
+      pairs.map((p, idx) => ({
+        id: pairNames[idx],
+        data: p.distanceByRally.map((r) => ({ x: r.rallyIndex + 1, y: Math.round(r.avgDistance * 10) / 10 })),
+      })),
+    [pairs, pairNames]
+  );
+
+  if (!result || pairs.length === 0) return null;
+
+  return (
+    <Card style={{ border: "1px solid var(--gray-5)", animation: "fadeIn 0.2s ease-out" }}>
+      <Flex direction="column" gap="4" p="4">
+        <Box>
+          <Heading size="3" weight="medium">Pair Formation</Heading>
+          <Text size="2" color="gray">
+            How each pair moves together during rallies
+          </Text>
+        </Box>
+
+        <Flex gap="4" wrap="wrap" align="start">
+          <Box style={{ flex: "1 1 240px", minWidth: 220, maxWidth: 320 }}>
+            <PairReplay
+              pairs={pairs}
+              rallies={result.rallies || []}
+              pairNames={pairNames}
+              playerLabels={playerLabels}
+            />
+          </Box>
+
+          <Flex direction="column" gap="3" style={{ flex: "2 1 320px" }}>
+            <Flex gap="3" wrap="wrap">
+              {pairs.map((pair, idx) => (
+                <PairMetricsCard
+                  key={pair.key}
+                  pair={pair}
+                  pairName={pairNames[idx]}
+                  color={PAIR_COLORS[idx % PAIR_COLORS.length]}
+                />
+              ))}
+            </Flex>
+
+            <Flex direction="column" gap="1">
+              <Text size="1" color="gray" weight="medium" style={{ textTransform: "uppercase", letterSpacing: "0.5px" }}>
+                Partner spacing per rally (m)
+              </Text>
+              <Box style={{ height: 180 }}>
+                <ResponsiveLine
+                  data={spacingSeries}
+                  theme={CHART_THEME}
+                  margin={{ top: 10, right: 12, bottom: 28, left: 36 }}
+                  xScale={{ type: "linear", min: "auto", max: "auto" }}
+                  yScale={{ type: "linear", min: 0, max: "auto" }}
+                  colors={PAIR_COLORS}
+                  curve="monotoneX"
+                  lineWidth={2}
+                  pointSize={4}
+                  enableGridX={false}
+                  axisLeft={{ tickValues: 4, tickSize: 0, tickPadding: 6 }}
+                  axisBottom={{ tickSize: 0, tickPadding: 6, legend: "Rally", legendOffset: 24, legendPosition: "middle" }}
+                  enableSlices="x"
+                  sliceTooltip={({ slice }) => (
+                    <Box style={{ ...CHART_THEME.tooltip.container, padding: "6px 10px" }}>
+                      <Text size="1" weight="medium" as="p">Rally {slice.points[0]?.data.xFormatted}</Text>
+                      {slice.points.map((point) => (
+                        <Text key={point.id} size="1" as="p" style={{ color: point.seriesColor }}>
+                          {point.seriesId}: {point.data.yFormatted} m
+                        </Text>
+                      ))}
+                    </Box>
+                  )}
+                />
+              </Box>
+            </Flex>
+          </Flex>
+        </Flex>
+      </Flex>
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { Box, Flex, Text, Card, Tooltip, Badge } from "@radix-ui/themes";
+import type { PairFormationStats } from "../types";
+import { FORMATIONS, FORMATION_COLORS, FORMATION_LABELS, GAP_ALERT_M } from "../constants";
+
+interface PairMetricsCardProps {
+  pair: PairFormationStats;
+  pairName: string;
+  color: string;
+}
+
+function Metric({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  const content = (
+    <Flex direction="column" gap="0">
+      <Text size="1" color="gray">{label}</Text>
+      <Text size="3" weight="bold">{value}</Text>
+    </Flex>
+  );
+  return hint ? <Tooltip content={hint}>{content}</Tooltip> : content;
+}
+
+/**
+ * Summary of how one pair moved together: spacing, formations, lateral
+ * coverage and reaction to lobs
+ */
+export function PairMetricsCard({ pair, pairName, color }: PairMetricsCardProps) {
+  const total = pair.trackedTime;
+  const percent = (seconds: number) => (total > 0 ? (seconds / total) * 100 : 0);
+
+  const answered = pair.lobs.filter((l) => l.reactionTime !== null);
+  const avgReaction = answered.length > 0
+    ? answered.reduce((sum, l) => sum + l.reactionTime!, 0) / answered.length
+    : null;
+  const together = pair.lobs.filter((l) => l.together).length;
+
+  return (
+    <Card style={{ border: "1px solid var(--gray-5)", flex: "1 1 260px", minWidth: 240 }}>
+      <Flex direction="column" gap="3" p="3">
+        <Flex align="center" gap="2">
+          <Box style={{ width: 10, height: 10, borderRadius: "50%", backgroundColor: color, flexShrink: 0 }} />
+          <Text size="3" weight="bold">{pairName}</Text>
+        </Flex>
+
+        <Flex gap="4" wrap="wrap">
+          <Metric label="Avg spacing" value={`${pair.avgDistance.toFixed(1)} m`} />
+          <Metric label="Max spacing" value={`${pair.maxDistance.toFixed(1)} m`} />
+          <Metric
+            label="Avg gap"
+            value={`${pair.avgGap.toFixed(1)} m`}
+            hint="Widest stretch of the court width neither partner could reach"
+          />
+        </Flex>
+
+        {/* Formation share */}
+        <Flex direction="column" gap="1">
+          <Flex style={{ height: 10, borderRadius: 5, overflow: "hidden", backgroundColor: "var(--gray-4)" }}>
+            {FORMATIONS.map((formation) => (
+              <Box
+                key={formation}
+                style={{
+                  width: `${percent(pair.formationTime[formation])}%`,
+                  backgroundColor: FORMATION_COLORS[formation],
+                }}
+              />
+            ))}
+          </Flex>
+          <Flex gap="3" wrap="wrap">
+            {FORMATIONS.map((formation) => (
+              <Text key={formation} size="1" color="gray">
+                <span style={{ color: FORMATION_COLORS[formation], fontWeight: 600 }}>
+                  {Math.round(percent(pair.formationTime[formation]))}%
+                </span>{" "}
+                {FORMATION_LABELS[formation]}
+              </Text>
+            ))}
+          </Flex>
+        </Flex>
+
+        {percent(pair.middleGapTime) >= 10 && (
+          <Badge color="orange" variant="soft" style={{ alignSelf: "flex-start" }}>
+            Middle open ({GAP_ALERT_M}+ m) {Math.round(percent(pair.middleGapTime))}% of the time
+          </Badge>
+        )}
+
+        {/* Lob reaction */}
+        <Flex gap="4" wrap="wrap">
+          <Metric label="Lobs faced at net" value={String(pair.lobs.length)} />
+          {pair.lobs.length > 0 && (
+            <>
+              <Metric
+                label="Reaction"
+                value={avgReaction !== null ? `${avgReaction.toFixed(1)} s` : "—"}
+                hint={`Average time to drop back after a lob (${answered.length} of ${pair.lobs.length} lobs)`}
+              />
+              <Metric
+                label="Dropped together"
+                value={`${Math.round((together / pair.lobs.length) * 100)}%`}
+                hint="Both partners retreated after the lob"
+              />
+            </>
+          )}
+        </Flex>
+      </Flex>
+    </Card>
+  );
+}
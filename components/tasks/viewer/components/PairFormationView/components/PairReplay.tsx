@@ -0,0 +1,201 @@
+"use client";
+
+import { useState, useMemo, useEffect } from "react";
+import { Box, Flex, Text, Select, IconButton, Slider, Badge } from "@radix-ui/themes";
+import { PlayIcon, PauseIcon } from "@radix-ui/react-icons";
+import { COURT_DIMENSIONS } from "@/utils/court-calibration";
+import type { PairFormationStats, PairSample } from "../types";
+import {
+  SAMPLE_STEP_S,
+  FORMATIONS,
+  FORMATION_COLORS,
+  FORMATION_LABELS,
+  PAIR_COLORS,
+} from "../constants";
+
+interface PairReplayProps {
+  pairs: PairFormationStats[];
+  rallies: [number, number][];
+  pairNames: string[];
+  playerLabels: Record<number, string>;
+}
+
+const { width: COURT_WIDTH, length: COURT_LENGTH, serviceLineFromBack } = COURT_DIMENSIONS.padel;
+
+// Lob badge stays up this long after the lob (seconds)
+const LOB_BADGE_S = 1.5;
+
+const SPEEDS = [1, 2, 4];
+
+/**
+ * Animated top-down replay of both pairs through a rally, with partners
+ * linked by a line colored by their formation
+ */
+export function PairReplay({ pairs, rallies, pairNames, playerLabels }: PairReplayProps) {
+  const rallyOptions = useMemo(
+    () => [...new Set(pairs.flatMap((p) => p.samples.map((s) => s.rallyIndex)))].sort((a, b) => a - b),
+    [pairs]
+  );
+  const [rallyIndex, setRallyIndex] = useState<number | null>(null);
+  const [frame, setFrame] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const activeRally = rallyIndex ?? rallyOptions[0] ?? null;
+  const [rallyStart, rallyEnd] = activeRally !== null ? rallies[activeRally] : [0, 0];
+  const frameCount = Math.floor((rallyEnd - rallyStart) / SAMPLE_STEP_S) + 1;
+
+  // Samples of the rally per pair, keyed by frame
+  const framesByPair = useMemo(
+    () =>
+      pairs.map((pair) => {
+        const frames = new Map<number, PairSample>();
+        for (const sample of pair.samples) {
+          if (sample.rallyIndex !== activeRally) continue;
+          frames.set(Math.round((sample.t - rallyStart) / SAMPLE_STEP_S), sample);
+        }
+        return frames;
+      }),
+    [pairs, activeRally, rallyStart]
+  );
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      setFrame((f) => {
+        if (f + 1 >= frameCount) {
+          setIsPlaying(false);
+          return f;
+        }
+        return f + 1;
+      });
+    }, (SAMPLE_STEP_S * 1000) / speed);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, frameCount]);
+
+  if (activeRally === null) return null;
+
+  const time = rallyStart + frame * SAMPLE_STEP_S;
+  const current = framesByPair.map((frames) => frames.get(frame) ?? null);
+  const lobbedPairs = pairs.filter((pair) =>
+    pair.lobs.some((lob) => time >= lob.timestamp && time - lob.timestamp <= LOB_BADGE_S)
+  );
+
+  const handleRallyChange = (value: string) => {
+    setRallyIndex(Number(value));
+    setFrame(0);
+    setIsPlaying(false);
+  };
+
+  const handlePlayToggle = () => {
+    if (!isPlaying && frame + 1 >= frameCount) setFrame(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <Flex direction="column" gap="3">
+      <Flex align="center" gap="2" wrap="wrap">
+        <Select.Root value={String(activeRally)} onValueChange={handleRallyChange} size="1">
+          <Select.Trigger />
+          <Select.Content>
+            {rallyOptions.map((idx) => (
+              <Select.Item key={idx} value={String(idx)}>
+                Rally {idx + 1}
+              </Select.Item>
+            ))}
+          </Select.Content>
+        </Select.Root>
+        <IconButton size="1" variant="soft" onClick={handlePlayToggle} aria-label={isPlaying ? "Pause" : "Play"}>
+          {isPlaying ? <PauseIcon /> : <PlayIcon />}
+        </IconButton>
+        {SPEEDS.map((s) => (
+          <Badge
+            key={s}
+            color={speed === s ? "mint" : "gray"}
+            variant={speed === s ? "solid" : "soft"}
+            style={{ cursor: "pointer" }}
+            onClick={() => setSpeed(s)}
+          >
+            {s}×
+          </Badge>
+        ))}
+        <Text size="1" color="gray">
+          {(time - rallyStart).toFixed(1)}s
+        </Text>
+      </Flex>
+
+      <Slider
+        size="1"
+        min={0}
+        max={Math.max(0, frameCount - 1)}
+        value={[frame]}
+        onValueChange={([value]) => setFrame(value)}
+      />
+
+      <Box style={{ position: "relative", width: "100%", maxWidth: 240, margin: "0 auto" }}>
+        <svg viewBox={`0 0 ${COURT_WIDTH} ${COURT_LENGTH}`} style={{ width: "100%", display: "block", borderRadius: 6 }}>
+          <rect x={0} y={0} width={COURT_WIDTH} height={COURT_LENGTH} fill="#3B5DC9" />
+          <rect x={0} y={COURT_LENGTH / 2 - 0.1} width={COURT_WIDTH} height={0.2} fill="#6B7DB3" />
+          <g stroke="#ffffff" strokeWidth={0.05} opacity={0.8}>
+            <line x1={0} y1={serviceLineFromBack} x2={COURT_WIDTH} y2={serviceLineFromBack} />
+            <line x1={0} y1={COURT_LENGTH - serviceLineFromBack} x2={COURT_WIDTH} y2={COURT_LENGTH - serviceLineFromBack} />
+            <line x1={COURT_WIDTH / 2} y1={serviceLineFromBack} x2={COURT_WIDTH / 2} y2={COURT_LENGTH - serviceLineFromBack} />
+          </g>
+
+          {current.map((sample, pairIdx) => {
+            if (!sample) return null;
+            const [a, b] = sample.positions;
+            return (
+              <g key={pairs[pairIdx].key}>
+                <line
+                  x1={a[0]} y1={a[1]} x2={b[0]} y2={b[1]}
+                  stroke={FORMATION_COLORS[sample.formation]}
+                  strokeWidth={0.15}
+                  strokeDasharray={sample.formation === "split" ? "0.3 0.2" : undefined}
+                />
+                {sample.positions.map(([x, y], idx) => {
+                  const playerId = pairs[pairIdx].playerIds[idx];
+                  return (
+                    <g key={playerId}>
+                      <circle cx={x} cy={y} r={0.45} fill={PAIR_COLORS[pairIdx % PAIR_COLORS.length]} stroke="#ffffff" strokeWidth={0.06} />
+                      <text x={x} y={y + 0.17} textAnchor="middle" fontSize={0.45} fontWeight={700} fill="#ffffff">
+                        {playerLabels[playerId]}
+                      </text>
+                    </g>
+                  );
+                })}
+              </g>
+            );
+          })}
+        </svg>
+      </Box>
+
+      <Flex direction="column" gap="1">
+        {pairs.map((pair, idx) => {
+          const sample = current[idx];
+          return (
+            <Flex key={pair.key} align="center" gap="2">
+              <Box style={{ width: 8, height: 8, borderRadius: "50%", backgroundColor: PAIR_COLORS[idx % PAIR_COLORS.length], flexShrink: 0 }} />
+              <Text size="1" weight="medium">{pairNames[idx]}</Text>
+              <Text size="1" color="gray">
+                {sample ? `${FORMATION_LABELS[sample.formation]} · ${sample.distance.toFixed(1)} m apart` : "Not tracked"}
+              </Text>
+              {lobbedPairs.includes(pair) && <Badge color="indigo" size="1">Lob</Badge>}
+            </Flex>
+          );
+        })}
+      </Flex>
+
+      <Flex gap="3" wrap="wrap">
+        {FORMATIONS.map((formation) => (
+          <Flex key={formation} align="center" gap="1">
+            <Box style={{ width: 12, height: 3, backgroundColor: FORMATION_COLORS[formation] }} />
+            <Text size="1" color="gray">{FORMATION_LABELS[formation]}</Text>
+          </Flex>
+        ))}
+      </Flex>
+    </Flex>
+  );
+}
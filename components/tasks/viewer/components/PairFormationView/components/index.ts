@@ -0,0 +1,2 @@
+export { PairReplay } from "./PairReplay";
+export { PairMetricsCard } from "./PairMetricsCard";
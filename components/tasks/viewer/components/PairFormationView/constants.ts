@@ -0,0 +1,45 @@
+import type { CourtDepth, PairFormation } from "./types";
+
+// Pairs are sampled on this grid during rallies (seconds)
+export const SAMPLE_STEP_S = 0.2;
+
+// Positions further apart than this aren't interpolated (seconds)
+export const MAX_POSITION_GAP_S = 1.0;
+
+// How far a player covers to either side without a full run (meters)
+export const LATERAL_REACH_M = 2.0;
+
+// Open middle at least this wide counts as a coverage gap (meters)
+export const GAP_ALERT_M = 1.0;
+
+// A lob is answered when the pair drops back this far within the window
+export const LOB_RETREAT_M = 1.5;
+export const LOB_PARTNER_RETREAT_M = 1.0;
+export const LOB_WINDOW_S = 3.0;
+
+// Traffic light zone ids mapped to court depth
+export const TRAFFIC_LIGHT_DEPTH: Record<string, CourtDepth> = {
+  green: "net",
+  orange: "transition",
+  purple: "back",
+};
+
+export const FORMATIONS: PairFormation[] = ["both_net", "split", "transition", "both_back"];
+
+export const FORMATION_LABELS: Record<PairFormation, string> = {
+  both_net: "Both at net",
+  split: "Split (one up, one back)",
+  transition: "Transition",
+  both_back: "Both back",
+};
+
+// Traffic light colors, with red for the split the coaches want to avoid
+export const FORMATION_COLORS: Record<PairFormation, string> = {
+  both_net: "#10B981",
+  split: "#EF4444",
+  transition: "#F59E0B",
+  both_back: "#8B5CF6",
+};
+
+// Matches the team card colors in TeamsTab
+export const PAIR_COLORS = ["#8B5CF6", "#F59E0B"];
@@ -0,0 +1,7 @@
+export { PairFormationView } from "./PairFormationView";
+export type {
+  PairFormation,
+  PairSample,
+  LobReaction,
+  PairFormationStats,
+} from "./types";
@@ -0,0 +1,50 @@
+export type PairFormation = "both_net" | "split" | "transition" | "both_back";
+
+export type CourtDepth = "net" | "transition" | "back";
+
+export type CoverageGapSide = "left" | "middle" | "right";
+
+/**
+ * Both partners at one instant of a rally (court coordinates in meters)
+ */
+export interface PairSample {
+  t: number;
+  rallyIndex: number;
+  positions: [[number, number], [number, number]];
+  distance: number;
+  formation: PairFormation;
+  /** Widest lateral stretch neither partner can reach, in meters */
+  gap: number;
+  gapSide: CoverageGapSide | null;
+}
+
+export interface LobReaction {
+  timestamp: number;
+  lobberId: number;
+  /** Seconds until the pair dropped back, null when it stayed */
+  reactionTime: number | null;
+  /** Both partners dropped back, not just one */
+  together: boolean;
+}
+
+export interface PairRallyDistance {
+  rallyIndex: number;
+  avgDistance: number;
+}
+
+export interface PairFormationStats {
+  key: string;
+  playerIds: [number, number];
+  samples: PairSample[];
+  /** Seconds of rally time with both partners tracked */
+  trackedTime: number;
+  avgDistance: number;
+  maxDistance: number;
+  distanceByRally: PairRallyDistance[];
+  /** Seconds per formation */
+  formationTime: Record<PairFormation, number>;
+  avgGap: number;
+  /** Seconds with an open middle of at least the alert width */
+  middleGapTime: number;
+  lobs: LobReaction[];
+}
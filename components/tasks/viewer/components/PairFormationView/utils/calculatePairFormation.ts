@@ -0,0 +1,254 @@
+import type { StatisticsResult, PlayerPosition } from "../../../types";
+import { COURT_DIMENSIONS } from "@/utils/court-calibration";
+import { getZoneSystemsForSport } from "../../CourtDominanceView/constants";
+import type { ZoneDefinition } from "../../CourtDominanceView/types";
+import type {
+  CourtDepth,
+  CoverageGapSide,
+  LobReaction,
+  PairFormation,
+  PairFormationStats,
+  PairSample,
+} from "../types";
+import {
+  SAMPLE_STEP_S,
+  MAX_POSITION_GAP_S,
+  LATERAL_REACH_M,
+  GAP_ALERT_M,
+  LOB_RETREAT_M,
+  LOB_PARTNER_RETREAT_M,
+  LOB_WINDOW_S,
+  TRAFFIC_LIGHT_DEPTH,
+} from "../constants";
+
+interface Track {
+  t: number[];
+  x: number[];
+  y: number[];
+}
+
+const { width: COURT_WIDTH, length: COURT_LENGTH } = COURT_DIMENSIONS.padel;
+const NET_Y = COURT_LENGTH / 2;
+
+function buildTrack(positions: PlayerPosition[]): Track {
+  const sorted = positions
+    .filter((p) => p.court_X !== undefined && p.court_Y !== undefined)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  return {
+    t: sorted.map((p) => p.timestamp),
+    x: sorted.map((p) => p.court_X!),
+    y: sorted.map((p) => p.court_Y!),
+  };
+}
+
+/**
+ * Interpolated court position at a time, null across tracking gaps
+ */
+function positionAt(track: Track, time: number): [number, number] | null {
+  let lo = 0;
+  let hi = track.t.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (track.t[mid] < time) lo = mid + 1;
+    else hi = mid;
+  }
+
+  if (lo < track.t.length && track.t[lo] === time) return [track.x[lo], track.y[lo]];
+  if (lo === 0 || lo === track.t.length) return null;
+
+  const t0 = track.t[lo - 1];
+  const t1 = track.t[lo];
+  if (t1 - t0 > MAX_POSITION_GAP_S) return null;
+
+  const f = (time - t0) / (t1 - t0);
+  return [
+    track.x[lo - 1] + (track.x[lo] - track.x[lo - 1]) * f,
+    track.y[lo - 1] + (track.y[lo] - track.y[lo - 1]) * f,
+  ];
+}
+
+/**
+ * Distance from the player's own back wall (0 = back wall, 10 = net),
+ * the orientation the zone systems use
+ */
+function getDepthFromBack(y: number): number {
+  return Math.max(0, y <= NET_Y ? y : COURT_LENGTH - y);
+}
+
+function getCourtDepth([x, y]: [number, number], zones: ZoneDefinition[]): CourtDepth {
+  const courtX = Math.min(COURT_WIDTH, Math.max(0, x));
+  const depth = Math.min(NET_Y, getDepthFromBack(y));
+  const zone = zones.find(
+    (z) => courtX >= z.xMin && courtX <= z.xMax && depth >= z.yMin && depth <= z.yMax
+  );
+  return (zone && TRAFFIC_LIGHT_DEPTH[zone.id]) || "transition";
+}
+
+function getFormation(a: CourtDepth, b: CourtDepth): PairFormation {
+  if (a === "net" && b === "net") return "both_net";
+  if (a === "back" && b === "back") return "both_back";
+  if ((a === "net" && b === "back") || (a === "back" && b === "net")) return "split";
+  return "transition";
+}
+
+/**
+ * Widest lateral stretch outside both partners' reach
+ */
+function getCoverageGap(x1: number, x2: number): { gap: number; side: CoverageGapSide | null } {
+  const [left, right] = [x1, x2].sort((a, b) => a - b).map((x) => ({
+    start: Math.max(0, x - LATERAL_REACH_M),
+    end: Math.min(COURT_WIDTH, x + LATERAL_REACH_M),
+  }));
+
+  const holes: { gap: number; side: CoverageGapSide }[] = [
+    { gap: left.start, side: "left" },
+    { gap: right.start - left.end, side: "middle" },
+    { gap: COURT_WIDTH - Math.max(left.end, right.end), side: "right" },
+  ];
+  const widest = holes.reduce((max, h) => (h.gap > max.gap ? h : max));
+
+  return widest.gap > 0 ? widest : { gap: 0, side: null };
+}
+
+/**
+ * Doubles pairs from the team sessions, each listed once
+ */
+function getPairs(result: StatisticsResult): [number, number][] {
+  const pairs = new Map<string, [number, number]>();
+
+  for (const session of result.team_sessions || []) {
+    for (const ids of [session.team_front, session.team_back]) {
+      if (!ids || ids.length !== 2) continue;
+      const pair = [...ids].sort((a, b) => a - b) as [number, number];
+      pairs.set(pair.join("-"), pair);
+    }
+  }
+
+  return [...pairs.values()];
+}
+
+/**
+ * How the pair dropped back after each opponent lob that found them with
+ * at least one partner at the net
+ */
+function getLobReactions(
+  result: StatisticsResult,
+  pair: [number, number],
+  samples: PairSample[],
+  zones: ZoneDefinition[]
+): LobReaction[] {
+  const lobs = (result.players || [])
+    .filter((p) => !pair.includes(p.player_id))
+    .flatMap((p) =>
+      p.swings
+        .filter((s) => (s.swing_type || "").toLowerCase().includes("lob"))
+        .map((s) => ({ timestamp: s.ball_hit.timestamp, lobberId: p.player_id }))
+    )
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const reactions: LobReaction[] = [];
+
+  for (const lob of lobs) {
+    const startIdx = samples.findIndex((s) => s.t >= lob.timestamp - SAMPLE_STEP_S);
+    const start = samples[startIdx];
+    if (!start || start.t > lob.timestamp + SAMPLE_STEP_S) continue;
+
+    const depths = start.positions.map((p) => getCourtDepth(p, zones));
+    if (!depths.includes("net")) continue;
+
+    const startDepths = start.positions.map((p) => getDepthFromBack(p[1]));
+    const maxDrops = [0, 0];
+    let reactionTime: number | null = null;
+
+    for (let i = startIdx + 1; i < samples.length; i++) {
+      const sample = samples[i];
+      if (sample.rallyIndex !== start.rallyIndex || sample.t > lob.timestamp + LOB_WINDOW_S) break;
+
+      const drops = sample.positions.map((p, idx) => startDepths[idx] - getDepthFromBack(p[1]));
+      drops.forEach((drop, idx) => (maxDrops[idx] = Math.max(maxDrops[idx], drop)));
+      if (reactionTime === null && (drops[0] + drops[1]) / 2 >= LOB_RETREAT_M) {
+        reactionTime = sample.t - lob.timestamp;
+      }
+    }
+
+    reactions.push({
+      ...lob,
+      reactionTime,
+      together: maxDrops.every((drop) => drop >= LOB_PARTNER_RETREAT_M),
+    });
+  }
+
+  return reactions;
+}
+
+/**
+ * Sample each padel pair during rallies and summarize how they move together.
+ * All pairs share the same sample times so they can be replayed side by side.
+ */
+export function calculatePairFormation(result: StatisticsResult): PairFormationStats[] {
+  const trafficLight = getZoneSystemsForSport("padel").find((s) => s.id === "traffic-light");
+  const zones = trafficLight?.zones || [];
+  const rallies = result.rallies || [];
+
+  return getPairs(result).map((pair): PairFormationStats => {
+    const tracks = pair.map((id) => buildTrack(result.player_positions?.[String(id)] || []));
+    const samples: PairSample[] = [];
+
+    rallies.forEach(([start, end], rallyIndex) => {
+      for (let t = start; t <= end; t += SAMPLE_STEP_S) {
+        const a = positionAt(tracks[0], t);
+        const b = positionAt(tracks[1], t);
+        if (!a || !b) continue;
+
+        const { gap, side } = getCoverageGap(a[0], b[0]);
+        samples.push({
+          t,
+          rallyIndex,
+          positions: [a, b],
+          distance: Math.hypot(a[0] - b[0], a[1] - b[1]),
+          formation: getFormation(getCourtDepth(a, zones), getCourtDepth(b, zones)),
+          gap,
+          gapSide: side,
+        });
+      }
+    });
+
+    const formationTime: Record<PairFormation, number> = { both_net: 0, split: 0, transition: 0, both_back: 0 };
+    let distanceSum = 0;
+    let maxDistance = 0;
+    let gapSum = 0;
+    let middleGapTime = 0;
+    const byRally = new Map<number, { sum: number; count: number }>();
+
+    for (const sample of samples) {
+      formationTime[sample.formation] += SAMPLE_STEP_S;
+      distanceSum += sample.distance;
+      maxDistance = Math.max(maxDistance, sample.distance);
+      gapSum += sample.gap;
+      if (sample.gapSide === "middle" && sample.gap >= GAP_ALERT_M) middleGapTime += SAMPLE_STEP_S;
+
+      const rally = byRally.get(sample.rallyIndex) || { sum: 0, count: 0 };
+      rally.sum += sample.distance;
+      rally.count++;
+      byRally.set(sample.rallyIndex, rally);
+    }
+
+    return {
+      key: pair.join("-"),
+      playerIds: pair,
+      samples,
+      trackedTime: samples.length * SAMPLE_STEP_S,
+      avgDistance: samples.length > 0 ? distanceSum / samples.length : 0,
+      maxDistance,
+      distanceByRally: [...byRally.entries()].map(([rallyIndex, { sum, count }]) => ({
+        rallyIndex,
+        avgDistance: sum / count,
+      })),
+      formationTime,
+      avgGap: samples.length > 0 ? gapSum / samples.length : 0,
+      middleGapTime,
+      lobs: getLobReactions(result, pair, samples, zones),
+    };
+  });
+}
@@ -0,0 +1 @@
+export { calculatePairFormation } from "./calculatePairFormation";
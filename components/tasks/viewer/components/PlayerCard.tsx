@@ -2,6 +2,7 @@
 
 import Image from "next/image";
 import { Box, Flex, Heading, Text, Card, Separator } from "@radix-ui/themes";
+import type { BodyMeasurements, PlayerWorkload } from "@/utils/workload";
 import { Player } from "../types";
 import { PlayerCharts } from "./PlayerCharts";
 import { MedalSummary, collectEarnedMedals } from "./shared";
@@ -20,9 +21,11 @@ interface PlayerCardProps {
   swingsRank?: number;
   maxSwings?: number;
   overallRank?: number;
+  workload?: PlayerWorkload | null;
+  workloadBody?: BodyMeasurements;
 }
 
-export function PlayerCard({ player, displayIndex, displayName, portrait, maxDistance, distanceRank, maxBallSpeed, ballSpeedRank, maxSprintSpeed, sprintRank, swingsRank, maxSwings, overallRank = 4 }: PlayerCardProps) {
+export function PlayerCard({ player, displayIndex, displayName, portrait, maxDistance, distanceRank, maxBallSpeed, ballSpeedRank, maxSprintSpeed, sprintRank, swingsRank, maxSwings, overallRank = 4, workload, workloadBody }: PlayerCardProps) {
   const hasChartData = 
     Object.keys(player.swing_type_distribution).length > 0 || 
     (player.swings && player.swings.length > 0);
@@ -84,7 +87,7 @@ export function PlayerCard({ player, displayIndex, displayName, portrait, maxDis
         {hasChartData && (
           <>
             <Separator size="4" />
-            <PlayerCharts player={player} displayName={displayName} maxDistance={maxDistance} distanceRank={distanceRank} maxBallSpeed={maxBallSpeed} ballSpeedRank={ballSpeedRank} maxSprintSpeed={maxSprintSpeed} sprintRank={sprintRank} swingsRank={swingsRank} maxSwings={maxSwings} />
+            <PlayerCharts player={player} displayName={displayName} maxDistance={maxDistance} distanceRank={distanceRank} maxBallSpeed={maxBallSpeed} ballSpeedRank={ballSpeedRank} maxSprintSpeed={maxSprintSpeed} sprintRank={sprintRank} swingsRank={swingsRank} maxSwings={maxSwings} workload={workload} workloadBody={workloadBody} />
           </>
         )}
       </Flex>
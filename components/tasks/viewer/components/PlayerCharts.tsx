@@ -1,8 +1,16 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { Box, Flex, Text, Heading } from "@radix-ui/themes";
+import { Box, Flex, Text, Heading, Badge } from "@radix-ui/themes";
 import { ResponsivePie } from "@nivo/pie";
+import { ResponsiveLine } from "@nivo/line";
+import {
+  WORKLOAD_METRICS,
+  getWorkloadValue,
+  type BodyMeasurements,
+  type PlayerWorkload,
+  type WorkloadMetric,
+} from "@/utils/workload";
 import { Player } from "../types";
 import { formatSwingType } from "../utils";
 import { useInView, useAnimatedProgress } from "../hooks";
@@ -12,6 +20,7 @@ import {
   SWING_TYPE_FALLBACK_COLORS,
   getSwingTypeColor,
   getRandomNickname,
+  WORKLOAD_COLORS,
 } from "../constants";
 import { ProgressRing, RING_GRADIENTS, RING_ICONS } from "./shared";
 
@@ -26,6 +35,8 @@ interface PlayerChartsProps {
   sprintRank?: number;
   swingsRank?: number;
   maxSwings?: number;
+  workload?: PlayerWorkload | null;
+  workloadBody?: BodyMeasurements;
 }
 
 // Calculate swing distribution including serves from swing data
@@ -403,6 +414,94 @@ function BallSpeedSpeedometer({
   );
 }
 
+const WORKLOAD_LABELS: Record<WorkloadMetric, { name: string; unit: string }> = {
+  distance: { name: "Distance", unit: "m/min" },
+  sprints: { name: "Sprints", unit: "/min" },
+  swingRate: { name: "Swing rate", unit: "swings/min" },
+  ballSpeed: { name: "Ball speed", unit: "km/h" },
+};
+
+// Workload timeline, each metric indexed to the player's match average (100)
+function WorkloadChart({ workload, body }: { workload: PlayerWorkload; body?: BodyMeasurements }) {
+  const series = WORKLOAD_METRICS.flatMap(metric => {
+    const values = workload.windows.map(w => getWorkloadValue(w, metric));
+    const measured = values.filter(v => v > 0);
+    const average = measured.length > 0 ? measured.reduce((a, b) => a + b, 0) / measured.length : 0;
+    if (average === 0) return [];
+
+    return [{
+      id: metric,
+      data: workload.windows.map((w, idx) => ({
+        x: `${Math.round(w.start / 60)}'`,
+        // Ball speed is only known in windows with measured swings
+        y: metric === "ballSpeed" && values[idx] === 0 ? null : Math.round((values[idx] / average) * 100),
+        raw: `${values[idx].toFixed(metric === "distance" || metric === "ballSpeed" ? 0 : 1)} ${WORKLOAD_LABELS[metric].unit}`,
+      })),
+    }];
+  });
+
+  if (series.length === 0) return null;
+
+  return (
+    <Flex direction="column" gap="2">
+      <Heading size="2" weight="medium" style={{ color: "var(--gray-11)", textAlign: "center" }}>
+        Workload
+      </Heading>
+      <Box style={{ height: 180 }}>
+        <ResponsiveLine
+          data={series}
+          theme={CHART_THEME}
+          margin={{ top: 10, right: 12, bottom: 28, left: 36 }}
+          yScale={{ type: "linear", min: "auto", max: "auto" }}
+          colors={d => WORKLOAD_COLORS[d.id as WorkloadMetric]}
+          curve="monotoneX"
+          lineWidth={2}
+          pointSize={4}
+          enableGridX={false}
+          axisLeft={{ tickValues: 4, tickSize: 0, tickPadding: 6 }}
+          axisBottom={{ tickSize: 0, tickPadding: 6 }}
+          enableSlices="x"
+          sliceTooltip={({ slice }) => (
+            <Box style={{ ...CHART_THEME.tooltip.container, padding: "6px 10px" }}>
+              <Text size="1" weight="medium" as="p">{slice.points[0]?.data.xFormatted}</Text>
+              {slice.points.map(point => (
+                <Text key={point.id} size="1" as="p" style={{ color: point.seriesColor }}>
+                  {WORKLOAD_LABELS[point.seriesId as WorkloadMetric].name}: {point.data.raw}
+                </Text>
+              ))}
+            </Box>
+          )}
+        />
+      </Box>
+      <Flex gap="3" wrap="wrap" justify="center">
+        {series.map(s => (
+          <Flex key={s.id} align="center" gap="1">
+            <Box style={{ width: 8, height: 8, borderRadius: "50%", backgroundColor: WORKLOAD_COLORS[s.id] }} />
+            <Text size="1" color="gray">{WORKLOAD_LABELS[s.id].name}</Text>
+          </Flex>
+        ))}
+      </Flex>
+      {workload.declines.length > 0 && (
+        <Flex gap="1" wrap="wrap" justify="center">
+          {workload.declines.map(decline => (
+            <Badge key={decline.metric} color="orange" variant="soft">
+              {WORKLOAD_LABELS[decline.metric].name} −{Math.round(decline.drop * 100)}% late
+            </Badge>
+          ))}
+        </Flex>
+      )}
+      {body && (
+        <Text size="1" color="gray" style={{ textAlign: "center" }}>
+          ≈ {Math.round(workload.totals.energy)} kcal ·{" "}
+          {body.fromProfile
+            ? `from your profile (${Math.round(body.heightCm)} cm, ${Math.round(body.weightKg)} kg)`
+            : "reference 175 cm, 75 kg – add height and weight to your profile"}
+        </Text>
+      )}
+    </Flex>
+  );
+}
+
 // Main PlayerCharts component
 export function PlayerCharts({
   player,
@@ -415,6 +514,8 @@ export function PlayerCharts({
   sprintRank,
   swingsRank,
   maxSwings,
+  workload,
+  workloadBody,
 }: PlayerChartsProps) {
   const { ref, isInView } = useInView({ threshold: 0.2 });
   const [hasAnimated, setHasAnimated] = useState(false);
@@ -541,6 +642,10 @@ export function PlayerCharts({
             )}
           </Flex>
         )}
+
+        {workload && workload.windows.length > 1 && (
+          <WorkloadChart workload={workload} body={workloadBody} />
+        )}
       </Flex>
     </Box>
   );
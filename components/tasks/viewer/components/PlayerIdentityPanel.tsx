@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { Box, Flex, Text, Card, Select, TextField, Button, Badge, IconButton, Tooltip } from "@radix-ui/themes";
+import { PersonIcon, CheckIcon, Cross2Icon, Link2Icon, BarChartIcon } from "@radix-ui/react-icons";
+import type { PlayerIdentity, PlayerIdentitySuggestion } from "@/types/player-identity";
+import type { ValidPlayer } from "../hooks/usePlayerRankings";
+
+interface PlayerIdentityPanelProps {
+  players: ValidPlayer[];
+  portraits: Record<number, string>;
+  identities: PlayerIdentity[];
+  assignments: Record<number, string>;
+  suggestions: PlayerIdentitySuggestion[];
+  onAssign: (playerId: number, identityId: string | null) => void;
+  onCreate: (name: string, playerId: number) => void;
+}
+
+const UNASSIGNED = "unassigned";
+const NEW_IDENTITY = "new";
+
+/**
+ * Link the task's anonymous players to named people from earlier tasks,
+ * with appearance-based suggestions
+ */
+export function PlayerIdentityPanel({
+  players,
+  portraits,
+  identities,
+  assignments,
+  suggestions,
+  onAssign,
+  onCreate,
+}: PlayerIdentityPanelProps) {
+  const [creatingFor, setCreatingFor] = useState<number | null>(null);
+  const [newName, setNewName] = useState("");
+
+  const handleSelect = (playerId: number, value: string) => {
+    if (value === NEW_IDENTITY) {
+      setCreatingFor(playerId);
+      setNewName("");
+      return;
+    }
+    onAssign(playerId, value === UNASSIGNED ? null : value);
+  };
+
+  const handleCreate = (playerId: number) => {
+    const name = newName.trim();
+    if (!name) return;
+    onCreate(name, playerId);
+    setCreatingFor(null);
+  };
+
+  return (
+    <Card style={{ border: "1px solid var(--gray-5)", marginBottom: 16 }}>
+      <Flex direction="column" gap="3" p="2">
+        <Flex align="center" gap="2">
+          <Link2Icon width={16} height={16} />
+          <Text size="2" weight="medium">Who&apos;s playing?</Text>
+          <Text size="1" color="gray">Names are shared across all your matches</Text>
+        </Flex>
+
+        <Flex gap="3" wrap="wrap">
+          {players.map(player => {
+            const playerId = player.player_id;
+            const suggestion = suggestions.find(s => s.playerId === playerId);
+            const suggested = suggestion && identities.find(i => i.id === suggestion.identityId);
+
+            return (
+              <Flex key={playerId} align="center" gap="2" style={{ flex: "1 1 260px", minWidth: 240 }}>
+                <Box
+                  style={{
+                    position: "relative",
+                    width: 36,
+                    height: 36,
+                    borderRadius: "50%",
+                    overflow: "hidden",
+                    backgroundColor: "var(--gray-4)",
+                    flexShrink: 0,
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "center",
+                  }}
+                >
+                  {portraits[playerId] ? (
+                    <Image
+                      src={portraits[playerId]}
+                      alt={player.displayName}
+                      fill
+                      sizes="36px"
+                      style={{ objectFit: "cover", objectPosition: "top" }}
+                    />
+                  ) : (
+                    <PersonIcon width={18} height={18} style={{ color: "var(--gray-9)" }} />
+                  )}
+                </Box>
+
+                <Flex direction="column" gap="1" style={{ flex: 1, minWidth: 0 }}>
+                  {creatingFor === playerId ? (
+                    <Flex gap="1" align="center">
+                      <TextField.Root
+                        size="1"
+                        autoFocus
+                        placeholder="Player name"
+                        value={newName}
+                        maxLength={80}
+                        onChange={e => setNewName(e.target.value)}
+                        onKeyDown={e => {
+                          if (e.key === "Enter") handleCreate(playerId);
+                          if (e.key === "Escape") setCreatingFor(null);
+                        }}
+                        style={{ flex: 1 }}
+                      />
+                      <IconButton size="1" variant="soft" onClick={() => handleCreate(playerId)} aria-label="Save">
+                        <CheckIcon />
+                      </IconButton>
+                      <IconButton size="1" variant="ghost" color="gray" onClick={() => setCreatingFor(null)} aria-label="Cancel">
+                        <Cross2Icon />
+                      </IconButton>
+                    </Flex>
+                  ) : (
+                    <Flex gap="1" align="center">
+                      <Select.Root
+                        size="1"
+                        value={assignments[playerId] ?? UNASSIGNED}
+                        onValueChange={value => handleSelect(playerId, value)}
+                      >
+                        <Select.Trigger style={{ flex: 1 }} />
+                        <Select.Content>
+                          <Select.Item value={UNASSIGNED}>{`Player ${player.displayIndex} (unassigned)`}</Select.Item>
+                          {identities.length > 0 && <Select.Separator />}
+                          {identities.map(identity => (
+                            <Select.Item key={identity.id} value={identity.id}>
+                              {identity.name}
+                            </Select.Item>
+                          ))}
+                          <Select.Separator />
+                          <Select.Item value={NEW_IDENTITY}>New player…</Select.Item>
+                        </Select.Content>
+                      </Select.Root>
+                      {assignments[playerId] && (
+                        <Tooltip content="Season stats">
+                          <IconButton size="1" variant="ghost" color="gray" asChild>
+                            <Link href={`/players/${assignments[playerId]}`} aria-label="Season stats">
+                              <BarChartIcon />
+                            </Link>
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </Flex>
+                  )}
+
+                  {suggested && creatingFor !== playerId && (
+                    <Flex align="center" gap="1">
+                      <Badge color="mint" variant="soft" size="1">
+                        Looks like {suggested.name} ({Math.round(suggestion.similarity * 100)}%)
+                      </Badge>
+                      <Button size="1" variant="ghost" onClick={() => onAssign(playerId, suggested.id)}>
+                        Accept
+                      </Button>
+                    </Flex>
+                  )}
+                </Flex>
+              </Flex>
+            );
+          })}
+        </Flex>
+      </Flex>
+    </Card>
+  );
+}
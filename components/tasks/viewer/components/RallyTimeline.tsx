@@ -1,12 +1,19 @@
 "use client";
 
 import { RefObject, useState, useRef, useCallback } from "react";
-import { Box, Flex, Heading, Badge, Text, Switch, Tooltip } from "@radix-ui/themes";
+import { Box, Flex, Heading, Badge, Text, Switch, Tooltip, Select } from "@radix-ui/themes";
 import { SpeakerLoudIcon } from "@radix-ui/react-icons";
 import { useIsMobile } from "@/hooks/useIsMobile";
+import {
+  TEAM_IDS,
+  type MatchScore,
+  type RallyOutcomeOverride,
+  type RallyOutcomeReason,
+} from "@/utils/match-score";
+import { isSameEvent, type MatchEventRef } from "@/utils/match-corrections";
 import { CONFIG, FEATURE_FLAGS, OVERLAY_COLORS } from "../constants";
 import { StatisticsResult, BallBounce, Swing } from "../types";
-import { formatSwingType, formatDuration, getPlayerIndex } from "../utils";
+import { formatSwingType, formatDuration, getPlayerIndex, getTeamDisplayName } from "../utils";
 import { AudioWaveform } from "./AudioWaveform";
 import { DraggablePlayhead } from "./DraggablePlayhead";
 
@@ -158,6 +165,20 @@ function BounceTooltip({ bounce, position, visible }: BounceTooltipProps) {
   );
 }
 
+// How the rally outcome was decided, shown in the score badge tooltip
+const OUTCOME_REASONS: Record<RallyOutcomeReason, string> = {
+  winner: "last shot landed in and wasn't returned",
+  out: "last shot landed out",
+  net: "last shot didn't clear the net",
+  first_serve_fault: "first serve fault",
+  no_bounce: "no bounce detected after the last shot",
+  no_hit: "no shots detected",
+  manual: "set by hand",
+  void: "not counted as a point",
+};
+
+const AUTO_OUTCOME = "auto";
+
 interface RallyTimelineProps {
   result: StatisticsResult;
   selectedRallyIndex: number;
@@ -167,6 +188,11 @@ interface RallyTimelineProps {
   onClose: () => void;
   enhancedBallBounces?: BallBounce[];
   playerDisplayNames?: Record<number, string>;
+  matchScore?: MatchScore | null;
+  onRallyOutcomeChange?: (rallyIndex: number, outcome: RallyOutcomeOverride | null) => void;
+  /** Edit mode: clicking a marker picks its event for the match event editor */
+  selectedEvent?: MatchEventRef | null;
+  onEventSelect?: (event: MatchEventRef) => void;
 }
 
 export function RallyTimeline({
@@ -178,6 +204,10 @@ export function RallyTimeline({
   onClose,
   enhancedBallBounces,
   playerDisplayNames = {},
+  matchScore,
+  onRallyOutcomeChange,
+  selectedEvent,
+  onEventSelect,
 }: RallyTimelineProps) {
   const isMobile = useIsMobile();
   const [showAudioWaveform, setShowAudioWaveform] = useState(false);
@@ -233,6 +263,18 @@ export function RallyTimeline({
   // Elapsed time within the rally
   const elapsedInRally = Math.max(0, Math.min(currentTime - rallyStart, rallyDuration));
 
+  // Point outcome and score after this rally
+  const rallyScore = matchScore?.rallies[selectedRallyIndex];
+  const outcome = rallyScore?.outcome;
+  const getTeamName = (team: "A" | "B") =>
+    getTeamDisplayName(matchScore?.teams[team].playerIds ?? [], players, playerDisplayNames) || `Team ${team}`;
+  const outcomeValue = outcome?.source === "manual" ? (outcome.winner ?? "void") : AUTO_OUTCOME;
+  const outcomeDescription = outcome
+    ? outcome.winner
+      ? `${getTeamName(outcome.winner)} won the point: ${OUTCOME_REASONS[outcome.reason]}`
+      : `No point: ${OUTCOME_REASONS[outcome.reason]}`
+    : "";
+
   return (
     <Box style={{ animation: "slideDown 0.5s ease-out", overflow: "visible" }}>
       <Box style={{ marginBottom: "4px", padding: "6px 0", overflow: "visible" }}>
@@ -243,6 +285,34 @@ export function RallyTimeline({
                 Rally {selectedRallyIndex + 1}
               </Heading>
               <Badge color="mint" size="1">{formatDuration(rallyDuration)}</Badge>
+              {rallyScore && (
+                <Tooltip content={outcomeDescription}>
+                  <Badge color={outcome?.winner ? "blue" : "gray"} variant="soft" size="1">
+                    {rallyScore.label}
+                  </Badge>
+                </Tooltip>
+              )}
+              {rallyScore && onRallyOutcomeChange && (
+                <Select.Root
+                  size="1"
+                  value={outcomeValue}
+                  onValueChange={(value) =>
+                    onRallyOutcomeChange(
+                      selectedRallyIndex,
+                      value === AUTO_OUTCOME ? null : (value as RallyOutcomeOverride)
+                    )
+                  }
+                >
+                  <Select.Trigger variant="ghost" aria-label="Rally outcome" />
+                  <Select.Content>
+                    <Select.Item value={AUTO_OUTCOME}>Auto-detect winner</Select.Item>
+                    {TEAM_IDS.map(team => (
+                      <Select.Item key={team} value={team}>{getTeamName(team)} won</Select.Item>
+                    ))}
+                    <Select.Item value="void">Not a point</Select.Item>
+                  </Select.Content>
+                </Select.Root>
+              )}
             </Flex>
             <Flex align="center" gap="2">
               {/* Compact legend */}
@@ -308,6 +378,8 @@ export function RallyTimeline({
               const playerName = playerDisplayNames[swing.player_id] || `P${playerIndex}`;
               const isNearPlayhead = Math.abs(currentTime - swing.ball_hit.timestamp) < CONFIG.EVENT_DETECTION_THRESHOLD;
               const isHovered = hoveredSwingIdx === idx;
+              const swingRef: MatchEventRef = { kind: "swing", playerId: swing.player_id, timestamp: swing.ball_hit.timestamp };
+              const isEditing = isSameEvent(selectedEvent, swingRef);
 
               return (
                 <Box key={`swing-${idx}`}>
@@ -324,6 +396,7 @@ export function RallyTimeline({
                     onClick={(e: React.MouseEvent) => {
                       e.stopPropagation();
                       seekTo(swing.ball_hit.timestamp);
+                      onEventSelect?.(swingRef);
                     }}
                     onMouseEnter={(e) => {
                       setHoveredSwingIdx(idx);
@@ -361,7 +434,7 @@ export function RallyTimeline({
                       style={{
                         width: "4px",
                         height: "70%",
-                        backgroundColor: "var(--blue-9)",
+                        backgroundColor: isEditing ? "var(--amber-9)" : "var(--blue-9)",
                         borderRadius: "2px",
                         boxShadow: isNearPlayhead ? "0 0 12px rgba(59, 130, 246, 0.8)" : "none",
                         transition: "all 0.15s ease",
@@ -379,6 +452,8 @@ export function RallyTimeline({
               const position = (relativeTime / rallyDuration) * 100;
               const isNearPlayhead = Math.abs(currentTime - bounce.timestamp) < CONFIG.EVENT_DETECTION_THRESHOLD;
               const isHovered = hoveredBounceIdx === idx;
+              const bounceRef: MatchEventRef = { kind: "bounce", timestamp: bounce.timestamp };
+              const isEditing = isSameEvent(selectedEvent, bounceRef);
               
               // All bounces are yellow
               const bounceColor = "var(--yellow-9)";
@@ -398,6 +473,7 @@ export function RallyTimeline({
                     onClick={(e: React.MouseEvent) => {
                       e.stopPropagation();
                       seekTo(bounce.timestamp);
+                      onEventSelect?.(bounceRef);
                     }}
                     onMouseEnter={(e) => {
                       setHoveredBounceIdx(idx);
@@ -437,7 +513,7 @@ export function RallyTimeline({
                         height: "14px",
                         borderRadius: "50%",
                         backgroundColor: bounceColor,
-                        border: "2px solid white",
+                        border: isEditing ? "2px solid var(--amber-11)" : "2px solid white",
                         boxShadow: isNearPlayhead ? `0 0 16px ${glowColor}` : "none",
                         transition: "all 0.15s ease",
                         transform: isNearPlayhead ? "scale(1.5)" : "scale(1)",
@@ -1,18 +1,19 @@
 "use client";
 
 import { Box, Flex, Text, Dialog, Button } from "@radix-ui/themes";
-import { COURT, GRID_COLS, GRID_ROWS, PULSE_KEYFRAMES } from "../constants";
+import { COURT, GRID_COLS, GRID_ROWS, PULSE_KEYFRAMES, type CourtDimensions } from "../constants";
 import { getSideLabel, getWidthLabel } from "../utils";
 
 interface CellLocationDialogProps {
   selectedCell: { col: number; row: number } | null;
   onClose: () => void;
+  court?: CourtDimensions;
 }
 
 /**
  * Dialog showing grid location with highlighted cell
  */
-export function CellLocationDialog({ selectedCell, onClose }: CellLocationDialogProps) {
+export function CellLocationDialog({ selectedCell, onClose, court = COURT }: CellLocationDialogProps) {
   return (
     <Dialog.Root open={selectedCell !== null} onOpenChange={(open) => !open && onClose()}>
       <Dialog.Content style={{ maxWidth: 400 }}>
@@ -49,7 +50,7 @@ export function CellLocationDialog({ selectedCell, onClose }: CellLocationDialog
           <Box
             style={{
               position: "relative",
-              aspectRatio: `${COURT.aspectRatio} / 1`,
+              aspectRatio: `${court.aspectRatio} / 1`,
             }}
           >
             <Box
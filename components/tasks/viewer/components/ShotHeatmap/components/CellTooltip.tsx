@@ -15,6 +15,7 @@ export function CellTooltip({
   col,
   row,
   visible,
+  court = COURT,
 }: CellTooltipProps) {
   if (!visible) return null;
 
@@ -22,9 +23,9 @@ export function CellTooltip({
   const hasData = originDetails.length > 0 || landingDetails.length > 0;
 
   // Calculate court position in meters (center of cell)
-  // col maps to length (0-20m), row maps to width (0-10m)
-  const courtLengthPos = ((col + 0.5) / GRID_COLS) * COURT.length; // 0-20m
-  const courtWidthPos = ((row + 0.5) / GRID_ROWS) * COURT.width; // 0-10m
+  // col maps to court length, row maps to court width (0-20m × 0-10m for padel)
+  const courtLengthPos = ((col + 0.5) / GRID_COLS) * court.length;
+  const courtWidthPos = ((row + 0.5) / GRID_ROWS) * court.width;
 
   // Smart positioning: adjust based on cell position in grid
   const isNearLeftEdge = col < 3;
@@ -2,9 +2,10 @@
 
 import { useState, useEffect } from "react";
 import { Box } from "@radix-ui/themes";
+import type { DomainExpertise } from "@/utils/storage";
 import type { PlayerShotData } from "../../types";
 import {
-  COURT,
+  getShotCourt,
   GRID_COLS,
   GRID_ROWS,
   CELL_ANIMATION_DURATION,
@@ -20,13 +21,15 @@ import { CellLocationDialog } from "../CellLocationDialog";
 interface CourtGridProps {
   data: PlayerShotData;
   originLabel: string;
+  sport?: DomainExpertise;
 }
 
 /**
  * Court grid visualization with animated layers
  * Manages animation state and coordinates between layers
  */
-export function CourtGrid({ data, originLabel }: CourtGridProps) {
+export function CourtGrid({ data, originLabel, sport = "padel" }: CourtGridProps) {
+  const court = getShotCourt(sport);
   const [hoveredCell, setHoveredCell] = useState<{ col: number; row: number } | null>(null);
   const [selectedCell, setSelectedCell] = useState<{ col: number; row: number } | null>(null);
   const [cellsAnimating, setCellsAnimating] = useState(false);
@@ -77,7 +80,7 @@ export function CourtGrid({ data, originLabel }: CourtGridProps) {
         <Box
           style={{
             position: "relative",
-            aspectRatio: `${COURT.aspectRatio} / 1`,
+            aspectRatio: `${court.aspectRatio} / 1`,
             overflow: "visible",
           }}
         >
@@ -117,6 +120,7 @@ export function CourtGrid({ data, originLabel }: CourtGridProps) {
             setHoveredCell={setHoveredCell}
             setSelectedCell={setSelectedCell}
             originLabel={originLabel}
+            court={court}
           />
         </Box>
       </Box>
@@ -125,6 +129,7 @@ export function CourtGrid({ data, originLabel }: CourtGridProps) {
       <CellLocationDialog
         selectedCell={selectedCell}
         onClose={() => setSelectedCell(null)}
+        court={court}
       />
     </>
   );
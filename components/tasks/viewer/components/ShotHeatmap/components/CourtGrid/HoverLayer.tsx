@@ -1,7 +1,7 @@
 "use client";
 
 import { Box } from "@radix-ui/themes";
-import { GRID_COLS } from "../../constants";
+import { GRID_COLS, type CourtDimensions } from "../../constants";
 import type { CellShotInfo } from "../../types";
 import { CellTooltip } from "../CellTooltip";
 
@@ -14,6 +14,7 @@ interface HoverLayerProps {
   setHoveredCell: (cell: { col: number; row: number } | null) => void;
   setSelectedCell: (cell: { col: number; row: number }) => void;
   originLabel: string;
+  court?: CourtDimensions;
 }
 
 /**
@@ -28,6 +29,7 @@ export function HoverLayer({
   setHoveredCell,
   setSelectedCell,
   originLabel,
+  court,
 }: HoverLayerProps) {
   return (
     <Box
@@ -85,6 +87,7 @@ export function HoverLayer({
                 row={y}
                 visible={isHovered}
                 originLabel={originLabel}
+                court={court}
               />
             </Box>
           );
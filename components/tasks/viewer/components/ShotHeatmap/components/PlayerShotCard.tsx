@@ -14,6 +14,7 @@ export function PlayerShotCard({
   shotLabel,
   originLabel,
   countLabel,
+  sport,
   portrait,
   nickname,
   nicknameLoading,
@@ -77,7 +78,7 @@ export function PlayerShotCard({
         </Flex>
 
         {/* Court grid with all layers */}
-        <CourtGrid data={data} originLabel={originLabel} />
+        <CourtGrid data={data} originLabel={originLabel} sport={sport} />
 
         {/* Speed stats */}
         <SpeedStats avgSpeed={data.avgSpeed} topSpeed={data.topSpeed} />
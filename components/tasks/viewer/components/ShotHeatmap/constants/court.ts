@@ -1,11 +1,45 @@
+// Full court dimensions used to map court positions onto the shot grid
+export interface CourtDimensions {
+  length: number; // meters (horizontal in display)
+  width: number; // meters (vertical in display)
+  netPosition: number; // center of court
+  aspectRatio: number; // length / width
+  originDepth: number; // typical hitting depth from baseline, used when hit location is missing
+}
+
 // Padel court dimensions
-export const COURT = {
+export const COURT: CourtDimensions = {
   length: 20, // meters (horizontal in display)
   width: 10, // meters (vertical in display)
   netPosition: 10, // center of court
   aspectRatio: 2, // length / width = 20 / 10 = 2
+  originDepth: 4, // ~service line area
+};
+
+// Per-sport court dimensions (padel is the default)
+export const COURTS: Record<string, CourtDimensions> = {
+  padel: COURT,
+  tennis: {
+    length: 23.77,
+    width: 10.97,
+    netPosition: 11.885,
+    aspectRatio: 23.77 / 10.97,
+    originDepth: 4,
+  },
+  pickleball: {
+    length: 13.41,
+    width: 6.1,
+    netPosition: 6.705,
+    aspectRatio: 13.41 / 6.1,
+    originDepth: 2, // between baseline and kitchen line
+  },
 };
 
+// Helper to get court dimensions for a sport (falls back to padel)
+export function getShotCourt(sport?: string): CourtDimensions {
+  return (sport && COURTS[sport]) || COURT;
+}
+
 // Grid dimensions (12x6 = 2:1 aspect ratio matching court)
 export const GRID_COLS = 12; // Along length (20m)
 export const GRID_ROWS = 6; // Along width (10m)
@@ -1,4 +1,5 @@
-export { COURT, GRID_COLS, GRID_ROWS } from "./court";
+export { COURT, COURTS, GRID_COLS, GRID_ROWS, getShotCourt } from "./court";
+export type { CourtDimensions } from "./court";
 export {
   CELL_BOUNCE_KEYFRAMES,
   NICKNAME_SHIMMER_KEYFRAMES,
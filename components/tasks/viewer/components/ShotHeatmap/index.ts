@@ -9,5 +9,6 @@ export type {
 } from "./types";
 
 // Re-export utilities and constants for external use
-export { COURT, GRID_COLS, GRID_ROWS } from "./constants";
+export { COURT, COURTS, GRID_COLS, GRID_ROWS, getShotCourt } from "./constants";
+export type { CourtDimensions } from "./constants";
 export { courtPosToGrid, createEmptyGrid, createEmptyDetailsGrid } from "./utils";
@@ -1,5 +1,6 @@
 import type { BallSequenceType } from "@/types/tactical-analysis";
 import type { DomainExpertise } from "@/utils/storage";
+import type { CourtDimensions } from "./constants";
 
 // Cell info for tooltips
 export interface CellShotInfo {
@@ -69,4 +70,5 @@ export interface CellTooltipProps {
   row: number;
   visible: boolean;
   originLabel: string;
+  court?: CourtDimensions; // Court dimensions for the meter readout (defaults to padel)
 }
@@ -1,4 +1,4 @@
-import { COURT, GRID_COLS, GRID_ROWS } from "../constants";
+import { COURT, GRID_COLS, GRID_ROWS, type CourtDimensions } from "../constants";
 import type { CellShotInfo } from "../types";
 
 /**
@@ -6,10 +6,11 @@ import type { CellShotInfo } from "../types";
  */
 export function courtPosToGrid(
   courtX: number,
-  courtY: number
+  courtY: number,
+  court: CourtDimensions = COURT
 ): { col: number; row: number } {
-  const col = Math.floor((courtY / COURT.length) * GRID_COLS);
-  const row = Math.floor((courtX / COURT.width) * GRID_ROWS);
+  const col = Math.floor((courtY / court.length) * GRID_COLS);
+  const row = Math.floor((courtX / court.width) * GRID_ROWS);
   return {
     col: Math.max(0, Math.min(GRID_COLS - 1, col)),
     row: Math.max(0, Math.min(GRID_ROWS - 1, row)),
@@ -2,7 +2,8 @@
 
 import { useMemo } from "react";
 import { Box } from "@radix-ui/themes";
-import { OVERLAY_COLORS, PLAYER_CONFIG } from "../constants";
+import type { LineCall } from "@/utils/line-calls";
+import { OVERLAY_COLORS, PLAYER_CONFIG, LINE_CALL_COLORS } from "../constants";
 
 // Tennis court dimensions in meters (portrait/vertical orientation)
 // Based on ITF regulations
@@ -81,6 +82,7 @@ interface TennisCourt2DProps {
   showBounces?: boolean;
   showTrajectories?: boolean;
   showPlayers?: boolean;
+  lineCalls?: LineCall[]; // In/out calls - colors the bounce markers
   horizontal?: boolean; // When true, render court in landscape orientation (for mobile)
 }
 
@@ -211,6 +213,7 @@ export function TennisCourt2D({
   showBounces = true,
   showTrajectories = true,
   showPlayers = true,
+  lineCalls,
   horizontal = false,
 }: TennisCourt2DProps) {
   // Tennis court colors (classic green/blue hard court style)
@@ -278,6 +281,12 @@ export function TennisCourt2D({
     });
   }, [trajectories, currentTime, currentRallyStart]);
 
+  // Line call verdict per floor bounce, keyed by timestamp
+  const lineCallVerdicts = useMemo(
+    () => new Map((lineCalls || []).map(call => [call.bounce.timestamp, call.verdict])),
+    [lineCalls]
+  );
+
   // Find recent floor bounces
   const recentBounces = useMemo(() => {
     if (!showBounces) return [];
@@ -575,6 +584,7 @@ export function TennisCourt2D({
           const opacity = Math.max(0, 1 - age / DISPLAY_DURATION);
           const ballColor = "#CFE82C"; // Tennis ball yellow-green
           const { x, y } = toViewCoords(bounce.court_pos);
+          const verdict = lineCallVerdicts.get(bounce.timestamp);
           
           return (
             <g key={`bounce-${idx}`} opacity={opacity}>
@@ -589,7 +599,17 @@ export function TennisCourt2D({
                   opacity={Math.max(0, 0.7 - age * 1.4)}
                 />
               )}
+              {/* Line call ring - green in, red out, amber too close to call */}
+              {verdict && (
+                <circle cx={x} cy={y} r={0.6} fill="none" stroke={LINE_CALL_COLORS[verdict]} strokeWidth={0.1} />
+              )}
               <circle cx={x} cy={y} r={0.45} fill={ballColor} stroke="#ffffff" strokeWidth={0.1} />
+              {verdict === "out" && (
+                <g stroke={LINE_CALL_COLORS.out} strokeWidth={0.1} strokeLinecap="round">
+                  <line x1={x - 0.25} y1={y - 0.25} x2={x + 0.25} y2={y + 0.25} />
+                  <line x1={x - 0.25} y1={y + 0.25} x2={x + 0.25} y2={y - 0.25} />
+                </g>
+              )}
               {age < 0.3 && (
                 <circle
                   cx={x}
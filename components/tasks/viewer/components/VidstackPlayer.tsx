@@ -21,6 +21,7 @@ import { VideoSettings } from "./VideoSettings";
 import { BallTrackerOverlay } from "./BallTrackerOverlay";
 import { CourtOverlay } from "./CourtOverlay";
 import { CourtCalibration } from "./CourtCalibration";
+import { getCalibrationSport, type CourtCalibrationData } from "@/utils/court-calibration";
 
 interface BallPosition {
   timestamp: number;
@@ -82,8 +83,9 @@ interface VidstackPlayerProps {
   playerDisplayNames?: Record<number, string>;
   // Court calibration
   showCalibrationButton?: boolean;
-  isCalibrated?: boolean;
-  onCalibrationComplete?: (matrix: number[][]) => void;
+  courtCalibration?: CourtCalibrationData | null;
+  onCalibrationComplete?: (calibration: CourtCalibrationData) => void;
+  onCalibrationClear?: () => void;
   // Thumbnail preview URL (VTT file)
   thumbnails?: string;
   // Court keypoints for debug overlay
@@ -156,8 +158,9 @@ export const VidstackPlayer = forwardRef<HTMLVideoElement, VidstackPlayerProps>(
     onFilterBallPositionsChange,
     playerDisplayNames = {}, 
     showCalibrationButton = false, 
-    isCalibrated = false, 
+    courtCalibration = null, 
     onCalibrationComplete,
+    onCalibrationClear,
     thumbnails,
     courtKeypoints,
     sport = "padel",
@@ -177,6 +180,8 @@ export const VidstackPlayer = forwardRef<HTMLVideoElement, VidstackPlayerProps>(
     const [showFilterRadius, setShowFilterRadius] = useState(false);
     const [isHovered, setIsHovered] = useState(false);
     const [showCalibration, setShowCalibration] = useState(false);
+    const calibrationSport = getCalibrationSport(sport);
+    const isCalibrated = courtCalibration !== null;
     const [videoDuration, setVideoDuration] = useState<number | undefined>();
     const [isFullscreen, setIsFullscreen] = useState(false);
     const [isVideoReady, setIsVideoReady] = useState(false);
@@ -570,7 +575,7 @@ export const VidstackPlayer = forwardRef<HTMLVideoElement, VidstackPlayerProps>(
           )}
 
           {/* Calibration Button */}
-          {showCalibrationButton && onCalibrationComplete && (
+          {showCalibrationButton && calibrationSport && onCalibrationComplete && (
             <Tooltip content={isCalibrated ? "Court calibrated ✓ (click to recalibrate)" : "Calibrate court"}>
               <IconButton
                 size="1"
@@ -686,13 +691,20 @@ export const VidstackPlayer = forwardRef<HTMLVideoElement, VidstackPlayerProps>(
         )}
 
         {/* Court Calibration Overlay */}
-        {showCalibration && onCalibrationComplete && (
+        {showCalibration && calibrationSport && onCalibrationComplete && (
           <CourtCalibration
             videoRef={internalVideoRef}
-            onCalibrationComplete={(matrix) => {
-              onCalibrationComplete(matrix);
+            sport={calibrationSport}
+            initialPoints={courtCalibration?.sport === calibrationSport ? courtCalibration.points : undefined}
+            courtKeypoints={courtKeypoints}
+            onCalibrationComplete={(calibration) => {
+              onCalibrationComplete(calibration);
               setShowCalibration(false);
             }}
+            onClear={isCalibrated && onCalibrationClear ? () => {
+              onCalibrationClear();
+              setShowCalibration(false);
+            } : undefined}
             onClose={() => setShowCalibration(false)}
           />
         )}
@@ -739,4 +751,3 @@ export function useVidstackPlayer() {
     setPlaybackRate,
   };
 }
-
@@ -9,11 +9,14 @@ export { BallTrackerOverlay } from "./BallTrackerOverlay";
 export { CourtOverlay } from "./CourtOverlay";
 export { RallyTimeline } from "./RallyTimeline";
 export { MainTimeline } from "./MainTimeline";
+export { MatchEventEditor } from "./MatchEventEditor";
 export { MatchInsights } from "./MatchInsights";
 export { HighlightsCard } from "./HighlightsCard";
 export { MatchSummaryCard } from "./MatchSummaryCard";
+export { MatchScoreboard } from "./MatchScoreboard";
 export { PlayerCard } from "./PlayerCard";
 export { PlayerCharts } from "./PlayerCharts";
+export { PlayerIdentityPanel } from "./PlayerIdentityPanel";
 export { AnalysisTabs } from "./AnalysisTabs";
 export { BounceHeatmap } from "./BounceHeatmap";
 export { ShotHeatmap, PlayerShotCard } from "./ShotHeatmap";
@@ -23,6 +26,7 @@ export { ConfidenceCard } from "./ConfidenceCard";
 export { TaskStatusCard } from "./TaskStatusCard";
 export { PadelCourt2D } from "./PadelCourt2D";
 export { TennisCourt2D } from "./TennisCourt2D";
+export { PickleballCourt2D } from "./PickleballCourt2D";
 export { VideoCourtLayout } from "./VideoCourtLayout";
 export { TimelineFilter } from "./TimelineFilter";
 export type { TimelineFilterState } from "./TimelineFilter";
@@ -37,6 +41,8 @@ export type { MedalConfig, ProgressRingProps, ProgressRingGradient } from "./sha
 // Court Dominance View
 export { CourtDominanceView } from "./CourtDominanceView";
 
-// Tab content components
-export { RalliesTab, SummaryTab, PlayersTab, TeamsTab, HighlightsTab, TacticalTab, ProfilesTab, TechniqueTab, CoachingTab } from "./tabs";
+// Pair Formation View
+export { PairFormationView } from "./PairFormationView";
 
+// Tab content components
+export { RalliesTab, SummaryTab, PlayersTab, TeamsTab, HighlightsTab, TacticalTab, ProfilesTab, TechniqueTab, CoachingTab, hasPoseAnnotations } from "./tabs";
@@ -0,0 +1,88 @@
+"use client";
+
+import { Button, DropdownMenu, Flex, IconButton, Text, Tooltip } from "@radix-ui/themes";
+import { CheckIcon, CounterClockwiseClockIcon, ReloadIcon } from "@radix-ui/react-icons";
+import { useTaskArtifactHistory } from "@/hooks/useTaskArtifacts";
+import type { TaskArtifactMeta, TaskArtifactType, TaskArtifactVersion } from "@/types/task-artifact";
+
+interface ArtifactVersionMenuProps<TContent> {
+  taskId: string | undefined;
+  type: TaskArtifactType;
+  /** Version currently shown; the menu is hidden until there is one */
+  artifact: TaskArtifactMeta | null;
+  isGenerating?: boolean;
+  onRegenerate: () => void;
+  onSelectVersion: (version: TaskArtifactVersion<TContent>) => void;
+}
+
+function formatVersionDate(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? ""
+    : date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+/**
+ * Version picker and regenerate button for a stored AI artifact.
+ * History is loaded when the menu opens.
+ */
+export function ArtifactVersionMenu<TContent>({
+  taskId,
+  type,
+  artifact,
+  isGenerating = false,
+  onRegenerate,
+  onSelectVersion,
+}: ArtifactVersionMenuProps<TContent>) {
+  const { versions, isLoading, error, load } = useTaskArtifactHistory<TContent>(taskId, type);
+
+  if (!taskId || !artifact) return null;
+
+  return (
+    <Flex align="center" gap="2" onClick={(e) => e.stopPropagation()}>
+      <DropdownMenu.Root onOpenChange={(open) => open && load(artifact.input_hash)}>
+        <DropdownMenu.Trigger>
+          <Button variant="soft" color="gray" size="1" disabled={isGenerating}>
+            <CounterClockwiseClockIcon width={12} height={12} />
+            v{artifact.version}
+          </Button>
+        </DropdownMenu.Trigger>
+        <DropdownMenu.Content size="1">
+          <DropdownMenu.Label>Versions</DropdownMenu.Label>
+          {isLoading && versions.length === 0 ? (
+            <DropdownMenu.Item disabled>Loading…</DropdownMenu.Item>
+          ) : error ? (
+            <DropdownMenu.Item disabled>{error}</DropdownMenu.Item>
+          ) : (
+            versions.map((version) => (
+              <DropdownMenu.Item
+                key={version.id}
+                onSelect={() => version.id !== artifact.id && onSelectVersion(version)}
+              >
+                <Flex align="center" justify="between" gap="4" style={{ width: "100%" }}>
+                  <Text weight={version.id === artifact.id ? "bold" : "regular"}>v{version.version}</Text>
+                  <Flex align="center" gap="2">
+                    <Text color="gray">{formatVersionDate(version.created_at)}</Text>
+                    {version.id === artifact.id && <CheckIcon />}
+                  </Flex>
+                </Flex>
+              </DropdownMenu.Item>
+            ))
+          )}
+        </DropdownMenu.Content>
+      </DropdownMenu.Root>
+      <Tooltip content="Regenerate">
+        <IconButton
+          variant="ghost"
+          color="gray"
+          size="1"
+          disabled={isGenerating}
+          onClick={onRegenerate}
+          aria-label="Regenerate"
+        >
+          <ReloadIcon width={12} height={12} />
+        </IconButton>
+      </Tooltip>
+    </Flex>
+  );
+}
@@ -18,4 +18,4 @@ export {
   BIG_MEDAL_DELAY,
 } from "./CategoryMedals";
 export type { EarnedMedal, MedalSummaryProps, MedalCountProps, TeamMedalDisplayProps } from "./CategoryMedals";
-
+export { ArtifactVersionMenu } from "./ArtifactVersionMenu";
@@ -4,15 +4,20 @@ import { useMemo, useRef, useState, useEffect, useCallback } from "react";
 import { Box, Flex, Text, Tooltip } from "@radix-ui/themes";
 import { PersonIcon, ChevronLeftIcon, ChevronRightIcon } from "@radix-ui/react-icons";
 import { PlayerCard } from "../PlayerCard";
+import { PlayerIdentityPanel } from "../PlayerIdentityPanel";
+import type { WorkloadReport } from "@/utils/workload";
 import type { PlayerRankings } from "../../hooks/usePlayerRankings";
+import type { UsePlayerIdentitiesResult } from "../../hooks/usePlayerIdentities";
 import { getSortedPlayersWithOverallRank } from "../../hooks/usePlayerRankings";
 
 interface PlayersTabProps {
   rankings: PlayerRankings;
   portraits: Record<number, string>;
+  workload?: WorkloadReport | null;
+  playerIdentities?: UsePlayerIdentitiesResult;
 }
 
-export function PlayersTab({ rankings, portraits }: PlayersTabProps) {
+export function PlayersTab({ rankings, portraits, workload, playerIdentities }: PlayersTabProps) {
   const { validPlayers } = rankings;
   const scrollRef = useRef<HTMLDivElement>(null);
   const [canScrollLeft, setCanScrollLeft] = useState(false);
@@ -79,6 +84,18 @@ export function PlayersTab({ rankings, portraits }: PlayersTabProps) {
 
   return (
     <Box style={{ animation: "fadeIn 0.2s ease-out", position: "relative" }}>
+      {playerIdentities?.canEdit && (
+        <PlayerIdentityPanel
+          players={validPlayers}
+          portraits={portraits}
+          identities={playerIdentities.identities}
+          assignments={playerIdentities.assignments}
+          suggestions={playerIdentities.suggestions}
+          onAssign={playerIdentities.assign}
+          onCreate={playerIdentities.createIdentity}
+        />
+      )}
+
       {/* Left scroll indicator */}
       {canScrollLeft && (
         <Box
@@ -235,6 +252,8 @@ export function PlayersTab({ rankings, portraits }: PlayersTabProps) {
                 swingsRank={rankings.swingsRankings[player.player_id]}
                 maxSwings={rankings.maxSwings}
                 overallRank={player.overallRank}
+                workload={workload?.players[player.player_id]}
+                workloadBody={workload?.body}
               />
             </Box>
           ))}
@@ -5,6 +5,7 @@ import { Box, Flex, Text, Tooltip } from "@radix-ui/themes";
 import { PersonIcon, ChevronLeftIcon, ChevronRightIcon } from "@radix-ui/react-icons";
 import { usePlayerProfiles } from "@/hooks/usePlayerProfiles";
 import { Colors } from "@/lib/config";
+import { ArtifactVersionMenu } from "../../shared";
 import type { ProfilesTabProps } from "./types";
 import { PROFILE_COLORS } from "./constants";
 import { buildProfileData } from "./utils";
@@ -20,8 +21,17 @@ export function ProfilesTab({
   portraits = {},
   playerDisplayNames = {},
   sport = "padel",
+  taskId,
 }: ProfilesTabProps) {
-  const { profiles, isGenerating, error, generate } = usePlayerProfiles({ sport });
+  const {
+    profiles,
+    isGenerating,
+    error,
+    artifact,
+    generate,
+    regenerate,
+    showVersion,
+  } = usePlayerProfiles({ sport, taskId });
   const hasGeneratedRef = useRef(false);
   const scrollRef = useRef<HTMLDivElement>(null);
   const [canScrollLeft, setCanScrollLeft] = useState(false);
@@ -145,6 +155,19 @@ export function ProfilesTab({
   // Results - Cards on top, comparison below
   return (
     <Box style={{ animation: "fadeIn 0.2s ease-out" }}>
+      {artifact && (
+        <Flex justify="end" mb="2">
+          <ArtifactVersionMenu
+            taskId={taskId}
+            type="player_profiles"
+            artifact={artifact}
+            isGenerating={isGenerating}
+            onRegenerate={regenerate}
+            onSelectVersion={showVersion}
+          />
+        </Flex>
+      )}
+
       {/* Individual player cards - horizontal scroll - ON TOP */}
       <Box style={{ position: "relative", marginBottom: "var(--space-4)" }}>
         {/* Left scroll indicator */}
@@ -7,6 +7,8 @@ export interface ProfilesTabProps {
   portraits?: Record<number, string>;
   playerDisplayNames?: Record<number, string>;
   sport?: "tennis" | "padel" | "pickleball";
+  /** Enables stored profile versions for the task owner */
+  taskId?: string;
 }
 
 export interface ProfileColor {
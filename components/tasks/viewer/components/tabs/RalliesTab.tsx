@@ -1,17 +1,24 @@
 "use client";
 
-import { RefObject, Ref } from "react";
-import { Box, Flex } from "@radix-ui/themes";
+import { RefObject, Ref, useState } from "react";
+import { Box, Flex, Button, Tooltip } from "@radix-ui/themes";
+import { Pencil1Icon } from "@radix-ui/react-icons";
 import { Task, StatisticsResult, BallBounce, SwingWithPlayer } from "../../types";
-import type { FilteredBallPosition } from "../../hooks";
+import type { FilteredBallPosition, UseMatchCorrectionsResult } from "../../hooks";
 import type { TimelineFilterState } from "../TimelineFilter";
+import type { CourtCalibrationData } from "@/utils/court-calibration";
+import type { MatchScore, RallyOutcomeOverride } from "@/utils/match-score";
+import type { LineCallReport } from "@/utils/line-calls";
+import type { MatchEventRef } from "@/utils/match-corrections";
 // import { useVideoThumbnails } from "../../hooks";
 import {
   VidstackPlayer,
   RallyTimeline,
   MainTimeline,
+  MatchEventEditor,
   PadelCourt2D,
   TennisCourt2D,
+  PickleballCourt2D,
   VideoCourtLayout,
   TimelineFilter,
 } from "../index";
@@ -36,13 +43,18 @@ interface RalliesTabProps {
   onInferAudioBouncesChange: (value: boolean) => void;
   filterBallPositions: boolean;
   onFilterBallPositionsChange: (value: boolean) => void;
-  calibrationMatrix: number[][] | null;
-  onCalibrationComplete: (matrix: number[][] | null) => void;
+  courtCalibration: CourtCalibrationData | null;
+  onCalibrationComplete: (calibration: CourtCalibrationData) => void;
+  onCalibrationClear: () => void;
   playerDisplayNames: Record<number, string>;
   enhancedBallBounces: BallBounce[];
   allSwings: SwingWithPlayer[];
   onVideoError?: (message: string) => void;
   filteredBallPositions?: FilteredBallPosition[];
+  matchScore?: MatchScore | null;
+  onRallyOutcomeChange?: (rallyIndex: number, outcome: RallyOutcomeOverride | null) => void;
+  lineCalls?: LineCallReport | null;
+  matchCorrections?: UseMatchCorrectionsResult;
 }
 
 export function RalliesTab({
@@ -65,14 +77,28 @@ export function RalliesTab({
   onInferAudioBouncesChange,
   filterBallPositions,
   onFilterBallPositionsChange,
-  calibrationMatrix,
+  courtCalibration,
   onCalibrationComplete,
+  onCalibrationClear,
   playerDisplayNames,
   enhancedBallBounces,
   allSwings,
   onVideoError,
   filteredBallPositions,
+  matchScore,
+  onRallyOutcomeChange,
+  lineCalls,
+  matchCorrections,
 }: RalliesTabProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [selectedEvent, setSelectedEvent] = useState<MatchEventRef | null>(null);
+  const editing = isEditing && !!matchCorrections;
+
+  const handleMergeRallies = (rallyIndex: number) => {
+    const rally = result?.rallies[rallyIndex];
+    if (rally) matchCorrections?.addCorrection({ type: "merge_rallies", timestamp: rally[1] });
+  };
+
   // Video thumbnails for timeline preview (disabled - limited value, causes issues)
   // const { vttUrl: thumbnails } = useVideoThumbnails(task.video_url, {
   //   count: 60,
@@ -84,7 +110,21 @@ export function RalliesTab({
     <Box style={{ animation: "fadeIn 0.2s ease-out" }}>
       {/* Timeline Filter */}
       {result && (
-        <Flex justify="end" style={{ marginBottom: "var(--space-3)" }}>
+        <Flex justify="end" gap="2" style={{ marginBottom: "var(--space-3)" }}>
+          {matchCorrections && (
+            <Tooltip content="Correct swings, bounces, rallies and player IDs">
+              <Button
+                size="2"
+                variant={editing ? "solid" : "soft"}
+                color={editing ? "amber" : undefined}
+                onClick={() => setIsEditing(!isEditing)}
+                style={{ cursor: "pointer", padding: "var(--space-2)" }}
+                aria-label="Edit match events"
+              >
+                <Pencil1Icon width={16} height={16} />
+              </Button>
+            </Tooltip>
+          )}
           <TimelineFilter
             filters={timelineFilters}
             onFilterChange={onTimelineFiltersChange}
@@ -97,7 +137,7 @@ export function RalliesTab({
       {/* Video + Court Layout */}
       <VideoCourtLayout
         isFullWidth={isVideoFullWidth}
-        showCourt={["padel", "tennis"].includes(task.sport)}
+        showCourt={["padel", "tennis", "pickleball"].includes(task.sport)}
         videoPlayer={
           <VidstackPlayer
             ref={videoRef as Ref<HTMLVideoElement>}
@@ -118,9 +158,10 @@ export function RalliesTab({
             filterBallPositions={filterBallPositions}
             onFilterBallPositionsChange={onFilterBallPositionsChange}
             playerDisplayNames={playerDisplayNames}
-            showCalibrationButton={false}
-            isCalibrated={calibrationMatrix !== null}
+            showCalibrationButton
+            courtCalibration={courtCalibration}
             onCalibrationComplete={onCalibrationComplete}
+            onCalibrationClear={onCalibrationClear}
             courtKeypoints={result?.debug_data?.court_keypoints}
             sport={task.sport}
             onVideoError={onVideoError}
@@ -138,6 +179,19 @@ export function RalliesTab({
               playerDisplayNames={playerDisplayNames}
               showBounces={true}
               showPlayers={true}
+              lineCalls={lineCalls?.calls}
+            />
+          ) : task.sport === "pickleball" ? (
+            <PickleballCourt2D
+              currentTime={currentTime}
+              ballBounces={enhancedBallBounces}
+              rallies={result?.rallies}
+              playerPositions={result?.player_positions}
+              swings={allSwings}
+              playerDisplayNames={playerDisplayNames}
+              showBounces={true}
+              showPlayers={true}
+              lineCalls={lineCalls?.calls}
             />
           ) : (
             <PadelCourt2D
@@ -149,12 +203,30 @@ export function RalliesTab({
               playerDisplayNames={playerDisplayNames}
               showBounces={true}
               showPlayers={true}
+              lineCalls={lineCalls?.calls}
               showTeamZoneSync={timelineFilters.showTeamZoneSync}
             />
           )
         }
       />
 
+      {result && editing && matchCorrections && (
+        <MatchEventEditor
+          result={result}
+          bounces={enhancedBallBounces}
+          currentTime={currentTime}
+          selectedRallyIndex={selectedRallyIndex}
+          selectedEvent={selectedEvent}
+          onSelectedEventChange={setSelectedEvent}
+          matchCorrections={matchCorrections}
+          playerDisplayNames={playerDisplayNames}
+          onClose={() => {
+            setIsEditing(false);
+            setSelectedEvent(null);
+          }}
+        />
+      )}
+
       {result && selectedRallyIndex !== null && (
         <RallyTimeline
           result={result}
@@ -165,6 +237,10 @@ export function RalliesTab({
           onClose={() => onRallySelect(null)}
           enhancedBallBounces={enhancedBallBounces}
           playerDisplayNames={playerDisplayNames}
+          matchScore={matchScore}
+          onRallyOutcomeChange={onRallyOutcomeChange}
+          selectedEvent={editing ? selectedEvent : null}
+          onEventSelect={editing ? setSelectedEvent : undefined}
         />
       )}
 
@@ -179,9 +255,9 @@ export function RalliesTab({
           enhancedBallBounces={enhancedBallBounces}
           showOnlyRallies={timelineFilters.showOnlyRallies}
           rallyBuffer={timelineFilters.rallyBuffer}
+          onMergeRallies={editing ? handleMergeRallies : undefined}
         />
       )}
     </Box>
   );
 }
-
@@ -1,6 +1,11 @@
 "use client";
 
+import { useMemo } from "react";
 import { Box } from "@radix-ui/themes";
+import { computeServeReport } from "@/utils/serve-analytics";
+import { computeRallyPatterns } from "@/utils/rally-patterns";
+import type { LineCallReport } from "@/utils/line-calls";
+import type { MatchScore } from "@/utils/match-score";
 import { StatisticsResult, BallBounce } from "../../../types";
 import { CourtDominanceView } from "../../CourtDominanceView";
 import { 
@@ -12,7 +17,7 @@ import {
   useAllShotsData,
 } from "../../../hooks/useShotAnalysis";
 import { useTacticalTabState, useTacticalData } from "./hooks";
-import { SubTabNavigation, AllShotsContent, BallSequenceContent, EmptyState } from "./components";
+import { SubTabNavigation, AllShotsContent, BallSequenceContent, ServesContent, PatternsContent, EmptyState } from "./components";
 
 interface TacticalTabProps {
   result: StatisticsResult | null;
@@ -20,6 +25,13 @@ interface TacticalTabProps {
   playerDisplayNames?: Record<number, string>;
   portraits?: Record<number, string>;
   sport?: "tennis" | "padel" | "pickleball";
+  /** Enables stored analyses and nicknames for the task owner */
+  taskId?: string;
+  /** Serve faults and points won for the serve report */
+  lineCalls?: LineCallReport | null;
+  matchScore?: MatchScore | null;
+  /** Opens a rally in the Rallies tab */
+  onRallyJump?: (rallyIndex: number) => void;
 }
 
 export function TacticalTab({ 
@@ -28,6 +40,10 @@ export function TacticalTab({
   playerDisplayNames = {}, 
   portraits = {},
   sport = "padel",
+  taskId,
+  lineCalls = null,
+  matchScore = null,
+  onRallyJump,
 }: TacticalTabProps) {
   // State management
   const {
@@ -41,18 +57,29 @@ export function TacticalTab({
     setSelectedBallSwingTypes,
     allShotsAnalyzedRef,
     ballSequenceAnalyzedRef,
+    serveAnalyzedRef,
     nicknamesGeneratedRef,
     ballSequenceSectionRef,
     handleBallSequenceClick,
   } = useTacticalTabState();
 
   // Extract shot data using reusable hooks
-  const allShotsData = useAllShotsData({ result, playerDisplayNames });
-  const serveData = useServeData({ result, playerDisplayNames });
-  const returnData = useReturnData({ result, playerDisplayNames });
-  const thirdBallData = useThirdBallData({ result, playerDisplayNames });
-  const fourthBallData = useFourthBallData({ result, playerDisplayNames });
-  const fifthBallData = useFifthBallData({ result, playerDisplayNames });
+  const allShotsData = useAllShotsData({ result, playerDisplayNames, sport });
+  const serveData = useServeData({ result, playerDisplayNames, sport });
+  const returnData = useReturnData({ result, playerDisplayNames, sport });
+  const thirdBallData = useThirdBallData({ result, playerDisplayNames, sport });
+  const fourthBallData = useFourthBallData({ result, playerDisplayNames, sport });
+  const fifthBallData = useFifthBallData({ result, playerDisplayNames, sport });
+
+  const serveReport = useMemo(
+    () => (result ? computeServeReport(result, sport, lineCalls, matchScore) : null),
+    [result, sport, lineCalls, matchScore]
+  );
+
+  const patternReport = useMemo(
+    () => (result ? computeRallyPatterns(result, sport, enhancedBallBounces, matchScore) : null),
+    [result, sport, enhancedBallBounces, matchScore]
+  );
 
   // Map ball number to data
   const ballDataMap: Record<number, typeof serveData> = {
@@ -70,6 +97,7 @@ export function TacticalTab({
     nicknamesLoading,
     allShotsAnalysis,
     ballSequenceAnalysis,
+    serveAnalysis,
   } = useTacticalData({
     allShotsData,
     serveData,
@@ -77,11 +105,15 @@ export function TacticalTab({
     thirdBallData,
     fourthBallData,
     fifthBallData,
+    serveReport,
+    playerDisplayNames,
     activeSubTab,
     allShotsAnalyzedRef,
     ballSequenceAnalyzedRef,
+    serveAnalyzedRef,
     nicknamesGeneratedRef,
     sport,
+    taskId,
   });
 
   // Early return for no result
@@ -108,6 +140,7 @@ export function TacticalTab({
           analysis={allShotsAnalysis}
           onBallSequenceClick={handleBallSequenceClick}
           sport={sport}
+          taskId={taskId}
         />
       )}
 
@@ -125,6 +158,30 @@ export function TacticalTab({
           onBallSequenceClick={handleBallSequenceClick}
           sectionRef={ballSequenceSectionRef}
           sport={sport}
+          taskId={taskId}
+        />
+      )}
+
+      {activeSubTab === "serves" && (
+        <ServesContent
+          serveReport={serveReport}
+          serveData={serveData}
+          playerDisplayNames={playerDisplayNames}
+          portraits={portraits}
+          nicknames={nicknames}
+          nicknamesLoading={nicknamesLoading}
+          analysis={serveAnalysis}
+          onBallSequenceClick={handleBallSequenceClick}
+          sport={sport}
+          taskId={taskId}
+        />
+      )}
+
+      {activeSubTab === "patterns" && (
+        <PatternsContent
+          patternReport={patternReport}
+          playerDisplayNames={playerDisplayNames}
+          onRallyJump={onRallyJump}
         />
       )}
 
@@ -139,6 +196,3 @@ export function TacticalTab({
     </Box>
   );
 }
-
-
-
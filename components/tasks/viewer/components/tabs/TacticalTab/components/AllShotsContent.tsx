@@ -9,7 +9,8 @@ import { extractSwingTypes, filterBySwingType } from "../utils";
 import { SectionHeader } from "./SectionHeader";
 import { EmptyState } from "./EmptyState";
 import { AnalysisDisplay } from "./AnalysisDisplay";
-import type { BallSequenceClickData } from "../types";
+import { ArtifactVersionMenu } from "../../../shared";
+import type { BallSequenceClickData, TacticalAnalysisResult } from "../types";
 
 type Sport = "tennis" | "padel" | "pickleball";
 
@@ -21,13 +22,10 @@ interface AllShotsContentProps {
   portraits: Record<number, string>;
   nicknames: Record<string, string>;
   nicknamesLoading: boolean;
-  analysis: {
-    isAnalyzing: boolean;
-    analysis: string | null;
-    error: string | null;
-  };
+  analysis: TacticalAnalysisResult;
   onBallSequenceClick: (data: BallSequenceClickData) => void;
   sport?: Sport;
+  taskId?: string;
 }
 
 export function AllShotsContent({
@@ -41,6 +39,7 @@ export function AllShotsContent({
   analysis,
   onBallSequenceClick,
   sport = "padel",
+  taskId,
 }: AllShotsContentProps) {
   const availableSwingTypes = useMemo(() => extractSwingTypes(allShotsData), [allShotsData]);
   const filteredData = useMemo(
@@ -104,6 +103,16 @@ export function AllShotsContent({
           analysis={analysis.analysis}
           error={analysis.error}
           onBallSequenceClick={onBallSequenceClick}
+          versionMenu={analysis.artifact && (
+            <ArtifactVersionMenu
+              taskId={taskId}
+              type="tactical_analysis"
+              artifact={analysis.artifact}
+              isGenerating={analysis.isAnalyzing}
+              onRegenerate={analysis.regenerate}
+              onSelectVersion={analysis.showVersion}
+            />
+          )}
         />
       </Box>
     </Box>
@@ -13,6 +13,8 @@ interface AnalysisDisplayProps {
   analysis: string | null;
   error: string | null;
   onBallSequenceClick?: (data: BallSequenceClickData) => void;
+  /** Version picker for a stored analysis, shown above the text */
+  versionMenu?: ReactNode;
 }
 
 export function AnalysisDisplay({
@@ -21,6 +23,7 @@ export function AnalysisDisplay({
   analysis,
   error,
   onBallSequenceClick,
+  versionMenu,
 }: AnalysisDisplayProps) {
   const hasResults = analysis || isAnalyzing || error;
 
@@ -28,6 +31,11 @@ export function AnalysisDisplay({
 
   return (
     <CollapsibleSection title={title} defaultOpen>
+      {versionMenu && (
+        <Flex justify="end" mb="2">
+          {versionMenu}
+        </Flex>
+      )}
       {error ? (
         <Text size="2" color="red">{error}</Text>
       ) : analysis ? (
@@ -10,7 +10,8 @@ import { BALL_TABS } from "../constants";
 import { BallTabNavigation } from "./BallTabNavigation";
 import { SectionHeader } from "./SectionHeader";
 import { AnalysisDisplay } from "./AnalysisDisplay";
-import type { BallSequenceClickData } from "../types";
+import { ArtifactVersionMenu } from "../../../shared";
+import type { BallSequenceClickData, TacticalAnalysisResult } from "../types";
 
 type Sport = "tennis" | "padel" | "pickleball";
 
@@ -23,14 +24,11 @@ interface BallSequenceContentProps {
   portraits: Record<number, string>;
   nicknames: Record<string, string>;
   nicknamesLoading: boolean;
-  analysis: {
-    isAnalyzing: boolean;
-    analysis: string | null;
-    error: string | null;
-  };
+  analysis: TacticalAnalysisResult;
   onBallSequenceClick: (data: BallSequenceClickData) => void;
   sectionRef: React.RefObject<HTMLDivElement>;
   sport?: Sport;
+  taskId?: string;
 }
 
 export function BallSequenceContent({
@@ -46,6 +44,7 @@ export function BallSequenceContent({
   onBallSequenceClick,
   sectionRef,
   sport = "padel",
+  taskId,
 }: BallSequenceContentProps) {
   const currentBallData = ballDataMap[selectedBall] || [];
   const currentTab = BALL_TABS.find(t => t.id === selectedBall) || BALL_TABS[0];
@@ -132,6 +131,16 @@ export function BallSequenceContent({
             analysis={analysis.analysis}
             error={analysis.error}
             onBallSequenceClick={onBallSequenceClick}
+            versionMenu={analysis.artifact && (
+              <ArtifactVersionMenu
+                taskId={taskId}
+                type="tactical_analysis"
+                artifact={analysis.artifact}
+                isGenerating={analysis.isAnalyzing}
+                onRegenerate={analysis.regenerate}
+                onSelectVersion={analysis.showVersion}
+              />
+            )}
           />
         </Box>
       </Box>
@@ -0,0 +1,194 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Box, Flex, Text, Heading, Card, Badge, Button } from "@radix-ui/themes";
+import { ArrowRightIcon, ShuffleIcon } from "@radix-ui/react-icons";
+import { FilterSelect, ToggleButton } from "@/components/ui";
+import {
+  PATTERN_LENGTHS,
+  MIN_PATTERN_COUNT,
+  filterRallyPatterns,
+  formatPatternShot,
+  type PatternFilterKind,
+  type RallyPatternReport,
+  type ShotStroke,
+} from "@/utils/rally-patterns";
+import { EmptyState } from "./EmptyState";
+
+interface PatternsContentProps {
+  patternReport: RallyPatternReport | null;
+  playerDisplayNames: Record<number, string>;
+  /** Opens the rally in the Rallies tab */
+  onRallyJump?: (rallyIndex: number) => void;
+}
+
+const KIND_OPTIONS: { value: PatternFilterKind; label: string }[] = [
+  { value: "all", label: "Most frequent" },
+  { value: "ending", label: "Ends rallies" },
+  { value: "winner", label: "Before winners" },
+  { value: "error", label: "Before errors" },
+];
+
+const STROKE_OPTIONS: { value: ShotStroke; label: string }[] = [
+  { value: "serve", label: "Serve" },
+  { value: "forehand", label: "Forehand" },
+  { value: "backhand", label: "Backhand" },
+  { value: "overhead", label: "Overhead" },
+  { value: "lob", label: "Lob" },
+  { value: "drop", label: "Drop shot" },
+];
+
+const ALL = "all";
+
+// Patterns and example rallies listed per filter
+const MAX_PATTERNS = 20;
+const MAX_EXAMPLES = 8;
+
+export function PatternsContent({ patternReport, playerDisplayNames, onRallyJump }: PatternsContentProps) {
+  const [length, setLength] = useState(PATTERN_LENGTHS[0]);
+  const [kind, setKind] = useState<PatternFilterKind>("all");
+  const [playerId, setPlayerId] = useState<string>(ALL);
+  const [stroke, setStroke] = useState<string>(ALL);
+
+  const matches = useMemo(
+    () => patternReport
+      ? filterRallyPatterns(patternReport, {
+          length,
+          kind,
+          playerId: playerId === ALL ? null : Number(playerId),
+          stroke: stroke === ALL ? null : (stroke as ShotStroke),
+        })
+      : [],
+    [patternReport, length, kind, playerId, stroke]
+  );
+
+  const playerOptions = useMemo(() => {
+    const ids = new Set<number>();
+    patternReport?.patterns.forEach(p => p.occurrences.forEach(o => ids.add(o.playerId)));
+    return [
+      { value: ALL, label: "All players" },
+      ...[...ids].sort((a, b) => a - b).map(id => ({
+        value: String(id),
+        label: playerDisplayNames[id] || `Player ${id}`,
+      })),
+    ];
+  }, [patternReport, playerDisplayNames]);
+
+  if (!patternReport || patternReport.patterns.length === 0) {
+    return (
+      <EmptyState
+        title="No rally patterns available"
+        description="Shot patterns will appear here once rallies with several shots are detected"
+      />
+    );
+  }
+
+  const playerLabel = kind === "error" ? "Error by" : kind === "winner" ? "Winner by" : "Finished by";
+
+  return (
+    <Flex direction="column" gap="4">
+      <Box
+        style={{
+          padding: "16px",
+          background: "var(--gray-2)",
+          borderRadius: "var(--radius-3)",
+          border: "1px solid var(--gray-5)",
+        }}
+      >
+        <Flex direction="column" gap="3">
+          <Flex align="center" justify="between" gap="3" wrap="wrap">
+            <Box>
+              <Heading size="3" weight="medium">Rally Patterns</Heading>
+              <Text size="2" color="gray">
+                Recurring shot sequences across {patternReport.rallyCount} rallies
+              </Text>
+            </Box>
+            <Flex gap="2">
+              {PATTERN_LENGTHS.map(n => (
+                <ToggleButton
+                  key={n}
+                  label={`${n} shots`}
+                  isActive={length === n}
+                  onClick={() => setLength(n)}
+                  size="2"
+                />
+              ))}
+            </Flex>
+          </Flex>
+
+          <Flex gap="2" wrap="wrap">
+            <FilterSelect
+              value={kind}
+              onValueChange={value => setKind(value as PatternFilterKind)}
+              options={KIND_OPTIONS}
+              icon="filter"
+            />
+            <FilterSelect
+              value={playerId}
+              onValueChange={setPlayerId}
+              options={playerOptions}
+            />
+            <FilterSelect
+              value={stroke}
+              onValueChange={setStroke}
+              options={[{ value: ALL, label: "Any stroke" }, ...STROKE_OPTIONS]}
+            />
+          </Flex>
+        </Flex>
+      </Box>
+
+      {matches.length === 0 ? (
+        <EmptyState
+          icon={<ShuffleIcon width={32} height={32} style={{ color: "var(--gray-8)" }} />}
+          title="No recurring patterns"
+          description={`No ${length}-shot pattern occurs at least ${MIN_PATTERN_COUNT} times with these filters`}
+        />
+      ) : (
+        <Flex direction="column" gap="2">
+          {matches.slice(0, MAX_PATTERNS).map(({ pattern, count, rallyIndices }) => (
+            <Card key={pattern.key} style={{ border: "1px solid var(--gray-5)" }}>
+              <Flex direction="column" gap="2" p="1">
+                <Flex align="center" justify="between" gap="3">
+                  <Flex align="center" gap="1" wrap="wrap">
+                    {pattern.shots.map((shot, idx) => (
+                      <Flex key={idx} align="center" gap="1">
+                        {idx > 0 && <ArrowRightIcon width={12} height={12} style={{ color: "var(--gray-9)" }} />}
+                        <Badge color={shot.stroke === "serve" ? "purple" : "gray"} variant="soft">
+                          {formatPatternShot(shot)}
+                        </Badge>
+                      </Flex>
+                    ))}
+                  </Flex>
+                  <Text size="2" weight="bold" style={{ flexShrink: 0 }}>
+                    {count}×
+                  </Text>
+                </Flex>
+
+                <Flex align="center" gap="2" wrap="wrap">
+                  <Text size="1" color="gray">
+                    {playerId === ALL ? "" : `${playerLabel} ${playerDisplayNames[Number(playerId)] || `Player ${playerId}`} · `}
+                    {rallyIndices.length} {rallyIndices.length === 1 ? "rally" : "rallies"}
+                  </Text>
+                  {onRallyJump && rallyIndices.slice(0, MAX_EXAMPLES).map(rallyIndex => (
+                    <Button
+                      key={rallyIndex}
+                      size="1"
+                      variant="soft"
+                      color="gray"
+                      onClick={() => onRallyJump(rallyIndex)}
+                    >
+                      Rally {rallyIndex + 1}
+                    </Button>
+                  ))}
+                  {rallyIndices.length > MAX_EXAMPLES && (
+                    <Text size="1" color="gray">+{rallyIndices.length - MAX_EXAMPLES} more</Text>
+                  )}
+                </Flex>
+              </Flex>
+            </Card>
+          ))}
+        </Flex>
+      )}
+    </Flex>
+  );
+}
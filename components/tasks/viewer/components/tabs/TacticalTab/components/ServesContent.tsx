@@ -0,0 +1,239 @@
+"use client";
+
+import { Box, Flex, Text, Heading, Card, Table, Badge } from "@radix-ui/themes";
+import { TargetIcon } from "@radix-ui/react-icons";
+import { SERVE_SIDES, SERVE_ZONES, type PlayerServeReport, type ServeReport, type ServeSide, type ServeSplit } from "@/utils/serve-analytics";
+import { ShotHeatmap, PlayerShotData } from "../../../ShotHeatmap";
+import { EmptyState } from "./EmptyState";
+import { AnalysisDisplay } from "./AnalysisDisplay";
+import { ArtifactVersionMenu } from "../../../shared";
+import type { BallSequenceClickData, TacticalAnalysisResult } from "../types";
+
+type Sport = "tennis" | "padel" | "pickleball";
+
+interface ServesContentProps {
+  serveReport: ServeReport | null;
+  serveData: PlayerShotData[];
+  playerDisplayNames: Record<number, string>;
+  portraits: Record<number, string>;
+  nicknames: Record<string, string>;
+  nicknamesLoading: boolean;
+  analysis: TacticalAnalysisResult;
+  onBallSequenceClick: (data: BallSequenceClickData) => void;
+  sport?: Sport;
+  taskId?: string;
+}
+
+const ZONE_LABELS = { wide: "Wide", body: "Body", T: "T" } as const;
+
+// Pickleball serves from the right (even) and left (odd) courts
+function getSideLabel(side: ServeSide, sport: Sport): string {
+  if (sport === "pickleball") return side === "deuce" ? "Right side" : "Left side";
+  return side === "deuce" ? "Deuce side" : "Ad side";
+}
+
+function formatRate(rate: number, count: number): string {
+  return count > 0 ? `${Math.round(rate * 100)}%` : "–";
+}
+
+function formatSpeed(split: ServeSplit): string {
+  return split.avgSpeed > 0 ? `${Math.round(split.avgSpeed)} / ${Math.round(split.topSpeed)}` : "–";
+}
+
+function SplitRow({ label, split }: { label: string; split: ServeSplit }) {
+  const placed = SERVE_ZONES.reduce((sum, zone) => sum + split.zones[zone], 0);
+
+  return (
+    <Table.Row>
+      <Table.RowHeaderCell>{label}</Table.RowHeaderCell>
+      <Table.Cell justify="center">{split.serves}</Table.Cell>
+      <Table.Cell justify="center">{formatRate(split.inRate, split.in + split.faults)}</Table.Cell>
+      <Table.Cell justify="center">{formatRate(split.returnRate, split.in)}</Table.Cell>
+      <Table.Cell justify="center">
+        {split.pointsPlayed > 0 ? `${split.pointsWon}/${split.pointsPlayed}` : "–"}
+      </Table.Cell>
+      <Table.Cell justify="center">{formatSpeed(split)}</Table.Cell>
+      <Table.Cell justify="center">
+        {placed > 0 ? SERVE_ZONES.map(zone => split.zones[zone]).join(" / ") : "–"}
+      </Table.Cell>
+    </Table.Row>
+  );
+}
+
+/**
+ * Serve speed histogram, first serves stacked under second serves
+ */
+function SpeedDistribution({ player, hasSecondServe }: { player: PlayerServeReport; hasSecondServe: boolean }) {
+  const maxCount = Math.max(1, ...player.speedBuckets.map(b => b.first + b.second));
+
+  if (player.speedBuckets.length === 0) {
+    return <Text size="1" color="gray">No serve speeds measured</Text>;
+  }
+
+  return (
+    <Flex direction="column" gap="1">
+      <Flex align="end" gap="1" style={{ height: 64 }}>
+        {player.speedBuckets.map(bucket => (
+          <Flex
+            key={bucket.min}
+            direction="column"
+            justify="end"
+            style={{ flex: 1, height: "100%" }}
+            title={`${bucket.min}-${bucket.max} km/h: ${bucket.first} first${hasSecondServe ? `, ${bucket.second} second` : ""}`}
+          >
+            {bucket.second > 0 && (
+              <Box style={{ height: `${(bucket.second / maxCount) * 100}%`, background: "var(--amber-9)", borderRadius: "2px 2px 0 0" }} />
+            )}
+            {bucket.first > 0 && (
+              <Box style={{ height: `${(bucket.first / maxCount) * 100}%`, background: "var(--accent-9)", borderRadius: bucket.second > 0 ? 0 : "2px 2px 0 0" }} />
+            )}
+          </Flex>
+        ))}
+      </Flex>
+      <Flex justify="between" align="center">
+        <Text size="1" color="gray">{player.speedBuckets[0].min} km/h</Text>
+        {hasSecondServe && (
+          <Flex gap="3">
+            <Flex align="center" gap="1">
+              <Box style={{ width: 8, height: 8, borderRadius: 2, background: "var(--accent-9)" }} />
+              <Text size="1" color="gray">First</Text>
+            </Flex>
+            <Flex align="center" gap="1">
+              <Box style={{ width: 8, height: 8, borderRadius: 2, background: "var(--amber-9)" }} />
+              <Text size="1" color="gray">Second</Text>
+            </Flex>
+          </Flex>
+        )}
+        <Text size="1" color="gray">{player.speedBuckets[player.speedBuckets.length - 1].max} km/h</Text>
+      </Flex>
+    </Flex>
+  );
+}
+
+export function ServesContent({
+  serveReport,
+  serveData,
+  playerDisplayNames,
+  portraits,
+  nicknames,
+  nicknamesLoading,
+  analysis,
+  onBallSequenceClick,
+  sport = "padel",
+  taskId,
+}: ServesContentProps) {
+  if (!serveReport || serveReport.players.length === 0) {
+    return (
+      <EmptyState
+        title="No serve data available"
+        description="Serve statistics will appear here once serves are detected"
+      />
+    );
+  }
+
+  const { hasSecondServe } = serveReport;
+
+  return (
+    <Flex direction="column" gap="4">
+      <Box
+        style={{
+          padding: "16px",
+          background: "var(--gray-2)",
+          borderRadius: "var(--radius-3)",
+          border: "1px solid var(--gray-5)",
+          overflow: "visible",
+        }}
+      >
+        <Flex direction="column" gap="3">
+          <Box>
+            <Heading size="3" weight="medium">Serve Placement</Heading>
+            <Text size="2" color="gray">Where each player serves from and to</Text>
+          </Box>
+          <ShotHeatmap
+            data={serveData}
+            shotLabel="Serve"
+            originLabel="Serve position"
+            countLabel="serve"
+            emptyMessage="No serve data available"
+            ballType="serve"
+            sport={sport}
+            portraits={portraits}
+            nicknames={nicknames}
+            nicknamesLoading={nicknamesLoading}
+          />
+        </Flex>
+      </Box>
+
+      {serveReport.players.map((player, idx) => (
+        <Card key={player.playerId} style={{ border: "1px solid var(--gray-5)" }}>
+          <Flex direction="column" gap="3" p="2">
+            <Flex align="center" justify="between" gap="2">
+              <Heading size="3" weight="medium">
+                {playerDisplayNames[player.playerId] || `Player ${idx + 1}`}
+              </Heading>
+              <Flex gap="2">
+                <Badge color="gray" variant="soft">{player.serves} serves</Badge>
+                {hasSecondServe && (
+                  <Badge color={player.doubleFaults > 0 ? "red" : "gray"} variant="soft">
+                    {player.doubleFaults} double {player.doubleFaults === 1 ? "fault" : "faults"}
+                  </Badge>
+                )}
+              </Flex>
+            </Flex>
+
+            <Table.Root size="1" variant="surface">
+              <Table.Header>
+                <Table.Row>
+                  <Table.ColumnHeaderCell />
+                  <Table.ColumnHeaderCell justify="center">Serves</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell justify="center">In</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell justify="center">Returned</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell justify="center">Points won</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell justify="center">Avg / top km/h</Table.ColumnHeaderCell>
+                  <Table.ColumnHeaderCell justify="center">
+                    {SERVE_ZONES.map(zone => ZONE_LABELS[zone]).join(" / ")}
+                  </Table.ColumnHeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                <SplitRow label={hasSecondServe ? "First serve" : "All serves"} split={player.first} />
+                {hasSecondServe && <SplitRow label="Second serve" split={player.second} />}
+                {SERVE_SIDES.map(side => (
+                  <SplitRow key={side} label={getSideLabel(side, sport)} split={player.bySide[side]} />
+                ))}
+              </Table.Body>
+            </Table.Root>
+
+            <Box>
+              <Text size="1" weight="medium" color="gray" mb="1" as="p">Serve speed distribution</Text>
+              <SpeedDistribution player={player} hasSecondServe={hasSecondServe} />
+            </Box>
+          </Flex>
+        </Card>
+      ))}
+
+      <AnalysisDisplay
+        title={
+          <Flex align="center" gap="2">
+            <TargetIcon width={16} height={16} />
+            <span>Serve Analysis</span>
+          </Flex>
+        }
+        isAnalyzing={analysis.isAnalyzing}
+        analysis={analysis.analysis}
+        error={analysis.error}
+        onBallSequenceClick={onBallSequenceClick}
+        versionMenu={analysis.artifact && (
+          <ArtifactVersionMenu
+            taskId={taskId}
+            type="tactical_analysis"
+            artifact={analysis.artifact}
+            isGenerating={analysis.isAnalyzing}
+            onRegenerate={analysis.regenerate}
+            onSelectVersion={analysis.showVersion}
+          />
+        )}
+      />
+    </Flex>
+  );
+}
@@ -5,4 +5,6 @@ export { SectionHeader } from "./SectionHeader";
 export { EmptyState } from "./EmptyState";
 export { AllShotsContent } from "./AllShotsContent";
 export { BallSequenceContent } from "./BallSequenceContent";
+export { ServesContent } from "./ServesContent";
+export { PatternsContent } from "./PatternsContent";
 export { BallTabNavigation } from "./BallTabNavigation";
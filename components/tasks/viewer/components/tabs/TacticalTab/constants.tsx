@@ -1,4 +1,4 @@
-import { TargetIcon, StackIcon, LayersIcon, GridIcon } from "@radix-ui/react-icons";
+import { TargetIcon, StackIcon, LayersIcon, GridIcon, ShuffleIcon } from "@radix-ui/react-icons";
 import type { SubTabConfig, BallTabConfig } from "./types";
 
 export const SUB_TABS: SubTabConfig[] = [
@@ -14,6 +14,18 @@ export const SUB_TABS: SubTabConfig[] = [
     icon: <StackIcon width={16} height={16} />,
     description: "Analyze shot patterns through the rally sequence"
   },
+  {
+    id: "serves",
+    label: "Serves",
+    icon: <TargetIcon width={16} height={16} />,
+    description: "First and second serve, placement and return rates"
+  },
+  {
+    id: "patterns",
+    label: "Patterns",
+    icon: <ShuffleIcon width={16} height={16} />,
+    description: "Recurring shot sequences and how rallies end"
+  },
   {
     id: "court-dominance",
     label: "Court Dominance",
@@ -2,7 +2,8 @@ import { useMemo, useEffect } from "react";
 import { useTacticalAnalysis } from "@/hooks/useTacticalAnalysis";
 import { usePlayerNicknames } from "@/hooks/usePlayerNicknames";
 import { convertToTacticalData } from "@/types/tactical-analysis";
-import type { PlayerTacticalData } from "@/types/tactical-analysis";
+import type { PlayerTacticalData, ServeAnalysisPlayerData } from "@/types/tactical-analysis";
+import type { ServeReport } from "@/utils/serve-analytics";
 import type { PlayerShotData } from "../../../ShotHeatmap";
 import { buildPlayerAnalysisData, buildBallSequenceData } from "../utils";
 import type { TacticalSubTab } from "../types";
@@ -16,11 +17,15 @@ interface UseTacticalDataOptions {
   thirdBallData: PlayerShotData[];
   fourthBallData: PlayerShotData[];
   fifthBallData: PlayerShotData[];
+  serveReport: ServeReport | null;
+  playerDisplayNames: Record<number, string>;
   activeSubTab: TacticalSubTab;
   allShotsAnalyzedRef: React.MutableRefObject<boolean>;
   ballSequenceAnalyzedRef: React.MutableRefObject<boolean>;
+  serveAnalyzedRef: React.MutableRefObject<boolean>;
   nicknamesGeneratedRef: React.MutableRefObject<boolean>;
   sport?: Sport;
+  taskId?: string;
 }
 
 export function useTacticalData({
@@ -30,11 +35,15 @@ export function useTacticalData({
   thirdBallData,
   fourthBallData,
   fifthBallData,
+  serveReport,
+  playerDisplayNames,
   activeSubTab,
   allShotsAnalyzedRef,
   ballSequenceAnalyzedRef,
+  serveAnalyzedRef,
   nicknamesGeneratedRef,
   sport = "padel",
+  taskId,
 }: UseTacticalDataOptions) {
   const hasAllShotsData = allShotsData.length > 0 && allShotsData.some(d => d.totalShots > 0);
 
@@ -43,11 +52,12 @@ export function useTacticalData({
     nicknames, 
     isGenerating: nicknamesLoading, 
     generate: generateNicknames 
-  } = usePlayerNicknames({ sport });
+  } = usePlayerNicknames({ sport, taskId });
 
   // Separate tactical analysis hooks for each sub-tab
-  const allShotsAnalysis = useTacticalAnalysis({ sport });
-  const ballSequenceAnalysis = useTacticalAnalysis({ sport });
+  const allShotsAnalysis = useTacticalAnalysis({ sport, taskId });
+  const ballSequenceAnalysis = useTacticalAnalysis({ sport, taskId });
+  const serveAnalysis = useTacticalAnalysis({ sport, taskId });
 
   // Build tactical data for nickname generation
   const tacticalDataForNicknames = useMemo((): PlayerTacticalData[] => {
@@ -118,12 +128,34 @@ export function useTacticalData({
     ballSequenceAnalyzedRef,
   ]);
 
+  // Auto-trigger Serve analysis when tab is active
+  useEffect(() => {
+    if (
+      activeSubTab === "serves" &&
+      serveReport &&
+      serveReport.players.length > 0 &&
+      !serveAnalyzedRef.current &&
+      !serveAnalysis.isAnalyzing &&
+      !serveAnalysis.analysis
+    ) {
+      serveAnalyzedRef.current = true;
+      const players: ServeAnalysisPlayerData[] = serveReport.players.map((player, idx) => ({
+        ...player,
+        playerName: playerDisplayNames[player.playerId] || `Player ${idx + 1}`,
+      }));
+      serveAnalysis.analyzeServes({
+        serveReport: { hasSecondServe: serveReport.hasSecondServe, players },
+      });
+    }
+  }, [activeSubTab, serveReport, playerDisplayNames, serveAnalysis, serveAnalyzedRef]);
+
   return {
     hasAllShotsData,
     nicknames,
     nicknamesLoading,
     allShotsAnalysis,
     ballSequenceAnalysis,
+    serveAnalysis,
   };
 }
 
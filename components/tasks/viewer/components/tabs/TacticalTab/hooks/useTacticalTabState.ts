@@ -20,6 +20,7 @@ interface UseTacticalTabStateReturn {
   // Analysis tracking refs
   allShotsAnalyzedRef: React.MutableRefObject<boolean>;
   ballSequenceAnalyzedRef: React.MutableRefObject<boolean>;
+  serveAnalyzedRef: React.MutableRefObject<boolean>;
   nicknamesGeneratedRef: React.MutableRefObject<boolean>;
   
   // Scroll handling
@@ -37,6 +38,7 @@ export function useTacticalTabState(): UseTacticalTabStateReturn {
   // Track if we've already triggered analysis for each tab
   const allShotsAnalyzedRef = useRef(false);
   const ballSequenceAnalyzedRef = useRef(false);
+  const serveAnalyzedRef = useRef(false);
   const nicknamesGeneratedRef = useRef(false);
   
   // Ref for scrolling to ball sequence section
@@ -81,6 +83,7 @@ export function useTacticalTabState(): UseTacticalTabStateReturn {
     setSelectedBallSwingTypes,
     allShotsAnalyzedRef,
     ballSequenceAnalyzedRef,
+    serveAnalyzedRef,
     nicknamesGeneratedRef,
     ballSequenceSectionRef,
     handleBallSequenceClick,
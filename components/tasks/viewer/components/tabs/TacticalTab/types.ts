@@ -1,6 +1,7 @@
 import type { BallSequenceType } from "@/types/tactical-analysis";
+import type { TaskArtifactMeta, TaskArtifactVersion } from "@/types/task-artifact";
 
-export type TacticalSubTab = "all-shots" | "ball-sequence" | "court-dominance";
+export type TacticalSubTab = "all-shots" | "ball-sequence" | "serves" | "patterns" | "court-dominance";
 
 export interface SubTabConfig {
   id: TacticalSubTab;
@@ -19,6 +20,15 @@ export interface BallTabConfig {
   ballType: BallSequenceType;
 }
 
+export interface TacticalAnalysisResult {
+  isAnalyzing: boolean;
+  analysis: string | null;
+  error: string | null;
+  artifact: TaskArtifactMeta | null;
+  regenerate: () => void;
+  showVersion: (version: TaskArtifactVersion<{ analysis: string }>) => void;
+}
+
 export interface BallSequenceClickData {
   ballType: BallSequenceType;
   ballLabel: string;
@@ -8,12 +8,14 @@ import type { StatisticsResult, TeamSession, Player, Swing } from "../../types";
 import { ProgressRing, TeamMedalDisplay, OverallMedal } from "../shared";
 import type { ProgressRingGradient, EarnedMedal } from "../shared";
 import type { PlayerRankings } from "../../hooks/usePlayerRankings";
+import { PairFormationView } from "../PairFormationView";
 
 interface TeamsTabProps {
   result: StatisticsResult | null;
   portraits: Record<number, string>;
   playerDisplayNames: Record<number, string>;
   rankings: PlayerRankings;
+  sport?: string;
 }
 
 /**
@@ -229,7 +231,7 @@ function aggregateTeamStats(sessions: TeamSession[]): Map<string, TeamStats> {
   return teamMap;
 }
 
-export function TeamsTab({ result, portraits, playerDisplayNames, rankings }: TeamsTabProps) {
+export function TeamsTab({ result, portraits, playerDisplayNames, rankings, sport }: TeamsTabProps) {
   const teamSessions = result?.team_sessions || [];
   const scrollRef = useRef<HTMLDivElement>(null);
   const [canScrollLeft, setCanScrollLeft] = useState(false);
@@ -521,6 +523,9 @@ export function TeamsTab({ result, portraits, playerDisplayNames, rankings }: Te
         </Flex>
       </Box>
 
+      {sport === "padel" && (
+        <PairFormationView result={result} playerDisplayNames={playerDisplayNames} />
+      )}
     </Box>
   );
 }
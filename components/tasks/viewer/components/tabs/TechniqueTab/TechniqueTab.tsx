@@ -0,0 +1,184 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Box, Flex, Text, Heading, Card, Select, Switch, SegmentedControl } from "@radix-ui/themes";
+import { MixIcon } from "@radix-ui/react-icons";
+import type { StatisticsResult } from "../../../types";
+import type { PlayerRankings } from "../../../hooks/usePlayerRankings";
+import { formatSwingType } from "../../../utils";
+import { EmptyState } from "../TacticalTab/components";
+import { SwingList, SwingPosePanel, JointAngleTable } from "./components";
+import { getTechniqueSwings, annotationToPose, computeJointAngles } from "./utils";
+import { DEFAULT_FRAME_SIZE } from "./constants";
+import type { TechniqueSwing } from "./types";
+
+interface TechniqueTabProps {
+  result: StatisticsResult | null;
+  rankings: PlayerRankings;
+  playerDisplayNames?: Record<number, string>;
+}
+
+const ALL = "all";
+
+export function TechniqueTab({ result, rankings, playerDisplayNames = {} }: TechniqueTabProps) {
+  const { validPlayers } = rankings;
+  const [playerFilter, setPlayerFilter] = useState<string>(ALL);
+  const [swingTypeFilter, setSwingTypeFilter] = useState<string>(ALL);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [frameIndices, setFrameIndices] = useState<Record<string, number>>({});
+
+  const frameSize = useMemo(() => {
+    const info = result?.debug_data?.video_info;
+    return info?.width && info?.height ? { width: info.width, height: info.height } : DEFAULT_FRAME_SIZE;
+  }, [result?.debug_data?.video_info]);
+
+  const allSwings = useMemo(() => getTechniqueSwings(validPlayers), [validPlayers]);
+
+  const swingTypes = useMemo(
+    () => Array.from(new Set(allSwings.map(s => s.swing_type))).sort(),
+    [allSwings]
+  );
+
+  const filteredSwings = useMemo(
+    () => allSwings.filter(s =>
+      (playerFilter === ALL || String(s.player_id) === playerFilter) &&
+      (swingTypeFilter === ALL || s.swing_type === swingTypeFilter)
+    ),
+    [allSwings, playerFilter, swingTypeFilter]
+  );
+
+  const swingsById = useMemo(() => new Map(allSwings.map(s => [s.id, s])), [allSwings]);
+
+  const displayedSwings: TechniqueSwing[] = compareMode
+    ? compareIds.map(id => swingsById.get(id)).filter((s): s is TechniqueSwing => !!s)
+    : [swingsById.get(selectedId ?? "") ?? filteredSwings[0]].filter((s): s is TechniqueSwing => !!s);
+
+  const getFrameIndex = (swing: TechniqueSwing) => frameIndices[swing.id] ?? swing.contactFrameIndex;
+
+  const getPlayerName = (playerId: number) => playerDisplayNames[playerId] ?? `Player ${playerId}`;
+
+  const angleColumns = displayedSwings.map(swing => {
+    const annotation = swing.poseAnnotations[getFrameIndex(swing)];
+    return {
+      label: compareMode ? `${getPlayerName(swing.player_id)} #${swing.swingIndex}` : "Angle",
+      angles: computeJointAngles(annotation ? annotationToPose(annotation, frameSize) : null),
+    };
+  });
+
+  // Only swings of the same type can be compared
+  const compareType = compareIds.length > 0 ? swingsById.get(compareIds[0])?.swing_type : undefined;
+  const isCompareDisabled = (swing: TechniqueSwing) =>
+    compareIds.length >= 2 || (compareType !== undefined && swing.swing_type !== compareType);
+
+  const handleToggleCompare = (id: string) => {
+    setCompareIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(0, 2)));
+  };
+
+  const handleCompareModeChange = (enabled: boolean) => {
+    setCompareMode(enabled);
+    const current = displayedSwings[0];
+    setCompareIds(enabled && current ? [current.id] : []);
+  };
+
+  if (allSwings.length === 0) {
+    return (
+      <EmptyState
+        fullPage
+        icon={<MixIcon width={48} height={48} style={{ color: "var(--gray-8)" }} />}
+        title="No pose data available for the swings in this match"
+      />
+    );
+  }
+
+  return (
+    <Box style={{ animation: "fadeIn 0.2s ease-out" }}>
+      <Flex direction="column" gap="4">
+        {/* Filters */}
+        <Flex align="center" justify="between" gap="3" wrap="wrap">
+          <SegmentedControl.Root value={playerFilter} onValueChange={setPlayerFilter} size="1">
+            <SegmentedControl.Item value={ALL}>All players</SegmentedControl.Item>
+            {validPlayers.map(player => (
+              <SegmentedControl.Item key={player.player_id} value={String(player.player_id)}>
+                {player.displayName}
+              </SegmentedControl.Item>
+            ))}
+          </SegmentedControl.Root>
+
+          <Flex align="center" gap="3">
+            <Select.Root value={swingTypeFilter} onValueChange={setSwingTypeFilter} size="1">
+              <Select.Trigger />
+              <Select.Content>
+                <Select.Item value={ALL}>All swing types</Select.Item>
+                {swingTypes.map(type => (
+                  <Select.Item key={type} value={type}>{formatSwingType(type)}</Select.Item>
+                ))}
+              </Select.Content>
+            </Select.Root>
+            <Text as="label" size="2">
+              <Flex gap="2" align="center">
+                <Switch size="1" checked={compareMode} onCheckedChange={handleCompareModeChange} />
+                Compare swings
+              </Flex>
+            </Text>
+          </Flex>
+        </Flex>
+
+        <Flex gap="4" align="start" wrap="wrap">
+          {/* Swing list */}
+          <Box style={{ flex: "1 1 280px", minWidth: 260, maxWidth: 380 }}>
+            {compareMode && (
+              <Text size="1" color="gray" as="p" mb="2">
+                {compareType
+                  ? `Select another ${formatSwingType(compareType)} to compare (${compareIds.length}/2)`
+                  : "Select two swings of the same type"}
+              </Text>
+            )}
+            {filteredSwings.length > 0 ? (
+              <SwingList
+                swings={filteredSwings}
+                selectedId={displayedSwings[0]?.id ?? null}
+                compareMode={compareMode}
+                compareIds={compareIds}
+                onSelect={setSelectedId}
+                onToggleCompare={handleToggleCompare}
+                isCompareDisabled={isCompareDisabled}
+              />
+            ) : (
+              <Text size="2" color="gray">No swings match these filters</Text>
+            )}
+          </Box>
+
+          {/* Pose + joint angles */}
+          <Card style={{ flex: "2 1 560px", border: "1px solid var(--gray-5)" }}>
+            {displayedSwings.length > 0 ? (
+              <Flex direction="column" gap="4" p="2">
+                <Heading size="3" weight="medium">
+                  {compareMode && displayedSwings.length === 2 ? "Swing comparison" : "Swing technique"}
+                </Heading>
+                <Flex gap="4" wrap="wrap" justify="center">
+                  {displayedSwings.map(swing => (
+                    <SwingPosePanel
+                      key={swing.id}
+                      swing={swing}
+                      playerName={getPlayerName(swing.player_id)}
+                      frameIndex={getFrameIndex(swing)}
+                      onFrameIndexChange={index => setFrameIndices(prev => ({ ...prev, [swing.id]: index }))}
+                      frameSize={frameSize}
+                    />
+                  ))}
+                </Flex>
+                <JointAngleTable columns={angleColumns} />
+              </Flex>
+            ) : (
+              <Flex align="center" justify="center" style={{ minHeight: 200 }}>
+                <Text size="2" color="gray">Select a swing to compare</Text>
+              </Flex>
+            )}
+          </Card>
+        </Flex>
+      </Flex>
+    </Box>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { Table, Text } from "@radix-ui/themes";
+import { JOINT_ANGLES, ANGLE_DIFF_THRESHOLD } from "../constants";
+import type { JointAngles } from "../types";
+
+interface JointAngleTableProps {
+  columns: Array<{ label: string; angles: JointAngles }>;
+}
+
+function formatAngle(angle: number | null): string {
+  return angle === null ? "–" : `${Math.round(angle)}°`;
+}
+
+/**
+ * Joint angles for one swing, or two swings with the difference between them
+ */
+export function JointAngleTable({ columns }: JointAngleTableProps) {
+  const showDiff = columns.length === 2;
+
+  return (
+    <Table.Root size="1" variant="surface">
+      <Table.Header>
+        <Table.Row>
+          <Table.ColumnHeaderCell>Joint</Table.ColumnHeaderCell>
+          {columns.map(col => (
+            <Table.ColumnHeaderCell key={col.label} justify="end">{col.label}</Table.ColumnHeaderCell>
+          ))}
+          {showDiff && <Table.ColumnHeaderCell justify="end">Δ</Table.ColumnHeaderCell>}
+        </Table.Row>
+      </Table.Header>
+      <Table.Body>
+        {JOINT_ANGLES.map(({ key, label }) => {
+          const values = columns.map(col => col.angles[key]);
+          const diff = showDiff && values[0] !== null && values[1] !== null ? values[1] - values[0] : null;
+          const isSignificant = diff !== null && Math.abs(diff) >= ANGLE_DIFF_THRESHOLD;
+
+          return (
+            <Table.Row key={key}>
+              <Table.RowHeaderCell>{label}</Table.RowHeaderCell>
+              {values.map((value, idx) => (
+                <Table.Cell key={idx} justify="end">{formatAngle(value)}</Table.Cell>
+              ))}
+              {showDiff && (
+                <Table.Cell justify="end">
+                  <Text
+                    weight={isSignificant ? "bold" : "regular"}
+                    style={{ color: isSignificant ? "var(--orange-11)" : "var(--gray-11)" }}
+                  >
+                    {diff === null ? "–" : `${diff > 0 ? "+" : ""}${Math.round(diff)}°`}
+                  </Text>
+                </Table.Cell>
+              )}
+            </Table.Row>
+          );
+        })}
+      </Table.Body>
+    </Table.Root>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { Box, Flex, Text, Badge, Checkbox, Card } from "@radix-ui/themes";
+import { formatSwingType } from "../../../../utils";
+import type { TechniqueSwing } from "../types";
+
+interface SwingListProps {
+  swings: TechniqueSwing[];
+  selectedId: string | null;
+  compareMode: boolean;
+  compareIds: string[];
+  onSelect: (id: string) => void;
+  onToggleCompare: (id: string) => void;
+  isCompareDisabled: (swing: TechniqueSwing) => boolean;
+}
+
+function formatClock(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+export function SwingList({
+  swings,
+  selectedId,
+  compareMode,
+  compareIds,
+  onSelect,
+  onToggleCompare,
+  isCompareDisabled,
+}: SwingListProps) {
+  return (
+    <Flex direction="column" gap="2" style={{ maxHeight: 520, overflowY: "auto", paddingRight: 4 }}>
+      {swings.map(swing => {
+        const isSelected = compareMode ? compareIds.includes(swing.id) : swing.id === selectedId;
+        const disabled = compareMode && !isSelected && isCompareDisabled(swing);
+
+        return (
+          <Card
+            key={swing.id}
+            onClick={() => {
+              if (disabled) return;
+              if (compareMode) onToggleCompare(swing.id);
+              else onSelect(swing.id);
+            }}
+            style={{
+              cursor: disabled ? "not-allowed" : "pointer",
+              opacity: disabled ? 0.5 : 1,
+              border: isSelected ? "2px solid var(--mint-9)" : "1px solid var(--gray-5)",
+              padding: "8px 10px",
+            }}
+          >
+            <Flex align="center" justify="between" gap="2">
+              <Flex align="center" gap="2">
+                {compareMode && (
+                  <Checkbox checked={isSelected} disabled={disabled} onClick={e => e.stopPropagation()} onCheckedChange={() => onToggleCompare(swing.id)} />
+                )}
+                <Box>
+                  <Text size="2" weight="medium">
+                    #{swing.swingIndex} {formatSwingType(swing.swing_type)}
+                  </Text>
+                  <Text size="1" color="gray" as="div">
+                    {formatClock(swing.ball_hit.timestamp)} · {swing.poseAnnotations.length} frames
+                  </Text>
+                </Box>
+              </Flex>
+              <Flex gap="1" align="center">
+                {swing.serve && <Badge color="orange" variant="soft" size="1">Serve</Badge>}
+                {swing.volley && <Badge color="blue" variant="soft" size="1">Volley</Badge>}
+                {swing.ball_speed > 0 && (
+                  <Badge color="mint" variant="soft" size="1">{Math.round(swing.ball_speed)} km/h</Badge>
+                )}
+              </Flex>
+            </Flex>
+          </Card>
+        );
+      })}
+    </Flex>
+  );
+}
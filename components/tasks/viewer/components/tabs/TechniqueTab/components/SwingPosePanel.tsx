@@ -0,0 +1,80 @@
+"use client";
+
+import { useMemo } from "react";
+import { Box, Flex, Text, Button, Slider } from "@radix-ui/themes";
+import { StaticPose2D } from "@/components/tasks/techniqueViewer/components/StaticPose2D";
+import { formatSwingType } from "../../../../utils";
+import { annotationToPose } from "../utils";
+import { DRAWN_ANGLES, POSE_CANVAS } from "../constants";
+import type { TechniqueSwing } from "../types";
+
+interface SwingPosePanelProps {
+  swing: TechniqueSwing;
+  playerName: string;
+  frameIndex: number;
+  onFrameIndexChange: (index: number) => void;
+  frameSize: { width: number; height: number };
+}
+
+export function SwingPosePanel({
+  swing,
+  playerName,
+  frameIndex,
+  onFrameIndexChange,
+  frameSize,
+}: SwingPosePanelProps) {
+  const frameCount = swing.poseAnnotations.length;
+  const annotation = swing.poseAnnotations[Math.min(frameIndex, frameCount - 1)];
+
+  const pose = useMemo(
+    () => (annotation ? annotationToPose(annotation, frameSize) : null),
+    [annotation, frameSize]
+  );
+
+  const isContactFrame = frameIndex === swing.contactFrameIndex;
+
+  return (
+    <Flex direction="column" gap="2" style={{ width: POSE_CANVAS.width }}>
+      <Box>
+        <Text size="2" weight="bold">{playerName}</Text>
+        <Text size="1" color="gray" as="div">
+          #{swing.swingIndex} {formatSwingType(swing.swing_type)}
+        </Text>
+      </Box>
+
+      <StaticPose2D
+        pose={pose}
+        width={POSE_CANVAS.width}
+        height={POSE_CANVAS.height}
+        measuredAngles={DRAWN_ANGLES}
+      />
+
+      {frameCount > 1 && (
+        <Flex direction="column" gap="1">
+          <Slider
+            size="1"
+            value={[frameIndex]}
+            onValueChange={([value]) => onFrameIndexChange(value)}
+            min={0}
+            max={frameCount - 1}
+            step={1}
+          />
+          <Flex justify="between" align="center">
+            <Text size="1" color="gray">
+              Frame {frameIndex + 1}/{frameCount}
+              {isContactFrame && " · contact"}
+            </Text>
+            <Button
+              size="1"
+              variant="ghost"
+              disabled={isContactFrame}
+              onClick={() => onFrameIndexChange(swing.contactFrameIndex)}
+            >
+              Contact
+            </Button>
+          </Flex>
+        </Flex>
+      )}
+    </Flex>
+  );
+}
@@ -0,0 +1,3 @@
+export { SwingList } from "./SwingList";
+export { SwingPosePanel } from "./SwingPosePanel";
+export { JointAngleTable } from "./JointAngleTable";
@@ -0,0 +1,31 @@
+import type { JointAngleConfig } from "./types";
+
+// COCO-17: 5/6 shoulders, 7/8 elbows, 9/10 wrists, 11/12 hips, 13/14 knees, 15/16 ankles
+export const JOINT_ANGLES: JointAngleConfig[] = [
+  { key: "leftElbow", label: "Left elbow", indices: [5, 7, 9] },
+  { key: "rightElbow", label: "Right elbow", indices: [6, 8, 10] },
+  { key: "leftShoulder", label: "Left shoulder", indices: [11, 5, 7] },
+  { key: "rightShoulder", label: "Right shoulder", indices: [12, 6, 8] },
+  { key: "leftHip", label: "Left hip", indices: [5, 11, 13] },
+  { key: "rightHip", label: "Right hip", indices: [6, 12, 14] },
+  { key: "leftKnee", label: "Left knee", indices: [11, 13, 15] },
+  { key: "rightKnee", label: "Right knee", indices: [12, 14, 16] },
+];
+
+// Angles drawn on the skeleton (limbs only - torso angles clutter the view)
+export const DRAWN_ANGLES: Array<[number, number, number]> = [
+  [5, 7, 9],
+  [6, 8, 10],
+  [11, 13, 15],
+  [12, 14, 16],
+];
+
+export const MIN_KEYPOINT_CONFIDENCE = 0.3;
+
+// Fallback frame size when the result has no video_info (keeps aspect ratio sane)
+export const DEFAULT_FRAME_SIZE = { width: 1920, height: 1080 };
+
+// Differences below this are treated as equal when comparing swings
+export const ANGLE_DIFF_THRESHOLD = 10;
+
+export const POSE_CANVAS = { width: 260, height: 340 };
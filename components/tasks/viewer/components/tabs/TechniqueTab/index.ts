@@ -0,0 +1,3 @@
+export { TechniqueTab } from "./TechniqueTab";
+export { hasPoseAnnotations } from "./utils";
+export type { TechniqueSwing, JointAngles } from "./types";
@@ -0,0 +1,28 @@
+import type { SwingWithPlayer } from "../../../types";
+
+export type JointAngleKey =
+  | "leftElbow"
+  | "rightElbow"
+  | "leftShoulder"
+  | "rightShoulder"
+  | "leftHip"
+  | "rightHip"
+  | "leftKnee"
+  | "rightKnee";
+
+export type JointAngles = Record<JointAngleKey, number | null>;
+
+export interface JointAngleConfig {
+  key: JointAngleKey;
+  label: string;
+  // COCO-17 keypoint indices [a, vertex, c] - also used to draw the angle on the skeleton
+  indices: [number, number, number];
+}
+
+/** A swing with pose annotations, addressable across players */
+export interface TechniqueSwing extends SwingWithPlayer {
+  id: string; // `${player_id}-${index}`
+  swingIndex: number; // 1-based index within the player's swings
+  contactFrameIndex: number; // Index into poseAnnotations closest to ball hit
+  poseAnnotations: NonNullable<SwingWithPlayer["annotations"]>;
+}
@@ -0,0 +1,6 @@
+export {
+  annotationToPose,
+  computeJointAngles,
+  getTechniqueSwings,
+  hasPoseAnnotations,
+} from "./swingPose";
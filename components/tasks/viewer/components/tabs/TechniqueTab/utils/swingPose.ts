@@ -0,0 +1,119 @@
+import type { PoseDetectionResult } from "@/hooks/usePoseDetection";
+import {
+  calculateElbowAngle,
+  calculateShoulderAngle,
+  calculateHipAngle,
+  calculateKneeAngle,
+} from "@/components/videoPoseViewerV2/hooks/useSwingDetectionV3/utils";
+import type { Player, SwingAnnotation } from "../../../../types";
+import type { JointAngles, TechniqueSwing } from "../types";
+import { MIN_KEYPOINT_CONFIDENCE } from "../constants";
+
+/**
+ * Convert a swing annotation (normalized COCO-17 [[x, y], ...]) to a pose in pixel space.
+ * Angle calculations expect pixels, so keypoints are scaled by the video frame size.
+ */
+export function annotationToPose(
+  annotation: SwingAnnotation,
+  frameSize: { width: number; height: number }
+): PoseDetectionResult | null {
+  if (!annotation.keypoints || annotation.keypoints.length < 17) return null;
+
+  return {
+    keypoints: annotation.keypoints.map((kp, idx) => {
+      if (!kp || kp.length < 2) {
+        return { x: 0, y: 0, score: 0, name: `keypoint_${idx}` };
+      }
+      // Keypoints at the origin are missing detections
+      const isValid = kp[0] > 0.01 || kp[1] > 0.01;
+      return {
+        x: kp[0] * frameSize.width,
+        y: kp[1] * frameSize.height,
+        score: isValid ? (annotation.confidences?.[idx] ?? 1.0) : 0,
+        name: `keypoint_${idx}`,
+      };
+    }),
+    score: annotation.box_confidence,
+  };
+}
+
+export function computeJointAngles(pose: PoseDetectionResult | null): JointAngles {
+  if (!pose) {
+    return {
+      leftElbow: null,
+      rightElbow: null,
+      leftShoulder: null,
+      rightShoulder: null,
+      leftHip: null,
+      rightHip: null,
+      leftKnee: null,
+      rightKnee: null,
+    };
+  }
+
+  const c = MIN_KEYPOINT_CONFIDENCE;
+  return {
+    leftElbow: calculateElbowAngle(pose, 5, 7, 9, c),
+    rightElbow: calculateElbowAngle(pose, 6, 8, 10, c),
+    leftShoulder: calculateShoulderAngle(pose, 11, 5, 7, c),
+    rightShoulder: calculateShoulderAngle(pose, 12, 6, 8, c),
+    leftHip: calculateHipAngle(pose, 5, 11, 13, c),
+    rightHip: calculateHipAngle(pose, 6, 12, 14, c),
+    leftKnee: calculateKneeAngle(pose, 11, 13, 15, c),
+    rightKnee: calculateKneeAngle(pose, 12, 14, 16, c),
+  };
+}
+
+/**
+ * Find the annotation closest to ball contact.
+ * Uses annotation timestamps when present, otherwise maps the hit time onto the
+ * evenly spaced annotations (same approach as the video pose overlay).
+ */
+function findContactFrameIndex(
+  annotations: SwingAnnotation[],
+  swing: Pick<TechniqueSwing, "start" | "end" | "ball_hit">
+): number {
+  const hitTime = swing.ball_hit.timestamp;
+
+  if (annotations.every(a => a.timestamp !== undefined)) {
+    let bestIdx = 0;
+    for (let i = 1; i < annotations.length; i++) {
+      if (Math.abs(annotations[i].timestamp! - hitTime) < Math.abs(annotations[bestIdx].timestamp! - hitTime)) {
+        bestIdx = i;
+      }
+    }
+    return bestIdx;
+  }
+
+  const duration = swing.end.timestamp - swing.start.timestamp;
+  const progress = duration > 0 ? Math.max(0, Math.min(1, (hitTime - swing.start.timestamp) / duration)) : 0.5;
+  return Math.min(annotations.length - 1, Math.floor(progress * annotations.length));
+}
+
+/**
+ * Collect all swings with usable pose annotations, ordered by time per player
+ */
+export function getTechniqueSwings(players: Player[]): TechniqueSwing[] {
+  return players.flatMap(player =>
+    [...player.swings]
+      .sort((a, b) => a.ball_hit.timestamp - b.ball_hit.timestamp)
+      .map((swing, idx) => {
+        const poseAnnotations = (swing.annotations ?? []).filter(a => a.keypoints && a.keypoints.length >= 17);
+        return {
+          ...swing,
+          player_id: player.player_id,
+          id: `${player.player_id}-${idx}`,
+          swingIndex: idx + 1,
+          poseAnnotations,
+          contactFrameIndex: poseAnnotations.length > 0 ? findContactFrameIndex(poseAnnotations, swing) : 0,
+        };
+      })
+      .filter(swing => swing.poseAnnotations.length > 0)
+  );
+}
+
+export function hasPoseAnnotations(players: Player[] | undefined): boolean {
+  return !!players?.some(player =>
+    player.swings.some(swing => swing.annotations?.some(a => a.keypoints && a.keypoints.length >= 17))
+  );
+}
@@ -5,8 +5,5 @@ export { TeamsTab } from "./TeamsTab";
 export { HighlightsTab } from "./HighlightsTab";
 export { TacticalTab } from "./TacticalTab";
 export { ProfilesTab } from "./ProfilesTab";
-export { TechniqueTab } from "./TechniqueTab";
+export { TechniqueTab, hasPoseAnnotations } from "./TechniqueTab";
 export { CoachingTab } from "./CoachingTab";
-
-
-
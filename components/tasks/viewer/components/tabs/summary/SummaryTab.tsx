@@ -2,8 +2,10 @@
 
 import { useState, useEffect, useMemo } from "react";
 import { Box, Grid, Flex, Heading, Card } from "@radix-ui/themes";
+import type { MatchScore } from "@/utils/match-score";
+import type { LineCallReport } from "@/utils/line-calls";
 import { Task, StatisticsResult, BallBounce } from "../../../types";
-import { TaskStatusCard } from "../../index";
+import { TaskStatusCard, MatchScoreboard, BounceHeatmap } from "../../index";
 import { CountingContext } from "./CountingContext";
 import { calculateSummaryStats } from "./utils";
 import { formatDuration, formatDistanceKm, formatDistanceM, formatRallyLength, formatShotsPerRally, formatIntensity } from "./utils";
@@ -40,9 +42,12 @@ interface SummaryTabProps {
   task: Task;
   result: StatisticsResult | null;
   enhancedBallBounces: BallBounce[];
+  matchScore?: MatchScore | null;
+  lineCalls?: LineCallReport | null;
+  playerDisplayNames?: Record<number, string>;
 }
 
-export function SummaryTab({ task, result, enhancedBallBounces }: SummaryTabProps) {
+export function SummaryTab({ task, result, enhancedBallBounces, matchScore, lineCalls, playerDisplayNames }: SummaryTabProps) {
   const [cardsVisible, setCardsVisible] = useState(false);
   const [startCounting, setStartCounting] = useState(false);
 
@@ -180,6 +185,33 @@ export function SummaryTab({ task, result, enhancedBallBounces }: SummaryTabProp
             </Card>
           )}
         </Grid>
+
+        {/* Inferred score and line calls */}
+        {(matchScore || lineCalls) && (
+          <Grid columns={{ initial: "1", md: "2" }} gap="4" mb="4" style={getRowAnimation(4)}>
+            {matchScore && (
+              <Card style={{ border: "1px solid var(--gray-5)" }}>
+                <Flex direction="column" gap="3" p="4">
+                  <Heading size="3" weight="medium">Score</Heading>
+                  <MatchScoreboard
+                    matchScore={matchScore}
+                    players={result.players}
+                    playerDisplayNames={playerDisplayNames}
+                  />
+                </Flex>
+              </Card>
+            )}
+
+            {lineCalls && lineCalls.calls.length > 0 && (
+              <BounceHeatmap
+                heatmap={result.bounce_heatmap || []}
+                totalBounces={enhancedBallBounces.length}
+                lineCalls={lineCalls}
+                playerDisplayNames={playerDisplayNames}
+              />
+            )}
+          </Grid>
+        )}
       </Box>
     </CountingContext.Provider>
   );
@@ -313,3 +313,22 @@ export const OVERLAY_COLORS = {
   },
 };
 
+// ===========================================
+// LINE CALL COLORS - In/out markers on bounces
+// ===========================================
+export const LINE_CALL_COLORS = {
+  in: "#22C55E",     // Green
+  out: "#EF4444",    // Red
+  close: "#EAB308",  // Amber - too close to call
+} as const;
+
+// ===========================================
+// WORKLOAD COLORS - Workload timeline series
+// ===========================================
+export const WORKLOAD_COLORS = {
+  distance: "#3B82F6",   // Blue
+  sprints: "#F59E0B",    // Amber
+  swingRate: "#10B981",  // Emerald
+  ballSpeed: "#EF4444",  // Red
+} as const;
+
@@ -2,6 +2,12 @@ export { useVideoPlayback } from "./useVideoPlayback";
 export { useEventTooltip } from "./useEventTooltip";
 export { useAudioAnalysis, useRealtimeVolume } from "./useAudioAnalysis";
 export { useTaskFetching } from "./useTaskFetching";
+export { useCourtCalibration } from "./useCourtCalibration";
+export { useMatchScore } from "./useMatchScore";
+export { useMatchCorrections } from "./useMatchCorrections";
+export type { UseMatchCorrectionsResult } from "./useMatchCorrections";
+export { usePlayerIdentities } from "./usePlayerIdentities";
+export type { UsePlayerIdentitiesResult } from "./usePlayerIdentities";
 export { usePlayerRankings, getSortedPlayersWithOverallRank, getOverallRankPoints, getGoldCount } from "./usePlayerRankings";
 export type { ValidPlayer, PlayerRankings } from "./usePlayerRankings";
 export { useEnhancedBounces, useAllSwings } from "./useEnhancedBounces";
@@ -0,0 +1,83 @@
+import { useState, useMemo, useCallback } from "react";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { logger } from "@/lib/logger";
+import { isSampleTask } from "@/components/tasks/sampleTasks";
+import { isGuestTask } from "@/utils/storage";
+import {
+  applyCourtCalibration,
+  getCalibrationSport,
+  isValidCalibration,
+  type CourtCalibrationData,
+} from "@/utils/court-calibration";
+import type { Task, StatisticsResult } from "../types";
+
+interface UseCourtCalibrationResult {
+  calibration: CourtCalibrationData | null;
+  /** Result with court positions re-projected through the calibration (or the original result) */
+  calibratedResult: StatisticsResult | null;
+  saveCalibration: (calibration: CourtCalibrationData) => Promise<void>;
+  clearCalibration: () => Promise<void>;
+}
+
+/**
+ * Manages the manual court calibration for a task.
+ * Calibrations are persisted on the task for signed-in users; sample and guest
+ * tasks keep them in memory only.
+ */
+export function useCourtCalibration(
+  task: Task | null,
+  result: StatisticsResult | null
+): UseCourtCalibrationResult {
+  const { session } = useAuth();
+  const [calibration, setCalibration] = useState<CourtCalibrationData | null>(null);
+  const [syncedTaskId, setSyncedTaskId] = useState<string | null>(null);
+
+  // Load the saved calibration once per task (status polling shouldn't overwrite local edits)
+  if (task && task.id !== syncedTaskId) {
+    setSyncedTaskId(task.id);
+    setCalibration(isValidCalibration(task.court_calibration) ? task.court_calibration : null);
+  }
+
+  const canPersist = !!task && !!session?.access_token && !isSampleTask(task.id) && !isGuestTask(task.id);
+
+  const persist = useCallback(async (value: CourtCalibrationData | null) => {
+    if (!task || !canPersist) return;
+
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/calibration`, {
+        method: value ? "PUT" : "DELETE",
+        headers: {
+          Authorization: `Bearer ${session?.access_token}`,
+          ...(value ? { "Content-Type": "application/json" } : {}),
+        },
+        body: value ? JSON.stringify({ calibration: value }) : undefined,
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to save calibration");
+      }
+    } catch (err) {
+      logger.error("[useCourtCalibration] Failed to persist calibration:", err);
+    }
+  }, [task, canPersist, session?.access_token]);
+
+  const saveCalibration = useCallback(async (value: CourtCalibrationData) => {
+    setCalibration(value);
+    await persist(value);
+  }, [persist]);
+
+  const clearCalibration = useCallback(async () => {
+    setCalibration(null);
+    await persist(null);
+  }, [persist]);
+
+  // Only apply a calibration made for the task's sport
+  const calibratedResult = useMemo(() => {
+    if (!result || !calibration) return result;
+    if (getCalibrationSport(task?.sport) !== calibration.sport) return result;
+    return applyCourtCalibration(result, calibration);
+  }, [result, calibration, task?.sport]);
+
+  return { calibration, calibratedResult, saveCalibration, clearCalibration };
+}
@@ -0,0 +1,93 @@
+import { useState, useMemo, useCallback } from "react";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { logger } from "@/lib/logger";
+import { isSampleTask } from "@/components/tasks/sampleTasks";
+import { isGuestTask } from "@/utils/storage";
+import {
+  applyMatchCorrections,
+  isValidMatchCorrections,
+  MAX_MATCH_CORRECTIONS,
+  type MatchCorrection,
+} from "@/utils/match-corrections";
+import type { Task, StatisticsResult } from "../types";
+
+export interface UseMatchCorrectionsResult {
+  corrections: MatchCorrection[];
+  /** Result with the corrections replayed over it (or the original result) */
+  correctedResult: StatisticsResult | null;
+  addCorrection: (correction: MatchCorrection) => Promise<void>;
+  /** Drop the most recent correction */
+  undoCorrection: () => Promise<void>;
+  resetCorrections: () => Promise<void>;
+}
+
+/**
+ * Manual corrections of swings, bounces, rallies and player IDs for a task.
+ * Corrections are persisted on the task for signed-in users; sample and guest
+ * tasks keep them in memory only.
+ */
+export function useMatchCorrections(
+  task: Task | null,
+  result: StatisticsResult | null
+): UseMatchCorrectionsResult {
+  const { session } = useAuth();
+  const [corrections, setCorrections] = useState<MatchCorrection[]>([]);
+  const [syncedTaskId, setSyncedTaskId] = useState<string | null>(null);
+
+  // Load saved corrections once per task (status polling shouldn't overwrite local edits)
+  if (task && task.id !== syncedTaskId) {
+    setSyncedTaskId(task.id);
+    setCorrections(isValidMatchCorrections(task.match_corrections) ? task.match_corrections : []);
+  }
+
+  const canPersist = !!task && !!session?.access_token && !isSampleTask(task.id) && !isGuestTask(task.id);
+
+  const persist = useCallback(async (value: MatchCorrection[]) => {
+    if (!task || !canPersist) return;
+
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/corrections`, {
+        method: "PUT",
+        headers: {
+          Authorization: `Bearer ${session?.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ corrections: value }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to save match corrections");
+      }
+    } catch (err) {
+      logger.error("[useMatchCorrections] Failed to persist match corrections:", err);
+    }
+  }, [task, canPersist, session?.access_token]);
+
+  const update = useCallback(async (next: MatchCorrection[]) => {
+    setCorrections(next);
+    await persist(next);
+  }, [persist]);
+
+  const addCorrection = useCallback(async (correction: MatchCorrection) => {
+    if (corrections.length >= MAX_MATCH_CORRECTIONS) {
+      logger.warn("[useMatchCorrections] Correction limit reached");
+      return;
+    }
+    await update([...corrections, correction]);
+  }, [corrections, update]);
+
+  const undoCorrection = useCallback(async () => {
+    if (corrections.length === 0) return;
+    await update(corrections.slice(0, -1));
+  }, [corrections, update]);
+
+  const resetCorrections = useCallback(() => update([]), [update]);
+
+  const correctedResult = useMemo(
+    () => (result ? applyMatchCorrections(result, corrections, task?.sport) : null),
+    [result, corrections, task?.sport]
+  );
+
+  return { corrections, correctedResult, addCorrection, undoCorrection, resetCorrections };
+}
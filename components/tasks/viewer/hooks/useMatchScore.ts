@@ -0,0 +1,88 @@
+import { useState, useMemo, useCallback } from "react";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { logger } from "@/lib/logger";
+import { isSampleTask } from "@/components/tasks/sampleTasks";
+import { isGuestTask } from "@/utils/storage";
+import {
+  reconstructMatchScore,
+  isValidRallyOutcomes,
+  getRallyKey,
+  migrateRallyOutcomes,
+  type MatchScore,
+  type RallyOutcomeOverride,
+  type RallyOutcomeOverrides,
+} from "@/utils/match-score";
+import type { Task, StatisticsResult } from "../types";
+
+interface UseMatchScoreResult {
+  matchScore: MatchScore | null;
+  overrides: RallyOutcomeOverrides;
+  /** Set a rally's outcome by hand, or pass null to go back to the inferred one */
+  setRallyOutcome: (rallyIndex: number, outcome: RallyOutcomeOverride | null) => Promise<void>;
+}
+
+/**
+ * Inferred point winners and running score for a task, with manual corrections.
+ * Corrections are persisted on the task for signed-in users; sample and guest
+ * tasks keep them in memory only.
+ */
+export function useMatchScore(
+  task: Task | null,
+  result: StatisticsResult | null
+): UseMatchScoreResult {
+  const { session } = useAuth();
+  const [overrides, setOverrides] = useState<RallyOutcomeOverrides>({});
+  const [syncedTaskId, setSyncedTaskId] = useState<string | null>(null);
+
+  // Load saved corrections once per task (status polling shouldn't overwrite local edits)
+  if (task && task.id !== syncedTaskId) {
+    setSyncedTaskId(task.id);
+    setOverrides(isValidRallyOutcomes(task.rally_outcomes) ? task.rally_outcomes : {});
+  }
+
+  const canPersist = !!task && !!session?.access_token && !isSampleTask(task.id) && !isGuestTask(task.id);
+
+  const persist = useCallback(async (value: RallyOutcomeOverrides) => {
+    if (!task || !canPersist) return;
+
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/rally-outcomes`, {
+        method: "PUT",
+        headers: {
+          Authorization: `Bearer ${session?.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ outcomes: value }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to save rally outcomes");
+      }
+    } catch (err) {
+      logger.error("[useMatchScore] Failed to persist rally outcomes:", err);
+    }
+  }, [task, canPersist, session?.access_token]);
+
+  const setRallyOutcome = useCallback(async (rallyIndex: number, outcome: RallyOutcomeOverride | null) => {
+    const rallies = result?.rallies || [];
+    const rally = rallies[rallyIndex];
+    if (!rally) return;
+
+    const next = migrateRallyOutcomes(overrides, rallies);
+    if (outcome) {
+      next[getRallyKey(rally)] = outcome;
+    } else {
+      delete next[getRallyKey(rally)];
+    }
+    setOverrides(next);
+    await persist(next);
+  }, [overrides, persist, result?.rallies]);
+
+  const matchScore = useMemo(
+    () => (result ? reconstructMatchScore(result, task?.sport, overrides) : null),
+    [result, task?.sport, overrides]
+  );
+
+  return { matchScore, overrides, setRallyOutcome };
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { logger } from "@/lib/logger";
+import { isSampleTask } from "@/components/tasks/sampleTasks";
+import { isGuestTask } from "@/utils/storage";
+import { computeAppearanceSignature, suggestPlayerIdentities } from "@/utils/appearance-signature";
+import type {
+  AppearanceSignature,
+  PlayerIdentity,
+  PlayerIdentitySuggestion,
+} from "@/types/player-identity";
+import type { Task } from "../types";
+
+export interface UsePlayerIdentitiesResult {
+  identities: PlayerIdentity[];
+  /** player_id -> identity id for this task */
+  assignments: Record<number, string>;
+  /** player_id -> identity name for this task */
+  identityNames: Record<number, string>;
+  suggestions: PlayerIdentitySuggestion[];
+  /** Signed in and the task is stored on the account */
+  canEdit: boolean;
+  /** Assign a task player to an identity, or pass null to unassign */
+  assign: (playerId: number, identityId: string | null) => Promise<void>;
+  /** Create an identity and assign the task player to it */
+  createIdentity: (name: string, playerId: number) => Promise<void>;
+}
+
+/**
+ * Player identities owned by the signed-in user and their assignment to the
+ * task's anonymous players. Appearance signatures are computed from the
+ * portraits in the browser and used to suggest matches from earlier tasks.
+ */
+export function usePlayerIdentities(
+  task: Task | null,
+  portraits: Record<number, string>
+): UsePlayerIdentitiesResult {
+  const { session } = useAuth();
+  const [identities, setIdentities] = useState<PlayerIdentity[]>([]);
+  const [signatures, setSignatures] = useState<Record<number, AppearanceSignature>>({});
+
+  const accessToken = session?.access_token;
+  const taskId = task?.id ?? null;
+  const canEdit = !!taskId && !!accessToken && !isSampleTask(taskId) && !isGuestTask(taskId);
+
+  const loadIdentities = useCallback(async () => {
+    if (!accessToken) return;
+
+    try {
+      const response = await fetch("/api/player-identities", {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (!response.ok) throw new Error(`Failed to load player identities (${response.status})`);
+      const data = await response.json();
+      setIdentities(data.identities || []);
+    } catch (err) {
+      logger.error("[usePlayerIdentities] Failed to load identities:", err);
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    if (canEdit) loadIdentities();
+  }, [canEdit, loadIdentities]);
+
+  // Signatures only change when new portraits are extracted
+  useEffect(() => {
+    if (!canEdit || Object.keys(portraits).length === 0) return;
+    let cancelled = false;
+
+    (async () => {
+      const next: Record<number, AppearanceSignature> = {};
+      for (const [playerIdStr, src] of Object.entries(portraits)) {
+        const signature = await computeAppearanceSignature(src);
+        if (signature) next[Number(playerIdStr)] = signature;
+      }
+      if (!cancelled) setSignatures(next);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canEdit, portraits]);
+
+  const assignments = useMemo(() => {
+    const map: Record<number, string> = {};
+    for (const identity of identities) {
+      for (const link of identity.links) {
+        if (link.task_id === taskId) map[link.player_id] = identity.id;
+      }
+    }
+    return map;
+  }, [identities, taskId]);
+
+  const identityNames = useMemo(() => {
+    const map: Record<number, string> = {};
+    for (const [playerId, identityId] of Object.entries(assignments)) {
+      const identity = identities.find(i => i.id === identityId);
+      if (identity) map[Number(playerId)] = identity.name;
+    }
+    return map;
+  }, [assignments, identities]);
+
+  const suggestions = useMemo(
+    () => (taskId ? suggestPlayerIdentities(signatures, identities, taskId) : []),
+    [signatures, identities, taskId]
+  );
+
+  const assign = useCallback(async (playerId: number, identityId: string | null) => {
+    if (!canEdit || !taskId) return;
+    const signature = signatures[playerId] ?? null;
+
+    // Optimistic: move the link, and drop the identity's other player in this task
+    setIdentities(prev => prev.map(identity => {
+      const links = identity.links.filter(
+        l => l.task_id !== taskId || (l.player_id !== playerId && identity.id !== identityId)
+      );
+      if (identity.id === identityId) links.push({ task_id: taskId, player_id: playerId, signature });
+      return { ...identity, links };
+    }));
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/player-identities`, {
+        method: "PUT",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ playerId, identityId, signature }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to save player identity");
+      }
+    } catch (err) {
+      logger.error("[usePlayerIdentities] Failed to assign identity:", err);
+      await loadIdentities();
+    }
+  }, [canEdit, taskId, accessToken, signatures, loadIdentities]);
+
+  const createIdentity = useCallback(async (name: string, playerId: number) => {
+    if (!canEdit) return;
+
+    try {
+      const response = await fetch("/api/player-identities", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ name, sport: task?.sport !== "all" ? task?.sport : undefined }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || "Failed to create player identity");
+
+      setIdentities(prev => [...prev, data as PlayerIdentity].sort((a, b) => a.name.localeCompare(b.name)));
+      await assign(playerId, data.id);
+    } catch (err) {
+      logger.error("[usePlayerIdentities] Failed to create identity:", err);
+    }
+  }, [canEdit, accessToken, task?.sport, assign]);
+
+  return { identities, assignments, identityNames, suggestions, canEdit, assign, createIdentity };
+}
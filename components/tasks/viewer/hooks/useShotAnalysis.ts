@@ -1,5 +1,5 @@
 import { useMemo } from "react";
-import { StatisticsResult, SwingWithPlayer, BallBounce } from "../types";
+import { StatisticsResult, SwingWithPlayer, BallBounce, Task } from "../types";
 import { getDynamicSwingsThreshold } from "../constants";
 import {
   PlayerShotData,
@@ -7,14 +7,16 @@ import {
   createEmptyGrid,
   createEmptyDetailsGrid,
   courtPosToGrid,
-  COURT,
+  getShotCourt,
   GRID_COLS,
-  GRID_ROWS
+  GRID_ROWS,
+  type CourtDimensions,
 } from "../components/ShotHeatmap";
 
 interface UseShotAnalysisOptions {
   result: StatisticsResult | null;
   playerDisplayNames?: Record<number, string>;
+  sport?: Task["sport"]; // Selects court dimensions (defaults to padel)
 }
 
 // Helper to normalize shot direction (all go left → right)
@@ -32,22 +34,26 @@ function normalizeShotPair(
 }
 
 // Fallback: infer shot origin from landing position (used when no ball_hit_location)
-function inferOriginFromLanding(landingX: number, landingY: number): { col: number; row: number } {
+function inferOriginFromLanding(
+  landingX: number,
+  landingY: number,
+  court: CourtDimensions
+): { col: number; row: number } {
   // Assume player is on opposite side of net from where ball landed
-  const landsOnNearSide = landingY < COURT.netPosition;
+  const landsOnNearSide = landingY < court.netPosition;
   // Place origin at service line area, not extreme baseline
-  const originY = landsOnNearSide ? COURT.length - 4 : 4; // ~4m from baseline
-  const mirroredX = COURT.width - landingX;
-  return courtPosToGrid(mirroredX, originY);
+  const originY = landsOnNearSide ? court.length - court.originDepth : court.originDepth;
+  const mirroredX = court.width - landingX;
+  return courtPosToGrid(mirroredX, originY, court);
 }
 
 // Check if player origin position is within court bounds
 // Only filter extreme anomalies (positions outside the court)
-function isValidOriginPosition(originX: number, originY: number): boolean {
-  // Court is 10m wide (X: 0-10) and 20m long (Y: 0-20)
+function isValidOriginPosition(originX: number, originY: number, court: CourtDimensions): boolean {
+  // Padel court is 10m wide (X: 0-10) and 20m long (Y: 0-20)
   // Allow some tolerance for positions near walls
-  return originX >= -1 && originX <= COURT.width + 1 &&
-         originY >= -1 && originY <= COURT.length + 1;
+  return originX >= -1 && originX <= court.width + 1 &&
+         originY >= -1 && originY <= court.length + 1;
 }
 
 // Helper to process a swing and find its landing
@@ -55,7 +61,8 @@ function isValidOriginPosition(originX: number, originY: number): boolean {
 function processSwingLanding(
   swing: SwingWithPlayer,
   ballBounces: BallBounce[],
-  playerData: PlayerShotData
+  playerData: PlayerShotData,
+  court: CourtDimensions
 ): void {
   const shotTime = swing.ball_hit?.timestamp ?? swing.start.timestamp;
 
@@ -68,7 +75,7 @@ function processSwingLanding(
     const landingX = nextBounce.court_pos[0];
     const landingY = nextBounce.court_pos[1];
 
-    let landing = courtPosToGrid(landingX, landingY);
+    let landing = courtPosToGrid(landingX, landingY, court);
     let origin: { col: number; row: number };
 
     // Use ball_hit_location from swing (player's court position when hitting)
@@ -77,14 +84,14 @@ function processSwingLanding(
       const [hitX, hitY] = swing.ball_hit_location;
 
       // Only filter extreme anomalies (positions outside court bounds)
-      if (!isValidOriginPosition(hitX, hitY)) {
+      if (!isValidOriginPosition(hitX, hitY, court)) {
         return; // Skip shots with invalid positions
       }
 
-      origin = courtPosToGrid(hitX, hitY);
+      origin = courtPosToGrid(hitX, hitY, court);
     } else {
       // Fallback to inference if ball_hit_location not available
-      origin = inferOriginFromLanding(landingX, landingY);
+      origin = inferOriginFromLanding(landingX, landingY, court);
     }
 
     const normalized = normalizeShotPair(origin, landing);
@@ -173,12 +180,13 @@ function calculateAverageSpeeds(
 /**
  * Hook to extract serve data
  */
-export function useServeData({ result, playerDisplayNames = {} }: UseShotAnalysisOptions): PlayerShotData[] {
+export function useServeData({ result, playerDisplayNames = {}, sport }: UseShotAnalysisOptions): PlayerShotData[] {
   return useMemo(() => {
     if (!result) return [];
 
     const players = result.players || [];
     const ballBounces = result.ball_bounces || [];
+    const court = getShotCourt(sport);
 
     const threshold = getDynamicSwingsThreshold(players);
     const validPlayers = players
@@ -199,7 +207,7 @@ export function useServeData({ result, playerDisplayNames = {} }: UseShotAnalysi
       playerServes.forEach(serve => {
         const playerData = dataMap[serve.player_id];
         if (playerData) {
-          processSwingLanding(serve, ballBounces, playerData);
+          processSwingLanding(serve, ballBounces, playerData, court);
           serveSwings.push(serve);
         }
       });
@@ -208,18 +216,19 @@ export function useServeData({ result, playerDisplayNames = {} }: UseShotAnalysi
     calculateAverageSpeeds(dataMap, serveSwings);
 
     return Object.values(dataMap);
-  }, [result, playerDisplayNames]);
+  }, [result, playerDisplayNames, sport]);
 }
 
 /**
  * Hook to extract return data (shot after serve by different player)
  */
-export function useReturnData({ result, playerDisplayNames = {} }: UseShotAnalysisOptions): PlayerShotData[] {
+export function useReturnData({ result, playerDisplayNames = {}, sport }: UseShotAnalysisOptions): PlayerShotData[] {
   return useMemo(() => {
     if (!result) return [];
 
     const players = result.players || [];
     const ballBounces = result.ball_bounces || [];
+    const court = getShotCourt(sport);
 
     const threshold = getDynamicSwingsThreshold(players);
     const validPlayers = players
@@ -246,7 +255,7 @@ export function useReturnData({ result, playerDisplayNames = {} }: UseShotAnalys
         if (nextSwing.player_id !== serve.player_id) {
           const playerData = dataMap[nextSwing.player_id];
           if (playerData) {
-            processSwingLanding(nextSwing, ballBounces, playerData);
+            processSwingLanding(nextSwing, ballBounces, playerData, court);
             returnSwings.push(nextSwing);
           }
           break;
@@ -257,7 +266,7 @@ export function useReturnData({ result, playerDisplayNames = {} }: UseShotAnalys
     calculateAverageSpeeds(dataMap, returnSwings);
 
     return Object.values(dataMap);
-  }, [result, playerDisplayNames]);
+  }, [result, playerDisplayNames, sport]);
 }
 
 /**
@@ -265,7 +274,7 @@ export function useReturnData({ result, playerDisplayNames = {} }: UseShotAnalys
  * Ball 1 = Serve, Ball 2 = Return, Ball 3 = Third ball, etc.
  */
 function useNthBallData(
-  { result, playerDisplayNames = {} }: UseShotAnalysisOptions,
+  { result, playerDisplayNames = {}, sport }: UseShotAnalysisOptions,
   ballNumber: number
 ): PlayerShotData[] {
   return useMemo(() => {
@@ -273,6 +282,7 @@ function useNthBallData(
 
     const players = result.players || [];
     const ballBounces = result.ball_bounces || [];
+    const court = getShotCourt(sport);
 
     const threshold = getDynamicSwingsThreshold(players);
     const validPlayers = players
@@ -311,7 +321,7 @@ function useNthBallData(
         const nthBall = rallySequence[ballNumber - 1];
         const playerData = dataMap[nthBall.player_id];
         if (playerData) {
-          processSwingLanding(nthBall, ballBounces, playerData);
+          processSwingLanding(nthBall, ballBounces, playerData, court);
           targetSwings.push(nthBall);
         }
       }
@@ -320,39 +330,40 @@ function useNthBallData(
     calculateAverageSpeeds(dataMap, targetSwings);
 
     return Object.values(dataMap);
-  }, [result, playerDisplayNames, ballNumber]);
+  }, [result, playerDisplayNames, sport, ballNumber]);
 }
 
 /**
  * Hook to extract third ball data (server's first shot after the return)
  */
-export function useThirdBallData({ result, playerDisplayNames = {} }: UseShotAnalysisOptions): PlayerShotData[] {
-  return useNthBallData({ result, playerDisplayNames }, 3);
+export function useThirdBallData({ result, playerDisplayNames = {}, sport }: UseShotAnalysisOptions): PlayerShotData[] {
+  return useNthBallData({ result, playerDisplayNames, sport }, 3);
 }
 
 /**
  * Hook to extract fourth ball data (returner's second shot)
  */
-export function useFourthBallData({ result, playerDisplayNames = {} }: UseShotAnalysisOptions): PlayerShotData[] {
-  return useNthBallData({ result, playerDisplayNames }, 4);
+export function useFourthBallData({ result, playerDisplayNames = {}, sport }: UseShotAnalysisOptions): PlayerShotData[] {
+  return useNthBallData({ result, playerDisplayNames, sport }, 4);
 }
 
 /**
  * Hook to extract fifth ball data (server's second shot after serve)
  */
-export function useFifthBallData({ result, playerDisplayNames = {} }: UseShotAnalysisOptions): PlayerShotData[] {
-  return useNthBallData({ result, playerDisplayNames }, 5);
+export function useFifthBallData({ result, playerDisplayNames = {}, sport }: UseShotAnalysisOptions): PlayerShotData[] {
+  return useNthBallData({ result, playerDisplayNames, sport }, 5);
 }
 
 /**
  * Hook to extract ALL shots data (for summary heatmap)
  */
-export function useAllShotsData({ result, playerDisplayNames = {} }: UseShotAnalysisOptions): PlayerShotData[] {
+export function useAllShotsData({ result, playerDisplayNames = {}, sport }: UseShotAnalysisOptions): PlayerShotData[] {
   return useMemo(() => {
     if (!result) return [];
 
     const players = result.players || [];
     const ballBounces = result.ball_bounces || [];
+    const court = getShotCourt(sport);
 
     const threshold = getDynamicSwingsThreshold(players);
     const validPlayers = players
@@ -372,7 +383,7 @@ export function useAllShotsData({ result, playerDisplayNames = {} }: UseShotAnal
       playerSwings.forEach(swing => {
         const playerData = dataMap[swing.player_id];
         if (playerData) {
-          processSwingLanding(swing, ballBounces, playerData);
+          processSwingLanding(swing, ballBounces, playerData, court);
           allSwings.push(swing);
         }
       });
@@ -381,5 +392,5 @@ export function useAllShotsData({ result, playerDisplayNames = {} }: UseShotAnal
     calculateAverageSpeeds(dataMap, allSwings);
 
     return Object.values(dataMap);
-  }, [result, playerDisplayNames]);
+  }, [result, playerDisplayNames, sport]);
 }
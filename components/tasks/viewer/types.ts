@@ -1,3 +1,7 @@
+import type { CourtCalibrationData } from "@/utils/court-calibration";
+import type { RallyOutcomeOverrides } from "@/utils/match-score";
+import type { MatchCorrection } from "@/utils/match-corrections";
+
 export interface Task {
   id: string;
   task_type: string;
@@ -13,6 +17,9 @@ export interface Task {
   created_at: string;
   updated_at: string;
   completed_at: string | null;
+  court_calibration?: CourtCalibrationData | null;
+  rally_outcomes?: RallyOutcomeOverrides | null;
+  match_corrections?: MatchCorrection[] | null;
 }
 
 export interface SwingAnnotation {
@@ -157,4 +164,3 @@ export interface ActiveEventTooltip {
   position: number;
   id: string;
 }
-
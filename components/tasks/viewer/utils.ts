@@ -96,6 +96,15 @@ export function getPlayerDisplayName(
   return playerIndex > 0 ? `Player ${playerIndex}` : `P${playerId}`;
 }
 
+// Get display name for a team, e.g. "Player 1 / Player 3"
+export function getTeamDisplayName(
+  playerIds: number[],
+  players: { player_id: number; swing_count: number }[],
+  customNames?: Record<number, string>
+): string {
+  return playerIds.map(id => getPlayerDisplayName(id, players, customNames)).join(" / ");
+}
+
 // Get player color by their display index (1-based)
 export function getPlayerColor(displayIndex: number) {
   const colors = PLAYER_CONFIG.colors;
@@ -8,9 +8,10 @@
  * - Body orientation/rotation over time
  * - Swing score (combined metric)
  * - Swing phases highlighted as colored regions
+ * - Comparison against a reference swing (DTW-aligned)
  */
 
-import React, { useRef, useState, useEffect } from "react";
+import React, { useRef, useState, useEffect, useMemo } from "react";
 import { Box } from "@radix-ui/themes";
 
 // Types
@@ -23,12 +24,16 @@ import type {
   VelocityBodyPart, 
   OrientationType 
 } from "./types";
+import type { ChartValueOptions } from "./hooks";
 
 // Hooks
-import { useContainerSize, useChartData, useLowConfidenceRegions } from "./hooks";
+import { useContainerSize, useChartData, useLowConfidenceRegions, useReferenceComparison } from "./hooks";
 
 // Components
-import { SwingChart, ChartControls, EmptyState } from "./components";
+import { SwingChart, ChartControls, EmptyState, ReferenceComparisonPanel } from "./components";
+
+// Frames of context shown around a swing while comparing
+const COMPARISON_CONTEXT_FRAMES = 15;
 
 // Styles for hiding scrollbar
 const hideScrollbarStyles = `
@@ -60,6 +65,7 @@ export function SwingCurveView({
   confidenceThreshold: controlledConfidenceThreshold,
   onConfidenceThresholdChange,
   useComplementaryAngles = true,
+  sport = "padel",
   className,
   style,
 }: SwingCurveViewProps) {
@@ -130,8 +136,7 @@ export function SwingCurveView({
   // Data Transformation Hooks
   // ============================================================================
   
-  const { chartData, rawChartData } = useChartData({
-    swingResult,
+  const chartValueOptions = useMemo((): ChartValueOptions => ({
     selectedMetric,
     selectedWrist,
     selectedKnee,
@@ -139,8 +144,42 @@ export function SwingCurveView({
     velocityBodyPart,
     orientationType,
     useComplementaryAngles,
+  }), [selectedMetric, selectedWrist, selectedKnee, angleType, velocityBodyPart, orientationType, useComplementaryAngles]);
+
+  const { chartData: fullChartData, rawChartData: fullRawChartData } = useChartData({
+    swingResult,
+    ...chartValueOptions,
+  });
+
+  const {
+    currentSwing,
+    references,
+    selectedReferenceId,
+    setSelectedReferenceId,
+    comparison,
+    referenceChartData,
+    saveCurrentAsReference,
+    deleteReference,
+  } = useReferenceComparison({
+    swingResult,
+    videoFPS,
+    currentFrame,
+    sport,
+    chartValueOptions,
   });
 
+  // Zoom in on the compared swing so both curves are readable
+  const { chartData, rawChartData } = useMemo(() => {
+    if (!comparison) return { chartData: fullChartData, rawChartData: fullRawChartData };
+    const inWindow = (d: { frame: number }) =>
+      d.frame >= comparison.startFrame - COMPARISON_CONTEXT_FRAMES &&
+      d.frame <= comparison.endFrame + COMPARISON_CONTEXT_FRAMES;
+    return {
+      chartData: fullChartData.filter(inWindow),
+      rawChartData: fullRawChartData.filter(inWindow),
+    };
+  }, [comparison, fullChartData, fullRawChartData]);
+
   const lowConfidenceRegions = useLowConfidenceRegions({
     swingResult,
     selectedMetric,
@@ -205,6 +244,18 @@ export function SwingCurveView({
         developerMode={developerMode}
       />
 
+      {/* Reference swing comparison */}
+      <ReferenceComparisonPanel
+        currentSwing={currentSwing}
+        references={references}
+        selectedReferenceId={selectedReferenceId}
+        onSelectReference={setSelectedReferenceId}
+        comparison={comparison}
+        onSaveReference={saveCurrentAsReference}
+        onDeleteReference={deleteReference}
+        onSeekToFrame={onSeekToFrame}
+      />
+
       {/* Chart */}
       <Box style={{ flex: 1, padding: "16px", minHeight: 0 }}>
         <SwingChart
@@ -219,6 +270,10 @@ export function SwingCurveView({
           lowConfidenceRegions={lowConfidenceRegions}
           velocityBodyPart={velocityBodyPart}
           orientationType={orientationType}
+          secondaryData={comparison ? referenceChartData : undefined}
+          secondaryLabel={references.find((r) => r.id === selectedReferenceId)?.name}
+          referencePhaseFrames={comparison?.referencePhaseFrames}
+          highlights={comparison?.differences}
         />
       </Box>
       
@@ -0,0 +1,343 @@
+/**
+ * SwingCurveView Reference Comparison
+ *
+ * Aligns a swing to a reference swing with dynamic time warping (DTW) on
+ * joint-angle and velocity curves, then reports similarity, per-phase
+ * timing and the biggest differences.
+ */
+
+import type { DetectedSwingV3, SwingFrameDataV3, SwingPhase } from "../hooks";
+import type { ReferenceSwing, ReferenceSwingSport } from "@/utils/storage";
+import type { ChartDataPoint, ComparisonDifference, PhaseTiming, SwingComparison } from "./types";
+
+// ============================================================================
+// Comparison Features
+// ============================================================================
+
+type Side = "left" | "right";
+
+interface ComparisonFeature {
+  id: string;
+  label: string;
+  unit: string;
+  getValue: (fd: SwingFrameDataV3, side: Side) => number | null;
+}
+
+/**
+ * Curves used for alignment. Arm features follow the hitting side, so
+ * left- and right-handed swings compare like for like; absolute body
+ * orientation is left out as it depends on the camera angle.
+ */
+const COMPARISON_FEATURES: ComparisonFeature[] = [
+  {
+    id: "wristVelocity",
+    label: "Wrist velocity",
+    unit: "km/h",
+    getValue: (fd, side) => side === "left" ? fd.leftWristVelocityKmh : fd.rightWristVelocityKmh,
+  },
+  {
+    id: "elbowAngle",
+    label: "Elbow angle",
+    unit: "°",
+    getValue: (fd, side) => side === "left" ? fd.leftElbowAngle : fd.rightElbowAngle,
+  },
+  {
+    id: "shoulderAngle",
+    label: "Shoulder angle",
+    unit: "°",
+    getValue: (fd, side) => side === "left" ? fd.leftShoulderAngle : fd.rightShoulderAngle,
+  },
+  {
+    id: "kneeBend",
+    label: "Knee bend",
+    unit: "°",
+    getValue: (fd) => fd.maxKneeBend,
+  },
+  {
+    id: "xFactor",
+    label: "X-Factor",
+    unit: "°",
+    getValue: (fd) => fd.xFactor,
+  },
+];
+
+/** Number of differences highlighted on the chart */
+const MAX_HIGHLIGHTED_DIFFERENCES = 3;
+/** Gaps below this (in standard deviations) are not worth highlighting */
+const MIN_DIFFERENCE_SEVERITY = 0.1;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getHittingSide(dominantSide: "left" | "right" | "both"): Side {
+  return dominantSide === "left" ? "left" : "right";
+}
+
+/**
+ * Fill gaps by linear interpolation (edges take the nearest value).
+ * Returns null when the curve has no values at all.
+ */
+function fillGaps(values: Array<number | null>): number[] | null {
+  const known = values
+    .map((value, index) => ({ value, index }))
+    .filter((p): p is { value: number; index: number } => p.value !== null);
+  if (known.length === 0) return null;
+
+  return values.map((value, index) => {
+    if (value !== null) return value;
+    const next = known.findIndex(p => p.index > index);
+    if (next === -1) return known[known.length - 1].value;
+    if (next === 0) return known[0].value;
+    const a = known[next - 1];
+    const b = known[next];
+    return a.value + ((b.value - a.value) * (index - a.index)) / (b.index - a.index);
+  });
+}
+
+/**
+ * Dynamic time warping between two sequences of feature vectors
+ * @returns Warping path as [currentIndex, referenceIndex] pairs and the mean cost per step
+ */
+export function dynamicTimeWarping(
+  current: number[][],
+  reference: number[][]
+): { path: Array<[number, number]>; distance: number } {
+  const n = current.length;
+  const m = reference.length;
+  if (n === 0 || m === 0) return { path: [], distance: Infinity };
+
+  const dimensions = current[0].length || 1;
+  const cost = (i: number, j: number) => {
+    let sum = 0;
+    for (let d = 0; d < current[i].length; d++) {
+      sum += (current[i][d] - reference[j][d]) ** 2;
+    }
+    // RMS over features keeps the scale independent of how many curves are compared
+    return Math.sqrt(sum / dimensions);
+  };
+
+  // Accumulated cost matrix
+  const acc: number[][] = Array.from({ length: n }, () => new Array<number>(m).fill(Infinity));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      const best = i === 0 && j === 0
+        ? 0
+        : Math.min(
+          i > 0 ? acc[i - 1][j] : Infinity,
+          j > 0 ? acc[i][j - 1] : Infinity,
+          i > 0 && j > 0 ? acc[i - 1][j - 1] : Infinity
+        );
+      acc[i][j] = best + cost(i, j);
+    }
+  }
+
+  // Backtrack from the end of both sequences
+  const path: Array<[number, number]> = [[n - 1, m - 1]];
+  let i = n - 1;
+  let j = m - 1;
+  while (i > 0 || j > 0) {
+    if (i === 0) j--;
+    else if (j === 0) i--;
+    else {
+      const diagonal = acc[i - 1][j - 1];
+      const up = acc[i - 1][j];
+      const left = acc[i][j - 1];
+      if (diagonal <= up && diagonal <= left) { i--; j--; }
+      else if (up <= left) i--;
+      else j--;
+    }
+    path.push([i, j]);
+  }
+  path.reverse();
+
+  return { path, distance: acc[n - 1][m - 1] / path.length };
+}
+
+// ============================================================================
+// Swing Slicing
+// ============================================================================
+
+/**
+ * Frame data of a detected swing, from loading start to follow-through end
+ */
+export function getSwingFrameData(frameData: SwingFrameDataV3[], swing: DetectedSwingV3): SwingFrameDataV3[] {
+  return frameData.filter(fd => fd.frame >= swing.loadingStart && fd.frame <= swing.followEnd);
+}
+
+/**
+ * The swing at the given frame, or the one whose contact is nearest to it
+ */
+export function findSwingAtFrame(swings: DetectedSwingV3[], frame: number): DetectedSwingV3 | null {
+  const containing = swings.find(s => frame >= s.loadingStart && frame <= s.followEnd);
+  if (containing) return containing;
+
+  let nearest: DetectedSwingV3 | null = null;
+  for (const swing of swings) {
+    if (!nearest || Math.abs(swing.contactFrame - frame) < Math.abs(nearest.contactFrame - frame)) {
+      nearest = swing;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Build a reference swing from a detected swing (for saving to the library)
+ */
+export function createReferenceSwing(
+  frameData: SwingFrameDataV3[],
+  swing: DetectedSwingV3,
+  options: { id: string; name: string; sport: ReferenceSwingSport; source: "pro" | "own"; fps: number }
+): ReferenceSwing {
+  const swingFrames = getSwingFrameData(frameData, swing);
+  const indexOf = (frame: number) => Math.max(0, swingFrames.findIndex(fd => fd.frame >= frame));
+
+  return {
+    ...options,
+    swingType: swing.swingType,
+    dominantSide: swing.dominantSide,
+    createdAt: new Date().toISOString(),
+    phases: {
+      loadingStart: 0,
+      swingStart: indexOf(swing.swingStart),
+      contactFrame: indexOf(swing.contactFrame),
+      followEnd: swingFrames.length - 1,
+    },
+    frameData: swingFrames,
+  };
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+/**
+ * Compare a detected swing against a reference swing
+ * @returns null when the swings share no usable curves
+ */
+export function compareSwings(
+  frameData: SwingFrameDataV3[],
+  swing: DetectedSwingV3,
+  fps: number,
+  reference: ReferenceSwing
+): SwingComparison | null {
+  const currentFrames = getSwingFrameData(frameData, swing);
+  if (currentFrames.length < 2 || reference.frameData.length < 2) return null;
+
+  const currentSide = getHittingSide(swing.dominantSide);
+  const referenceSide = getHittingSide(reference.dominantSide);
+
+  // Features present in both swings, z-normalized over both so each curve weighs the same
+  const features = COMPARISON_FEATURES.flatMap((feature) => {
+    const current = fillGaps(currentFrames.map(fd => feature.getValue(fd, currentSide)));
+    const ref = fillGaps(reference.frameData.map(fd => feature.getValue(fd, referenceSide)));
+    if (!current || !ref) return [];
+
+    const all = [...current, ...ref];
+    const mean = all.reduce((sum, v) => sum + v, 0) / all.length;
+    const std = Math.sqrt(all.reduce((sum, v) => sum + (v - mean) ** 2, 0) / all.length) || 1;
+    return [{ feature, current, reference: ref, mean, std }];
+  });
+  if (features.length === 0) return null;
+
+  const toVectors = (key: "current" | "reference", length: number) =>
+    Array.from({ length }, (_, i) => features.map(f => (f[key][i] - f.mean) / f.std));
+
+  const { path, distance } = dynamicTimeWarping(
+    toVectors("current", currentFrames.length),
+    toVectors("reference", reference.frameData.length)
+  );
+
+  // Biggest differences: rank features by mean normalized gap along the path,
+  // and point at the frame where each gap is largest
+  const differences: ComparisonDifference[] = features
+    .map(({ feature, current, reference: ref, std }) => {
+      let total = 0;
+      let worst: [number, number] = path[0];
+      for (const step of path) {
+        const gap = Math.abs(current[step[0]] - ref[step[1]]);
+        total += gap;
+        if (gap > Math.abs(current[worst[0]] - ref[worst[1]])) worst = step;
+      }
+      return {
+        featureId: feature.id,
+        label: feature.label,
+        unit: feature.unit,
+        frame: currentFrames[worst[0]].frame,
+        current: current[worst[0]],
+        reference: ref[worst[1]],
+        severity: total / path.length / std,
+      };
+    })
+    .filter(d => d.severity >= MIN_DIFFERENCE_SEVERITY)
+    .sort((a, b) => b.severity - a.severity)
+    .slice(0, MAX_HIGHLIGHTED_DIFFERENCES);
+
+  // Reference phase boundaries mapped onto the current swing's frames
+  const mapReferenceIndex = (index: number) => {
+    const step = path.find(([, j]) => j >= index) ?? path[path.length - 1];
+    return currentFrames[step[0]].frame;
+  };
+  const { phases } = reference;
+
+  const phaseTiming: PhaseTiming[] = ([
+    ["loading", swing.swingStart - swing.loadingStart, phases.swingStart - phases.loadingStart],
+    ["swing", swing.contactFrame - swing.swingStart, phases.contactFrame - phases.swingStart],
+    ["follow", swing.followEnd - swing.contactFrame, phases.followEnd - phases.contactFrame],
+  ] as Array<[SwingPhase, number, number]>).map(([phase, currentFrameCount, referenceFrameCount]) => {
+    const current = currentFrameCount / fps;
+    const ref = referenceFrameCount / reference.fps;
+    return { phase, current, reference: ref, difference: current - ref };
+  });
+
+  return {
+    referenceId: reference.id,
+    similarity: Math.round(100 * Math.exp(-distance)),
+    path,
+    startFrame: currentFrames[0].frame,
+    endFrame: currentFrames[currentFrames.length - 1].frame,
+    phaseTiming,
+    referencePhaseFrames: [
+      { phase: "loading", frame: mapReferenceIndex(phases.loadingStart) },
+      { phase: "swing", frame: mapReferenceIndex(phases.swingStart) },
+      { phase: "contact", frame: mapReferenceIndex(phases.contactFrame) },
+      { phase: "follow", frame: mapReferenceIndex(phases.followEnd) },
+    ],
+    differences,
+  };
+}
+
+/**
+ * Warp a reference curve onto the current swing's frames using the DTW path.
+ * Current frames matched to several reference frames take their average.
+ */
+export function alignReferenceCurve(
+  comparison: SwingComparison,
+  frameData: SwingFrameDataV3[],
+  referenceFrameData: SwingFrameDataV3[],
+  getValue: (fd: SwingFrameDataV3) => number | null
+): ChartDataPoint[] {
+  const currentFrames = frameData.filter(
+    fd => fd.frame >= comparison.startFrame && fd.frame <= comparison.endFrame
+  );
+  const sums = new Map<number, { total: number; count: number }>();
+
+  for (const [i, j] of comparison.path) {
+    const value = getValue(referenceFrameData[j]);
+    if (value === null) continue;
+    const entry = sums.get(i) ?? { total: 0, count: 0 };
+    entry.total += value;
+    entry.count++;
+    sums.set(i, entry);
+  }
+
+  return currentFrames.map((fd, i) => {
+    const entry = sums.get(i);
+    return {
+      frame: fd.frame,
+      time: fd.timestamp,
+      value: entry ? entry.total / entry.count : null,
+      phase: fd.phase,
+    };
+  });
+}
@@ -0,0 +1,224 @@
+"use client";
+
+/**
+ * ReferenceComparisonPanel Component
+ *
+ * Reference swing picker and DTW comparison summary:
+ * - Select, save and delete reference swings (per sport and swing type)
+ * - Similarity score
+ * - Per-phase timing against the reference
+ * - Biggest differences (click to seek)
+ */
+
+import React, { useState } from "react";
+import { Badge, Box, Button, Flex, IconButton, Popover, SegmentedControl, Select, Text, TextField, Tooltip } from "@radix-ui/themes";
+import { BookmarkIcon, TrashIcon } from "@radix-ui/react-icons";
+import { PHASE_LINE_COLORS } from "../constants";
+import { getPhaseLabel } from "../utils";
+import type { DetectedSwingV3 } from "../../hooks";
+import type { ReferenceSwing } from "@/utils/storage";
+import type { SwingComparison } from "../types";
+
+interface ReferenceComparisonPanelProps {
+  currentSwing: DetectedSwingV3 | null;
+  references: ReferenceSwing[];
+  selectedReferenceId: string | null;
+  onSelectReference: (id: string | null) => void;
+  comparison: SwingComparison | null;
+  onSaveReference: (name: string, source: ReferenceSwing["source"]) => void;
+  onDeleteReference: (id: string) => void;
+  onSeekToFrame?: (frame: number) => void;
+}
+
+const NO_REFERENCE = "none";
+
+export function ReferenceComparisonPanel({
+  currentSwing,
+  references,
+  selectedReferenceId,
+  onSelectReference,
+  comparison,
+  onSaveReference,
+  onDeleteReference,
+  onSeekToFrame,
+}: ReferenceComparisonPanelProps) {
+  if (!currentSwing) {
+    return (
+      <PanelRow>
+        <Text size="1" color="gray">No swing detected to compare against a reference</Text>
+      </PanelRow>
+    );
+  }
+
+  const swingTypeLabel = currentSwing.swingType.replace(/_/g, " ");
+
+  return (
+    <PanelRow>
+      <Flex align="center" gap="2" style={{ flexShrink: 0 }}>
+        <Text size="1" color="gray">Reference</Text>
+        <Select.Root
+          size="1"
+          value={selectedReferenceId ?? NO_REFERENCE}
+          onValueChange={(v) => onSelectReference(v === NO_REFERENCE ? null : v)}
+        >
+          <Select.Trigger variant="soft" style={{ maxWidth: "180px" }} />
+          <Select.Content>
+            <Select.Item value={NO_REFERENCE}>
+              {references.length > 0 ? "None" : `No ${swingTypeLabel} references`}
+            </Select.Item>
+            {references.map((reference) => (
+              <Select.Item key={reference.id} value={reference.id}>
+                {reference.name} ({reference.source === "pro" ? "Pro" : "Own"})
+              </Select.Item>
+            ))}
+          </Select.Content>
+        </Select.Root>
+        {selectedReferenceId && (
+          <Tooltip content="Delete reference">
+            <IconButton
+              size="1"
+              variant="ghost"
+              color="gray"
+              onClick={() => onDeleteReference(selectedReferenceId)}
+            >
+              <TrashIcon />
+            </IconButton>
+          </Tooltip>
+        )}
+        <SaveReferencePopover swingTypeLabel={swingTypeLabel} onSave={onSaveReference} />
+      </Flex>
+
+      {comparison && (
+        <>
+          <SimilarityBadge similarity={comparison.similarity} />
+
+          {/* Phase timing vs reference */}
+          <Flex align="center" gap="3" style={{ flexShrink: 0 }}>
+            {comparison.phaseTiming.map((timing) => (
+              <Flex key={timing.phase} align="center" gap="1">
+                <Box
+                  style={{
+                    width: 8,
+                    height: 8,
+                    borderRadius: "50%",
+                    backgroundColor: PHASE_LINE_COLORS[timing.phase],
+                  }}
+                />
+                <Text size="1">
+                  {getPhaseLabel(timing.phase)} {timing.current.toFixed(2)}s
+                </Text>
+                <Text size="1" color={Math.abs(timing.difference) < 0.05 ? "gray" : timing.difference > 0 ? "amber" : "blue"}>
+                  ({timing.difference >= 0 ? "+" : "−"}{Math.abs(timing.difference).toFixed(2)}s)
+                </Text>
+              </Flex>
+            ))}
+          </Flex>
+
+          {/* Biggest differences */}
+          <Flex align="center" gap="2" style={{ flexShrink: 0 }}>
+            {comparison.differences.map((difference, i) => {
+              const delta = difference.current - difference.reference;
+              return (
+                <Tooltip
+                  key={difference.featureId}
+                  content={`You: ${difference.current.toFixed(1)}${difference.unit} • Reference: ${difference.reference.toFixed(1)}${difference.unit}`}
+                >
+                  <Button
+                    size="1"
+                    variant="soft"
+                    color="red"
+                    onClick={() => onSeekToFrame?.(difference.frame)}
+                  >
+                    {i + 1}. {difference.label} {delta >= 0 ? "+" : "−"}{Math.abs(delta).toFixed(0)}{difference.unit}
+                  </Button>
+                </Tooltip>
+              );
+            })}
+          </Flex>
+        </>
+      )}
+    </PanelRow>
+  );
+}
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+function PanelRow({ children }: { children: React.ReactNode }) {
+  return (
+    <Flex
+      align="center"
+      gap="4"
+      px="4"
+      py="2"
+      wrap="wrap"
+      style={{
+        borderBottom: "1px solid var(--gray-4)",
+        backgroundColor: "var(--gray-2)",
+        flexShrink: 0,
+      }}
+    >
+      {children}
+    </Flex>
+  );
+}
+
+function SimilarityBadge({ similarity }: { similarity: number }) {
+  const color = similarity >= 80 ? "green" : similarity >= 60 ? "amber" : "red";
+  return (
+    <Badge size="1" color={color} style={{ flexShrink: 0 }}>
+      Similarity {similarity}%
+    </Badge>
+  );
+}
+
+function SaveReferencePopover({
+  swingTypeLabel,
+  onSave,
+}: {
+  swingTypeLabel: string;
+  onSave: (name: string, source: ReferenceSwing["source"]) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [source, setSource] = useState<ReferenceSwing["source"]>("own");
+
+  const handleSave = () => {
+    onSave(name.trim() || `Best ${swingTypeLabel}`, source);
+    setName("");
+    setOpen(false);
+  };
+
+  return (
+    <Popover.Root open={open} onOpenChange={setOpen}>
+      <Popover.Trigger>
+        <Button size="1" variant="soft">
+          <BookmarkIcon />
+          Save as reference
+        </Button>
+      </Popover.Trigger>
+      <Popover.Content size="1" style={{ width: 240 }}>
+        <Flex direction="column" gap="2">
+          <Text size="1" color="gray">Save this {swingTypeLabel} to the reference library</Text>
+          <TextField.Root
+            size="1"
+            placeholder={`Best ${swingTypeLabel}`}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          />
+          <SegmentedControl.Root
+            size="1"
+            value={source}
+            onValueChange={(v) => setSource(v as ReferenceSwing["source"])}
+          >
+            <SegmentedControl.Item value="own">Own swing</SegmentedControl.Item>
+            <SegmentedControl.Item value="pro">Pro clip</SegmentedControl.Item>
+          </SegmentedControl.Root>
+          <Button size="1" onClick={handleSave}>Save</Button>
+        </Flex>
+      </Popover.Content>
+    </Popover.Root>
+  );
+}
@@ -9,11 +9,12 @@
  * - Low confidence region indicators
  * - Interactive hover and click-to-seek
  * - Peak/valley markers
+ * - Reference swing overlay with phase boundaries and difference markers
  */
 
 import React, { useMemo, useCallback, useState, useRef } from "react";
 import { Flex, Text } from "@radix-ui/themes";
-import { PHASE_COLORS, METRIC_COLORS, CHART_PADDING } from "../constants";
+import { PHASE_COLORS, PHASE_LINE_COLORS, METRIC_COLORS, CHART_PADDING } from "../constants";
 import { formatTime } from "../utils";
 import type { SwingChartProps, ChartDataPoint, PhaseRegion } from "../types";
 import type { SwingPhase } from "../../hooks";
@@ -30,6 +31,10 @@ export function SwingChart({
   lowConfidenceRegions = [],
   velocityBodyPart = "wrist",
   orientationType = "body",
+  secondaryData,
+  secondaryLabel,
+  referencePhaseFrames = [],
+  highlights = [],
 }: SwingChartProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const [hoveredPoint, setHoveredPoint] = useState<ChartDataPoint | null>(null);
@@ -49,8 +54,11 @@ export function SwingChart({
     const rawValues = rawData
       ? rawData.filter((d) => d.value !== null).map((d) => d.value as number)
       : [];
+    const secondaryValues = secondaryData
+      ? secondaryData.filter((d) => d.value !== null).map((d) => d.value as number)
+      : [];
     
-    const allValues = [...processedValues, ...rawValues];
+    const allValues = [...processedValues, ...rawValues, ...secondaryValues];
     const min = Math.min(...allValues);
     const max = Math.max(...allValues);
     const padding = (max - min) * 0.1 || 10;
@@ -67,7 +75,7 @@ export function SwingChart({
       yScale: (value: number) => 
         CHART_PADDING.top + chartHeight - ((value - (min - padding)) / ((max + padding) - (min - padding) || 1)) * chartHeight,
     };
-  }, [data, rawData, chartWidth, chartHeight]);
+  }, [data, rawData, secondaryData, chartWidth, chartHeight]);
 
   // Generate SVG paths
   const linePath = useMemo(() => {
@@ -90,6 +98,17 @@ export function SwingChart({
     }, "");
   }, [rawData, xScale, yScale, metricType]);
 
+  const secondaryLinePath = useMemo(() => {
+    if (!secondaryData) return "";
+    const validSecondary = secondaryData.filter(d => d.value !== null);
+    if (validSecondary.length < 2) return "";
+    return validSecondary.reduce((path, point, i) => {
+      const x = xScale(point.frame);
+      const y = yScale(point.value as number);
+      return path + (i === 0 ? `M ${x} ${y}` : ` L ${x} ${y}`);
+    }, "");
+  }, [secondaryData, xScale, yScale]);
+
   // Generate phase regions
   const phaseRegions = useMemo((): PhaseRegion[] => {
     if (!showPhases || data.length === 0) return [];
@@ -413,6 +432,37 @@ export function SwingChart({
         />
       )}
 
+      {/* Reference swing line (DTW-aligned) */}
+      {secondaryLinePath && (
+        <>
+          <path
+            d={secondaryLinePath}
+            fill="none"
+            stroke="var(--gray-11)"
+            strokeWidth="2"
+            strokeDasharray="6,4"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+          {secondaryLabel && (
+            <text x={width - CHART_PADDING.right - 8} y={CHART_PADDING.top + 14}
+              fontSize="10" fill="var(--gray-11)" fontFamily="system-ui, sans-serif" textAnchor="end">
+              - - {secondaryLabel}
+            </text>
+          )}
+        </>
+      )}
+
+      {/* Reference phase boundaries */}
+      {referencePhaseFrames.map((marker) => (
+        <line
+          key={`ref-phase-${marker.phase}`}
+          x1={xScale(marker.frame)} y1={CHART_PADDING.top}
+          x2={xScale(marker.frame)} y2={CHART_PADDING.top + chartHeight}
+          stroke={PHASE_LINE_COLORS[marker.phase]} strokeWidth="1.5" strokeDasharray="2,3"
+        />
+      ))}
+
       {/* Average line */}
       {average !== null && (
         <>
@@ -477,6 +527,22 @@ export function SwingChart({
         </>
       )}
 
+      {/* Biggest differences from the reference */}
+      {highlights.map((highlight, i) => {
+        const x = xScale(highlight.frame);
+        return (
+          <g key={`highlight-${highlight.featureId}`}>
+            <line x1={x} y1={CHART_PADDING.top} x2={x} y2={CHART_PADDING.top + chartHeight}
+              stroke="#EF4444" strokeWidth="1" opacity="0.6" />
+            <circle cx={x} cy={CHART_PADDING.top + 10} r="8" fill="#EF4444" stroke="white" strokeWidth="1.5" />
+            <text x={x} y={CHART_PADDING.top + 10} fontSize="10" fill="white" fontWeight="600"
+              fontFamily="system-ui, sans-serif" textAnchor="middle" dominantBaseline="central">
+              {i + 1}
+            </text>
+          </g>
+        );
+      })}
+
       {/* Playhead */}
       {playheadX !== null && (
         <>
@@ -7,3 +7,4 @@
 export { SwingChart } from "./SwingChart";
 export { ChartControls } from "./ChartControls";
 export { EmptyState } from "./EmptyState";
+export { ReferenceComparisonPanel } from "./ReferenceComparisonPanel";
@@ -5,5 +5,6 @@
  */
 
 export { useContainerSize } from "./useContainerSize";
-export { useChartData } from "./useChartData";
+export { useChartData, getChartValue, type ChartValueOptions } from "./useChartData";
 export { useLowConfidenceRegions } from "./useLowConfidenceRegions";
+export { useReferenceComparison } from "./useReferenceComparison";
@@ -17,8 +17,7 @@ import type {
   OrientationType 
 } from "../types";
 
-interface UseChartDataOptions {
-  swingResult: SwingDetectionResultV3 | null;
+export interface ChartValueOptions {
   selectedMetric: MetricType;
   selectedWrist: WristType;
   selectedKnee: KneeType;
@@ -28,6 +27,10 @@ interface UseChartDataOptions {
   useComplementaryAngles: boolean;
 }
 
+interface UseChartDataOptions extends ChartValueOptions {
+  swingResult: SwingDetectionResultV3 | null;
+}
+
 interface UseChartDataResult {
   chartData: ChartDataPoint[];
   rawChartData: ChartDataPoint[];
@@ -172,6 +175,65 @@ function getAngleValue(
   }
 }
 
+/**
+ * Get the chart value of the selected metric for one frame
+ */
+export function getChartValue(
+  fd: SwingDetectionResultV3["frameData"][0],
+  {
+    selectedMetric,
+    selectedWrist,
+    selectedKnee,
+    angleType,
+    velocityBodyPart,
+    orientationType,
+    useComplementaryAngles,
+  }: ChartValueOptions
+): number | null {
+  let value: number | null = null;
+
+  switch (selectedMetric) {
+    case "velocity":
+      value = getVelocityValue(fd, velocityBodyPart, selectedWrist, false);
+      break;
+    
+    case "acceleration":
+      value = getAccelerationValue(fd, velocityBodyPart, selectedWrist);
+      break;
+    
+    case "orientation":
+      switch (orientationType) {
+        case "body":
+          value = fd.bodyOrientation;
+          break;
+        case "hipAngular":
+          value = fd.hipAngularVelocity;
+          break;
+        case "shoulderAngular":
+          value = fd.shoulderAngularVelocity;
+          break;
+        case "xFactor":
+          value = fd.xFactor;
+          break;
+      }
+      break;
+    
+    case "kneeBend":
+      value = getAngleValue(fd, angleType, selectedKnee, false);
+      // Transform to inner angle if needed
+      if (value !== null && !useComplementaryAngles) {
+        value = 180 - value;
+      }
+      break;
+    
+    case "score":
+      value = fd.swingScore;
+      break;
+  }
+
+  return value;
+}
+
 /**
  * Hook to transform swing detection data into chart data points
  */
@@ -191,46 +253,15 @@ export function useChartData({
     if (!swingResult?.frameData) return [];
 
     return swingResult.frameData.map((fd) => {
-      let value: number | null = null;
-      
-      switch (selectedMetric) {
-        case "velocity":
-          value = getVelocityValue(fd, velocityBodyPart, selectedWrist, false);
-          break;
-        
-        case "acceleration":
-          value = getAccelerationValue(fd, velocityBodyPart, selectedWrist);
-          break;
-        
-        case "orientation":
-          switch (orientationType) {
-            case "body":
-              value = fd.bodyOrientation;
-              break;
-            case "hipAngular":
-              value = fd.hipAngularVelocity;
-              break;
-            case "shoulderAngular":
-              value = fd.shoulderAngularVelocity;
-              break;
-            case "xFactor":
-              value = fd.xFactor;
-              break;
-          }
-          break;
-        
-        case "kneeBend":
-          value = getAngleValue(fd, angleType, selectedKnee, false);
-          // Transform to inner angle if needed
-          if (value !== null && !useComplementaryAngles) {
-            value = 180 - value;
-          }
-          break;
-        
-        case "score":
-          value = fd.swingScore;
-          break;
-      }
+      const value = getChartValue(fd, {
+        selectedMetric,
+        selectedWrist,
+        selectedKnee,
+        angleType,
+        velocityBodyPart,
+        orientationType,
+        useComplementaryAngles,
+      });
 
       return {
         frame: fd.frame,
@@ -0,0 +1,120 @@
+/**
+ * useReferenceComparison Hook
+ *
+ * Loads the reference swing library for the current swing's sport and type,
+ * aligns the current swing to the selected reference and warps the
+ * reference curve onto the chart.
+ */
+
+import { useState, useEffect, useMemo, useCallback } from "react";
+import type { DetectedSwingV3, SwingDetectionResultV3 } from "../../hooks";
+import {
+  getReferenceSwings,
+  saveReferenceSwing,
+  deleteReferenceSwing,
+  type ReferenceSwing,
+  type ReferenceSwingSport,
+} from "@/utils/storage";
+import { getChartValue, type ChartValueOptions } from "./useChartData";
+import {
+  findSwingAtFrame,
+  compareSwings,
+  alignReferenceCurve,
+  createReferenceSwing,
+} from "../comparison";
+import type { ChartDataPoint, SwingComparison } from "../types";
+
+interface UseReferenceComparisonOptions {
+  swingResult: SwingDetectionResultV3 | null;
+  videoFPS: number;
+  currentFrame: number;
+  sport: ReferenceSwingSport;
+  chartValueOptions: ChartValueOptions;
+}
+
+interface UseReferenceComparisonResult {
+  /** Swing under (or nearest to) the playhead */
+  currentSwing: DetectedSwingV3 | null;
+  /** Library for the current swing's sport and swing type */
+  references: ReferenceSwing[];
+  selectedReferenceId: string | null;
+  setSelectedReferenceId: (id: string | null) => void;
+  comparison: SwingComparison | null;
+  /** Selected metric of the reference, aligned to the current swing's frames */
+  referenceChartData: ChartDataPoint[];
+  saveCurrentAsReference: (name: string, source: ReferenceSwing["source"]) => void;
+  deleteReference: (id: string) => void;
+}
+
+export function useReferenceComparison({
+  swingResult,
+  videoFPS,
+  currentFrame,
+  sport,
+  chartValueOptions,
+}: UseReferenceComparisonOptions): UseReferenceComparisonResult {
+  const [selectedReferenceId, setSelectedReferenceId] = useState<string | null>(null);
+  const [references, setReferences] = useState<ReferenceSwing[]>([]);
+
+  const currentSwing = useMemo(
+    () => (swingResult ? findSwingAtFrame(swingResult.swings, currentFrame) : null),
+    [swingResult, currentFrame]
+  );
+  const swingType = currentSwing?.swingType ?? null;
+
+  // Load the library and reload it when it changes (including from other viewers)
+  useEffect(() => {
+    const loadReferences = () => setReferences(swingType ? getReferenceSwings(sport, swingType) : []);
+    loadReferences();
+    window.addEventListener("reference-swings-changed", loadReferences);
+    return () => window.removeEventListener("reference-swings-changed", loadReferences);
+  }, [sport, swingType]);
+
+  const selectedReference = references.find((r) => r.id === selectedReferenceId) ?? null;
+
+  const comparison = useMemo(() => {
+    if (!swingResult || !currentSwing || !selectedReference) return null;
+    return compareSwings(swingResult.frameData, currentSwing, videoFPS, selectedReference);
+  }, [swingResult, currentSwing, selectedReference, videoFPS]);
+
+  const referenceChartData = useMemo(() => {
+    if (!swingResult || !comparison || !selectedReference) return [];
+    return alignReferenceCurve(
+      comparison,
+      swingResult.frameData,
+      selectedReference.frameData,
+      (fd) => getChartValue(fd, chartValueOptions)
+    );
+  }, [swingResult, comparison, selectedReference, chartValueOptions]);
+
+  const saveCurrentAsReference = useCallback((name: string, source: ReferenceSwing["source"]) => {
+    if (!swingResult || !currentSwing) return;
+
+    const reference = createReferenceSwing(swingResult.frameData, currentSwing, {
+      id: `ref-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      sport,
+      source,
+      fps: videoFPS,
+    });
+    saveReferenceSwing(reference);
+    setSelectedReferenceId(reference.id);
+  }, [swingResult, currentSwing, sport, videoFPS]);
+
+  const deleteReference = useCallback((id: string) => {
+    if (!swingType) return;
+    deleteReferenceSwing(sport, swingType, id);
+    if (selectedReferenceId === id) setSelectedReferenceId(null);
+  }, [sport, swingType, selectedReferenceId]);
+
+  return {
+    currentSwing,
+    references,
+    selectedReferenceId: selectedReference ? selectedReferenceId : null,
+    setSelectedReferenceId,
+    comparison,
+    referenceChartData,
+    saveCurrentAsReference,
+    deleteReference,
+  };
+}
@@ -20,6 +20,9 @@ export type {
   SwingChartProps,
   PhaseRegion,
   LowConfidenceRegion,
+  PhaseTiming,
+  ComparisonDifference,
+  SwingComparison,
 } from "./types";
 
 // Constants (for external customization)
@@ -37,8 +40,18 @@ export {
 // Utilities (for external use)
 export { formatTime, getPhaseLabel, getMetricLabel } from "./utils";
 
+// Reference comparison (DTW)
+export {
+  dynamicTimeWarping,
+  compareSwings,
+  alignReferenceCurve,
+  createReferenceSwing,
+  findSwingAtFrame,
+  getSwingFrameData,
+} from "./comparison";
+
 // Sub-components (for composition)
-export { SwingChart, ChartControls, EmptyState } from "./components";
+export { SwingChart, ChartControls, EmptyState, ReferenceComparisonPanel } from "./components";
 
 // Hooks (for custom implementations)
-export { useContainerSize, useChartData, useLowConfidenceRegions } from "./hooks";
+export { useContainerSize, useChartData, useLowConfidenceRegions, useReferenceComparison } from "./hooks";
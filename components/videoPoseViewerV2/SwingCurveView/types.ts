@@ -5,6 +5,7 @@
  */
 
 import type { SwingDetectionResultV3, SwingPhase } from "../hooks";
+import type { ReferenceSwingSport } from "@/utils/storage";
 
 // ============================================================================
 // Metric Selection Types
@@ -77,6 +78,8 @@ export interface SwingCurveViewProps {
   onConfidenceThresholdChange?: (threshold: number) => void;
   /** Whether to show outer angles (180° - angle) instead of inner angles */
   useComplementaryAngles?: boolean;
+  /** Sport for the reference swing library (libraries are per sport and swing type) */
+  sport?: ReferenceSwingSport;
   /** Custom class name */
   className?: string;
   /** Custom style */
@@ -110,6 +113,10 @@ export interface SwingChartProps {
   lowConfidenceRegions?: Array<{ startFrame: number; endFrame: number }>;
   velocityBodyPart?: VelocityBodyPart;
   orientationType?: OrientationType;
+  /** Reference phase boundaries mapped onto this swing (drawn as dashed lines) */
+  referencePhaseFrames?: SwingComparison["referencePhaseFrames"];
+  /** Frames to mark as the biggest differences from the reference */
+  highlights?: ComparisonDifference[];
 }
 
 /** A region representing a swing phase */
@@ -124,3 +131,43 @@ export interface LowConfidenceRegion {
   startFrame: number;
   endFrame: number;
 }
+
+// ============================================================================
+// Reference Comparison Types
+// ============================================================================
+
+/** Duration of a swing phase in the current and reference swing (seconds) */
+export interface PhaseTiming {
+  phase: SwingPhase;
+  current: number;
+  reference: number;
+  /** current - reference; positive means the current swing is slower */
+  difference: number;
+}
+
+/** A curve where the current swing differs most from the reference */
+export interface ComparisonDifference {
+  featureId: string;
+  label: string;
+  unit: string;
+  /** Current-swing frame where the gap is largest */
+  frame: number;
+  current: number;
+  reference: number;
+  /** Mean gap along the aligned swing, in standard deviations */
+  severity: number;
+}
+
+/** Result of aligning a swing to a reference swing with DTW */
+export interface SwingComparison {
+  referenceId: string;
+  /** 0-100, 100 = identical curves after alignment */
+  similarity: number;
+  /** Warping path as [current index, reference index] pairs */
+  path: Array<[number, number]>;
+  startFrame: number;
+  endFrame: number;
+  phaseTiming: PhaseTiming[];
+  referencePhaseFrames: Array<{ phase: SwingPhase; frame: number }>;
+  differences: ComparisonDifference[];
+}
@@ -187,6 +187,8 @@ interface VideoPoseViewerV2Props {
   momentsConfig?: MomentsConfig;
   /** Sport type for context-aware AI analysis */
   sport?: "tennis" | "padel" | "pickleball";
+  /** Task the video belongs to; enables stored swing profile versions */
+  taskId?: string;
 }
 
 // ============================================================================
@@ -216,7 +218,7 @@ function shouldUseCrossOrigin(url: string): boolean {
 
 export const VideoPoseViewerV2 = forwardRef<ViewerActions, VideoPoseViewerV2Props>(
   function VideoPoseViewerV2(
-    { videoUrl, config, poseEnabled, callbacks, className, style, lite = false, developerMode = false, confidenceThreshold, onConfidenceThresholdChange, momentsConfig, sport = "padel" },
+    { videoUrl, config, poseEnabled, callbacks, className, style, lite = false, developerMode = false, confidenceThreshold, onConfidenceThresholdChange, momentsConfig, sport = "padel", taskId },
     ref
   ) {
     // Refs
@@ -2013,6 +2015,7 @@ export const VideoPoseViewerV2 = forwardRef<ViewerActions, VideoPoseViewerV2Prop
             confidenceThreshold={confidenceThreshold}
             onConfidenceThresholdChange={onConfidenceThresholdChange}
             useComplementaryAngles={config.angles.useComplementaryAngles}
+            sport={sport}
             onSeekToFrame={(frame) => {
               const video = videoRef.current;
               if (!video) return;
@@ -2037,6 +2040,7 @@ export const VideoPoseViewerV2 = forwardRef<ViewerActions, VideoPoseViewerV2Prop
             videoFPS={usingPreprocessedPoses ? preprocessingFPS : videoFPS}
             swingResult={swingResultV3}
             sport={sport}
+            taskId={taskId}
             onSeekTo={(time) => {
               const video = videoRef.current;
               if (!video) return;
@@ -17,6 +17,8 @@ export { usePlayerProfiles } from "./usePlayerProfiles";
 export { useSwingProfiles } from "./useSwingProfiles";
 export { useFFmpegClip, downloadBlob } from "./useFFmpegClip";
 export { useTypewriter } from "./useTypewriter";
+export { useTaskStream } from "./useTaskStream";
+export { useTaskArtifactRequest, useTaskArtifactHistory } from "./useTaskArtifacts";
 
 // Sidebar hooks
 export { useSidebarChats, useSidebarSettings, useSidebarDialogs } from "./sidebar";
@@ -1,12 +1,15 @@
 import { useState, useCallback, useRef, useEffect } from "react";
 import type { PlayerTacticalData } from "@/types/tactical-analysis";
 import type { DomainExpertise } from "@/utils/storage";
+import { useTaskArtifactRequest } from "./useTaskArtifacts";
 
 interface UsePlayerNicknamesOptions {
   /** Sport domain for context */
   sport?: DomainExpertise;
   /** Auto-generate on mount when players are provided */
   autoGenerate?: boolean;
+  /** Task the players belong to; reuses stored nicknames for the task owner */
+  taskId?: string;
   /** Callback when generation completes */
   onComplete?: (nicknames: Record<number, string>) => void;
   /** Callback on error */
@@ -42,7 +45,8 @@ interface UsePlayerNicknamesState {
 export function usePlayerNicknames(
   options: UsePlayerNicknamesOptions = {}
 ) {
-  const { sport = "padel", autoGenerate = false, onComplete, onError } = options;
+  const { sport = "padel", autoGenerate = false, taskId, onComplete, onError } = options;
+  const { buildRequest } = useTaskArtifactRequest(taskId);
 
   const [state, setState] = useState<UsePlayerNicknamesState>({
     nicknames: {},
@@ -77,6 +81,7 @@ export function usePlayerNicknames(
     }
 
     abortControllerRef.current = new AbortController();
+    const { headers, fields } = buildRequest();
 
     setState({
       nicknames: {},
@@ -87,12 +92,11 @@ export function usePlayerNicknames(
     try {
       const response = await fetch("/api/player-nicknames", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers,
         body: JSON.stringify({
           players: playersWithData,
           sport,
+          ...fields,
         }),
         signal: abortControllerRef.current.signal,
       });
@@ -138,7 +142,7 @@ export function usePlayerNicknames(
 
       onError?.(errorMessage);
     }
-  }, [sport, onComplete, onError]);
+  }, [sport, buildRequest, onComplete, onError]);
 
   /**
    * Cancel in-progress generation
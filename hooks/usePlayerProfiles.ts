@@ -1,15 +1,19 @@
 import { useState, useCallback, useRef } from "react";
 import { logger } from "@/lib/logger";
+import { useTaskArtifactRequest, toArtifactMeta } from "./useTaskArtifacts";
 import type { 
   PlayerProfile, 
   PlayerProfileData, 
   PlayerProfileResponse,
   PlayerProfileState,
 } from "@/types/player-profile";
+import type { TaskArtifactVersion } from "@/types/task-artifact";
 
 interface UsePlayerProfilesOptions {
   /** Sport domain for context */
   sport?: string;
+  /** Task the profiles belong to; enables stored versions for the task owner */
+  taskId?: string;
   /** Callback when generation completes */
   onComplete?: (profiles: PlayerProfile[]) => void;
   /** Callback on error */
@@ -21,6 +25,8 @@ interface UsePlayerProfilesOptions {
  * 
  * Uses Gemini Flash for fast profile generation based on player statistics.
  * Returns structured data for spider/radar chart visualization.
+ * With a taskId, profiles are stored per task and reused on later visits;
+ * `regenerate` creates a new version and `showVersion` displays an older one.
  * 
  * @example
  * ```tsx
@@ -34,7 +40,8 @@ interface UsePlayerProfilesOptions {
  * ```
  */
 export function usePlayerProfiles(options: UsePlayerProfilesOptions = {}) {
-  const { sport = "padel", onComplete, onError } = options;
+  const { sport = "padel", taskId, onComplete, onError } = options;
+  const { artifact, setArtifact, buildRequest } = useTaskArtifactRequest(taskId);
   
   const [state, setState] = useState<PlayerProfileState>({
     profiles: [],
@@ -48,10 +55,16 @@ export function usePlayerProfiles(options: UsePlayerProfilesOptions = {}) {
   // Abort controller for cancellation
   const abortControllerRef = useRef<AbortController | null>(null);
   
+  // Last input, for regenerate
+  const lastPlayersRef = useRef<PlayerProfileData[] | null>(null);
+  
   /**
    * Generate profiles for the provided players
    */
-  const generate = useCallback(async (players: PlayerProfileData[]) => {
+  const generate = useCallback(async (
+    players: PlayerProfileData[],
+    { regenerate = false }: { regenerate?: boolean } = {}
+  ) => {
     // Filter to players with data
     const playersWithData = players.filter(p => p.stats.totalSwings > 0);
     
@@ -70,6 +83,8 @@ export function usePlayerProfiles(options: UsePlayerProfilesOptions = {}) {
     
     abortControllerRef.current = new AbortController();
     hasGeneratedRef.current = true;
+    lastPlayersRef.current = players;
+    const { headers, fields } = buildRequest(regenerate);
     
     setState({
       profiles: [],
@@ -80,12 +95,11 @@ export function usePlayerProfiles(options: UsePlayerProfilesOptions = {}) {
     try {
       const response = await fetch("/api/player-profiles", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers,
         body: JSON.stringify({
           players: playersWithData,
           sport,
+          ...fields,
         }),
         signal: abortControllerRef.current.signal,
       });
@@ -96,6 +110,7 @@ export function usePlayerProfiles(options: UsePlayerProfilesOptions = {}) {
       }
       
       const data: PlayerProfileResponse = await response.json();
+      setArtifact(data.artifact ?? null);
       
       setState({
         profiles: data.profiles,
@@ -125,7 +140,28 @@ export function usePlayerProfiles(options: UsePlayerProfilesOptions = {}) {
       
       onError?.(errorMessage);
     }
-  }, [sport, onComplete, onError]);
+  }, [sport, buildRequest, setArtifact, onComplete, onError]);
+  
+  /**
+   * Generate a new version from the last input, replacing the stored one
+   */
+  const regenerate = useCallback(() => {
+    if (lastPlayersRef.current) {
+      generate(lastPlayersRef.current, { regenerate: true });
+    }
+  }, [generate]);
+  
+  /**
+   * Display a stored version from the history
+   */
+  const showVersion = useCallback((version: TaskArtifactVersion<{ profiles: PlayerProfile[] }>) => {
+    setState({
+      profiles: version.content.profiles,
+      isGenerating: false,
+      error: null,
+    });
+    setArtifact(toArtifactMeta(version));
+  }, [setArtifact]);
   
   /**
    * Cancel in-progress generation
@@ -147,16 +183,20 @@ export function usePlayerProfiles(options: UsePlayerProfilesOptions = {}) {
   const reset = useCallback(() => {
     cancel();
     hasGeneratedRef.current = false;
+    setArtifact(null);
     setState({
       profiles: [],
       isGenerating: false,
       error: null,
     });
-  }, [cancel]);
+  }, [cancel, setArtifact]);
   
   return {
     ...state,
+    artifact,
     generate,
+    regenerate,
+    showVersion,
     cancel,
     reset,
     hasGenerated: hasGeneratedRef.current,
@@ -1,66 +1,15 @@
 import { useEffect, useRef, useState, useCallback } from "react";
 import * as poseDetection from "@tensorflow-models/pose-detection";
-import "@tensorflow/tfjs-backend-webgl";
-import "@tensorflow/tfjs-backend-webgpu";
 import * as tf from "@tensorflow/tfjs";
 import { detectionLogger } from "@/lib/logger";
 import { track } from "@/lib/analytics";
-
-// Detect if running on a mobile device
-// Mobile devices use WebGL for stability; desktop uses WebGPU for performance
-function isMobileDevice(): boolean {
-  if (typeof navigator === "undefined") return false;
-  return /iPhone|iPad|iPod|Android|webOS|BlackBerry|IEMobile|Opera Mini/i.test(
-    navigator.userAgent
-  );
-}
-
-// Check if WebGPU is available in this browser
-function hasWebGPUSupport(): boolean {
-  if (typeof navigator === "undefined") return false;
-  return "gpu" in navigator;
-}
-
-// Initialize the optimal TensorFlow backend
-// Desktop: WebGPU (faster) with WebGL fallback
-// Mobile: WebGL (more stable)
-async function initializeTensorFlowBackend(): Promise<string> {
-  const mobile = isMobileDevice();
-  const webgpuAvailable = hasWebGPUSupport();
-  
-  detectionLogger.debug("Backend selection:", {
-    isMobile: mobile,
-    hasWebGPU: webgpuAvailable,
-  });
-
-  // Mobile devices: prefer WebGL for stability
-  if (mobile) {
-    await tf.setBackend("webgl");
-    await tf.ready();
-    return tf.getBackend() || "webgl";
-  }
-
-  // Desktop: try WebGPU first for better performance
-  if (webgpuAvailable) {
-    try {
-      await tf.setBackend("webgpu");
-      await tf.ready();
-      const backend = tf.getBackend();
-      if (backend === "webgpu") {
-        detectionLogger.info("✨ Using WebGPU backend (faster performance)");
-        return backend;
-      }
-    } catch (err) {
-      detectionLogger.warn("WebGPU initialization failed, falling back to WebGL:", err);
-    }
-  }
-
-  // Fallback to WebGL
-  await tf.setBackend("webgl");
-  await tf.ready();
-  detectionLogger.info("Using WebGL backend");
-  return tf.getBackend() || "webgl";
-}
+import {
+  getPoseDetectorSetup,
+  hasWebGPUSupport,
+  initializeTensorFlowBackend,
+  isMobileDevice,
+  toPoseDetectionResult,
+} from "@/lib/pose-detector";
 
 // Enable TensorFlow.js model caching
 // This ensures models are cached in the browser's Cache API
@@ -156,62 +105,16 @@ export function usePoseDetection(config: PoseDetectionConfig = {}) {
         // Enable model caching - this ensures models are saved to IndexedDB
         detectionLogger.debug("TensorFlow.js backend ready:", backend);
 
-        let detectorConfig: any;
-        let supportedModel: poseDetection.SupportedModels;
-        let modelKey: string;
-
-        // Generate a unique key for this configuration
-        const configKey = JSON.stringify({
+        const { supportedModel, detectorConfig, modelKey, configKey } = getPoseDetectorSetup({
           model,
-          modelType: model === "BlazePose" ? (modelType || "full") : (modelType || "SinglePose.Lightning"),
+          modelType,
+          enableSmoothing,
           minPoseScore,
           minPartScore,
           inputResolution,
           maxPoses,
-          enableSmoothing // Include smoothing in key as it's part of detector creation for BlazePose
         });
 
-        if (model === "BlazePose") {
-          // BlazePose configuration
-          supportedModel = poseDetection.SupportedModels.BlazePose;
-          const blazeModelType = (modelType as BlazePoseModelType) || "full";
-          modelKey = `blazepose-${blazeModelType}`;
-          
-          // Use tfjs runtime (MediaPipe requires additional setup and may not work in Next.js)
-          // BlazePose tfjs DOES provide keypoints3D!
-          detectorConfig = {
-            runtime: "tfjs" as const,
-            modelType: blazeModelType,
-            enableSmoothing: enableSmoothing,
-            // Get the actual input dimensions used by the model
-          };
-        } else {
-          // MoveNet configuration
-          supportedModel = poseDetection.SupportedModels.MoveNet;
-          const movenetModelType = (modelType as MoveNetModelType) || "SinglePose.Lightning";
-          modelKey = `movenet-${movenetModelType.toLowerCase().replace(/\./g, '-')}`;
-          
-          detectorConfig = {
-            modelType: movenetModelType,
-            enableSmoothing: enableSmoothing,
-            minPoseScore: minPoseScore,
-            minPartScore: minPartScore,
-          };
-
-          // Add maxPoses for MultiPose model
-          if (movenetModelType === "MultiPose.Lightning") {
-            detectorConfig.maxPoses = maxPoses;
-            detectorConfig.enableTracking = true;
-          }
-
-          // Add input resolution if specified
-          if (inputResolution) {
-            detectorConfig.modelConfig = {
-              inputResolution: inputResolution,
-            };
-          }
-        }
-
         // Check if we already have a promise for this detector configuration
         if (detectorCache.has(configKey)) {
           detectionLogger.debug(`Using cached detector instance for ${model} ${modelType}`);
@@ -397,29 +300,19 @@ export function usePoseDetection(config: PoseDetectionConfig = {}) {
       try {
         const poses = await detector.estimatePoses(element);
         return poses.map((pose) => {
-          // BlazePose may provide keypoints3D in the pose object (only with MediaPipe runtime)
-          const poseAny = pose as any;
-          
-          // Check for keypoints3D in various possible locations
-          let keypoints3D = poseAny.keypoints3D || poseAny.keypoints3d || null;
-          
+          const result = toPoseDetectionResult(pose);
+
           // Debug logging for BlazePose
           if (model === "BlazePose") {
             detectionLogger.debug("BlazePose detection:", {
               keypoints2D: pose.keypoints.length,
-              hasKeypoints3D: !!keypoints3D,
-              keypoints3DLength: keypoints3D?.length || 0,
-              poseKeys: Object.keys(poseAny),
+              hasKeypoints3D: !!result.keypoints3D,
+              keypoints3DLength: result.keypoints3D?.length || 0,
+              poseKeys: Object.keys(pose),
             });
           }
-          
-          return {
-            keypoints: pose.keypoints,
-            score: pose.score,
-            keypoints3D: keypoints3D,
-            id: poseAny.id, // Pass through tracking ID if available
-            box: poseAny.box, // Pass through bounding box if available
-          };
+
+          return result;
         });
       } catch (err) {
         detectionLogger.error("Pose detection error:", err);
@@ -1,15 +1,19 @@
 import { useState, useCallback, useRef } from "react";
 import { logger } from "@/lib/logger";
+import { useTaskArtifactRequest, toArtifactMeta } from "./useTaskArtifacts";
 import type {
   SwingProfile,
   SwingProfileData,
   SwingProfileResponse,
   SwingProfileState,
 } from "@/types/swing-profile";
+import type { TaskArtifactVersion } from "@/types/task-artifact";
 
 interface UseSwingProfilesOptions {
   /** Sport domain for context */
   sport?: string;
+  /** Task the swings belong to; enables stored versions for the task owner */
+  taskId?: string;
   /** Callback when generation completes */
   onComplete?: (profiles: SwingProfile[]) => void;
   /** Callback on error */
@@ -21,6 +25,8 @@ interface UseSwingProfilesOptions {
  *
  * Uses Gemini Flash for fast profile generation based on swing biomechanics data.
  * Returns structured data for radar chart visualization with AI-generated insights.
+ * With a taskId, profiles are stored per task and reused on later visits;
+ * `regenerate` creates a new version and `showVersion` displays an older one.
  *
  * @example
  * ```tsx
@@ -34,7 +40,8 @@ interface UseSwingProfilesOptions {
  * ```
  */
 export function useSwingProfiles(options: UseSwingProfilesOptions = {}) {
-  const { sport = "padel", onComplete, onError } = options;
+  const { sport = "padel", taskId, onComplete, onError } = options;
+  const { artifact, setArtifact, buildRequest } = useTaskArtifactRequest(taskId);
 
   const [state, setState] = useState<SwingProfileState>({
     profiles: [],
@@ -48,11 +55,17 @@ export function useSwingProfiles(options: UseSwingProfilesOptions = {}) {
   // Abort controller for cancellation
   const abortControllerRef = useRef<AbortController | null>(null);
 
+  // Last input, for regenerate
+  const lastSwingsRef = useRef<SwingProfileData[] | null>(null);
+
   /**
    * Generate profiles for the provided swings
    */
   const generate = useCallback(
-    async (swings: SwingProfileData[]) => {
+    async (
+      swings: SwingProfileData[],
+      { regenerate = false }: { regenerate?: boolean } = {}
+    ) => {
       if (swings.length === 0) {
         setState((prev) => ({
           ...prev,
@@ -68,6 +81,8 @@ export function useSwingProfiles(options: UseSwingProfilesOptions = {}) {
 
       abortControllerRef.current = new AbortController();
       hasGeneratedRef.current = true;
+      lastSwingsRef.current = swings;
+      const { headers, fields } = buildRequest(regenerate);
 
       setState({
         profiles: [],
@@ -78,12 +93,11 @@ export function useSwingProfiles(options: UseSwingProfilesOptions = {}) {
       try {
         const response = await fetch("/api/swing-profiles", {
           method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
+          headers,
           body: JSON.stringify({
             swings,
             sport,
+            ...fields,
           }),
           signal: abortControllerRef.current.signal,
         });
@@ -98,6 +112,7 @@ export function useSwingProfiles(options: UseSwingProfilesOptions = {}) {
         }
 
         const data: SwingProfileResponse = await response.json();
+        setArtifact(data.artifact ?? null);
 
         setState({
           profiles: data.profiles,
@@ -128,7 +143,31 @@ export function useSwingProfiles(options: UseSwingProfilesOptions = {}) {
         onError?.(errorMessage);
       }
     },
-    [sport, onComplete, onError]
+    [sport, buildRequest, setArtifact, onComplete, onError]
+  );
+
+  /**
+   * Generate a new version from the last input, replacing the stored one
+   */
+  const regenerate = useCallback(() => {
+    if (lastSwingsRef.current) {
+      generate(lastSwingsRef.current, { regenerate: true });
+    }
+  }, [generate]);
+
+  /**
+   * Display a stored version from the history
+   */
+  const showVersion = useCallback(
+    (version: TaskArtifactVersion<{ profiles: SwingProfile[] }>) => {
+      setState({
+        profiles: version.content.profiles,
+        isGenerating: false,
+        error: null,
+      });
+      setArtifact(toArtifactMeta(version));
+    },
+    [setArtifact]
   );
 
   /**
@@ -151,12 +190,13 @@ export function useSwingProfiles(options: UseSwingProfilesOptions = {}) {
   const reset = useCallback(() => {
     cancel();
     hasGeneratedRef.current = false;
+    setArtifact(null);
     setState({
       profiles: [],
       isGenerating: false,
       error: null,
     });
-  }, [cancel]);
+  }, [cancel, setArtifact]);
 
   /**
    * Get profile for a specific swing by ID
@@ -170,7 +210,10 @@ export function useSwingProfiles(options: UseSwingProfilesOptions = {}) {
 
   return {
     ...state,
+    artifact,
     generate,
+    regenerate,
+    showVersion,
     cancel,
     reset,
     getProfileBySwingId,
@@ -7,12 +7,22 @@ import type {
   TacticalAnalysisState,
   BallTypeAnalysisData,
   PlayerAllBallTypesData,
+  ServeAnalysisRequest,
 } from "@/types/tactical-analysis";
 import type { DomainExpertise } from "@/utils/storage";
+import type { TaskArtifactVersion } from "@/types/task-artifact";
+import {
+  useTaskArtifactRequest,
+  useTaskArtifactHistory,
+  readArtifactHeaders,
+  toArtifactMeta,
+} from "./useTaskArtifacts";
 
 interface UseTacticalAnalysisOptions {
   /** Sport domain for specialized analysis */
   sport?: DomainExpertise;
+  /** Task the data belongs to; enables stored versions for the task owner */
+  taskId?: string;
   /** Callback when analysis starts */
   onAnalysisStart?: () => void;
   /** Callback when analysis completes */
@@ -32,6 +42,13 @@ interface AnalyzeAllParams {
   players: PlayerAllBallTypesData[];
 }
 
+type AnalyzeServesParams = Pick<ServeAnalysisRequest, "serveReport">;
+
+interface AnalyzeOptions {
+  /** Skip the stored version and generate a new one */
+  regenerate?: boolean;
+}
+
 /**
  * Hook for tactical AI analysis of shot patterns
  * 
@@ -40,6 +57,10 @@ interface AnalyzeAllParams {
  * - Return patterns
  * - Third ball attacks
  * - Rally development
+ * - Serve reports (first/second serve, placement, sides)
+ * 
+ * With a taskId, analyses are stored per task and reused on later visits;
+ * `regenerate` creates a new version and `showVersion` displays an older one.
  * 
  * @example
  * ```tsx
@@ -57,7 +78,9 @@ interface AnalyzeAllParams {
  * ```
  */
 export function useTacticalAnalysis(options: UseTacticalAnalysisOptions = {}) {
-  const { sport = "padel", onAnalysisStart, onAnalysisComplete, onError } = options;
+  const { sport = "padel", taskId, onAnalysisStart, onAnalysisComplete, onError } = options;
+  const { artifact, setArtifact, buildRequest } = useTaskArtifactRequest(taskId);
+  const { load: loadHistory } = useTaskArtifactHistory<{ analysis: string }>(taskId, "tactical_analysis");
   
   const [state, setState] = useState<TacticalAnalysisState>({
     isAnalyzing: false,
@@ -68,12 +91,27 @@ export function useTacticalAnalysis(options: UseTacticalAnalysisOptions = {}) {
   // Abort controller for cancellation
   const abortControllerRef = useRef<AbortController | null>(null);
   
+  // Last request, for regenerate
+  const lastRequestRef = useRef<(() => void) | null>(null);
+  
   /**
-   * Analyze player shot data with AI
+   * Set the artifact from the response headers. A newly streamed analysis
+   * is saved as the stream closes, so look it up in the history then.
    */
-  const analyze = useCallback(async (params: AnalyzeParams) => {
-    const { ballType, ballLabel, playerData, comparisonPlayerData } = params;
-    
+  const resolveArtifact = useCallback(async (response: Response) => {
+    const { artifact: stored, inputHash } = readArtifactHeaders(response);
+    if (stored || !inputHash) {
+      setArtifact(stored);
+      return;
+    }
+    const [latest] = await loadHistory(inputHash);
+    setArtifact(latest ? { ...toArtifactMeta(latest), cached: false } : null);
+  }, [loadHistory, setArtifact]);
+  
+  /**
+   * Stream an analysis from the tactical analysis route
+   */
+  const runAnalysis = useCallback(async (payload: Record<string, unknown>, regenerate: boolean) => {
     // Cancel any in-progress analysis
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -81,6 +119,8 @@ export function useTacticalAnalysis(options: UseTacticalAnalysisOptions = {}) {
     
     // Create new abort controller
     abortControllerRef.current = new AbortController();
+    const { headers, fields } = buildRequest(regenerate);
+    setArtifact(null);
     
     // Reset state
     setState({
@@ -100,16 +140,12 @@ export function useTacticalAnalysis(options: UseTacticalAnalysisOptions = {}) {
     try {
       const response = await fetch("/api/tactical-analysis", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers,
         body: JSON.stringify({
-          ballType,
-          ballLabel,
-          playerData,
-          comparisonPlayerData,
+          ...payload,
           sport,
           stream: true,
+          ...fields,
         }),
         signal: abortControllerRef.current.signal,
       });
@@ -146,6 +182,7 @@ export function useTacticalAnalysis(options: UseTacticalAnalysisOptions = {}) {
         analysis: accumulatedText,
         error: null,
       });
+      await resolveArtifact(response);
       
       // Track successful analysis
       track('analysis_completed', {
@@ -184,122 +221,32 @@ export function useTacticalAnalysis(options: UseTacticalAnalysisOptions = {}) {
       
       onError?.(errorMessage);
     }
-  }, [sport, onAnalysisStart, onAnalysisComplete, onError]);
+  }, [sport, buildRequest, setArtifact, resolveArtifact, onAnalysisStart, onAnalysisComplete, onError]);
+  
+  /**
+   * Analyze player shot data with AI
+   */
+  const analyze = useCallback(async (params: AnalyzeParams, { regenerate = false }: AnalyzeOptions = {}) => {
+    const { ballType, ballLabel, playerData, comparisonPlayerData } = params;
+    lastRequestRef.current = () => analyze(params, { regenerate: true });
+    await runAnalysis({ ballType, ballLabel, playerData, comparisonPlayerData }, regenerate);
+  }, [runAnalysis]);
   
   /**
    * Analyze all ball types for all players at once
    */
-  const analyzeAll = useCallback(async (params: AnalyzeAllParams) => {
-    const { players } = params;
-    
-    // Cancel any in-progress analysis
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
-    
-    // Create new abort controller
-    abortControllerRef.current = new AbortController();
-    
-    // Reset state
-    setState({
-      isAnalyzing: true,
-      analysis: null,
-      error: null,
-    });
-    
-    onAnalysisStart?.();
-    
-    // Track tactical analysis request (all ball types)
-    track('tactical_analysis_requested', {
-      analysisType: 'tactical',
-      sport,
-    });
-    
-    try {
-      const response = await fetch("/api/tactical-analysis", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          players,
-          sport,
-          stream: true,
-        }),
-        signal: abortControllerRef.current.signal,
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: "Analysis failed" }));
-        throw new Error(errorData.error || `Analysis failed (${response.status})`);
-      }
-      
-      // Handle streaming response
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let accumulatedText = "";
-      
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          
-          const chunk = decoder.decode(value, { stream: true });
-          accumulatedText += chunk;
-          
-          // Update state with accumulated text
-          setState(prev => ({
-            ...prev,
-            analysis: accumulatedText,
-          }));
-        }
-      }
-      
-      // Final state update
-      setState({
-        isAnalyzing: false,
-        analysis: accumulatedText,
-        error: null,
-      });
-      
-      // Track successful analysis
-      track('analysis_completed', {
-        analysisType: 'tactical',
-        sport,
-        success: true,
-      });
-      
-      onAnalysisComplete?.(accumulatedText);
-      
-    } catch (error) {
-      // Handle abort
-      if (error instanceof Error && error.name === "AbortError") {
-        setState(prev => ({
-          ...prev,
-          isAnalyzing: false,
-        }));
-        return;
-      }
-      
-      const errorMessage = error instanceof Error ? error.message : "Analysis failed";
-      
-      // Track failed analysis
-      track('analysis_failed', {
-        analysisType: 'tactical',
-        sport,
-        success: false,
-        errorMessage,
-      });
-      
-      setState({
-        isAnalyzing: false,
-        analysis: null,
-        error: errorMessage,
-      });
-      
-      onError?.(errorMessage);
-    }
-  }, [sport, onAnalysisStart, onAnalysisComplete, onError]);
+  const analyzeAll = useCallback(async (params: AnalyzeAllParams, { regenerate = false }: AnalyzeOptions = {}) => {
+    lastRequestRef.current = () => analyzeAll(params, { regenerate: true });
+    await runAnalysis({ players: params.players }, regenerate);
+  }, [runAnalysis]);
+  
+  /**
+   * Summarize every player's serve report
+   */
+  const analyzeServes = useCallback(async (params: AnalyzeServesParams, { regenerate = false }: AnalyzeOptions = {}) => {
+    lastRequestRef.current = () => analyzeServes(params, { regenerate: true });
+    await runAnalysis({ serveReport: params.serveReport }, regenerate);
+  }, [runAnalysis]);
   
   /**
    * Cancel in-progress analysis
@@ -315,26 +262,51 @@ export function useTacticalAnalysis(options: UseTacticalAnalysisOptions = {}) {
     }));
   }, []);
   
+  /**
+   * Generate a new version for the last request, replacing the stored one
+   */
+  const regenerate = useCallback(() => {
+    lastRequestRef.current?.();
+  }, []);
+  
+  /**
+   * Display a stored version from the history
+   */
+  const showVersion = useCallback((version: TaskArtifactVersion<{ analysis: string }>) => {
+    setState({
+      isAnalyzing: false,
+      analysis: version.content.analysis,
+      error: null,
+    });
+    setArtifact(toArtifactMeta(version));
+  }, [setArtifact]);
+  
   /**
    * Reset state
    */
   const reset = useCallback(() => {
     cancel();
+    lastRequestRef.current = null;
+    setArtifact(null);
     setState({
       isAnalyzing: false,
       analysis: null,
       error: null,
     });
-  }, [cancel]);
+  }, [cancel, setArtifact]);
   
   return {
     ...state,
+    artifact,
     analyze,
     analyzeAll,
+    analyzeServes,
+    regenerate,
+    showVersion,
     cancel,
     reset,
   };
 }
 
-export type { AnalyzeParams, AnalyzeAllParams, UseTacticalAnalysisOptions };
+export type { AnalyzeParams, AnalyzeAllParams, AnalyzeServesParams, AnalyzeOptions, UseTacticalAnalysisOptions };
 
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { useAuthHeaders } from "./useAuthHeaders";
+import {
+  ARTIFACT_CACHED_HEADER,
+  ARTIFACT_CREATED_AT_HEADER,
+  ARTIFACT_ID_HEADER,
+  ARTIFACT_INPUT_HASH_HEADER,
+  ARTIFACT_VERSION_HEADER,
+  type TaskArtifactMeta,
+  type TaskArtifactRequestFields,
+  type TaskArtifactType,
+  type TaskArtifactVersion,
+} from "@/types/task-artifact";
+
+/**
+ * Request helpers shared by the hooks that call artifact-backed routes
+ * (tactical analysis, player profiles, nicknames, swing profiles).
+ *
+ * Without a taskId, or when signed out, requests are sent as before and
+ * nothing is persisted.
+ */
+export function useTaskArtifactRequest(taskId?: string) {
+  const { getAuthHeadersIfAvailable } = useAuthHeaders();
+  const [artifact, setArtifact] = useState<TaskArtifactMeta | null>(null);
+
+  /**
+   * Headers and body fields for a generating request
+   */
+  const buildRequest = useCallback((regenerate = false): {
+    headers: Record<string, string>;
+    fields: TaskArtifactRequestFields;
+  } => {
+    const authHeaders = taskId ? (getAuthHeadersIfAvailable() as Record<string, string> | null) : null;
+    return {
+      headers: { "Content-Type": "application/json", ...authHeaders },
+      fields: taskId && authHeaders ? { taskId, regenerate } : {},
+    };
+  }, [taskId, getAuthHeadersIfAvailable]);
+
+  return { artifact, setArtifact, buildRequest };
+}
+
+/**
+ * Artifact metadata from the headers of a streamed response.
+ * Returns the input hash alone when the version is saved after streaming.
+ */
+export function readArtifactHeaders(response: Response): {
+  artifact: TaskArtifactMeta | null;
+  inputHash: string | null;
+} {
+  const inputHash = response.headers.get(ARTIFACT_INPUT_HASH_HEADER);
+  const id = response.headers.get(ARTIFACT_ID_HEADER);
+  const version = response.headers.get(ARTIFACT_VERSION_HEADER);
+
+  if (!id || !version || !inputHash) {
+    return { artifact: null, inputHash };
+  }
+
+  return {
+    artifact: {
+      id,
+      input_hash: inputHash,
+      version: Number(version),
+      cached: response.headers.get(ARTIFACT_CACHED_HEADER) === "true",
+      created_at: response.headers.get(ARTIFACT_CREATED_AT_HEADER) ?? "",
+    },
+    inputHash,
+  };
+}
+
+/**
+ * Metadata for showing a stored version from the history
+ */
+export function toArtifactMeta(version: TaskArtifactVersion): TaskArtifactMeta {
+  return {
+    id: version.id,
+    input_hash: version.input_hash,
+    version: version.version,
+    cached: true,
+    created_at: version.created_at,
+  };
+}
+
+/**
+ * Version history of one artifact (same task, type and inputs), newest first.
+ * Loaded on demand, e.g. when a version menu opens.
+ */
+export function useTaskArtifactHistory<TContent>(
+  taskId: string | undefined,
+  type: TaskArtifactType
+) {
+  const { getAuthHeadersIfAvailable } = useAuthHeaders();
+  const [versions, setVersions] = useState<TaskArtifactVersion<TContent>[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (inputHash?: string): Promise<TaskArtifactVersion<TContent>[]> => {
+    const headers = getAuthHeadersIfAvailable();
+    if (!taskId || !headers) return [];
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ type });
+      if (inputHash) params.set("inputHash", inputHash);
+
+      const response = await fetch(`/api/tasks/${taskId}/artifacts?${params}`, { headers });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: "Failed to load history" }));
+        throw new Error(errorData.error || `Failed to load history (${response.status})`);
+      }
+
+      const data: { artifacts: TaskArtifactVersion<TContent>[] } = await response.json();
+      setVersions(data.artifacts);
+      return data.artifacts;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load history");
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId, type, getAuthHeadersIfAvailable]);
+
+  return { versions, isLoading, error, load };
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { logger } from "@/lib/logger";
+import { readSSEEvents } from "@/lib/sse-utils";
+import { supabase } from "@/lib/supabase";
+import type { TaskProgressUpdate, TaskStreamDone, TaskStreamSnapshot } from "@/types/task-stream";
+
+// Consecutive failed connections before giving up and letting callers poll
+const MAX_CONSECUTIVE_FAILURES = 3;
+const RECONNECT_DELAY_MS = 2000;
+
+interface UseTaskStreamOptions {
+  /** JWT access token (the stream needs an Authorization header) */
+  accessToken: string | null;
+  /** Only connect while the caller knows of in-flight tasks */
+  enabled: boolean;
+  /** Change to force a reconnect, e.g. after a new task was created */
+  connectKey?: number;
+  /** Called for every task in the initial snapshot and for each change */
+  onUpdate: (update: TaskProgressUpdate) => void;
+  /** Called when the server reports no tasks in flight */
+  onIdle?: () => void;
+}
+
+interface UseTaskStreamReturn {
+  /** Connected and receiving updates */
+  isLive: boolean;
+  /** SSE failed repeatedly in this session - callers should poll instead */
+  isUnavailable: boolean;
+}
+
+/**
+ * Follow the user's in-flight tasks over /api/tasks/stream.
+ *
+ * Reconnects when the server closes the stream on timeout; stops when the
+ * server reports nothing left in flight. After repeated failures it marks
+ * itself unavailable so callers fall back to polling.
+ *
+ * @example
+ * ```tsx
+ * const { isLive, isUnavailable } = useTaskStream({
+ *   accessToken,
+ *   enabled: processingCount > 0,
+ *   onUpdate: (update) => setTasks(prev => applyUpdate(prev, update)),
+ * });
+ * ```
+ */
+export function useTaskStream({
+  accessToken,
+  enabled,
+  connectKey = 0,
+  onUpdate,
+  onIdle,
+}: UseTaskStreamOptions): UseTaskStreamReturn {
+  const [isLive, setIsLive] = useState(false);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+
+  // Keep callbacks current without reconnecting
+  const onUpdateRef = useRef(onUpdate);
+  const onIdleRef = useRef(onIdle);
+  useEffect(() => {
+    onUpdateRef.current = onUpdate;
+    onIdleRef.current = onIdle;
+  }, [onUpdate, onIdle]);
+
+  useEffect(() => {
+    if (!enabled || !accessToken || isUnavailable) return;
+
+    const controller = new AbortController();
+    let failures = 0;
+
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    const connect = async () => {
+      while (!controller.signal.aborted) {
+        let closeReason: TaskStreamDone["reason"] | "error" | null = null;
+
+        try {
+          const response = await fetch("/api/tasks/stream", {
+            headers: { Authorization: `Bearer ${accessToken}` },
+            signal: controller.signal,
+          });
+
+          // Let the auth state change reconnect with a fresh token
+          if (response.status === 401) {
+            await supabase.auth.refreshSession();
+            return;
+          }
+
+          if (!response.ok || !response.body) {
+            throw new Error(`Task stream returned ${response.status}`);
+          }
+
+          setIsLive(true);
+
+          for await (const { event, data } of readSSEEvents(response.body)) {
+            if (event === "snapshot") {
+              failures = 0;
+              const snapshot: TaskStreamSnapshot = JSON.parse(data);
+              snapshot.tasks.forEach(update => onUpdateRef.current(update));
+            } else if (event === "task") {
+              onUpdateRef.current(JSON.parse(data) as TaskProgressUpdate);
+            } else if (event === "done") {
+              closeReason = (JSON.parse(data) as TaskStreamDone).reason;
+            } else if (event === "error") {
+              closeReason = "error";
+            }
+          }
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          logger.warn("[useTaskStream] Stream failed:", err);
+          closeReason = "error";
+        }
+
+        setIsLive(false);
+
+        if (closeReason === "idle") {
+          onIdleRef.current?.();
+          return;
+        }
+
+        // Server timeout is expected - reconnect straight away
+        if (closeReason !== "timeout") {
+          failures++;
+          if (failures >= MAX_CONSECUTIVE_FAILURES) {
+            logger.warn("[useTaskStream] Giving up on task stream, falling back to polling");
+            setIsUnavailable(true);
+            return;
+          }
+          await wait(RECONNECT_DELAY_MS * failures);
+        }
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      setIsLive(false);
+    };
+  }, [enabled, accessToken, connectKey, isUnavailable]);
+
+  return { isLive, isUnavailable };
+}
@@ -14,12 +14,17 @@ import { createHash, randomBytes } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 import { getSupabaseAdmin } from "./supabase-server";
 import { logger } from "./logger";
+import { checkRateLimit, rateLimitedResponse } from "./rate-limit";
 import type { ApiKeyRecord, ValidatedApiKey } from "@/types/external-api";
 
 // Key format: sk_live_<32 random hex chars>
 const KEY_PREFIX = "sk_live_";
 const KEY_RANDOM_BYTES = 16; // 32 hex characters
 
+// Columns safe to return to a key's owner (everything except the hash)
+export const API_KEY_PUBLIC_COLUMNS =
+  "id, key_prefix, name, owner_email, description, permissions, rate_limit_tier, monthly_request_limit, requests_this_month, month_reset_at, created_at, expires_at, is_active, last_used_at, total_requests";
+
 /**
  * Generate a new API key
  * Returns the raw key (to show once to user) and the hash (to store)
@@ -105,6 +110,7 @@ export async function validateApiKey(request: NextRequest): Promise<ValidatedApi
 
     return {
       id: keyRecord.id,
+      userId: keyRecord.user_id,
       name: keyRecord.name,
       permissions: keyRecord.permissions,
       rateLimitTier: keyRecord.rate_limit_tier,
@@ -160,6 +166,36 @@ export function hasPermission(apiKey: ValidatedApiKey, permission: string): bool
   return apiKey.permissions.includes(permission);
 }
 
+/**
+ * Validate the API key, check a permission and apply the key's rate limit.
+ * Returns the key on success, or the error response to send.
+ */
+export async function authenticateExternalRequest(
+  request: NextRequest,
+  permission: string,
+  requestId: string
+): Promise<{ apiKey: ValidatedApiKey; response?: never } | { apiKey?: never; response: NextResponse }> {
+  const apiKey = await validateApiKey(request);
+  if (!apiKey) {
+    logger.warn(`[${requestId}] Invalid or missing API key`);
+    return { response: apiKeyUnauthorizedResponse() };
+  }
+
+  if (!hasPermission(apiKey, permission)) {
+    logger.warn(`[${requestId}] API key missing permission: ${permission}`);
+    return { response: apiKeyForbiddenResponse(`Missing required permission: ${permission}`) };
+  }
+
+  // Rate limit check (keyed by API key ID)
+  const rateLimitResult = await checkRateLimit(`apikey:${apiKey.id}`, "external_standard");
+  if (!rateLimitResult.success) {
+    logger.warn(`[${requestId}] Rate limit exceeded for API key: ${apiKey.name}`);
+    return { response: rateLimitedResponse(rateLimitResult) };
+  }
+
+  return { apiKey };
+}
+
 /**
  * Create an unauthorized response for invalid API keys
  */
@@ -0,0 +1,70 @@
+/**
+ * API Key Scopes
+ *
+ * Permission strings that can be granted to an external API key.
+ * Shared by the /api/developer/keys routes (validation) and the
+ * Developer profile tab (scope picker), so keep it free of server imports.
+ */
+
+export interface ApiKeyScope {
+  id: string;
+  label: string;
+  description: string;
+}
+
+// Submit videos and read results via /api/external/tasks
+export const STATISTICS_TASKS_SCOPE = "statistics:tasks";
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  {
+    id: "pickleball:chat",
+    label: "Pickleball technique chat",
+    description: "POST /api/external/pickleball/technique-chat",
+  },
+  {
+    id: "tennis:chat",
+    label: "Tennis technique chat",
+    description: "POST /api/external/tennis/technique-chat",
+  },
+  {
+    id: "padel:chat",
+    label: "Padel technique chat",
+    description: "POST /api/external/padel/technique-chat",
+  },
+  {
+    id: STATISTICS_TASKS_SCOPE,
+    label: "Match statistics",
+    description: "Submit videos and fetch results via /api/external/tasks",
+  },
+];
+
+// Per-user cap on active keys
+export const MAX_API_KEYS_PER_USER = 10;
+
+// Longest expiry a user can pick when creating a key
+export const MAX_API_KEY_EXPIRY_DAYS = 365;
+
+// Length limits for the free-text key fields
+export const MAX_API_KEY_NAME_LENGTH = 100;
+export const MAX_API_KEY_DESCRIPTION_LENGTH = 500;
+
+/**
+ * Descriptions are optional: a string within the length limit, or null to clear it
+ */
+export function isValidApiKeyDescription(description: unknown): description is string | null {
+  return (
+    description === null ||
+    (typeof description === "string" && description.trim().length <= MAX_API_KEY_DESCRIPTION_LENGTH)
+  );
+}
+
+/**
+ * Check that every permission is a known scope
+ */
+export function isValidScopeList(permissions: unknown): permissions is string[] {
+  return (
+    Array.isArray(permissions) &&
+    permissions.length > 0 &&
+    permissions.every(p => typeof p === "string" && API_KEY_SCOPES.some(scope => scope.id === p))
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * LLM Provider Module
+ *
+ * One interface for every model call: streaming, structured JSON output,
+ * context/response caching and token accounting. Gemini is the default
+ * backend; LLM_PROVIDER=openai-compatible targets a local model server.
+ *
+ * Usage:
+ * ```ts
+ * import { generateJSON } from '@/lib/llm-providers';
+ *
+ * const { data, model } = await generateJSON<{ sport: string }>({
+ *   requestId,
+ *   label: 'detect-sport',
+ *   tier: 'lite',
+ *   prompt,
+ *   media: [{ data: base64, mimeType: 'image/jpeg' }],
+ *   json: { type: 'object', properties: { sport: { type: 'string' } }, required: ['sport'] },
+ * });
+ * ```
+ */
+
+// Core exports
+export {
+  getLLMProvider,
+  setLLMProvider,
+  generateText,
+  generateJSON,
+  streamText,
+  parseJSONResponse,
+  LLM_TIMEOUT_MS,
+} from "./manager";
+export { estimateRequestTokens, getUsageTotals, type LLMUsageTotals } from "./usage";
+export { LLMProviderError } from "./types";
+export type {
+  ILLMProvider,
+  LLMProviderCapabilities,
+  LLMModelTier,
+  LLMJsonSchema,
+  LLMMediaPart,
+  LLMHistoryMessage,
+  LLMRequest,
+  LLMResult,
+  LLMJsonResult,
+  LLMStreamResult,
+  LLMUsage,
+} from "./types";
+
+// Provider exports
+export { GeminiProvider } from "./providers/gemini";
+export { OpenAICompatibleProvider } from "./providers/openai-compatible";
@@ -0,0 +1,159 @@
+/**
+ * LLM Manager
+ *
+ * Entry point every route uses to call a language model. Selects the
+ * configured provider (LLM_PROVIDER, default "gemini"), applies timeouts,
+ * an optional in-memory response cache and token accounting.
+ */
+
+import { createHash } from "crypto";
+import { logger } from "@/lib/logger";
+import { GeminiProvider } from "./providers/gemini";
+import { OpenAICompatibleProvider } from "./providers/openai-compatible";
+import { recordUsage, resolveUsage } from "./usage";
+import type { ILLMProvider, LLMJsonResult, LLMRequest, LLMResult, LLMStreamResult } from "./types";
+
+// Timeout for LLM API calls (2 minutes)
+export const LLM_TIMEOUT_MS = 2 * 60 * 1000;
+
+const RESPONSE_CACHE_MAX_ENTRIES = 200;
+
+let provider: ILLMProvider | null = null;
+
+const responseCache = new Map<string, { result: LLMResult; expiresAt: number }>();
+
+/**
+ * Configured provider (created on first use)
+ */
+export function getLLMProvider(): ILLMProvider {
+  if (!provider) {
+    const name = process.env.LLM_PROVIDER || "gemini";
+    switch (name) {
+      case "gemini":
+        provider = new GeminiProvider();
+        break;
+      case "openai-compatible":
+        provider = new OpenAICompatibleProvider();
+        break;
+      default:
+        throw new Error(`Unknown LLM_PROVIDER "${name}" (expected "gemini" or "openai-compatible")`);
+    }
+    logger.info(`LLM provider: ${provider.name}`);
+  }
+  return provider;
+}
+
+/**
+ * Replace the provider (e.g. a scripted fake in tests)
+ */
+export function setLLMProvider(next: ILLMProvider | null): void {
+  provider = next;
+  responseCache.clear();
+}
+
+function getResponseCacheKey(request: LLMRequest): string {
+  const { requestId: _requestId, timeoutMs: _timeoutMs, responseCacheTtlMs: _ttl, ...rest } = request;
+  return createHash("sha256").update(`${getLLMProvider().name}:${JSON.stringify(rest)}`).digest("hex");
+}
+
+function getCachedResponse(key: string): LLMResult | null {
+  const entry = responseCache.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt < Date.now()) {
+    responseCache.delete(key);
+    return null;
+  }
+  return entry.result;
+}
+
+function setCachedResponse(key: string, result: LLMResult, ttlMs: number): void {
+  if (responseCache.size >= RESPONSE_CACHE_MAX_ENTRIES) {
+    // Map preserves insertion order, so the first key is the oldest
+    const oldest = responseCache.keys().next().value;
+    if (oldest !== undefined) responseCache.delete(oldest);
+  }
+  responseCache.set(key, { result, expiresAt: Date.now() + ttlMs });
+}
+
+/**
+ * Generate a complete text response
+ */
+export async function generateText(request: LLMRequest): Promise<LLMResult> {
+  const cacheKey = request.responseCacheTtlMs ? getResponseCacheKey(request) : null;
+  if (cacheKey) {
+    const cached = getCachedResponse(cacheKey);
+    if (cached) {
+      logger.debug(`[${request.requestId}] LLM response cache hit (${request.label})`);
+      return { ...cached, fromResponseCache: true };
+    }
+  }
+
+  const llm = getLLMProvider();
+  const timeoutMs = request.timeoutMs ?? LLM_TIMEOUT_MS;
+  const result = await llm.generate(request, AbortSignal.timeout(timeoutMs));
+  const usage = resolveUsage(request, result.usage, result.text);
+  recordUsage(request, result.model, usage);
+
+  const finalResult = { ...result, usage };
+  if (cacheKey && request.responseCacheTtlMs) {
+    setCachedResponse(cacheKey, finalResult, request.responseCacheTtlMs);
+  }
+  return finalResult;
+}
+
+/**
+ * Strip markdown code fences some models wrap JSON in
+ */
+export function parseJSONResponse<T>(text: string): T {
+  let jsonText = text.trim();
+  const fenced = jsonText.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  if (fenced) jsonText = fenced[1];
+  return JSON.parse(jsonText) as T;
+}
+
+/**
+ * Generate a JSON response. Pass `json` as a schema to constrain the shape.
+ * Throws a SyntaxError if the model returns invalid JSON.
+ */
+export async function generateJSON<T>(request: LLMRequest): Promise<LLMJsonResult<T>> {
+  const result = await generateText({ ...request, json: request.json ?? true });
+  return { ...result, data: parseJSONResponse<T>(result.text) };
+}
+
+/**
+ * Stream a text response. The timeout covers establishing the stream;
+ * usage is recorded once the stream has been consumed.
+ */
+export async function streamText(request: LLMRequest): Promise<LLMStreamResult> {
+  const llm = getLLMProvider();
+  const controller = new AbortController();
+  const timeoutMs = request.timeoutMs ?? LLM_TIMEOUT_MS;
+  const timeoutId = setTimeout(
+    () => controller.abort(new DOMException(`LLM stream timed out after ${timeoutMs / 1000} seconds`, "TimeoutError")),
+    timeoutMs
+  );
+
+  let result: LLMStreamResult;
+  try {
+    result = await llm.stream(request, controller.signal);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  let fullText = "";
+  const source = result.textStream;
+  async function* textStream(): AsyncGenerator<string, void, unknown> {
+    for await (const chunk of source) {
+      fullText += chunk;
+      yield chunk;
+    }
+  }
+
+  const usage = result.usage.then(reported => {
+    const resolved = resolveUsage(request, reported, fullText);
+    recordUsage(request, result.model, resolved);
+    return resolved;
+  });
+
+  return { ...result, textStream: textStream(), usage };
+}
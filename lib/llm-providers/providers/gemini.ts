@@ -0,0 +1,278 @@
+/**
+ * Gemini Provider
+ *
+ * Google Generative AI backend. Supports inline video/images, explicit
+ * context caching of large media, thinking budgets and JSON schemas.
+ */
+
+import { GoogleGenerativeAI, type GenerationConfig, type GenerativeModel, type Part, type ResponseSchema } from "@google/generative-ai";
+import { GoogleAICacheManager } from "@google/generative-ai/server";
+import { logger } from "@/lib/logger";
+import type { MediaResolution } from "@/utils/storage";
+import {
+  LLMProviderError,
+  type ILLMProvider,
+  type LLMModelTier,
+  type LLMRequest,
+  type LLMResult,
+  type LLMStreamResult,
+  type LLMUsage,
+} from "../types";
+
+const MODELS: Record<LLMModelTier, string> = {
+  pro: "gemini-3-flash-preview",
+  flash: "gemini-2.5-flash",
+  lite: "gemini-2.0-flash",
+};
+
+const DEFAULT_CACHE_TTL_SECONDS = 3600; // 1 hour
+
+const MEDIA_RESOLUTION_MAP: Record<MediaResolution, string> = {
+  low: "MEDIA_RESOLUTION_LOW",
+  medium: "MEDIA_RESOLUTION_MEDIUM",
+  high: "MEDIA_RESOLUTION_HIGH",
+};
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+interface PreparedModel {
+  model: GenerativeModel;
+  modelName: string;
+  cacheUsed: boolean;
+  cacheName?: string;
+}
+
+function toUsage(metadata: GeminiUsageMetadata | undefined): LLMUsage | null {
+  if (!metadata || metadata.promptTokenCount === undefined) return null;
+  const inputTokens = metadata.promptTokenCount;
+  const outputTokens = metadata.candidatesTokenCount ?? 0;
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: metadata.totalTokenCount ?? inputTokens + outputTokens,
+    estimated: false,
+  };
+}
+
+/**
+ * Wrap SDK errors so the HTTP status survives for error mapping
+ */
+function toProviderError(error: unknown): LLMProviderError {
+  if (error instanceof LLMProviderError) return error;
+  const err = error as { message?: string; status?: number; statusText?: string; name?: string };
+  if (err?.name === "AbortError" || err?.name === "TimeoutError") {
+    return new LLMProviderError("Gemini request timed out", { status: 504, statusText: "Gateway Timeout" });
+  }
+  return new LLMProviderError(err?.message || "Gemini request failed", {
+    status: err?.status,
+    statusText: err?.statusText,
+  });
+}
+
+export class GeminiProvider implements ILLMProvider {
+  name = "gemini";
+  capabilities = { images: true, video: true, contextCaching: true, thinking: true };
+
+  private client: GoogleGenerativeAI | null = null;
+  private cacheManager: GoogleAICacheManager | null = null;
+
+  resolveModel(tier: LLMModelTier): string {
+    return MODELS[tier];
+  }
+
+  async generate(request: LLMRequest, signal: AbortSignal): Promise<LLMResult> {
+    const prepared = await this.prepareModel(request);
+    const parts = this.buildParts(request, prepared.cacheUsed);
+
+    try {
+      const result = request.history?.length
+        ? await prepared.model.startChat({ history: this.buildHistory(request) }).sendMessage(parts, { signal })
+        : await prepared.model.generateContent(parts, { signal });
+
+      const response = result.response;
+      return {
+        text: response.text(),
+        model: prepared.modelName,
+        usage: toUsage(response.usageMetadata) ?? { inputTokens: 0, outputTokens: 0, totalTokens: 0, estimated: true },
+        cacheName: prepared.cacheName,
+        cacheUsed: prepared.cacheUsed,
+        finishReason: response.candidates?.[0]?.finishReason,
+      };
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async stream(request: LLMRequest, signal: AbortSignal): Promise<LLMStreamResult> {
+    const prepared = await this.prepareModel(request);
+    const parts = this.buildParts(request, prepared.cacheUsed);
+
+    let result;
+    try {
+      result = request.history?.length
+        ? await prepared.model.startChat({ history: this.buildHistory(request) }).sendMessageStream(parts, { signal })
+        : await prepared.model.generateContentStream(parts, { signal });
+    } catch (error) {
+      throw toProviderError(error);
+    }
+
+    const usage = result.response
+      .then(response => toUsage(response.usageMetadata) ?? { inputTokens: 0, outputTokens: 0, totalTokens: 0, estimated: true })
+      .catch(() => ({ inputTokens: 0, outputTokens: 0, totalTokens: 0, estimated: true }));
+
+    const chunks = result.stream;
+    async function* textStream(): AsyncGenerator<string, void, unknown> {
+      try {
+        for await (const chunk of chunks) {
+          const text = chunk.text();
+          if (text) yield text;
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    }
+
+    return {
+      textStream: textStream(),
+      model: prepared.modelName,
+      cacheName: prepared.cacheName,
+      cacheUsed: prepared.cacheUsed,
+      usage,
+    };
+  }
+
+  // ==========================================================================
+  // Private helpers
+  // ==========================================================================
+
+  private getClient(): GoogleGenerativeAI {
+    if (!this.client) {
+      if (!process.env.GEMINI_API_KEY) {
+        logger.error("GEMINI_API_KEY environment variable is not set");
+        throw new LLMProviderError("GEMINI_API_KEY environment variable is not set", { status: 500 });
+      }
+      this.client = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+    }
+    return this.client;
+  }
+
+  private getCacheManager(): GoogleAICacheManager {
+    if (!this.cacheManager) {
+      if (!process.env.GEMINI_API_KEY) {
+        throw new LLMProviderError("GEMINI_API_KEY is required for cache management", { status: 500 });
+      }
+      this.cacheManager = new GoogleAICacheManager(process.env.GEMINI_API_KEY);
+    }
+    return this.cacheManager;
+  }
+
+  private buildGenerationConfig(request: LLMRequest): GenerationConfig {
+    const config: GenerationConfig & Record<string, unknown> = {};
+
+    if (request.temperature !== undefined) config.temperature = request.temperature;
+    if (request.topP !== undefined) config.topP = request.topP;
+    if (request.topK !== undefined) config.topK = request.topK;
+    if (request.maxOutputTokens !== undefined) config.maxOutputTokens = request.maxOutputTokens;
+
+    if (request.json) {
+      config.responseMimeType = "application/json";
+      if (request.json !== true) {
+        // LLMJsonSchema uses the same lowercase type names as SchemaType
+        config.responseSchema = request.json as unknown as ResponseSchema;
+      }
+    }
+
+    if (request.thinkingBudget !== undefined) {
+      config.thinkingConfig = { thinkingBudget: request.thinkingBudget };
+    }
+
+    if (request.mediaResolution && request.media?.length) {
+      config.media_resolution = MEDIA_RESOLUTION_MAP[request.mediaResolution];
+    }
+
+    return config;
+  }
+
+  /**
+   * Pick a model instance, reusing or creating a context cache when requested
+   */
+  private async prepareModel(request: LLMRequest): Promise<PreparedModel> {
+    const modelName = request.model ?? this.resolveModel(request.tier);
+    const generationConfig = this.buildGenerationConfig(request);
+    const { requestId, contextCache } = request;
+
+    if (contextCache?.name) {
+      try {
+        const cachedContent = await this.getCacheManager().get(contextCache.name);
+        logger.info(`[${requestId}] ✅ Using cached content`);
+        return {
+          model: this.getClient().getGenerativeModelFromCachedContent(cachedContent, { generationConfig }),
+          modelName,
+          cacheUsed: true,
+        };
+      } catch (cacheError) {
+        logger.warn(`[${requestId}] Cache not found or expired, falling back to normal model`, cacheError);
+      }
+    }
+
+    if (contextCache?.create && request.media?.length) {
+      try {
+        const cache = await this.getCacheManager().create({
+          model: `models/${modelName}`,
+          displayName: `sportai_${requestId}`,
+          systemInstruction: request.systemInstruction,
+          contents: [
+            {
+              role: "user",
+              parts: request.media.map(media => ({ inlineData: { data: media.data, mimeType: media.mimeType } })),
+            },
+          ],
+          ttlSeconds: contextCache.ttlSeconds ?? DEFAULT_CACHE_TTL_SECONDS,
+        });
+        logger.info(`[${requestId}] ✅ Created new cache: ${cache.name}`);
+        return {
+          model: this.getClient().getGenerativeModelFromCachedContent(cache, { generationConfig }),
+          modelName,
+          cacheUsed: true,
+          cacheName: cache.name,
+        };
+      } catch (cacheError) {
+        logger.warn(`[${requestId}] Failed to create cache, using normal model`, cacheError);
+      }
+    }
+
+    return {
+      model: this.getClient().getGenerativeModel({
+        model: modelName,
+        generationConfig,
+        systemInstruction: request.systemInstruction,
+      }),
+      modelName,
+      cacheUsed: false,
+    };
+  }
+
+  /**
+   * Prompt plus inline media. Cached content already includes the media.
+   */
+  private buildParts(request: LLMRequest, cacheUsed: boolean): Part[] {
+    const parts: Part[] = [{ text: request.prompt }];
+    if (!cacheUsed) {
+      for (const media of request.media ?? []) {
+        parts.push({ inlineData: { data: media.data, mimeType: media.mimeType } });
+      }
+    }
+    return parts;
+  }
+
+  private buildHistory(request: LLMRequest) {
+    return (request.history ?? []).map(message => ({
+      role: message.role,
+      parts: [{ text: message.text }],
+    }));
+  }
+}
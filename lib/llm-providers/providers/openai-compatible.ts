@@ -0,0 +1,273 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Talks to any server exposing POST /chat/completions (llama.cpp, vLLM,
+ * Ollama, LM Studio, OpenAI). Used to point the app at a local model for
+ * offline development; set LLM_SEED and temperature 0 for repeatable output.
+ *
+ * Environment:
+ * - LLM_BASE_URL   e.g. http://localhost:11434/v1 (required)
+ * - LLM_API_KEY    bearer token, if the server needs one
+ * - LLM_MODEL      default model for every tier
+ * - LLM_MODEL_PRO / LLM_MODEL_FLASH / LLM_MODEL_LITE   per-tier overrides
+ * - LLM_SEED       integer seed forwarded to the server
+ */
+
+import { readSSEEvents } from "@/lib/sse-utils";
+import {
+  LLMProviderError,
+  type ILLMProvider,
+  type LLMJsonSchema,
+  type LLMModelTier,
+  type LLMRequest,
+  type LLMResult,
+  type LLMStreamResult,
+  type LLMUsage,
+} from "../types";
+
+type ChatContent = string | Array<
+  { type: "text"; text: string } | { type: "image_url"; image_url: { url: string } }
+>;
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: ChatContent;
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null };
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatCompletionUsage | null;
+}
+
+/** Tier → env var holding the model override */
+const TIER_ENV: Record<LLMModelTier, string> = {
+  pro: "LLM_MODEL_PRO",
+  flash: "LLM_MODEL_FLASH",
+  lite: "LLM_MODEL_LITE",
+};
+
+function toUsage(usage: ChatCompletionUsage | null | undefined): LLMUsage | null {
+  if (!usage || usage.prompt_tokens === undefined) return null;
+  const inputTokens = usage.prompt_tokens;
+  const outputTokens = usage.completion_tokens ?? 0;
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: usage.total_tokens ?? inputTokens + outputTokens,
+    estimated: false,
+  };
+}
+
+/**
+ * Convert the Gemini-style `nullable` flag to JSON Schema type unions
+ * and disallow extra properties, as strict json_schema mode expects
+ */
+function toJsonSchema(schema: LLMJsonSchema): Record<string, unknown> {
+  const result: Record<string, unknown> = {
+    type: schema.nullable ? [schema.type, "null"] : schema.type,
+  };
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.format) result.format = schema.format;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    result.required = schema.required ?? [];
+    result.additionalProperties = false;
+  }
+  return result;
+}
+
+/**
+ * Strict json_schema mode requires every property of every object to be
+ * listed in `required`; schemas with optional fields are sent non-strict
+ */
+function isStrictCompatible(schema: LLMJsonSchema): boolean {
+  if (schema.items && !isStrictCompatible(schema.items)) return false;
+  if (!schema.properties) return true;
+
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties).every(
+    ([key, value]) => required.has(key) && isStrictCompatible(value)
+  );
+}
+
+export class OpenAICompatibleProvider implements ILLMProvider {
+  name = "openai-compatible";
+  capabilities = { images: true, video: false, contextCaching: false, thinking: false };
+
+  resolveModel(tier: LLMModelTier): string {
+    const model = process.env[TIER_ENV[tier]] || process.env.LLM_MODEL;
+    if (!model) {
+      throw new LLMProviderError("LLM_MODEL environment variable is not set", { status: 500 });
+    }
+    return model;
+  }
+
+  async generate(request: LLMRequest, signal: AbortSignal): Promise<LLMResult> {
+    const model = request.model ?? this.resolveModel(request.tier);
+    const response = await this.post(this.buildBody(request, model, false), signal);
+    const data = (await response.json()) as ChatCompletionResponse;
+    const choice = data.choices?.[0];
+
+    return {
+      text: choice?.message?.content ?? "",
+      model: data.model ?? model,
+      usage: toUsage(data.usage) ?? { inputTokens: 0, outputTokens: 0, totalTokens: 0, estimated: true },
+      cacheUsed: false,
+      finishReason: choice?.finish_reason ?? undefined,
+    };
+  }
+
+  async stream(request: LLMRequest, signal: AbortSignal): Promise<LLMStreamResult> {
+    const model = request.model ?? this.resolveModel(request.tier);
+    const response = await this.post(this.buildBody(request, model, true), signal);
+    if (!response.body) {
+      throw new LLMProviderError("Streaming response has no body", { status: 502 });
+    }
+
+    let resolveUsage: (usage: LLMUsage) => void = () => {};
+    const usage = new Promise<LLMUsage>(resolve => {
+      resolveUsage = resolve;
+    });
+
+    const body = response.body;
+    async function* textStream(): AsyncGenerator<string, void, unknown> {
+      let reported: LLMUsage | null = null;
+      try {
+        for await (const { data } of readSSEEvents(body)) {
+          if (data === "[DONE]") break;
+          const chunk = JSON.parse(data) as ChatCompletionResponse;
+          reported = toUsage(chunk.usage) ?? reported;
+          const text = chunk.choices?.[0]?.delta?.content;
+          if (text) yield text;
+        }
+      } finally {
+        resolveUsage(reported ?? { inputTokens: 0, outputTokens: 0, totalTokens: 0, estimated: true });
+      }
+    }
+
+    return {
+      textStream: textStream(),
+      model,
+      cacheUsed: false,
+      usage,
+    };
+  }
+
+  // ==========================================================================
+  // Private helpers
+  // ==========================================================================
+
+  private async post(body: Record<string, unknown>, signal: AbortSignal): Promise<Response> {
+    const baseUrl = process.env.LLM_BASE_URL;
+    if (!baseUrl) {
+      throw new LLMProviderError("LLM_BASE_URL environment variable is not set", { status: 500 });
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (process.env.LLM_API_KEY) {
+      headers.Authorization = `Bearer ${process.env.LLM_API_KEY}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      const err = error as { name?: string; message?: string };
+      if (err?.name === "AbortError" || err?.name === "TimeoutError") {
+        throw new LLMProviderError("LLM request timed out", { status: 504, statusText: "Gateway Timeout" });
+      }
+      throw new LLMProviderError(`Failed to reach LLM server: ${err?.message ?? "unknown error"}`, { status: 503 });
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "");
+      throw new LLMProviderError(`LLM server error: ${response.status} ${errorText}`.trim(), {
+        status: response.status,
+        statusText: response.statusText,
+      });
+    }
+
+    return response;
+  }
+
+  private buildBody(request: LLMRequest, model: string, stream: boolean): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model,
+      messages: this.buildMessages(request),
+      stream,
+    };
+
+    if (stream) body.stream_options = { include_usage: true };
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (request.topP !== undefined) body.top_p = request.topP;
+    if (request.maxOutputTokens !== undefined) body.max_tokens = request.maxOutputTokens;
+    if (process.env.LLM_SEED) body.seed = Number(process.env.LLM_SEED);
+
+    if (request.json === true) {
+      body.response_format = { type: "json_object" };
+    } else if (request.json) {
+      body.response_format = {
+        type: "json_schema",
+        json_schema: {
+          name: request.label.replace(/[^a-zA-Z0-9_-]/g, "_"),
+          schema: toJsonSchema(request.json),
+          strict: isStrictCompatible(request.json),
+        },
+      };
+    }
+
+    return body;
+  }
+
+  private buildMessages(request: LLMRequest): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+
+    if (request.systemInstruction) {
+      messages.push({ role: "system", content: request.systemInstruction });
+    }
+
+    for (const message of request.history ?? []) {
+      messages.push({ role: message.role === "model" ? "assistant" : "user", content: message.text });
+    }
+
+    const media = request.media ?? [];
+    if (media.some(part => !part.mimeType.startsWith("image/"))) {
+      throw new LLMProviderError("This LLM provider does not support video input", { status: 400 });
+    }
+
+    messages.push({
+      role: "user",
+      content: media.length === 0
+        ? request.prompt
+        : [
+          { type: "text", text: request.prompt },
+          ...media.map(part => ({
+            type: "image_url" as const,
+            image_url: { url: `data:${part.mimeType};base64,${part.data}` },
+          })),
+        ],
+    });
+
+    return messages;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * LLM Provider Types
+ *
+ * Provider-agnostic request/response shapes shared by every LLM backend.
+ * Routes build an LLMRequest; the manager picks the configured provider.
+ */
+
+import type { MediaResolution } from "@/utils/storage";
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+/**
+ * Logical model tiers. Each provider maps them to concrete model names.
+ * - pro:   video/complex reasoning (Gemini 3 Flash)
+ * - flash: general text (Gemini 2.5 Flash)
+ * - lite:  quick classification and short JSON (Gemini 2.0 Flash)
+ */
+export type LLMModelTier = "pro" | "flash" | "lite";
+
+/**
+ * JSON schema subset accepted by every provider for structured output.
+ * `nullable` follows the Gemini convention; other providers translate it.
+ */
+export interface LLMJsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  format?: string;
+  properties?: Record<string, LLMJsonSchema>;
+  required?: string[];
+  items?: LLMJsonSchema;
+}
+
+/**
+ * Inline media (image or video) sent with the prompt
+ */
+export interface LLMMediaPart {
+  /** Base64-encoded bytes */
+  data: string;
+  mimeType: string;
+}
+
+/**
+ * Earlier turns of a conversation
+ */
+export interface LLMHistoryMessage {
+  role: "user" | "model";
+  text: string;
+}
+
+export interface LLMRequest {
+  /** Correlates logs for one API request */
+  requestId: string;
+  /** Feature name for usage accounting, e.g. "player-nicknames" */
+  label: string;
+  tier: LLMModelTier;
+  /** Exact model name; overrides `tier` (provider-specific) */
+  model?: string;
+  systemInstruction?: string;
+  prompt: string;
+  media?: LLMMediaPart[];
+  history?: LLMHistoryMessage[];
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  /** Reasoning budget for thinking models (ignored by providers without thinking) */
+  thinkingBudget?: number;
+  /** Video/image resolution hint (Gemini only) */
+  mediaResolution?: MediaResolution;
+  /** Constrain the response to JSON matching this schema, or to any JSON object when `true` */
+  json?: LLMJsonSchema | true;
+  /**
+   * Provider-side context caching of the system instruction + media.
+   * `name` reuses an existing cache; `create` makes a new one when no cache was used.
+   */
+  contextCache?: {
+    name?: string;
+    create?: boolean;
+    ttlSeconds?: number;
+  };
+  /** In-memory response cache for identical requests (generate only) */
+  responseCacheTtlMs?: number;
+  /** Abort the call after this long (default: LLM_TIMEOUT_MS) */
+  timeoutMs?: number;
+}
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** True when the provider didn't report counts and they were estimated */
+  estimated: boolean;
+}
+
+export interface LLMResult {
+  text: string;
+  /** Concrete model that served the request */
+  model: string;
+  usage: LLMUsage;
+  /** Name of a context cache created by this call */
+  cacheName?: string;
+  /** Whether a context cache was used */
+  cacheUsed: boolean;
+  /** Served from the in-memory response cache */
+  fromResponseCache?: boolean;
+  finishReason?: string;
+}
+
+export interface LLMStreamResult {
+  textStream: AsyncGenerator<string, void, unknown>;
+  model: string;
+  cacheName?: string;
+  cacheUsed: boolean;
+  /** Resolves once the stream has been fully consumed */
+  usage: Promise<LLMUsage>;
+}
+
+export interface LLMJsonResult<T> extends LLMResult {
+  data: T;
+}
+
+// ============================================================================
+// Provider Interface
+// ============================================================================
+
+export interface LLMProviderCapabilities {
+  images: boolean;
+  video: boolean;
+  contextCaching: boolean;
+  thinking: boolean;
+}
+
+/**
+ * Interface every LLM backend implements
+ */
+export interface ILLMProvider {
+  /** Unique identifier, e.g. "gemini" */
+  name: string;
+  capabilities: LLMProviderCapabilities;
+  /** Concrete model name for a tier */
+  resolveModel(tier: LLMModelTier): string;
+  /** Single response */
+  generate(request: LLMRequest, signal: AbortSignal): Promise<LLMResult>;
+  /** Streamed response */
+  stream(request: LLMRequest, signal: AbortSignal): Promise<LLMStreamResult>;
+}
+
+/**
+ * Error raised by providers with the upstream HTTP status when known,
+ * so createUserFriendlyError can categorize it
+ */
+export class LLMProviderError extends Error {
+  status?: number;
+  statusText?: string;
+
+  constructor(message: string, options: { status?: number; statusText?: string } = {}) {
+    super(message);
+    this.name = "LLMProviderError";
+    this.status = options.status;
+    this.statusText = options.statusText;
+  }
+}
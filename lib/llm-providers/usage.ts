@@ -0,0 +1,79 @@
+/**
+ * LLM Token Accounting
+ *
+ * Fills in estimates when a provider doesn't report token counts, logs
+ * per-request usage and cost, and keeps running totals per feature label.
+ */
+
+import { logger } from "@/lib/logger";
+import { estimateTextTokens, estimateVideoTokens, calculatePricing, formatCost } from "@/lib/token-utils";
+import type { LLMRequest, LLMUsage } from "./types";
+
+export interface LLMUsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalCost: number;
+}
+
+const totalsByLabel = new Map<string, LLMUsageTotals>();
+
+/**
+ * Estimate input tokens for a request (system instruction + prompt + history + media)
+ */
+export function estimateRequestTokens(request: LLMRequest): number {
+  let tokens = estimateTextTokens(request.systemInstruction ?? "") + estimateTextTokens(request.prompt);
+
+  for (const message of request.history ?? []) {
+    tokens += estimateTextTokens(message.text);
+  }
+
+  for (const media of request.media ?? []) {
+    // Base64 inflates size by 4/3
+    const sizeBytes = Math.floor((media.data.length * 3) / 4);
+    tokens += media.mimeType.startsWith("image/")
+      // Images: base 257 tokens + ~85 tokens per 100KB
+      ? 257 + Math.ceil((sizeBytes / 1024 / 100) * 85)
+      : estimateVideoTokens(sizeBytes, media.mimeType);
+  }
+
+  return tokens;
+}
+
+/**
+ * Replace missing provider counts with estimates
+ */
+export function resolveUsage(request: LLMRequest, usage: LLMUsage, outputText: string): LLMUsage {
+  if (!usage.estimated) return usage;
+  const inputTokens = estimateRequestTokens(request);
+  const outputTokens = estimateTextTokens(outputText);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens, estimated: true };
+}
+
+/**
+ * Log usage for one call and add it to the label's running totals
+ */
+export function recordUsage(request: LLMRequest, model: string, usage: LLMUsage): void {
+  const pricing = calculatePricing(usage.inputTokens, usage.outputTokens);
+  const source = usage.estimated ? "estimated" : "actual";
+
+  logger.debug(
+    `[${request.requestId}] Token usage (${request.label}, ${model}, ${source}): ` +
+      `${usage.inputTokens.toLocaleString()} in / ${usage.outputTokens.toLocaleString()} out, ` +
+      `cost ${formatCost(pricing.totalCost)}`
+  );
+
+  const totals = totalsByLabel.get(request.label) ?? { requests: 0, inputTokens: 0, outputTokens: 0, totalCost: 0 };
+  totals.requests += 1;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.totalCost += pricing.totalCost;
+  totalsByLabel.set(request.label, totals);
+}
+
+/**
+ * Running totals since server start, keyed by feature label
+ */
+export function getUsageTotals(): Record<string, LLMUsageTotals> {
+  return Object.fromEntries(Array.from(totalsByLabel, ([label, totals]) => [label, { ...totals }]));
+}
@@ -1,50 +1,15 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { GoogleAICacheManager } from "@google/generative-ai/server";
 import { logger } from "./logger";
-import {
-  estimateTextTokens,
-  estimateVideoTokens,
-  calculatePricing,
-  formatCost,
-} from "./token-utils";
+import { estimateTextTokens } from "./token-utils";
 import { getSystemPromptWithDomainAndInsight, getFramePromptWithDomainAndInsight, type PromptType, type UserContext } from "./prompts";
 import { createUserFriendlyError } from "./llm-error-mapper";
+import { generateText, streamText, getLLMProvider, estimateRequestTokens, type LLMModelTier, type LLMRequest } from "./llm-providers";
 import type { ThinkingMode, MediaResolution, DomainExpertise, InsightLevel } from "@/utils/storage";
 
-// Model selection: Gemini 3 Flash for complex, Gemini 2.5 Flash for simple
-const MODEL_NAME_PRO = "gemini-3-flash-preview";
-const MODEL_NAME_FLASH = "gemini-2.5-flash";
-
 // Minimum tokens for explicit caching (Gemini requirement: 32,768 tokens)
 // ~22MB of video content
 const MIN_TOKENS_FOR_CACHING = 32768;
 const CACHE_TTL_SECONDS = 3600; // 1 hour
 
-// Timeout for LLM API calls (2 minutes)
-const LLM_TIMEOUT_MS = 2 * 60 * 1000;
-
-/**
- * Wraps a promise with a timeout. Rejects with a timeout error if the promise
- * doesn't resolve within the specified time.
- */
-function withTimeout<T>(promise: Promise<T>, timeoutMs: number, operation: string): Promise<T> {
-  return new Promise((resolve, reject) => {
-    const timeoutId = setTimeout(() => {
-      reject(new Error(`${operation} timed out after ${timeoutMs / 1000} seconds`));
-    }, timeoutMs);
-
-    promise
-      .then((result) => {
-        clearTimeout(timeoutId);
-        resolve(result);
-      })
-      .catch((error) => {
-        clearTimeout(timeoutId);
-        reject(error);
-      });
-  });
-}
-
 /**
  * Patterns that indicate an explicitly complex query needing the Pro model
  * These queries benefit from deeper reasoning capabilities
@@ -60,13 +25,28 @@ const COMPLEX_QUERY_PATTERNS = [
 ];
 
 /**
- * Determine which model to use based on query characteristics
+ * Errors indicating the model rejected generation config parameters
+ */
+const CONFIG_ERROR_PATTERNS = [
+  "generationConfig",
+  "thinkingConfig",
+  "thinkingBudget",
+  "mediaResolution",
+  "thinkingMode",
+  "thinking_level",
+  "media_resolution",
+  "Budget 0 is invalid",
+  "only works in thinking mode",
+];
+
+/**
+ * Determine which model tier to use based on query characteristics
  *
- * Use Pro model for:
+ * Use Pro tier for:
  * - Video analysis (needs visual understanding)
  * - Explicitly complex queries (compare, analyze, summarize, etc.)
  *
- * Use Flash model for:
+ * Use Flash tier for:
  * - All text-only queries (faster, cheaper)
  * - Including first message without video (likely simple questions)
  */
@@ -74,47 +54,39 @@ function selectModel(
   hasVideo: boolean,
   hasHistory: boolean,
   prompt: string
-): { modelName: string; reason: string } {
+): { tier: LLMModelTier; reason: string } {
   // Always use Pro for video analysis
   if (hasVideo) {
-    return { modelName: MODEL_NAME_PRO, reason: "video_analysis" };
+    return { tier: "pro", reason: "video_analysis" };
   }
 
   // Check for explicitly complex queries (even without video)
   for (const pattern of COMPLEX_QUERY_PATTERNS) {
     if (pattern.test(prompt)) {
-      return { modelName: MODEL_NAME_PRO, reason: "complex_query" };
+      return { tier: "pro", reason: "complex_query" };
     }
   }
 
   // All text-only queries → use Flash for speed
   // This includes first message without video (probably just a simple question)
-  return { modelName: MODEL_NAME_FLASH, reason: "text_query" };
+  return { tier: "flash", reason: "text_query" };
 }
 
-// Lazy initialization - only check API key when actually used (at runtime)
-let genAI: GoogleGenerativeAI | null = null;
-let cacheManager: GoogleAICacheManager | null = null;
-
-function getGenAI(): GoogleGenerativeAI {
-  if (!genAI) {
-    if (!process.env.GEMINI_API_KEY) {
-      logger.error("GEMINI_API_KEY environment variable is not set");
-      throw new Error("GEMINI_API_KEY environment variable is not set");
-    }
-    genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-  }
-  return genAI;
-}
-
-function getCacheManager(): GoogleAICacheManager {
-  if (!cacheManager) {
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY is required for cache management");
-    }
-    cacheManager = new GoogleAICacheManager(process.env.GEMINI_API_KEY);
-  }
-  return cacheManager;
+/**
+ * Smart thinking budget for the Pro tier (Flash runs without thinking config)
+ */
+function selectThinkingBudget(
+  thinkingMode: ThinkingMode,
+  prompt: string,
+  hasVideo: boolean,
+  historyLength: number,
+  queryComplexity: "simple" | "complex"
+): number {
+  if (thinkingMode === "deep") return 8192;
+  if (hasVideo) return 1024;
+  if (queryComplexity === "simple") return 64;
+  if (estimateTextTokens(prompt) > 50 || historyLength > 5) return 256;
+  return 64;
 }
 
 /**
@@ -126,6 +98,11 @@ function isEligibleForCaching(videoSizeBytes: number): boolean {
   return estimatedTokens >= MIN_TOKENS_FOR_CACHING;
 }
 
+function isConfigError(error: unknown): boolean {
+  const message = (error as { message?: string })?.message;
+  return !!message && CONFIG_ERROR_PATTERNS.some(pattern => message.includes(pattern));
+}
+
 export interface ConversationHistory {
   role: "user" | "model";
   parts: Array<{ text: string }>;
@@ -139,351 +116,172 @@ export interface LLMResponse {
   modelReason: string; // Why that model was selected
 }
 
-export async function queryLLM(
-  prompt: string,
-  videoData?: { data: Buffer; mimeType: string } | null,
-  conversationHistory?: ConversationHistory[],
-  thinkingMode: ThinkingMode = "fast",
-  mediaResolution: MediaResolution = "medium",
-  domainExpertise: DomainExpertise = "all-sports",
-  promptType: PromptType = "video",
-  queryComplexity: "simple" | "complex" = "complex",
-  existingCacheName?: string,
-  insightLevel: InsightLevel = "developing",
-  userContext?: UserContext
-): Promise<LLMResponse> {
-  const requestId = `req_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+interface ChatRequestOptions {
+  requestId: string;
+  label: string;
+  prompt: string;
+  videoData?: { data: Buffer; mimeType: string } | null;
+  conversationHistory?: ConversationHistory[];
+  thinkingMode: ThinkingMode;
+  mediaResolution: MediaResolution;
+  domainExpertise: DomainExpertise;
+  promptType: PromptType;
+  queryComplexity: "simple" | "complex";
+  existingCacheName?: string;
+  insightLevel: InsightLevel;
+  userContext?: UserContext;
+}
 
-  // Check if video is present
+/**
+ * Build the provider request for a coaching chat turn, logging the routing decision
+ */
+function buildChatRequest(options: ChatRequestOptions): { request: LLMRequest; modelReason: string } {
+  const { requestId, prompt, videoData, conversationHistory = [] } = options;
   const hasVideo = !!videoData;
 
   // Get system prompt with domain-specific, insight level, AND user context enhancement
-  const systemPrompt = promptType === "frame"
-    ? getFramePromptWithDomainAndInsight(domainExpertise, insightLevel, userContext)
-    : getSystemPromptWithDomainAndInsight(domainExpertise, insightLevel, userContext, hasVideo);
+  const systemPrompt = options.promptType === "frame"
+    ? getFramePromptWithDomainAndInsight(options.domainExpertise, options.insightLevel, options.userContext)
+    : getSystemPromptWithDomainAndInsight(options.domainExpertise, options.insightLevel, options.userContext, hasVideo);
 
   // Select model based on query characteristics
-  const hasHistory = !!(conversationHistory && conversationHistory.length > 0);
-  const { modelName: selectedModel, reason: modelReason } = selectModel(hasVideo, hasHistory, prompt);
+  const { tier, reason: modelReason } = selectModel(hasVideo, conversationHistory.length > 0, prompt);
 
-  logger.info(`[${requestId}] Starting LLM query`);
-  logger.debug(`[${requestId}] Model: ${selectedModel} (${modelReason})`);
-  logger.debug(`[${requestId}] Insight level: ${insightLevel}`);
-  logger.debug(`[${requestId}] Domain: ${domainExpertise}`);
-  logger.debug(`[${requestId}] User: ${userContext?.firstName || "anonymous"}`);
+  logger.debug(`[${requestId}] Model: ${getLLMProvider().resolveModel(tier)} (${modelReason})`);
+  logger.debug(`[${requestId}] Insight level: ${options.insightLevel}`);
+  logger.debug(`[${requestId}] Domain: ${options.domainExpertise}`);
+  logger.debug(`[${requestId}] User: ${options.userContext?.firstName || "anonymous"}`);
   logger.debug(`[${requestId}] User prompt length: ${prompt.length} characters`);
   logger.debug(`[${requestId}] System prompt length: ${systemPrompt.length} characters`);
-  logger.debug(`[${requestId}] Conversation history: ${conversationHistory?.length || 0} messages`);
-
-  // Estimate input tokens (system instruction + user prompt + history)
-  // Note: systemInstruction is sent separately but still counts toward input
-  let estimatedInputTokens = estimateTextTokens(systemPrompt) + estimateTextTokens(prompt);
-
-  // Add tokens from conversation history
-  if (conversationHistory && conversationHistory.length > 0) {
-    const historyTokens = conversationHistory.reduce(
-      (sum, msg) => sum + estimateTextTokens(msg.parts.map(p => p.text).join("")),
-      0
-    );
-    estimatedInputTokens += historyTokens;
-    logger.debug(`[${requestId}] History tokens: ${historyTokens.toLocaleString()}`);
-  }
+  logger.debug(`[${requestId}] Conversation history: ${conversationHistory.length} messages`);
 
   if (videoData) {
-    const isImage = videoData.mimeType.startsWith("image/");
-    const mediaType = isImage ? "image" : "video";
+    const mediaType = videoData.mimeType.startsWith("image/") ? "image" : "video";
     const mediaSizeMB = (videoData.data.length / (1024 * 1024)).toFixed(2);
-
-    // Images use different token estimation than videos
-    // For images: roughly 257 tokens per image (base) + size-based estimation
-    // For videos: use existing video token estimation
-    let mediaTokens: number;
-    if (isImage) {
-      // Gemini images: base 257 tokens + ~85 tokens per 100KB
-      const imageSizeKB = videoData.data.length / 1024;
-      mediaTokens = 257 + Math.ceil((imageSizeKB / 100) * 85);
-    } else {
-      mediaTokens = estimateVideoTokens(videoData.data.length, videoData.mimeType);
-    }
-
-    estimatedInputTokens += mediaTokens;
     logger.info(`[${requestId}] ${mediaType} attached: ${videoData.mimeType}, ${mediaSizeMB} MB`);
-    logger.debug(`[${requestId}] Estimated ${mediaType} tokens: ${mediaTokens.toLocaleString()}`);
   } else {
     logger.debug(`[${requestId}] No media attached`);
   }
-  logger.debug(`[${requestId}] Estimated input tokens: ${estimatedInputTokens.toLocaleString()}`);
-
-  logger.time(`[${requestId}] API call duration`);
-
-  try {
-    // Build generation config
-    const generationConfig: any = {};
-    const isFlashModel = selectedModel.includes("flash");
-
-    // Thinking config only applies to Pro/thinking models, not Flash
-    let thinkingBudget: number | undefined;
-
-    if (!isFlashModel) {
-      // Smart thinking budget for Pro model
-      if (thinkingMode === "deep") {
-        thinkingBudget = 8192;
-      } else {
-        const promptTokens = estimateTextTokens(prompt);
-        const hasLongHistory = conversationHistory && conversationHistory.length > 5;
-
-        if (hasVideo) {
-          thinkingBudget = 1024;
-        } else if (queryComplexity === "simple") {
-          thinkingBudget = 64;
-        } else if (promptTokens > 50 || hasLongHistory) {
-          thinkingBudget = 256;
-        } else {
-          thinkingBudget = 64;
-        }
-      }
 
-      generationConfig.thinkingConfig = { thinkingBudget };
-      logger.debug(`[${requestId}] Pro model - thinking budget: ${thinkingBudget} tokens`);
-    } else {
-      logger.debug(`[${requestId}] Flash model - no thinking config`);
-    }
-
-    // Media resolution only for Pro model with video
-    if (hasVideo && !isFlashModel) {
-      const mediaResolutionMap: Record<MediaResolution, string> = {
-        low: "MEDIA_RESOLUTION_LOW",
-        medium: "MEDIA_RESOLUTION_MEDIUM",
-        high: "MEDIA_RESOLUTION_HIGH",
-      };
-      generationConfig.media_resolution = mediaResolutionMap[mediaResolution];
-    }
+  const request: LLMRequest = {
+    requestId,
+    label: options.label,
+    tier,
+    systemInstruction: systemPrompt,
+    prompt,
+    media: videoData ? [{ data: videoData.data.toString("base64"), mimeType: videoData.mimeType }] : undefined,
+    history: conversationHistory.map(message => ({
+      role: message.role,
+      text: message.parts.map(part => part.text).join(""),
+    })),
+  };
+
+  // Thinking config and media resolution only apply to the Pro tier
+  if (tier === "pro") {
+    request.thinkingBudget = selectThinkingBudget(
+      options.thinkingMode,
+      prompt,
+      hasVideo,
+      conversationHistory.length,
+      options.queryComplexity
+    );
+    logger.debug(`[${requestId}] Pro model - thinking budget: ${request.thinkingBudget} tokens`);
+    if (hasVideo) request.mediaResolution = options.mediaResolution;
+  } else {
+    logger.debug(`[${requestId}] Flash model - no thinking config`);
+  }
 
-    logger.debug(`[${requestId}] Generation config:`, generationConfig);
+  // Reuse an existing context cache, or create one for large videos
+  const shouldCreateCache = !!videoData && isEligibleForCaching(videoData.data.length);
+  if (options.existingCacheName || shouldCreateCache) {
+    request.contextCache = {
+      name: options.existingCacheName,
+      create: shouldCreateCache,
+      ttlSeconds: CACHE_TTL_SECONDS,
+    };
+  }
 
-    // Track caching state
-    let cacheUsed = false;
-    let newCacheName: string | undefined;
-    let model: any;
+  logger.debug(`[${requestId}] Estimated input tokens: ${estimateRequestTokens(request).toLocaleString()}`);
 
-    // Try to use existing cache if provided
-    if (existingCacheName) {
-      try {
-        logger.debug(`[${requestId}] Attempting to use existing cache: ${existingCacheName}`);
-        const cachedContent = await getCacheManager().get(existingCacheName);
-        model = getGenAI().getGenerativeModelFromCachedContent(cachedContent, {
-          generationConfig,
-        });
-        cacheUsed = true;
-        logger.info(`[${requestId}] ✅ Using cached content`);
-      } catch (cacheError) {
-        logger.warn(`[${requestId}] Cache not found or expired, falling back to normal model`, cacheError);
-      }
-    }
+  return { request, modelReason };
+}
 
-    // If no cache used, check if we should create one for large videos
-    if (!cacheUsed && videoData && isEligibleForCaching(videoData.data.length)) {
-      try {
-        logger.debug(`[${requestId}] Video eligible for caching (${(videoData.data.length / 1024 / 1024).toFixed(2)} MB)`);
-        const cache = await getCacheManager().create({
-          model: `models/${MODEL_NAME_PRO}`,
-          displayName: `sportai_${requestId}`,
-          systemInstruction: systemPrompt,
-          contents: [
-            {
-              role: "user",
-              parts: [
-                {
-                  inlineData: {
-                    data: videoData.data.toString("base64"),
-                    mimeType: videoData.mimeType,
-                  },
-                },
-              ],
-            },
-          ],
-          ttlSeconds: CACHE_TTL_SECONDS,
-        });
-
-        newCacheName = cache.name;
-        model = getGenAI().getGenerativeModelFromCachedContent(cache, {
-          generationConfig,
-        });
-        cacheUsed = true;
-        logger.info(`[${requestId}] ✅ Created new cache: ${cache.name}`);
-      } catch (cacheError) {
-        logger.warn(`[${requestId}] Failed to create cache, using normal model`, cacheError);
-      }
-    }
+/**
+ * Retry request for models that reject the generation config:
+ * Pro tier with the minimum thinking budget and no cache
+ */
+function buildFallbackRequest(request: LLMRequest): LLMRequest {
+  return {
+    ...request,
+    tier: "pro",
+    thinkingBudget: 1024, // Minimum required for gemini-3-pro-preview
+    mediaResolution: undefined,
+    contextCache: undefined,
+  };
+}
 
-    // Fall back to normal model if caching wasn't used
-    if (!model) {
-      model = getGenAI().getGenerativeModel({
-        model: selectedModel,
-        generationConfig,
-        systemInstruction: systemPrompt,
-      });
-    }
+export async function queryLLM(
+  prompt: string,
+  videoData?: { data: Buffer; mimeType: string } | null,
+  conversationHistory?: ConversationHistory[],
+  thinkingMode: ThinkingMode = "fast",
+  mediaResolution: MediaResolution = "medium",
+  domainExpertise: DomainExpertise = "all-sports",
+  promptType: PromptType = "video",
+  queryComplexity: "simple" | "complex" = "complex",
+  existingCacheName?: string,
+  insightLevel: InsightLevel = "developing",
+  userContext?: UserContext
+): Promise<LLMResponse> {
+  const requestId = `req_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
 
-    // Build current message parts (user prompt only - system instruction is separate)
-    const parts: any[] = [{ text: prompt }];
-
-    // Add media (video or image) if provided AND not using cached content
-    // Cached content already includes the video
-    if (videoData && !cacheUsed) {
-      const base64Length = videoData.data.toString("base64").length;
-      const mediaType = videoData.mimeType.startsWith("image/") ? "image" : "video";
-      logger.debug(`[${requestId}] ${mediaType} base64 length: ${base64Length} characters`);
-
-      parts.push({
-        inlineData: {
-          data: videoData.data.toString("base64"),
-          mimeType: videoData.mimeType,
-        },
-      });
-    }
+  logger.info(`[${requestId}] Starting LLM query`);
+  const { request, modelReason } = buildChatRequest({
+    requestId,
+    label: "chat",
+    prompt,
+    videoData,
+    conversationHistory,
+    thinkingMode,
+    mediaResolution,
+    domainExpertise,
+    promptType,
+    queryComplexity,
+    existingCacheName,
+    insightLevel,
+    userContext,
+  });
 
-    // For conversation history, use startChat() if history exists, otherwise use generateContent()
-    let result: any;
-
-    if (conversationHistory && conversationHistory.length > 0) {
-      // Use startChat() for multi-turn conversations
-      logger.debug(`[${requestId}] Using chat mode with ${conversationHistory.length} history messages`);
-      const chat = model.startChat({
-        history: conversationHistory,
-      });
-      result = await withTimeout(
-        chat.sendMessage(parts),
-        LLM_TIMEOUT_MS,
-        "LLM chat response"
-      );
-    } else {
-      // Use generateContent() for single-turn queries
-      logger.debug(`[${requestId}] Using single-turn mode`);
-      result = await withTimeout(
-        model.generateContent(parts),
-        LLM_TIMEOUT_MS,
-        "LLM content generation"
-      );
-    }
+  logger.time(`[${requestId}] API call duration`);
 
-    logger.debug(`[${requestId}] Sending request to LLM API...`);
-    const response = result.response;
-    const responseText = response.text();
+  try {
+    const result = await generateText(request);
 
     logger.timeEnd(`[${requestId}] API call duration`);
-    logger.info(`[${requestId}] Response received: ${responseText.length} characters`);
-
-    // Estimate output tokens
-    const estimatedOutputTokens = estimateTextTokens(responseText);
-    logger.debug(`[${requestId}] Estimated output tokens: ${estimatedOutputTokens.toLocaleString()}`);
-
-    // Get actual token counts if available
-    let actualInputTokens: number | null = null;
-    let actualOutputTokens: number | null = null;
-
-    if (response.candidates && response.candidates.length > 0) {
-      const candidate = response.candidates[0];
-      logger.debug(`[${requestId}] Finish reason: ${candidate.finishReason || "unknown"}`);
-
-      // Log token count if available (may not be present in all SDK versions)
-      if ('tokenCount' in candidate && candidate.tokenCount) {
-        const tokenCount = (candidate as any).tokenCount;
-        logger.debug(`[${requestId}] Actual token count: ${JSON.stringify(tokenCount)}`);
-
-        if (typeof tokenCount === 'object') {
-          actualInputTokens = tokenCount.inputTokens || tokenCount.input || null;
-          actualOutputTokens = tokenCount.outputTokens || tokenCount.output || null;
-        } else if (typeof tokenCount === 'number') {
-          // If it's just a number, assume it's output tokens
-          actualOutputTokens = tokenCount;
-        }
-      }
-    }
-
-    // Use actual tokens if available, otherwise use estimates
-    const inputTokens = actualInputTokens ?? estimatedInputTokens;
-    const outputTokens = actualOutputTokens ?? estimatedOutputTokens;
-
-    // Calculate pricing
-    const pricing = calculatePricing(inputTokens, outputTokens);
-    logger.debug(`[${requestId}] Token usage:`);
-    logger.debug(`[${requestId}]   Input: ${inputTokens.toLocaleString()} tokens (${actualInputTokens ? 'actual' : 'estimated'})`);
-    logger.debug(`[${requestId}]   Output: ${outputTokens.toLocaleString()} tokens (${actualOutputTokens ? 'actual' : 'estimated'})`);
-    logger.debug(`[${requestId}]   Total: ${(inputTokens + outputTokens).toLocaleString()} tokens`);
-    logger.debug(`[${requestId}] Pricing:`);
-    logger.debug(`[${requestId}]   Input: ${formatCost(pricing.inputCost)} ($${pricing.inputPricePerM}/1M tokens)`);
-    logger.debug(`[${requestId}]   Output: ${formatCost(pricing.outputCost)} ($${pricing.outputPricePerM}/1M tokens)`);
-    logger.debug(`[${requestId}]   Total: ${formatCost(pricing.totalCost)}`);
+    logger.info(`[${requestId}] Response received: ${result.text.length} characters`);
+    logger.debug(`[${requestId}] Finish reason: ${result.finishReason || "unknown"}`);
 
     return {
-      text: responseText,
-      cacheName: newCacheName,
-      cacheUsed,
-      modelUsed: selectedModel,
+      text: result.text,
+      cacheName: result.cacheName,
+      cacheUsed: result.cacheUsed,
+      modelUsed: result.model,
       modelReason,
     };
   } catch (error: any) {
     logger.timeEnd(`[${requestId}] API call duration`);
 
-    // If generationConfig fails, try without it (for backwards compatibility)
-    // Also catch "Budget 0 is invalid" errors which indicate thinking mode is required
-    if (error?.message?.includes("generationConfig") ||
-        error?.message?.includes("thinkingConfig") ||
-        error?.message?.includes("thinkingBudget") ||
-        error?.message?.includes("mediaResolution") ||
-        error?.message?.includes("thinkingMode") ||
-        error?.message?.includes("Budget 0 is invalid") ||
-        error?.message?.includes("only works in thinking mode")) {
+    // If generationConfig fails, retry with minimal thinking config (model requires thinking mode)
+    if (isConfigError(error)) {
       logger.debug(`[${requestId}] Generation config parameters not supported, falling back to default settings`);
       try {
-        // Retry with minimal thinking config (model requires thinking mode)
-        const fallbackModel = getGenAI().getGenerativeModel({
-          model: MODEL_NAME_PRO,
-          generationConfig: {
-            thinkingConfig: {
-              thinkingBudget: 1024, // Minimum required for gemini-3-pro-preview
-            },
-          } as any,
-          systemInstruction: systemPrompt,
-        });
-
-        // Rebuild parts (user prompt only)
-        const parts: any[] = [{ text: prompt }];
-        if (videoData) {
-          parts.push({
-            inlineData: {
-              data: videoData.data.toString("base64"),
-              mimeType: videoData.mimeType,
-            },
-          });
-        }
-
-        let result: any;
-        if (conversationHistory && conversationHistory.length > 0) {
-          const chat = fallbackModel.startChat({ history: conversationHistory });
-          result = await withTimeout(
-            chat.sendMessage(parts),
-            LLM_TIMEOUT_MS,
-            "LLM fallback chat response"
-          );
-        } else {
-          result = await withTimeout(
-            fallbackModel.generateContent(parts),
-            LLM_TIMEOUT_MS,
-            "LLM fallback content generation"
-          );
-        }
-
-        const response = result.response;
-        const responseText = response.text();
-
-        logger.info(`[${requestId}] Response received (fallback): ${responseText.length} characters`);
+        const result = await generateText(buildFallbackRequest(request));
+        logger.info(`[${requestId}] Response received (fallback): ${result.text.length} characters`);
         return {
-          text: responseText,
+          text: result.text,
           cacheName: undefined,
           cacheUsed: false,
-          modelUsed: MODEL_NAME_PRO,
+          modelUsed: result.model,
           modelReason: "fallback",
         };
       } catch (fallbackError: any) {
@@ -497,14 +295,12 @@ export async function queryLLM(
       message: error?.message,
       status: error?.status,
       statusText: error?.statusText,
-      errorDetails: error?.errorDetails,
       stack: error?.stack,
     });
 
     // Convert to user-friendly error message (hides technical details)
-    const status = error?.status || error?.response?.status;
     throw createUserFriendlyError(error, {
-      status,
+      status: error?.status,
       statusText: error?.statusText,
       hasVideo: !!videoData,
       requestId,
@@ -539,277 +335,57 @@ export async function streamLLM(
 ): Promise<StreamLLMResult> {
   const requestId = `stream_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
 
-  // Check if video is present
-  const hasVideo = !!videoData;
-
-  // Get system prompt with domain-specific, insight level, AND user context enhancement
-  const systemPrompt = promptType === "frame"
-    ? getFramePromptWithDomainAndInsight(domainExpertise, insightLevel, userContext)
-    : getSystemPromptWithDomainAndInsight(domainExpertise, insightLevel, userContext, hasVideo);
-
-  // Select model based on query characteristics
-  const hasHistory = !!(conversationHistory && conversationHistory.length > 0);
-  const { modelName: selectedModel, reason: modelReason } = selectModel(hasVideo, hasHistory, prompt);
-
   logger.info(`[${requestId}] Starting LLM stream`);
-  logger.debug(`[${requestId}] Model: ${selectedModel} (${modelReason})`);
-  logger.debug(`[${requestId}] Insight level: ${insightLevel}`);
-  logger.debug(`[${requestId}] Domain: ${domainExpertise}`);
-  logger.debug(`[${requestId}] User: ${userContext?.firstName || "anonymous"}`);
-  logger.debug(`[${requestId}] User prompt length: ${prompt.length} characters`);
-  logger.debug(`[${requestId}] System prompt length: ${systemPrompt.length} characters`);
-  logger.debug(`[${requestId}] Conversation history: ${conversationHistory?.length || 0} messages`);
   logger.debug(`[${requestId}] Thinking mode: ${thinkingMode}`);
   logger.debug(`[${requestId}] Media resolution: ${mediaResolution}`);
+  const { request, modelReason } = buildChatRequest({
+    requestId,
+    label: "chat",
+    prompt,
+    videoData,
+    conversationHistory,
+    thinkingMode,
+    mediaResolution,
+    domainExpertise,
+    promptType,
+    queryComplexity,
+    existingCacheName,
+    insightLevel,
+    userContext,
+  });
 
-  if (videoData) {
-    const isImage = videoData.mimeType.startsWith("image/");
-    const mediaType = isImage ? "image" : "video";
-    const mediaSizeMB = (videoData.data.length / (1024 * 1024)).toFixed(2);
-    logger.info(`[${requestId}] ${mediaType} attached: ${videoData.mimeType}, ${mediaSizeMB} MB`);
+  // Log completion once the caller has consumed the stream
+  async function* logCompletion(
+    source: AsyncGenerator<string, void, unknown>,
+    suffix: string
+  ): AsyncGenerator<string, void, unknown> {
+    let length = 0;
+    for await (const chunk of source) {
+      length += chunk.length;
+      yield chunk;
+    }
+    logger.info(`[${requestId}] Stream completed${suffix}: ${length} characters`);
   }
 
   try {
-    // Build generation config
-    const generationConfig: any = {};
-    const isFlashModel = selectedModel.includes("flash");
-
-    // Thinking config only applies to Pro/thinking models, not Flash
-    let thinkingBudget: number | undefined;
-
-    if (!isFlashModel) {
-      // Smart thinking budget for Pro model
-      if (thinkingMode === "deep") {
-        thinkingBudget = 8192;
-      } else {
-        const promptTokens = estimateTextTokens(prompt);
-        const hasLongHistory = conversationHistory && conversationHistory.length > 5;
-
-        if (hasVideo) {
-          thinkingBudget = 1024;
-        } else if (queryComplexity === "simple") {
-          thinkingBudget = 64;
-        } else if (promptTokens > 50 || hasLongHistory) {
-          thinkingBudget = 256;
-        } else {
-          thinkingBudget = 64;
-        }
-      }
-
-      generationConfig.thinkingConfig = { thinkingBudget };
-      logger.debug(`[${requestId}] Pro model - thinking budget: ${thinkingBudget} tokens`);
-    } else {
-      logger.debug(`[${requestId}] Flash model - no thinking config`);
-    }
-
-    // Media resolution only for Pro model with video
-    if (hasVideo && !isFlashModel) {
-      const mediaResolutionMap: Record<MediaResolution, string> = {
-        low: "MEDIA_RESOLUTION_LOW",
-        medium: "MEDIA_RESOLUTION_MEDIUM",
-        high: "MEDIA_RESOLUTION_HIGH",
-      };
-      generationConfig.media_resolution = mediaResolutionMap[mediaResolution];
-    }
-
-    logger.debug(`[${requestId}] Generation config:`, generationConfig);
-
-    // Track caching state
-    let cacheUsed = false;
-    let newCacheName: string | undefined;
-    let model: any;
-
-    // Try to use existing cache if provided
-    if (existingCacheName) {
-      try {
-        logger.debug(`[${requestId}] Attempting to use existing cache: ${existingCacheName}`);
-        const cachedContent = await getCacheManager().get(existingCacheName);
-        model = getGenAI().getGenerativeModelFromCachedContent(cachedContent, {
-          generationConfig,
-        });
-        cacheUsed = true;
-        logger.info(`[${requestId}] ✅ Using cached content for streaming`);
-      } catch (cacheError) {
-        logger.warn(`[${requestId}] Cache not found or expired, falling back to normal model`, cacheError);
-      }
-    }
-
-    // If no cache used, check if we should create one for large videos
-    if (!cacheUsed && videoData && isEligibleForCaching(videoData.data.length)) {
-      try {
-        logger.debug(`[${requestId}] Video eligible for caching (${(videoData.data.length / 1024 / 1024).toFixed(2)} MB)`);
-        const cache = await getCacheManager().create({
-          model: `models/${MODEL_NAME_PRO}`,
-          displayName: `sportai_${requestId}`,
-          systemInstruction: systemPrompt,
-          contents: [
-            {
-              role: "user",
-              parts: [
-                {
-                  inlineData: {
-                    data: videoData.data.toString("base64"),
-                    mimeType: videoData.mimeType,
-                  },
-                },
-              ],
-            },
-          ],
-          ttlSeconds: CACHE_TTL_SECONDS,
-        });
-
-        newCacheName = cache.name;
-        model = getGenAI().getGenerativeModelFromCachedContent(cache, {
-          generationConfig,
-        });
-        cacheUsed = true;
-        logger.info(`[${requestId}] ✅ Created new cache for streaming: ${cache.name}`);
-      } catch (cacheError) {
-        logger.warn(`[${requestId}] Failed to create cache, using normal model`, cacheError);
-      }
-    }
-
-    // Fall back to normal model if caching wasn't used
-    if (!model) {
-      model = getGenAI().getGenerativeModel({
-        model: selectedModel,
-        generationConfig,
-        systemInstruction: systemPrompt,
-      });
-    }
-
-    // Build current message parts (user prompt only - system instruction is separate)
-    const parts: any[] = [{ text: prompt }];
-
-    // Add media (video or image) if provided AND not using cached content
-    // Cached content already includes the video
-    if (videoData && !cacheUsed) {
-      const base64Length = videoData.data.toString("base64").length;
-      const mediaType = videoData.mimeType.startsWith("image/") ? "image" : "video";
-      logger.debug(`[${requestId}] ${mediaType} base64 length: ${base64Length} characters`);
-
-      parts.push({
-        inlineData: {
-          data: videoData.data.toString("base64"),
-          mimeType: videoData.mimeType,
-        },
-      });
-    }
-
-    // For conversation history, use startChat() if history exists, otherwise use generateContentStream()
-    let result: any;
-
-    if (conversationHistory && conversationHistory.length > 0) {
-      // Use startChat() for multi-turn conversations
-      logger.debug(`[${requestId}] Using chat mode with ${conversationHistory.length} history messages`);
-      const chat = model.startChat({
-        history: conversationHistory,
-      });
-      result = await withTimeout(
-        chat.sendMessageStream(parts),
-        LLM_TIMEOUT_MS,
-        "LLM streaming chat response"
-      );
-    } else {
-      // Use generateContentStream() for single-turn queries
-      logger.debug(`[${requestId}] Using single-turn streaming mode`);
-      result = await withTimeout(
-        model.generateContentStream(parts),
-        LLM_TIMEOUT_MS,
-        "LLM streaming content generation"
-      );
-    }
-
-    logger.debug(`[${requestId}] Streaming request to LLM API...`);
-
-    // Create the text generator as an inner async generator
-    async function* createTextGenerator(): AsyncGenerator<string, void, unknown> {
-      let fullText = "";
-      for await (const chunk of result.stream) {
-        const chunkText = chunk.text();
-        if (chunkText) {
-          fullText += chunkText;
-          yield chunkText;
-        }
-      }
-      logger.info(`[${requestId}] Stream completed: ${fullText.length} characters`);
-    }
-
+    const result = await streamText(request);
     return {
-      textGenerator: createTextGenerator(),
-      cacheName: newCacheName,
-      cacheUsed,
-      modelUsed: selectedModel,
+      textGenerator: logCompletion(result.textStream, ""),
+      cacheName: result.cacheName,
+      cacheUsed: result.cacheUsed,
+      modelUsed: result.model,
       modelReason,
     };
   } catch (error: any) {
-    // If generationConfig fails, try without it (for backwards compatibility)
-    // Also catch "Budget 0 is invalid" errors which indicate thinking mode is required
-    if (error?.message?.includes("generationConfig") ||
-        error?.message?.includes("thinkingConfig") ||
-        error?.message?.includes("thinkingBudget") ||
-        error?.message?.includes("mediaResolution") ||
-        error?.message?.includes("thinkingMode") ||
-        error?.message?.includes("thinking_level") ||
-        error?.message?.includes("media_resolution") ||
-        error?.message?.includes("Budget 0 is invalid") ||
-        error?.message?.includes("only works in thinking mode")) {
+    // If generationConfig fails, retry with minimal thinking config (model requires thinking mode)
+    if (isConfigError(error)) {
       logger.debug(`[${requestId}] Generation config parameters not supported, falling back to default settings`);
-      // Retry with minimal thinking config (model requires thinking mode)
-      const fallbackModel = getGenAI().getGenerativeModel({
-        model: MODEL_NAME_PRO,
-        generationConfig: {
-          thinkingConfig: {
-            thinkingBudget: 1024, // Minimum required for gemini-3-pro-preview
-          },
-        } as any,
-        systemInstruction: systemPrompt,
-      });
-
-      // Rebuild parts (user prompt only)
-      const fallbackParts: any[] = [{ text: prompt }];
-      if (videoData) {
-        fallbackParts.push({
-          inlineData: {
-            data: videoData.data.toString("base64"),
-            mimeType: videoData.mimeType,
-          },
-        });
-      }
-
-      let fallbackResult: any;
-      if (conversationHistory && conversationHistory.length > 0) {
-        const chat = fallbackModel.startChat({ history: conversationHistory });
-        fallbackResult = await withTimeout(
-          chat.sendMessageStream(fallbackParts),
-          LLM_TIMEOUT_MS,
-          "LLM streaming fallback chat response"
-        );
-      } else {
-        fallbackResult = await withTimeout(
-          fallbackModel.generateContentStream(fallbackParts),
-          LLM_TIMEOUT_MS,
-          "LLM streaming fallback content generation"
-        );
-      }
-
-      async function* fallbackGenerator(): AsyncGenerator<string, void, unknown> {
-        let fullText = "";
-        for await (const chunk of fallbackResult.stream) {
-          const chunkText = chunk.text();
-          if (chunkText) {
-            fullText += chunkText;
-            yield chunkText;
-          }
-        }
-        logger.info(`[${requestId}] Stream completed (fallback): ${fullText.length} characters`);
-      }
-
+      const result = await streamText(buildFallbackRequest(request));
       return {
-        textGenerator: fallbackGenerator(),
+        textGenerator: logCompletion(result.textStream, " (fallback)"),
         cacheName: undefined,
         cacheUsed: false,
-        modelUsed: MODEL_NAME_PRO,
+        modelUsed: result.model,
         modelReason: "fallback",
       };
     }
@@ -819,7 +395,6 @@ export async function streamLLM(
       message: error?.message,
       status: error?.status,
       statusText: error?.statusText,
-      errorDetails: error?.errorDetails,
     });
 
     // Convert to user-friendly error message (hides technical details)
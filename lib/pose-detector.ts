@@ -0,0 +1,164 @@
+/**
+ * Pose Detector Setup
+ * TF.js backend selection and pose-detection configuration shared by the
+ * main-thread detector (usePoseDetection) and the preprocessing worker,
+ * so both produce the same poses.
+ */
+
+import * as poseDetection from "@tensorflow-models/pose-detection";
+import "@tensorflow/tfjs-backend-webgl";
+import "@tensorflow/tfjs-backend-webgpu";
+import * as tf from "@tensorflow/tfjs";
+import { detectionLogger } from "@/lib/logger";
+import type {
+  BlazePoseModelType,
+  Keypoint3D,
+  MoveNetModelType,
+  PoseDetectionConfig,
+  PoseDetectionResult,
+} from "@/hooks/usePoseDetection";
+
+// Detect if running on a mobile device
+// Mobile devices use WebGL for stability; desktop uses WebGPU for performance
+export function isMobileDevice(): boolean {
+  if (typeof navigator === "undefined") return false;
+  return /iPhone|iPad|iPod|Android|webOS|BlackBerry|IEMobile|Opera Mini/i.test(
+    navigator.userAgent
+  );
+}
+
+// Check if WebGPU is available in this browser
+export function hasWebGPUSupport(): boolean {
+  if (typeof navigator === "undefined") return false;
+  return "gpu" in navigator;
+}
+
+// Initialize the optimal TensorFlow backend
+// Desktop: WebGPU (faster) with WebGL fallback
+// Mobile: WebGL (more stable)
+export async function initializeTensorFlowBackend(): Promise<string> {
+  const mobile = isMobileDevice();
+  const webgpuAvailable = hasWebGPUSupport();
+  
+  detectionLogger.debug("Backend selection:", {
+    isMobile: mobile,
+    hasWebGPU: webgpuAvailable,
+  });
+
+  // Mobile devices: prefer WebGL for stability
+  if (mobile) {
+    await tf.setBackend("webgl");
+    await tf.ready();
+    return tf.getBackend() || "webgl";
+  }
+
+  // Desktop: try WebGPU first for better performance
+  if (webgpuAvailable) {
+    try {
+      await tf.setBackend("webgpu");
+      await tf.ready();
+      const backend = tf.getBackend();
+      if (backend === "webgpu") {
+        detectionLogger.info("✨ Using WebGPU backend (faster performance)");
+        return backend;
+      }
+    } catch (err) {
+      detectionLogger.warn("WebGPU initialization failed, falling back to WebGL:", err);
+    }
+  }
+
+  // Fallback to WebGL
+  await tf.setBackend("webgl");
+  await tf.ready();
+  detectionLogger.info("Using WebGL backend");
+  return tf.getBackend() || "webgl";
+}
+
+export type PoseDetectorOptions = Required<
+  Pick<PoseDetectionConfig, "model" | "modelType" | "enableSmoothing" | "minPoseScore" | "minPartScore" | "maxPoses">
+> & Pick<PoseDetectionConfig, "inputResolution">;
+
+type MoveNetDetectorConfig = poseDetection.MoveNetModelConfig & {
+  minPartScore?: number;
+  maxPoses?: number;
+  modelConfig?: { inputResolution: { width: number; height: number } };
+};
+
+export interface PoseDetectorSetup {
+  supportedModel: poseDetection.SupportedModels;
+  detectorConfig: MoveNetDetectorConfig | poseDetection.BlazePoseTfjsModelConfig;
+  /** Prefix of the model's entry in the TF.js model cache */
+  modelKey: string;
+  /** Identifies detectors created from the same options */
+  configKey: string;
+}
+
+export function getPoseDetectorSetup(options: PoseDetectorOptions): PoseDetectorSetup {
+  const { model, modelType, enableSmoothing, minPoseScore, minPartScore, inputResolution, maxPoses } = options;
+
+  const configKey = JSON.stringify({
+    model,
+    modelType: model === "BlazePose" ? (modelType || "full") : (modelType || "SinglePose.Lightning"),
+    minPoseScore,
+    minPartScore,
+    inputResolution,
+    maxPoses,
+    enableSmoothing, // Part of detector creation for BlazePose
+  });
+
+  if (model === "BlazePose") {
+    const blazeModelType = (modelType as BlazePoseModelType) || "full";
+
+    // Use tfjs runtime (MediaPipe requires additional setup and may not work in Next.js)
+    // BlazePose tfjs DOES provide keypoints3D!
+    return {
+      supportedModel: poseDetection.SupportedModels.BlazePose,
+      detectorConfig: {
+        runtime: "tfjs",
+        modelType: blazeModelType,
+        enableSmoothing,
+      },
+      modelKey: `blazepose-${blazeModelType}`,
+      configKey,
+    };
+  }
+
+  const movenetModelType = (modelType as MoveNetModelType) || "SinglePose.Lightning";
+  const detectorConfig: MoveNetDetectorConfig = {
+    modelType: movenetModelType,
+    enableSmoothing,
+    minPoseScore,
+    minPartScore,
+  };
+
+  // Add maxPoses for MultiPose model
+  if (movenetModelType === "MultiPose.Lightning") {
+    detectorConfig.maxPoses = maxPoses;
+    detectorConfig.enableTracking = true;
+  }
+
+  // Add input resolution if specified
+  if (inputResolution) {
+    detectorConfig.modelConfig = { inputResolution };
+  }
+
+  return {
+    supportedModel: poseDetection.SupportedModels.MoveNet,
+    detectorConfig,
+    modelKey: `movenet-${movenetModelType.toLowerCase().replace(/\./g, "-")}`,
+    configKey,
+  };
+}
+
+export function toPoseDetectionResult(pose: poseDetection.Pose): PoseDetectionResult {
+  // BlazePose may provide keypoints3D in the pose object (only with MediaPipe runtime)
+  const { keypoints3d } = pose as poseDetection.Pose & { keypoints3d?: Keypoint3D[] };
+
+  return {
+    keypoints: pose.keypoints,
+    score: pose.score,
+    keypoints3D: (pose.keypoints3D as Keypoint3D[] | undefined) || keypoints3d || undefined,
+    id: pose.id, // Pass through tracking ID if available
+    box: pose.box, // Pass through bounding box if available
+  };
+}
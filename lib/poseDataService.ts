@@ -13,6 +13,7 @@
  */
 
 import type { PoseDetectionResult } from "@/hooks/usePoseDetection";
+import { POSE_DATA_V2_CONTENT_TYPE, isPoseDataV2, readPoseDataV2 } from "@/utils/pose-storage";
 
 // Custom event type for user-created markers
 export interface StoredCustomEvent {
@@ -112,6 +113,9 @@ export interface StoredPoseData {
   // User adjustments to swing boundaries (start/end times)
   swingBoundaryAdjustments?: StoredSwingBoundaryAdjustment[];
   
+  // Tracking ID of the player analysis is locked onto (see utils/pose-tracking.ts)
+  targetTrackId?: number;
+  
   // User preferences for data analysis view
   userPreferences?: {
     /** Confidence threshold for highlighting low-confidence frames (0-1) */
@@ -243,7 +247,27 @@ export async function savePoseData(
 }
 
 /**
- * Load pose data from S3 via API or from a direct URL
+ * Read a pose data response in either storage format.
+ * v2 binary data (see utils/pose-storage.ts) carries the document fields in its
+ * header and the poses in its payload; v1 is the plain JSON document.
+ */
+async function readPoseDataResponse(response: Response): Promise<StoredPoseData> {
+  const bytes = new Uint8Array(await response.arrayBuffer());
+
+  if (!isPoseDataV2(bytes)) {
+    return JSON.parse(new TextDecoder().decode(bytes)) as StoredPoseData;
+  }
+
+  const { header, poses } = await readPoseDataV2(bytes);
+  return {
+    ...(header.metadata as Omit<StoredPoseData, "poses">),
+    poses: Object.fromEntries(poses),
+  };
+}
+
+/**
+ * Load pose data from S3 via API or from a direct URL.
+ * Both the v1 JSON and v2 binary formats are read transparently.
  * @param videoS3Key - The S3 key of the video (unique identifier)
  * @param directUrl - Optional direct URL to fetch pose data from (for public buckets)
  */
@@ -261,7 +285,7 @@ export async function loadPoseData(videoS3Key: string, directUrl?: string): Prom
         return { success: false, error: `Failed to fetch pose data: ${response.statusText}` };
       }
       
-      const data: StoredPoseData = await response.json();
+      const data = await readPoseDataResponse(response);
       return { success: true, data };
     }
     
@@ -277,7 +301,13 @@ export async function loadPoseData(videoS3Key: string, directUrl?: string): Prom
       return { success: false, error };
     }
 
-    const data: StoredPoseData = await response.json();
+    const data = await readPoseDataResponse(response);
+
+    // v1 data is upgraded to v2 in the background for the next load
+    if (response.headers.get("Content-Type") !== POSE_DATA_V2_CONTENT_TYPE) {
+      void requestPoseDataUpgrade(videoS3Key);
+    }
+
     return { success: true, data };
   } catch (error) {
     return {
@@ -287,6 +317,21 @@ export async function loadPoseData(videoS3Key: string, directUrl?: string): Prom
   }
 }
 
+/**
+ * Upgrade stored v1 pose data to v2 (a no-op when v2 data already exists)
+ * @param videoS3Key - The S3 key of the video (unique identifier)
+ */
+export async function requestPoseDataUpgrade(videoS3Key: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/pose-data?videoS3Key=${encodeURIComponent(videoS3Key)}`, {
+      method: "PATCH",
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Convert stored pose data back to Map format used by the viewer.
  * Handles both old format (with name in each keypoint) and new optimized format
@@ -713,3 +758,48 @@ export function convertToSwingBoundaryAdjustments(
   return map;
 }
 
+/**
+ * Save or clear the player analysis is locked onto.
+ * Track IDs are only meaningful for the stored poses, so pose data must already exist.
+ * @param videoS3Key - The S3 key of the video (unique identifier)
+ * @param targetTrackId - Tracking ID of the player, or null to unlock
+ */
+export async function saveTargetTrack(
+  videoS3Key: string,
+  targetTrackId: number | null
+): Promise<SavePoseDataResponse> {
+  try {
+    const existing = await loadPoseData(videoS3Key);
+
+    if (!existing.success || !existing.data) {
+      return { success: false, error: "No pose data to attach the target player to" };
+    }
+
+    const updatedData = {
+      videoS3Key,
+      ...existing.data,
+      targetTrackId: targetTrackId ?? undefined,
+    };
+
+    const response = await fetch("/api/pose-data", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(updatedData),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      return { success: false, error };
+    }
+
+    const result = await response.json();
+    return { success: true, s3Key: result.s3Key };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -5,16 +5,22 @@
  * These are simplified, focused versions of the main prompts,
  * optimized for fast Flash model responses.
  *
- * Uses the full pickleball knowledge base from database/pickleball/
+ * Uses the per-sport knowledge bases from database/{pickleball,tennis,padel}/
  */
 
 import { pickleballTerminology } from "../database/pickleball/terminology";
 import { pickleballSwings } from "../database/pickleball/swings";
+import { tennisTerminology } from "../database/tennis/terminology";
+import { tennisSwings } from "../database/tennis/swings";
+import { padelTerminology } from "../database/padel/terminology";
+import { padelSwings } from "../database/padel/swings";
+import { sharedSwings } from "../database/shared/swings";
 import {
   formatRacketCatalogForLLM,
   getAllRacketNames,
 } from "../database/pickleball/rackets";
-import type { InsightLevel } from "../types/external-api";
+import type { SwingExplanation } from "../database/types";
+import type { ExternalSport, InsightLevel } from "../types/external-api";
 
 // ============================================================================
 // INSIGHT LEVEL PROMPTS - Controls complexity and depth of AI responses
@@ -72,67 +78,126 @@ const EXTERNAL_INSIGHT_LEVEL_PROMPTS: Record<InsightLevel, string> = {
 **TONE:** Peer-to-peer coaching. Direct, technical, thorough.`,
 };
 
+// ============================================================================
+// SPORT KNOWLEDGE - Terminology and techniques per supported sport
+// ============================================================================
+
+/**
+ * Sports supported by /api/external/{sport}/technique-chat
+ */
+export const EXTERNAL_SPORTS: ExternalSport[] = ["pickleball", "tennis", "padel"];
+
+export function isExternalSport(value: string): value is ExternalSport {
+  return (EXTERNAL_SPORTS as string[]).includes(value);
+}
+
+interface ExternalSportKnowledge {
+  label: string;
+  /** What players hit with ("paddle" for pickleball, "racket" otherwise) */
+  equipment: string;
+  terminology: Record<string, SwingExplanation>[];
+  swings: Record<string, SwingExplanation>[];
+  /** Biomechanics concepts not covered by the database */
+  concepts: Array<{ name: string; description: string }>;
+}
+
+const EXTERNAL_SPORT_KNOWLEDGE: Record<ExternalSport, ExternalSportKnowledge> = {
+  pickleball: {
+    label: "pickleball",
+    equipment: "paddle",
+    terminology: [pickleballTerminology],
+    swings: [pickleballSwings],
+    concepts: [
+      { name: "Kinetic Chain", description: "Energy transfer sequence from legs → hips → shoulders → arm → paddle. Proper sequencing maximizes power and control." },
+      { name: "Ready Position", description: "Athletic stance with paddle up at chest height, knees bent, weight on balls of feet. Enables quick reactions." },
+      { name: "Unit Turn", description: "Rotating shoulders and hips together as a unit during the backswing, loading power for the forward swing." },
+      { name: "Contact Point", description: "Where the paddle meets the ball relative to the body. Optimal contact is typically in front of the body." },
+    ],
+  },
+  tennis: {
+    label: "tennis",
+    equipment: "racket",
+    terminology: [tennisTerminology],
+    swings: [sharedSwings, tennisSwings],
+    concepts: [
+      { name: "Kinetic Chain", description: "Energy transfer sequence from legs → hips → trunk → shoulder → arm → racket. Proper sequencing maximizes racket-head speed." },
+      { name: "Unit Turn", description: "Early shoulder and hip rotation as the ball leaves the opponent's racket, coiling the body before the forward swing." },
+      { name: "Contact Point", description: "Where the strings meet the ball relative to the body. Groundstrokes are ideally struck in front of the front hip." },
+      { name: "Follow-Through", description: "The racket path after contact. A full, relaxed finish indicates the swing wasn't decelerated early." },
+    ],
+  },
+  padel: {
+    label: "padel",
+    equipment: "racket",
+    terminology: [padelTerminology],
+    swings: [sharedSwings, padelSwings],
+    concepts: [
+      { name: "Kinetic Chain", description: "Energy transfer sequence from legs → hips → shoulders → arm → racket. In padel it favours control and placement over raw power." },
+      { name: "Compact Swing", description: "Short backswing with the racket kept in front of the body - essential for volleys and shots off the glass." },
+      { name: "Contact Point", description: "Where the racket meets the ball relative to the body. Contact slightly in front and to the side keeps shots controlled." },
+      { name: "Wall Play", description: "Letting the ball come off the back or side glass and turning with it before striking, instead of rushing the shot." },
+    ],
+  },
+};
+
 /**
- * Format the pickleball knowledge base into a readable prompt section
+ * Format a sport's knowledge base into a readable prompt section
  */
-function formatPickleballKnowledge(): string {
+function formatSportKnowledge(sport: ExternalSport): string {
+  const knowledge = EXTERNAL_SPORT_KNOWLEDGE[sport];
   const lines: string[] = [];
 
+  const addEntries = (sources: Record<string, SwingExplanation>[]) => {
+    for (const source of sources) {
+      for (const [, entry] of Object.entries(source)) {
+        lines.push(`- **${entry.name}**: ${entry.description}`);
+        if (entry.keyPoints && entry.keyPoints.length > 0) {
+          lines.push(`  - Key points: ${entry.keyPoints.slice(0, 2).join("; ")}`);
+        }
+      }
+    }
+  };
+
   // Format terminology (rules & concepts)
   lines.push("### Rules & Concepts");
-  for (const [, term] of Object.entries(pickleballTerminology)) {
-    lines.push(`- **${term.name}**: ${term.description}`);
-    if (term.keyPoints && term.keyPoints.length > 0) {
-      lines.push(`  - Key points: ${term.keyPoints.slice(0, 2).join("; ")}`);
-    }
-  }
+  addEntries(knowledge.terminology);
 
   lines.push("");
 
   // Format swings/techniques
   lines.push("### Techniques & Shots");
-  for (const [, swing] of Object.entries(pickleballSwings)) {
-    lines.push(`- **${swing.name}**: ${swing.description}`);
-    if (swing.keyPoints && swing.keyPoints.length > 0) {
-      lines.push(`  - Key points: ${swing.keyPoints.slice(0, 2).join("; ")}`);
-    }
-  }
+  addEntries(knowledge.swings);
 
   // Add biomechanics concepts not in the database
   lines.push("");
   lines.push("### Biomechanics Concepts");
-  lines.push(
-    "- **Kinetic Chain**: Energy transfer sequence from legs → hips → shoulders → arm → paddle. Proper sequencing maximizes power and control."
-  );
-  lines.push(
-    "- **Ready Position**: Athletic stance with paddle up at chest height, knees bent, weight on balls of feet. Enables quick reactions."
-  );
-  lines.push(
-    "- **Unit Turn**: Rotating shoulders and hips together as a unit during the backswing, loading power for the forward swing."
-  );
-  lines.push(
-    "- **Contact Point**: Where the paddle meets the ball relative to the body. Optimal contact is typically in front of the body."
-  );
+  for (const concept of knowledge.concepts) {
+    lines.push(`- **${concept.name}**: ${concept.description}`);
+  }
 
   return lines.join("\n");
 }
 
 /**
- * Build the system prompt for external pickleball technique chat
+ * Build the system prompt for external technique chat
  *
+ * @param sport - Sport the swing was recorded in
  * @param swingContext - Formatted swing analysis text
  * @param agentName - Custom agent name (e.g., "Shark", "Ted") - defaults to "Coach"
  * @param insightLevel - Complexity level for responses - defaults to "developing"
  */
-export function buildExternalPickleballSystemPrompt(
+export function buildExternalSystemPrompt(
+  sport: ExternalSport,
   swingContext: string,
   agentName = "Coach",
   insightLevel: InsightLevel = "developing"
 ): string {
-  const pickleballKnowledge = formatPickleballKnowledge();
+  const { label } = EXTERNAL_SPORT_KNOWLEDGE[sport];
+  const sportKnowledge = formatSportKnowledge(sport);
+  const sportTitle = label.charAt(0).toUpperCase() + label.slice(1);
   const insightPrompt = EXTERNAL_INSIGHT_LEVEL_PROMPTS[insightLevel] || EXTERNAL_INSIGHT_LEVEL_PROMPTS.developing;
 
-  return `You are ${agentName}, a friendly and knowledgeable pickleball technique coach.
+  return `You are ${agentName}, a friendly and knowledgeable ${label} technique coach.
 
 ## Your Identity
 - Your name is ${agentName}
@@ -145,7 +210,7 @@ export function buildExternalPickleballSystemPrompt(
 - Keep responses concise (2-4 paragraphs max)
 - Use natural, conversational language
 - Acknowledge strengths briefly, then focus on constructive improvement tips
-- Use pickleball terminology naturally when appropriate
+- Use ${label} terminology naturally when appropriate
 
 ## Response Guidelines
 - Start with encouragement or acknowledgment of what they're doing well
@@ -162,8 +227,8 @@ DO NOT mention specific scores, percentages, or numerical ratings to the player.
 - GOOD: "Your stance could use some work" or "Your body movement is looking solid"
 Use scores to understand severity and prioritize advice, but communicate in encouraging, qualitative terms.
 
-## Pickleball Knowledge Base
-${pickleballKnowledge}
+## ${sportTitle} Knowledge Base
+${sportKnowledge}
 
 ## Swing Analysis Data
 The following analysis was performed on the player's swing:
@@ -182,10 +247,13 @@ ${insightPrompt}`;
  * Build a minimal system prompt when swing context is very limited
  */
 export function buildMinimalExternalPrompt(
+  sport: ExternalSport,
   swingType: string,
   agentName = "Coach"
 ): string {
-  return `You are ${agentName}, a friendly pickleball technique coach.
+  const { label } = EXTERNAL_SPORT_KNOWLEDGE[sport];
+
+  return `You are ${agentName}, a friendly ${label} technique coach.
 
 The player is asking about their ${swingType.replace(/_/g, " ")}.
 
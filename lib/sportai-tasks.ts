@@ -0,0 +1,456 @@
+/**
+ * SportAI Task Lifecycle
+ *
+ * Server-side helpers shared by the user-facing /api/tasks routes and the
+ * API-key-authenticated /api/external/tasks routes:
+ * - Submit a video to the SportAI API
+ * - Poll SportAI for status and persist transitions on sportai_tasks
+ * - Fetch a finished result, mirror it to our S3 and return a download URL
+ * - Fire webhooks when a task reaches completed or failed
+ */
+
+import { S3Client, PutObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { logger } from "./logger";
+import { getSportAIApiUrl, getSportAIApiKey, getEnvironmentLabel } from "./sportai-api";
+import { dispatchTaskEvent } from "./webhooks";
+import type { getSupabaseAdmin } from "./supabase-server";
+import type { Database } from "@/types/supabase";
+import type { ExternalTask } from "@/types/external-api";
+
+type SupabaseAdmin = ReturnType<typeof getSupabaseAdmin>;
+export type SportAITaskRow = Database["public"]["Tables"]["sportai_tasks"]["Row"];
+
+// S3 Configuration
+const BUCKET_NAME = process.env.AWS_S3_BUCKET_NAME || "sportai-llm-uploads";
+const BUCKET_REGION = process.env.AWS_REGION || "eu-north-1";
+
+// Task type to SportAI API endpoint mapping
+// Note: "technique" tasks don't use SportAI API - they're processed client-side
+export const SPORTAI_TASK_ENDPOINTS: Record<string, string> = {
+  statistics: "/api/statistics",
+  activity_detection: "/api/activity_detection",
+};
+
+function getS3Client(): S3Client | null {
+  const hasCredentials = !!(process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY);
+  if (!hasCredentials) {
+    return null;
+  }
+
+  return new S3Client({
+    region: BUCKET_REGION,
+    credentials: {
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+    },
+  });
+}
+
+/**
+ * SportAI endpoint suffix for a sport.
+ * Padel is the default sport, so no suffix needed. Other sports need /{sport}.
+ */
+function getSportSuffix(sport: string): string {
+  return sport === "padel" ? "" : `/${sport}`;
+}
+
+// Statuses a task can still leave; terminal updates are conditional on these
+// so each completed/failed transition is persisted (and notified) only once
+const IN_FLIGHT_STATUSES: SportAITaskRow["status"][] = ["pending", "processing"];
+
+/**
+ * Fire the webhook event for a task that just reached a terminal status
+ */
+async function notifyTaskTransition(task: SportAITaskRow, supabase: SupabaseAdmin): Promise<void> {
+  if (task.status !== "completed" && task.status !== "failed") {
+    return;
+  }
+  await dispatchTaskEvent(
+    task.status === "completed" ? "task.completed" : "task.failed",
+    toExternalTask(task),
+    { userId: task.user_id, apiKeyId: task.api_key_id },
+    supabase
+  );
+}
+
+// ============================================================================
+// Submit
+// ============================================================================
+
+export type SubmitTaskOutcome =
+  | { ok: true; sportaiTaskId: string; estimatedComputeTime: number | null }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Register a task with the SportAI API
+ */
+export async function submitSportAITask(
+  taskType: string,
+  sport: string,
+  videoUrl: string,
+  params: Record<string, unknown>,
+  requestId: string
+): Promise<SubmitTaskOutcome> {
+  const endpoint = SPORTAI_TASK_ENDPOINTS[taskType];
+  if (!endpoint) {
+    return { ok: false, status: 400, error: `Unknown task type: ${taskType}` };
+  }
+
+  const SPORTAI_API_URL = getSportAIApiUrl();
+  const SPORTAI_API_KEY = getSportAIApiKey();
+
+  if (!SPORTAI_API_KEY) {
+    logger.error(`[${requestId}] SPORTAI_API_KEY not configured for ${getEnvironmentLabel()}`);
+    return { ok: false, status: 503, error: "SportAI API not configured" };
+  }
+
+  logger.info(`[${requestId}] Using SportAI API: ${SPORTAI_API_URL} (${getEnvironmentLabel()})`);
+
+  // Build request body for SportAI API. Caller params go first so they can't
+  // replace the validated video URL or the fixed options.
+  const sportaiBody: Record<string, unknown> = {
+    ...params,
+    video_url: videoUrl,
+    version: params.version || "latest",
+    onlyInRally: true,
+  };
+
+  // API endpoint format:
+  // - Padel (default): /api/statistics
+  // - Tennis: /api/statistics/tennis
+  const sportaiResponse = await fetch(`${SPORTAI_API_URL}${endpoint}${getSportSuffix(sport)}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${SPORTAI_API_KEY}`,
+    },
+    body: JSON.stringify(sportaiBody),
+  });
+
+  if (!sportaiResponse.ok) {
+    const errorData = await sportaiResponse.json().catch(() => ({}));
+    logger.error(`[${requestId}] SportAI API error:`, errorData);
+    return {
+      ok: false,
+      status: sportaiResponse.status,
+      error: errorData.message || errorData.error || `SportAI API returned ${sportaiResponse.status}`,
+    };
+  }
+
+  const sportaiResult = await sportaiResponse.json();
+  const { task_id: sportaiTaskId, estimated_compute_time } = sportaiResult.data;
+
+  logger.info(`[${requestId}] SportAI task created: ${sportaiTaskId}`);
+
+  return { ok: true, sportaiTaskId, estimatedComputeTime: estimated_compute_time ?? null };
+}
+
+// ============================================================================
+// Status
+// ============================================================================
+
+/**
+ * Poll SportAI for a task's status and persist any change.
+ * Completed, failed and client-side tasks are returned unchanged.
+ * On any SportAI or database error the current row is returned.
+ */
+export async function syncTaskStatus(
+  task: SportAITaskRow,
+  supabase: SupabaseAdmin,
+  requestId: string
+): Promise<SportAITaskRow> {
+  if (task.status === "completed" || task.status === "failed") {
+    return task;
+  }
+
+  // Technique tasks and other client-side tasks don't have SportAI endpoints
+  const baseEndpoint = SPORTAI_TASK_ENDPOINTS[task.task_type];
+  if (!baseEndpoint || !task.sportai_task_id) {
+    logger.debug(`[${requestId}] No status endpoint for task type: ${task.task_type}`);
+    return task;
+  }
+
+  const SPORTAI_API_KEY = getSportAIApiKey();
+  if (!SPORTAI_API_KEY) {
+    logger.error(`[${requestId}] SPORTAI_API_KEY not configured for ${getEnvironmentLabel()}`);
+    return task;
+  }
+
+  const statusResponse = await fetch(
+    `${getSportAIApiUrl()}${baseEndpoint}${getSportSuffix(task.sport)}/${task.sportai_task_id}/status`,
+    {
+      headers: {
+        "Authorization": `Bearer ${SPORTAI_API_KEY}`,
+      },
+    }
+  );
+
+  if (!statusResponse.ok) {
+    logger.error(`[${requestId}] SportAI status check failed: ${statusResponse.status}`);
+    return task;
+  }
+
+  const statusResult = await statusResponse.json();
+
+  logger.info(`[${requestId}] SportAI status response:`, JSON.stringify(statusResult, null, 2));
+
+  let updates: Partial<Database["public"]["Tables"]["sportai_tasks"]["Update"]> = {
+    updated_at: new Date().toISOString(),
+  };
+
+  // SportAI API returns status at data.task_status
+  const resultStatus = statusResult.data?.task_status;
+  const taskProgress = statusResult.data?.task_progress;
+
+  logger.info(`[${requestId}] Parsed status: ${resultStatus}, progress: ${taskProgress}`);
+
+  if (resultStatus === "completed") {
+    // Only update status - don't store results here
+    // The result is fetched and stored on demand via fetchTaskResult
+    updates = {
+      ...updates,
+      status: "completed",
+      completed_at: new Date().toISOString(),
+    };
+    logger.info(`[${requestId}] Task completed - result will be fetched on demand`);
+  } else if (resultStatus === "failed" || resultStatus === "error") {
+    updates = {
+      ...updates,
+      status: "failed",
+      error_message: statusResult.data?.error || statusResult.error || "Task failed",
+    };
+  } else if (resultStatus === "processing" || resultStatus === "pending") {
+    updates.status = resultStatus === "pending" ? "pending" : "processing";
+
+    // Keep the ETA current so progress streams/tiles can show it
+    const estimatedComputeTime = statusResult.data?.estimated_compute_time;
+    if (typeof estimatedComputeTime === "number") {
+      updates.estimated_compute_time = estimatedComputeTime;
+    }
+  }
+
+  const isTerminal = updates.status === "completed" || updates.status === "failed";
+
+  let updateQuery = supabase
+    .from("sportai_tasks")
+    .update(updates)
+    .eq("id", task.id);
+
+  if (isTerminal) {
+    updateQuery = updateQuery.in("status", IN_FLIGHT_STATUSES);
+  }
+
+  const { data: updatedTask, error: updateError } = await updateQuery.select().maybeSingle();
+
+  if (updateError) {
+    logger.error(`[${requestId}] Failed to update task:`, updateError);
+    return task;
+  }
+
+  if (!updatedTask) {
+    // Another request already moved the task to a terminal status
+    const { data: currentTask } = await supabase
+      .from("sportai_tasks")
+      .select("*")
+      .eq("id", task.id)
+      .maybeSingle();
+    return currentTask ?? task;
+  }
+
+  if (isTerminal) {
+    await notifyTaskTransition(updatedTask, supabase);
+  }
+
+  return updatedTask;
+}
+
+// ============================================================================
+// Result
+// ============================================================================
+
+export type TaskResultOutcome =
+  | { status: "ready"; url: string; cached: boolean }
+  | { status: "processing" }
+  | { status: "error"; httpStatus: number; error: string };
+
+/**
+ * Get a download URL for a task's result JSON.
+ *
+ * Uses the copy in our S3 when present (unless forceRefresh); otherwise fetches
+ * the result from SportAI, stores it under task-results/{taskId}.json and marks
+ * the task completed.
+ */
+export async function fetchTaskResult(
+  task: SportAITaskRow,
+  supabase: SupabaseAdmin,
+  requestId: string,
+  forceRefresh = false
+): Promise<TaskResultOutcome> {
+  const s3Client = getS3Client();
+
+  // If we already have the result stored AND not forcing refresh, return cached URL
+  if (task.result_s3_key && !forceRefresh && s3Client) {
+    const command = new GetObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: task.result_s3_key,
+    });
+    const presignedUrl = await getSignedUrl(s3Client, command, { expiresIn: 3600 });
+    return { status: "ready", url: presignedUrl, cached: true };
+  }
+
+  const SPORTAI_API_KEY = getSportAIApiKey();
+  if (!SPORTAI_API_KEY) {
+    logger.error(`[${requestId}] SPORTAI_API_KEY not configured for ${getEnvironmentLabel()}`);
+    return { status: "error", httpStatus: 503, error: "SportAI API not configured" };
+  }
+
+  if (!task.sportai_task_id) {
+    return { status: "error", httpStatus: 400, error: "Task has no SportAI task ID" };
+  }
+
+  const baseEndpoint = SPORTAI_TASK_ENDPOINTS[task.task_type];
+  if (!baseEndpoint) {
+    return { status: "error", httpStatus: 400, error: `Unknown task type: ${task.task_type}` };
+  }
+
+  logger.info(`[${requestId}] Fetching result from SportAI for task ${task.sportai_task_id}`);
+
+  const sportaiResponse = await fetch(
+    `${getSportAIApiUrl()}${baseEndpoint}${getSportSuffix(task.sport)}/${task.sportai_task_id}`,
+    {
+      headers: {
+        "Authorization": `Bearer ${SPORTAI_API_KEY}`,
+      },
+    }
+  );
+
+  if (sportaiResponse.status === 202) {
+    return { status: "processing" };
+  }
+
+  if (sportaiResponse.status === 422) {
+    const errorData = await sportaiResponse.json();
+    const errorMessage = errorData.error?.error_message || "Task could not be processed";
+
+    const { data: failedTask } = await supabase
+      .from("sportai_tasks")
+      .update({
+        status: "failed",
+        error_message: errorMessage,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", task.id)
+      .in("status", IN_FLIGHT_STATUSES)
+      .select()
+      .maybeSingle();
+
+    if (failedTask) {
+      await notifyTaskTransition(failedTask, supabase);
+    }
+
+    return { status: "error", httpStatus: 422, error: errorMessage };
+  }
+
+  if (!sportaiResponse.ok) {
+    const errorData = await sportaiResponse.json().catch(() => ({}));
+    logger.error(`[${requestId}] SportAI API error:`, errorData);
+    return {
+      status: "error",
+      httpStatus: sportaiResponse.status,
+      error: errorData.error || `SportAI API returned ${sportaiResponse.status}`,
+    };
+  }
+
+  const sportaiResult = await sportaiResponse.json();
+  const resultUrl = sportaiResult.data?.result_url;
+
+  if (!resultUrl) {
+    logger.error(`[${requestId}] No result_url in SportAI response:`, sportaiResult);
+    return { status: "error", httpStatus: 500, error: "No result URL in response" };
+  }
+
+  // No S3 configured, just return the SportAI URL
+  if (!s3Client) {
+    return { status: "ready", url: resultUrl, cached: false };
+  }
+
+  logger.info(`[${requestId}] Got result URL, downloading...`);
+
+  // Download the result from SportAI's S3
+  const resultResponse = await fetch(resultUrl);
+  if (!resultResponse.ok) {
+    return { status: "error", httpStatus: 500, error: "Failed to download result from SportAI" };
+  }
+
+  const resultData = await resultResponse.json();
+
+  // Upload to our S3
+  const resultS3Key = `task-results/${task.id}.json`;
+
+  await s3Client.send(new PutObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: resultS3Key,
+    Body: JSON.stringify(resultData, null, 2),
+    ContentType: "application/json",
+  }));
+  logger.info(`[${requestId}] Uploaded result to S3: ${resultS3Key}`);
+
+  // Update database with S3 key
+  await supabase
+    .from("sportai_tasks")
+    .update({
+      result_s3_key: resultS3Key,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", task.id);
+
+  // The result can arrive before any status poll saw the task complete.
+  // Only the caller that moves the task out of an in-flight status notifies.
+  const { data: completedTask } = await supabase
+    .from("sportai_tasks")
+    .update({
+      status: "completed",
+      completed_at: task.completed_at || new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", task.id)
+    .in("status", IN_FLIGHT_STATUSES)
+    .select()
+    .maybeSingle();
+
+  if (completedTask) {
+    await notifyTaskTransition(completedTask, supabase);
+  }
+
+  // Generate presigned URL for download
+  const presignedUrl = await getSignedUrl(
+    s3Client,
+    new GetObjectCommand({ Bucket: BUCKET_NAME, Key: resultS3Key }),
+    { expiresIn: 3600 }
+  );
+
+  return { status: "ready", url: presignedUrl, cached: false };
+}
+
+// ============================================================================
+// External API
+// ============================================================================
+
+/**
+ * Strip internal fields (user, S3 keys, SportAI IDs) from a task row
+ */
+export function toExternalTask(task: SportAITaskRow): ExternalTask {
+  return {
+    id: task.id,
+    status: task.status,
+    sport: task.sport,
+    task_type: task.task_type,
+    video_url: task.video_url,
+    estimated_compute_time: task.estimated_compute_time,
+    error_message: task.error_message,
+    created_at: task.created_at,
+    updated_at: task.updated_at,
+    completed_at: task.completed_at,
+  };
+}
@@ -1,11 +1,15 @@
 /**
  * Server-Sent Events (SSE) Utilities
  *
- * Helper functions for creating SSE-formatted streaming responses.
- * Used by the racket recommendation feature in the technique-chat API.
+ * Helper functions for creating and reading SSE-formatted streaming responses.
+ * Used by the racket recommendation feature in the technique-chat API and by
+ * the task progress stream (/api/tasks/stream).
  */
 
 import type { SSEEventType } from "@/types/external-api";
+import type { TaskStreamEventType } from "@/types/task-stream";
+
+type AnySSEEventType = SSEEventType | TaskStreamEventType;
 
 /**
  * Format a single SSE event
@@ -18,7 +22,7 @@ import type { SSEEventType } from "@/types/external-api";
  * formatSSEEvent("recommendation", { name: "Shark-Hunter" })
  * // Returns: "event: recommendation\ndata: {\"name\":\"Shark-Hunter\"}\n\n"
  */
-export function formatSSEEvent(event: SSEEventType, data: unknown): string {
+export function formatSSEEvent(event: AnySSEEventType, data: unknown): string {
   const dataString = typeof data === "string" ? data : JSON.stringify(data);
   return `event: ${event}\ndata: ${dataString}\n\n`;
 }
@@ -30,7 +34,7 @@ export function formatSSEEvent(event: SSEEventType, data: unknown): string {
  * @param data - The data to send
  * @returns Encoded Uint8Array ready for stream controller
  */
-export function encodeSSEEvent(event: SSEEventType, data: unknown): Uint8Array {
+export function encodeSSEEvent(event: AnySSEEventType, data: unknown): Uint8Array {
   return new TextEncoder().encode(formatSSEEvent(event, data));
 }
 
@@ -58,3 +62,62 @@ export function createSSEHeaders(
     ...additionalHeaders,
   };
 }
+
+/**
+ * A parsed SSE event. `data` is the raw string; JSON.parse it as needed.
+ */
+export interface ParsedSSEEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Read SSE events from a fetch response body.
+ * Lets clients consume streams that need an Authorization header, which EventSource can't send.
+ *
+ * @param body - Response body stream
+ * @yields Each complete event as it arrives
+ *
+ * @example
+ * for await (const { event, data } of readSSEEvents(response.body)) {
+ *   if (event === "task") handleTask(JSON.parse(data));
+ * }
+ */
+export async function* readSSEEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ParsedSSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+
+        let event = "message";
+        const dataLines: string[] = [];
+        for (const line of rawEvent.split("\n")) {
+          if (line.startsWith("event:")) {
+            event = line.slice(6).trim();
+          } else if (line.startsWith("data:")) {
+            dataLines.push(line.slice(5).replace(/^ /, ""));
+          }
+        }
+
+        if (dataLines.length > 0) {
+          yield { event, data: dataLines.join("\n") };
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -17,6 +17,9 @@ CREATE TABLE IF NOT EXISTS api_keys (
   key_hash TEXT NOT NULL UNIQUE,           -- SHA-256 hash of the full key
   key_prefix TEXT NOT NULL,                -- First 12 chars for identification (e.g., "sk_live_abc1")
 
+  -- Ownership (NULL for keys issued manually by the SportAI team)
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+
   -- Metadata
   name TEXT NOT NULL,                      -- Human-readable name (e.g., "Pickleball App Production")
   owner_email TEXT,                        -- Contact email for the key owner
@@ -46,12 +49,21 @@ CREATE TABLE IF NOT EXISTS api_keys (
 CREATE INDEX IF NOT EXISTS idx_api_keys_key_hash ON api_keys(key_hash);
 CREATE INDEX IF NOT EXISTS idx_api_keys_active ON api_keys(is_active) WHERE is_active = true;
 CREATE INDEX IF NOT EXISTS idx_api_keys_owner ON api_keys(owner_email) WHERE owner_email IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id) WHERE user_id IS NOT NULL;
+
+-- ============================================================================
+-- MIGRATION: Add user_id for self-service key management
+-- Run this if you already have the api_keys table
+-- ============================================================================
+-- ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES profiles(id) ON DELETE CASCADE;
+-- CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id) WHERE user_id IS NOT NULL;
 
 -- Comment for documentation
 COMMENT ON TABLE api_keys IS 'Stores hashed API keys for external developer access to SportAI APIs';
 COMMENT ON COLUMN api_keys.key_hash IS 'SHA-256 hash of the API key - never store raw keys';
 COMMENT ON COLUMN api_keys.key_prefix IS 'First 12 characters of the key for identification in logs/UI';
 COMMENT ON COLUMN api_keys.permissions IS 'Array of permission strings like pickleball:chat, tennis:chat';
+COMMENT ON COLUMN api_keys.user_id IS 'Profile that issued the key via /api/developer/keys (NULL for manually issued keys)';
 COMMENT ON COLUMN api_keys.rate_limit_tier IS 'Rate limit tier name from lib/rate-limit.ts';
 
 -- ============================================================================
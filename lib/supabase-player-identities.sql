@@ -0,0 +1,70 @@
+-- ============================================================================
+-- Player Identities Tables
+-- ============================================================================
+-- Statistics tasks number their players anonymously (player_id), so the same
+-- person gets a different number in every upload. A player identity is a
+-- named person owned by a user account; links attach a task's player_id to
+-- an identity so names carry across tasks.
+--
+-- Each link keeps the appearance signature (a color histogram of the
+-- player's thumbnail crop, computed in the browser) so new tasks can suggest
+-- matching identities.
+--
+-- Requires: profiles (lib/supabase-schema.sql), sportai_tasks
+--
+-- To run this migration:
+-- 1. Go to Supabase Dashboard → SQL Editor
+-- 2. Paste this entire file and run it
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS player_identities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  sport TEXT CHECK (sport IN ('tennis', 'padel', 'pickleball')),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_identities_user ON player_identities(user_id, name);
+
+COMMENT ON TABLE player_identities IS 'Named people a user tracks across statistics tasks';
+
+CREATE TABLE IF NOT EXISTS player_identity_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  identity_id UUID NOT NULL REFERENCES player_identities(id) ON DELETE CASCADE,
+  task_id UUID NOT NULL REFERENCES sportai_tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+  player_id INTEGER NOT NULL,               -- Anonymous player number within the task
+  signature JSONB,                          -- Normalized appearance histogram (number[])
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- A task player belongs to at most one identity
+  UNIQUE (task_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_identity_links_identity ON player_identity_links(identity_id);
+CREATE INDEX IF NOT EXISTS idx_player_identity_links_user ON player_identity_links(user_id);
+
+COMMENT ON TABLE player_identity_links IS 'Assignment of a task player_id to a player identity';
+
+-- Trigger for updated_at (function defined in lib/supabase-schema.sql)
+DROP TRIGGER IF EXISTS update_player_identities_updated_at ON player_identities;
+CREATE TRIGGER update_player_identities_updated_at
+  BEFORE UPDATE ON player_identities
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- RLS Policies (Row Level Security)
+-- ============================================================================
+-- Identities and links are read and written server-side via the service role
+-- (/api/player-identities and /api/tasks/[taskId]/player-identities check
+-- ownership), so no policies are defined.
+
+ALTER TABLE player_identities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE player_identity_links ENABLE ROW LEVEL SECURITY;
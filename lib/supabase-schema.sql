@@ -615,6 +615,19 @@ CREATE TABLE IF NOT EXISTS sportai_tasks (
   result_s3_key TEXT,
   error_message TEXT,
 
+  -- Manual court calibration (sport, homography matrix and marked points)
+  court_calibration JSONB,
+
+  -- Manual rally outcomes for score reconstruction ({ "<rally start time, e.g. 12.480>": "A" | "B" | "void" })
+  rally_outcomes JSONB,
+
+  -- Manual match event corrections, replayed over the result (see utils/match-corrections.ts)
+  match_corrections JSONB,
+
+  -- API key that created the task via /api/external/tasks (NULL for tasks created in the app)
+  -- References api_keys.id, which lives in lib/supabase-api-keys.sql
+  api_key_id UUID,
+
   -- Timestamps
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW(),
@@ -626,6 +639,7 @@ CREATE INDEX IF NOT EXISTS sportai_tasks_user_id_idx ON sportai_tasks(user_id);
 CREATE INDEX IF NOT EXISTS sportai_tasks_status_idx ON sportai_tasks(status);
 CREATE INDEX IF NOT EXISTS sportai_tasks_task_type_idx ON sportai_tasks(task_type);
 CREATE INDEX IF NOT EXISTS sportai_tasks_sportai_task_id_idx ON sportai_tasks(sportai_task_id);
+CREATE INDEX IF NOT EXISTS sportai_tasks_api_key_id_idx ON sportai_tasks(api_key_id) WHERE api_key_id IS NOT NULL;
 
 -- Enable RLS
 ALTER TABLE sportai_tasks ENABLE ROW LEVEL SECURITY;
@@ -674,6 +688,31 @@ CREATE TRIGGER update_sportai_tasks_updated_at
 -- =============================================
 -- ALTER TABLE sportai_tasks ADD COLUMN IF NOT EXISTS video_s3_key TEXT;
 
+-- =============================================
+-- MIGRATION: Add court_calibration column for manual court calibration
+-- Run this if you already have the sportai_tasks table
+-- =============================================
+-- ALTER TABLE sportai_tasks ADD COLUMN IF NOT EXISTS court_calibration JSONB;
+
+-- =============================================
+-- MIGRATION: Add rally_outcomes column for manual rally outcome corrections
+-- Run this if you already have the sportai_tasks table
+-- =============================================
+-- ALTER TABLE sportai_tasks ADD COLUMN IF NOT EXISTS rally_outcomes JSONB;
+
+-- =============================================
+-- MIGRATION: Add match_corrections column for manual match event corrections
+-- Run this if you already have the sportai_tasks table
+-- =============================================
+-- ALTER TABLE sportai_tasks ADD COLUMN IF NOT EXISTS match_corrections JSONB;
+
+-- =============================================
+-- MIGRATION: Add api_key_id for tasks created through the external API
+-- Run this if you already have the sportai_tasks table
+-- =============================================
+-- ALTER TABLE sportai_tasks ADD COLUMN IF NOT EXISTS api_key_id UUID;
+-- CREATE INDEX IF NOT EXISTS sportai_tasks_api_key_id_idx ON sportai_tasks(api_key_id) WHERE api_key_id IS NOT NULL;
+
 -- =============================================
 -- PRICING_WAITLIST TABLE
 -- Captures interest for upcoming PRO plans
@@ -0,0 +1,48 @@
+-- ============================================================================
+-- Task Artifacts Table
+-- ============================================================================
+-- AI-generated content derived from a task's result (tactical analyses,
+-- player profiles, nicknames, swing profiles). Each artifact is keyed by
+-- task, type and a hash of the inputs it was generated from, so reopening a
+-- task serves the stored text instead of calling the LLM again.
+-- Regenerating inserts a new version; older versions are kept as history.
+--
+-- Requires: profiles (lib/supabase-schema.sql), sportai_tasks
+--
+-- To run this migration:
+-- 1. Go to Supabase Dashboard → SQL Editor
+-- 2. Paste this entire file and run it
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS task_artifacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES sportai_tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+  artifact_type TEXT NOT NULL CHECK (
+    artifact_type IN ('tactical_analysis', 'player_profiles', 'player_nicknames', 'swing_profiles')
+  ),
+  input_hash TEXT NOT NULL,                 -- SHA-256 of the normalized request inputs
+  version INTEGER NOT NULL DEFAULT 1,       -- Increments on each regenerate for the same inputs
+
+  content JSONB NOT NULL,                   -- Response payload as returned by the generating route
+  model TEXT,                               -- LLM that produced it
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (task_id, artifact_type, input_hash, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_artifacts_lookup ON task_artifacts(task_id, artifact_type, input_hash, version DESC);
+CREATE INDEX IF NOT EXISTS idx_task_artifacts_history ON task_artifacts(task_id, artifact_type, created_at DESC);
+
+COMMENT ON TABLE task_artifacts IS 'Versioned AI-generated content per task, reused while the inputs are unchanged';
+
+-- ============================================================================
+-- RLS Policies (Row Level Security)
+-- ============================================================================
+-- Artifacts are read and written server-side via the service role
+-- (generating routes and /api/tasks/[taskId]/artifacts check ownership),
+-- so no policies are defined.
+
+ALTER TABLE task_artifacts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,79 @@
+-- ============================================================================
+-- Webhooks Tables
+-- ============================================================================
+-- Webhook endpoints registered by users (optionally scoped to one API key)
+-- and the log of every delivery attempt made to them.
+--
+-- Requires: profiles (lib/supabase-schema.sql), api_keys (lib/supabase-api-keys.sql)
+--
+-- To run this migration:
+-- 1. Go to Supabase Dashboard → SQL Editor
+-- 2. Paste this entire file and run it
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+  -- When set, only tasks created with this API key trigger the endpoint.
+  -- When NULL, every task owned by the user does.
+  api_key_id UUID REFERENCES api_keys(id) ON DELETE CASCADE,
+
+  url TEXT NOT NULL,
+  description TEXT,
+  secret TEXT NOT NULL,                     -- HMAC signing secret (whsec_...)
+  events TEXT[] NOT NULL DEFAULT ARRAY['task.completed', 'task.failed'],
+  is_active BOOLEAN DEFAULT TRUE,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user ON webhook_endpoints(user_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_api_key ON webhook_endpoints(api_key_id) WHERE api_key_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  task_id UUID REFERENCES sportai_tasks(id) ON DELETE SET NULL,
+
+  event TEXT NOT NULL,                      -- task.completed | task.failed | webhook.test
+  payload JSONB NOT NULL,
+
+  -- Delivery state
+  -- 'sending' = claimed by one worker for a single attempt (see lib/webhooks.ts)
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_status_code INTEGER,
+  last_error TEXT,
+  -- When pending: when the next retry is due. When sending: when the claim
+  -- expires and another worker may take the delivery over.
+  -- NULL once succeeded or out of retries.
+  next_attempt_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status IN ('pending', 'sending');
+
+COMMENT ON TABLE webhook_endpoints IS 'User-registered URLs notified when SportAI tasks complete or fail';
+COMMENT ON COLUMN webhook_endpoints.secret IS 'Used to sign deliveries: X-SportAI-Signature: t=<unix>,v1=<hex HMAC-SHA256 of "<t>.<body>">';
+COMMENT ON TABLE webhook_deliveries IS 'Delivery log with retry state for webhook_endpoints';
+
+-- ============================================================================
+-- RLS Policies (Row Level Security)
+-- ============================================================================
+-- Endpoints and deliveries are only accessed server-side via the service role
+-- (/api/webhooks routes check ownership), so no policies are defined.
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- Scheduling
+-- ============================================================================
+-- Retries and server-side status polling run from GET /api/webhooks/cron.
+-- Call it every minute from a scheduler (e.g., Vercel Cron or pg_cron + pg_net)
+-- with header: Authorization: Bearer $CRON_SECRET
@@ -0,0 +1,223 @@
+/**
+ * Task Artifacts
+ *
+ * Server-side store for AI-generated content derived from a task. Routes
+ * look up the latest version for (task, type, input hash) before calling
+ * the LLM and save what they generate as a new version.
+ */
+
+import { createHash } from "crypto";
+import type { NextRequest } from "next/server";
+import { logger } from "./logger";
+import { getSupabaseAdmin, getAuthenticatedUser } from "./supabase-server";
+import type { Json } from "@/types/supabase";
+import {
+  ARTIFACT_CACHED_HEADER,
+  ARTIFACT_CREATED_AT_HEADER,
+  ARTIFACT_ID_HEADER,
+  ARTIFACT_INPUT_HASH_HEADER,
+  ARTIFACT_VERSION_HEADER,
+  type TaskArtifactMeta,
+  type TaskArtifactType,
+  type TaskArtifactVersion,
+} from "@/types/task-artifact";
+
+type SupabaseAdmin = ReturnType<typeof getSupabaseAdmin>;
+
+// Columns returned by the history endpoint (single literal for typed selects)
+export const TASK_ARTIFACT_COLUMNS =
+  "id, artifact_type, input_hash, version, content, model, created_at";
+
+/**
+ * Bump when a route's prompt or output shape changes so stored
+ * artifacts generated by the old prompt are no longer served
+ */
+const PROMPT_VERSIONS: Record<TaskArtifactType, number> = {
+  tactical_analysis: 1,
+  player_profiles: 1,
+  player_nicknames: 1,
+  swing_profiles: 1,
+};
+
+// Versions kept per task and type in the history listing
+export const MAX_ARTIFACT_HISTORY = 50;
+
+export interface ArtifactContext {
+  supabase: SupabaseAdmin;
+  taskId: string;
+  userId: string;
+}
+
+/**
+ * JSON with object keys sorted, so equal inputs hash equally
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Hash of the inputs an artifact is generated from
+ */
+export function hashArtifactInput(type: TaskArtifactType, input: unknown): string {
+  return createHash("sha256")
+    .update(`${type}:v${PROMPT_VERSIONS[type]}:${stableStringify(input)}`)
+    .digest("hex");
+}
+
+/**
+ * Resolve the caller and check they own the task. Returns null when the
+ * request can't use the store (no task ID, not signed in, not the owner),
+ * in which case the route generates without persisting.
+ */
+export async function getArtifactContext(
+  request: NextRequest,
+  taskId: unknown
+): Promise<ArtifactContext | null> {
+  if (typeof taskId !== "string" || !taskId) return null;
+
+  const user = await getAuthenticatedUser(request);
+  if (!user) return null;
+
+  const supabase = getSupabaseAdmin();
+  const { data: task } = await supabase
+    .from("sportai_tasks")
+    .select("id")
+    .eq("id", taskId)
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  return task ? { supabase, taskId, userId: user.id } : null;
+}
+
+function toMeta(
+  row: { id: string; input_hash: string; version: number; created_at: string },
+  cached: boolean
+): TaskArtifactMeta {
+  return { id: row.id, input_hash: row.input_hash, version: row.version, cached, created_at: row.created_at };
+}
+
+/**
+ * Latest stored version for these inputs, or null
+ */
+export async function findArtifact<TContent>(
+  context: ArtifactContext,
+  type: TaskArtifactType,
+  inputHash: string
+): Promise<{ content: TContent; model: string | null; artifact: TaskArtifactMeta } | null> {
+  const { data, error } = await context.supabase
+    .from("task_artifacts")
+    .select("id, input_hash, version, content, model, created_at")
+    .eq("task_id", context.taskId)
+    .eq("artifact_type", type)
+    .eq("input_hash", inputHash)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.warn(`Failed to read ${type} artifact for task ${context.taskId}:`, error);
+    return null;
+  }
+  if (!data) return null;
+
+  return { content: data.content as TContent, model: data.model, artifact: toMeta(data, true) };
+}
+
+/**
+ * Store generated content as the next version for these inputs.
+ * Failures are logged, not thrown: the caller still has the generated content.
+ */
+export async function saveArtifact(
+  context: ArtifactContext,
+  type: TaskArtifactType,
+  inputHash: string,
+  content: unknown,
+  model: string | null
+): Promise<TaskArtifactMeta | null> {
+  // Retry once if a concurrent save took the same version number
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { data: latest } = await context.supabase
+      .from("task_artifacts")
+      .select("version")
+      .eq("task_id", context.taskId)
+      .eq("artifact_type", type)
+      .eq("input_hash", inputHash)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await context.supabase
+      .from("task_artifacts")
+      .insert({
+        task_id: context.taskId,
+        user_id: context.userId,
+        artifact_type: type,
+        input_hash: inputHash,
+        version: (latest?.version ?? 0) + 1,
+        content: content as Json,
+        model,
+      })
+      .select("id, input_hash, version, created_at")
+      .single();
+
+    if (!error && data) return toMeta(data, false);
+
+    // 23505 = unique_violation
+    if (error?.code !== "23505") {
+      logger.warn(`Failed to save ${type} artifact for task ${context.taskId}:`, error);
+      return null;
+    }
+  }
+
+  logger.warn(`Failed to save ${type} artifact for task ${context.taskId}: version conflict`);
+  return null;
+}
+
+/**
+ * Stored versions for a task, newest first, optionally for one type and set of inputs
+ */
+export async function listArtifactVersions(
+  supabase: SupabaseAdmin,
+  taskId: string,
+  filters: { type?: TaskArtifactType; inputHash?: string } = {}
+): Promise<TaskArtifactVersion[]> {
+  let query = supabase
+    .from("task_artifacts")
+    .select(TASK_ARTIFACT_COLUMNS)
+    .eq("task_id", taskId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_ARTIFACT_HISTORY);
+
+  if (filters.type) query = query.eq("artifact_type", filters.type);
+  if (filters.inputHash) query = query.eq("input_hash", filters.inputHash);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Response headers describing an artifact, for streamed (non-JSON) responses
+ */
+export function artifactHeaders(artifact: TaskArtifactMeta): Record<string, string> {
+  return {
+    [ARTIFACT_ID_HEADER]: artifact.id,
+    [ARTIFACT_INPUT_HASH_HEADER]: artifact.input_hash,
+    [ARTIFACT_VERSION_HEADER]: String(artifact.version),
+    [ARTIFACT_CACHED_HEADER]: String(artifact.cached),
+    [ARTIFACT_CREATED_AT_HEADER]: artifact.created_at,
+  };
+}
+
+export function isTaskArtifactType(value: unknown): value is TaskArtifactType {
+  return typeof value === "string" && value in PROMPT_VERSIONS;
+}
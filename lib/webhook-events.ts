@@ -0,0 +1,77 @@
+/**
+ * Webhook Events
+ *
+ * Events a webhook endpoint can subscribe to. Shared by the /api/webhooks
+ * routes (validation) and the Developer profile tab, so keep it free of
+ * server imports.
+ */
+
+import type { WebhookEvent } from "@/types/external-api";
+
+export const WEBHOOK_EVENTS: Array<{ id: WebhookEvent; label: string; description: string }> = [
+  {
+    id: "task.completed",
+    label: "Task completed",
+    description: "A statistics task finished and its result can be fetched",
+  },
+  {
+    id: "task.failed",
+    label: "Task failed",
+    description: "SportAI could not process the video",
+  },
+];
+
+// Per-user cap on registered endpoints
+export const MAX_WEBHOOKS_PER_USER = 10;
+
+export const MAX_WEBHOOK_DESCRIPTION_LENGTH = 500;
+
+/**
+ * Descriptions are optional: a string within the length limit, or null to clear it
+ */
+export function isValidWebhookDescription(description: unknown): description is string | null {
+  return (
+    description === null ||
+    (typeof description === "string" && description.trim().length <= MAX_WEBHOOK_DESCRIPTION_LENGTH)
+  );
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * A key-scoped webhook names the API key by its UUID; null means every key
+ */
+export function isValidWebhookApiKeyId(apiKeyId: unknown): apiKeyId is string | null {
+  return apiKeyId === null || (typeof apiKeyId === "string" && UUID_PATTERN.test(apiKeyId));
+}
+
+export function isValidWebhookEventList(events: unknown): events is WebhookEvent[] {
+  return (
+    Array.isArray(events) &&
+    events.length > 0 &&
+    events.every(e => typeof e === "string" && WEBHOOK_EVENTS.some(ev => ev.id === e))
+  );
+}
+
+/**
+ * Local receivers (http://localhost) are only accepted in development
+ */
+export function isLocalWebhookHost(hostname: string): boolean {
+  return process.env.NODE_ENV === "development" && (hostname === "localhost" || hostname === "127.0.0.1");
+}
+
+/**
+ * Webhook URLs must be https, except localhost in development.
+ * This is a syntax check only - the server also checks that the host
+ * resolves to a public address (isPublicWebhookUrl in lib/webhooks.ts).
+ */
+export function isValidWebhookUrl(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  try {
+    const url = new URL(value);
+    if (url.protocol === "https:") return true;
+    return url.protocol === "http:" && isLocalWebhookHost(url.hostname);
+  } catch {
+    return false;
+  }
+}
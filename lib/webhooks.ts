@@ -0,0 +1,481 @@
+/**
+ * Webhook Delivery
+ *
+ * Notifies user-registered endpoints when SportAI tasks complete or fail.
+ *
+ * - Payloads are signed with HMAC-SHA256 using the endpoint's secret:
+ *   X-SportAI-Signature: t=<unix seconds>,v1=<hex HMAC of "<t>.<raw body>">
+ * - The first attempt runs right after the response is sent (next/server `after`)
+ * - Failed attempts are retried with backoff by GET /api/webhooks/cron
+ * - Each attempt first claims its delivery (status "sending") with a
+ *   conditional update, so a delivery is never sent by two workers at once
+ * - Every delivery and its latest attempt is kept in webhook_deliveries
+ * - Endpoints must resolve to public addresses (checked on save and before
+ *   every attempt), each attempt connects to the address that was checked,
+ *   redirects are not followed and response bodies are never stored, so
+ *   webhooks can't be used to reach internal services
+ *
+ * scripts/webhook-test-delivery.js implements the same signing scheme for
+ * testing receivers locally - keep the two in sync.
+ */
+
+import { createHmac, randomBytes } from "crypto";
+import type { LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import { isIP, type LookupFunction } from "net";
+import { after } from "next/server";
+import { Agent, fetch } from "undici";
+import { logger } from "./logger";
+import { isLocalWebhookHost, isValidWebhookUrl } from "./webhook-events";
+import type { getSupabaseAdmin } from "./supabase-server";
+import type { Database, Json } from "@/types/supabase";
+import type { ExternalTask, WebhookEvent, WebhookPayload } from "@/types/external-api";
+
+type SupabaseAdmin = ReturnType<typeof getSupabaseAdmin>;
+type WebhookEndpointRow = Database["public"]["Tables"]["webhook_endpoints"]["Row"];
+type WebhookDeliveryRow = Database["public"]["Tables"]["webhook_deliveries"]["Row"];
+
+const SECRET_PREFIX = "whsec_";
+const SECRET_RANDOM_BYTES = 24;
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-SportAI-Signature";
+
+// Columns safe to return to the endpoint owner (everything except the secret).
+// Kept as a single literal so Supabase can infer the selected row type.
+export const WEBHOOK_PUBLIC_COLUMNS =
+  "id, api_key_id, url, description, events, is_active, created_at, updated_at";
+
+export const WEBHOOK_DELIVERY_COLUMNS =
+  "id, task_id, event, status, attempts, last_status_code, last_error, next_attempt_at, created_at, delivered_at";
+
+// Give up on a single attempt after this long
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// A claimed delivery is reserved this long; if the worker dies mid-attempt,
+// the cron job takes it over once the claim expires
+const CLAIM_DURATION_MS = DELIVERY_TIMEOUT_MS + 60_000;
+
+// Delay before each retry; a delivery is attempted at most RETRY_DELAYS_MS.length + 1 times
+const RETRY_DELAYS_MS = [
+  60_000,          // 1 minute
+  5 * 60_000,      // 5 minutes
+  30 * 60_000,     // 30 minutes
+  2 * 3600_000,    // 2 hours
+  6 * 3600_000,    // 6 hours
+];
+
+/**
+ * Generate a new signing secret (shown once to the user)
+ */
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(SECRET_RANDOM_BYTES).toString("hex")}`;
+}
+
+/**
+ * Build the signature header value for a raw request body
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Loopback, private, link-local, CGNAT, multicast and reserved IPv4 ranges
+ */
+function isNonPublicIPv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+/**
+ * Loopback, unspecified, ULA (fc00::/7), link-local (fe80::/10) and multicast
+ * IPv6 addresses, plus IPv4-mapped addresses in a non-public IPv4 range
+ */
+function isNonPublicAddress(address: string): boolean {
+  if (isIP(address) === 4) return isNonPublicIPv4(address);
+
+  const ip = address.toLowerCase();
+  const mappedDotted = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mappedDotted) return isNonPublicIPv4(mappedDotted[1]);
+  const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const high = parseInt(mappedHex[1], 16);
+    const low = parseInt(mappedHex[2], 16);
+    return isNonPublicIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  return ip === "::" || ip === "::1" || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith("ff");
+}
+
+/**
+ * Resolve a webhook URL's host, or null when the URL is invalid or any
+ * address it resolves to is not public
+ */
+async function resolvePublicAddresses(value: string): Promise<LookupAddress[] | null> {
+  if (!isValidWebhookUrl(value)) return null;
+
+  const hostname = new URL(value).hostname.replace(/^\[(.*)\]$/, "$1");
+  const family = isIP(hostname);
+
+  try {
+    const addresses = family
+      ? [{ address: hostname, family }]
+      : await lookup(hostname, { all: true, verbatim: true });
+    if (isLocalWebhookHost(hostname)) return addresses;
+    return addresses.length > 0 && !addresses.some(entry => isNonPublicAddress(entry.address))
+      ? addresses
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a webhook URL is valid and every address its host resolves to is public.
+ * Checked when an endpoint is saved and again before every delivery attempt,
+ * since DNS can change in between.
+ */
+export async function isPublicWebhookUrl(value: string): Promise<boolean> {
+  return (await resolvePublicAddresses(value)) !== null;
+}
+
+/**
+ * DNS lookup that always answers with an already-checked address, so the
+ * connection can't be rebound to another address after the check. The URL's
+ * hostname is still used for the Host header and TLS SNI.
+ */
+function pinnedLookup({ address, family }: LookupAddress): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [{ address, family }]);
+    } else {
+      callback(null, address, family);
+    }
+  };
+}
+
+/**
+ * When to retry after `attempts` failed attempts, or null when out of retries
+ */
+function getNextAttemptAt(attempts: number): string | null {
+  const delay = RETRY_DELAYS_MS[attempts - 1];
+  return delay === undefined ? null : new Date(Date.now() + delay).toISOString();
+}
+
+function getClaimExpiry(): string {
+  return new Date(Date.now() + CLAIM_DURATION_MS).toISOString();
+}
+
+/**
+ * Atomically claim a due delivery for one attempt. Only succeeds if the row
+ * is still in the state it was read in, so concurrent cron runs can't both
+ * claim it. Returns null when another worker got there first.
+ */
+async function claimDelivery(
+  delivery: WebhookDeliveryRow,
+  supabase: SupabaseAdmin
+): Promise<WebhookDeliveryRow | null> {
+  if (!delivery.next_attempt_at) return null;
+
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .update({ status: "sending", next_attempt_at: getClaimExpiry() })
+    .eq("id", delivery.id)
+    .eq("status", delivery.status)
+    .eq("next_attempt_at", delivery.next_attempt_at)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`[webhooks] Failed to claim delivery ${delivery.id}:`, error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * POST a claimed delivery to its endpoint once and record the outcome
+ */
+async function attemptDelivery(
+  delivery: WebhookDeliveryRow,
+  endpoint: Pick<WebhookEndpointRow, "url" | "secret">,
+  supabase: SupabaseAdmin
+): Promise<WebhookDeliveryRow> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+
+  let statusCode: number | null = null;
+  let errorMessage: string | null = null;
+
+  const addresses = await resolvePublicAddresses(endpoint.url);
+
+  if (!addresses) {
+    errorMessage = "URL does not resolve to a public address";
+  } else {
+    const dispatcher = new Agent({ connect: { lookup: pinnedLookup(addresses[0]) } });
+    try {
+      const response = await fetch(endpoint.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "SportAI-Webhooks/1.0",
+          "X-SportAI-Event": delivery.event,
+          "X-SportAI-Delivery": delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        redirect: "manual",
+        dispatcher,
+      });
+
+      // Only the status is recorded - the body could be anything the endpoint returns
+      statusCode = response.status;
+      if (response.status >= 300 && response.status < 400) {
+        errorMessage = `HTTP ${response.status}: Redirects are not followed`;
+      } else if (!response.ok) {
+        errorMessage = `HTTP ${response.status}: Endpoint returned an error`;
+      }
+      await response.body?.cancel().catch(() => {});
+    } catch (error) {
+      // Fixed messages, so connection errors don't reveal details about the network
+      if (error instanceof Error && error.name === "TimeoutError") {
+        errorMessage = `Timed out after ${DELIVERY_TIMEOUT_MS / 1000}s`;
+      } else {
+        errorMessage = "Could not connect to endpoint";
+      }
+    } finally {
+      await dispatcher.destroy().catch(() => {});
+    }
+  }
+
+  const succeeded = errorMessage === null;
+  const nextAttemptAt = succeeded ? null : getNextAttemptAt(attempts);
+
+  const updates: Database["public"]["Tables"]["webhook_deliveries"]["Update"] = {
+    attempts,
+    last_status_code: statusCode,
+    last_error: errorMessage,
+    status: succeeded ? "succeeded" : nextAttemptAt ? "pending" : "failed",
+    next_attempt_at: nextAttemptAt,
+    delivered_at: succeeded ? new Date().toISOString() : null,
+  };
+
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .update(updates)
+    .eq("id", delivery.id)
+    .select()
+    .single();
+
+  if (error || !data) {
+    logger.error(`[webhooks] Failed to record delivery ${delivery.id}:`, error);
+    return { ...delivery, ...updates } as WebhookDeliveryRow;
+  }
+
+  if (succeeded) {
+    logger.info(`[webhooks] Delivered ${delivery.event} ${delivery.id} (attempt ${attempts})`);
+  } else {
+    logger.warn(`[webhooks] Delivery ${delivery.id} failed (attempt ${attempts}): ${errorMessage}`);
+  }
+
+  return data;
+}
+
+/**
+ * Insert a delivery row, already claimed for its first attempt (the cron job
+ * only takes it over if that attempt never records an outcome).
+ * The payload's id is the delivery id so receivers can de-duplicate retries.
+ */
+async function createDelivery(
+  endpointId: string,
+  event: WebhookPayload["event"],
+  task: ExternalTask,
+  supabase: SupabaseAdmin
+): Promise<WebhookDeliveryRow | null> {
+  const { data: delivery, error } = await supabase
+    .from("webhook_deliveries")
+    .insert({
+      endpoint_id: endpointId,
+      task_id: event === "webhook.test" ? null : task.id,
+      event,
+      payload: {},
+      status: "sending",
+      next_attempt_at: getClaimExpiry(),
+    })
+    .select()
+    .single();
+
+  if (error || !delivery) {
+    logger.error(`[webhooks] Failed to create delivery for endpoint ${endpointId}:`, error);
+    return null;
+  }
+
+  const payload: WebhookPayload = {
+    id: delivery.id,
+    event,
+    created_at: delivery.created_at,
+    data: { task },
+  };
+
+  const { data: withPayload, error: updateError } = await supabase
+    .from("webhook_deliveries")
+    .update({ payload: payload as unknown as Json })
+    .eq("id", delivery.id)
+    .select()
+    .single();
+
+  if (updateError || !withPayload) {
+    logger.error(`[webhooks] Failed to store payload for delivery ${delivery.id}:`, updateError);
+    return null;
+  }
+
+  return withPayload;
+}
+
+/**
+ * Queue deliveries of a task status event to every matching endpoint.
+ * Endpoints scoped to an API key only receive tasks created with that key.
+ * Deliveries are attempted after the current response has been sent.
+ */
+export async function dispatchTaskEvent(
+  event: WebhookEvent,
+  task: ExternalTask,
+  owner: { userId: string; apiKeyId: string | null },
+  supabase: SupabaseAdmin
+): Promise<void> {
+  try {
+    let query = supabase
+      .from("webhook_endpoints")
+      .select("*")
+      .eq("user_id", owner.userId)
+      .eq("is_active", true)
+      .contains("events", [event]);
+
+    query = owner.apiKeyId
+      ? query.or(`api_key_id.is.null,api_key_id.eq.${owner.apiKeyId}`)
+      : query.is("api_key_id", null);
+
+    const { data: endpoints, error } = await query;
+
+    if (error) {
+      logger.error(`[webhooks] Failed to load endpoints for ${event} on task ${task.id}:`, error);
+      return;
+    }
+
+    if (!endpoints || endpoints.length === 0) {
+      return;
+    }
+
+    logger.info(`[webhooks] Dispatching ${event} for task ${task.id} to ${endpoints.length} endpoint(s)`);
+
+    const queued = await Promise.all(
+      endpoints.map(async endpoint => {
+        const delivery = await createDelivery(endpoint.id, event, task, supabase);
+        return delivery ? { delivery, endpoint } : null;
+      })
+    );
+
+    after(async () => {
+      await Promise.all(
+        queued
+          .filter((item): item is NonNullable<typeof item> => item !== null)
+          .map(({ delivery, endpoint }) => attemptDelivery(delivery, endpoint, supabase))
+      );
+    });
+  } catch (error) {
+    // Webhooks must never break the status update that triggered them
+    logger.error(`[webhooks] Failed to dispatch ${event} for task ${task.id}:`, error);
+  }
+}
+
+/**
+ * Send a "webhook.test" delivery right away and return the logged result
+ */
+export async function sendTestDelivery(
+  endpoint: WebhookEndpointRow,
+  supabase: SupabaseAdmin
+): Promise<WebhookDeliveryRow | null> {
+  const now = new Date().toISOString();
+  const sampleTask: ExternalTask = {
+    id: "00000000-0000-0000-0000-000000000000",
+    status: "completed",
+    sport: "padel",
+    task_type: "statistics",
+    video_url: "https://example.com/match.mp4",
+    estimated_compute_time: 300,
+    error_message: null,
+    created_at: now,
+    updated_at: now,
+    completed_at: now,
+  };
+
+  const delivery = await createDelivery(endpoint.id, "webhook.test", sampleTask, supabase);
+  if (!delivery) {
+    return null;
+  }
+
+  // Test deliveries are a one-off check - don't retry them
+  const result = await attemptDelivery(delivery, endpoint, supabase);
+  if (result.status === "pending") {
+    await supabase
+      .from("webhook_deliveries")
+      .update({ status: "failed", next_attempt_at: null })
+      .eq("id", result.id);
+    return { ...result, status: "failed", next_attempt_at: null };
+  }
+  return result;
+}
+
+/**
+ * Retry deliveries whose next attempt is due, plus claimed deliveries whose
+ * worker never finished. Returns how many were attempted.
+ */
+export async function retryDueDeliveries(supabase: SupabaseAdmin, limit = 25): Promise<number> {
+  const { data: due, error } = await supabase
+    .from("webhook_deliveries")
+    .select("*, webhook_endpoints(url, secret, is_active)")
+    .in("status", ["pending", "sending"])
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    logger.error("[webhooks] Failed to load due deliveries:", error);
+    return 0;
+  }
+
+  let attempted = 0;
+
+  for (const { webhook_endpoints: endpoint, ...delivery } of due || []) {
+    const claimed = await claimDelivery(delivery, supabase);
+    if (!claimed) {
+      continue;
+    }
+
+    if (!endpoint || !endpoint.is_active) {
+      await supabase
+        .from("webhook_deliveries")
+        .update({ status: "failed", next_attempt_at: null, last_error: "Endpoint disabled" })
+        .eq("id", claimed.id);
+      continue;
+    }
+
+    await attemptDelivery(claimed, endpoint, supabase);
+    attempted++;
+  }
+
+  return attempted;
+}
@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+
+/**
+ * Webhook Test Delivery Script
+ *
+ * Sends a signed sample task event to a webhook receiver, exactly as
+ * lib/webhooks.ts would, so receivers can be developed and tested locally.
+ *
+ * Usage:
+ *   node scripts/webhook-test-delivery.js <url> <secret> [--event task.completed|task.failed]
+ *   npm run webhook:test -- http://localhost:4000/webhooks whsec_... --event task.failed
+ *
+ * Prints the response status and body. Exits non-zero if the receiver does not return 2xx.
+ */
+
+const crypto = require('crypto');
+
+const EVENTS = ['task.completed', 'task.failed', 'webhook.test'];
+
+function parseArgs(argv) {
+  const positional = [];
+  let event = 'task.completed';
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--event') {
+      event = argv[++i];
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+
+  return { url: positional[0], secret: positional[1], event };
+}
+
+function buildPayload(event) {
+  const now = new Date().toISOString();
+  const failed = event === 'task.failed';
+
+  return {
+    id: crypto.randomUUID(),
+    event,
+    created_at: now,
+    data: {
+      task: {
+        id: crypto.randomUUID(),
+        status: failed ? 'failed' : 'completed',
+        sport: 'padel',
+        task_type: 'statistics',
+        video_url: 'https://example.com/match.mp4',
+        estimated_compute_time: 300,
+        error_message: failed ? 'Task could not be processed' : null,
+        created_at: now,
+        updated_at: now,
+        completed_at: failed ? null : now,
+      },
+    },
+  };
+}
+
+// Must match signWebhookPayload in lib/webhooks.ts
+function sign(secret, timestamp, body) {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+async function main() {
+  const { url, secret, event } = parseArgs(process.argv.slice(2));
+
+  if (!url || !secret) {
+    console.error('Usage: node scripts/webhook-test-delivery.js <url> <secret> [--event task.completed|task.failed]');
+    process.exit(1);
+  }
+
+  if (!EVENTS.includes(event)) {
+    console.error(`Unknown event "${event}". Expected one of: ${EVENTS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const payload = buildPayload(event);
+  const body = JSON.stringify(payload);
+  const signature = sign(secret, Math.floor(Date.now() / 1000), body);
+
+  console.log(`POST ${url}`);
+  console.log(`X-SportAI-Event: ${event}`);
+  console.log(`X-SportAI-Delivery: ${payload.id}`);
+  console.log(`X-SportAI-Signature: ${signature}`);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SportAI-Webhooks/1.0',
+        'X-SportAI-Event': event,
+        'X-SportAI-Delivery': payload.id,
+        'X-SportAI-Signature': signature,
+      },
+      body,
+      signal: AbortSignal.timeout(10000),
+    });
+
+    const text = await response.text();
+    console.log(`\n${response.status} ${response.statusText}`);
+    if (text) console.log(text);
+
+    process.exit(response.ok ? 0 : 1);
+  } catch (error) {
+    console.error(`\nDelivery failed: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+main();
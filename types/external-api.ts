@@ -111,6 +111,11 @@ export interface SwingAnalysisContext {
  */
 export type InsightLevel = "beginner" | "developing" | "advanced";
 
+/**
+ * Sports served by the external technique chat (POST /api/external/{sport}/technique-chat)
+ */
+export type ExternalSport = "pickleball" | "tennis" | "padel";
+
 /**
  * Conversation message for multi-turn chats
  */
@@ -121,7 +126,7 @@ export interface ConversationMessage {
 
 /**
  * Technique Chat API Request
- * POST /api/external/pickleball/technique-chat
+ * POST /api/external/{sport}/technique-chat
  */
 export interface TechniqueChatRequest {
   /** User's question about their swing (REQUIRED) */
@@ -140,7 +145,7 @@ export interface TechniqueChatRequest {
   conversationHistory?: ConversationMessage[];
 
   /**
-   * When true, includes a racket recommendation with the response.
+   * When true, includes a racket recommendation with the response (pickleball only).
    * Response format changes to SSE (text/event-stream) with:
    * - event: recommendation (structured racket data)
    * - event: text (streamed explanation)
@@ -166,6 +171,131 @@ export interface ApiErrorResponse {
   retryAfter?: number;
 }
 
+// ============================================================================
+// External Task Types
+// ============================================================================
+
+export type ExternalTaskStatus = "pending" | "processing" | "completed" | "failed";
+
+/**
+ * Create Task Request
+ * POST /api/external/tasks
+ */
+export interface CreateExternalTaskRequest {
+  /** Publicly reachable URL of the match video (REQUIRED) */
+  videoUrl: string;
+
+  /** Sport played in the video - defaults to "padel" */
+  sport?: "padel" | "tennis" | "pickleball";
+
+  /** Video length in seconds (optional, used for progress estimates) */
+  videoLength?: number;
+
+  /** Extra SportAI statistics parameters (e.g., { version: "latest" }) */
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Task as returned by /api/external/tasks
+ */
+export interface ExternalTask {
+  id: string;
+  status: ExternalTaskStatus;
+  sport: string;
+  task_type: string;
+  video_url: string;
+  estimated_compute_time: number | null;
+  error_message: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+// ============================================================================
+// Webhook Types
+// ============================================================================
+
+/**
+ * Events delivered to webhook endpoints. "webhook.test" is only sent on request.
+ */
+export type WebhookEvent = "task.completed" | "task.failed";
+
+/**
+ * Body POSTed to a webhook endpoint.
+ * Signed with the endpoint secret: X-SportAI-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+ */
+export interface WebhookPayload {
+  /** Delivery ID - stable across retries, use it to de-duplicate */
+  id: string;
+  event: WebhookEvent | "webhook.test";
+  created_at: string;
+  data: {
+    task: ExternalTask;
+  };
+}
+
+/**
+ * Webhook endpoint as returned to its owner by /api/webhooks (no secret)
+ */
+export interface WebhookEndpointSummary {
+  id: string;
+  api_key_id: string | null;
+  url: string;
+  description: string | null;
+  events: string[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Create Webhook Request
+ * POST /api/webhooks
+ */
+export interface CreateWebhookRequest {
+  url: string;
+  description?: string;
+  /** Only fire for tasks created with this API key (omit for all of the user's tasks) */
+  apiKeyId?: string | null;
+  /** Defaults to every event */
+  events?: WebhookEvent[];
+}
+
+/**
+ * Update Webhook Request
+ * PATCH /api/webhooks/[webhookId]
+ */
+export interface UpdateWebhookRequest {
+  url?: string;
+  description?: string | null;
+  events?: WebhookEvent[];
+  is_active?: boolean;
+}
+
+/**
+ * Response for webhook creation. `secret` is only ever returned here.
+ */
+export interface CreatedWebhookResponse {
+  webhook: WebhookEndpointSummary;
+  secret: string;
+}
+
+/**
+ * Entry in a webhook endpoint's delivery log
+ */
+export interface WebhookDeliverySummary {
+  id: string;
+  task_id: string | null;
+  event: string;
+  status: "pending" | "sending" | "succeeded" | "failed";
+  attempts: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
 // ============================================================================
 // API Key Types (internal use)
 // ============================================================================
@@ -177,6 +307,7 @@ export interface ApiKeyRecord {
   id: string;
   key_hash: string;
   key_prefix: string;
+  user_id: string | null;
   name: string;
   owner_email: string | null;
   description: string | null;
@@ -198,6 +329,8 @@ export interface ApiKeyRecord {
  */
 export interface ValidatedApiKey {
   id: string;
+  /** Profile that owns the key (null for manually issued keys) */
+  userId: string | null;
   name: string;
   permissions: string[];
   rateLimitTier: string;
@@ -205,6 +338,43 @@ export interface ValidatedApiKey {
   requestsThisMonth: number;
 }
 
+/**
+ * API key as returned to its owner by /api/developer/keys (no hash)
+ */
+export type ApiKeySummary = Omit<ApiKeyRecord, "key_hash" | "user_id" | "metadata">;
+
+/**
+ * Create API Key Request
+ * POST /api/developer/keys
+ */
+export interface CreateApiKeyRequest {
+  name: string;
+  description?: string;
+  /** Scopes from API_KEY_SCOPES (e.g., ["pickleball:chat"]) */
+  permissions: string[];
+  /** Omit for a key that never expires */
+  expiresInDays?: number;
+}
+
+/**
+ * Update API Key Request
+ * PATCH /api/developer/keys/[keyId]
+ */
+export interface UpdateApiKeyRequest {
+  name?: string;
+  description?: string | null;
+  permissions?: string[];
+}
+
+/**
+ * Response for key creation and rotation.
+ * `rawKey` is only ever returned here - it cannot be retrieved again.
+ */
+export interface IssuedApiKeyResponse {
+  key: ApiKeySummary;
+  rawKey: string;
+}
+
 // ============================================================================
 // Racket Recommendation Types
 // ============================================================================
@@ -90,6 +90,28 @@ export function formatH36MJoints(indices: number[]): string {
  */
 export const H36M_JOINT_COUNT = 17;
 
+// ============================================================================
+// Keypoint Types
+// ============================================================================
+
+/**
+ * A 2D H36M joint in video pixel coordinates
+ */
+export interface H36MKeypoint {
+  x: number;
+  y: number;
+  score: number; // 0-1, carried over from the source model (min of sources for synthesized joints)
+}
+
+/**
+ * A full H36M skeleton; keypoints are indexed by H36MJoint
+ */
+export interface H36MPose {
+  keypoints: H36MKeypoint[];
+  score?: number;
+  id?: number;
+}
+
 // ============================================================================
 // Limb Definitions (pairs of joints that form limbs)
 // ============================================================================
@@ -0,0 +1,45 @@
+/**
+ * Player Identity Types
+ *
+ * Named people tracked across statistics tasks (see
+ * lib/supabase-player-identities.sql). Shared by the API routes and the
+ * client hooks, so keep it free of server imports.
+ */
+
+import type { RacketSport } from "./profile";
+
+/**
+ * Normalized appearance histogram of a player's thumbnail crop
+ */
+export type AppearanceSignature = number[];
+
+/**
+ * One task player assigned to an identity
+ */
+export interface PlayerIdentityLink {
+  task_id: string;
+  player_id: number;
+  signature: AppearanceSignature | null;
+}
+
+/**
+ * Identity with every task player linked to it, as listed by
+ * GET /api/player-identities
+ */
+export interface PlayerIdentity {
+  id: string;
+  name: string;
+  sport: RacketSport | null;
+  created_at: string;
+  links: PlayerIdentityLink[];
+}
+
+/**
+ * Likely identity for an unassigned task player
+ */
+export interface PlayerIdentitySuggestion {
+  playerId: number;
+  identityId: string;
+  /** Appearance similarity, 0-1 */
+  similarity: number;
+}
@@ -4,6 +4,8 @@
  * Used for AI-powered player profile generation with radar chart attributes.
  */
 
+import type { TaskArtifactMeta } from "./task-artifact";
+
 /**
  * Player profile attributes scored 0-100
  */
@@ -72,6 +74,8 @@ export interface PlayerProfileRequest {
 export interface PlayerProfileResponse {
   profiles: PlayerProfile[];
   modelUsed: string;
+  /** Stored version served or saved (null when the task isn't persisted) */
+  artifact?: TaskArtifactMeta | null;
 }
 
 /**
@@ -42,6 +42,32 @@ export interface StoredPoseData {
   };
 }
 
+/**
+ * Compression applied to the typed-array payload of a v2 pose file.
+ * Brotli is only available where CompressionStream supports it.
+ */
+export type PoseDataCompression = "none" | "gzip" | "brotli";
+
+/**
+ * JSON header of a v2 binary pose file.
+ * The frames follow it as quantised, delta-coded typed arrays.
+ */
+export interface StoredPoseDataV2Header {
+  version: 2;
+  createdAt: string; // ISO timestamp
+  // Keypoint names in index order, stored once instead of per keypoint
+  keypointNames: string[];
+  frameCount: number;
+  poseCount: number;
+  keypointCount: number;
+  // Quantisation: stored integer = Math.round(value * scale)
+  coordinateScale: number;
+  scoreScale: number;
+  compression: PoseDataCompression;
+  // Model and video metadata, or any other JSON fields stored alongside the poses
+  metadata: Record<string, unknown>;
+}
+
 // ============================================================================
 // Pose Connection Types
 // ============================================================================
@@ -81,6 +81,30 @@ export interface SharkAnalysisResult {
   video_entry_3D_json?: unknown;
 }
 
+/**
+ * One frame of 2D H36M keypoints in `video_entry_2D_json`
+ */
+export interface SharkVideoEntry2DFrame {
+  frame_nr: number;
+  timestamp: number; // Seconds
+  /** 17 H36M joints as [x, y, confidence] in video pixels, or null when no player was detected */
+  keypoints: Array<[number, number, number]> | null;
+}
+
+/**
+ * 2D skeleton track in the `video_entry_2D_json` layout, as produced locally
+ * by utils/h36m-pose.ts
+ */
+export interface SharkVideoEntry2D {
+  joint_format: "h36m";
+  joint_names: string[];
+  fps: number;
+  width?: number;
+  height?: number;
+  source_model: string;
+  frames: SharkVideoEntry2DFrame[];
+}
+
 /**
  * Calculate the average score across all categories (ignoring 0 scores)
  */
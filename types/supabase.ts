@@ -30,6 +30,8 @@ type BusinessTypeType =
   | "tournament-organizer" | "fitness-wellness" | "sports-analytics" | "other";
 
 type TaskStatusType = "pending" | "processing" | "completed" | "failed";
+type WebhookDeliveryStatusType = "pending" | "sending" | "succeeded" | "failed";
+type TaskArtifactTypeType = "tactical_analysis" | "player_profiles" | "player_nicknames" | "swing_profiles";
 
 export interface Database {
   public: {
@@ -516,6 +518,10 @@ export interface Database {
           request_params: Json | null;
           result_s3_key: string | null;
           error_message: string | null;
+          court_calibration: Json | null;
+          rally_outcomes: Json | null;
+          match_corrections: Json | null;
+          api_key_id: string | null;
           created_at: string;
           updated_at: string;
           completed_at: string | null;
@@ -536,6 +542,10 @@ export interface Database {
           request_params?: Json | null;
           result_s3_key?: string | null;
           error_message?: string | null;
+          court_calibration?: Json | null;
+          rally_outcomes?: Json | null;
+          match_corrections?: Json | null;
+          api_key_id?: string | null;
           created_at?: string;
           updated_at?: string;
           completed_at?: string | null;
@@ -556,6 +566,10 @@ export interface Database {
           request_params?: Json | null;
           result_s3_key?: string | null;
           error_message?: string | null;
+          court_calibration?: Json | null;
+          rally_outcomes?: Json | null;
+          match_corrections?: Json | null;
+          api_key_id?: string | null;
           created_at?: string;
           updated_at?: string;
           completed_at?: string | null;
@@ -575,6 +589,7 @@ export interface Database {
           id: string;
           key_hash: string;
           key_prefix: string;
+          user_id: string | null;
           name: string;
           owner_email: string | null;
           description: string | null;
@@ -594,6 +609,7 @@ export interface Database {
           id?: string;
           key_hash: string;
           key_prefix: string;
+          user_id?: string | null;
           name: string;
           owner_email?: string | null;
           description?: string | null;
@@ -613,6 +629,7 @@ export interface Database {
           id?: string;
           key_hash?: string;
           key_prefix?: string;
+          user_id?: string | null;
           name?: string;
           owner_email?: string | null;
           description?: string | null;
@@ -628,7 +645,267 @@ export interface Database {
           total_requests?: number;
           metadata?: Json;
         };
-        Relationships: [];
+        Relationships: [
+          {
+            foreignKeyName: "api_keys_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      webhook_endpoints: {
+        Row: {
+          id: string;
+          user_id: string;
+          api_key_id: string | null;
+          url: string;
+          description: string | null;
+          secret: string;
+          events: string[];
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          api_key_id?: string | null;
+          url: string;
+          description?: string | null;
+          secret: string;
+          events?: string[];
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          api_key_id?: string | null;
+          url?: string;
+          description?: string | null;
+          secret?: string;
+          events?: string[];
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "webhook_endpoints_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "webhook_endpoints_api_key_id_fkey";
+            columns: ["api_key_id"];
+            isOneToOne: false;
+            referencedRelation: "api_keys";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      webhook_deliveries: {
+        Row: {
+          id: string;
+          endpoint_id: string;
+          task_id: string | null;
+          event: string;
+          payload: Json;
+          status: WebhookDeliveryStatusType;
+          attempts: number;
+          last_status_code: number | null;
+          last_error: string | null;
+          next_attempt_at: string | null;
+          created_at: string;
+          delivered_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          endpoint_id: string;
+          task_id?: string | null;
+          event: string;
+          payload: Json;
+          status?: WebhookDeliveryStatusType;
+          attempts?: number;
+          last_status_code?: number | null;
+          last_error?: string | null;
+          next_attempt_at?: string | null;
+          created_at?: string;
+          delivered_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          endpoint_id?: string;
+          task_id?: string | null;
+          event?: string;
+          payload?: Json;
+          status?: WebhookDeliveryStatusType;
+          attempts?: number;
+          last_status_code?: number | null;
+          last_error?: string | null;
+          next_attempt_at?: string | null;
+          created_at?: string;
+          delivered_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey";
+            columns: ["endpoint_id"];
+            isOneToOne: false;
+            referencedRelation: "webhook_endpoints";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "webhook_deliveries_task_id_fkey";
+            columns: ["task_id"];
+            isOneToOne: false;
+            referencedRelation: "sportai_tasks";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      task_artifacts: {
+        Row: {
+          id: string;
+          task_id: string;
+          user_id: string;
+          artifact_type: TaskArtifactTypeType;
+          input_hash: string;
+          version: number;
+          content: Json;
+          model: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          task_id: string;
+          user_id: string;
+          artifact_type: TaskArtifactTypeType;
+          input_hash: string;
+          version?: number;
+          content: Json;
+          model?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          task_id?: string;
+          user_id?: string;
+          artifact_type?: TaskArtifactTypeType;
+          input_hash?: string;
+          version?: number;
+          content?: Json;
+          model?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "task_artifacts_task_id_fkey";
+            columns: ["task_id"];
+            isOneToOne: false;
+            referencedRelation: "sportai_tasks";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "task_artifacts_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      player_identities: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          sport: SportType | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          sport?: SportType | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          sport?: SportType | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "player_identities_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      player_identity_links: {
+        Row: {
+          id: string;
+          identity_id: string;
+          task_id: string;
+          user_id: string;
+          player_id: number;
+          signature: Json | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          identity_id: string;
+          task_id: string;
+          user_id: string;
+          player_id: number;
+          signature?: Json | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          identity_id?: string;
+          task_id?: string;
+          user_id?: string;
+          player_id?: number;
+          signature?: Json | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "player_identity_links_identity_id_fkey";
+            columns: ["identity_id"];
+            isOneToOne: false;
+            referencedRelation: "player_identities";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "player_identity_links_task_id_fkey";
+            columns: ["task_id"];
+            isOneToOne: false;
+            referencedRelation: "sportai_tasks";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "player_identity_links_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          }
+        ];
       };
     };
     Views: {
@@ -5,6 +5,8 @@
  * Similar to player-profile but focused on individual swing biomechanics.
  */
 
+import type { TaskArtifactMeta } from "./task-artifact";
+
 /**
  * Swing technique attributes scored 0-100
  */
@@ -70,6 +72,8 @@ export interface SwingProfileRequest {
 export interface SwingProfileResponse {
   profiles: SwingProfile[];
   modelUsed: string;
+  /** Stored version served or saved (null when the task isn't persisted) */
+  artifact?: TaskArtifactMeta | null;
 }
 
 /**
@@ -5,6 +5,8 @@
  * Used by the tactical analysis hook and API route.
  */
 
+import type { PlayerServeReport } from "@/utils/serve-analytics";
+
 /**
  * Ball sequence types in rally analysis
  */
@@ -111,6 +113,27 @@ export interface TacticalAnalysisAllRequest {
   sport?: string;
 }
 
+/**
+ * One player's serve report, named for the prompt
+ */
+export interface ServeAnalysisPlayerData extends PlayerServeReport {
+  playerName: string;
+}
+
+/**
+ * Request payload for the serve summary (Serves sub-tab)
+ */
+export interface ServeAnalysisRequest {
+  serveReport: {
+    /** Tennis and padel allow a second serve */
+    hasSecondServe: boolean;
+    players: ServeAnalysisPlayerData[];
+  };
+  
+  /** Sport context (padel, tennis, pickleball) */
+  sport?: string;
+}
+
 /**
  * Response from tactical analysis API
  */
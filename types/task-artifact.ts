@@ -0,0 +1,55 @@
+/**
+ * Task Artifact Types
+ *
+ * AI-generated content stored per task (see lib/supabase-task-artifacts.sql).
+ * Shared by the generating routes, GET /api/tasks/[taskId]/artifacts and the
+ * client hooks, so keep it free of server imports.
+ */
+
+export type TaskArtifactType =
+  | "tactical_analysis"
+  | "player_profiles"
+  | "player_nicknames"
+  | "swing_profiles";
+
+/**
+ * Which stored version a generating route returned
+ */
+export interface TaskArtifactMeta {
+  id: string;
+  input_hash: string;
+  version: number;
+  /** Served from storage rather than generated by this request */
+  cached: boolean;
+  created_at: string;
+}
+
+/**
+ * One stored version, as listed by GET /api/tasks/[taskId]/artifacts
+ */
+export interface TaskArtifactVersion<TContent = unknown> {
+  id: string;
+  artifact_type: TaskArtifactType;
+  input_hash: string;
+  version: number;
+  content: TContent;
+  model: string | null;
+  created_at: string;
+}
+
+/**
+ * Fields the client adds to a generating request to use the artifact store.
+ * Ignored for unauthenticated requests and tasks the caller doesn't own.
+ */
+export interface TaskArtifactRequestFields {
+  taskId?: string;
+  /** Skip the stored version and generate a new one */
+  regenerate?: boolean;
+}
+
+// Response headers used by the streamed tactical analysis
+export const ARTIFACT_ID_HEADER = "X-Artifact-Id";
+export const ARTIFACT_INPUT_HASH_HEADER = "X-Artifact-Input-Hash";
+export const ARTIFACT_VERSION_HEADER = "X-Artifact-Version";
+export const ARTIFACT_CACHED_HEADER = "X-Artifact-Cached";
+export const ARTIFACT_CREATED_AT_HEADER = "X-Artifact-Created-At";
@@ -0,0 +1,39 @@
+/**
+ * Task Stream Types
+ *
+ * Server-sent events from GET /api/tasks/stream, which pushes status changes
+ * for the user's in-flight tasks instead of each client polling every task.
+ */
+
+/**
+ * SSE event types on the task stream
+ */
+export type TaskStreamEventType =
+  | "snapshot"   // Initial state of every in-flight task
+  | "task"       // A single task changed
+  | "heartbeat"  // Keep-alive while nothing changes
+  | "done"       // Stream is closing (see TaskStreamDone.reason)
+  | "error";     // Stream failed; client should fall back to polling
+
+/**
+ * Progress fields of a task row pushed to the client
+ */
+export interface TaskProgressUpdate {
+  id: string;
+  status: "pending" | "processing" | "completed" | "failed";
+  /** Same convention as the task row: negative = remaining seconds, positive = total seconds */
+  estimated_compute_time: number | null;
+  error_message: string | null;
+  result_s3_key: string | null;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface TaskStreamSnapshot {
+  tasks: TaskProgressUpdate[];
+}
+
+export interface TaskStreamDone {
+  /** "idle": no tasks left in flight; "timeout": reconnect to keep following */
+  reason: "idle" | "timeout";
+}
@@ -0,0 +1,211 @@
+/**
+ * Appearance Signature
+ * Compact color description of a player's thumbnail crop, used to suggest
+ * which known player identity an anonymous task player is
+ *
+ * - The full-person crop is scaled down and split into a torso band (shirt)
+ *   and a leg band (shorts or skirt)
+ * - Each band gets a hue x saturation histogram for colored pixels plus
+ *   brightness bins for black, grey and white pixels
+ * - Signatures are compared with the Bhattacharyya coefficient (0-1)
+ *
+ * Runs in the browser; crops never leave the device, only the histogram is
+ * stored.
+ */
+
+import type {
+  AppearanceSignature,
+  PlayerIdentity,
+  PlayerIdentitySuggestion,
+} from "@/types/player-identity";
+
+const HUE_BINS = 12;
+const SATURATION_BINS = 2;
+const GRAY_BINS = 4;
+const BAND_BINS = HUE_BINS * SATURATION_BINS + GRAY_BINS;
+
+// Vertical bands of a full-person crop, as fractions of its height
+const BANDS: [number, number][] = [
+  [0.2, 0.55], // Torso
+  [0.55, 0.85], // Legs
+];
+
+// Side margins skipped to leave out background next to the body
+const SIDE_MARGIN = 0.2;
+
+// Pixels below these are treated as black, grey or white
+const MIN_SATURATION = 0.2;
+const MIN_VALUE = 0.15;
+
+// Crops are scaled to this size before sampling
+const SAMPLE_WIDTH = 32;
+const SAMPLE_HEIGHT = 64;
+
+// Suggestions need at least this similarity
+export const MIN_SUGGESTION_SIMILARITY = 0.85;
+
+function getBin(r: number, g: number, b: number): number {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const value = max / 255;
+  const saturation = max > 0 ? (max - min) / max : 0;
+
+  if (saturation < MIN_SATURATION || value < MIN_VALUE) {
+    return HUE_BINS * SATURATION_BINS + Math.min(GRAY_BINS - 1, Math.floor(value * GRAY_BINS));
+  }
+
+  let hue: number;
+  const delta = max - min;
+  if (max === r) hue = ((g - b) / delta + 6) % 6;
+  else if (max === g) hue = (b - r) / delta + 2;
+  else hue = (r - g) / delta + 4;
+
+  const hueBin = Math.min(HUE_BINS - 1, Math.floor((hue / 6) * HUE_BINS));
+  const satBin = Math.min(SATURATION_BINS - 1, Math.floor(((saturation - MIN_SATURATION) / (1 - MIN_SATURATION)) * SATURATION_BINS));
+  return hueBin * SATURATION_BINS + satBin;
+}
+
+/**
+ * Signature of RGBA pixel data (as from getImageData), or null for an
+ * empty image
+ */
+export function getPixelSignature(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number
+): AppearanceSignature | null {
+  const signature: AppearanceSignature = new Array(BANDS.length * BAND_BINS).fill(0);
+  const x0 = Math.floor(width * SIDE_MARGIN);
+  const x1 = Math.ceil(width * (1 - SIDE_MARGIN));
+
+  for (let band = 0; band < BANDS.length; band++) {
+    const y0 = Math.floor(height * BANDS[band][0]);
+    const y1 = Math.ceil(height * BANDS[band][1]);
+    const offset = band * BAND_BINS;
+    let count = 0;
+
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const i = (y * width + x) * 4;
+        signature[offset + getBin(data[i], data[i + 1], data[i + 2])]++;
+        count++;
+      }
+    }
+    if (count === 0) return null;
+
+    // Each band weighs the same, so the whole signature sums to 1
+    for (let bin = 0; bin < BAND_BINS; bin++) {
+      signature[offset + bin] = Math.round((signature[offset + bin] / count / BANDS.length) * 10000) / 10000;
+    }
+  }
+
+  return signature;
+}
+
+/**
+ * Signature of an image URL (typically a portrait data URL). Returns null
+ * when the image can't be loaded or read.
+ */
+export async function computeAppearanceSignature(src: string): Promise<AppearanceSignature | null> {
+  try {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Failed to load image"));
+      image.src = src;
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = SAMPLE_WIDTH;
+    canvas.height = SAMPLE_HEIGHT;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) return null;
+
+    ctx.drawImage(image, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    return getPixelSignature(data, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  } catch {
+    // Tainted canvas or broken image
+    return null;
+  }
+}
+
+export function isValidAppearanceSignature(value: unknown): value is AppearanceSignature {
+  return (
+    Array.isArray(value) &&
+    value.length === BANDS.length * BAND_BINS &&
+    value.every((v) => typeof v === "number" && Number.isFinite(v) && v >= 0 && v <= 1)
+  );
+}
+
+/**
+ * Bhattacharyya coefficient of two signatures: 1 for identical colors,
+ * 0 for no overlap
+ */
+export function compareAppearanceSignatures(a: AppearanceSignature, b: AppearanceSignature): number {
+  if (a.length !== b.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.sqrt(a[i] * b[i]);
+  return Math.min(1, sum);
+}
+
+/**
+ * Best match of an identity across its linked task players, since outfits
+ * change between sessions
+ */
+function getIdentitySimilarity(signature: AppearanceSignature, identity: PlayerIdentity): number {
+  return identity.links.reduce(
+    (best, link) => (link.signature ? Math.max(best, compareAppearanceSignatures(signature, link.signature)) : best),
+    0
+  );
+}
+
+/**
+ * Suggested identities for the unassigned players of a task. Each identity
+ * is suggested at most once per task (one person can't be two players), and
+ * identities already assigned in the task are skipped.
+ */
+export function suggestPlayerIdentities(
+  signatures: Record<number, AppearanceSignature>,
+  identities: PlayerIdentity[],
+  taskId: string
+): PlayerIdentitySuggestion[] {
+  const assignedPlayers = new Set<number>();
+  const assignedIdentities = new Set<string>();
+  for (const identity of identities) {
+    for (const link of identity.links) {
+      if (link.task_id !== taskId) continue;
+      assignedPlayers.add(link.player_id);
+      assignedIdentities.add(identity.id);
+    }
+  }
+
+  const candidates: PlayerIdentitySuggestion[] = [];
+  for (const [playerIdStr, signature] of Object.entries(signatures)) {
+    const playerId = Number(playerIdStr);
+    if (assignedPlayers.has(playerId)) continue;
+
+    for (const identity of identities) {
+      if (assignedIdentities.has(identity.id)) continue;
+      // Only compare against appearances from other tasks
+      const others = { ...identity, links: identity.links.filter((l) => l.task_id !== taskId) };
+      const similarity = getIdentitySimilarity(signature, others);
+      if (similarity >= MIN_SUGGESTION_SIMILARITY) {
+        candidates.push({ playerId, identityId: identity.id, similarity });
+      }
+    }
+  }
+
+  // Greedy best-first, so the closest pairs win conflicts
+  candidates.sort((a, b) => b.similarity - a.similarity);
+  const suggestions: PlayerIdentitySuggestion[] = [];
+  for (const candidate of candidates) {
+    if (assignedPlayers.has(candidate.playerId) || assignedIdentities.has(candidate.identityId)) continue;
+    suggestions.push(candidate);
+    assignedPlayers.add(candidate.playerId);
+    assignedIdentities.add(candidate.identityId);
+  }
+
+  return suggestions;
+}
@@ -0,0 +1,141 @@
+/**
+ * Court Calibration Seeding
+ * Builds an initial calibration from automatically detected court points so the
+ * user only has to correct points instead of marking all of them.
+ *
+ * Sources:
+ * - SportAI court keypoints (StatisticsResult.debug_data.court_keypoints)
+ * - Frame analysis court corners (/api/analyze-frame → CourtAnalysisResult)
+ */
+
+import type { CourtCorners } from "@/types/frame-analysis";
+import {
+  fitCalibration,
+  getCourtReferencePoints,
+  type CalibrationFit,
+  type CalibrationPoint,
+  type CalibrationSport,
+} from "./court-calibration";
+
+export type CalibrationSeedSource = "court-keypoints" | "frame-analysis";
+
+export interface CalibrationSeed extends CalibrationFit {
+  source: CalibrationSeedSource;
+}
+
+type CourtKeypoints = ([number, number] | [null, null])[];
+
+// SportAI keypoint index → reference point id (see CourtOverlay for the layouts).
+// Only keypoints whose position on court is unambiguous are used.
+const KEYPOINT_REFERENCE_IDS: Partial<Record<CalibrationSport, Record<number, string>>> = {
+  padel: {
+    0: "back-left",
+    1: "back-right",
+    2: "service-back-left",
+    3: "service-back-center",
+    4: "service-back-right",
+    5: "service-front-left",
+    6: "net-left",
+    7: "net-right",
+    8: "service-front-right",
+    9: "front-left",
+    11: "front-right",
+  },
+  tennis: {
+    2: "near-baseline-left",
+    3: "near-baseline-right",
+    4: "far-baseline-left",
+    5: "near-baseline-singles-left",
+    6: "far-center-mark",
+    7: "near-baseline-singles-right",
+    9: "far-baseline-right",
+    10: "near-service-left",
+    11: "near-service-right",
+    12: "net-center",
+    13: "near-service-t",
+    15: "far-service-left",
+    17: "far-service-right",
+  },
+};
+
+// Frame analysis corners are the baseline/sideline intersections, top = far side
+const CORNER_REFERENCE_IDS: Record<CalibrationSport, Record<keyof CourtCorners, string>> = {
+  padel: {
+    topLeft: "back-left",
+    topRight: "back-right",
+    bottomLeft: "front-left",
+    bottomRight: "front-right",
+  },
+  tennis: {
+    topLeft: "far-baseline-left",
+    topRight: "far-baseline-right",
+    bottomLeft: "near-baseline-left",
+    bottomRight: "near-baseline-right",
+  },
+  pickleball: {
+    topLeft: "far-baseline-left",
+    topRight: "far-baseline-right",
+    bottomLeft: "near-baseline-left",
+    bottomRight: "near-baseline-right",
+  },
+};
+
+function isNormalized(value: number): boolean {
+  return Number.isFinite(value) && value >= 0 && value <= 1;
+}
+
+function toCalibrationPoint(
+  sport: CalibrationSport,
+  pointId: string,
+  videoX: number,
+  videoY: number
+): CalibrationPoint | null {
+  const ref = getCourtReferencePoints(sport)[pointId];
+  if (!ref || !isNormalized(videoX) || !isNormalized(videoY)) return null;
+
+  return { pointId, videoX, videoY, courtX: ref.x, courtY: ref.y, label: ref.label };
+}
+
+/**
+ * Seed a calibration from SportAI's detected court keypoints.
+ * Returns null when the sport has no known keypoint layout or too few points were detected.
+ */
+export function seedFromCourtKeypoints(
+  sport: CalibrationSport,
+  keypoints: CourtKeypoints | undefined
+): CalibrationSeed | null {
+  const mapping = KEYPOINT_REFERENCE_IDS[sport];
+  if (!mapping || !keypoints?.length) return null;
+
+  const points = Object.entries(mapping)
+    .map(([index, pointId]) => {
+      const [x, y] = keypoints[Number(index)] ?? [null, null];
+      return x === null || y === null ? null : toCalibrationPoint(sport, pointId, x, y);
+    })
+    .filter((p): p is CalibrationPoint => p !== null);
+
+  const fit = fitCalibration(points);
+  return fit ? { ...fit, source: "court-keypoints" } : null;
+}
+
+/**
+ * Seed a calibration from the 4 court corners returned by frame analysis.
+ * Four points give an exact fit, so the reprojection error is always ~0 here.
+ */
+export function seedFromCourtCorners(
+  sport: CalibrationSport,
+  corners: CourtCorners | undefined
+): CalibrationSeed | null {
+  if (!corners) return null;
+
+  const points = (Object.keys(CORNER_REFERENCE_IDS[sport]) as (keyof CourtCorners)[])
+    .map(corner => {
+      const { x, y } = corners[corner] ?? {};
+      if (x === undefined || y === undefined) return null;
+      return toCalibrationPoint(sport, CORNER_REFERENCE_IDS[sport][corner], x, y);
+    })
+    .filter((p): p is CalibrationPoint => p !== null);
+
+  const fit = fitCalibration(points);
+  return fit ? { ...fit, source: "frame-analysis" } : null;
+}
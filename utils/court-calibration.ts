@@ -0,0 +1,414 @@
+/**
+ * Court Calibration
+ * Sport-aware court reference points and video → court homography
+ *
+ * Court coordinates are in meters with the origin at the far-left corner
+ * (top-left in the 2D court views, back wall for padel):
+ * - Padel: 10m x 20m, net at y=10
+ * - Tennis: 10.97m x 23.77m (doubles), net at y=11.885
+ * - Pickleball: 6.10m x 13.41m, net at y=6.705
+ */
+
+import type {
+  Task,
+  StatisticsResult,
+  PlayerPosition,
+} from "@/components/tasks/viewer/types";
+
+export type CalibrationSport = "padel" | "tennis" | "pickleball";
+
+export interface CourtReferencePoint {
+  x: number; // Meters
+  y: number; // Meters
+  label: string;
+}
+
+export interface CalibrationPoint {
+  pointId: string; // Key into the sport's reference points
+  videoX: number; // Normalized 0-1
+  videoY: number; // Normalized 0-1
+  courtX: number; // Meters
+  courtY: number; // Meters
+  label: string;
+}
+
+/**
+ * Persisted calibration for a task (stored in sportai_tasks.court_calibration)
+ */
+export interface CourtCalibrationData {
+  sport: CalibrationSport;
+  matrix: number[][]; // 3x3 homography: normalized video coords → court meters
+  points: CalibrationPoint[];
+  calibrated_at: string;
+}
+
+export const MIN_CALIBRATION_POINTS = 4;
+
+// Lengths are along the court (baseline to baseline), widths across it
+export const COURT_DIMENSIONS = {
+  padel: {
+    width: 10,
+    length: 20,
+    serviceLineFromBack: 3,
+  },
+  tennis: {
+    width: 10.97,
+    length: 23.77,
+    singlesInset: 1.37,
+    serviceLineFromBaseline: 5.485, // 6.40m from the net
+    centerMarkLength: 0.1,
+  },
+  pickleball: {
+    width: 6.1,
+    length: 13.41,
+    kitchenDepth: 2.13, // Non-volley zone depth from the net
+  },
+} as const;
+
+export function getCalibrationSport(sport?: Task["sport"] | string): CalibrationSport | null {
+  if (sport === "padel" || sport === "tennis" || sport === "pickleball") {
+    return sport;
+  }
+  return null;
+}
+
+export function getCourtDimensions(sport: CalibrationSport): { width: number; length: number } {
+  const { width, length } = COURT_DIMENSIONS[sport];
+  return { width, length };
+}
+
+// Padel: back wall, service line and net points on both halves
+function buildPadelReferencePoints(): Record<string, CourtReferencePoint> {
+  const { width, length, serviceLineFromBack } = COURT_DIMENSIONS.padel;
+  const netY = length / 2;
+  const centerX = width / 2;
+
+  return {
+    "back-left": { x: 0, y: 0, label: "Back wall - Left corner" },
+    "back-right": { x: width, y: 0, label: "Back wall - Right corner" },
+    "service-back-left": { x: 0, y: serviceLineFromBack, label: "Service line (back) - Left" },
+    "service-back-right": { x: width, y: serviceLineFromBack, label: "Service line (back) - Right" },
+    "service-back-center": { x: centerX, y: serviceLineFromBack, label: "Service line (back) - Center" },
+    "net-left": { x: 0, y: netY, label: "Net - Left post" },
+    "net-right": { x: width, y: netY, label: "Net - Right post" },
+    "net-center": { x: centerX, y: netY, label: "Net - Center" },
+    "service-front-left": { x: 0, y: length - serviceLineFromBack, label: "Service line (front) - Left" },
+    "service-front-right": { x: width, y: length - serviceLineFromBack, label: "Service line (front) - Right" },
+    "service-front-center": { x: centerX, y: length - serviceLineFromBack, label: "Service line (front) - Center" },
+    "front-left": { x: 0, y: length, label: "Front wall - Left corner" },
+    "front-right": { x: width, y: length, label: "Front wall - Right corner" },
+  };
+}
+
+// Tennis: doubles/singles baseline corners, service boxes and net posts
+function buildTennisReferencePoints(): Record<string, CourtReferencePoint> {
+  const { width, length, singlesInset, serviceLineFromBaseline, centerMarkLength } = COURT_DIMENSIONS.tennis;
+  const netY = length / 2;
+  const centerX = width / 2;
+  const singlesLeft = singlesInset;
+  const singlesRight = width - singlesInset;
+
+  const half = (side: "near" | "far", name: string): Record<string, CourtReferencePoint> => {
+    const mirror = (y: number) => (side === "far" ? y : length - y);
+    return {
+      [`${side}-baseline-left`]: { x: 0, y: mirror(0), label: `${name} baseline - Doubles left corner` },
+      [`${side}-baseline-right`]: { x: width, y: mirror(0), label: `${name} baseline - Doubles right corner` },
+      [`${side}-baseline-singles-left`]: { x: singlesLeft, y: mirror(0), label: `${name} baseline - Singles left corner` },
+      [`${side}-baseline-singles-right`]: { x: singlesRight, y: mirror(0), label: `${name} baseline - Singles right corner` },
+      [`${side}-center-mark`]: { x: centerX, y: mirror(centerMarkLength), label: `${name} baseline - Center mark` },
+      [`${side}-service-left`]: { x: singlesLeft, y: mirror(serviceLineFromBaseline), label: `${name} service line - Left` },
+      [`${side}-service-right`]: { x: singlesRight, y: mirror(serviceLineFromBaseline), label: `${name} service line - Right` },
+      [`${side}-service-t`]: { x: centerX, y: mirror(serviceLineFromBaseline), label: `${name} service line - T` },
+    };
+  };
+
+  return {
+    ...half("far", "Far"),
+    "net-left": { x: 0, y: netY, label: "Net - Left doubles sideline" },
+    "net-right": { x: width, y: netY, label: "Net - Right doubles sideline" },
+    "net-singles-left": { x: singlesLeft, y: netY, label: "Net - Left singles sideline" },
+    "net-singles-right": { x: singlesRight, y: netY, label: "Net - Right singles sideline" },
+    "net-center": { x: centerX, y: netY, label: "Net - Center" },
+    ...half("near", "Near"),
+  };
+}
+
+// Pickleball: baseline corners, kitchen (non-volley zone) lines and net
+function buildPickleballReferencePoints(): Record<string, CourtReferencePoint> {
+  const { width, length, kitchenDepth } = COURT_DIMENSIONS.pickleball;
+  const netY = length / 2;
+  const centerX = width / 2;
+
+  const half = (side: "near" | "far", name: string): Record<string, CourtReferencePoint> => {
+    const mirror = (y: number) => (side === "far" ? y : length - y);
+    const kitchenY = netY - kitchenDepth;
+    return {
+      [`${side}-baseline-left`]: { x: 0, y: mirror(0), label: `${name} baseline - Left corner` },
+      [`${side}-baseline-right`]: { x: width, y: mirror(0), label: `${name} baseline - Right corner` },
+      [`${side}-baseline-center`]: { x: centerX, y: mirror(0), label: `${name} baseline - Center` },
+      [`${side}-kitchen-left`]: { x: 0, y: mirror(kitchenY), label: `${name} kitchen line - Left` },
+      [`${side}-kitchen-right`]: { x: width, y: mirror(kitchenY), label: `${name} kitchen line - Right` },
+      [`${side}-kitchen-t`]: { x: centerX, y: mirror(kitchenY), label: `${name} kitchen line - T` },
+    };
+  };
+
+  return {
+    ...half("far", "Far"),
+    "net-left": { x: 0, y: netY, label: "Net - Left sideline" },
+    "net-right": { x: width, y: netY, label: "Net - Right sideline" },
+    "net-center": { x: centerX, y: netY, label: "Net - Center" },
+    ...half("near", "Near"),
+  };
+}
+
+export const COURT_REFERENCE_POINTS: Record<CalibrationSport, Record<string, CourtReferencePoint>> = {
+  padel: buildPadelReferencePoints(),
+  tennis: buildTennisReferencePoints(),
+  pickleball: buildPickleballReferencePoints(),
+};
+
+export function getCourtReferencePoints(sport: CalibrationSport): Record<string, CourtReferencePoint> {
+  return COURT_REFERENCE_POINTS[sport];
+}
+
+// Solve a small square linear system with Gaussian elimination + partial pivoting
+function solveSquareSystem(A: number[][], b: number[]): number[] | null {
+  const n = A.length;
+  const aug = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let maxRow = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(aug[row][col]) > Math.abs(aug[maxRow][col])) {
+        maxRow = row;
+      }
+    }
+    [aug[col], aug[maxRow]] = [aug[maxRow], aug[col]];
+
+    // Singular system (e.g. collinear points)
+    if (Math.abs(aug[col][col]) < 1e-12) return null;
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = aug[row][col] / aug[col][col];
+      for (let j = col; j <= n; j++) {
+        aug[row][j] -= factor * aug[col][j];
+      }
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = aug[i][n];
+    for (let j = i + 1; j < n; j++) {
+      sum -= aug[i][j] * x[j];
+    }
+    x[i] = sum / aug[i][i];
+  }
+
+  return x.every(Number.isFinite) ? x : null;
+}
+
+/**
+ * Compute the homography mapping normalized video coords (0-1) to court meters.
+ * Uses the 8-parameter DLT formulation solved in the least-squares sense
+ * (normal equations), so 4 points give an exact fit and extra points average out
+ * click error.
+ */
+export function computeHomography(
+  points: Array<Pick<CalibrationPoint, "videoX" | "videoY" | "courtX" | "courtY">>
+): number[][] | null {
+  if (points.length < MIN_CALIBRATION_POINTS) return null;
+
+  // x' = (a*u + b*v + c) / (g*u + h*v + 1)
+  // y' = (d*u + e*v + f) / (g*u + h*v + 1)
+  const AtA: number[][] = Array.from({ length: 8 }, () => new Array(8).fill(0));
+  const Atb: number[] = new Array(8).fill(0);
+
+  const accumulate = (row: number[], rhs: number) => {
+    for (let i = 0; i < 8; i++) {
+      Atb[i] += row[i] * rhs;
+      for (let j = 0; j < 8; j++) {
+        AtA[i][j] += row[i] * row[j];
+      }
+    }
+  };
+
+  for (const { videoX: u, videoY: v, courtX: x, courtY: y } of points) {
+    accumulate([u, v, 1, 0, 0, 0, -x * u, -x * v], x);
+    accumulate([0, 0, 0, u, v, 1, -y * u, -y * v], y);
+  }
+
+  const h = solveSquareSystem(AtA, Atb);
+  if (!h) return null;
+
+  return [
+    [h[0], h[1], h[2]],
+    [h[3], h[4], h[5]],
+    [h[6], h[7], 1],
+  ];
+}
+
+/**
+ * Transform a normalized video point to court meters
+ */
+export function transformPoint(matrix: number[][], videoX: number, videoY: number): { x: number; y: number } | null {
+  const w = matrix[2][0] * videoX + matrix[2][1] * videoY + matrix[2][2];
+  if (Math.abs(w) < 1e-12) return null;
+
+  const x = (matrix[0][0] * videoX + matrix[0][1] * videoY + matrix[0][2]) / w;
+  const y = (matrix[1][0] * videoX + matrix[1][1] * videoY + matrix[1][2]) / w;
+
+  return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : null;
+}
+
+export interface ReprojectionError {
+  rms: number; // Meters
+  max: number; // Meters
+  perPoint: number[]; // Meters, same order as the input points
+}
+
+/**
+ * Distance (in court meters) between each point's known court position and
+ * where the homography projects its video position.
+ * With exactly 4 points the fit is exact, so the error is only meaningful for 5+.
+ */
+export function computeReprojectionError(
+  matrix: number[][],
+  points: Array<Pick<CalibrationPoint, "videoX" | "videoY" | "courtX" | "courtY">>
+): ReprojectionError {
+  const perPoint = points.map(p => {
+    const projected = transformPoint(matrix, p.videoX, p.videoY);
+    return projected ? Math.hypot(projected.x - p.courtX, projected.y - p.courtY) : Infinity;
+  });
+
+  const rms = perPoint.length > 0
+    ? Math.sqrt(perPoint.reduce((sum, e) => sum + e * e, 0) / perPoint.length)
+    : 0;
+
+  return { rms, max: perPoint.length > 0 ? Math.max(...perPoint) : 0, perPoint };
+}
+
+export interface CalibrationFit {
+  matrix: number[][];
+  points: CalibrationPoint[]; // Inliers used for the final fit
+  rejected: CalibrationPoint[]; // Points dropped as outliers
+  error: ReprojectionError;
+}
+
+// Points further than this from their projected position are treated as mislabelled
+const OUTLIER_THRESHOLD_METERS = 0.75;
+
+/**
+ * Fit a homography and iteratively drop the worst point while it is an outlier.
+ * Used for automatically detected points, where a single bad keypoint would
+ * otherwise skew the whole court.
+ */
+export function fitCalibration(points: CalibrationPoint[]): CalibrationFit | null {
+  let inliers = [...points];
+  const rejected: CalibrationPoint[] = [];
+
+  while (inliers.length >= MIN_CALIBRATION_POINTS) {
+    const matrix = computeHomography(inliers);
+    if (!matrix) return null;
+
+    const error = computeReprojectionError(matrix, inliers);
+    const worst = error.perPoint.indexOf(error.max);
+
+    if (error.max <= OUTLIER_THRESHOLD_METERS || inliers.length === MIN_CALIBRATION_POINTS) {
+      return { matrix, points: inliers, rejected, error };
+    }
+
+    rejected.push(inliers[worst]);
+    inliers = inliers.filter((_, i) => i !== worst);
+  }
+
+  return null;
+}
+
+export function isValidCalibration(value: unknown): value is CourtCalibrationData {
+  if (!value || typeof value !== "object") return false;
+  const data = value as Partial<CourtCalibrationData>;
+  return (
+    getCalibrationSport(data.sport) !== null &&
+    Array.isArray(data.matrix) &&
+    data.matrix.length === 3 &&
+    data.matrix.every(row => Array.isArray(row) && row.length === 3 && row.every(Number.isFinite)) &&
+    Array.isArray(data.points)
+  );
+}
+
+// Max time gap when matching a bounce/swing to the nearest tracked sample
+const MAX_SAMPLE_GAP_SECONDS = 0.1;
+
+/** Sample closest to a timestamp, or null when none is within MAX_SAMPLE_GAP_SECONDS */
+export function findNearestByTimestamp<T extends { timestamp: number }>(samples: T[], timestamp: number): T | null {
+  if (samples.length === 0) return null;
+
+  // Samples are ordered by timestamp - binary search for the insertion point
+  let lo = 0;
+  let hi = samples.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid].timestamp < timestamp) lo = mid + 1;
+    else hi = mid;
+  }
+
+  const candidates = [samples[lo], samples[lo - 1]].filter(Boolean);
+  const nearest = candidates.reduce((best, s) =>
+    Math.abs(s.timestamp - timestamp) < Math.abs(best.timestamp - timestamp) ? s : best
+  );
+
+  return Math.abs(nearest.timestamp - timestamp) <= MAX_SAMPLE_GAP_SECONDS ? nearest : null;
+}
+
+/**
+ * Re-project court positions in a result using a manual calibration.
+ * Player positions, bounce positions and swing hit locations are recomputed from
+ * their video coordinates; anything that can't be matched keeps its original value.
+ */
+export function applyCourtCalibration(
+  result: StatisticsResult,
+  calibration: CourtCalibrationData
+): StatisticsResult {
+  const { matrix } = calibration;
+
+  let playerPositions = result.player_positions;
+  if (playerPositions) {
+    playerPositions = Object.fromEntries(
+      Object.entries(playerPositions).map(([playerId, positions]) => [
+        playerId,
+        positions.map((pos): PlayerPosition => {
+          const court = transformPoint(matrix, pos.X, pos.Y);
+          return court ? { ...pos, court_X: court.x, court_Y: court.y } : pos;
+        }),
+      ])
+    );
+  }
+
+  const ballBounces = result.ball_bounces.map(bounce => {
+    const sample = findNearestByTimestamp(result.ball_positions, bounce.timestamp);
+    const court = sample ? transformPoint(matrix, sample.X, sample.Y) : null;
+    return court ? { ...bounce, court_pos: [court.x, court.y] as [number, number] } : bounce;
+  });
+
+  const players = result.players.map(player => {
+    const positions = playerPositions?.[String(player.player_id)];
+    if (!positions?.length) return player;
+
+    return {
+      ...player,
+      swings: player.swings.map(swing => {
+        const sample = findNearestByTimestamp(positions, swing.ball_hit.timestamp);
+        if (sample?.court_X === undefined || sample.court_Y === undefined) return swing;
+        return { ...swing, ball_hit_location: [sample.court_X, sample.court_Y] as [number, number] };
+      }),
+    };
+  });
+
+  return {
+    ...result,
+    players,
+    ball_bounces: ballBounces,
+    player_positions: playerPositions,
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * H36M Pose Conversion
+ * Maps browser pose output (MoveNet COCO-17 or BlazePose 33) onto the
+ * 17-joint H36M skeleton used by Shark.
+ *
+ * H36M joints without a source keypoint are synthesized:
+ * - Root: midpoint of the hips
+ * - Neck: midpoint of the shoulders
+ * - Belly: halfway between root and neck
+ * - Head: top of the head, extrapolated from the neck through the ears (or eyes)
+ */
+
+import type { Keypoint } from "@tensorflow-models/pose-detection";
+import type { PoseDetectionResult } from "@/hooks/usePoseDetection";
+import { POSE_KEYPOINTS, BLAZEPOSE_KEYPOINTS } from "@/types/pose";
+import {
+  H36MJoint,
+  H36M_JOINT_COUNT,
+  H36M_JOINT_NAMES,
+  type H36MKeypoint,
+  type H36MPose,
+} from "@/types/h36m-joints";
+import type { SharkVideoEntry2D, SharkVideoEntry2DFrame } from "@/types/shark";
+
+// Source keypoint indices needed to build an H36M skeleton
+interface SourceIndices {
+  NOSE: number;
+  LEFT_EYE: number;
+  RIGHT_EYE: number;
+  LEFT_EAR: number;
+  RIGHT_EAR: number;
+  LEFT_SHOULDER: number;
+  RIGHT_SHOULDER: number;
+  LEFT_ELBOW: number;
+  RIGHT_ELBOW: number;
+  LEFT_WRIST: number;
+  RIGHT_WRIST: number;
+  LEFT_HIP: number;
+  RIGHT_HIP: number;
+  LEFT_KNEE: number;
+  RIGHT_KNEE: number;
+  LEFT_ANKLE: number;
+  RIGHT_ANKLE: number;
+}
+
+// H36M joints copied straight from a source keypoint
+const DIRECT_JOINTS: Array<[H36MJoint, keyof SourceIndices]> = [
+  [H36MJoint.RIGHT_HIP, "RIGHT_HIP"],
+  [H36MJoint.RIGHT_KNEE, "RIGHT_KNEE"],
+  [H36MJoint.RIGHT_ANKLE, "RIGHT_ANKLE"],
+  [H36MJoint.LEFT_HIP, "LEFT_HIP"],
+  [H36MJoint.LEFT_KNEE, "LEFT_KNEE"],
+  [H36MJoint.LEFT_ANKLE, "LEFT_ANKLE"],
+  [H36MJoint.NOSE, "NOSE"],
+  [H36MJoint.LEFT_SHOULDER, "LEFT_SHOULDER"],
+  [H36MJoint.LEFT_ELBOW, "LEFT_ELBOW"],
+  [H36MJoint.LEFT_WRIST, "LEFT_WRIST"],
+  [H36MJoint.RIGHT_SHOULDER, "RIGHT_SHOULDER"],
+  [H36MJoint.RIGHT_ELBOW, "RIGHT_ELBOW"],
+  [H36MJoint.RIGHT_WRIST, "RIGHT_WRIST"],
+];
+
+// Head top sits about half a head above the ear line, measured from the neck
+const HEAD_TOP_EXTENSION = 0.5;
+// Face keypoints below this are not trusted to place the head
+const MIN_FACE_SCORE = 0.3;
+
+const MISSING: H36MKeypoint = { x: 0, y: 0, score: 0 };
+
+function toH36MKeypoint(keypoint: Keypoint | undefined): H36MKeypoint {
+  if (!keypoint) return MISSING;
+  return { x: keypoint.x, y: keypoint.y, score: keypoint.score ?? 0 };
+}
+
+function midpoint(a: H36MKeypoint, b: H36MKeypoint, t = 0.5): H36MKeypoint {
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    score: Math.min(a.score, b.score),
+  };
+}
+
+type FaceKeypoints = Record<"nose" | "leftEye" | "rightEye" | "leftEar" | "rightEar", H36MKeypoint>;
+
+function estimateHeadTop(neck: H36MKeypoint, face: FaceKeypoints): H36MKeypoint {
+  const visible = (k: H36MKeypoint) => k.score >= MIN_FACE_SCORE;
+
+  // Ears give the most stable head center; eyes and then the nose are fallbacks
+  let center: H36MKeypoint;
+  if (visible(face.leftEar) && visible(face.rightEar)) {
+    center = midpoint(face.leftEar, face.rightEar);
+  } else if (visible(face.leftEye) && visible(face.rightEye)) {
+    center = midpoint(face.leftEye, face.rightEye);
+  } else if (visible(face.leftEar) || visible(face.rightEar)) {
+    center = visible(face.leftEar) ? face.leftEar : face.rightEar;
+  } else {
+    center = face.nose;
+  }
+
+  if (neck.score === 0 || center.score === 0) return MISSING;
+  return {
+    x: center.x + (center.x - neck.x) * HEAD_TOP_EXTENSION,
+    y: center.y + (center.y - neck.y) * HEAD_TOP_EXTENSION,
+    score: Math.min(neck.score, center.score),
+  };
+}
+
+function convertKeypoints(keypoints: Keypoint[], indices: SourceIndices): H36MKeypoint[] {
+  const source = (name: keyof SourceIndices) => toH36MKeypoint(keypoints[indices[name]]);
+  const result: H36MKeypoint[] = new Array(H36M_JOINT_COUNT).fill(MISSING);
+
+  DIRECT_JOINTS.forEach(([joint, name]) => {
+    result[joint] = source(name);
+  });
+
+  const root = midpoint(source("LEFT_HIP"), source("RIGHT_HIP"));
+  const neck = midpoint(source("LEFT_SHOULDER"), source("RIGHT_SHOULDER"));
+  result[H36MJoint.ROOT] = root;
+  result[H36MJoint.NECK] = neck;
+  result[H36MJoint.BELLY] = midpoint(root, neck);
+  result[H36MJoint.HEAD] = estimateHeadTop(neck, {
+    nose: source("NOSE"),
+    leftEye: source("LEFT_EYE"),
+    rightEye: source("RIGHT_EYE"),
+    leftEar: source("LEFT_EAR"),
+    rightEar: source("RIGHT_EAR"),
+  });
+
+  return result;
+}
+
+/**
+ * Convert MoveNet (COCO-17) keypoints to an H36M skeleton
+ */
+export function moveNetToH36M(keypoints: Keypoint[]): H36MKeypoint[] {
+  return convertKeypoints(keypoints, POSE_KEYPOINTS);
+}
+
+/**
+ * Convert BlazePose (33) keypoints to an H36M skeleton
+ */
+export function blazePoseToH36M(keypoints: Keypoint[]): H36MKeypoint[] {
+  return convertKeypoints(keypoints, BLAZEPOSE_KEYPOINTS);
+}
+
+/**
+ * Convert a detected pose to H36M, picking the converter from the keypoint count
+ */
+export function poseToH36M(pose: PoseDetectionResult): H36MPose {
+  const keypoints = pose.keypoints.length >= 33
+    ? blazePoseToH36M(pose.keypoints)
+    : moveNetToH36M(pose.keypoints);
+  return { keypoints, score: pose.score, id: pose.id };
+}
+
+export interface VideoEntry2DOptions {
+  fps: number;
+  modelUsed: string;
+  width?: number;
+  height?: number;
+  /** Export this tracked player (see utils/pose-tracking.ts); defaults to the first pose per frame */
+  trackId?: number | null;
+}
+
+/**
+ * Export preprocessed poses as `video_entry_2D_json`-compatible data, so
+ * local detections can be overlaid with Shark results or sent to Shark
+ */
+export function toVideoEntry2D(
+  preprocessedPoses: Map<number, PoseDetectionResult[]>,
+  { fps, modelUsed, width, height, trackId = null }: VideoEntry2DOptions
+): SharkVideoEntry2D {
+  const frames: SharkVideoEntry2DFrame[] = Array.from(preprocessedPoses.keys())
+    .sort((a, b) => a - b)
+    .map((frame) => {
+      const poses = preprocessedPoses.get(frame) ?? [];
+      const pose = trackId !== null ? poses.find((p) => p.id === trackId) : poses[0];
+      return {
+        frame_nr: frame,
+        timestamp: Math.round((frame / fps) * 1000) / 1000,
+        keypoints: pose
+          ? poseToH36M(pose).keypoints.map((k): [number, number, number] => [
+            Math.round(k.x * 10) / 10,
+            Math.round(k.y * 10) / 10,
+            Math.round(k.score * 1000) / 1000,
+          ])
+          : null,
+      };
+    });
+
+  return {
+    joint_format: "h36m",
+    joint_names: Array.from({ length: H36M_JOINT_COUNT }, (_, i) => H36M_JOINT_NAMES[i]),
+    fps,
+    width,
+    height,
+    source_model: modelUsed,
+    frames,
+  };
+}
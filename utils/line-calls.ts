@@ -0,0 +1,292 @@
+/**
+ * Line Calls
+ * Classifies floor bounces as in, out or too close to call against the
+ * court lines of each sport
+ *
+ * The first floor bounce after a hit is judged against the area that shot
+ * had to land in:
+ * - Serves: the diagonally opposite service box (tennis, padel) or service
+ *   court beyond the kitchen (pickleball - the kitchen line counts as kitchen)
+ * - Other shots: the opponent's half, with tennis tramlines out in singles
+ *
+ * Later bounces of the same shot, and bounces without a matching hit, are
+ * judged against the half they landed on. Only hit-attributed calls count
+ * towards player error rates.
+ */
+
+import type { StatisticsResult, BallBounce, SwingWithPlayer } from "@/components/tasks/viewer/types";
+import { getFilteredPlayers } from "@/components/tasks/viewer/utils";
+import { COURT_DIMENSIONS, getCalibrationSport, getCourtDimensions, type CalibrationSport } from "./court-calibration";
+import type { CourtHalf } from "./match-score";
+
+export type LineCallVerdict = "in" | "out" | "close";
+
+export type LineCallTarget = "court" | "service_box";
+
+/**
+ * Axis-aligned court area in meters (court coordinates)
+ */
+export interface CourtArea {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+export interface LineCall {
+  bounce: BallBounce;
+  verdict: LineCallVerdict;
+  /** Distance to the nearest boundary of the target area: positive inside, negative outside */
+  margin: number;
+  target: LineCallTarget;
+  /** Player whose shot this bounce judges; null for follow-up or unattributed bounces */
+  hitterId: number | null;
+  /** Ball hit time of that shot */
+  hitTimestamp: number | null;
+  isServe: boolean;
+  /** Pickleball only: bounce landed in the non-volley zone */
+  inKitchen: boolean;
+}
+
+export interface PlayerLineCallStats {
+  playerId: number;
+  shots: number;
+  in: number;
+  out: number;
+  close: number;
+  /** Out calls as a share of decided (in + out) calls, 0-1 */
+  errorRate: number;
+  serves: number;
+  serveFaults: number;
+}
+
+export interface LineCallReport {
+  sport: CalibrationSport;
+  isDoubles: boolean;
+  calls: LineCall[];
+  totals: Record<LineCallVerdict, number>;
+  players: PlayerLineCallStats[];
+}
+
+// Bounces this close to a line can't be called given court projection noise
+export const LINE_CALL_MARGIN_M = 0.1;
+
+// A bounce more than this long after a hit isn't that shot's landing
+const SHOT_WINDOW_S = 3.0;
+
+function getHalf(y: number, netY: number): CourtHalf {
+  return y < netY ? "far" : "near";
+}
+
+/**
+ * Playing area of one half, without the tennis tramlines in singles
+ */
+export function getCourtHalfArea(sport: CalibrationSport, half: CourtHalf, isDoubles: boolean): CourtArea {
+  const { width, length } = getCourtDimensions(sport);
+  const netY = length / 2;
+  const inset = sport === "tennis" && !isDoubles ? COURT_DIMENSIONS.tennis.singlesInset : 0;
+
+  return {
+    minX: inset,
+    maxX: width - inset,
+    minY: half === "far" ? 0 : netY,
+    maxY: half === "far" ? netY : length,
+  };
+}
+
+/**
+ * Where a serve has to land on the receiving half. With the server's side
+ * unknown both boxes are accepted.
+ */
+export function getServiceArea(
+  sport: CalibrationSport,
+  half: CourtHalf,
+  serverX: number | null
+): CourtArea {
+  const { width, length } = getCourtDimensions(sport);
+  const netY = length / 2;
+  const centerX = width / 2;
+
+  let minX = 0;
+  let maxX = width;
+  let depth: { fromNet: number; toNet: number };
+
+  switch (sport) {
+    case "tennis":
+      minX = COURT_DIMENSIONS.tennis.singlesInset;
+      maxX = width - COURT_DIMENSIONS.tennis.singlesInset;
+      depth = { fromNet: 0, toNet: netY - COURT_DIMENSIONS.tennis.serviceLineFromBaseline };
+      break;
+    case "padel":
+      depth = { fromNet: 0, toNet: netY - COURT_DIMENSIONS.padel.serviceLineFromBack };
+      break;
+    case "pickleball":
+      // The kitchen line counts as kitchen, so the service court starts a call
+      // margin beyond it: a serve on the line is out rather than too close to call
+      depth = { fromNet: COURT_DIMENSIONS.pickleball.kitchenDepth + LINE_CALL_MARGIN_M, toNet: netY };
+      break;
+  }
+
+  // Serves go diagonally across the court
+  if (serverX !== null) {
+    if (serverX < centerX) minX = centerX;
+    else maxX = centerX;
+  }
+
+  return half === "far"
+    ? { minX, maxX, minY: netY - depth.toNet, maxY: netY - depth.fromNet }
+    : { minX, maxX, minY: netY + depth.fromNet, maxY: netY + depth.toNet };
+}
+
+/**
+ * Signed distance from a point to an area's boundary: positive inside,
+ * negative outside
+ */
+export function getSignedMargin([x, y]: [number, number], area: CourtArea): number {
+  const dx = Math.max(area.minX - x, 0, x - area.maxX);
+  const dy = Math.max(area.minY - y, 0, y - area.maxY);
+
+  if (dx === 0 && dy === 0) {
+    return Math.min(x - area.minX, area.maxX - x, y - area.minY, area.maxY - y);
+  }
+  return -Math.hypot(dx, dy);
+}
+
+export function getLineCallVerdict(margin: number): LineCallVerdict {
+  if (Math.abs(margin) < LINE_CALL_MARGIN_M) return "close";
+  return margin > 0 ? "in" : "out";
+}
+
+function isInKitchen([x, y]: [number, number]): boolean {
+  const { width, length, kitchenDepth } = COURT_DIMENSIONS.pickleball;
+  return x >= 0 && x <= width && Math.abs(y - length / 2) <= kitchenDepth;
+}
+
+/**
+ * Hitter's court position: the hit location, falling back to the nearest
+ * tracked position
+ */
+function getHitPosition(swing: SwingWithPlayer, result: StatisticsResult): [number, number] | null {
+  if (swing.ball_hit_location) return swing.ball_hit_location;
+
+  const positions = result.player_positions?.[String(swing.player_id)] || [];
+  let nearest: [number, number] | null = null;
+  let nearestGap = Infinity;
+
+  for (const p of positions) {
+    if (p.court_X === undefined || p.court_Y === undefined) continue;
+    const gap = Math.abs(p.timestamp - swing.ball_hit.timestamp);
+    if (gap < nearestGap) {
+      nearestGap = gap;
+      nearest = [p.court_X, p.court_Y];
+    }
+  }
+
+  return nearestGap <= 1.0 ? nearest : null;
+}
+
+function emptyPlayerStats(playerId: number): PlayerLineCallStats {
+  return { playerId, shots: 0, in: 0, out: 0, close: 0, errorRate: 0, serves: 0, serveFaults: 0 };
+}
+
+/**
+ * Call every floor bounce of a task and aggregate per-player error rates.
+ * Returns null for sports without known court lines.
+ */
+export function computeLineCalls(
+  result: StatisticsResult,
+  sport: string | undefined,
+  bounces: BallBounce[] = result.ball_bounces || []
+): LineCallReport | null {
+  const courtSport = getCalibrationSport(sport);
+  if (!courtSport) return null;
+
+  const netY = getCourtDimensions(courtSport).length / 2;
+  const playerIds = getFilteredPlayers(result.players || []).map(p => p.player_id);
+  // Padel is always doubles; pickleball uses the same lines either way
+  const isDoubles = courtSport === "padel" || playerIds.length > 2;
+
+  const swings: SwingWithPlayer[] = (result.players || [])
+    .filter(p => playerIds.includes(p.player_id))
+    .flatMap(p => p.swings.map(s => ({ ...s, player_id: p.player_id })))
+    .sort((a, b) => a.ball_hit.timestamp - b.ball_hit.timestamp);
+
+  // Only floor bounces have reliable court positions
+  const floorBounces = bounces
+    .filter(b => b.type === "floor")
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const judgedSwings = new Set<SwingWithPlayer>();
+  let swingIdx = 0;
+
+  const calls = floorBounces.map((bounce): LineCall => {
+    while (swingIdx < swings.length && swings[swingIdx].ball_hit.timestamp < bounce.timestamp) {
+      swingIdx++;
+    }
+    const candidate = swingIdx > 0 ? swings[swingIdx - 1] : null;
+    const swing = candidate
+      && !judgedSwings.has(candidate)
+      && bounce.timestamp - candidate.ball_hit.timestamp < SHOT_WINDOW_S
+      ? candidate
+      : null;
+    const hitPosition = swing ? getHitPosition(swing, result) : null;
+    const inKitchen = courtSport === "pickleball" && isInKitchen(bounce.court_pos);
+
+    if (!swing || !hitPosition) {
+      const area = getCourtHalfArea(courtSport, getHalf(bounce.court_pos[1], netY), isDoubles);
+      const margin = getSignedMargin(bounce.court_pos, area);
+      return {
+        bounce,
+        verdict: getLineCallVerdict(margin),
+        margin,
+        target: "court",
+        hitterId: null,
+        hitTimestamp: null,
+        isServe: false,
+        inKitchen,
+      };
+    }
+
+    judgedSwings.add(swing);
+    const targetHalf: CourtHalf = getHalf(hitPosition[1], netY) === "far" ? "near" : "far";
+    const area = swing.serve
+      ? getServiceArea(courtSport, targetHalf, hitPosition[0])
+      : getCourtHalfArea(courtSport, targetHalf, isDoubles);
+    const margin = getSignedMargin(bounce.court_pos, area);
+
+    return {
+      bounce,
+      verdict: getLineCallVerdict(margin),
+      margin,
+      target: swing.serve ? "service_box" : "court",
+      hitterId: swing.player_id,
+      hitTimestamp: swing.ball_hit.timestamp,
+      isServe: swing.serve,
+      inKitchen,
+    };
+  });
+
+  const totals: Record<LineCallVerdict, number> = { in: 0, out: 0, close: 0 };
+  const statsById = new Map(playerIds.map(id => [id, emptyPlayerStats(id)]));
+
+  for (const call of calls) {
+    totals[call.verdict]++;
+    if (call.hitterId === null) continue;
+
+    const stats = statsById.get(call.hitterId);
+    if (!stats) continue;
+    stats.shots++;
+    stats[call.verdict]++;
+    if (call.isServe) {
+      stats.serves++;
+      if (call.verdict === "out") stats.serveFaults++;
+    }
+  }
+
+  const players = [...statsById.values()].map(stats => ({
+    ...stats,
+    errorRate: stats.in + stats.out > 0 ? stats.out / (stats.in + stats.out) : 0,
+  }));
+
+  return { sport: courtSport, isDoubles, calls, totals, players };
+}
@@ -0,0 +1,383 @@
+/**
+ * Match Corrections
+ * Manual fixes to SportAI match events, kept as an overlay on the original result
+ *
+ * Corrections are an ordered list of edits replayed on top of the result, so the
+ * stored result is never modified and undo drops the last edit. Events are
+ * referenced by timestamp (and player for swings) instead of array index, which
+ * keeps earlier edits pointing at the same event when later ones add or remove
+ * events.
+ *
+ * Edits:
+ * - Swings: relabel, delete, add at a time, reassign to another player
+ * - Bounces: delete, add a floor bounce at a time
+ * - Rallies: split at a time, merge with the following rally
+ * - Players: swap two player IDs over a time range (tracker ID switches)
+ *
+ * Rally outcome overrides (sportai_tasks.rally_outcomes) are keyed by rally
+ * start time, so they stay on their rally when others are split or merged.
+ * A split rally keeps its override on the first part; merging drops the
+ * override of the second rally.
+ */
+
+import type {
+  Task,
+  StatisticsResult,
+  Swing,
+  SwingWithPlayer,
+  BallBounce,
+  PlayerPosition,
+} from "@/components/tasks/viewer/types";
+import { findNearestByTimestamp, getCalibrationSport, transformPoint } from "./court-calibration";
+import { seedFromCourtKeypoints } from "./court-calibration-seed";
+
+export type MatchCorrection =
+  | { type: "relabel_swing"; playerId: number; timestamp: number; swingType: string }
+  | { type: "delete_swing"; playerId: number; timestamp: number }
+  | { type: "add_swing"; playerId: number; timestamp: number; swingType: string }
+  | { type: "reassign_swing"; playerId: number; timestamp: number; toPlayerId: number }
+  | { type: "delete_bounce"; timestamp: number }
+  | { type: "add_bounce"; timestamp: number }
+  | { type: "split_rally"; timestamp: number }
+  | { type: "merge_rallies"; timestamp: number }
+  | { type: "swap_players"; playerA: number; playerB: number; start: number; end: number };
+
+export type MatchCorrectionType = MatchCorrection["type"];
+
+/** A swing (by player and ball hit time) or a bounce (by time) picked for editing */
+export type MatchEventRef =
+  | { kind: "swing"; playerId: number; timestamp: number }
+  | { kind: "bounce"; timestamp: number };
+
+export const MATCH_CORRECTION_LABELS: Record<MatchCorrectionType, string> = {
+  relabel_swing: "Relabel swing",
+  delete_swing: "Delete swing",
+  add_swing: "Add swing",
+  reassign_swing: "Reassign swing",
+  delete_bounce: "Delete bounce",
+  add_bounce: "Add bounce",
+  split_rally: "Split rally",
+  merge_rallies: "Merge rallies",
+  swap_players: "Swap players",
+};
+
+// Fields each correction type must carry, used to validate stored overlays
+const NUMBER_FIELDS: Record<MatchCorrectionType, string[]> = {
+  relabel_swing: ["playerId", "timestamp"],
+  delete_swing: ["playerId", "timestamp"],
+  add_swing: ["playerId", "timestamp"],
+  reassign_swing: ["playerId", "timestamp", "toPlayerId"],
+  delete_bounce: ["timestamp"],
+  add_bounce: ["timestamp"],
+  split_rally: ["timestamp"],
+  merge_rallies: ["timestamp"],
+  swap_players: ["playerA", "playerB", "start", "end"],
+};
+const STRING_FIELDS: Partial<Record<MatchCorrectionType, string[]>> = {
+  relabel_swing: ["swingType"],
+  add_swing: ["swingType"],
+};
+
+export const MAX_MATCH_CORRECTIONS = 2000;
+
+// Timestamps round-trip through JSON unchanged; this only absorbs float noise
+const TIMESTAMP_TOLERANCE = 0.001;
+
+// Swings added by hand span this long either side of the ball hit
+const ADDED_SWING_HALF_DURATION = 0.4;
+
+const DEFAULT_FPS = 30;
+
+const DEFAULT_SWING_TYPES = ["forehand", "backhand", "serve", "volley", "overhead", "lob"];
+
+type SwingOwner = {
+  player_id: number;
+  swings: Swing[];
+  swing_count: number;
+  swing_type_distribution: Record<string, number>;
+};
+
+function isSameTime(a: number, b: number): boolean {
+  return Math.abs(a - b) < TIMESTAMP_TOLERANCE;
+}
+
+function sortSwings(swings: Swing[]): void {
+  swings.sort((a, b) => a.ball_hit.timestamp - b.ball_hit.timestamp);
+}
+
+// Share per swing type (0-1), the format SportAI uses for swing_type_distribution
+function getSwingTypeDistribution(swings: Swing[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const swing of swings) {
+    counts[swing.swing_type] = (counts[swing.swing_type] || 0) + 1;
+  }
+  return Object.fromEntries(Object.entries(counts).map(([type, count]) => [type, count / swings.length]));
+}
+
+export function isValidMatchCorrections(value: unknown): value is MatchCorrection[] {
+  if (!Array.isArray(value) || value.length > MAX_MATCH_CORRECTIONS) return false;
+
+  return value.every(item => {
+    if (!item || typeof item !== "object") return false;
+    const correction = item as Record<string, unknown>;
+    const type = correction.type as MatchCorrectionType;
+    // Own keys only, so inherited names like "toString" aren't accepted as types
+    if (typeof type !== "string" || !Object.hasOwn(NUMBER_FIELDS, type)) return false;
+
+    return (
+      NUMBER_FIELDS[type].every(field => typeof correction[field] === "number" && Number.isFinite(correction[field])) &&
+      (STRING_FIELDS[type] ?? []).every(field => typeof correction[field] === "string" && correction[field] !== "")
+    );
+  });
+}
+
+/**
+ * Replay corrections over a result. Counts and swing type shares of every
+ * player whose swings changed are recomputed; other stats are kept as is.
+ */
+export function applyMatchCorrections(
+  result: StatisticsResult,
+  corrections: MatchCorrection[],
+  sport?: Task["sport"] | string
+): StatisticsResult {
+  if (corrections.length === 0) return result;
+
+  const fps = result.debug_data?.video_info?.fps ?? DEFAULT_FPS;
+  const ballPositions = result.ball_positions ?? [];
+  const players: SwingOwner[] = result.players.map(p => ({ ...p, swings: [...p.swings] }));
+  const sessions = (result.team_sessions ?? []).map(session => ({
+    ...session,
+    players: session.players.map(p => ({ ...p, swings: [...p.swings] })),
+  }));
+  const playerPositions: Record<string, PlayerPosition[]> | undefined = result.player_positions
+    ? { ...result.player_positions }
+    : undefined;
+  let bounces = [...result.ball_bounces];
+  const rallies = [...result.rallies];
+
+  // Swing count before the first edit, per changed player
+  const originalCounts = new Map<SwingOwner, number>();
+  const touch = (owner: SwingOwner) => {
+    if (!originalCounts.has(owner)) originalCounts.set(owner, owner.swings.length);
+  };
+
+  // Swing edits apply match-wide and to the team session that covers the hit
+  const getOwnerGroups = (start: number, end = start): SwingOwner[][] => [
+    players,
+    ...sessions.filter(s => s.end_time >= start && s.start_time <= end).map(s => s.players as SwingOwner[]),
+  ];
+
+  // Court position of the player at the hit, for swings that changed hands
+  const locateSwing = (swing: Swing, playerId: number): Swing => {
+    const positions = playerPositions?.[String(playerId)];
+    const sample = positions ? findNearestByTimestamp(positions, swing.ball_hit.timestamp) : null;
+    if (sample?.court_X === undefined || sample.court_Y === undefined) return swing;
+    return { ...swing, ball_hit_location: [sample.court_X, sample.court_Y] };
+  };
+
+  const isInRally = (timestamp: number) => rallies.some(([start, end]) => timestamp >= start && timestamp <= end);
+
+  // SportAI court keypoints place added bounces on court when there is no manual calibration
+  let bounceMatrix: number[][] | null | undefined;
+  const placeBounce = (ball: { X: number; Y: number }): [number, number] => {
+    if (bounceMatrix === undefined) {
+      const calibrationSport = getCalibrationSport(sport);
+      bounceMatrix = calibrationSport
+        ? seedFromCourtKeypoints(calibrationSport, result.debug_data?.court_keypoints)?.matrix ?? null
+        : null;
+    }
+    const court = bounceMatrix ? transformPoint(bounceMatrix, ball.X, ball.Y) : null;
+    return court ? [court.x, court.y] : [ball.X, ball.Y];
+  };
+
+  const getLastHitter = (timestamp: number): number => {
+    let hitter = -1;
+    let hitTime = -Infinity;
+    for (const player of players) {
+      for (const swing of player.swings) {
+        const t = swing.ball_hit.timestamp;
+        if (t <= timestamp && t > hitTime) {
+          hitTime = t;
+          hitter = player.player_id;
+        }
+      }
+    }
+    return hitter;
+  };
+
+  for (const correction of corrections) {
+    switch (correction.type) {
+      case "relabel_swing":
+      case "delete_swing":
+      case "reassign_swing": {
+        for (const owners of getOwnerGroups(correction.timestamp)) {
+          const owner = owners.find(p => p.player_id === correction.playerId);
+          const index = owner?.swings.findIndex(s => isSameTime(s.ball_hit.timestamp, correction.timestamp)) ?? -1;
+          if (!owner || index < 0) continue;
+
+          const swing = owner.swings[index];
+          touch(owner);
+
+          if (correction.type === "relabel_swing") {
+            owner.swings[index] = { ...swing, swing_type: correction.swingType, serve: correction.swingType === "serve" };
+            continue;
+          }
+
+          owner.swings.splice(index, 1);
+          if (correction.type === "reassign_swing") {
+            const target = owners.find(p => p.player_id === correction.toPlayerId);
+            if (!target) continue;
+            touch(target);
+            target.swings.push(locateSwing(swing, target.player_id));
+            sortSwings(target.swings);
+          }
+        }
+        break;
+      }
+
+      case "add_swing": {
+        const hitFrame = Math.round(correction.timestamp * fps);
+        const start = Math.max(0, correction.timestamp - ADDED_SWING_HALF_DURATION);
+        const end = correction.timestamp + ADDED_SWING_HALF_DURATION;
+        const swing = locateSwing({
+          start: { timestamp: start, frame_nr: Math.round(start * fps) },
+          end: { timestamp: end, frame_nr: Math.round(end * fps) },
+          ball_hit: { timestamp: correction.timestamp, frame_nr: hitFrame },
+          swing_type: correction.swingType,
+          ball_speed: 0,
+          volley: false,
+          serve: correction.swingType === "serve",
+          is_in_rally: isInRally(correction.timestamp),
+        }, correction.playerId);
+
+        for (const owners of getOwnerGroups(correction.timestamp)) {
+          const owner = owners.find(p => p.player_id === correction.playerId);
+          if (!owner) continue;
+          touch(owner);
+          owner.swings.push(swing);
+          sortSwings(owner.swings);
+        }
+        break;
+      }
+
+      case "delete_bounce":
+        bounces = bounces.filter(b => !isSameTime(b.timestamp, correction.timestamp));
+        break;
+
+      case "add_bounce": {
+        const ball = findNearestByTimestamp(ballPositions, correction.timestamp);
+        if (!ball) break;
+        const bounce: BallBounce = {
+          timestamp: correction.timestamp,
+          court_pos: placeBounce(ball),
+          player_id: getLastHitter(correction.timestamp),
+          type: "floor",
+        };
+        bounces = [...bounces, bounce].sort((a, b) => a.timestamp - b.timestamp);
+        break;
+      }
+
+      case "split_rally": {
+        const index = rallies.findIndex(([start, end]) => correction.timestamp > start && correction.timestamp < end);
+        if (index < 0) break;
+        const [start, end] = rallies[index];
+        rallies.splice(index, 1, [start, correction.timestamp], [correction.timestamp, end]);
+        break;
+      }
+
+      case "merge_rallies": {
+        // Identified by the end of the first rally
+        const index = rallies.findIndex(([, end]) => isSameTime(end, correction.timestamp));
+        if (index < 0 || index === rallies.length - 1) break;
+        rallies.splice(index, 2, [rallies[index][0], rallies[index + 1][1]]);
+        break;
+      }
+
+      case "swap_players": {
+        const { playerA, playerB, start, end } = correction;
+        const inRange = (t: number) => t >= start && t <= end;
+        const swapId = (id: number) => (id === playerA ? playerB : id === playerB ? playerA : id);
+
+        for (const owners of getOwnerGroups(start, end)) {
+          const a = owners.find(p => p.player_id === playerA);
+          const b = owners.find(p => p.player_id === playerB);
+          if (!a || !b) continue;
+          touch(a);
+          touch(b);
+          const fromA = a.swings.filter(s => inRange(s.ball_hit.timestamp));
+          const fromB = b.swings.filter(s => inRange(s.ball_hit.timestamp));
+          a.swings = [...a.swings.filter(s => !inRange(s.ball_hit.timestamp)), ...fromB];
+          b.swings = [...b.swings.filter(s => !inRange(s.ball_hit.timestamp)), ...fromA];
+          sortSwings(a.swings);
+          sortSwings(b.swings);
+        }
+
+        if (playerPositions) {
+          const positionsA = playerPositions[String(playerA)] ?? [];
+          const positionsB = playerPositions[String(playerB)] ?? [];
+          playerPositions[String(playerA)] = [
+            ...positionsA.filter(p => !inRange(p.timestamp)),
+            ...positionsB.filter(p => inRange(p.timestamp)),
+          ].sort((x, y) => x.timestamp - y.timestamp);
+          playerPositions[String(playerB)] = [
+            ...positionsB.filter(p => !inRange(p.timestamp)),
+            ...positionsA.filter(p => inRange(p.timestamp)),
+          ].sort((x, y) => x.timestamp - y.timestamp);
+
+          // Swing locations come from the positions, which now belong to the other player
+          for (const owners of getOwnerGroups(start, end)) {
+            for (const owner of owners) {
+              if (owner.player_id !== playerA && owner.player_id !== playerB) continue;
+              owner.swings = owner.swings.map(s => (inRange(s.ball_hit.timestamp) ? locateSwing(s, owner.player_id) : s));
+            }
+          }
+        }
+
+        bounces = bounces.map(b => (inRange(b.timestamp) ? { ...b, player_id: swapId(b.player_id) } : b));
+        break;
+      }
+    }
+  }
+
+  for (const [owner, originalCount] of originalCounts) {
+    owner.swing_count = Math.max(0, owner.swing_count + owner.swings.length - originalCount);
+    owner.swing_type_distribution = getSwingTypeDistribution(owner.swings);
+  }
+
+  return {
+    ...result,
+    players: players as StatisticsResult["players"],
+    team_sessions: sessions,
+    ball_bounces: bounces,
+    rallies,
+    player_positions: playerPositions,
+  };
+}
+
+/**
+ * Drop deleted bounces from a list that includes inferred bounces, which are
+ * derived after corrections are applied and can't be removed from the result
+ */
+export function removeDeletedBounces(bounces: BallBounce[], corrections: MatchCorrection[]): BallBounce[] {
+  const deleted = corrections.flatMap(c => (c.type === "delete_bounce" ? [c.timestamp] : []));
+  if (deleted.length === 0) return bounces;
+  return bounces.filter(b => !deleted.some(t => isSameTime(t, b.timestamp)));
+}
+
+export function findSwing(result: StatisticsResult, playerId: number, timestamp: number): SwingWithPlayer | null {
+  const swing = result.players
+    .find(p => p.player_id === playerId)
+    ?.swings.find(s => isSameTime(s.ball_hit.timestamp, timestamp));
+  return swing ? { ...swing, player_id: playerId } : null;
+}
+
+export function isSameEvent(a: MatchEventRef | null | undefined, b: MatchEventRef | null | undefined): boolean {
+  if (!a || !b || a.kind !== b.kind || !isSameTime(a.timestamp, b.timestamp)) return false;
+  return a.kind === "bounce" || a.playerId === (b as { playerId: number }).playerId;
+}
+
+/** Swing types seen in the result, falling back to common ones for empty results */
+export function getSwingTypeOptions(result: StatisticsResult): string[] {
+  const types = new Set(result.players.flatMap(p => p.swings.map(s => s.swing_type)));
+  return types.size > 0 ? [...types].sort() : DEFAULT_SWING_TYPES;
+}
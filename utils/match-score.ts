@@ -0,0 +1,569 @@
+/**
+ * Match Score
+ * Reconstructs who won each rally and the running scoreline per sport
+ *
+ * Rally winners are inferred from the first floor bounce after the last hit:
+ * - Bounce on the hitter's own half: the shot didn't clear the net, hitter loses
+ * - Bounce outside the opponent's court: out, hitter loses
+ * - Bounce inside the opponent's court: not returned, hitter wins
+ *
+ * A serve is judged against the service box instead (see getServiceArea).
+ * In tennis and padel a first-serve fault isn't a point, so the rally gets no
+ * winner; only a second-serve fault (or any fault in pickleball) loses it.
+ *
+ * Teams are the two groups of players that share a half during rallies, so
+ * end changes don't swap the scoreline. Manual overrides win over inference.
+ *
+ * Scoring:
+ * - Tennis: 15/30/40 with advantage, sets to 6 (tiebreak to 7 at 6-6)
+ * - Padel: as tennis, with golden point at 40-40
+ * - Pickleball: side-out scoring to 11 (win by 2), server 1/2 in doubles
+ */
+
+import type { StatisticsResult, BallBounce } from "@/components/tasks/viewer/types";
+import { getFilteredPlayers } from "@/components/tasks/viewer/utils";
+import { getCalibrationSport, getCourtDimensions, type CalibrationSport } from "./court-calibration";
+import { getCourtHalfArea, getLineCallVerdict, getServiceArea, getSignedMargin } from "./line-calls";
+
+export type ScoringSport = CalibrationSport;
+export type TeamId = "A" | "B";
+export type CourtHalf = "far" | "near";
+
+/** Manual outcome for a rally: the winning team, or "void" when it wasn't a point */
+export type RallyOutcomeOverride = TeamId | "void";
+
+/**
+ * Overrides keyed by rally start time (see getRallyKey), stored in
+ * sportai_tasks.rally_outcomes. Start times stay put when match corrections
+ * split or merge other rallies. Older overrides are keyed by rally index.
+ */
+export type RallyOutcomeOverrides = Record<string, RallyOutcomeOverride>;
+
+// Well above the rally count of any real match
+export const MAX_RALLY_OUTCOMES = 2000;
+
+export type RallyOutcomeReason =
+  | "winner"
+  | "out"
+  | "net"
+  | "first_serve_fault"
+  | "no_bounce"
+  | "no_hit"
+  | "manual"
+  | "void";
+
+export interface RallyOutcome {
+  rallyIndex: number;
+  winner: TeamId | null;
+  source: "inferred" | "manual";
+  reason: RallyOutcomeReason;
+  lastHitterId: number | null;
+  /** Bounce the outcome was decided on (inferred outcomes only) */
+  decidingBounce: BallBounce | null;
+}
+
+export interface ScoreSnapshot {
+  /** Completed sets (tennis and padel) */
+  sets: Array<Record<TeamId, number>>;
+  /** Games in the current set (tennis, padel) or games won (pickleball) */
+  games: Record<TeamId, number>;
+  /** Points in the current game or tiebreak */
+  points: Record<TeamId, number>;
+  tiebreak: boolean;
+  /** Pickleball serving team and server number (doubles only) */
+  servingTeam: TeamId | null;
+  serverNumber: 1 | 2 | null;
+}
+
+export interface RallyScore {
+  outcome: RallyOutcome;
+  /** Score after the rally */
+  score: ScoreSnapshot;
+  /** Scoreline after the rally, e.g. "6-4 2-1 30-15" */
+  label: string;
+  /** Team that won a game with this rally */
+  gameWonBy: TeamId | null;
+}
+
+export interface MatchTeam {
+  id: TeamId;
+  playerIds: number[];
+}
+
+export interface MatchScore {
+  sport: ScoringSport;
+  teams: Record<TeamId, MatchTeam>;
+  rallies: RallyScore[];
+  final: ScoreSnapshot;
+  finalLabel: string;
+  pointsWon: Record<TeamId, number>;
+  /** Rallies without a winner (undecided or void); first-serve faults aren't points and don't count */
+  unresolved: number;
+}
+
+export const TEAM_IDS: TeamId[] = ["A", "B"];
+
+// Bounces shortly after the detected rally end still belong to it
+const RALLY_END_TOLERANCE_S = 1.0;
+
+// Longest gap between a fault and the second serve (as in serve-analytics.ts)
+const SECOND_SERVE_WINDOW_S = 30;
+
+export const TENNIS_POINT_LABELS = ["0", "15", "30", "40"];
+
+const PICKLEBALL_GAME_POINTS = 11;
+
+/**
+ * Override key of a rally: its start time in ms precision ("12.480").
+ * Always has a decimal point, unlike legacy rally index keys.
+ */
+export function getRallyKey([start]: [number, number]): string {
+  return start.toFixed(3);
+}
+
+/**
+ * Override for a rally, falling back to a legacy rally index key
+ */
+function getRallyOverride(
+  overrides: RallyOutcomeOverrides,
+  rally: [number, number],
+  rallyIndex: number
+): RallyOutcomeOverride | undefined {
+  return overrides[getRallyKey(rally)] ?? overrides[String(rallyIndex)];
+}
+
+/**
+ * Re-key legacy rally index overrides by the start time of the rally they
+ * currently apply to, so later match corrections can't move them
+ */
+export function migrateRallyOutcomes(
+  overrides: RallyOutcomeOverrides,
+  rallies: [number, number][]
+): RallyOutcomeOverrides {
+  const migrated: RallyOutcomeOverrides = {};
+  for (const [key, outcome] of Object.entries(overrides)) {
+    if (key.includes(".")) {
+      migrated[key] = outcome;
+      continue;
+    }
+    const rally = rallies[Number(key)];
+    if (rally && !(getRallyKey(rally) in overrides)) {
+      migrated[getRallyKey(rally)] = outcome;
+    }
+  }
+  return migrated;
+}
+
+export function otherTeam(team: TeamId): TeamId {
+  return team === "A" ? "B" : "A";
+}
+
+function emptyScore(): Record<TeamId, number> {
+  return { A: 0, B: 0 };
+}
+
+function getHalf(y: number, netY: number): CourtHalf {
+  return y < netY ? "far" : "near";
+}
+
+/**
+ * Majority half per player for each rally, from hit locations, falling back
+ * to the tracked position at the start of the rally
+ */
+function getRallyHalves(result: StatisticsResult, playerIds: number[], netY: number): Map<number, CourtHalf>[] {
+  return (result.rallies || []).map(([start, end]) => {
+    const halves = new Map<number, CourtHalf>();
+
+    for (const playerId of playerIds) {
+      const player = result.players.find(p => p.player_id === playerId);
+      const hits = (player?.swings || []).filter(
+        s => s.ball_hit.timestamp >= start && s.ball_hit.timestamp <= end && s.ball_hit_location
+      );
+
+      if (hits.length > 0) {
+        const farCount = hits.filter(s => getHalf(s.ball_hit_location![1], netY) === "far").length;
+        halves.set(playerId, farCount * 2 >= hits.length ? "far" : "near");
+        continue;
+      }
+
+      const positions = result.player_positions?.[String(playerId)] || [];
+      const atStart = positions.find(p => p.timestamp >= start && p.timestamp <= end && p.court_Y !== undefined);
+      if (atStart?.court_Y !== undefined) {
+        halves.set(playerId, getHalf(atStart.court_Y, netY));
+      }
+    }
+
+    return halves;
+  });
+}
+
+/**
+ * Split players into two teams by how often they share a half with the
+ * first (most active) player
+ */
+function inferTeams(playerIds: number[], rallyHalves: Map<number, CourtHalf>[]): Record<TeamId, MatchTeam> {
+  const teams: Record<TeamId, MatchTeam> = {
+    A: { id: "A", playerIds: [] },
+    B: { id: "B", playerIds: [] },
+  };
+  if (playerIds.length === 0) return teams;
+
+  const [reference, ...others] = playerIds;
+  teams.A.playerIds.push(reference);
+
+  for (const playerId of others) {
+    let same = 0;
+    let opposite = 0;
+    for (const halves of rallyHalves) {
+      const refHalf = halves.get(reference);
+      const half = halves.get(playerId);
+      if (!refHalf || !half) continue;
+      if (refHalf === half) same++;
+      else opposite++;
+    }
+    // Singles: the other player is always the opponent
+    const team: TeamId = playerIds.length > 2 && same > opposite ? "A" : "B";
+    teams[team].playerIds.push(playerId);
+  }
+
+  // Doubles needs two per team; move the least certain extra player across
+  if (playerIds.length === 4 && teams.B.playerIds.length !== 2) {
+    const [from, to] = teams.A.playerIds.length > 2 ? (["A", "B"] as const) : (["B", "A"] as const);
+    const moved = teams[from].playerIds.pop();
+    if (moved !== undefined) teams[to].playerIds.push(moved);
+  }
+
+  return teams;
+}
+
+function getTeamOfPlayer(teams: Record<TeamId, MatchTeam>, playerId: number): TeamId | null {
+  if (teams.A.playerIds.includes(playerId)) return "A";
+  if (teams.B.playerIds.includes(playerId)) return "B";
+  return null;
+}
+
+/**
+ * Whether a serve hit from `serverPosition` and first bouncing at `bounce`
+ * missed the service box (too close to call counts as in)
+ */
+function isServeFault(
+  serverPosition: [number, number],
+  bounce: BallBounce,
+  sport: ScoringSport,
+  netY: number
+): boolean {
+  const serverHalf = getHalf(serverPosition[1], netY);
+  if (getHalf(bounce.court_pos[1], netY) === serverHalf) return true;
+
+  const area = getServiceArea(sport, serverHalf === "far" ? "near" : "far", serverPosition[0]);
+  return getLineCallVerdict(getSignedMargin(bounce.court_pos, area)) === "out";
+}
+
+/**
+ * Infer the winner of every rally, applying manual overrides
+ */
+export function inferRallyOutcomes(
+  result: StatisticsResult,
+  sport: ScoringSport,
+  overrides: RallyOutcomeOverrides = {}
+): { teams: Record<TeamId, MatchTeam>; outcomes: RallyOutcome[] } {
+  const { length } = getCourtDimensions(sport);
+  const netY = length / 2;
+  const rallies = result.rallies || [];
+
+  const playerIds = getFilteredPlayers(result.players || []).map(p => p.player_id);
+  const rallyHalves = getRallyHalves(result, playerIds, netY);
+  const teams = inferTeams(playerIds, rallyHalves);
+  const isDoubles = teams.A.playerIds.length > 1 || teams.B.playerIds.length > 1;
+
+  const swings = (result.players || [])
+    .filter(p => playerIds.includes(p.player_id))
+    .flatMap(p => p.swings.map(s => ({ ...s, player_id: p.player_id })))
+    .sort((a, b) => a.ball_hit.timestamp - b.ball_hit.timestamp);
+
+  // Only floor bounces have reliable court positions
+  const floorBounces = (result.ball_bounces || [])
+    .filter(b => b.type === "floor")
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const getFirstBounceAfter = (timestamp: number, until: number) =>
+    floorBounces.find(b => b.timestamp > timestamp && b.timestamp <= until);
+
+  // First serves that faulted, so the next serve by the same player can be
+  // recognised as a second serve (same rule as serve-analytics.ts)
+  const hasSecondServe = sport !== "pickleball";
+  const faultedFirstServes = new Set<number>();
+
+  const isSecondServe = (swingIdx: number) => {
+    const serve = swings[swingIdx];
+    const previous = swings[swingIdx - 1];
+    return faultedFirstServes.has(swingIdx - 1)
+      && previous.player_id === serve.player_id
+      && serve.ball_hit.timestamp - previous.ball_hit.timestamp < SECOND_SERVE_WINDOW_S;
+  };
+
+  if (hasSecondServe) {
+    swings.forEach((swing, swingIdx) => {
+      if (!swing.serve || !swing.ball_hit_location || isSecondServe(swingIdx)) return;
+      const next = swings[swingIdx + 1];
+      const bounce = getFirstBounceAfter(
+        swing.ball_hit.timestamp,
+        next ? next.ball_hit.timestamp : swing.ball_hit.timestamp + SECOND_SERVE_WINDOW_S
+      );
+      if (bounce && isServeFault(swing.ball_hit_location, bounce, sport, netY)) {
+        faultedFirstServes.add(swingIdx);
+      }
+    });
+  }
+
+  // Which half each team played on, carried over when a rally has no data
+  let teamHalf: Record<TeamId, CourtHalf> = { A: "far", B: "near" };
+
+  const outcomes = rallies.map(([start, end], rallyIndex): RallyOutcome => {
+    const halves = rallyHalves[rallyIndex];
+    const known = [...halves.entries()].find(([id]) => getTeamOfPlayer(teams, id) !== null);
+    if (known) {
+      const [id, half] = known;
+      const team = getTeamOfPlayer(teams, id)!;
+      teamHalf = { [team]: half, [otherTeam(team)]: half === "far" ? "near" : "far" } as Record<TeamId, CourtHalf>;
+    }
+
+    const override = getRallyOverride(overrides, [start, end], rallyIndex);
+    const rallySwings = swings.filter(s => s.ball_hit.timestamp >= start && s.ball_hit.timestamp <= end);
+    const lastHit = rallySwings[rallySwings.length - 1] ?? null;
+    const base = { rallyIndex, lastHitterId: lastHit?.player_id ?? null };
+
+    if (override) {
+      return {
+        ...base,
+        winner: override === "void" ? null : override,
+        source: "manual",
+        reason: override === "void" ? "void" : "manual",
+        decidingBounce: null,
+      };
+    }
+
+    if (!lastHit) {
+      return { ...base, winner: null, source: "inferred", reason: "no_hit", decidingBounce: null };
+    }
+
+    const bounce = getFirstBounceAfter(lastHit.ball_hit.timestamp, end + RALLY_END_TOLERANCE_S);
+    if (!bounce) {
+      return { ...base, winner: null, source: "inferred", reason: "no_bounce", decidingBounce: null };
+    }
+
+    const hitterHalf = lastHit.ball_hit_location
+      ? getHalf(lastHit.ball_hit_location[1], netY)
+      : halves.get(lastHit.player_id);
+    const hitterTeam = getTeamOfPlayer(teams, lastHit.player_id)
+      ?? (hitterHalf ? (teamHalf.A === hitterHalf ? "A" : "B") : null);
+
+    if (!hitterTeam || !hitterHalf) {
+      return { ...base, winner: null, source: "inferred", reason: "no_hit", decidingBounce: bounce };
+    }
+
+    const targetHalf: CourtHalf = hitterHalf === "far" ? "near" : "far";
+    const targetArea = lastHit.serve
+      ? getServiceArea(sport, targetHalf, lastHit.ball_hit_location?.[0] ?? null)
+      : getCourtHalfArea(sport, targetHalf, isDoubles);
+    // Too close to call counts as in
+    const reason: RallyOutcomeReason = getHalf(bounce.court_pos[1], netY) === hitterHalf
+      ? "net"
+      : getLineCallVerdict(getSignedMargin(bounce.court_pos, targetArea)) !== "out"
+        ? "winner"
+        : "out";
+
+    // A first-serve fault isn't a point: the server gets a second serve
+    if (lastHit.serve && reason !== "winner" && hasSecondServe && !isSecondServe(swings.indexOf(lastHit))) {
+      return { ...base, winner: null, source: "inferred", reason: "first_serve_fault", decidingBounce: bounce };
+    }
+
+    return {
+      ...base,
+      winner: reason === "winner" ? hitterTeam : otherTeam(hitterTeam),
+      source: "inferred",
+      reason,
+      decidingBounce: bounce,
+    };
+  });
+
+  return { teams, outcomes };
+}
+
+/**
+ * Points label for the current game, team A first
+ */
+function formatPoints(score: ScoreSnapshot): string {
+  const { A, B } = score.points;
+  if (score.tiebreak) return `${A}-${B}`;
+  if (A >= 3 && B >= 3) {
+    if (A === B) return "40-40";
+    return A > B ? "AD-40" : "40-AD";
+  }
+  return `${TENNIS_POINT_LABELS[A]}-${TENNIS_POINT_LABELS[B]}`;
+}
+
+/**
+ * Scoreline with team A first: "6-4 2-1 30-15" (tennis, padel) or
+ * "4-2-1" as serving-receiving-server (pickleball)
+ */
+export function formatScore(sport: ScoringSport, score: ScoreSnapshot): string {
+  if (sport === "pickleball") {
+    const serving = score.servingTeam ?? "A";
+    const call = [score.points[serving], score.points[otherTeam(serving)], score.serverNumber]
+      .filter(v => v !== null)
+      .join("-");
+    const games = score.games.A + score.games.B > 0 ? `(${score.games.A}-${score.games.B}) ` : "";
+    return `${games}${call}`;
+  }
+
+  const sets = score.sets.map(s => `${s.A}-${s.B}`);
+  return [...sets, `${score.games.A}-${score.games.B}`, formatPoints(score)].join(" ");
+}
+
+/**
+ * Apply one point to a tennis or padel score. Returns the team that won a game.
+ */
+function applyRacketPoint(score: ScoreSnapshot, winner: TeamId, goldenPoint: boolean): TeamId | null {
+  const loser = otherTeam(winner);
+  score.points[winner]++;
+
+  const won = score.points[winner];
+  const lost = score.points[loser];
+  const gameWon = score.tiebreak
+    ? won >= 7 && won - lost >= 2
+    : won >= 4 && (won - lost >= 2 || (goldenPoint && lost === 3));
+  if (!gameWon) return null;
+
+  score.points = emptyScore();
+  score.games[winner]++;
+
+  const games = score.games[winner];
+  const otherGames = score.games[loser];
+  const setWon = score.tiebreak || (games >= 6 && games - otherGames >= 2);
+
+  if (setWon) {
+    score.sets.push({ ...score.games });
+    score.games = emptyScore();
+    score.tiebreak = false;
+  } else {
+    score.tiebreak = games === 6 && otherGames === 6;
+  }
+
+  return winner;
+}
+
+/**
+ * Apply one rally to a pickleball score: only the serving team scores.
+ * Returns the team that won a game.
+ */
+function applyPickleballRally(score: ScoreSnapshot, winner: TeamId, isDoubles: boolean): TeamId | null {
+  const serving = score.servingTeam ?? winner;
+
+  if (winner !== serving) {
+    // Second server in doubles, otherwise side out
+    if (isDoubles && score.serverNumber === 1) {
+      score.serverNumber = 2;
+    } else {
+      score.servingTeam = otherTeam(serving);
+      score.serverNumber = isDoubles ? 1 : null;
+    }
+    return null;
+  }
+
+  score.points[serving]++;
+  const won = score.points[serving];
+  const lost = score.points[otherTeam(serving)];
+  if (won < PICKLEBALL_GAME_POINTS || won - lost < 2) return null;
+
+  // Game over: the other team opens the next game as first server
+  score.games[serving]++;
+  score.points = emptyScore();
+  score.servingTeam = otherTeam(serving);
+  score.serverNumber = isDoubles ? 2 : null;
+  return serving;
+}
+
+/**
+ * Team that serves the first rally, from the first serve swing
+ */
+function getFirstServingTeam(result: StatisticsResult, teams: Record<TeamId, MatchTeam>): TeamId {
+  const [start, end] = result.rallies?.[0] ?? [0, Infinity];
+  const serves = (result.players || []).flatMap(p =>
+    p.swings
+      .filter(s => s.serve && s.ball_hit.timestamp >= start - RALLY_END_TOLERANCE_S && s.ball_hit.timestamp <= end)
+      .map(s => ({ playerId: p.player_id, timestamp: s.ball_hit.timestamp }))
+  );
+  serves.sort((a, b) => a.timestamp - b.timestamp);
+  return (serves[0] && getTeamOfPlayer(teams, serves[0].playerId)) || "A";
+}
+
+/**
+ * Reconstruct rally outcomes and the running score for a match.
+ * Returns null for sports without a scoring model.
+ */
+export function reconstructMatchScore(
+  result: StatisticsResult,
+  sport: string | undefined,
+  overrides: RallyOutcomeOverrides = {}
+): MatchScore | null {
+  const scoringSport = getCalibrationSport(sport);
+  if (!scoringSport || !result.rallies?.length) return null;
+
+  const { teams, outcomes } = inferRallyOutcomes(result, scoringSport, overrides);
+  const isDoubles = teams.A.playerIds.length > 1 || teams.B.playerIds.length > 1;
+
+  const score: ScoreSnapshot = {
+    sets: [],
+    games: emptyScore(),
+    points: emptyScore(),
+    tiebreak: false,
+    servingTeam: scoringSport === "pickleball" ? getFirstServingTeam(result, teams) : null,
+    // The first serving team in doubles starts on server 2 ("0-0-2")
+    serverNumber: scoringSport === "pickleball" && isDoubles ? 2 : null,
+  };
+  const pointsWon = emptyScore();
+
+  const rallies = outcomes.map((outcome): RallyScore => {
+    let gameWonBy: TeamId | null = null;
+
+    if (outcome.winner) {
+      pointsWon[outcome.winner]++;
+      gameWonBy = scoringSport === "pickleball"
+        ? applyPickleballRally(score, outcome.winner, isDoubles)
+        : applyRacketPoint(score, outcome.winner, scoringSport === "padel");
+    }
+
+    const snapshot: ScoreSnapshot = {
+      ...score,
+      sets: score.sets.map(s => ({ ...s })),
+      games: { ...score.games },
+      points: { ...score.points },
+    };
+
+    return { outcome, score: snapshot, label: formatScore(scoringSport, snapshot), gameWonBy };
+  });
+
+  const final = rallies[rallies.length - 1].score;
+
+  return {
+    sport: scoringSport,
+    teams,
+    rallies,
+    final,
+    finalLabel: formatScore(scoringSport, final),
+    pointsWon,
+    unresolved: outcomes.filter(o => !o.winner && o.reason !== "first_serve_fault").length,
+  };
+}
+
+/**
+ * Type guard for overrides loaded from the task row or a request body
+ */
+export function isValidRallyOutcomes(value: unknown): value is RallyOutcomeOverrides {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const entries = Object.entries(value as Record<string, unknown>);
+  return entries.length <= MAX_RALLY_OUTCOMES && entries.every(
+    ([key, outcome]) => /^\d{1,6}(\.\d{3})?$/.test(key) && (outcome === "A" || outcome === "B" || outcome === "void")
+  );
+}
@@ -0,0 +1,214 @@
+/**
+ * Player Season
+ * One player identity's stats across all of their completed tasks
+ *
+ * Each linked task is reduced to a small per-match summary on the server
+ * (ball speed, swing mix, distance, zone time, AI profile attributes and
+ * opponents), so the dashboard never downloads full results. Filtering and
+ * the comparison against the player's own baseline happen in the browser.
+ */
+
+import type { StatisticsResult } from "@/components/tasks/viewer/types";
+import { getFilteredPlayers } from "@/components/tasks/viewer/utils";
+import { getZoneSystemsForSport } from "@/components/tasks/viewer/components/CourtDominanceView/constants";
+import { calculateZoneDominance } from "@/components/tasks/viewer/components/CourtDominanceView/utils";
+import type { PlayerProfileAttributes } from "@/types/player-profile";
+import type { RacketSport } from "@/types/profile";
+
+export interface SeasonOpponent {
+  /** Null when the opponent isn't linked to an identity */
+  identityId: string | null;
+  name: string;
+}
+
+export interface SeasonZoneShare {
+  zoneId: string;
+  zoneName: string;
+  color: string;
+  /** Share of rally time, 0-1 */
+  share: number;
+}
+
+export interface SeasonMatch {
+  taskId: string;
+  /** ISO date the task was created */
+  date: string;
+  sport: RacketSport;
+  playerId: number;
+  swings: number;
+  /** km/h, 0 without measured swings */
+  avgBallSpeed: number;
+  maxBallSpeed: number;
+  /** Meters */
+  distance: number;
+  /** Share of swings per swing type, 0-1 */
+  swingMix: Record<string, number>;
+  zones: SeasonZoneShare[];
+  /** From the latest AI player profile of the task, when one was generated */
+  attributes: PlayerProfileAttributes | null;
+  opponents: SeasonOpponent[];
+}
+
+export interface PlayerSeason {
+  identity: { id: string; name: string; sport: RacketSport | null };
+  /** Oldest first */
+  matches: SeasonMatch[];
+}
+
+export type SeasonMetric = "avgBallSpeed" | "maxBallSpeed" | "distance" | "swings";
+
+export const SEASON_METRICS: SeasonMetric[] = ["avgBallSpeed", "maxBallSpeed", "distance", "swings"];
+
+export interface SeasonFilter {
+  /** Inclusive ISO dates (yyyy-mm-dd), null for open-ended */
+  from: string | null;
+  to: string | null;
+  /** Only matches against this opponent identity */
+  opponentId: string | null;
+}
+
+export interface SeasonAverages {
+  matchCount: number;
+  metrics: Record<SeasonMetric, number>;
+  swingMix: Record<string, number>;
+  /** Zone share keyed by zone name */
+  zones: Record<string, number>;
+  attributes: PlayerProfileAttributes | null;
+}
+
+/**
+ * Opponents of a player in a result: the other team in doubles, every
+ * other tracked player otherwise
+ */
+export function getOpponentPlayerIds(result: StatisticsResult, playerId: number): number[] {
+  for (const session of result.team_sessions || []) {
+    const teams = [session.team_front, session.team_back];
+    const own = teams.findIndex(ids => ids?.includes(playerId));
+    if (own !== -1) return teams[1 - own] || [];
+  }
+
+  return getFilteredPlayers(result.players || [])
+    .map(p => p.player_id)
+    .filter(id => id !== playerId);
+}
+
+/**
+ * Per-match stats of one player, or null when the player isn't in the result
+ */
+export function summarizeSeasonMatch(
+  result: StatisticsResult,
+  playerId: number,
+  sport: RacketSport
+): Omit<SeasonMatch, "taskId" | "date" | "sport" | "attributes" | "opponents"> | null {
+  const player = (result.players || []).find(p => p.player_id === playerId);
+  if (!player) return null;
+
+  const speeds = player.swings.map(s => s.ball_speed).filter(s => s > 0);
+  const swingCounts: Record<string, number> = {};
+  for (const swing of player.swings) {
+    const type = swing.serve ? "serve" : swing.swing_type || "other";
+    swingCounts[type] = (swingCounts[type] || 0) + 1;
+  }
+
+  // Default zone system of the sport (traffic light for padel)
+  const zoneSystem = getZoneSystemsForSport(sport)[0];
+  const zoneStats = calculateZoneDominance(
+    result.player_positions?.[String(playerId)] || [],
+    zoneSystem.zones,
+    result.rallies || [],
+    sport
+  );
+
+  return {
+    playerId,
+    swings: player.swings.length,
+    avgBallSpeed: speeds.length > 0 ? speeds.reduce((a, b) => a + b, 0) / speeds.length : 0,
+    maxBallSpeed: speeds.length > 0 ? Math.max(...speeds) : 0,
+    distance: player.covered_distance || 0,
+    swingMix: Object.fromEntries(
+      Object.entries(swingCounts).map(([type, count]) => [type, count / player.swings.length])
+    ),
+    zones: zoneStats.map(stat => ({
+      zoneId: stat.zoneId,
+      zoneName: stat.zoneName,
+      color: zoneSystem.zones.find(z => z.id === stat.zoneId)?.color || "#888888",
+      share: stat.percentage / 100,
+    })),
+  };
+}
+
+export function getSeasonMetric(match: SeasonMatch, metric: SeasonMetric): number {
+  return match[metric];
+}
+
+export function filterSeasonMatches(matches: SeasonMatch[], filter: SeasonFilter): SeasonMatch[] {
+  return matches.filter(match => {
+    const day = match.date.slice(0, 10);
+    if (filter.from && day < filter.from) return false;
+    if (filter.to && day > filter.to) return false;
+    if (filter.opponentId && !match.opponents.some(o => o.identityId === filter.opponentId)) return false;
+    return true;
+  });
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function averageRecords(records: Record<string, number>[]): Record<string, number> {
+  const keys = new Set(records.flatMap(r => Object.keys(r)));
+  // Missing keys count as 0 so shares still add up to 1
+  return Object.fromEntries([...keys].map(key => [key, mean(records.map(r => r[key] || 0))]));
+}
+
+/**
+ * Averages over a set of matches. Ball speed only counts matches with
+ * measured swings, and attributes only matches with an AI profile.
+ */
+export function averageSeasonMatches(matches: SeasonMatch[]): SeasonAverages {
+  const metrics = Object.fromEntries(
+    SEASON_METRICS.map(metric => {
+      const values = matches
+        .filter(m => (metric !== "avgBallSpeed" && metric !== "maxBallSpeed") || m[metric] > 0)
+        .map(m => m[metric]);
+      return [metric, mean(values)];
+    })
+  ) as Record<SeasonMetric, number>;
+
+  const profiled = matches.map(m => m.attributes).filter((a): a is PlayerProfileAttributes => a !== null);
+
+  return {
+    matchCount: matches.length,
+    metrics,
+    swingMix: averageRecords(matches.map(m => m.swingMix)),
+    zones: averageRecords(
+      matches.map(m => Object.fromEntries(m.zones.map(z => [z.zoneName, z.share])))
+    ),
+    attributes: profiled.length > 0
+      ? (averageRecords(profiled as unknown as Record<string, number>[]) as unknown as PlayerProfileAttributes)
+      : null,
+  };
+}
+
+/**
+ * Relative change of a value against the baseline, null without a baseline
+ */
+export function getBaselineDelta(value: number, baseline: number): number | null {
+  return baseline > 0 ? (value - baseline) / baseline : null;
+}
+
+/**
+ * Every identified opponent across the season, most frequent first
+ */
+export function getSeasonOpponents(matches: SeasonMatch[]): (SeasonOpponent & { identityId: string; matchCount: number })[] {
+  const opponents = new Map<string, { identityId: string; name: string; matchCount: number }>();
+  for (const match of matches) {
+    for (const opponent of match.opponents) {
+      if (!opponent.identityId) continue;
+      const entry = opponents.get(opponent.identityId) || { identityId: opponent.identityId, name: opponent.name, matchCount: 0 };
+      entry.matchCount++;
+      opponents.set(opponent.identityId, entry);
+    }
+  }
+  return [...opponents.values()].sort((a, b) => b.matchCount - a.matchCount || a.name.localeCompare(b.name));
+}
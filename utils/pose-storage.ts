@@ -6,7 +6,13 @@
  */
 
 import { storageLogger } from "@/lib/logger";
-import type { StoredPoseData, StoredPoseResult, StoredKeypoint } from "@/types/pose";
+import type {
+  PoseDataCompression,
+  StoredKeypoint,
+  StoredPoseData,
+  StoredPoseDataV2Header,
+  StoredPoseResult,
+} from "@/types/pose";
 
 // Type for runtime pose detection results (from TensorFlow.js)
 interface PoseDetectionResult {
@@ -20,6 +26,14 @@ interface PoseDetectionResult {
   id?: number;
 }
 
+// Model and video metadata stored with the poses
+export type PoseDataMetadata = {
+  model: "MoveNet" | "BlazePose";
+  modelType: string;
+  videoFPS: number;
+  videoDuration: number;
+};
+
 // ============================================================================
 // Serialization
 // ============================================================================
@@ -83,12 +97,7 @@ function poseToStored(pose: PoseDetectionResult): StoredPoseResult {
  */
 export function serializePoseData(
   poses: Map<number, PoseDetectionResult[]>,
-  metadata: {
-    model: "MoveNet" | "BlazePose";
-    modelType: string;
-    videoFPS: number;
-    videoDuration: number;
-  }
+  metadata: PoseDataMetadata
 ): StoredPoseData {
   const frames: StoredPoseData["frames"] = {};
   
@@ -112,12 +121,9 @@ export function serializePoseData(
 }
 
 /**
- * Deserialize StoredPoseData back to Map format for runtime use.
- * 
- * @param data - StoredPoseData from S3
- * @returns Map of frame number to pose detection results
+ * Convert a v1 StoredPoseData document back to Map format.
  */
-export function deserializePoseData(
+function deserializePoseDataV1(
   data: StoredPoseData
 ): Map<number, PoseDetectionResult[]> {
   const poses = new Map<number, PoseDetectionResult[]>();
@@ -140,6 +146,343 @@ export function deserializePoseData(
   return poses;
 }
 
+/**
+ * Deserialize stored pose data back to Map format for runtime use.
+ * Accepts a v1 JSON document or v2 binary data.
+ * 
+ * @param data - StoredPoseData (v1) or v2 bytes from S3
+ * @returns Map of frame number to pose detection results
+ */
+export async function deserializePoseData(
+  data: StoredPoseData | ArrayBuffer | Uint8Array
+): Promise<Map<number, PoseDetectionResult[]>> {
+  if (data instanceof ArrayBuffer || data instanceof Uint8Array) {
+    const { poses } = await readPoseDataV2(data);
+    return poses;
+  }
+  return deserializePoseDataV1(data);
+}
+
+// ============================================================================
+// Binary Format (v2)
+// ============================================================================
+//
+// Layout: "SPD2" magic, uint32 header length, UTF-8 JSON header
+// (StoredPoseDataV2Header), then the payload, compressed per the header.
+//
+// Payload sections (typed arrays, little-endian, in this order):
+//   frameDeltas      Uint32 × frames     frame number minus the previous stored frame
+//   posesPerFrame    Uint8  × frames
+//   keypointsPerPose Uint8  × poses
+//   poseFlags        Uint8  × poses      POSE_FLAG_SCORE | POSE_FLAG_ID
+//   poseScores       Uint16 × poses
+//   poseIds          Int32  × poses
+//   coordinates      Int32  × keypoints × 2  x/y deltas against the same pose slot
+//                                            and keypoint in the previous stored frame
+//   keypointScores   Uint16 × keypoints  0 = no score
+
+export const POSE_DATA_V2_CONTENT_TYPE = "application/vnd.sportai.pose-data.v2";
+
+const POSE_DATA_V2_MAGIC = "SPD2";
+const POSE_DATA_V2_PREAMBLE_BYTES = 8;
+// 4 decimals for coordinates and scores, matching the v1 rounding
+const DEFAULT_COORDINATE_SCALE = 10000;
+const DEFAULT_SCORE_SCALE = 10000;
+// Delta slots per pose; keypoint counts are stored as Uint8
+const MAX_KEYPOINTS_PER_POSE = 255;
+const MAX_POSES_PER_FRAME = 255;
+
+const POSE_FLAG_SCORE = 1;
+const POSE_FLAG_ID = 2;
+
+export interface SerializePoseDataV2Options {
+  compression?: PoseDataCompression;
+  // Names to store in the header; defaults to the names on the first named pose
+  keypointNames?: string[];
+}
+
+/**
+ * Check for the v2 magic bytes.
+ */
+export function isPoseDataV2(bytes: ArrayBuffer | Uint8Array): boolean {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  if (view.length < POSE_DATA_V2_PREAMBLE_BYTES) return false;
+  return String.fromCharCode(view[0], view[1], view[2], view[3]) === POSE_DATA_V2_MAGIC;
+}
+
+function getCompressionFormat(compression: Exclude<PoseDataCompression, "none">): CompressionFormat {
+  // "brotli" is not in the DOM typings; runtimes without it throw on construction
+  return compression as CompressionFormat;
+}
+
+async function transformBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  compression: PoseDataCompression,
+  direction: "compress" | "decompress"
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (compression === "none") return bytes;
+
+  let stream: CompressionStream | DecompressionStream;
+  try {
+    const format = getCompressionFormat(compression);
+    stream = direction === "compress" ? new CompressionStream(format) : new DecompressionStream(format);
+  } catch {
+    throw new Error(`${compression} compression is not supported in this environment`);
+  }
+
+  const response = new Response(new Blob([bytes]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+function inferKeypointNames(poses: Map<number, PoseDetectionResult[]>): string[] {
+  for (const poseResults of poses.values()) {
+    for (const pose of poseResults) {
+      if (pose.keypoints.some(kp => kp.name)) {
+        return pose.keypoints.map((kp, index) => kp.name || `keypoint_${index}`);
+      }
+    }
+  }
+  return [];
+}
+
+function concatBytes(parts: ArrayBufferView[]): Uint8Array<ArrayBuffer> {
+  const total = parts.reduce((sum, part) => sum + part.byteLength, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(new Uint8Array(part.buffer, part.byteOffset, part.byteLength), offset);
+    offset += part.byteLength;
+  }
+  return result;
+}
+
+/**
+ * Serialize preprocessed poses to the compact v2 binary format.
+ * 
+ * @param poses - Map of frame number to pose detection results
+ * @param metadata - Model/video metadata (or any JSON fields) kept in the header
+ * @param options - Compression and keypoint names
+ * @returns v2 bytes ready for upload
+ */
+export async function serializePoseDataV2(
+  poses: Map<number, PoseDetectionResult[]>,
+  metadata: Record<string, unknown>,
+  options: SerializePoseDataV2Options = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  const compression = options.compression ?? "gzip";
+  const coordinateScale = DEFAULT_COORDINATE_SCALE;
+  const scoreScale = DEFAULT_SCORE_SCALE;
+
+  // Frames without poses are kept so "no pose" stays distinct from "not processed"
+  const frames = [...poses.entries()].sort(([a], [b]) => a - b);
+
+  let poseCount = 0;
+  let keypointCount = 0;
+  for (const [, poseResults] of frames) {
+    poseCount += Math.min(poseResults.length, MAX_POSES_PER_FRAME);
+    for (const pose of poseResults.slice(0, MAX_POSES_PER_FRAME)) {
+      keypointCount += Math.min(pose.keypoints.length, MAX_KEYPOINTS_PER_POSE);
+    }
+  }
+
+  const frameDeltas = new Uint32Array(frames.length);
+  const posesPerFrame = new Uint8Array(frames.length);
+  const keypointsPerPose = new Uint8Array(poseCount);
+  const poseFlags = new Uint8Array(poseCount);
+  const poseScores = new Uint16Array(poseCount);
+  const poseIds = new Int32Array(poseCount);
+  const coordinates = new Int32Array(keypointCount * 2);
+  const keypointScores = new Uint16Array(keypointCount);
+
+  // Last quantised x/y per pose slot and keypoint
+  const previous: Int32Array[] = [];
+  let previousFrame = 0;
+  let poseIndex = 0;
+  let keypointIndex = 0;
+
+  frames.forEach(([frameNumber, poseResults], frameIndex) => {
+    frameDeltas[frameIndex] = frameNumber - previousFrame;
+    previousFrame = frameNumber;
+
+    const framePoses = poseResults.slice(0, MAX_POSES_PER_FRAME);
+    posesPerFrame[frameIndex] = framePoses.length;
+
+    framePoses.forEach((pose, slot) => {
+      const keypoints = pose.keypoints.slice(0, MAX_KEYPOINTS_PER_POSE);
+      keypointsPerPose[poseIndex] = keypoints.length;
+      if (pose.score !== undefined) {
+        poseFlags[poseIndex] |= POSE_FLAG_SCORE;
+        poseScores[poseIndex] = Math.round(Math.min(Math.max(pose.score, 0), 1) * scoreScale);
+      }
+      if (pose.id !== undefined) {
+        poseFlags[poseIndex] |= POSE_FLAG_ID;
+        poseIds[poseIndex] = pose.id;
+      }
+
+      const prev = (previous[slot] ??= new Int32Array(MAX_KEYPOINTS_PER_POSE * 2));
+      keypoints.forEach((kp, k) => {
+        const x = Math.round(kp.x * coordinateScale);
+        const y = Math.round(kp.y * coordinateScale);
+        coordinates[keypointIndex * 2] = x - prev[k * 2];
+        coordinates[keypointIndex * 2 + 1] = y - prev[k * 2 + 1];
+        prev[k * 2] = x;
+        prev[k * 2 + 1] = y;
+
+        if (kp.score !== undefined) {
+          // Keep tiny scores distinguishable from "no score"
+          keypointScores[keypointIndex] = Math.max(1, Math.round(Math.min(Math.max(kp.score, 0), 1) * scoreScale));
+        }
+        keypointIndex++;
+      });
+      poseIndex++;
+    });
+  });
+
+  const header: StoredPoseDataV2Header = {
+    version: 2,
+    createdAt: new Date().toISOString(),
+    keypointNames: options.keypointNames ?? inferKeypointNames(poses),
+    frameCount: frames.length,
+    poseCount,
+    keypointCount,
+    coordinateScale,
+    scoreScale,
+    compression,
+    metadata,
+  };
+
+  const payload = await transformBytes(
+    concatBytes([frameDeltas, posesPerFrame, keypointsPerPose, poseFlags, poseScores, poseIds, coordinates, keypointScores]),
+    compression,
+    "compress"
+  );
+
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const preamble = new Uint8Array(POSE_DATA_V2_PREAMBLE_BYTES);
+  preamble.set(new TextEncoder().encode(POSE_DATA_V2_MAGIC), 0);
+  new DataView(preamble.buffer).setUint32(4, headerBytes.length, true);
+
+  return concatBytes([preamble, headerBytes, payload]);
+}
+
+/**
+ * Read the header only, without decoding the frames.
+ */
+export function readPoseDataV2Header(bytes: ArrayBuffer | Uint8Array): StoredPoseDataV2Header {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  if (!isPoseDataV2(view)) {
+    throw new Error("Not a v2 pose data file");
+  }
+  const headerLength = new DataView(view.buffer, view.byteOffset, view.byteLength).getUint32(4, true);
+  const headerBytes = view.subarray(POSE_DATA_V2_PREAMBLE_BYTES, POSE_DATA_V2_PREAMBLE_BYTES + headerLength);
+  return JSON.parse(new TextDecoder().decode(headerBytes)) as StoredPoseDataV2Header;
+}
+
+/**
+ * Decode a v2 binary pose file.
+ * 
+ * @returns The header and a Map of frame number to pose detection results
+ */
+export async function readPoseDataV2(bytes: ArrayBuffer | Uint8Array): Promise<{
+  header: StoredPoseDataV2Header;
+  poses: Map<number, PoseDetectionResult[]>;
+}> {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  const header = readPoseDataV2Header(view);
+  const headerLength = new DataView(view.buffer, view.byteOffset, view.byteLength).getUint32(4, true);
+
+  const payload = await transformBytes(
+    view.slice(POSE_DATA_V2_PREAMBLE_BYTES + headerLength),
+    header.compression,
+    "decompress"
+  );
+
+  // Copy each section into its own buffer so typed arrays are aligned
+  let offset = 0;
+  const take = (byteLength: number) => {
+    const section = payload.slice(offset, offset + byteLength).buffer;
+    offset += byteLength;
+    return section;
+  };
+  const { frameCount, poseCount, keypointCount, coordinateScale, scoreScale, keypointNames } = header;
+  const frameDeltas = new Uint32Array(take(frameCount * 4));
+  const posesPerFrame = new Uint8Array(take(frameCount));
+  const keypointsPerPose = new Uint8Array(take(poseCount));
+  const poseFlags = new Uint8Array(take(poseCount));
+  const poseScores = new Uint16Array(take(poseCount * 2));
+  const poseIds = new Int32Array(take(poseCount * 4));
+  const coordinates = new Int32Array(take(keypointCount * 8));
+  const keypointScores = new Uint16Array(take(keypointCount * 2));
+
+  if (offset > payload.length) {
+    throw new Error("Pose data v2 payload is truncated");
+  }
+
+  const poses = new Map<number, PoseDetectionResult[]>();
+  const previous: Int32Array[] = [];
+  let frameNumber = 0;
+  let poseIndex = 0;
+  let keypointIndex = 0;
+
+  for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+    frameNumber += frameDeltas[frameIndex];
+    const framePoses: PoseDetectionResult[] = [];
+
+    for (let slot = 0; slot < posesPerFrame[frameIndex]; slot++) {
+      const prev = (previous[slot] ??= new Int32Array(MAX_KEYPOINTS_PER_POSE * 2));
+      const keypoints: PoseDetectionResult["keypoints"] = [];
+
+      for (let k = 0; k < keypointsPerPose[poseIndex]; k++) {
+        prev[k * 2] += coordinates[keypointIndex * 2];
+        prev[k * 2 + 1] += coordinates[keypointIndex * 2 + 1];
+
+        const keypoint: PoseDetectionResult["keypoints"][0] = {
+          x: prev[k * 2] / coordinateScale,
+          y: prev[k * 2 + 1] / coordinateScale,
+        };
+        if (keypointScores[keypointIndex] > 0) {
+          keypoint.score = keypointScores[keypointIndex] / scoreScale;
+        }
+        if (keypointNames[k]) {
+          keypoint.name = keypointNames[k];
+        }
+        keypoints.push(keypoint);
+        keypointIndex++;
+      }
+
+      const pose: PoseDetectionResult = { keypoints };
+      if (poseFlags[poseIndex] & POSE_FLAG_SCORE) {
+        pose.score = poseScores[poseIndex] / scoreScale;
+      }
+      if (poseFlags[poseIndex] & POSE_FLAG_ID) {
+        pose.id = poseIds[poseIndex];
+      }
+      framePoses.push(pose);
+      poseIndex++;
+    }
+
+    poses.set(frameNumber, framePoses);
+  }
+
+  return { header, poses };
+}
+
+/**
+ * Upgrade a v1 document to v2 bytes, keeping its model and video metadata.
+ */
+export async function upgradePoseData(
+  data: StoredPoseData,
+  options: SerializePoseDataV2Options = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  const metadata: PoseDataMetadata = {
+    model: data.model,
+    modelType: data.modelType,
+    videoFPS: data.videoFPS,
+    videoDuration: data.videoDuration,
+  };
+  return serializePoseDataV2(deserializePoseDataV1(data), { ...metadata, totalFrames: data.totalFrames }, options);
+}
+
 // ============================================================================
 // S3 Upload/Download
 // ============================================================================
@@ -147,28 +490,43 @@ export function deserializePoseData(
 /**
  * Generate S3 key for pose data based on video S3 key.
  * Pattern: users/{userId}/videos/{videoId}.mp4 -> users/{userId}/videos/{videoId}_poses.json
+ * (v2 binary data uses _poses.bin)
  */
-export function getPoseDataS3Key(videoS3Key: string): string {
-  // Remove file extension and add _poses.json
+export function getPoseDataS3Key(videoS3Key: string, version: 1 | 2 = 1): string {
+  // Remove file extension and add _poses.json / _poses.bin
   const basePath = videoS3Key.replace(/\.[^.]+$/, "");
-  return `${basePath}_poses.json`;
+  return version === 2 ? `${basePath}_poses.bin` : `${basePath}_poses.json`;
+}
+
+/**
+ * S3 key used by /api/pose-data, which keeps each video's pose data in its own
+ * folder named after the flattened video key (v1 data is gzipped JSON).
+ */
+export function getPoseDataApiKey(videoS3Key: string, version: 1 | 2 = 2): string {
+  const sanitizedKey = videoS3Key.replace(/\//g, "_");
+  return version === 2
+    ? `pose-data/videos/${sanitizedKey}/poses.v2.bin`
+    : `pose-data/videos/${sanitizedKey}/poses.json.gz`;
 }
 
 /**
  * Upload serialized pose data to S3.
  * 
  * @param videoS3Key - S3 key of the associated video
- * @param poseData - Serialized pose data
+ * @param poseData - Serialized pose data (v1 JSON document or v2 bytes)
  * @returns S3 key where pose data was stored
  */
 export async function uploadPoseData(
   videoS3Key: string,
-  poseData: StoredPoseData
+  poseData: StoredPoseData | Uint8Array<ArrayBuffer>
 ): Promise<string> {
-  const poseS3Key = getPoseDataS3Key(videoS3Key);
-  const jsonString = JSON.stringify(poseData);
+  const isBinary = poseData instanceof Uint8Array;
+  const poseS3Key = getPoseDataS3Key(videoS3Key, isBinary ? 2 : 1);
+  const body = isBinary ? poseData : JSON.stringify(poseData);
+  const contentType = isBinary ? POSE_DATA_V2_CONTENT_TYPE : "application/json";
+  const byteLength = isBinary ? poseData.length : new Blob([body]).size;
   
-  storageLogger.debug(`📤 Uploading pose data to S3: ${poseS3Key} (${(jsonString.length / 1024).toFixed(1)} KB)`);
+  storageLogger.debug(`📤 Uploading pose data to S3: ${poseS3Key} (${(byteLength / 1024).toFixed(1)} KB)`);
   
   // Get presigned upload URL
   const urlResponse = await fetch("/api/s3/upload-url", {
@@ -176,7 +534,7 @@ export async function uploadPoseData(
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
       fileName: poseS3Key.split("/").pop(),
-      contentType: "application/json",
+      contentType,
     }),
   });
   
@@ -186,11 +544,11 @@ export async function uploadPoseData(
   
   const { uploadUrl, key } = await urlResponse.json();
   
-  // Upload the JSON data
+  // Upload the pose data
   const uploadResponse = await fetch(uploadUrl, {
     method: "PUT",
-    headers: { "Content-Type": "application/json" },
-    body: jsonString,
+    headers: { "Content-Type": contentType },
+    body,
   });
   
   if (!uploadResponse.ok) {
@@ -203,6 +561,7 @@ export async function uploadPoseData(
 
 /**
  * Download pose data from S3.
+ * Reads v1 JSON and v2 binary data transparently.
  * 
  * @param poseS3Key - S3 key for the pose data
  * @returns Deserialized pose data Map, or null if not found
@@ -230,7 +589,7 @@ export async function downloadPoseData(
     
     const { downloadUrl } = await urlResponse.json();
     
-    // Download the JSON data
+    // Download the pose data
     const dataResponse = await fetch(downloadUrl);
     
     if (!dataResponse.ok) {
@@ -238,7 +597,15 @@ export async function downloadPoseData(
       return null;
     }
     
-    const storedData: StoredPoseData = await dataResponse.json();
+    const bytes = new Uint8Array(await dataResponse.arrayBuffer());
+    
+    if (isPoseDataV2(bytes)) {
+      const { header, poses } = await readPoseDataV2(bytes);
+      storageLogger.debug(`✅ Pose data (v2) downloaded: ${header.frameCount} frames, model: ${String(header.metadata.model)}`);
+      return poses;
+    }
+    
+    const storedData: StoredPoseData = JSON.parse(new TextDecoder().decode(bytes));
     
     storageLogger.debug(`✅ Pose data downloaded: ${storedData.totalFrames} frames, model: ${storedData.model}`);
     
@@ -251,55 +618,74 @@ export async function downloadPoseData(
 
 /**
  * Check if pose data exists in S3 for a given video.
- * Uses a HEAD request to check without downloading.
+ * Uses HEAD requests to check without downloading; either version counts.
  * 
  * @param videoS3Key - S3 key of the video
  * @returns true if pose data exists
  */
 export async function checkPoseDataExists(videoS3Key: string): Promise<boolean> {
-  const poseS3Key = getPoseDataS3Key(videoS3Key);
-  
-  try {
-    const urlResponse = await fetch("/api/s3/download-url", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        key: poseS3Key,
-        expiresIn: 60, // Short expiry for check
-      }),
-    });
-    
-    if (!urlResponse.ok) {
-      return false;
+  for (const version of [2, 1] as const) {
+    try {
+      const urlResponse = await fetch("/api/s3/download-url", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          key: getPoseDataS3Key(videoS3Key, version),
+          expiresIn: 60, // Short expiry for check
+        }),
+      });
+      
+      if (!urlResponse.ok) {
+        continue;
+      }
+      
+      const { downloadUrl } = await urlResponse.json();
+      
+      // HEAD request to check if file exists without downloading
+      const headResponse = await fetch(downloadUrl, { method: "HEAD" });
+      if (headResponse.ok) {
+        return true;
+      }
+    } catch {
+      // Try the other version
     }
-    
-    const { downloadUrl } = await urlResponse.json();
-    
-    // HEAD request to check if file exists without downloading
-    const headResponse = await fetch(downloadUrl, { method: "HEAD" });
-    return headResponse.ok;
-  } catch {
-    return false;
   }
+
+  return false;
+}
+
+export interface PoseDataSizeEstimate {
+  /** v1 JSON document */
+  v1: number;
+  /** v2 binary data before compression */
+  v2: number;
+  /** v2 size as a fraction of v1 */
+  ratio: number;
 }
 
 /**
- * Estimate the storage size of pose data in bytes.
+ * Estimate the storage size of pose data in bytes for both formats.
  * Useful for UI feedback before upload.
  */
-export function estimatePoseDataSize(poses: Map<number, PoseDetectionResult[]>): number {
+export function estimatePoseDataSize(poses: Map<number, PoseDetectionResult[]>): PoseDataSizeEstimate {
   // Rough estimate: ~70 bytes per keypoint in JSON
   // MoveNet: 17 keypoints, BlazePose: 33 keypoints
   let totalKeypoints = 0;
+  let totalPoses = 0;
   
   poses.forEach((poseResults) => {
+    totalPoses += poseResults.length;
     poseResults.forEach((pose) => {
       totalKeypoints += pose.keypoints.length;
     });
   });
   
-  // ~70 bytes per keypoint + ~50 bytes overhead per frame
-  return totalKeypoints * 70 + poses.size * 50;
+  // v1: ~70 bytes per keypoint + ~50 bytes overhead per frame
+  const v1 = totalKeypoints * 70 + poses.size * 50;
+  // v2: 10 bytes per keypoint, 8 per pose, 5 per frame, plus the header
+  const v2 = totalKeypoints * 10 + totalPoses * 8 + poses.size * 5 + 512;
+  
+  return { v1, v2, ratio: v1 > 0 ? v2 / v1 : 0 };
 }
 
 
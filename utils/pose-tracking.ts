@@ -0,0 +1,399 @@
+/**
+ * Multi-person Pose Tracking
+ * Assigns stable IDs to poses across frames so a player keeps the same
+ * identity through crossings and short occlusions.
+ *
+ * Matching runs in two stages per frame:
+ * - Recent tracks: IoU of the motion-predicted box + mean keypoint distance
+ * - Lost tracks: re-identification by body proportions, size and position
+ */
+
+import type { Keypoint } from "@tensorflow-models/pose-detection";
+import type { PoseDetectionResult } from "@/hooks/usePoseDetection";
+
+export interface PoseTrackerOptions {
+  minKeypointScore?: number; // Keypoints below this are ignored for matching
+  maxMatchCost?: number; // 0-1, max cost to continue a recent track
+  maxGapFrames?: number; // Frames a track counts as recent
+  maxLostFrames?: number; // Frames a lost track stays available for re-identification
+  reidMaxCost?: number; // 0-1, max cost to re-identify a lost track
+  iouWeight?: number; // 0-1, weight of box IoU vs keypoint distance
+}
+
+interface Box {
+  xMin: number;
+  yMin: number;
+  xMax: number;
+  yMax: number;
+}
+
+interface Track {
+  id: number;
+  box: Box;
+  keypoints: Keypoint[];
+  velocity: { x: number; y: number }; // px/frame of the box center
+  descriptor: Array<number | null>;
+  lastFrame: number;
+  hits: number;
+}
+
+interface Candidate {
+  track: Track;
+  detection: number;
+  cost: number;
+}
+
+// Keypoint indices for MoveNet (COCO-17); BlazePose is matched by name
+const KEYPOINT_INDEX: Record<string, number> = {
+  left_shoulder: 5,
+  right_shoulder: 6,
+  left_elbow: 7,
+  right_elbow: 8,
+  left_wrist: 9,
+  right_wrist: 10,
+  left_hip: 11,
+  right_hip: 12,
+  left_knee: 13,
+  right_knee: 14,
+  left_ankle: 15,
+  right_ankle: 16,
+};
+
+// Segments whose length relative to the torso identifies a body
+const DESCRIPTOR_SEGMENTS: Array<[string, string]> = [
+  ["left_shoulder", "right_shoulder"],
+  ["left_hip", "right_hip"],
+  ["left_shoulder", "left_elbow"],
+  ["right_shoulder", "right_elbow"],
+  ["left_elbow", "left_wrist"],
+  ["right_elbow", "right_wrist"],
+  ["left_hip", "left_knee"],
+  ["right_hip", "right_knee"],
+  ["left_knee", "left_ankle"],
+  ["right_knee", "right_ankle"],
+];
+
+const DESCRIPTOR_SMOOTHING = 0.2;
+const VELOCITY_SMOOTHING = 0.5;
+
+function getKeypoint(keypoints: Keypoint[], name: string, minScore: number): Keypoint | null {
+  const keypoint = keypoints.find((k) => k.name === name) ?? keypoints[KEYPOINT_INDEX[name]];
+  if (!keypoint || (keypoint.score ?? 1) < minScore) return null;
+  return keypoint;
+}
+
+function distance(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function getPoseBox(keypoints: Keypoint[], minScore: number): Box | null {
+  const visible = keypoints.filter((k) => (k.score ?? 1) >= minScore);
+  // Low-confidence poses still need a box to be tracked at all
+  const points = visible.length >= 2 ? visible : keypoints;
+  if (points.length === 0) return null;
+
+  const xs = points.map((k) => k.x);
+  const ys = points.map((k) => k.y);
+  return { xMin: Math.min(...xs), yMin: Math.min(...ys), xMax: Math.max(...xs), yMax: Math.max(...ys) };
+}
+
+function boxCenter(box: Box) {
+  return { x: (box.xMin + box.xMax) / 2, y: (box.yMin + box.yMax) / 2 };
+}
+
+function boxDiagonal(box: Box): number {
+  return Math.hypot(box.xMax - box.xMin, box.yMax - box.yMin);
+}
+
+function shiftBox(box: Box, dx: number, dy: number): Box {
+  return { xMin: box.xMin + dx, yMin: box.yMin + dy, xMax: box.xMax + dx, yMax: box.yMax + dy };
+}
+
+function boxIoU(a: Box, b: Box): number {
+  const width = Math.min(a.xMax, b.xMax) - Math.max(a.xMin, b.xMin);
+  const height = Math.min(a.yMax, b.yMax) - Math.max(a.yMin, b.yMin);
+  if (width <= 0 || height <= 0) return 0;
+
+  const intersection = width * height;
+  const union =
+    (a.xMax - a.xMin) * (a.yMax - a.yMin) + (b.xMax - b.xMin) * (b.yMax - b.yMin) - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Segment lengths normalized by torso length (null where not visible)
+ */
+function getBodyDescriptor(keypoints: Keypoint[], minScore: number): Array<number | null> {
+  const point = (name: string) => getKeypoint(keypoints, name, minScore);
+  const ls = point("left_shoulder");
+  const rs = point("right_shoulder");
+  const lh = point("left_hip");
+  const rh = point("right_hip");
+
+  const empty = DESCRIPTOR_SEGMENTS.map(() => null);
+  if (!ls || !rs || !lh || !rh) return empty;
+
+  const torso = distance(
+    { x: (ls.x + rs.x) / 2, y: (ls.y + rs.y) / 2 },
+    { x: (lh.x + rh.x) / 2, y: (lh.y + rh.y) / 2 }
+  );
+  if (torso < 1) return empty;
+
+  return DESCRIPTOR_SEGMENTS.map(([from, to]) => {
+    const a = point(from);
+    const b = point(to);
+    return a && b ? distance(a, b) / torso : null;
+  });
+}
+
+function descriptorDistance(a: Array<number | null>, b: Array<number | null>): number | null {
+  let total = 0;
+  let count = 0;
+  a.forEach((value, i) => {
+    const other = b[i];
+    if (value === null || other === null) return;
+    total += Math.abs(value - other) / Math.max(value, other, 0.01);
+    count++;
+  });
+  // Too few shared segments to say anything about identity
+  return count >= 3 ? Math.min(1, total / count) : null;
+}
+
+function mergeDescriptor(current: Array<number | null>, next: Array<number | null>): Array<number | null> {
+  return current.map((value, i) => {
+    const observed = next[i];
+    if (observed === null) return value;
+    if (value === null) return observed;
+    return value + (observed - value) * DESCRIPTOR_SMOOTHING;
+  });
+}
+
+// Assign cheapest pairs first; ties resolved by track then detection order for determinism
+function assignGreedy(candidates: Candidate[], usedTracks: Set<number>, usedDetections: Set<number>) {
+  const assignments: Array<{ track: Track; detection: number }> = [];
+  candidates
+    .sort((a, b) => a.cost - b.cost || a.track.id - b.track.id || a.detection - b.detection)
+    .forEach(({ track, detection }) => {
+      if (usedTracks.has(track.id) || usedDetections.has(detection)) return;
+      usedTracks.add(track.id);
+      usedDetections.add(detection);
+      assignments.push({ track, detection });
+    });
+  return assignments;
+}
+
+export class PoseTracker {
+  private minKeypointScore: number;
+  private maxMatchCost: number;
+  private maxGapFrames: number;
+  private maxLostFrames: number;
+  private reidMaxCost: number;
+  private iouWeight: number;
+  private tracks: Map<number, Track>;
+  private nextId: number;
+
+  constructor(options: PoseTrackerOptions = {}) {
+    this.minKeypointScore = options.minKeypointScore ?? 0.3;
+    this.maxMatchCost = options.maxMatchCost ?? 0.7;
+    this.maxGapFrames = options.maxGapFrames ?? 10;
+    this.maxLostFrames = options.maxLostFrames ?? 90;
+    this.reidMaxCost = options.reidMaxCost ?? 0.5;
+    this.iouWeight = options.iouWeight ?? 0.5;
+    this.tracks = new Map();
+    this.nextId = 1;
+  }
+
+  /**
+   * Match a frame's poses to existing tracks.
+   * Frames must be passed in increasing order; returns copies of the poses with `id` set.
+   */
+  update(poses: PoseDetectionResult[], frame: number): PoseDetectionResult[] {
+    const boxes = poses.map((pose) => getPoseBox(pose.keypoints, this.minKeypointScore));
+    const usedTracks = new Set<number>();
+    const usedDetections = new Set<number>();
+    const ids: Array<number | undefined> = [];
+
+    // Poses without keypoints can't be tracked
+    boxes.forEach((box, i) => {
+      if (!box) usedDetections.add(i);
+    });
+
+    // Stage 1: continue recent tracks
+    const recent: Candidate[] = [];
+    this.tracks.forEach((track) => {
+      const gap = frame - track.lastFrame;
+      if (gap <= 0 || gap > this.maxGapFrames) return;
+      boxes.forEach((box, detection) => {
+        if (!box) return;
+        const cost = this.getMatchCost(track, gap, poses[detection].keypoints, box);
+        if (cost <= this.maxMatchCost) recent.push({ track, detection, cost });
+      });
+    });
+    assignGreedy(recent, usedTracks, usedDetections).forEach(({ track, detection }) => {
+      ids[detection] = track.id;
+    });
+
+    // Stage 2: re-identify tracks lost to occlusion or missed detections
+    const lost: Candidate[] = [];
+    this.tracks.forEach((track) => {
+      if (usedTracks.has(track.id) || frame - track.lastFrame <= 0) return;
+      boxes.forEach((box, detection) => {
+        if (!box || usedDetections.has(detection)) return;
+        const cost = this.getReidCost(track, poses[detection].keypoints, box);
+        if (cost <= this.reidMaxCost) lost.push({ track, detection, cost });
+      });
+    });
+    assignGreedy(lost, usedTracks, usedDetections).forEach(({ track, detection }) => {
+      ids[detection] = track.id;
+    });
+
+    const tracked = poses.map((pose, i) => {
+      const box = boxes[i];
+      if (!box) return { ...pose };
+
+      let id = ids[i];
+      if (id === undefined) {
+        id = this.nextId++;
+        this.tracks.set(id, {
+          id,
+          box,
+          keypoints: pose.keypoints,
+          velocity: { x: 0, y: 0 },
+          descriptor: getBodyDescriptor(pose.keypoints, this.minKeypointScore),
+          lastFrame: frame,
+          hits: 1,
+        });
+      } else {
+        this.updateTrack(this.tracks.get(id)!, pose.keypoints, box, frame);
+      }
+      return { ...pose, id };
+    });
+
+    this.tracks.forEach((track, id) => {
+      if (frame - track.lastFrame > this.maxLostFrames) this.tracks.delete(id);
+    });
+
+    return tracked;
+  }
+
+  reset(): void {
+    this.tracks.clear();
+    this.nextId = 1;
+  }
+
+  private getMatchCost(track: Track, gap: number, keypoints: Keypoint[], box: Box): number {
+    const dx = track.velocity.x * gap;
+    const dy = track.velocity.y * gap;
+    const iouCost = 1 - boxIoU(shiftBox(track.box, dx, dy), box);
+
+    let total = 0;
+    let count = 0;
+    keypoints.forEach((keypoint, i) => {
+      const previous = track.keypoints[i];
+      if (!previous || (keypoint.score ?? 1) < this.minKeypointScore) return;
+      if ((previous.score ?? 1) < this.minKeypointScore) return;
+      total += distance(keypoint, { x: previous.x + dx, y: previous.y + dy });
+      count++;
+    });
+    const scale = Math.max((boxDiagonal(track.box) + boxDiagonal(box)) / 2, 1);
+    const keypointCost = count > 0 ? Math.min(1, total / count / scale) : 1;
+
+    return this.iouWeight * iouCost + (1 - this.iouWeight) * keypointCost;
+  }
+
+  private getReidCost(track: Track, keypoints: Keypoint[], box: Box): number {
+    const trackHeight = Math.max(track.box.yMax - track.box.yMin, 1);
+    const height = Math.max(box.yMax - box.yMin, 1);
+    const heightCost = 1 - Math.min(trackHeight, height) / Math.max(trackHeight, height);
+    // Players rarely move more than a few body heights while hidden
+    const positionCost = Math.min(1, distance(boxCenter(track.box), boxCenter(box)) / (trackHeight * 4));
+    const appearanceCost =
+      descriptorDistance(track.descriptor, getBodyDescriptor(keypoints, this.minKeypointScore)) ?? 0.5;
+
+    return appearanceCost * 0.5 + heightCost * 0.25 + positionCost * 0.25;
+  }
+
+  private updateTrack(track: Track, keypoints: Keypoint[], box: Box, frame: number) {
+    const gap = Math.max(frame - track.lastFrame, 1);
+    const previous = boxCenter(track.box);
+    const current = boxCenter(box);
+    const velocity = { x: (current.x - previous.x) / gap, y: (current.y - previous.y) / gap };
+
+    track.velocity = {
+      x: track.velocity.x + (velocity.x - track.velocity.x) * VELOCITY_SMOOTHING,
+      y: track.velocity.y + (velocity.y - track.velocity.y) * VELOCITY_SMOOTHING,
+    };
+    track.box = box;
+    track.keypoints = keypoints;
+    track.descriptor = mergeDescriptor(track.descriptor, getBodyDescriptor(keypoints, this.minKeypointScore));
+    track.lastFrame = frame;
+    track.hits++;
+  }
+}
+
+/**
+ * Track a whole preprocessed video. Poses in each frame are sorted by track ID.
+ */
+export function trackPoseSequence(
+  posesByFrame: Map<number, PoseDetectionResult[]>,
+  options: PoseTrackerOptions = {}
+): Map<number, PoseDetectionResult[]> {
+  const tracker = new PoseTracker(options);
+  const tracked = new Map<number, PoseDetectionResult[]>();
+
+  Array.from(posesByFrame.keys())
+    .sort((a, b) => a - b)
+    .forEach((frame) => {
+      const poses = tracker.update(posesByFrame.get(frame) ?? [], frame);
+      tracked.set(frame, poses.sort((a, b) => (a.id ?? Infinity) - (b.id ?? Infinity)));
+    });
+
+  return tracked;
+}
+
+/**
+ * Keep only one track's pose per frame (empty where the player isn't visible)
+ */
+export function extractTrackPoses(
+  trackedPoses: Map<number, PoseDetectionResult[]>,
+  trackId: number
+): Map<number, PoseDetectionResult[]> {
+  const result = new Map<number, PoseDetectionResult[]>();
+  trackedPoses.forEach((poses, frame) => {
+    const pose = poses.find((p) => p.id === trackId);
+    result.set(frame, pose ? [pose] : []);
+  });
+  return result;
+}
+
+/**
+ * Find the pose under a point (video pixel coordinates), preferring the one
+ * whose center is closest when boxes overlap
+ */
+export function findPoseAtPoint(
+  poses: PoseDetectionResult[],
+  x: number,
+  y: number,
+  minKeypointScore = 0.3
+): PoseDetectionResult | null {
+  let best: PoseDetectionResult | null = null;
+  let bestDistance = Infinity;
+
+  poses.forEach((pose) => {
+    const box = getPoseBox(pose.keypoints, minKeypointScore);
+    if (!box) return;
+
+    // Keypoint boxes are tight around joints; pad so clicks on the body still hit
+    const padX = (box.xMax - box.xMin) * 0.15;
+    const padY = (box.yMax - box.yMin) * 0.1;
+    if (x < box.xMin - padX || x > box.xMax + padX || y < box.yMin - padY || y > box.yMax + padY) return;
+
+    const d = distance(boxCenter(box), { x, y });
+    if (d < bestDistance) {
+      best = pose;
+      bestDistance = d;
+    }
+  });
+
+  return best;
+}
@@ -0,0 +1,256 @@
+/**
+ * Rally Patterns
+ * Mines recurring shot sequences (n-grams) over whole rallies
+ *
+ * Each shot is reduced to a stroke and a direction:
+ * - Stroke: serve, forehand, backhand, overhead, lob, drop or other, plus volley
+ * - Direction: cross-court when the ball crosses between the left and right
+ *   thirds of the court, down the line when it stays in the same third,
+ *   middle otherwise; unknown without a hit location or landing bounce
+ *
+ * Every window of consecutive shots is an occurrence. The window that closes
+ * a rally also carries the rally outcome, so the same list answers "most
+ * frequent", "ends rallies", "before winners" and "before errors".
+ */
+
+import type { StatisticsResult, BallBounce, SwingWithPlayer } from "@/components/tasks/viewer/types";
+import { getFilteredPlayers } from "@/components/tasks/viewer/utils";
+import { getCalibrationSport, getCourtDimensions, type CalibrationSport } from "./court-calibration";
+import type { MatchScore } from "./match-score";
+
+export type ShotStroke = "serve" | "forehand" | "backhand" | "overhead" | "lob" | "drop" | "other";
+
+export type ShotDirection = "cross" | "line" | "middle";
+
+export type PatternEnding = "winner" | "error";
+
+/** Which occurrences of a pattern to count */
+export type PatternFilterKind = "all" | "ending" | PatternEnding;
+
+export interface PatternShot {
+  stroke: ShotStroke;
+  volley: boolean;
+  direction: ShotDirection | null;
+}
+
+export interface PatternOccurrence {
+  rallyIndex: number;
+  /** Index of the first shot of the window within the rally */
+  shotIndex: number;
+  /** Hit time of the first shot */
+  timestamp: number;
+  /** Player who hit the last shot of the window */
+  playerId: number;
+  /** The window holds the rally's final shots */
+  endsRally: boolean;
+  /** How the rally ended, when the window ends it and the outcome is known */
+  ending: PatternEnding | null;
+}
+
+export interface RallyPattern {
+  key: string;
+  shots: PatternShot[];
+  occurrences: PatternOccurrence[];
+}
+
+export interface RallyPatternReport {
+  sport: CalibrationSport;
+  rallyCount: number;
+  patterns: RallyPattern[];
+}
+
+export interface PatternFilter {
+  length: number;
+  kind: PatternFilterKind;
+  playerId?: number | null;
+  /** Only patterns containing this stroke */
+  stroke?: ShotStroke | null;
+}
+
+export interface PatternMatch {
+  pattern: RallyPattern;
+  count: number;
+  /** Rallies with a matching occurrence, in match order */
+  rallyIndices: number[];
+}
+
+export const PATTERN_LENGTHS = [2, 3, 4];
+
+// A pattern needs at least this many occurrences to count as recurring
+export const MIN_PATTERN_COUNT = 2;
+
+// Serves can be hit just before the detected rally start
+const RALLY_START_TOLERANCE_S = 1.0;
+
+// A bounce more than this long after a hit isn't that shot's landing
+const SHOT_WINDOW_S = 3.0;
+
+const STROKE_LABELS: Record<ShotStroke, string> = {
+  serve: "serve",
+  forehand: "forehand",
+  backhand: "backhand",
+  overhead: "overhead",
+  lob: "lob",
+  drop: "drop shot",
+  other: "shot",
+};
+
+const DIRECTION_LABELS: Record<ShotDirection, string> = {
+  cross: "Cross-court",
+  line: "Down-the-line",
+  middle: "Middle",
+};
+
+function getStroke(swing: SwingWithPlayer): ShotStroke {
+  if (swing.serve) return "serve";
+
+  const type = (swing.swing_type || "").toLowerCase();
+  if (type.includes("overhead") || type.includes("smash")) return "overhead";
+  if (type.includes("lob")) return "lob";
+  if (type.includes("drop")) return "drop";
+  if (type.startsWith("fh") || type.includes("forehand")) return "forehand";
+  if (type.includes("bh") || type.includes("backhand")) return "backhand";
+  return "other";
+}
+
+type CourtThird = "left" | "center" | "right";
+
+function getThird(x: number, width: number): CourtThird {
+  if (x < width / 3) return "left";
+  return x > (width * 2) / 3 ? "right" : "center";
+}
+
+function getDirection(
+  hit: [number, number],
+  landing: [number, number],
+  width: number
+): ShotDirection {
+  const from = getThird(hit[0], width);
+  const to = getThird(landing[0], width);
+  if (from === "center" || to === "center") return "middle";
+  return from === to ? "line" : "cross";
+}
+
+export function getPatternShotKey(shot: PatternShot): string {
+  return `${shot.stroke}${shot.volley ? "_volley" : ""}:${shot.direction ?? "unknown"}`;
+}
+
+/**
+ * "Cross-court forehand", "Backhand volley" (unknown direction)
+ */
+export function formatPatternShot(shot: PatternShot): string {
+  const stroke = `${STROKE_LABELS[shot.stroke]}${shot.volley ? " volley" : ""}`;
+  if (!shot.direction || shot.stroke === "serve") {
+    return stroke.charAt(0).toUpperCase() + stroke.slice(1);
+  }
+  return `${DIRECTION_LABELS[shot.direction]} ${stroke}`;
+}
+
+/**
+ * Mine every shot n-gram of every rally. Returns null for sports without
+ * known court lines or tasks without rallies.
+ */
+export function computeRallyPatterns(
+  result: StatisticsResult,
+  sport: string | undefined,
+  bounces: BallBounce[] = result.ball_bounces || [],
+  matchScore: MatchScore | null = null
+): RallyPatternReport | null {
+  const courtSport = getCalibrationSport(sport);
+  const rallies = result.rallies || [];
+  if (!courtSport || rallies.length === 0) return null;
+
+  const { width } = getCourtDimensions(courtSport);
+  const playerIds = getFilteredPlayers(result.players || []).map(p => p.player_id);
+  const swings: SwingWithPlayer[] = (result.players || [])
+    .filter(p => playerIds.includes(p.player_id))
+    .flatMap(p => p.swings.map(s => ({ ...s, player_id: p.player_id })))
+    .sort((a, b) => a.ball_hit.timestamp - b.ball_hit.timestamp);
+
+  // Only floor bounces have reliable court positions
+  const floorBounces = bounces
+    .filter(b => b.type === "floor")
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const patterns = new Map<string, RallyPattern>();
+
+  rallies.forEach(([start, end], rallyIndex) => {
+    const rallySwings = swings.filter(
+      s => s.ball_hit.timestamp >= start - RALLY_START_TOLERANCE_S && s.ball_hit.timestamp <= end
+    );
+
+    const shots = rallySwings.map((swing, idx): PatternShot => {
+      const hitTime = swing.ball_hit.timestamp;
+      const nextHitTime = rallySwings[idx + 1]?.ball_hit.timestamp ?? Infinity;
+      const landing = floorBounces.find(
+        b => b.timestamp > hitTime && b.timestamp < Math.min(nextHitTime, hitTime + SHOT_WINDOW_S)
+      );
+
+      return {
+        stroke: getStroke(swing),
+        volley: swing.volley || (swing.swing_type || "").toLowerCase().includes("volley"),
+        direction: swing.ball_hit_location && landing
+          ? getDirection(swing.ball_hit_location, landing.court_pos, width)
+          : null,
+      };
+    });
+
+    const outcome = matchScore?.rallies[rallyIndex]?.outcome;
+    const ending: PatternEnding | null = outcome?.reason === "winner"
+      ? "winner"
+      : outcome?.reason === "out" || outcome?.reason === "net"
+        ? "error"
+        : null;
+
+    for (const length of PATTERN_LENGTHS) {
+      for (let shotIndex = 0; shotIndex + length <= shots.length; shotIndex++) {
+        const window = shots.slice(shotIndex, shotIndex + length);
+        const key = window.map(getPatternShotKey).join(">");
+        const endsRally = shotIndex + length === shots.length;
+
+        let pattern = patterns.get(key);
+        if (!pattern) {
+          pattern = { key, shots: window, occurrences: [] };
+          patterns.set(key, pattern);
+        }
+        pattern.occurrences.push({
+          rallyIndex,
+          shotIndex,
+          timestamp: rallySwings[shotIndex].ball_hit.timestamp,
+          playerId: rallySwings[shotIndex + length - 1].player_id,
+          endsRally,
+          ending: endsRally ? ending : null,
+        });
+      }
+    }
+  });
+
+  return { sport: courtSport, rallyCount: rallies.length, patterns: [...patterns.values()] };
+}
+
+function matchesKind(occurrence: PatternOccurrence, kind: PatternFilterKind): boolean {
+  if (kind === "all") return true;
+  if (kind === "ending") return occurrence.endsRally;
+  return occurrence.ending === kind;
+}
+
+/**
+ * Recurring patterns for a filter, most frequent first
+ */
+export function filterRallyPatterns(report: RallyPatternReport, filter: PatternFilter): PatternMatch[] {
+  return report.patterns
+    .filter(p => p.shots.length === filter.length)
+    .filter(p => !filter.stroke || p.shots.some(s => s.stroke === filter.stroke))
+    .map((pattern): PatternMatch => {
+      const occurrences = pattern.occurrences.filter(
+        o => matchesKind(o, filter.kind) && (filter.playerId == null || o.playerId === filter.playerId)
+      );
+      return {
+        pattern,
+        count: occurrences.length,
+        rallyIndices: [...new Set(occurrences.map(o => o.rallyIndex))],
+      };
+    })
+    .filter(m => m.count >= MIN_PATTERN_COUNT)
+    .sort((a, b) => b.count - a.count || a.pattern.key.localeCompare(b.pattern.key));
+}
@@ -0,0 +1,316 @@
+/**
+ * Serve Analytics
+ * Per-player serve report built from `Swing.serve`, line calls and the
+ * inferred match score
+ *
+ * - First/second serve: a serve straight after a faulted serve by the same
+ *   player is a second serve (pickleball has one serve per point)
+ * - Placement: thirds of the service box, from the centre line out (T, body, wide)
+ * - Side: deuce (server's right) or ad (server's left), from the hit location
+ * - Returned: another player hit the ball after a serve that landed in
+ * - Points: won or lost by the server's team, from the rally outcomes
+ */
+
+import type { StatisticsResult, SwingWithPlayer } from "@/components/tasks/viewer/types";
+import { getFilteredPlayers } from "@/components/tasks/viewer/utils";
+import { getCalibrationSport, getCourtDimensions, type CalibrationSport } from "./court-calibration";
+import { getServiceArea, type LineCall, type LineCallReport } from "./line-calls";
+import type { MatchScore, TeamId } from "./match-score";
+
+export type ServeNumber = 1 | 2;
+export type ServeSide = "deuce" | "ad";
+export type ServeZone = "wide" | "body" | "T";
+export type ServeResult = "in" | "fault" | "unknown";
+
+export interface ServeEvent {
+  playerId: number;
+  timestamp: number;
+  serveNumber: ServeNumber;
+  side: ServeSide | null;
+  /** km/h, null when not measured */
+  speed: number | null;
+  result: ServeResult;
+  zone: ServeZone | null;
+  /** Serve landed in and the receiver got a racket on it; null when not in */
+  returned: boolean | null;
+  /** Server's team won the point; null unless this serve started a decided point */
+  pointWon: boolean | null;
+}
+
+export interface ServeSplit {
+  serves: number;
+  in: number;
+  faults: number;
+  /** In as a share of serves with a known result, 0-1 */
+  inRate: number;
+  returned: number;
+  /** Returned as a share of serves in, 0-1 */
+  returnRate: number;
+  pointsPlayed: number;
+  pointsWon: number;
+  /** 0-1 */
+  pointWinRate: number;
+  avgSpeed: number;
+  topSpeed: number;
+  zones: Record<ServeZone, number>;
+}
+
+export interface ServeSpeedBucket {
+  /** km/h, inclusive */
+  min: number;
+  /** km/h, exclusive */
+  max: number;
+  first: number;
+  second: number;
+}
+
+export interface PlayerServeReport {
+  playerId: number;
+  serves: number;
+  first: ServeSplit;
+  second: ServeSplit;
+  bySide: Record<ServeSide, ServeSplit>;
+  doubleFaults: number;
+  speedBuckets: ServeSpeedBucket[];
+}
+
+export interface ServeReport {
+  sport: CalibrationSport;
+  /** Tennis and padel allow a second serve after a fault */
+  hasSecondServe: boolean;
+  events: ServeEvent[];
+  players: PlayerServeReport[];
+}
+
+export const SERVE_ZONES: ServeZone[] = ["wide", "body", "T"];
+export const SERVE_SIDES: ServeSide[] = ["deuce", "ad"];
+
+// Longest gap between a fault and the second serve
+const SECOND_SERVE_WINDOW_S = 30;
+
+// A hit by another player this soon after the serve is the return
+const RETURN_WINDOW_S = 4;
+
+// Serves can be hit just before the detected rally start
+const RALLY_START_TOLERANCE_S = 1.0;
+
+const SPEED_BUCKET_KMH: Record<CalibrationSport, number> = {
+  tennis: 20,
+  padel: 10,
+  pickleball: 10,
+};
+
+function emptySplit(): ServeSplit {
+  return {
+    serves: 0,
+    in: 0,
+    faults: 0,
+    inRate: 0,
+    returned: 0,
+    returnRate: 0,
+    pointsPlayed: 0,
+    pointsWon: 0,
+    pointWinRate: 0,
+    avgSpeed: 0,
+    topSpeed: 0,
+    zones: { wide: 0, body: 0, T: 0 },
+  };
+}
+
+/**
+ * Deuce is the server's right. Near-side servers face the far end, so
+ * their right is +x; far-side servers face the other way.
+ */
+function getServeSide([x, y]: [number, number], sport: CalibrationSport): ServeSide {
+  const { width, length } = getCourtDimensions(sport);
+  const onRight = y >= length / 2 ? x >= width / 2 : x < width / 2;
+  return onRight ? "deuce" : "ad";
+}
+
+/**
+ * Third of the service box the serve landed in, measured from the centre line
+ */
+function getServeZone(
+  landing: [number, number],
+  serverPosition: [number, number],
+  sport: CalibrationSport
+): ServeZone {
+  const { width, length } = getCourtDimensions(sport);
+  const netY = length / 2;
+  const targetHalf = serverPosition[1] < netY ? "near" : "far";
+  const box = getServiceArea(sport, targetHalf, serverPosition[0]);
+  const centerX = width / 2;
+  const outerX = box.minX < centerX ? box.minX : box.maxX;
+  const fromCenter = Math.min(1, Math.abs(landing[0] - centerX) / Math.abs(outerX - centerX));
+
+  if (fromCenter < 1 / 3) return "T";
+  return fromCenter < 2 / 3 ? "body" : "wide";
+}
+
+function getRallyIndex(rallies: [number, number][], timestamp: number): number | null {
+  const idx = rallies.findIndex(
+    ([start, end]) => timestamp >= start - RALLY_START_TOLERANCE_S && timestamp <= end
+  );
+  return idx >= 0 ? idx : null;
+}
+
+function summarize(events: ServeEvent[]): ServeSplit {
+  const split = emptySplit();
+  const speeds: number[] = [];
+
+  for (const event of events) {
+    split.serves++;
+    if (event.result === "in") split.in++;
+    if (event.result === "fault") split.faults++;
+    if (event.returned) split.returned++;
+    if (event.pointWon !== null) {
+      split.pointsPlayed++;
+      if (event.pointWon) split.pointsWon++;
+    }
+    if (event.zone) split.zones[event.zone]++;
+    if (event.speed !== null) speeds.push(event.speed);
+  }
+
+  const known = split.in + split.faults;
+  split.inRate = known > 0 ? split.in / known : 0;
+  split.returnRate = split.in > 0 ? split.returned / split.in : 0;
+  split.pointWinRate = split.pointsPlayed > 0 ? split.pointsWon / split.pointsPlayed : 0;
+  split.avgSpeed = speeds.length > 0 ? speeds.reduce((a, b) => a + b, 0) / speeds.length : 0;
+  split.topSpeed = speeds.length > 0 ? Math.max(...speeds) : 0;
+
+  return split;
+}
+
+function buildSpeedBuckets(events: ServeEvent[], bucketSize: number): ServeSpeedBucket[] {
+  const speeds = events.map(e => e.speed).filter((s): s is number => s !== null);
+  if (speeds.length === 0) return [];
+
+  const low = Math.floor(Math.min(...speeds) / bucketSize) * bucketSize;
+  const high = Math.floor(Math.max(...speeds) / bucketSize) * bucketSize;
+  const buckets: ServeSpeedBucket[] = [];
+
+  for (let min = low; min <= high; min += bucketSize) {
+    buckets.push({ min, max: min + bucketSize, first: 0, second: 0 });
+  }
+  for (const event of events) {
+    if (event.speed === null) continue;
+    const bucket = buckets[Math.floor((event.speed - low) / bucketSize)];
+    if (event.serveNumber === 1) bucket.first++;
+    else bucket.second++;
+  }
+
+  return buckets;
+}
+
+/**
+ * Build the serve report for a task. Returns null for sports without known
+ * court lines or when no serves were detected.
+ */
+export function computeServeReport(
+  result: StatisticsResult,
+  sport: string | undefined,
+  lineCalls: LineCallReport | null,
+  matchScore: MatchScore | null = null
+): ServeReport | null {
+  const courtSport = getCalibrationSport(sport);
+  if (!courtSport) return null;
+
+  const hasSecondServe = courtSport !== "pickleball";
+  const playerIds = getFilteredPlayers(result.players || []).map(p => p.player_id);
+  const swings: SwingWithPlayer[] = (result.players || [])
+    .filter(p => playerIds.includes(p.player_id))
+    .flatMap(p => p.swings.map(s => ({ ...s, player_id: p.player_id })))
+    .sort((a, b) => a.ball_hit.timestamp - b.ball_hit.timestamp);
+
+  if (!swings.some(s => s.serve)) return null;
+
+  // Line call for each serve, keyed by server and hit time
+  const serveCalls = new Map<string, LineCall>();
+  for (const call of lineCalls?.calls || []) {
+    if (call.isServe && call.hitterId !== null && call.hitTimestamp !== null) {
+      serveCalls.set(`${call.hitterId}:${call.hitTimestamp}`, call);
+    }
+  }
+
+  const getTeam = (playerId: number): TeamId | null => {
+    if (!matchScore) return null;
+    if (matchScore.teams.A.playerIds.includes(playerId)) return "A";
+    if (matchScore.teams.B.playerIds.includes(playerId)) return "B";
+    return null;
+  };
+
+  const rallies = result.rallies || [];
+  const events: ServeEvent[] = [];
+  let previous: { event: ServeEvent; swingIdx: number } | null = null;
+
+  swings.forEach((swing, swingIdx) => {
+    if (!swing.serve) return;
+
+    const timestamp = swing.ball_hit.timestamp;
+    const call = serveCalls.get(`${swing.player_id}:${timestamp}`);
+    const outcome: ServeResult = !call ? "unknown" : call.verdict === "out" ? "fault" : "in";
+
+    // Second serve: same server, straight after a fault, nothing hit in between
+    const serveNumber: ServeNumber = hasSecondServe
+      && previous !== null
+      && previous.event.playerId === swing.player_id
+      && previous.event.serveNumber === 1
+      && previous.event.result === "fault"
+      && previous.swingIdx === swingIdx - 1
+      && timestamp - previous.event.timestamp < SECOND_SERVE_WINDOW_S
+      ? 2
+      : 1;
+
+    const next = swings[swingIdx + 1];
+    const returned = outcome === "in"
+      ? !!next && next.player_id !== swing.player_id && next.ball_hit.timestamp - timestamp < RETURN_WINDOW_S
+      : null;
+
+    // The point is played off this serve unless it's a first serve fault
+    let pointWon: boolean | null = null;
+    const decidesPoint = outcome === "in" || (outcome === "fault" && (serveNumber === 2 || !hasSecondServe));
+    const rallyIndex = getRallyIndex(rallies, timestamp);
+    const winner = rallyIndex !== null ? matchScore?.rallies[rallyIndex]?.outcome.winner : null;
+    const team = getTeam(swing.player_id);
+    if (decidesPoint && winner && team) {
+      pointWon = winner === team;
+    }
+
+    const event: ServeEvent = {
+      playerId: swing.player_id,
+      timestamp,
+      serveNumber,
+      side: swing.ball_hit_location ? getServeSide(swing.ball_hit_location, courtSport) : null,
+      speed: swing.ball_speed > 0 ? swing.ball_speed : null,
+      result: outcome,
+      zone: outcome === "in" && call && swing.ball_hit_location
+        ? getServeZone(call.bounce.court_pos, swing.ball_hit_location, courtSport)
+        : null,
+      returned,
+      pointWon,
+    };
+
+    events.push(event);
+    previous = { event, swingIdx };
+  });
+
+  const players = playerIds
+    .map((playerId): PlayerServeReport => {
+      const own = events.filter(e => e.playerId === playerId);
+      return {
+        playerId,
+        serves: own.length,
+        first: summarize(own.filter(e => e.serveNumber === 1)),
+        second: summarize(own.filter(e => e.serveNumber === 2)),
+        bySide: {
+          deuce: summarize(own.filter(e => e.side === "deuce")),
+          ad: summarize(own.filter(e => e.side === "ad")),
+        },
+        doubleFaults: own.filter(e => e.serveNumber === 2 && e.result === "fault").length,
+        speedBuckets: buildSpeedBuckets(own, SPEED_BUCKET_KMH[courtSport]),
+      };
+    })
+    .filter(p => p.serves > 0);
+
+  return { sport: courtSport, hasSecondServe, events, players };
+}
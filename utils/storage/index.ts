@@ -123,6 +123,17 @@ export {
   migrateGuestTasks,
 } from "./guest-tasks";
 
+// ============================================
+// Reference Swings
+// ============================================
+export {
+  getReferenceSwings,
+  saveReferenceSwing,
+  deleteReferenceSwing,
+  type ReferenceSwing,
+  type ReferenceSwingSport,
+} from "./reference-swings";
+
 
 
 
@@ -0,0 +1,102 @@
+/**
+ * Reference swing library using localStorage
+ * Stores pro clips and players' own best swings per sport and swing type,
+ * for DTW comparison in the swing curve view
+ */
+
+import type { SwingFrameDataV3, SwingType } from "@/components/videoPoseViewerV2/hooks";
+
+const REFERENCE_SWINGS_KEY = "sportai_reference_swings";
+
+// Frame data is ~100 numbers per frame, so keep each library small
+const MAX_SWINGS_PER_LIBRARY = 10;
+
+export type ReferenceSwingSport = "tennis" | "padel" | "pickleball";
+
+export interface ReferenceSwing {
+  id: string;
+  name: string;
+  sport: ReferenceSwingSport;
+  swingType: SwingType;
+  source: "pro" | "own";
+  /** Hitting side, so arm curves are compared against the same arm */
+  dominantSide: "left" | "right" | "both";
+  createdAt: string;
+  fps: number;
+  /** Phase boundaries as indices into frameData */
+  phases: {
+    loadingStart: number;
+    swingStart: number;
+    contactFrame: number;
+    followEnd: number;
+  };
+  /** Frame data from loading start to follow-through end */
+  frameData: SwingFrameDataV3[];
+}
+
+type ReferenceLibraries = Record<string, ReferenceSwing[]>;
+
+function getLibraryKey(sport: ReferenceSwingSport, swingType: SwingType): string {
+  return `${sport}:${swingType}`;
+}
+
+function loadLibraries(): ReferenceLibraries {
+  if (typeof window === "undefined") return {};
+
+  try {
+    const stored = localStorage.getItem(REFERENCE_SWINGS_KEY);
+    return stored ? (JSON.parse(stored) as ReferenceLibraries) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveLibraries(libraries: ReferenceLibraries): void {
+  try {
+    localStorage.setItem(REFERENCE_SWINGS_KEY, JSON.stringify(libraries));
+    // Dispatch event to notify listeners of library changes
+    window.dispatchEvent(new CustomEvent("reference-swings-changed"));
+  } catch (e) {
+    // localStorage might be full
+    console.warn("Failed to save reference swings:", e);
+  }
+}
+
+/**
+ * Get the reference swings for a sport and swing type (newest first)
+ */
+export function getReferenceSwings(sport: ReferenceSwingSport, swingType: SwingType): ReferenceSwing[] {
+  const swings = loadLibraries()[getLibraryKey(sport, swingType)] ?? [];
+  return [...swings].sort((a, b) =>
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+}
+
+/**
+ * Add a reference swing to its library, dropping the oldest when full
+ */
+export function saveReferenceSwing(swing: ReferenceSwing): void {
+  if (typeof window === "undefined") return;
+
+  const libraries = loadLibraries();
+  const key = getLibraryKey(swing.sport, swing.swingType);
+  const swings = (libraries[key] ?? []).filter(s => s.id !== swing.id);
+  swings.push(swing);
+
+  libraries[key] = swings
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .slice(0, MAX_SWINGS_PER_LIBRARY);
+  saveLibraries(libraries);
+}
+
+/**
+ * Remove a reference swing from its library
+ */
+export function deleteReferenceSwing(sport: ReferenceSwingSport, swingType: SwingType, id: string): void {
+  if (typeof window === "undefined") return;
+
+  const libraries = loadLibraries();
+  const key = getLibraryKey(sport, swingType);
+  libraries[key] = (libraries[key] ?? []).filter(s => s.id !== id);
+  saveLibraries(libraries);
+}
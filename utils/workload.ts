@@ -0,0 +1,286 @@
+/**
+ * Workload
+ * Per-player workload over time from tracked court positions and swings
+ *
+ * - Distance: sum of position steps, skipping tracking jumps
+ * - Sprints: movement bursts above sprint speed, with hysteresis
+ * - Swing rate and average ball speed per window
+ * - Energy: resting rate from height and weight (Mifflin-St Jeor, age and
+ *   sex neutral) plus ~1 kcal per kg per km moved
+ *
+ * Declines compare the last third of the match with the first third.
+ */
+
+import type { StatisticsResult, PlayerPosition } from "@/components/tasks/viewer/types";
+import { getFilteredPlayers } from "@/components/tasks/viewer/utils";
+import type { UnitsPreference } from "@/types/profile";
+
+export type WorkloadMetric = "distance" | "sprints" | "swingRate" | "ballSpeed";
+
+export interface BodyMeasurements {
+  heightCm: number;
+  weightKg: number;
+  /** Measurements come from the user's profile rather than reference values */
+  fromProfile: boolean;
+}
+
+export interface WorkloadWindow {
+  start: number;
+  end: number;
+  /** Meters */
+  distance: number;
+  sprints: number;
+  /** Swings per minute */
+  swingRate: number;
+  /** Average ball speed in km/h, 0 without measured swings */
+  ballSpeed: number;
+  /** Kilocalories */
+  energy: number;
+}
+
+export interface WorkloadDecline {
+  metric: WorkloadMetric;
+  early: number;
+  late: number;
+  /** Relative drop, 0-1 */
+  drop: number;
+}
+
+export interface PlayerWorkload {
+  playerId: number;
+  windows: WorkloadWindow[];
+  totals: {
+    distance: number;
+    sprints: number;
+    swings: number;
+    energy: number;
+  };
+  declines: WorkloadDecline[];
+}
+
+export interface WorkloadReport {
+  /** Seconds */
+  windowSize: number;
+  body: BodyMeasurements;
+  players: Record<number, PlayerWorkload>;
+}
+
+export const WORKLOAD_METRICS: WorkloadMetric[] = ["distance", "sprints", "swingRate", "ballSpeed"];
+
+// Reference adult used when the profile has no height or weight
+const REFERENCE_BODY: BodyMeasurements = { heightCm: 175, weightKg: 75, fromProfile: false };
+
+// Aim for this many windows per match, in whole minutes
+const TARGET_WINDOWS = 12;
+
+// Steps faster than this are tracking jumps, not movement (m/s)
+const MAX_STEP_SPEED_MS = 10;
+
+// Positions are resampled to this interval before measuring speed
+const SPEED_SAMPLE_S = 0.5;
+
+// A sprint starts above the first speed and ends below the second (m/s)
+const SPRINT_START_MS = 4.0;
+const SPRINT_END_MS = 3.0;
+
+// Late-match metrics this much below early-match ones are flagged
+const DECLINE_THRESHOLD = 0.15;
+
+// Fewest windows needed to compare early and late match
+const MIN_DECLINE_WINDOWS = 3;
+
+// Net cost of moving on foot, kcal per kg per km
+const MOVEMENT_KCAL_PER_KG_KM = 1.0;
+
+// Mifflin-St Jeor constants for an unknown age and sex
+const REFERENCE_AGE = 30;
+const NEUTRAL_SEX_OFFSET = -78;
+
+/**
+ * Body measurements in metric from a profile, falling back to a reference
+ * adult for missing values
+ */
+export function getBodyMeasurements(profile: {
+  height?: number | null;
+  weight?: number | null;
+  units_preference?: UnitsPreference | null;
+} | null): BodyMeasurements {
+  if (!profile?.height && !profile?.weight) return REFERENCE_BODY;
+
+  const imperial = profile.units_preference === "imperial";
+  return {
+    heightCm: profile.height ? (imperial ? profile.height * 2.54 : profile.height) : REFERENCE_BODY.heightCm,
+    weightKg: profile.weight ? (imperial ? profile.weight * 0.4536 : profile.weight) : REFERENCE_BODY.weightKg,
+    fromProfile: true,
+  };
+}
+
+function getRestingKcalPerSecond({ heightCm, weightKg }: BodyMeasurements): number {
+  const perDay = 10 * weightKg + 6.25 * heightCm - 5 * REFERENCE_AGE + NEUTRAL_SEX_OFFSET;
+  return perDay / 86400;
+}
+
+function getWindowSize(duration: number): number {
+  return Math.max(60, Math.ceil(duration / TARGET_WINDOWS / 60) * 60);
+}
+
+function getCourtPositions(positions: PlayerPosition[]): { t: number; x: number; y: number }[] {
+  return positions
+    .filter(p => p.court_X !== undefined && p.court_Y !== undefined)
+    .map(p => ({ t: p.timestamp, x: p.court_X!, y: p.court_Y! }))
+    .sort((a, b) => a.t - b.t);
+}
+
+/**
+ * Distance per window and sprint start times from resampled positions
+ */
+function measureMovement(
+  positions: { t: number; x: number; y: number }[],
+  windowSize: number,
+  windowCount: number
+): { distance: number[]; sprintStarts: number[] } {
+  const distance = new Array(windowCount).fill(0);
+  const sprintStarts: number[] = [];
+  let anchor = positions[0];
+  let sprinting = false;
+
+  for (const p of positions.slice(1)) {
+    const dt = p.t - anchor.t;
+    if (dt < SPEED_SAMPLE_S) continue;
+
+    const step = Math.hypot(p.x - anchor.x, p.y - anchor.y);
+    const speed = step / dt;
+    anchor = p;
+    if (speed > MAX_STEP_SPEED_MS) continue;
+
+    const windowIdx = Math.min(windowCount - 1, Math.floor(p.t / windowSize));
+    distance[windowIdx] += step;
+
+    if (!sprinting && speed >= SPRINT_START_MS) {
+      sprinting = true;
+      sprintStarts.push(p.t);
+    } else if (sprinting && speed < SPRINT_END_MS) {
+      sprinting = false;
+    }
+  }
+
+  return { distance, sprintStarts };
+}
+
+/**
+ * Per-minute rate (or average, for ball speed) of a metric in one window
+ */
+export function getWorkloadValue(window: WorkloadWindow, metric: WorkloadMetric): number {
+  const minutes = (window.end - window.start) / 60;
+  switch (metric) {
+    case "distance":
+      return window.distance / minutes;
+    case "sprints":
+      return window.sprints / minutes;
+    case "swingRate":
+      return window.swingRate;
+    case "ballSpeed":
+      return window.ballSpeed;
+  }
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/**
+ * Per-minute rates in the last third of the match against the first third
+ */
+function findDeclines(windows: WorkloadWindow[]): WorkloadDecline[] {
+  if (windows.length < MIN_DECLINE_WINDOWS) return [];
+
+  const third = Math.max(1, Math.floor(windows.length / 3));
+  const declines: WorkloadDecline[] = [];
+
+  for (const metric of WORKLOAD_METRICS) {
+    // Ball speed only counts windows with measured swings
+    const values = (ws: WorkloadWindow[]) => ws
+      .filter(w => metric !== "ballSpeed" || w.ballSpeed > 0)
+      .map(w => getWorkloadValue(w, metric));
+    const early = mean(values(windows.slice(0, third)));
+    const late = mean(values(windows.slice(-third)));
+
+    if (early > 0 && late < early * (1 - DECLINE_THRESHOLD)) {
+      declines.push({ metric, early, late, drop: 1 - late / early });
+    }
+  }
+
+  return declines;
+}
+
+/**
+ * Workload windows for every tracked player. Returns null when the task has
+ * neither court positions nor swings.
+ */
+export function computeWorkload(
+  result: StatisticsResult,
+  body: BodyMeasurements = REFERENCE_BODY,
+  duration?: number
+): WorkloadReport | null {
+  const playerIds = new Set(getFilteredPlayers(result.players || []).map(p => p.player_id));
+  const players = (result.players || []).filter(p => playerIds.has(p.player_id));
+  if (players.length === 0) return null;
+
+  // Position tracks are long, so no spreading into Math.max
+  let lastTimestamp = 0;
+  for (const player of players) {
+    for (const swing of player.swings) lastTimestamp = Math.max(lastTimestamp, swing.ball_hit.timestamp);
+    for (const position of result.player_positions?.[String(player.player_id)] || []) {
+      lastTimestamp = Math.max(lastTimestamp, position.timestamp);
+    }
+  }
+  const matchLength = Math.max(duration || 0, lastTimestamp);
+  if (matchLength <= 0) return null;
+
+  const windowSize = getWindowSize(matchLength);
+  // A short final stretch is merged into the last window
+  const windowCount = Math.max(1, Math.round(matchLength / windowSize));
+  const restingPerSecond = getRestingKcalPerSecond(body);
+  const report: WorkloadReport = { windowSize, body, players: {} };
+
+  for (const player of players) {
+    const positions = getCourtPositions(result.player_positions?.[String(player.player_id)] || []);
+    const movement = positions.length > 1
+      ? measureMovement(positions, windowSize, windowCount)
+      : { distance: new Array(windowCount).fill(0), sprintStarts: [] };
+
+    const windows = Array.from({ length: windowCount }, (_, idx): WorkloadWindow => {
+      const start = idx * windowSize;
+      const isLast = idx === windowCount - 1;
+      const end = isLast ? matchLength : start + windowSize;
+      const inWindow = (t: number) => t >= start && (t < end || (isLast && t <= end));
+      const swings = player.swings.filter(s => inWindow(s.ball_hit.timestamp));
+      const speeds = swings.map(s => s.ball_speed).filter(s => s > 0);
+      const distance = movement.distance[idx];
+
+      return {
+        start,
+        end,
+        distance,
+        sprints: movement.sprintStarts.filter(inWindow).length,
+        swingRate: swings.length / ((end - start) / 60),
+        ballSpeed: mean(speeds),
+        energy: restingPerSecond * (end - start) + MOVEMENT_KCAL_PER_KG_KM * body.weightKg * (distance / 1000),
+      };
+    });
+
+    report.players[player.player_id] = {
+      playerId: player.player_id,
+      windows,
+      totals: {
+        distance: windows.reduce((sum, w) => sum + w.distance, 0),
+        sprints: movement.sprintStarts.length,
+        swings: player.swings.length,
+        energy: windows.reduce((sum, w) => sum + w.energy, 0),
+      },
+      declines: findDeclines(windows),
+    };
+  }
+
+  return report;
+}